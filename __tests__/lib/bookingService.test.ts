@@ -0,0 +1,67 @@
+/**
+ * Booking Service Tests
+ * Tests for booking date helpers and cancellation rules
+ */
+
+import {
+  canCancelBooking,
+  getEarliestBookingDate,
+  toBookingDateString,
+  createBooking,
+} from '@/lib/bookingService';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+describe('toBookingDateString', () => {
+  it('formats local dates as YYYY-MM-DD', () => {
+    expect(toBookingDateString(new Date(2025, 0, 5, 23, 30))).toBe('2025-01-05');
+    expect(toBookingDateString(new Date(2025, 11, 31))).toBe('2025-12-31');
+  });
+});
+
+describe('getEarliestBookingDate', () => {
+  it('returns the start of the next day', () => {
+    const earliest = getEarliestBookingDate(new Date(2025, 1, 28, 18, 0));
+    expect(toBookingDateString(earliest)).toBe('2025-03-01');
+    expect(earliest.getHours()).toBe(0);
+  });
+});
+
+describe('canCancelBooking', () => {
+  const now = new Date('2025-06-10T12:00:00Z');
+
+  it('allows cancelling active bookings more than 24 hours ahead', () => {
+    expect(canCancelBooking({ status: 'pending', bookingDate: '2025-06-12' }, now)).toBe(true);
+    expect(canCancelBooking({ status: 'confirmed', bookingDate: '2025-06-12' }, now)).toBe(true);
+  });
+
+  it('blocks cancelling inside the 24 hour window', () => {
+    expect(canCancelBooking({ status: 'confirmed', bookingDate: '2025-06-11' }, now)).toBe(false);
+    expect(canCancelBooking({ status: 'pending', bookingDate: '2025-06-10' }, now)).toBe(false);
+  });
+
+  it('never allows cancelling finished bookings', () => {
+    expect(canCancelBooking({ status: 'cancelled', bookingDate: '2025-07-01' }, now)).toBe(false);
+    expect(canCancelBooking({ status: 'completed', bookingDate: '2025-07-01' }, now)).toBe(false);
+  });
+});
+
+describe('createBooking validation', () => {
+  it('rejects guest counts outside the allowed range', async () => {
+    const { data, error } = await createBooking('user-1', 'tour-1', {
+      bookingDate: '2999-01-01',
+      numberOfGuests: 0,
+    });
+    expect(data).toBeNull();
+    expect(error).toContain('Kişi sayısı');
+  });
+
+  it('rejects dates before tomorrow', async () => {
+    const { data, error } = await createBooking('user-1', 'tour-1', {
+      bookingDate: toBookingDateString(new Date()),
+      numberOfGuests: 2,
+    });
+    expect(data).toBeNull();
+    expect(error).toBe('Rezervasyon tarihi ileri bir tarih olmalıdır');
+  });
+});
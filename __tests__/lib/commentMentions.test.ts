@@ -0,0 +1,60 @@
+/**
+ * Comment Mentions Tests
+ * Tests for @mention parsing and highlighting
+ */
+
+import { getMentionQuery, insertMention, resolveMentions, splitMentions } from '@/lib/commentMentions';
+
+const ali = { id: 'u1', fullName: 'Ali' };
+const aliCan = { id: 'u2', fullName: 'Ali Can' };
+
+describe('getMentionQuery', () => {
+  it('returns the text typed after @', () => {
+    expect(getMentionQuery('Hello @Al')).toBe('Al');
+    expect(getMentionQuery('@')).toBe('');
+    expect(getMentionQuery('Hi @Ali Ca')).toBe('Ali Ca');
+  });
+
+  it('ignores emails and finished lines', () => {
+    expect(getMentionQuery('mail me@example.com')).toBeNull();
+    expect(getMentionQuery('@Ali\nsee you')).toBeNull();
+    expect(getMentionQuery('no mention')).toBeNull();
+  });
+
+  it('reads up to the cursor', () => {
+    expect(getMentionQuery('Hey @Ay and more', 7)).toBe('Ay');
+  });
+});
+
+describe('insertMention', () => {
+  it('replaces the typed query with the full name', () => {
+    expect(insertMention('Hello @Al', 9, 'Ali Can')).toEqual({ text: 'Hello @Ali Can ', cursor: 15 });
+  });
+
+  it('keeps text after the cursor', () => {
+    expect(insertMention('Hey @Al see you', 7, 'Ali')).toEqual({ text: 'Hey @Ali see you', cursor: 9 });
+  });
+});
+
+describe('resolveMentions', () => {
+  it('keeps picked mentions still in the text once', () => {
+    expect(resolveMentions('Thanks @Ali Can!', [aliCan, ali, aliCan, { id: 'u3', fullName: 'Zeynep' }]))
+      .toEqual([aliCan, ali]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits out mentioned names, longest first', () => {
+    expect(splitMentions('Hi @Ali Can and @Ali!', [ali, aliCan])).toEqual([
+      { text: 'Hi ' },
+      { text: '@Ali Can', userId: 'u2' },
+      { text: ' and ' },
+      { text: '@Ali', userId: 'u1' },
+      { text: '!' },
+    ]);
+  });
+
+  it('returns plain text without mentions', () => {
+    expect(splitMentions('Just text', [])).toEqual([{ text: 'Just text' }]);
+  });
+});
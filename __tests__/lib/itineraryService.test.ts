@@ -0,0 +1,87 @@
+/**
+ * Itinerary Service Tests
+ * Tests for next stop selection, geofenced check-in and travel estimates
+ */
+
+import {
+  createRouteProgress,
+  findStopInGeofence,
+  formatDistance,
+  getDayProgressCount,
+  getNextStop,
+  getNextStopInfo,
+} from '@/lib/itineraryService';
+import { estimateTravelMinutes, getDistanceKm } from '@/lib/routeService';
+import { RouteDay } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@/lib/imageOptimizer', () => ({
+  optimizeRouteCoverImage: jest.fn(),
+  optimizeRouteStopImage: jest.fn(),
+}));
+jest.mock('base64-arraybuffer', () => ({ decode: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+const day: RouteDay = {
+  dayIndex: 1,
+  title: 'Girne',
+  stops: [
+    { id: 'castle', order: 1, type: 'poi', name: 'Girne Kalesi', latitude: 35.3417, longitude: 33.3209 },
+    { id: 'harbour', order: 0, type: 'poi', name: 'Antik Liman', latitude: 35.3408, longitude: 33.3192 },
+    { id: 'bellapais', order: 2, type: 'poi', name: 'Bellapais', latitude: 35.3064, longitude: 33.3547 },
+    { id: 'lunch', order: 3, type: 'restaurant', name: 'Öğle yemeği' },
+  ],
+};
+
+describe('getDistanceKm', () => {
+  it('computes haversine distance', () => {
+    const km = getDistanceKm({ latitude: 35.3417, longitude: 33.3209 }, { latitude: 35.3064, longitude: 33.3547 });
+    expect(km).toBeGreaterThan(4.8);
+    expect(km).toBeLessThan(5.1);
+  });
+});
+
+describe('estimateTravelMinutes', () => {
+  it('walks short legs and drives long ones', () => {
+    expect(estimateTravelMinutes(0.75).mode).toBe('walk');
+    expect(estimateTravelMinutes(0.75).minutes).toBe(10);
+    expect(estimateTravelMinutes(15).mode).toBe('drive');
+    expect(estimateTravelMinutes(15).minutes).toBe(20);
+  });
+});
+
+describe('getNextStop', () => {
+  it('follows stop order and skips visited stops', () => {
+    expect(getNextStop(day)?.id).toBe('harbour');
+
+    const progress = { ...createRouteProgress('r1'), checkIns: { harbour: '2026-01-01T09:00:00Z' }, skippedStopIds: ['castle'] };
+    expect(getNextStop(day, progress)?.id).toBe('bellapais');
+    expect(getDayProgressCount(day, progress)).toBe(2);
+  });
+
+  it('has no distance without a position or coordinates', () => {
+    const info = getNextStopInfo(day, undefined, null);
+    expect(info?.distanceKm).toBeNull();
+    expect(info?.mode).toBeNull();
+  });
+});
+
+describe('findStopInGeofence', () => {
+  it('returns the closest unvisited stop within the radius', () => {
+    const position = { latitude: 35.3416, longitude: 33.3207 };
+    expect(findStopInGeofence(day, undefined, position)?.id).toBe('castle');
+
+    const progress = { ...createRouteProgress('r1'), checkIns: { castle: '2026-01-01T09:00:00Z' } };
+    expect(findStopInGeofence(day, progress, position)).toBeNull();
+  });
+});
+
+describe('formatDistance', () => {
+  it('uses metres below one kilometre', () => {
+    expect(formatDistance(0.85)).toBe('850 m');
+    expect(formatDistance(12.44)).toBe('12.4 km');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Map Cluster Service Tests
+ * Tests for viewport bounds and grid clustering on the Explore map
+ */
+
+import {
+  clusterTours,
+  getClusterRegion,
+  getFetchBounds,
+  isBoundsInside,
+  regionToBounds,
+  TourCluster,
+} from '@/lib/mapClusterService';
+import { Tour } from '@/types';
+
+const makeTour = (id: string, latitude: number, longitude: number): Tour => ({
+  id,
+  title: `Tour ${id}`,
+  location: 'Girne',
+  description: '',
+  duration: '2 saat',
+  rating: 0,
+  reviewCount: 0,
+  image: '',
+  highlights: [],
+  category: 'history',
+  latitude,
+  longitude,
+});
+
+const region = { latitude: 35.3, longitude: 33.5, latitudeDelta: 0.8, longitudeDelta: 0.8 };
+
+describe('viewport bounds', () => {
+  it('converts a region to bounds and pads fetch bounds', () => {
+    const bounds = regionToBounds(region);
+    expect(bounds.minLat).toBeCloseTo(34.9);
+    expect(bounds.maxLng).toBeCloseTo(33.9);
+
+    const fetchBounds = getFetchBounds(region);
+    expect(isBoundsInside(bounds, fetchBounds)).toBe(true);
+    expect(isBoundsInside(fetchBounds, bounds)).toBe(false);
+  });
+
+  it('detects small pans inside the loaded box', () => {
+    const loaded = getFetchBounds(region);
+    const panned = regionToBounds({ ...region, latitude: 35.4 });
+    expect(isBoundsInside(panned, loaded)).toBe(true);
+  });
+});
+
+describe('clusterTours', () => {
+  const tours = [
+    makeTour('a', 35.341, 33.321),
+    makeTour('b', 35.342, 33.322),
+    makeTour('c', 35.343, 33.323),
+    makeTour('d', 35.185, 33.903),
+    { ...makeTour('e', 0, 0), latitude: undefined, longitude: undefined },
+  ];
+
+  it('groups nearby tours and keeps isolated ones as markers', () => {
+    const items = clusterTours(tours, region);
+    const clusters = items.filter(i => i.type === 'cluster');
+    const singles = items.filter(i => i.type === 'tour');
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].type === 'cluster' && clusters[0].cluster.count).toBe(3);
+    expect(singles).toHaveLength(1);
+  });
+
+  it('does not cluster when zoomed in', () => {
+    const items = clusterTours(tours, { ...region, latitudeDelta: 0.01, longitudeDelta: 0.01 });
+    expect(items.every(i => i.type === 'tour')).toBe(true);
+    expect(items).toHaveLength(4);
+  });
+});
+
+describe('getClusterRegion', () => {
+  it('zooms to at least half the current span', () => {
+    const [item] = clusterTours(
+      [makeTour('a', 35.0, 33.0), makeTour('b', 35.09, 33.09)],
+      { latitude: 35, longitude: 33, latitudeDelta: 2, longitudeDelta: 2 }
+    );
+    const cluster = (item as { type: 'cluster'; cluster: TourCluster }).cluster;
+
+    const target = getClusterRegion(cluster, { ...region, latitudeDelta: 2 });
+    expect(target.latitudeDelta).toBeLessThanOrEqual(1);
+    expect(target.latitude).toBeCloseTo(35.045);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Map Pack Service Tests
+ * Tests for route bounds and tile planning
+ */
+
+import {
+  countTilesForBounds,
+  getRouteBounds,
+  getTilesForBounds,
+  latToTileY,
+  lngToTileX,
+  planMapPack,
+  MAP_PACK_MAX_TILES,
+  MAP_PACK_MIN_ZOOM,
+} from '@/lib/mapPackService';
+import { ThematicRoute } from '@/types';
+
+jest.mock('@/lib/imageOptimizer', () => ({
+  cacheRemoteImage: jest.fn(),
+  getImageFileName: (url: string) => `${url.length}.img`,
+  isRemoteImageUrl: (url: string) => url.startsWith('http'),
+}));
+jest.mock('expo-file-system/next', () => ({ Directory: jest.fn(), File: jest.fn(), Paths: {} }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+const makeRoute = (coords: [number, number][]): ThematicRoute => ({
+  id: 'route-1',
+  slug: 'route-1',
+  title: 'Girne',
+  theme: 'history',
+  baseLocation: 'Girne',
+  durationDays: 1,
+  coverImage: '',
+  tags: [],
+  itinerary: [
+    {
+      dayIndex: 1,
+      title: 'Day 1',
+      stops: coords.map(([latitude, longitude], i) => ({
+        id: `stop-${i}`,
+        order: i,
+        type: 'poi' as const,
+        name: `Stop ${i}`,
+        latitude,
+        longitude,
+      })),
+    },
+  ],
+});
+
+describe('getRouteBounds', () => {
+  it('pads the box around all stops', () => {
+    const bounds = getRouteBounds(makeRoute([[35.34, 33.32], [35.29, 33.56]]));
+    expect(bounds?.minLat).toBeCloseTo(35.27);
+    expect(bounds?.maxLat).toBeCloseTo(35.36);
+    expect(bounds?.minLng).toBeCloseTo(33.3);
+    expect(bounds?.maxLng).toBeCloseTo(33.58);
+  });
+
+  it('returns null when no stop has coordinates', () => {
+    expect(getRouteBounds(makeRoute([]))).toBeNull();
+  });
+});
+
+describe('tile math', () => {
+  it('matches known slippy map indices', () => {
+    expect(lngToTileX(0, 1)).toBe(1);
+    expect(latToTileY(0, 1)).toBe(1);
+    expect(lngToTileX(33.32, 10)).toBe(606);
+    expect(latToTileY(35.34, 10)).toBe(404);
+  });
+
+  it('covers the bounds at every zoom level', () => {
+    const tiles = getTilesForBounds({ minLat: 35.3, maxLat: 35.35, minLng: 33.3, maxLng: 33.35 }, 9, 10);
+    expect(tiles.filter(t => t.z === 9)).toHaveLength(1);
+    expect(tiles.every(t => t.z >= 9 && t.z <= 10)).toBe(true);
+  });
+
+  it('counts the same tiles it lists', () => {
+    const bounds = { minLat: 35.0, maxLat: 35.6, minLng: 32.5, maxLng: 34.4 };
+    expect(countTilesForBounds(bounds, 9, 13)).toBe(getTilesForBounds(bounds, 9, 13).length);
+  });
+});
+
+describe('planMapPack', () => {
+  it('lowers the max zoom to stay within the tile budget', () => {
+    // Girne to Karpaz spans most of the island
+    const plan = planMapPack(makeRoute([[35.34, 33.32], [35.6, 34.38]]));
+    expect(plan).not.toBeNull();
+    expect(plan!.tiles.length).toBeLessThanOrEqual(MAP_PACK_MAX_TILES);
+    expect(plan!.maxZoom).toBeGreaterThanOrEqual(MAP_PACK_MIN_ZOOM);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Meeting Calendar Service Tests
+ * Tests for the iCalendar export and schedule helpers
+ */
+
+import { buildMeetingICS, getRepeatOption, getUpcomingSessions } from '@/lib/meetingCalendarService';
+import { toUtf8Bytes } from '@/lib/qrCode';
+import { MeetingSession } from '@/types';
+
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(),
+  Paths: { cache: 'file:///cache/' },
+}));
+
+const makeSession = (overrides: Partial<MeetingSession> = {}): MeetingSession => ({
+  id: 'session-1',
+  hostId: 'host-1',
+  title: 'Sunset hike',
+  destinationText: 'Avakas Gorge',
+  status: 'draft',
+  maxParticipants: 15,
+  requiresApproval: false,
+  durationMinutes: 120,
+  timezone: 'Europe/Nicosia',
+  recurrenceInterval: 1,
+  scheduledAt: '2026-07-04T15:30:00.000Z',
+  createdAt: '2026-07-01T10:00:00.000Z',
+  updatedAt: '2026-07-01T10:00:00.000Z',
+  ...overrides,
+});
+
+const NOW = new Date('2026-07-01T12:00:00.000Z');
+
+describe('buildMeetingICS', () => {
+  it('writes an event in the session time zone', () => {
+    const ics = buildMeetingICS([makeSession()], NOW);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:session-1@cyprigo.app');
+    expect(ics).toContain('DTSTAMP:20260701T120000Z');
+    // Cyprus is UTC+3 in summer
+    expect(ics).toContain('DTSTART;TZID=Europe/Nicosia:20260704T183000');
+    expect(ics).toContain('DTEND;TZID=Europe/Nicosia:20260704T203000');
+    expect(ics).toContain('URL:cyprigo://session/session-1');
+    expect(ics).not.toContain('RRULE');
+    expect(ics).not.toContain('VALARM');
+  });
+
+  it('adds the recurrence rule and reminder', () => {
+    const ics = buildMeetingICS(
+      [makeSession({
+        recurrenceFrequency: 'weekly',
+        recurrenceInterval: 2,
+        recurrenceUntil: '2026-09-30T21:00:00.000Z',
+        reminderMinutes: 60,
+      })],
+      NOW
+    );
+
+    expect(ics).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20260930T210000Z');
+    expect(ics).toContain('TRIGGER:-PT60M');
+  });
+
+  it('escapes text and folds long lines', () => {
+    const ics = buildMeetingICS(
+      [makeSession({ title: 'Hike; picnic, swim', description: 'Bring water\n' + 'ş'.repeat(60) })],
+      NOW
+    );
+
+    expect(ics).toContain('SUMMARY:Hike\\; picnic\\, swim');
+    ics.split('\r\n').forEach(line => {
+      expect(toUtf8Bytes(line).length).toBeLessThanOrEqual(75);
+    });
+    expect(ics).toMatch(/\r\n ş/);
+  });
+
+  it('skips sessions without a date', () => {
+    const ics = buildMeetingICS([makeSession({ scheduledAt: undefined })], NOW);
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+});
+
+describe('schedule helpers', () => {
+  it('lists upcoming sessions soonest first', () => {
+    const later = makeSession({ id: 'later', scheduledAt: '2026-07-10T08:00:00.000Z' });
+    const past = makeSession({ id: 'past', scheduledAt: '2026-06-20T08:00:00.000Z' });
+    const cancelled = makeSession({ id: 'cancelled', status: 'cancelled' });
+    const sooner = makeSession({ id: 'sooner' });
+
+    expect(getUpcomingSessions([later, past, cancelled, sooner], NOW.getTime()).map(s => s.id))
+      .toEqual(['sooner', 'later']);
+  });
+
+  it('maps recurrence to a repeat option', () => {
+    expect(getRepeatOption(makeSession())).toBe('none');
+    expect(getRepeatOption(makeSession({ recurrenceFrequency: 'weekly', recurrenceInterval: 2 }))).toBe('biweekly');
+    expect(getRepeatOption(makeSession({ recurrenceFrequency: 'monthly' }))).toBe('monthly');
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Meeting Invite Link Tests
+ * Tests for invite link parsing and invite limits
+ */
+
+import { buildInviteLink, isInviteUsable, parseInviteCode } from '@/lib/meetingInviteLink';
+import { MeetingInvite } from '@/types';
+
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+
+const invite = (overrides: Partial<MeetingInvite> = {}): MeetingInvite => ({
+  id: 'i1',
+  sessionId: 's1',
+  code: 'ABCD2345',
+  useCount: 0,
+  createdAt: '2024-06-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('parseInviteCode', () => {
+  it('reads codes from app, dev and web links', () => {
+    expect(parseInviteCode(buildInviteLink('ABCD2345'))).toBe('ABCD2345');
+    expect(parseInviteCode('exp://192.168.1.5:8081/--/session/invite/abcd2345')).toBe('ABCD2345');
+    expect(parseInviteCode('https://cyprigo.app/session/invite/ABCD2345?ref=qr')).toBe('ABCD2345');
+  });
+
+  it('ignores anything that is not an invite', () => {
+    expect(parseInviteCode('ABCD2345')).toBeNull();
+    expect(parseInviteCode('cyprigo://member/123')).toBeNull();
+    expect(parseInviteCode('mailto://session/invite/ABCD2345')).toBeNull();
+    expect(parseInviteCode('cyprigo://session/invite/AB')).toBeNull();
+    expect(parseInviteCode(null)).toBeNull();
+  });
+});
+
+describe('isInviteUsable', () => {
+  it('rejects revoked, expired and used-up invites', () => {
+    expect(isInviteUsable(invite(), NOW)).toBe(true);
+    expect(isInviteUsable(invite({ revokedAt: '2024-06-01T11:00:00Z' }), NOW)).toBe(false);
+    expect(isInviteUsable(invite({ expiresAt: '2024-06-01T11:59:59Z' }), NOW)).toBe(false);
+    expect(isInviteUsable(invite({ expiresAt: '2024-06-01T13:00:00Z' }), NOW)).toBe(true);
+    expect(isInviteUsable(invite({ maxUses: 5, useCount: 5 }), NOW)).toBe(false);
+    expect(isInviteUsable(invite({ maxUses: 5, useCount: 4 }), NOW)).toBe(true);
+    expect(isInviteUsable(null, NOW)).toBe(false);
+  });
+});
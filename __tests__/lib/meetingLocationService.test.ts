@@ -0,0 +1,69 @@
+/**
+ * Meeting Location Service Tests
+ * Tests for presence parsing and meet point ETAs
+ */
+
+import {
+  getEtaToDestination,
+  getMeetingRegion,
+  isSharingExpired,
+  parseMemberLocations,
+} from '@/lib/meetingLocationService';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@/lib/imageOptimizer', () => ({
+  optimizeRouteCoverImage: jest.fn(),
+  optimizeRouteStopImage: jest.fn(),
+}));
+jest.mock('base64-arraybuffer', () => ({ decode: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+
+const NOW = new Date('2024-06-01T12:00:00Z').getTime();
+const at = (offsetMs: number) => new Date(NOW + offsetMs).toISOString();
+
+describe('parseMemberLocations', () => {
+  it('keeps the freshest unexpired location per member', () => {
+    const locations = parseMemberLocations(
+      {
+        alice: [
+          { online_at: at(0), sharing_until: at(60_000), location: { latitude: 35.1, longitude: 33.3, updatedAt: at(-30_000) } },
+          { online_at: at(0), sharing_until: at(60_000), location: { latitude: 35.2, longitude: 33.4, updatedAt: at(-5_000) } },
+        ],
+        bob: [{ online_at: at(0) }],
+        carol: [
+          { online_at: at(0), sharing_until: at(-1_000), location: { latitude: 35, longitude: 33, updatedAt: at(-2_000) } },
+        ],
+        dave: [
+          { online_at: at(0), sharing_until: at(60_000), location: { latitude: 35, longitude: 33, updatedAt: at(-10 * 60_000) } },
+        ],
+      },
+      NOW
+    );
+
+    expect(Object.keys(locations)).toEqual(['alice']);
+    expect(locations.alice).toMatchObject({ userId: 'alice', latitude: 35.2, sharingUntil: at(60_000) });
+  });
+
+  it('treats a missing window as expired', () => {
+    expect(isSharingExpired(null, NOW)).toBe(true);
+    expect(isSharingExpired(at(1), NOW)).toBe(false);
+  });
+});
+
+describe('meet point helpers', () => {
+  it('estimates a walk for short distances', () => {
+    const eta = getEtaToDestination({ latitude: 35.17, longitude: 33.36 }, { latitude: 35.175, longitude: 33.36 });
+    expect(eta.mode).toBe('walk');
+    expect(eta.distanceKm).toBeCloseTo(0.56, 1);
+  });
+
+  it('fits every point in the region', () => {
+    const region = getMeetingRegion([
+      { latitude: 35, longitude: 33 },
+      { latitude: 35.2, longitude: 33.4 },
+    ]);
+    expect(region).toMatchObject({ latitude: 35.1, longitude: 33.2 });
+    expect(region!.latitudeDelta).toBeCloseTo(0.3);
+    expect(getMeetingRegion([])).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Nearby Service Tests
+ * Tests for "near me" grouping and the local distance filter
+ */
+
+import { filterToursNearby, getTourDistanceKm, groupNearbyRows } from '@/lib/nearbyService';
+import { Tour } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@/lib/imageOptimizer', () => ({
+  optimizeRouteCoverImage: jest.fn(),
+  optimizeRouteStopImage: jest.fn(),
+}));
+jest.mock('base64-arraybuffer', () => ({ decode: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+const girne = { latitude: 35.3387, longitude: 33.3183 };
+
+const makeTour = (id: string, latitude?: number, longitude?: number): Tour => ({
+  id,
+  title: `Tour ${id}`,
+  location: 'Girne',
+  description: '',
+  duration: '2 saat',
+  rating: 0,
+  reviewCount: 0,
+  image: '',
+  highlights: [],
+  category: 'history',
+  latitude,
+  longitude,
+});
+
+describe('filterToursNearby', () => {
+  it('keeps tours inside the radius, closest first', () => {
+    const tours = [
+      makeTour('bellapais', 35.3344, 33.3182),   // ~0.5 km
+      makeTour('salamis', 35.1853, 33.9039),     // ~55 km
+      makeTour('castle', 35.342, 33.3228),       // ~0.5 km
+      makeTour('no-coords'),
+    ];
+
+    const result = filterToursNearby(tours, girne, 10);
+    expect(result.map(r => r.item.id).sort()).toEqual(['bellapais', 'castle']);
+    expect(result[0].distanceKm).toBeLessThanOrEqual(result[1].distanceKm);
+  });
+
+  it('returns null distance without coordinates or origin', () => {
+    expect(getTourDistanceKm(makeTour('x'), girne)).toBeNull();
+    expect(getTourDistanceKm(makeTour('y', 35, 33), null)).toBeNull();
+  });
+});
+
+describe('groupNearbyRows', () => {
+  it('splits rows by kind and sorts each list by distance', () => {
+    const results = groupNearbyRows([
+      {
+        kind: 'tour',
+        id: 't2',
+        distance_km: 4,
+        payload: { id: 't2', title: 'B', location: 'Girne', duration: '1', category: 'trip', highlights: [], rating: 0, review_count: 0 },
+      },
+      {
+        kind: 'tour',
+        id: 't1',
+        distance_km: 1.5,
+        payload: { id: 't1', title: 'A', location: 'Girne', duration: '1', category: 'trip', highlights: [], rating: 0, review_count: 0 },
+      },
+      {
+        kind: 'post',
+        id: 'p1',
+        distance_km: 2,
+        payload: { id: 'p1', user_id: 'u1', type: 'photo', images: [], status: 'approved', likes_count: 0, comments_count: 0 },
+      },
+    ]);
+
+    expect(results.tours.map(t => t.item.id)).toEqual(['t1', 't2']);
+    expect(results.posts).toHaveLength(1);
+    expect(results.posts[0].item.userId).toBe('u1');
+    expect(results.routes).toHaveLength(0);
+  });
+});
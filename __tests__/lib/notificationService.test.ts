@@ -0,0 +1,77 @@
+/**
+ * Notification Service Tests
+ * Tests for audience segment rule handling and push delivery
+ */
+
+import {
+  cleanSegmentRules,
+  countSegmentRules,
+  getNotificationDeliveryStats,
+  sendNotification,
+} from '@/lib/notificationService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+    functions: { invoke: jest.fn() },
+  },
+}));
+jest.mock('expo-notifications', () => ({}));
+jest.mock('expo-device', () => ({}));
+jest.mock('expo-constants', () => ({}));
+
+describe('cleanSegmentRules', () => {
+  it('drops empty filters', () => {
+    expect(cleanSegmentRules({
+      memberClasses: [],
+      languages: [],
+      lastActiveDays: 0,
+      favoriteCategories: [],
+      near: { latitude: 35.3, longitude: 33.3, radiusKm: 0 },
+    })).toEqual({});
+  });
+
+  it('keeps active filters and normalizes languages', () => {
+    const rules = cleanSegmentRules({
+      memberClasses: ['Gold'],
+      languages: ['EN'],
+      lastActiveDays: 7.4,
+      hasActiveMeeting: false,
+    });
+
+    expect(rules).toEqual({
+      memberClasses: ['Gold'],
+      languages: ['en'],
+      lastActiveDays: 7,
+      hasActiveMeeting: false,
+    });
+    expect(countSegmentRules(rules)).toBe(4);
+  });
+});
+
+describe('push delivery', () => {
+  it('sends through the send-notification function', async () => {
+    (supabase.functions.invoke as jest.Mock).mockResolvedValueOnce({
+      data: { success: true, scheduled: true },
+      error: null,
+    });
+
+    const result = await sendNotification('n1');
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('send-notification', {
+      body: { notificationId: 'n1' },
+    });
+    expect(result).toEqual({ success: true, scheduled: true, stats: undefined });
+  });
+
+  it('keys delivery stats by notification id', async () => {
+    const row = { notification_id: 'n1', total: 3, accepted: 2, delivered: 1, failed: 1, pending: 1 };
+    (supabase.rpc as jest.Mock).mockResolvedValueOnce({ data: [row], error: null });
+
+    const { data } = await getNotificationDeliveryStats(['n1', 'n2']);
+
+    expect(data).toEqual({ n1: row });
+    expect(await getNotificationDeliveryStats([])).toEqual({ data: {} });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Offline Service Tests
+ * Tests for outbox coalescing and connectivity checks
+ */
+
+import { createClientId, enqueueMutation, isReachable, OutboxEntry } from '@/lib/offlineService';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+describe('enqueueMutation', () => {
+  it('keeps only the latest favorite state per tour', () => {
+    let outbox: OutboxEntry[] = [];
+    outbox = enqueueMutation(outbox, { type: 'favorite', userId: 'u1', tourId: 't1', favorited: true }, 1);
+    outbox = enqueueMutation(outbox, { type: 'favorite', userId: 'u1', tourId: 't2', favorited: true }, 2);
+    outbox = enqueueMutation(outbox, { type: 'favorite', userId: 'u1', tourId: 't1', favorited: false }, 3);
+
+    expect(outbox).toHaveLength(2);
+    expect(outbox[1]).toMatchObject({ tourId: 't1', favorited: false, attempts: 0 });
+  });
+
+  it('collapses repeated likes on the same post', () => {
+    let outbox: OutboxEntry[] = [];
+    outbox = enqueueMutation(outbox, { type: 'like', userId: 'u1', postId: 'p1', liked: true }, 1);
+    outbox = enqueueMutation(outbox, { type: 'like', userId: 'u1', postId: 'p1', liked: false }, 2);
+
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({ liked: false, createdAt: 2 });
+  });
+
+  it('appends every comment in order', () => {
+    let outbox: OutboxEntry[] = [];
+    outbox = enqueueMutation(outbox, { type: 'comment', commentId: 'c1', userId: 'u1', postId: 'p1', content: 'a' }, 1);
+    outbox = enqueueMutation(outbox, { type: 'comment', commentId: 'c2', userId: 'u1', postId: 'p1', content: 'b' }, 2);
+
+    expect(outbox.map(e => e.type === 'comment' && e.content)).toEqual(['a', 'b']);
+  });
+});
+
+describe('createClientId', () => {
+  it('creates version 4 UUIDs usable as row ids', () => {
+    const id = createClientId();
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(createClientId()).not.toBe(id);
+  });
+});
+
+describe('isReachable', () => {
+  it('treats unknown reachability as online', () => {
+    expect(isReachable({ isConnected: true })).toBe(true);
+    expect(isReachable({})).toBe(true);
+  });
+
+  it('detects lost connectivity', () => {
+    expect(isReachable({ isConnected: false, isInternetReachable: false })).toBe(false);
+    expect(isReachable({ isConnected: true, isInternetReachable: false })).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Preferences Service Tests
+ * Tests for ranking tours by saved category preferences
+ */
+
+import { rankToursByPreferences } from '@/lib/preferencesService';
+import { Tour } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const makeTour = (id: string, category: string): Tour => ({
+  id,
+  title: `Tour ${id}`,
+  location: 'Girne',
+  description: '',
+  duration: '2 saat',
+  rating: 4.5,
+  reviewCount: 10,
+  image: '',
+  highlights: [],
+  category,
+});
+
+describe('rankToursByPreferences', () => {
+  const tours = [
+    makeTour('1', 'beach'),
+    makeTour('2', 'history'),
+    makeTour('3', 'nature'),
+    makeTour('4', 'history'),
+    makeTour('5', 'food'),
+  ];
+
+  it('should return tours unchanged when no categories are preferred', () => {
+    expect(rankToursByPreferences(tours, [])).toBe(tours);
+  });
+
+  it('should move preferred categories to the front', () => {
+    const ranked = rankToursByPreferences(tours, ['history']);
+    expect(ranked.map(t => t.id)).toEqual(['2', '4', '1', '3', '5']);
+  });
+
+  it('should weigh earlier preferences higher', () => {
+    const ranked = rankToursByPreferences(tours, ['nature', 'history']);
+    expect(ranked.map(t => t.id)).toEqual(['3', '2', '4', '1', '5']);
+  });
+
+  it('should not mutate the input array', () => {
+    const copy = [...tours];
+    rankToursByPreferences(tours, ['food']);
+    expect(tours).toEqual(copy);
+  });
+});
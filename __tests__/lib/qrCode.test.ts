@@ -0,0 +1,53 @@
+/**
+ * QR Code Tests
+ * Tests for the on-device encoder
+ */
+
+import { encodeQR, qrToSvg, toUtf8Bytes, QRMatrix } from '@/lib/qrCode';
+
+// Format bits read from the copy beside the top-right finder
+const readFormatBits = (qr: QRMatrix): number => {
+  let bits = 0;
+  for (let i = 0; i < 8; i++) {
+    if (qr.modules[8][qr.size - 1 - i]) bits |= 1 << i;
+  }
+  for (let i = 8; i < 15; i++) {
+    if (qr.modules[qr.size - 15 + i][8]) bits |= 1 << i;
+  }
+  return bits;
+};
+
+describe('encodeQR', () => {
+  it('picks the smallest version that fits', () => {
+    expect(encodeQR('cyprigo://session/invite/ABCD2345')).toMatchObject({ version: 3, size: 29 });
+    expect(encodeQR('a'.repeat(17), { errorCorrectionLevel: 'L' })?.version).toBe(1);
+    expect(encodeQR('a'.repeat(18), { errorCorrectionLevel: 'L' })?.version).toBe(2);
+    expect(encodeQR('a'.repeat(3000), { errorCorrectionLevel: 'H' })).toBeNull();
+  });
+
+  it('writes the format bits for the level and mask', () => {
+    expect(readFormatBits(encodeQR('hello', { errorCorrectionLevel: 'M', mask: 0 })!)).toBe(0b101010000010010);
+    expect(readFormatBits(encodeQR('hello', { errorCorrectionLevel: 'L', mask: 4 })!)).toBe(0b110011000101111);
+  });
+
+  it('draws finder patterns in three corners', () => {
+    const qr = encodeQR('hello')!;
+    const last = qr.size - 1;
+    [[0, 0], [last - 6, 0], [0, last - 6]].forEach(([x, y]) => {
+      expect(qr.modules[y][x]).toBe(true);
+      expect(qr.modules[y + 1][x + 1]).toBe(false);
+      expect(qr.modules[y + 3][x + 3]).toBe(true);
+    });
+  });
+
+  it('encodes text as UTF-8', () => {
+    expect(toUtf8Bytes('aç€🙂')).toEqual([0x61, 0xc3, 0xa7, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x99, 0x82]);
+  });
+
+  it('renders an SVG with the quiet zone', () => {
+    const svg = qrToSvg(encodeQR('hello', { mask: 2 })!, { margin: 4, color: '#111' });
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('fill="#111"');
+    expect(svg).toContain('M4,4h1v1h-1z');
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Route Service Tests
+ * Tests for the stop order optimizer and leg estimates
+ */
+
+import { getDayDistanceKm, getLegEstimates, optimizeStopOrder } from '@/lib/routeService';
+import { RouteStop } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+jest.mock('@/lib/imageOptimizer', () => ({
+  optimizeRouteCoverImage: jest.fn(),
+  optimizeRouteStopImage: jest.fn(),
+}));
+jest.mock('base64-arraybuffer', () => ({ decode: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(() => Promise.resolve(null)),
+  setItem: jest.fn(() => Promise.resolve()),
+}));
+
+const stop = (id: string, order: number, latitude?: number, longitude?: number): RouteStop => ({
+  id,
+  order,
+  type: 'poi',
+  name: id,
+  latitude,
+  longitude,
+});
+
+// Girne → Karpaz → Bellapais → Lefkoşa zig-zags across the island
+const zigZag = [
+  stop('girne', 1, 35.3417, 33.3209),
+  stop('karpaz', 2, 35.6, 34.38),
+  stop('bellapais', 3, 35.3064, 33.3547),
+  stop('lefkosa', 4, 35.1856, 33.3823),
+];
+
+describe('optimizeStopOrder', () => {
+  it('keeps the first stop and shortens the path', () => {
+    const optimized = optimizeStopOrder(zigZag);
+
+    expect(optimized.map(s => s.id)).toEqual(['girne', 'bellapais', 'lefkosa', 'karpaz']);
+    expect(optimized.map(s => s.order)).toEqual([1, 2, 3, 4]);
+    expect(getDayDistanceKm({ dayIndex: 1, title: '', stops: optimized }))
+      .toBeLessThan(getDayDistanceKm({ dayIndex: 1, title: '', stops: zigZag }));
+  });
+
+  it('moves stops without coordinates to the end', () => {
+    const optimized = optimizeStopOrder([stop('lunch', 1), ...zigZag.map(s => ({ ...s, order: s.order + 1 }))]);
+    expect(optimized[optimized.length - 1].id).toBe('lunch');
+  });
+});
+
+describe('getLegEstimates', () => {
+  it('returns one leg per consecutive pair with coordinates', () => {
+    const legs = getLegEstimates([...zigZag, stop('lunch', 5)]);
+
+    expect(legs).toHaveLength(3);
+    expect(legs[0].from.id).toBe('girne');
+    expect(legs[0].mode).toBe('drive');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Scan Match Service Tests
+ * Tests for matching scanned place names to tours and route stops
+ */
+
+import { foldPlaceName, matchScanToCatalog, scorePlaceName } from '@/lib/scanMatchService';
+import { RouteStop, ThematicRoute, Tour } from '@/types';
+
+const makeTour = (id: string, title: string, location = 'Girne'): Tour => ({
+  id,
+  title,
+  location,
+  description: '',
+  duration: '2 saat',
+  rating: 0,
+  reviewCount: 0,
+  image: '',
+  highlights: [],
+  category: 'history',
+});
+
+const makeStop = (id: string, name: string, tourId?: string): RouteStop => ({
+  id,
+  order: 1,
+  type: tourId ? 'tour' : 'poi',
+  name,
+  tourId,
+});
+
+const makeRoute = (id: string, stops: RouteStop[]): ThematicRoute => ({
+  id,
+  slug: id,
+  title: `Route ${id}`,
+  theme: 'history',
+  baseLocation: 'Girne',
+  durationDays: 2,
+  coverImage: '',
+  tags: [],
+  itinerary: [
+    { dayIndex: 1, title: 'Day 1', stops: [] },
+    { dayIndex: 2, title: 'Day 2', stops },
+  ],
+});
+
+describe('scanMatchService', () => {
+  it('folds Turkish, Greek and accented names to ASCII', () => {
+    expect(foldPlaceName('Gazimağusa İskele Şehri')).toBe('gazimagusa iskele sehri');
+    expect(foldPlaceName('Κάστρο της Κερύνειας')).toBe('kastro tis keryneias');
+  });
+
+  it('matches name variants across languages', () => {
+    expect(scorePlaceName('Kyrenia Castle', 'Girne Kalesi')).toBe(1);
+    expect(scorePlaceName('Κάστρο της Κερύνειας', 'Kyrenia Castle')).toBe(1);
+    expect(scorePlaceName('Bellapais Abbey', 'Beylerbeyi Manastırı Turu')).toBeGreaterThan(0.6);
+    expect(scorePlaceName('Belapais Abbey', 'Bellapais Abbey')).toBeGreaterThan(0.9);
+  });
+
+  it('tolerates typos but not a different place type', () => {
+    expect(scorePlaceName('St. Hilarian Castle', 'Saint Hilarion Castle')).toBeGreaterThan(0.6);
+    expect(scorePlaceName('Kyrenia Castle', 'Girne Limanı')).toBe(0);
+    expect(scorePlaceName('Castle', 'Kantara Castle')).toBe(0);
+  });
+
+  it('finds matching tours and route stops', () => {
+    const tours = [
+      makeTour('castle', 'Girne Kalesi ve Batık Gemi Müzesi'),
+      makeTour('harbour', 'Girne Limanı'),
+      makeTour('salamis', 'Salamis Antik Kenti', 'Gazimağusa'),
+    ];
+    const routes = [
+      makeRoute('linked', [makeStop('s1', 'Sabah kahvesi'), makeStop('s2', 'Kale ziyareti', 'castle')]),
+      makeRoute('named', [makeStop('s3', 'Kyrenia Castle')]),
+      makeRoute('other', [makeStop('s4', 'Bellapais Manastırı')]),
+    ];
+
+    const matches = matchScanToCatalog(
+      { placeName: 'Kyrenia Castle', placeNameLocal: 'Girne Kalesi', location: { city: 'Kyrenia' } },
+      tours,
+      routes
+    );
+
+    expect(matches.tours.map(match => match.tour.id)).toEqual(['castle']);
+    expect(matches.routes.map(match => [match.route.id, match.stop.id, match.dayIndex])).toEqual([
+      ['named', 's3', 2],
+      ['linked', 's2', 2],
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Two-Factor Service Tests
+ * Tests for server-issued verification codes and authenticator enrollment
+ */
+
+import {
+  beginTotpEnrollment,
+  buildTotpUri,
+  encodeBase32,
+  formatTotpSecret,
+  requestVerificationCode,
+  verifyCode,
+  verifyRecoveryCode,
+} from '@/lib/twoFactorService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+    functions: { invoke: jest.fn() },
+  },
+}));
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+jest.mock('@/lib/i18n', () => ({
+  getCurrentLanguage: () => 'en',
+}));
+
+const invoke = supabase.functions.invoke as jest.Mock;
+const rpc = supabase.rpc as jest.Mock;
+
+const bytesOf = (text: string) => new Uint8Array(Array.from(text).map(char => char.charCodeAt(0)));
+
+describe('requestVerificationCode', () => {
+  beforeEach(() => {
+    invoke.mockReset();
+  });
+
+  it('sends only the purpose and address, never a code', async () => {
+    invoke.mockResolvedValue({ data: { success: true, expiresAt: '2026-01-01T10:10:00Z' }, error: null });
+
+    const result = await requestVerificationCode('password_reset', { email: 'user@example.com' });
+
+    expect(invoke).toHaveBeenCalledWith('send-verification-email', {
+      body: { purpose: 'password_reset', email: 'user@example.com', userName: undefined, language: 'en' },
+    });
+    expect(result).toEqual({ success: true, expiresAt: new Date('2026-01-01T10:10:00Z') });
+  });
+
+  it('passes through the retry delay when throttled', async () => {
+    invoke.mockResolvedValue({ data: { success: false, error: 'rate_limited', retryAfter: 42 }, error: null });
+
+    const result = await requestVerificationCode('two_factor');
+
+    expect(result).toEqual({ success: false, error: 'rate_limited', retryAfter: 42 });
+  });
+
+  it('fails when the function errors', async () => {
+    invoke.mockResolvedValue({ data: null, error: { message: 'Edge Function returned a non-2xx status code' } });
+
+    const result = await requestVerificationCode('two_factor');
+
+    expect(result.success).toBe(false);
+    expect(result.expiresAt).toBeUndefined();
+  });
+});
+
+describe('verifyCode', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('returns the reset token for a verified password reset code', async () => {
+    rpc.mockResolvedValue({ data: { success: true, reset_token: 'a1b2c3' }, error: null });
+
+    const result = await verifyCode('user-1', '123456', 'password_reset');
+
+    expect(rpc).toHaveBeenCalledWith('verify_email_code', {
+      p_user_id: 'user-1',
+      p_code: '123456',
+      p_purpose: 'password_reset',
+    });
+    expect(result).toEqual(expect.objectContaining({ success: true, resetToken: 'a1b2c3' }));
+  });
+});
+
+describe('encodeBase32', () => {
+  it('matches the RFC 4648 test vectors', () => {
+    expect(encodeBase32(bytesOf('f'))).toBe('MY');
+    expect(encodeBase32(bytesOf('fo'))).toBe('MZXQ');
+    expect(encodeBase32(bytesOf('foo'))).toBe('MZXW6');
+    expect(encodeBase32(bytesOf('foob'))).toBe('MZXW6YQ');
+    expect(encodeBase32(bytesOf('fooba'))).toBe('MZXW6YTB');
+    expect(encodeBase32(bytesOf('foobar'))).toBe('MZXW6YTBOI');
+  });
+
+  it('encodes the RFC 6238 reference secret', () => {
+    expect(encodeBase32(bytesOf('12345678901234567890'))).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+});
+
+describe('buildTotpUri', () => {
+  it('labels the account with the issuer', () => {
+    expect(buildTotpUri('JBSWY3DPEHPK3PXP', 'ayse@example.com')).toBe(
+      'otpauth://totp/Cyprigo:ayse%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Cyprigo&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+
+  it('groups the secret for manual entry', () => {
+    expect(formatTotpSecret('JBSWY3DPEHPK3PXP')).toBe('JBSW Y3DP EHPK 3PXP');
+  });
+});
+
+describe('beginTotpEnrollment', () => {
+  beforeEach(() => {
+    rpc.mockReset();
+  });
+
+  it('turns the hex secret from the server into a provisioning URI', async () => {
+    rpc.mockResolvedValue({ data: { success: true, secret: '3132333435363738393031323334353637383930' }, error: null });
+
+    const { data, error } = await beginTotpEnrollment('user@example.com');
+
+    expect(error).toBeNull();
+    expect(data?.secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(data?.uri).toContain('secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('reports an existing authenticator', async () => {
+    rpc.mockResolvedValue({ data: { success: false, error: 'already_enabled' }, error: null });
+
+    const { data, error } = await beginTotpEnrollment('user@example.com');
+
+    expect(data).toBeNull();
+    expect(error).toBe('already_enabled');
+  });
+});
+
+describe('verifyRecoveryCode', () => {
+  it('maps the remaining recovery code count', async () => {
+    rpc.mockResolvedValue({ data: { success: true, method: 'recovery', recovery_codes_remaining: 7 }, error: null });
+
+    const result = await verifyRecoveryCode('abcde-fghjk');
+
+    expect(rpc).toHaveBeenCalledWith('verify_recovery_code', { p_code: 'abcde-fghjk' });
+    expect(result).toEqual(expect.objectContaining({ success: true, recoveryCodesRemaining: 7 }));
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * User Route Service Tests
+ * Tests for trip planner editing helpers and validation
+ */
+
+import {
+  addDayToPlan,
+  addStopToPlan,
+  createPlanDay,
+  createStopFromTour,
+  moveStopInPlan,
+  removeDayFromPlan,
+  removeStopFromPlan,
+  userRouteToThematicRoute,
+  validateUserRoute,
+} from '@/lib/userRouteService';
+import { Tour, UserRoute } from '@/types';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const makeTour = (id: string): Tour => ({
+  id,
+  title: `Tour ${id}`,
+  location: 'Girne',
+  description: '',
+  duration: '2 saat',
+  rating: 0,
+  reviewCount: 0,
+  image: `https://example.com/${id}.jpg`,
+  highlights: [],
+  category: 'history',
+  latitude: 35.34,
+  longitude: 33.32,
+});
+
+describe('plan editing', () => {
+  it('adds tours to a day once and numbers stops', () => {
+    let plan = [createPlanDay(1)];
+    plan = addStopToPlan(plan, 1, createStopFromTour(makeTour('a')));
+    plan = addStopToPlan(plan, 1, createStopFromTour(makeTour('b')));
+    plan = addStopToPlan(plan, 1, createStopFromTour(makeTour('a')));
+
+    expect(plan[0].stops.map(s => s.tourId)).toEqual(['a', 'b']);
+    expect(plan[0].stops.map(s => s.order)).toEqual([1, 2]);
+  });
+
+  it('creates the target day when it is missing', () => {
+    const plan = addStopToPlan([createPlanDay(1)], 2, createStopFromTour(makeTour('a')));
+    expect(plan.map(d => d.dayIndex)).toEqual([1, 2]);
+    expect(plan[1].stops).toHaveLength(1);
+  });
+
+  it('moves and removes stops', () => {
+    let plan = [createPlanDay(1)];
+    plan = addStopToPlan(plan, 1, createStopFromTour(makeTour('a')));
+    plan = addStopToPlan(plan, 1, createStopFromTour(makeTour('b')));
+    const [first, second] = plan[0].stops;
+
+    plan = moveStopInPlan(plan, 1, second.id, -1);
+    expect(plan[0].stops.map(s => s.tourId)).toEqual(['b', 'a']);
+
+    plan = removeStopFromPlan(plan, 1, first.id);
+    expect(plan[0].stops.map(s => s.tourId)).toEqual(['b']);
+    expect(plan[0].stops[0].order).toBe(1);
+  });
+
+  it('renumbers days after removing one', () => {
+    const plan = removeDayFromPlan(addDayToPlan(addDayToPlan([createPlanDay(1)])), 2);
+    expect(plan.map(d => d.dayIndex)).toEqual([1, 2]);
+  });
+});
+
+describe('validateUserRoute', () => {
+  it('requires a title and at least one stop', () => {
+    expect(validateUserRoute({ title: ' ', itinerary: [createPlanDay(1)] })).not.toBeNull();
+    expect(validateUserRoute({ title: 'Girne', itinerary: [createPlanDay(1)] })).not.toBeNull();
+
+    const plan = addStopToPlan([createPlanDay(1)], 1, createStopFromTour(makeTour('a')));
+    expect(validateUserRoute({ title: 'Girne', itinerary: plan })).toBeNull();
+  });
+});
+
+describe('userRouteToThematicRoute', () => {
+  it('uses the first stop image as cover', () => {
+    const route: UserRoute = {
+      id: 'r1',
+      userId: 'u1',
+      title: 'Hafta sonu',
+      durationDays: 1,
+      itinerary: addStopToPlan([createPlanDay(1)], 1, createStopFromTour(makeTour('a'))),
+      shareToken: 'token',
+      isShared: false,
+      submissionStatus: null,
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+    };
+
+    const thematic = userRouteToThematicRoute(route);
+    expect(thematic.coverImage).toBe('https://example.com/a.jpg');
+    expect(thematic.totalStops).toBe(1);
+  });
+});
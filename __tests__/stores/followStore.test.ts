@@ -0,0 +1,79 @@
+/**
+ * Follow Store Tests
+ * Tests for optimistic follows and follower counts
+ */
+
+import { useFollowStore } from '@/stores/followStore';
+import * as followService from '@/lib/followService';
+import { PublicProfile } from '@/types';
+
+jest.mock('@/lib/followService', () => ({
+  getFollowing: jest.fn(),
+  setUserFollow: jest.fn(),
+  setTourFollow: jest.fn(),
+  getPublicProfile: jest.fn(),
+}));
+
+const mockedService = followService as jest.Mocked<typeof followService>;
+
+const makeProfile = (id: string, overrides: Partial<PublicProfile> = {}): PublicProfile => ({
+  id,
+  fullName: `User ${id}`,
+  memberClass: 'Normal',
+  followersCount: 3,
+  followingCount: 1,
+  createdAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('followStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    useFollowStore.getState().reset();
+  });
+
+  it('follows a user and bumps both counters', async () => {
+    mockedService.getPublicProfile
+      .mockResolvedValueOnce({ data: makeProfile('me'), error: null })
+      .mockResolvedValueOnce({ data: makeProfile('ayse'), error: null });
+    mockedService.setUserFollow.mockResolvedValue({ success: true, error: null });
+
+    await useFollowStore.getState().fetchPublicProfile('me');
+    await useFollowStore.getState().fetchPublicProfile('ayse');
+    const result = await useFollowStore.getState().toggleFollowUser('me', 'ayse');
+
+    const state = useFollowStore.getState();
+    expect(result.success).toBe(true);
+    expect(mockedService.setUserFollow).toHaveBeenCalledWith('me', 'ayse', true);
+    expect(state.isFollowingUser('ayse')).toBe(true);
+    expect(state.profiles.ayse.followersCount).toBe(4);
+    expect(state.profiles.me.followingCount).toBe(2);
+  });
+
+  it('rolls back an unfollow that fails', async () => {
+    mockedService.getFollowing.mockResolvedValue({ userIds: ['ayse'], tourIds: [], error: null });
+    mockedService.getPublicProfile.mockResolvedValue({ data: makeProfile('ayse'), error: null });
+    mockedService.setUserFollow.mockResolvedValue({ success: false, error: 'offline' });
+
+    await useFollowStore.getState().fetchFollowing('me');
+    await useFollowStore.getState().fetchPublicProfile('ayse');
+    const result = await useFollowStore.getState().toggleFollowUser('me', 'ayse');
+
+    const state = useFollowStore.getState();
+    expect(result).toEqual({ success: false, error: 'offline' });
+    expect(state.followingUserIds).toEqual(['ayse']);
+    expect(state.profiles.ayse.followersCount).toBe(3);
+  });
+
+  it('toggles tour follows', async () => {
+    mockedService.setTourFollow.mockResolvedValue({ success: true, error: null });
+
+    await useFollowStore.getState().toggleFollowTour('me', 'tour-1');
+    expect(useFollowStore.getState().isFollowingTour('tour-1')).toBe(true);
+
+    await useFollowStore.getState().toggleFollowTour('me', 'tour-1');
+    expect(mockedService.setTourFollow).toHaveBeenLastCalledWith('me', 'tour-1', false);
+    expect(useFollowStore.getState().isFollowingTour('tour-1')).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Meeting Store Tests
+ * Tests for session chat messages and invites
+ */
+
+import { useMeetingStore } from '@/stores/meetingStore';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: { from: jest.fn(), rpc: jest.fn() },
+}));
+
+jest.mock('@/lib/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('@/lib/imageOptimizer', () => ({
+  optimizeRouteCoverImage: jest.fn(),
+  optimizeRouteStopImage: jest.fn(),
+}));
+jest.mock('base64-arraybuffer', () => ({ decode: jest.fn() }));
+jest.mock('@react-native-async-storage/async-storage', () => ({}));
+
+// Thenable query builder: every chained call returns itself
+const query = (result: { data: unknown; error: unknown }) => {
+  const builder: any = {};
+  ['select', 'insert', 'update', 'eq', 'in', 'is', 'order', 'limit', 'single', 'maybeSingle'].forEach(method => {
+    builder[method] = jest.fn(() => builder);
+  });
+  builder.then = (resolve: (value: unknown) => unknown) => Promise.resolve(result).then(resolve);
+  return builder;
+};
+
+const messageRow = {
+  id: 'm1',
+  session_id: 's1',
+  user_id: 'u1',
+  body: 'Hello',
+  deleted_at: null,
+  deleted_by: null,
+  created_at: '2024-01-01T10:00:00Z',
+};
+
+describe('meetingStore chat', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useMeetingStore.setState({ messages: [] });
+  });
+
+  it('adds a sent message once with its author profile', async () => {
+    (supabase.from as jest.Mock)
+      .mockReturnValueOnce(query({ data: messageRow, error: null }))
+      .mockReturnValueOnce(query({ data: [{ id: 'u1', full_name: 'Ada', avatar_url: null }], error: null }))
+      .mockReturnValueOnce(query({ data: messageRow, error: null }))
+      .mockReturnValueOnce(query({ data: [], error: null }));
+
+    await useMeetingStore.getState().sendMessage('s1', 'u1', '  Hello ');
+    await useMeetingStore.getState().sendMessage('s1', 'u1', 'Hello');
+
+    const { messages } = useMeetingStore.getState();
+    expect(messages).toHaveLength(1);
+    expect(messages[0].user?.fullName).toBe('Ada');
+  });
+
+  it('does not send blank messages and drops deleted ones', async () => {
+    expect(await useMeetingStore.getState().sendMessage('s1', 'u1', '   ')).toEqual({
+      success: false,
+      error: 'Missing data',
+    });
+    expect(supabase.from).not.toHaveBeenCalled();
+
+    useMeetingStore.setState({
+      messages: [{ id: 'm1', sessionId: 's1', userId: 'u1', body: 'Hello', createdAt: messageRow.created_at }],
+    });
+    (supabase.from as jest.Mock).mockReturnValueOnce(query({ data: null, error: null }));
+
+    await useMeetingStore.getState().deleteMessage('m1', 'host');
+    expect(useMeetingStore.getState().messages).toEqual([]);
+  });
+});
+
+describe('meetingStore invites', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useMeetingStore.setState({ inviteCode: null, invite: null, joinRequests: [] });
+  });
+
+  it('reports a pending request without loading the session', async () => {
+    (supabase.rpc as jest.Mock).mockResolvedValueOnce({
+      data: [{ session_id: 's1', participant_status: 'pending' }],
+      error: null,
+    });
+
+    const result = await useMeetingStore.getState().joinSessionByCode('ABCD2345');
+
+    expect(result).toEqual({ success: true, pending: true });
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  it('keeps a used-up invite for the host but does not share its code', async () => {
+    (supabase.from as jest.Mock).mockReturnValueOnce(query({
+      data: {
+        id: 'i1',
+        session_id: 's1',
+        code: 'ABCD2345',
+        expires_at: null,
+        revoked_at: null,
+        max_uses: 2,
+        use_count: 2,
+        created_by: 'host',
+        created_at: '2024-01-01T10:00:00Z',
+      },
+      error: null,
+    }));
+
+    expect(await useMeetingStore.getState().fetchInviteCode('s1')).toBeNull();
+    expect(useMeetingStore.getState().invite).toMatchObject({ code: 'ABCD2345', maxUses: 2, useCount: 2 });
+  });
+
+  it('drops a request once the host responds', async () => {
+    useMeetingStore.setState({
+      joinRequests: [{
+        id: 'p2',
+        sessionId: 's1',
+        userId: 'u2',
+        role: 'member',
+        status: 'pending',
+        joinedAt: '2024-01-01T10:00:00Z',
+        updatedAt: '2024-01-01T10:00:00Z',
+      }],
+    });
+    (supabase.rpc as jest.Mock).mockResolvedValueOnce({ data: null, error: null });
+
+    const result = await useMeetingStore.getState().respondToJoinRequest('s1', 'u2', false);
+
+    expect(result).toEqual({ success: true });
+    expect(supabase.rpc).toHaveBeenCalledWith('respond_to_join_request', {
+      p_session_id: 's1',
+      p_user_id: 'u2',
+      p_approve: false,
+    });
+    expect(useMeetingStore.getState().joinRequests).toEqual([]);
+  });
+});
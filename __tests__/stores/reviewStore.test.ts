@@ -0,0 +1,83 @@
+/**
+ * Review Store Tests
+ * Tests for review pagination and own-review updates
+ */
+
+import { useReviewStore } from '@/stores/reviewStore';
+import * as reviewService from '@/lib/reviewService';
+import { TourReview } from '@/types';
+
+jest.mock('@/lib/reviewService', () => ({
+  REVIEWS_PAGE_SIZE: 2,
+  getTourReviews: jest.fn(),
+  getUserReview: jest.fn(),
+  createReview: jest.fn(),
+  updateReview: jest.fn(),
+  deleteReview: jest.fn(),
+}));
+
+const mockedService = reviewService as jest.Mocked<typeof reviewService>;
+
+const makeReview = (id: string, overrides: Partial<TourReview> = {}): TourReview => ({
+  id,
+  tourId: 'tour-1',
+  userId: `user-${id}`,
+  rating: 5,
+  status: 'approved',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('reviewStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useReviewStore.getState().reset();
+  });
+
+  it('loads the first page and appends the next one', async () => {
+    mockedService.getTourReviews
+      .mockResolvedValueOnce({ data: [makeReview('a'), makeReview('b')], error: null, hasMore: true, totalCount: 3 })
+      .mockResolvedValueOnce({ data: [makeReview('c')], error: null, hasMore: false, totalCount: 3 });
+
+    await useReviewStore.getState().fetchReviews('tour-1');
+    expect(useReviewStore.getState().reviews.map(r => r.id)).toEqual(['a', 'b']);
+    expect(useReviewStore.getState().hasMore).toBe(true);
+
+    await useReviewStore.getState().fetchMoreReviews();
+    const state = useReviewStore.getState();
+    expect(state.reviews.map(r => r.id)).toEqual(['a', 'b', 'c']);
+    expect(state.hasMore).toBe(false);
+    expect(mockedService.getTourReviews).toHaveBeenLastCalledWith('tour-1', 1, 2);
+  });
+
+  it('removes an edited approved review from the public list until re-approved', async () => {
+    const own = makeReview('own', { userId: 'me' });
+    mockedService.getTourReviews.mockResolvedValueOnce({ data: [own], error: null, hasMore: false, totalCount: 1 });
+    mockedService.getUserReview.mockResolvedValueOnce({ data: own, error: null });
+    mockedService.updateReview.mockResolvedValueOnce({
+      data: { ...own, rating: 3, status: 'pending' },
+      error: null,
+    });
+
+    await useReviewStore.getState().fetchReviews('tour-1', 'me');
+    const result = await useReviewStore.getState().submitReview('me', 'tour-1', { rating: 3 });
+
+    const state = useReviewStore.getState();
+    expect(result.success).toBe(true);
+    expect(mockedService.updateReview).toHaveBeenCalledWith('own', { rating: 3 });
+    expect(state.reviews).toHaveLength(0);
+    expect(state.totalCount).toBe(0);
+    expect(state.userReview?.status).toBe('pending');
+  });
+
+  it('keeps state unchanged when submitting fails', async () => {
+    mockedService.createReview.mockResolvedValueOnce({ data: null, error: 'Puan 1 ile 5 arasında olmalıdır' });
+
+    const result = await useReviewStore.getState().submitReview('me', 'tour-1', { rating: 0 });
+
+    expect(result).toEqual({ success: false, error: 'Puan 1 ile 5 arasında olmalıdır' });
+    expect(useReviewStore.getState().userReview).toBeNull();
+    expect(useReviewStore.getState().isSubmitting).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Scan Store Tests
+ * Tests for the server-side scan quota and synced history
+ */
+
+import { useScanStore } from '@/stores/scanStore';
+import * as scanHistoryService from '@/lib/scanHistoryService';
+import { ScanHistoryItem } from '@/lib/scanHistoryService';
+
+jest.mock('@/lib/visionService', () => ({
+  analyzeImage: jest.fn(),
+}));
+
+jest.mock('@/lib/scanHistoryService', () => ({
+  getScanQuota: jest.fn(),
+  getScanHistory: jest.fn(),
+  deleteScanHistory: jest.fn(),
+}));
+
+const mockedService = scanHistoryService as jest.Mocked<typeof scanHistoryService>;
+
+const makeItem = (id: string): ScanHistoryItem => ({
+  id,
+  placeName: `Place ${id}`,
+  category: 'historical',
+  confidence: 0.9,
+  result: {
+    success: true,
+    placeName: `Place ${id}`,
+    category: 'historical',
+    confidence: 0.9,
+    description: '',
+    significance: '',
+    funFacts: [],
+    visitTips: [],
+  },
+  thumbnailPath: `user-1/${id}.jpg`,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+describe('scanStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useScanStore.setState({ quota: null, scanHistory: [], scanCount: 0, lastScanTimestamp: null });
+  });
+
+  it('uses the server quota once loaded', async () => {
+    const resetsAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    mockedService.getScanQuota.mockResolvedValue({
+      data: { used: 10, limit: 10, remaining: 0, resetsAt },
+      error: null,
+    });
+
+    expect(useScanStore.getState().canScan(true)).toBe(true);
+
+    await useScanStore.getState().fetchQuota();
+
+    const state = useScanStore.getState();
+    expect(state.canScan(true)).toBe(false);
+    expect(state.getRemainingScans(true)).toBe(0);
+    expect(state.getCooldownRemaining()).toBeGreaterThan(0);
+  });
+
+  it('treats an expired quota window as reset', () => {
+    useScanStore.setState({
+      quota: { used: 3, limit: 3, remaining: 0, resetsAt: new Date(Date.now() - 1000).toISOString() },
+    });
+
+    const state = useScanStore.getState();
+    expect(state.canScan(false)).toBe(true);
+    expect(state.getRemainingScans(false)).toBe(3);
+    expect(state.getCooldownRemaining()).toBe(0);
+  });
+
+  it('keeps history entries that fail to delete', async () => {
+    mockedService.getScanHistory.mockResolvedValue({ data: [makeItem('a'), makeItem('b')], error: null });
+    mockedService.deleteScanHistory
+      .mockResolvedValueOnce({ success: false, error: 'offline' })
+      .mockResolvedValueOnce({ success: true, error: null });
+
+    await useScanStore.getState().fetchHistory('user-1');
+    await useScanStore.getState().removeScanFromHistory('a');
+    expect(useScanStore.getState().scanHistory.map(item => item.id)).toEqual(['a', 'b']);
+
+    await useScanStore.getState().removeScanFromHistory('a');
+    expect(mockedService.deleteScanHistory).toHaveBeenLastCalledWith([makeItem('a')]);
+    expect(useScanStore.getState().scanHistory.map(item => item.id)).toEqual(['b']);
+  });
+});
@@ -576,9 +576,27 @@ export default function WelcomeScreen() {
         setLoginLoading(false);
         setLoginVisible(false);
         
+        const { retryAfter, error: twoFactorError } = useTwoFactorStore.getState();
+
         if (success) {
           console.log('[handleLogin] 2FA initiated, _layout will redirect to verify-2fa screen');
           // Navigation will be handled by _layout.tsx when is2FAPending becomes true
+        } else if (retryAfter) {
+          // Too many codes requested: don't let throttling skip 2FA
+          console.log('[handleLogin] 2FA code request rate limited, signing out');
+          useTwoFactorStore.getState().clearPending();
+          await useAuthStore.getState().signOut();
+          useUIStore.getState().showToast(
+            t('twoFactor.rateLimited', { minutes: Math.ceil(retryAfter / 60) }),
+            'error'
+          );
+        } else if (twoFactorError === 'factors_unavailable' || twoFactorError === 'totp_required') {
+          // Unknown second factors, or email refused for an authenticator
+          // account: never let these skip 2FA
+          console.log('[handleLogin] 2FA factors unavailable, signing out');
+          useTwoFactorStore.getState().clearPending();
+          await useAuthStore.getState().signOut();
+          useUIStore.getState().showToast(t('twoFactor.unavailable'), 'error');
         } else {
           console.log('[handleLogin] 2FA initiation failed, proceeding to tabs');
           // If 2FA initiation fails, show error but allow login
@@ -703,6 +721,11 @@ export default function WelcomeScreen() {
       setTimeout(() => {
         openResetCodeSheet();
       }, 300);
+    } else if (result.retryAfter) {
+      useUIStore.getState().showToast(
+        t('twoFactor.rateLimited', { minutes: Math.ceil(result.retryAfter / 60) }),
+        'error'
+      );
     } else if (result.error) {
       useUIStore.getState().showToast(result.error, 'error');
     }
@@ -829,6 +852,12 @@ export default function WelcomeScreen() {
       setResetCode(Array(6).fill(''));
       resetCodeInputRefs.current[0]?.focus();
       useUIStore.getState().showToast(t('twoFactor.codeSent'), 'success');
+    } else if (result.retryAfter) {
+      setResetResendCooldown(result.retryAfter);
+      useUIStore.getState().showToast(
+        t('twoFactor.rateLimited', { minutes: Math.ceil(result.retryAfter / 60) }),
+        'error'
+      );
     } else {
       useUIStore.getState().showToast(t('twoFactor.resendFailed'), 'error');
     }
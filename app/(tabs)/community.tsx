@@ -1,5 +1,6 @@
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
+import * as Location from 'expo-location';
 import { StatusBar } from 'expo-status-bar';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
@@ -23,7 +24,7 @@ import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
 import { useCommunityStore, useAuthStore, useThemeStore, useShallow, useTermsStore, useBlockStore, useMeetingStore } from '@/stores';
-import { CommunityPost, CommunityPostType, MeetingSession } from '@/types';
+import { CommunityFeed, CommunityPost, CommunityPostType, MeetingSession } from '@/types';
 import { getAvatarUrl } from '@/lib/avatarService';
 import { CommunityPostCard } from '@/components/cards';
 import { CreatePostSheet, CreateMeetingSheet, MeetingInviteSheet, MeetingListSheet, PostDetailSheet, ProfileSheet, TermsAcceptanceSheet } from '@/components/sheets';
@@ -32,6 +33,12 @@ import { useOptimizedList, LIST_PRESETS } from '@/hooks';
 
 const { width } = Dimensions.get('window');
 
+// Feed tabs
+const FEED_OPTIONS: { id: CommunityFeed; labelKey: string }[] = [
+  { id: 'following', labelKey: 'community.feeds.following' },
+  { id: 'discover', labelKey: 'community.feeds.discover' },
+];
+
 // Filter options
 const FILTER_OPTIONS: { id: CommunityPostType | 'all'; icon: string; labelKey: string }[] = [
   { id: 'all', icon: 'apps-outline', labelKey: 'community.filters.all' },
@@ -62,8 +69,11 @@ export default function CommunityScreen() {
     isRefreshing,
     isLoadingMore,
     hasMore,
+    feed,
     fetchPosts,
     fetchMorePosts,
+    setFeed,
+    setFeedOrigin,
     fetchHiddenPosts,
     toggleLike,
     setSelectedPost,
@@ -74,8 +84,11 @@ export default function CommunityScreen() {
       isRefreshing: state.isRefreshing,
       isLoadingMore: state.isLoadingMore,
       hasMore: state.hasMore,
+      feed: state.feed,
       fetchPosts: state.fetchPosts,
       fetchMorePosts: state.fetchMorePosts,
+      setFeed: state.setFeed,
+      setFeedOrigin: state.setFeedOrigin,
       fetchHiddenPosts: state.fetchHiddenPosts,
       toggleLike: state.toggleLike,
       setSelectedPost: state.setSelectedPost,
@@ -84,12 +97,14 @@ export default function CommunityScreen() {
 
   const {
     sessions: meetingSessions,
+    inviteCode: meetingInviteCode,
     isLoading: isMeetingLoading,
     fetchMySessions,
     fetchInviteCode,
   } = useMeetingStore(
     useShallow((state) => ({
       sessions: state.sessions,
+      inviteCode: state.inviteCode,
       isLoading: state.isLoading,
       fetchMySessions: state.fetchMySessions,
       fetchInviteCode: state.fetchInviteCode,
@@ -113,7 +128,6 @@ export default function CommunityScreen() {
   const [isMeetingCreateVisible, setIsMeetingCreateVisible] = useState(false);
   const [isMeetingInviteVisible, setIsMeetingInviteVisible] = useState(false);
   const [selectedMeeting, setSelectedMeeting] = useState<MeetingSession | null>(null);
-  const [meetingInviteCode, setMeetingInviteCode] = useState<string | null>(null);
 
   // Spin animation for refresh
   useEffect(() => {
@@ -135,9 +149,23 @@ export default function CommunityScreen() {
     outputRange: ['0deg', '360deg'],
   });
 
-  // Load posts on mount
+  // Load posts on mount; Discover ranks nearby posts higher when location
+  // permission was already granted (never prompts here)
   useEffect(() => {
-    fetchPosts();
+    (async () => {
+      try {
+        const { status } = await Location.getForegroundPermissionsAsync();
+        if (status === 'granted') {
+          const position = await Location.getLastKnownPositionAsync();
+          if (position) {
+            setFeedOrigin({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+          }
+        }
+      } catch {
+        // Location only tunes the ranking
+      }
+      fetchPosts();
+    })();
   }, []);
 
   // Load blocked users when user changes (UGC Compliance)
@@ -188,6 +216,10 @@ export default function CommunityScreen() {
     setIsDetailSheetVisible(true);
   }, []);
 
+  const handleUserPress = useCallback((post: CommunityPost) => {
+    router.push(`/user/${post.userId}` as any);
+  }, []);
+
   const handleLikePress = useCallback(async (post: CommunityPost) => {
     if (!user) return;
     await toggleLike(user.id, post.id);
@@ -290,11 +322,12 @@ export default function CommunityScreen() {
     // Refresh to show new post (will be pending, but user can see their own)
   }, []);
 
-  const handleMeetingCreated = useCallback((session: MeetingSession, inviteCode: string) => {
+  const handleMeetingCreated = useCallback((session: MeetingSession) => {
     setSelectedMeeting(session);
-    setMeetingInviteCode(inviteCode);
+    // Loads the invite details (expiry, uses) for the host controls
+    fetchInviteCode(session.id);
     setIsMeetingInviteVisible(true);
-  }, []);
+  }, [fetchInviteCode]);
 
   const handleOpenMeetingSession = useCallback((session: MeetingSession) => {
     setIsMeetingListVisible(false);
@@ -309,14 +342,9 @@ export default function CommunityScreen() {
   const handleShowMeetingInvite = useCallback(async (session: MeetingSession) => {
     setIsMeetingListVisible(false);
     setSelectedMeeting(session);
-    const code = await fetchInviteCode(session.id);
-    if (!code) {
-      Alert.alert(t('common.error'), t('meeting.invite.missing'));
-      return;
-    }
-    setMeetingInviteCode(code);
+    await fetchInviteCode(session.id);
     setIsMeetingInviteVisible(true);
-  }, [fetchInviteCode, t]);
+  }, [fetchInviteCode]);
 
   // Handle avatar press - open profile sheet
   const handleAvatarPress = useCallback(() => {
@@ -421,6 +449,7 @@ export default function CommunityScreen() {
       <CommunityPostCard
         post={item}
         onPress={handlePostPress}
+        onUserPress={handleUserPress}
         onLikePress={handleLikePress}
         onDeletePress={handleDeletePost}
         onReportPress={handleReportPost}
@@ -429,7 +458,7 @@ export default function CommunityScreen() {
         isLiked={item.isLiked}
       />
     );
-  }, [handlePostPress, handleLikePress, handleDeletePost, handleReportPost, handleHidePost, handleBlockUser]);
+  }, [handlePostPress, handleUserPress, handleLikePress, handleDeletePost, handleReportPost, handleHidePost, handleBlockUser]);
 
   // Render header
   const renderHeader = useCallback(() => (
@@ -446,6 +475,31 @@ export default function CommunityScreen() {
         </View>
       )}
 
+      {/* Following / Discover */}
+      <View style={[styles.feedTabs, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)' }]}>
+        {FEED_OPTIONS.map((option) => {
+          const isActive = feed === option.id;
+          return (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.feedTab, isActive && { backgroundColor: colors.card }]}
+              onPress={() => setFeed(option.id)}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[
+                  styles.feedTabText,
+                  { color: isActive ? colors.text : colors.textSecondary },
+                  isActive && styles.feedTabTextActive,
+                ]}
+              >
+                {t(option.labelKey)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       {/* Horizontal Scrollable Filter Tabs */}
       <ScrollView 
         horizontal 
@@ -489,7 +543,7 @@ export default function CommunityScreen() {
         })}
       </ScrollView>
     </View>
-  ), [isRefreshing, spin, colors, isDark, activeFilter, t]);
+  ), [isRefreshing, spin, colors, isDark, activeFilter, feed, setFeed, t]);
 
   // Render empty state
   const renderEmptyState = useCallback(() => {
@@ -501,6 +555,30 @@ export default function CommunityScreen() {
       );
     }
 
+    if (feed === 'following') {
+      return (
+        <View style={styles.emptyContainer}>
+          <View style={[styles.emptyIconContainer, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' }]}>
+            <Ionicons name="person-add-outline" size={48} color={colors.textSecondary} />
+          </View>
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>
+            {t('community.feeds.followingEmptyTitle')}
+          </Text>
+          <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+            {t('community.feeds.followingEmptySubtitle')}
+          </Text>
+          <TouchableOpacity
+            style={[styles.emptyButton, { backgroundColor: colors.primary }]}
+            onPress={() => setFeed('discover')}
+            activeOpacity={0.9}
+          >
+            <Ionicons name="compass-outline" size={20} color="#FFF" />
+            <Text style={styles.emptyButtonText}>{t('community.feeds.goDiscover')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
     return (
       <View style={styles.emptyContainer}>
         <View style={[styles.emptyIconContainer, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' }]}>
@@ -522,7 +600,7 @@ export default function CommunityScreen() {
         </TouchableOpacity>
       </View>
     );
-  }, [isLoading, colors, isDark, t, handleCreatePress]);
+  }, [isLoading, feed, setFeed, colors, isDark, t, handleCreatePress]);
 
   // Render footer (loading more) - only show when actually loading more and has more data
   const renderFooter = useCallback(() => {
@@ -691,9 +769,10 @@ export default function CommunityScreen() {
         visible={isMeetingInviteVisible}
         inviteCode={meetingInviteCode}
         sessionTitle={selectedMeeting?.title}
+        sessionId={selectedMeeting?.id}
+        canManage={!!selectedMeeting && selectedMeeting.hostId === user?.id}
         onClose={() => {
           setIsMeetingInviteVisible(false);
-          setMeetingInviteCode(null);
           setSelectedMeeting(null);
         }}
       />
@@ -798,6 +877,27 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     fontWeight: '500',
   },
+  // Feed Tabs
+  feedTabs: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  feedTab: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 10,
+  },
+  feedTabText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+  feedTabTextActive: {
+    fontWeight: '700',
+  },
   // Horizontal Filter Tabs
   filtersScroll: {
     marginBottom: 16,
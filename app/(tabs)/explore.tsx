@@ -15,17 +15,20 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import MapView, { PROVIDER_DEFAULT } from 'react-native-maps';
+import MapView, { LocalTile, PROVIDER_DEFAULT } from 'react-native-maps';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
-import { useTourStore, useUIStore, useThemeStore, useRouteStore, useShallow, selectTours, selectCategories, selectHighlightedRoutes, selectRoutes } from '@/stores';
-import { Tour, Category, ThematicRoute } from '@/types';
+import { useTourStore, useUIStore, useThemeStore, useRouteStore, useMapPackStore, useOfflineStore, useShallow, selectTours, selectCategories, selectHighlightedRoutes, selectRoutes, selectMapPacks, selectIsOnline } from '@/stores';
+import { getMapPackTilePathTemplate, MapBounds } from '@/lib/mapPackService';
+import { getFetchBounds, getClusterRegion, isBoundsInside, regionToBounds, MapRegion, TourCluster } from '@/lib/mapClusterService';
+import { getToursInBounds, MAP_VIEWPORT_TOUR_LIMIT } from '@/lib/tourService';
+import { Tour, Category, ThematicRoute, tourDataToTour } from '@/types';
 import { TourDetailSheet, RouteDetailSheet, DestinationSearchSheet } from '@/components/sheets';
 import { RouteCard } from '@/components/cards';
 import { MapMarkers } from '@/components/map';
-import { useLocation } from '@/hooks';
+import { useLocation, useDebouncedCallback } from '@/hooks';
 import { LocationPermissionModal } from '@/components/ui';
 import CachedImage, { prefetchImages } from '@/components/ui/CachedImage';
 
@@ -411,6 +414,15 @@ export default function ExploreScreen() {
   // Route store for thematic routes - optimized with useShallow
   const highlightedRoutes = useRouteStore(selectHighlightedRoutes);
   const allRoutes = useRouteStore(selectRoutes);
+
+  // Downloaded map packs replace network tiles while offline
+  const mapPacks = useMapPackStore(selectMapPacks);
+  const fetchMapPacks = useMapPackStore(state => state.fetchPacks);
+  const isOnline = useOfflineStore(selectIsOnline);
+
+  useEffect(() => {
+    fetchMapPacks();
+  }, [fetchMapPacks]);
   const { fetchHighlightedRoutes, fetchAllRoutes, isLoadingRoutes } = useRouteStore(
     useShallow((state) => ({
       fetchHighlightedRoutes: state.fetchHighlightedRoutes,
@@ -452,6 +464,12 @@ export default function ExploreScreen() {
   const [showSearchSheet, setShowSearchSheet] = useState(false);
   const [previewTour, setPreviewTour] = useState<Tour | null>(null);
 
+  // Tours loaded for the map viewport (null = use store tours)
+  const [viewportTours, setViewportTours] = useState<Tour[] | null>(null);
+  const loadedViewportRef = useRef<{ bounds: MapBounds; category: string } | null>(null);
+  // Incremented per viewport request; only the latest one may apply
+  const viewportRequestRef = useRef(0);
+
   // Bottom sheet animation - improved gesture handling
   const sheetHeight = useRef(new Animated.Value(SHEET_MIN_HEIGHT)).current;
   const currentHeight = useRef(SHEET_MIN_HEIGHT);
@@ -569,14 +587,52 @@ export default function ExploreScreen() {
   , [sheetHeight, snapToHeight]);
 
   // Filter tours by category - for map markers (only with coordinates)
+  // Viewport results are used when online; offline falls back to store tours
   const filteredToursForMap = useMemo(() => {
-    return tours.filter((tour) => {
+    const source = isOnline && viewportTours ? viewportTours : tours;
+    return source.filter((tour) => {
       const hasCoordinates = tour.latitude && tour.longitude;
       if (!hasCoordinates) return false;
       if (activeCategory === 'all') return true;
       return tour.category === activeCategory;
     });
-  }, [tours, activeCategory]);
+  }, [tours, viewportTours, isOnline, activeCategory]);
+
+  // Load tours inside the visible region (padded) unless already covered
+  const loadViewportTours = useCallback(async (mapRegion: MapRegion, category: string) => {
+    if (!isOnline) return;
+
+    const loaded = loadedViewportRef.current;
+    if (
+      loaded &&
+      loaded.category === category &&
+      isBoundsInside(regionToBounds(mapRegion), loaded.bounds)
+    ) {
+      return;
+    }
+
+    const requestId = ++viewportRequestRef.current;
+    const bounds = getFetchBounds(mapRegion);
+    const { data, error } = await getToursInBounds(bounds, category);
+    // A newer pan or filter change has superseded this response
+    if (requestId !== viewportRequestRef.current) return;
+    // Keep the markers already on screen if the request fails
+    if (error) return;
+
+    // A full page means some tours were cut off, so zooming in has to
+    // refetch instead of reusing these bounds
+    loadedViewportRef.current = data.length < MAP_VIEWPORT_TOUR_LIMIT ? { bounds, category } : null;
+    setViewportTours(data.map(tourDataToTour));
+  }, [isOnline]);
+
+  const debouncedLoadViewportTours = useDebouncedCallback(loadViewportTours, 400);
+
+  // Reload the viewport when the category filter or connectivity changes
+  useEffect(() => {
+    loadedViewportRef.current = null;
+    loadViewportTours(region, activeCategory);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeCategory, isOnline]);
 
   // Filter tours by category - for list (all tours, with or without coordinates)
   const filteredToursForList = useMemo(() => {
@@ -718,6 +774,13 @@ export default function ExploreScreen() {
     }
   }, []);
 
+  // Handle cluster press - zoom in until the cluster splits
+  const handleClusterPress = useCallback((cluster: TourCluster) => {
+    const target = getClusterRegion(cluster, region);
+    mapRef.current?.animateToRegion(target, 400);
+    currentZoomRef.current = target.latitudeDelta;
+  }, [region]);
+
   // Handle tour press from list - open detail sheet
   const handleTourPress = useCallback((tour: Tour) => {
     setSelectedMapTour(tour);
@@ -819,11 +882,13 @@ export default function ExploreScreen() {
   const memoizedMapMarkers = useMemo(() => (
     <MapMarkers
       tours={filteredToursForMap}
+      region={region}
       categoryIconMap={categoryIconMap}
       primaryColor={colors.primary}
       onMarkerPress={handleMarkerPress}
+      onClusterPress={handleClusterPress}
     />
-  ), [filteredToursForMap, categoryIconMap, colors.primary, handleMarkerPress]);
+  ), [filteredToursForMap, region, categoryIconMap, colors.primary, handleMarkerPress, handleClusterPress]);
 
   return (
     <View style={styles.container}>
@@ -842,8 +907,18 @@ export default function ExploreScreen() {
           onRegionChangeComplete={(newRegion) => {
             setRegion(newRegion);
             currentZoomRef.current = newRegion.latitudeDelta;
+            debouncedLoadViewportTours(newRegion, activeCategory);
           }}
         >
+          {/* Offline map pack tiles */}
+          {!isOnline && mapPacks.map(pack => (
+            <LocalTile
+              key={pack.routeId}
+              pathTemplate={getMapPackTilePathTemplate(pack.routeId)}
+              tileSize={256}
+            />
+          ))}
+
           {/* Tour Markers - using memoized MapMarkers component */}
           {memoizedMapMarkers}
         </MapView>
@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 import { router } from 'expo-router';
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Dimensions,
   Image,
@@ -18,13 +18,21 @@ import {
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
-import { DestinationSearch, ProfileSheet, TourDetailSheet, NotificationSheet } from '@/components/sheets';
+import { DestinationSearch, ProfileSheet, TourDetailSheet, NotificationSheet, RouteDetailSheet } from '@/components/sheets';
 import { useTranslation } from 'react-i18next';
 import { CachedImage, HomeScreenSkeleton, NoToursEmptyState, TourCardSkeleton } from '@/components/ui';
 import { useOptimizedList, LIST_PRESETS } from '@/hooks';
 import { Colors } from '@/constants/Colors';
-import { Tour } from '@/types';
-import { useTourStore, useUIStore, useAuthStore, useThemeStore } from '@/stores';
+import { ThematicRoute, Tour } from '@/types';
+import {
+  useTourStore,
+  useUIStore,
+  useAuthStore,
+  useThemeStore,
+  usePreferencesStore,
+  selectPreferredCategories,
+} from '@/stores';
+import { rankToursByPreferences } from '@/lib/preferencesService';
 import { getAvatarUrl } from '@/lib/avatarService';
 import { getUnreadCount, subscribeToNotifications } from '@/lib/notificationService';
 
@@ -173,7 +181,12 @@ export default function HomeScreen() {
     closeNotificationSheet,
   } = useUIStore();
 
+  // Route opened from "near me" search results
+  const [nearbyRoute, setNearbyRoute] = useState<ThematicRoute | null>(null);
+
   const { profile, user } = useAuthStore();
+  const preferredCategories = usePreferencesStore(selectPreferredCategories);
+  const fetchPreferences = usePreferencesStore((state) => state.fetchPreferences);
 
   // Spin animation for refresh icon
   useEffect(() => {
@@ -243,6 +256,13 @@ export default function HomeScreen() {
     };
   }, []);
 
+  // Load saved tour preferences for feed personalization
+  useEffect(() => {
+    if (user?.id) {
+      fetchPreferences(user.id);
+    }
+  }, [user?.id, fetchPreferences]);
+
   // Load notification count on mount and subscribe to realtime updates
   useEffect(() => {
     if (!user?.id) return;
@@ -378,8 +398,14 @@ export default function HomeScreen() {
     closeTourDetail();
   };
 
-  // Tours are already filtered by store based on selected category
-  const filteredTours = tours;
+  // Tours are already filtered by store based on selected category;
+  // the unfiltered feed is ranked by the user's preferred categories.
+  // Ranking happens only here: the store keeps server order for the
+  // other screens that share it.
+  const filteredTours = useMemo(() => {
+    if (selectedCategoryId !== 'all' || !preferredCategories) return tours;
+    return rankToursByPreferences(tours, preferredCategories);
+  }, [tours, selectedCategoryId, preferredCategories]);
 
   // Render tour card item for FlatList
   const renderTourCard = useCallback(({ item: tour }: { item: Tour }) => (
@@ -648,6 +674,14 @@ export default function HomeScreen() {
             closeSearch();
             handleTourPress(tour);
           }}
+          onSelectRoute={(route) => {
+            closeSearch();
+            setNearbyRoute(route);
+          }}
+          onSelectPost={() => {
+            closeSearch();
+            router.push('/(tabs)/community');
+          }}
           onSelectDestination={(dest) => {
             console.log('Selected destination:', dest);
           }}
@@ -655,6 +689,13 @@ export default function HomeScreen() {
         />
       )}
 
+      {/* Route Detail Sheet (near me results) */}
+      <RouteDetailSheet
+        route={nearbyRoute}
+        visible={!!nearbyRoute}
+        onClose={() => setNearbyRoute(null)}
+      />
+
       {/* Profile Sheet */}
       <ProfileSheet
         visible={isProfileSheetVisible}
@@ -4,13 +4,14 @@
 
 import { Ionicons } from '@expo/vector-icons';
 import { BlurView } from 'expo-blur';
-import { CameraView, CameraType, useCameraPermissions } from 'expo-camera';
+import { BarcodeScanningResult, CameraView, CameraType, useCameraPermissions } from 'expo-camera';
 import { LinearGradient } from 'expo-linear-gradient';
 import * as ImagePicker from 'expo-image-picker';
 import { router } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
+  ActivityIndicator,
   Alert,
   Animated,
   Dimensions,
@@ -26,9 +27,10 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
-import { useThemeStore, useAuthStore, useSubscriptionStore, selectIsPremium } from '@/stores';
+import { useThemeStore, useAuthStore, useSubscriptionStore, useMeetingStore, selectIsPremium } from '@/stores';
 import { PaywallSheet } from '@/components/ui';
 import { useScanStore } from '@/stores/scanStore';
+import { parseInviteCode } from '@/lib/meetingInviteLink';
 
 const { width, height } = Dimensions.get('window');
 const FRAME_SIZE = width * 0.72;
@@ -57,6 +59,8 @@ export default function ScanScreen() {
     canScan,
     getRemainingScans,
     getCooldownRemaining,
+    quota,
+    fetchQuota,
   } = useScanStore();
 
   // Auth for premium check and guest mode
@@ -64,6 +68,11 @@ export default function ScanScreen() {
   const isGuest = !user;
   const isPremium = useSubscriptionStore(selectIsPremium);
   const [showPaywall, setShowPaywall] = useState(false);
+
+  // Meeting invite QR codes join directly from the camera
+  const joinSessionByCode = useMeetingStore((state) => state.joinSessionByCode);
+  const [isJoiningInvite, setIsJoiningInvite] = useState(false);
+  const lastInviteCodeRef = useRef<string | null>(null);
   
   // Remaining scans and cooldown
   const remainingScans = getRemainingScans(isPremium);
@@ -91,6 +100,13 @@ export default function ScanScreen() {
     }
   }, [permission, requestPermission]);
 
+  // Server-side scan quota
+  useEffect(() => {
+    if (user) {
+      fetchQuota();
+    }
+  }, [user?.id, fetchQuota]);
+
   // Cooldown timer
   useEffect(() => {
     const updateCooldown = () => {
@@ -107,7 +123,7 @@ export default function ScanScreen() {
     updateCooldown();
     const interval = setInterval(updateCooldown, 60000); // Update every minute
     return () => clearInterval(interval);
-  }, [getCooldownRemaining, t]);
+  }, [getCooldownRemaining, quota, t]);
 
   // Camera scanning line animation
   useEffect(() => {
@@ -212,6 +228,10 @@ export default function ScanScreen() {
     if (analysisResult && !isAnalyzing) {
       if (analysisResult.success) {
         router.push('/scan-result' as any);
+      } else if (analysisResult.quotaExceeded) {
+        // Limit reached on another device
+        clearAnalysis();
+        setShowPaywall(true);
       } else if (analysisResult.error) {
         // Show user-friendly error message
         Alert.alert(
@@ -279,6 +299,35 @@ export default function ScanScreen() {
     }
   }, [setImageUri, analyzeCurrentImage, t, canScan, isPremium, cooldownText]);
 
+  // Scanned QR code - only invite links are handled, anything else is ignored
+  const handleBarcodeScanned = useCallback(async ({ data }: BarcodeScanningResult) => {
+    const code = parseInviteCode(data);
+    // The same code keeps firing while it stays in view
+    if (!code || code === lastInviteCodeRef.current) return;
+    lastInviteCodeRef.current = code;
+
+    setIsJoiningInvite(true);
+    const { success, session, pending, error } = await joinSessionByCode(code);
+    setIsJoiningInvite(false);
+
+    if (success && pending) {
+      Alert.alert(t('meeting.join.pendingTitle'), t('meeting.join.pendingMessage'), [
+        { text: t('common.done'), onPress: () => { lastInviteCodeRef.current = null; } },
+      ]);
+      return;
+    }
+
+    if (!success || !session) {
+      Alert.alert(t('common.error'), error || t('meeting.errors.joinFailed'), [
+        { text: t('common.done'), onPress: () => { lastInviteCodeRef.current = null; } },
+      ]);
+      return;
+    }
+
+    lastInviteCodeRef.current = null;
+    router.push(`/session/${session.id}` as any);
+  }, [joinSessionByCode, t]);
+
   const toggleFlash = useCallback(() => setFlash((prev) => !prev), []);
   const handleClose = useCallback(() => {
     clearAnalysis();
@@ -439,6 +488,8 @@ export default function ScanScreen() {
         style={styles.camera}
         facing={facing}
         enableTorch={flash}
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={isJoiningInvite || isAnalyzing ? undefined : handleBarcodeScanned}
       />
 
       <View style={styles.overlay}>
@@ -449,18 +500,29 @@ export default function ScanScreen() {
               <Ionicons name="close" size={26} color="#FFF" />
             </TouchableOpacity>
 
-            <TouchableOpacity style={styles.headerBtn} onPress={toggleFlash}>
-              <Ionicons
-                name={flash ? 'flash' : 'flash-off'}
-                size={24}
-                color={flash ? '#FFD700' : '#FFF'}
-              />
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={styles.headerBtn}
+                onPress={() => router.push('/scan-history' as any)}
+                accessibilityLabel={t('scan.history.title')}
+              >
+                <Ionicons name="time-outline" size={24} color="#FFF" />
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.headerBtn} onPress={toggleFlash}>
+                <Ionicons
+                  name={flash ? 'flash' : 'flash-off'}
+                  size={24}
+                  color={flash ? '#FFD700' : '#FFF'}
+                />
+              </TouchableOpacity>
+            </View>
           </View>
 
           <View style={styles.instructionWrapper}>
             <BlurView intensity={50} tint="dark" style={styles.instructionBlur}>
               <Text style={styles.instructionText}>{t('scan.placeInFrame')}</Text>
+              <Text style={styles.instructionHint}>{t('scan.inviteHint')}</Text>
             </BlurView>
             {/* Remaining scans indicator */}
             <View style={styles.remainingScansContainer}>
@@ -481,6 +543,12 @@ export default function ScanScreen() {
         <View style={styles.frameRow}>
           <View style={styles.frameSide} />
           <View style={styles.frameCenter}>
+            {isJoiningInvite && (
+              <View style={styles.inviteJoining}>
+                <ActivityIndicator color="#FFF" />
+                <Text style={styles.inviteJoiningText}>{t('scan.joiningInvite')}</Text>
+              </View>
+            )}
             {renderCorner('tl')}
             {renderCorner('tr')}
             {renderCorner('bl')}
@@ -567,6 +635,10 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 14,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 10,
+  },
   headerBtn: {
     width: 44,
     height: 44,
@@ -610,6 +682,13 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  instructionHint: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    marginTop: 4,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   frameRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -624,6 +703,20 @@ const styles = StyleSheet.create({
     height: FRAME_SIZE,
     position: 'relative',
   },
+  inviteJoining: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    borderRadius: 16,
+    backgroundColor: 'rgba(0,0,0,0.55)',
+  },
+  inviteJoiningText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   corner: {
     position: 'absolute',
     width: 28,
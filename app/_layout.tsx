@@ -1,7 +1,7 @@
 import { Stack, router, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect, useState } from 'react';
-import { useAuthStore, useThemeStore, useOnboardingStore, useTwoFactorStore, useSubscriptionStore } from '@/stores';
+import { useAuthStore, useThemeStore, useOnboardingStore, useTwoFactorStore, useSubscriptionStore, useOfflineStore, useTourStore, useRouteStore } from '@/stores';
 import { Toast, ErrorBoundary, LoadingScreen } from '@/components/ui';
 
 // Lazy load i18n to prevent startup crashes
@@ -55,6 +55,21 @@ export default function RootLayout() {
     setAppUserId(user?.id ?? null);
   }, [isAppReady, user?.id, setAppUserId]);
   
+  // Track connectivity and replay queued offline mutations when it returns
+  useEffect(() => {
+    if (!isAppReady) return;
+    return useOfflineStore.getState().initialize();
+  }, [isAppReady]);
+
+  // Refresh the offline snapshot of tours, categories and routes while online
+  const isOnline = useOfflineStore(state => state.isOnline);
+  useEffect(() => {
+    if (!isAppReady || !isOnline) return;
+    useTourStore.getState().fetchAllTours(true);
+    useTourStore.getState().fetchCategories();
+    useRouteStore.getState().fetchRoutes();
+  }, [isAppReady, isOnline]);
+
   // Initialize push notifications only when app is ready and user exists
   useEffect(() => {
     if (!isAppReady || !user) return;
@@ -36,14 +36,16 @@ import {
   createNotification,
   deleteNotification,
   sendNotification,
+  getNotificationDeliveryStats,
   NotificationData,
+  NotificationDeliveryStats,
   CreateNotificationInput,
 } from '@/lib/notificationService';
 import { CommunityPost } from '@/types';
 import { getAvatarUrl } from '@/lib/avatarService';
-import { UsersTab, PostsTab, RoutesTab, ReportsTab, TicketsTab, BlockReportsTab } from '@/components/admin';
+import { UsersTab, PostsTab, RoutesTab, ReportsTab, ReviewsTab, BookingsTab, TicketsTab, BlockReportsTab, SegmentPicker, AudienceValue } from '@/components/admin';
 
-type TabType = 'tours' | 'categories' | 'notifications' | 'routes' | 'posts' | 'users' | 'reports' | 'tickets' | 'blocks';
+type TabType = 'tours' | 'categories' | 'notifications' | 'routes' | 'posts' | 'users' | 'reports' | 'reviews' | 'bookings' | 'tickets' | 'blocks';
 
 const AVAILABLE_ICONS = [
   'apps-outline',
@@ -102,12 +104,16 @@ export default function AdminMenuScreen() {
   const [isNotificationModalVisible, setIsNotificationModalVisible] = useState(false);
   const [isSendingNotification, setIsSendingNotification] = useState(false);
   const [sendingNotificationId, setSendingNotificationId] = useState<string | null>(null);
+  const [deliveryStats, setDeliveryStats] = useState<Record<string, NotificationDeliveryStats>>({});
 
   // Notification form state
   const [notifTitle, setNotifTitle] = useState('');
   const [notifMessage, setNotifMessage] = useState('');
   const [notifType, setNotifType] = useState<'tour' | 'promo' | 'system' | 'reminder'>('system');
   const [notifIcon, setNotifIcon] = useState('notifications-outline');
+  const [notifAudience, setNotifAudience] = useState<AudienceValue>({ target: 'all', rules: {} });
+  const [notifSchedule, setNotifSchedule] = useState<'now' | 'hour' | 'tomorrow' | 'custom'>('now');
+  const [notifScheduleCustom, setNotifScheduleCustom] = useState('');
 
   const { user } = useAuthStore();
 
@@ -137,6 +143,10 @@ export default function AdminMenuScreen() {
   const loadNotifications = async () => {
     const { data } = await getAllNotifications();
     setNotifications(data);
+
+    const deliveredIds = data.filter(n => n.status === 'sent' || n.status === 'failed').map(n => n.id);
+    const { data: stats } = await getNotificationDeliveryStats(deliveredIds);
+    setDeliveryStats(stats);
   };
 
   useEffect(() => {
@@ -292,9 +302,36 @@ export default function AdminMenuScreen() {
     setNotifMessage('');
     setNotifType('system');
     setNotifIcon('notifications-outline');
+    setNotifAudience({ target: 'all', rules: {} });
+    setNotifSchedule('now');
+    setNotifScheduleCustom('');
     setIsNotificationModalVisible(true);
   };
 
+  // Gönderim zamanı: null = hemen, undefined = geçersiz tarih
+  const getNotificationScheduledAt = (): string | null | undefined => {
+    const date = new Date();
+    switch (notifSchedule) {
+      case 'now':
+        return null;
+      case 'hour':
+        date.setHours(date.getHours() + 1);
+        return date.toISOString();
+      case 'tomorrow':
+        date.setDate(date.getDate() + 1);
+        date.setHours(10, 0, 0, 0);
+        return date.toISOString();
+      case 'custom': {
+        // GG.AA.YYYY SS:DD
+        const match = notifScheduleCustom.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})\s+(\d{1,2}):(\d{2})$/);
+        if (!match) return undefined;
+        const [, day, month, year, hour, minute] = match.map(Number);
+        const custom = new Date(year, month - 1, day, hour, minute);
+        return custom.getTime() > Date.now() ? custom.toISOString() : undefined;
+      }
+    }
+  };
+
   const handleSaveNotification = async () => {
     if (!notifTitle.trim() || !notifMessage.trim()) {
       Alert.alert('Hata', 'Başlık ve mesaj gerekli');
@@ -306,6 +343,12 @@ export default function AdminMenuScreen() {
       return;
     }
 
+    const scheduledAt = getNotificationScheduledAt();
+    if (scheduledAt === undefined) {
+      Alert.alert('Hata', 'Geçerli ve ileri bir tarih girin (GG.AA.YYYY SS:DD)');
+      return;
+    }
+
     setIsSendingNotification(true);
 
     const input: CreateNotificationInput = {
@@ -313,7 +356,10 @@ export default function AdminMenuScreen() {
       message: notifMessage.trim(),
       type: notifType,
       icon: notifIcon,
-      target: 'all',
+      target: notifAudience.target,
+      segment_id: notifAudience.segmentId,
+      segment_rules: notifAudience.target === 'segment' ? notifAudience.rules : undefined,
+      scheduled_at: scheduledAt,
     };
 
     const { data, error } = await createNotification(input, user.id);
@@ -322,15 +368,22 @@ export default function AdminMenuScreen() {
       Alert.alert('Hata', error);
     } else {
       // Otomatik olarak gönder - realtime sync için gerekli
+      // Planlı bildirimleri fonksiyon kuyruğa alır
+      let sendError: string | undefined;
       if (data?.id) {
         const sendResult = await sendNotification(data.id);
         if (!sendResult.success) {
+          sendError = sendResult.error;
           console.warn('Bildirim gönderme hatası:', sendResult.error);
         }
       }
       await loadNotifications();
       setIsNotificationModalVisible(false);
-      Alert.alert('Başarılı', 'Bildirim oluşturuldu ve gönderildi');
+      if (sendError) {
+        Alert.alert('Uyarı', 'Bildirim oluşturuldu ancak gönderilemedi. Listeden tekrar gönderebilirsiniz.');
+      } else {
+        Alert.alert('Başarılı', scheduledAt ? 'Bildirim planlandı' : 'Bildirim oluşturuldu ve gönderildi');
+      }
     }
 
     setIsSendingNotification(false);
@@ -339,19 +392,21 @@ export default function AdminMenuScreen() {
   const handleSendNotification = async (notification: NotificationData) => {
     Alert.alert(
       'Bildirimi Gönder',
-      `"${notification.title}" bildirimini tüm kullanıcılara göndermek istediğinize emin misiniz?`,
+      notification.target === 'segment'
+        ? `"${notification.title}" bildirimini seçili segmente göndermek istediğinize emin misiniz?`
+        : `"${notification.title}" bildirimini tüm kullanıcılara göndermek istediğinize emin misiniz?`,
       [
         { text: 'İptal', style: 'cancel' },
         {
           text: 'Gönder',
           onPress: async () => {
             setSendingNotificationId(notification.id);
-            const { success, error } = await sendNotification(notification.id);
+            const { success, scheduled, error } = await sendNotification(notification.id);
             setSendingNotificationId(null);
 
             if (success) {
               await loadNotifications();
-              Alert.alert('Başarılı', 'Bildirim gönderildi');
+              Alert.alert('Başarılı', scheduled ? 'Bildirim planlandı' : 'Bildirim gönderildi');
             } else {
               Alert.alert('Hata', error || 'Bildirim gönderilemedi');
             }
@@ -387,6 +442,7 @@ export default function AdminMenuScreen() {
     switch (status) {
       case 'sent': return '#22C55E';
       case 'failed': return '#EF4444';
+      case 'scheduled': return '#3B82F6';
       default: return '#F59E0B';
     }
   };
@@ -395,6 +451,8 @@ export default function AdminMenuScreen() {
     switch (status) {
       case 'sent': return 'Gönderildi';
       case 'failed': return 'Başarısız';
+      case 'scheduled': return 'Planlandı';
+      case 'sending': return 'Gönderiliyor';
       default: return 'Bekliyor';
     }
   };
@@ -615,6 +673,42 @@ export default function AdminMenuScreen() {
             Şikayetler
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.tab,
+            activeTab === 'reviews' && [styles.activeTab, { backgroundColor: colors.card }],
+          ]}
+          onPress={() => setActiveTab('reviews')}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[
+              styles.tabText,
+              { color: activeTab === 'reviews' ? colors.primary : colors.textSecondary },
+              activeTab === 'reviews' && styles.activeTabText,
+            ]}
+          >
+            Yorumlar
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.tab,
+            activeTab === 'bookings' && [styles.activeTab, { backgroundColor: colors.card }],
+          ]}
+          onPress={() => setActiveTab('bookings')}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[
+              styles.tabText,
+              { color: activeTab === 'bookings' ? colors.primary : colors.textSecondary },
+              activeTab === 'bookings' && styles.activeTabText,
+            ]}
+          >
+            Rezervasyonlar
+          </Text>
+        </TouchableOpacity>
         <TouchableOpacity
           style={[
             styles.tab,
@@ -853,10 +947,27 @@ export default function AdminMenuScreen() {
                         {getNotificationStatusText(notification.status)}
                       </Text>
                     </View>
+                    {notification.target === 'segment' && (
+                      <View style={[styles.statusBadge, { backgroundColor: colors.primary + '20' }]}>
+                        <Text style={[styles.statusText, { color: colors.primary }]}>Segment</Text>
+                      </View>
+                    )}
                     <Text style={[styles.notificationDate, { color: colors.textSecondary }]}>
                       {new Date(notification.created_at).toLocaleDateString('tr-TR')}
                     </Text>
                   </View>
+                  {notification.status === 'scheduled' && notification.scheduled_at && (
+                    <Text style={[styles.deliveryStats, { color: colors.textSecondary }]}>
+                      {`Gönderim: ${new Date(notification.scheduled_at).toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' })}`}
+                    </Text>
+                  )}
+                  {deliveryStats[notification.id] && (
+                    <Text style={[styles.deliveryStats, { color: colors.textSecondary }]}>
+                      {`${deliveryStats[notification.id].delivered}/${deliveryStats[notification.id].total} teslim edildi`}
+                      {deliveryStats[notification.id].pending > 0 && ` • ${deliveryStats[notification.id].pending} bekliyor`}
+                      {deliveryStats[notification.id].failed > 0 && ` • ${deliveryStats[notification.id].failed} hata`}
+                    </Text>
+                  )}
                 </View>
 
                 <View style={styles.cardActions}>
@@ -907,6 +1018,16 @@ export default function AdminMenuScreen() {
         <ReportsTab colors={colors} isDark={isDark} insets={insets} />
       )}
 
+      {/* Reviews Tab Content */}
+      {activeTab === 'reviews' && (
+        <ReviewsTab colors={colors} isDark={isDark} insets={insets} />
+      )}
+
+      {/* Bookings Tab Content */}
+      {activeTab === 'bookings' && (
+        <BookingsTab colors={colors} isDark={isDark} insets={insets} />
+      )}
+
       {/* Tickets Tab Content */}
       {activeTab === 'tickets' && (
         <TicketsTab colors={colors} isDark={isDark} insets={insets} />
@@ -1069,6 +1190,64 @@ export default function AdminMenuScreen() {
               />
             </View>
 
+            <View style={styles.formSection}>
+              <Text style={[styles.label, { color: colors.text }]}>Hedef Kitle</Text>
+              <SegmentPicker
+                colors={colors}
+                isDark={isDark}
+                userId={user?.id}
+                categories={categories}
+                value={notifAudience}
+                onChange={setNotifAudience}
+              />
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={[styles.label, { color: colors.text }]}>Gönderim Zamanı</Text>
+              <View style={styles.typeGrid}>
+                {(['now', 'hour', 'tomorrow', 'custom'] as const).map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[
+                      styles.typeOption,
+                      {
+                        backgroundColor: notifSchedule === option
+                          ? colors.primary
+                          : isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5',
+                      },
+                    ]}
+                    onPress={() => setNotifSchedule(option)}
+                  >
+                    <Text
+                      style={[
+                        styles.typeText,
+                        { color: notifSchedule === option ? '#fff' : colors.text },
+                      ]}
+                    >
+                      {option === 'now' ? 'Hemen' : option === 'hour' ? '1 saat sonra' : option === 'tomorrow' ? 'Yarın 10:00' : 'Özel'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {notifSchedule === 'custom' && (
+                <TextInput
+                  style={[
+                    styles.input,
+                    styles.scheduleInput,
+                    {
+                      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5',
+                      color: colors.text,
+                    },
+                  ]}
+                  placeholder="GG.AA.YYYY SS:DD"
+                  placeholderTextColor={colors.textSecondary}
+                  value={notifScheduleCustom}
+                  onChangeText={setNotifScheduleCustom}
+                  keyboardType="numbers-and-punctuation"
+                />
+              )}
+            </View>
+
             <View style={styles.formSection}>
               <Text style={[styles.label, { color: colors.text }]}>Bildirim Türü</Text>
               <View style={styles.typeGrid}>
@@ -1413,6 +1592,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  deliveryStats: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    marginTop: 6,
+  },
+  scheduleInput: {
+    marginTop: 10,
+  },
   // Text area style
   textArea: {
     minHeight: 100,
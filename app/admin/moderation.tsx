@@ -229,6 +229,20 @@ export default function ModerationScreen() {
           </View>
         )}
 
+        {/* Automated pre-moderation reasons */}
+        {item.moderationFlags.length > 0 && (
+          <View style={styles.flagsRow}>
+            <Ionicons name="warning-outline" size={14} color="#F5A623" />
+            {item.moderationFlags.map(flag => (
+              <View key={flag} style={styles.flagChip}>
+                <Text style={styles.flagChipText}>
+                  {t(`community.moderation.flags.${flag}`, { defaultValue: flag })}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Actions */}
         <View style={styles.actionsRow}>
           <TouchableOpacity
@@ -564,6 +578,26 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     fontWeight: '600',
   },
+  flagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 12,
+    gap: 6,
+  },
+  flagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: 'rgba(245, 166, 35, 0.15)',
+  },
+  flagChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#F5A623',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   actionsRow: {
     flexDirection: 'row',
     padding: 16,
@@ -9,6 +9,7 @@ export default function ProfileLayout() {
       <Stack.Screen name="contact" />
       <Stack.Screen name="settings" />
       <Stack.Screen name="change-password" />
+      <Stack.Screen name="authenticator" />
       <Stack.Screen name="privacy-policy" />
       <Stack.Screen name="terms-of-use" />
     </Stack>
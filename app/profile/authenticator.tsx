@@ -0,0 +1,576 @@
+/**
+ * Authenticator App Screen
+ * Sets up TOTP sign-in codes, shows recovery codes once and manages
+ * both afterwards. Opened from Settings while 2FA is on.
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import { StatusBar } from 'expo-status-bar';
+import { router } from 'expo-router';
+import { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Linking,
+  Platform,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { useToast } from '@/components/ui';
+import { QRCode } from '@/components/ui/QRCode';
+import { useAuthStore, useThemeStore, useTwoFactorStore } from '@/stores';
+import { formatTotpSecret, type TotpEnrollment } from '@/lib/twoFactorService';
+
+export default function AuthenticatorScreen() {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const isDark = colorScheme === 'dark';
+  const toast = useToast();
+  const { t } = useTranslation();
+
+  const { user } = useAuthStore();
+  const {
+    twoFactorEnabled,
+    totpEnabled,
+    recoveryCodesRemaining,
+    isLoadingSettings,
+    loadTwoFactorStatus,
+    startTotpEnrollment,
+    confirmTotpEnrollment,
+    regenerateRecoveryCodes,
+    removeTotp,
+  } = useTwoFactorStore();
+
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+
+  useEffect(() => {
+    if (user?.id) {
+      loadTwoFactorStatus(user.id);
+    }
+  }, [user?.id, loadTwoFactorStatus]);
+
+  const errorMessage = (error?: string) => {
+    if (error === 'invalid_code') return t('profileScreens.authenticator.errors.invalidCode');
+    if (error === 'max_attempts_exceeded') return t('profileScreens.authenticator.errors.locked');
+    return t('common.error');
+  };
+
+  const handleStart = async () => {
+    if (!user?.email) return;
+
+    const { data, error } = await startTotpEnrollment(user.email);
+    if (data) {
+      setEnrollment(data);
+      setCode('');
+    } else {
+      toast.error(error === 'already_enabled' ? t('profileScreens.authenticator.errors.alreadyEnabled') : t('common.error'));
+    }
+  };
+
+  const handleConfirm = async () => {
+    const result = await confirmTotpEnrollment(code.trim());
+    setCode('');
+
+    if (result.success) {
+      setEnrollment(null);
+      setRecoveryCodes(result.recoveryCodes || []);
+      toast.success(t('profileScreens.authenticator.enabled'));
+    } else if (result.error === 'no_enrollment' || result.error === 'max_attempts_exceeded') {
+      // Start over with a fresh secret
+      setEnrollment(null);
+      toast.error(t('profileScreens.authenticator.errors.restart'));
+    } else {
+      toast.error(errorMessage(result.error));
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const result = await regenerateRecoveryCodes(code.trim());
+    setCode('');
+
+    if (result.success) {
+      setRecoveryCodes(result.recoveryCodes || []);
+    } else {
+      toast.error(errorMessage(result.error));
+    }
+  };
+
+  const handleRemove = () => {
+    Alert.alert(
+      t('profileScreens.authenticator.remove'),
+      t('profileScreens.authenticator.removeConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const result = await removeTotp(code.trim());
+            setCode('');
+
+            if (result.success) {
+              toast.success(t('profileScreens.authenticator.removed'));
+            } else {
+              toast.error(errorMessage(result.error));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCopyKey = async () => {
+    if (!enrollment) return;
+    await Clipboard.setStringAsync(enrollment.secret);
+    toast.success(t('profileScreens.authenticator.keyCopied'));
+  };
+
+  const handleOpenInApp = async () => {
+    if (!enrollment) return;
+    try {
+      await Linking.openURL(enrollment.uri);
+    } catch {
+      toast.info(t('profileScreens.authenticator.noAppFound'));
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    await Clipboard.setStringAsync(recoveryCodes.join('\n'));
+    toast.success(t('profileScreens.authenticator.codesCopied'));
+  };
+
+  const handleShareCodes = async () => {
+    if (!recoveryCodes) return;
+    await Share.share({
+      message: `${t('profileScreens.authenticator.codesTitle')}\n\n${recoveryCodes.join('\n')}`,
+    });
+  };
+
+  const cardStyle = {
+    backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : '#F5F5F7',
+    borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.06)',
+  };
+
+  const renderCodeInput = (placeholder: string) => (
+    <View
+      style={[
+        styles.inputContainer,
+        {
+          backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#FFFFFF',
+          borderColor: isDark ? 'rgba(255,255,255,0.12)' : 'rgba(0,0,0,0.08)',
+        },
+      ]}
+    >
+      <TextInput
+        style={[styles.input, { color: colors.text }]}
+        placeholder={placeholder}
+        placeholderTextColor={isDark ? 'rgba(255,255,255,0.4)' : 'rgba(0,0,0,0.35)'}
+        value={code}
+        onChangeText={setCode}
+        autoCapitalize="none"
+        autoCorrect={false}
+        maxLength={11}
+      />
+    </View>
+  );
+
+  const renderSubmitButton = (label: string, onPress: () => void, disabled: boolean, danger = false) => (
+    <TouchableOpacity
+      style={[
+        styles.submitButton,
+        danger
+          ? { backgroundColor: 'transparent', borderWidth: 1, borderColor: '#EF4444' }
+          : { backgroundColor: colors.primary },
+        (disabled || isLoadingSettings) && styles.submitButtonDisabled,
+      ]}
+      onPress={onPress}
+      disabled={disabled || isLoadingSettings}
+      activeOpacity={0.8}
+    >
+      <Text style={[styles.submitButtonText, danger && { color: '#EF4444' }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderContent = () => {
+    // Shown once, right after enrollment or regeneration
+    if (recoveryCodes) {
+      return (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t('profileScreens.authenticator.codesTitle')}
+          </Text>
+          <Text style={[styles.bodyText, { color: colors.textSecondary }]}>
+            {t('profileScreens.authenticator.codesDescription')}
+          </Text>
+
+          <View style={[styles.card, styles.codesGrid, cardStyle]}>
+            {recoveryCodes.map(recoveryCode => (
+              <Text key={recoveryCode} style={[styles.recoveryCode, { color: colors.text }]}>
+                {recoveryCode}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.row}>
+            <TouchableOpacity style={[styles.secondaryButton, cardStyle]} onPress={handleCopyCodes}>
+              <Ionicons name="copy-outline" size={18} color={colors.text} />
+              <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
+                {t('profileScreens.authenticator.copy')}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, cardStyle]} onPress={handleShareCodes}>
+              <Ionicons name="share-outline" size={18} color={colors.text} />
+              <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
+                {t('profileScreens.authenticator.share')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {renderSubmitButton(t('common.done'), () => setRecoveryCodes(null), false)}
+        </>
+      );
+    }
+
+    if (enrollment) {
+      return (
+        <>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t('profileScreens.authenticator.scanTitle')}
+          </Text>
+          <Text style={[styles.bodyText, { color: colors.textSecondary }]}>
+            {t('profileScreens.authenticator.scanHint')}
+          </Text>
+
+          <View style={styles.qrContainer}>
+            <QRCode value={enrollment.uri} size={200} />
+          </View>
+
+          <Text style={[styles.bodyText, { color: colors.textSecondary }]}>
+            {t('profileScreens.authenticator.manualKey')}
+          </Text>
+          <TouchableOpacity style={[styles.card, styles.keyCard, cardStyle]} onPress={handleCopyKey}>
+            <Text style={[styles.secretText, { color: colors.text }]} selectable>
+              {formatTotpSecret(enrollment.secret)}
+            </Text>
+            <Ionicons name="copy-outline" size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkButton} onPress={handleOpenInApp}>
+            <Text style={[styles.linkText, { color: colors.primary }]}>
+              {t('profileScreens.authenticator.openInApp')}
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t('profileScreens.authenticator.enterCodeTitle')}
+          </Text>
+          {renderCodeInput('123456')}
+          {renderSubmitButton(
+            t('profileScreens.authenticator.verify'),
+            handleConfirm,
+            !/^\d{6}$/.test(code.trim())
+          )}
+        </>
+      );
+    }
+
+    if (totpEnabled) {
+      return (
+        <>
+          <View style={[styles.card, styles.statusCard, cardStyle]}>
+            <Ionicons name="checkmark-circle" size={28} color="#22C55E" />
+            <View style={styles.statusTextContainer}>
+              <Text style={[styles.statusTitle, { color: colors.text }]}>
+                {t('profileScreens.authenticator.enabledTitle')}
+              </Text>
+              <Text style={[styles.bodyText, styles.statusBody, { color: colors.textSecondary }]}>
+                {t('profileScreens.authenticator.recoveryRemaining', { count: recoveryCodesRemaining })}
+              </Text>
+            </View>
+          </View>
+
+          <Text style={[styles.bodyText, { color: colors.textSecondary }]}>
+            {t('profileScreens.authenticator.enabledDescription')}
+          </Text>
+
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            {t('profileScreens.authenticator.manageTitle')}
+          </Text>
+          <Text style={[styles.bodyText, { color: colors.textSecondary }]}>
+            {t('profileScreens.authenticator.manageHint')}
+          </Text>
+          {renderCodeInput(t('profileScreens.authenticator.codePlaceholder'))}
+          {renderSubmitButton(
+            t('profileScreens.authenticator.regenerate'),
+            handleRegenerate,
+            !/^\d{6}$/.test(code.trim())
+          )}
+          {renderSubmitButton(t('profileScreens.authenticator.remove'), handleRemove, !code.trim(), true)}
+        </>
+      );
+    }
+
+    return (
+      <>
+        {!twoFactorEnabled && (
+          <Text style={[styles.bodyText, { color: '#F59E0B' }]}>
+            {t('profileScreens.authenticator.twoFactorOff')}
+          </Text>
+        )}
+        {renderSubmitButton(t('profileScreens.authenticator.setUp'), handleStart, !twoFactorEnabled)}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={colorScheme === 'dark' ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
+        <TouchableOpacity
+          style={[
+            styles.backButton,
+            { backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)' },
+          ]}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="chevron-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {t('profileScreens.authenticator.header')}
+        </Text>
+        <View style={styles.headerSpacer}>
+          {isLoadingSettings && <ActivityIndicator size="small" color={colors.primary} />}
+        </View>
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[
+            styles.scrollContent,
+            { paddingBottom: insets.bottom + 40 },
+          ]}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Info Card */}
+          <View style={[styles.card, styles.infoCard, cardStyle]}>
+            <View style={[styles.infoIconContainer, { backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)' }]}>
+              <Ionicons name="phone-portrait-outline" size={24} color={colors.primary} />
+            </View>
+            <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+              {t('profileScreens.authenticator.info')}
+            </Text>
+          </View>
+
+          {renderContent()}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Display' : 'sans-serif',
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 44,
+    alignItems: 'center',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  card: {
+    borderRadius: 20,
+    borderWidth: 1,
+    padding: 16,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 24,
+    gap: 14,
+  },
+  infoIconContainer: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  qrContainer: {
+    alignSelf: 'center',
+    padding: 12,
+    borderRadius: 16,
+    backgroundColor: '#FFFFFF',
+    marginBottom: 16,
+  },
+  keyCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 8,
+  },
+  secretText: {
+    flex: 1,
+    fontSize: 15,
+    letterSpacing: 1,
+    fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginBottom: 8,
+  },
+  linkText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '500',
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    marginBottom: 16,
+  },
+  statusTextContainer: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  statusBody: {
+    marginBottom: 0,
+  },
+  codesGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: 10,
+    marginBottom: 16,
+  },
+  recoveryCode: {
+    width: '48%',
+    fontSize: 16,
+    textAlign: 'center',
+    letterSpacing: 1,
+    fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '500',
+  },
+  inputContainer: {
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  input: {
+    fontSize: 20,
+    letterSpacing: 2,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
+    paddingVertical: 16,
+    paddingHorizontal: 18,
+  },
+  submitButton: {
+    paddingVertical: 18,
+    borderRadius: 16,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  submitButtonDisabled: {
+    opacity: 0.5,
+  },
+  submitButtonText: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -19,6 +19,7 @@ import { router } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { Colors } from '@/constants/Colors';
+import { QRCode } from '@/components/ui/QRCode';
 import { useAuthStore, useThemeStore, useSubscriptionStore } from '@/stores';
 import { useTranslation } from 'react-i18next';
 
@@ -477,6 +478,21 @@ export default function MembershipCardScreen() {
             ))}
           </View>
 
+          {/* Member QR - shown at partners to verify the plan */}
+          {isActive && level !== 'Normal' && profile?.id && (
+            <View style={styles.memberQrContainer}>
+              <QRCode
+                value={`cyprigo://member/${profile.id}`}
+                size={140}
+                errorCorrectionLevel="Q"
+                style={styles.memberQr}
+              />
+              <Text style={[styles.memberQrLabel, { color: secondaryTextColor }]}>
+                {t('membership.memberCodeHint')}
+              </Text>
+            </View>
+          )}
+
           {/* CTA Button - Inside Card */}
           {!isActive && config.price && (
             <TouchableOpacity
@@ -946,6 +962,18 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
     flex: 1,
   },
+  memberQrContainer: {
+    marginTop: 20,
+    alignItems: 'center',
+    gap: 8,
+  },
+  memberQr: {
+    borderRadius: 12,
+  },
+  memberQrLabel: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+  },
   ctaButton: {
     marginTop: 20,
     paddingVertical: 16,
@@ -0,0 +1,372 @@
+/**
+ * My Bookings Screen
+ * Lists the user's tour bookings with status and cancellation
+ */
+
+import { StatusBar } from 'expo-status-bar';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { useThemeStore, useAuthStore, useBookingStore } from '@/stores';
+import { Booking, BookingStatus } from '@/types';
+import { BOOKING_CANCELLATION_HOURS, canCancelBooking, toBookingDateString } from '@/lib/bookingService';
+
+// Status labels
+const STATUS_CONFIG: Record<BookingStatus, { labelKey: string; color: string }> = {
+  pending: { labelKey: 'booking.status.pending', color: '#F59E0B' },
+  confirmed: { labelKey: 'booking.status.confirmed', color: '#3B82F6' },
+  completed: { labelKey: 'booking.status.completed', color: '#22C55E' },
+  cancelled: { labelKey: 'booking.status.cancelled', color: '#6B7280' },
+};
+
+export default function MyBookingsScreen() {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const isDark = colorScheme === 'dark';
+  const { user } = useAuthStore();
+  const { bookings, isLoading, isSubmitting, fetchBookings, cancelBooking } = useBookingStore();
+  const { t, i18n } = useTranslation();
+
+  const isEnglish = (i18n.resolvedLanguage || i18n.language || '')
+    .toLowerCase()
+    .startsWith('en');
+
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchBookings(user.id);
+    }
+  }, [user?.id, fetchBookings]);
+
+  const onRefresh = useCallback(async () => {
+    if (!user?.id) return;
+    setRefreshing(true);
+    await fetchBookings(user.id);
+    setRefreshing(false);
+  }, [user?.id, fetchBookings]);
+
+  // Split into upcoming (soonest first) and past/cancelled (newest first)
+  const { upcoming, past } = useMemo(() => {
+    const today = toBookingDateString(new Date());
+    const isUpcoming = (b: Booking) =>
+      (b.status === 'pending' || b.status === 'confirmed') && b.bookingDate >= today;
+
+    return {
+      upcoming: bookings
+        .filter(isUpcoming)
+        .sort((a, b) => a.bookingDate.localeCompare(b.bookingDate)),
+      past: bookings.filter(b => !isUpcoming(b)),
+    };
+  }, [bookings]);
+
+  const handleCancel = (booking: Booking) => {
+    Alert.alert(
+      t('booking.cancel.title'),
+      t('booking.cancel.message'),
+      [
+        { text: t('common.back'), style: 'cancel' },
+        {
+          text: t('booking.cancel.confirm'),
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await cancelBooking(booking.id);
+            if (!success) {
+              Alert.alert(t('common.error'), error || t('booking.errors.cancelFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString(isEnglish ? 'en-US' : 'tr-TR', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+
+  const renderBooking = (booking: Booking) => {
+    const status = STATUS_CONFIG[booking.status];
+    const cancellable = canCancelBooking(booking);
+    const isActive = booking.status === 'pending' || booking.status === 'confirmed';
+
+    return (
+      <View
+        key={booking.id}
+        style={[
+          styles.bookingCard,
+          {
+            backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : '#fff',
+            borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+          },
+        ]}
+      >
+        <View style={styles.bookingRow}>
+          {booking.tour?.image ? (
+            <Image source={{ uri: booking.tour.image }} style={styles.tourImage} />
+          ) : (
+            <View style={[styles.tourImage, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' }]} />
+          )}
+          <View style={styles.bookingInfo}>
+            <Text style={[styles.tourTitle, { color: colors.text }]} numberOfLines={1}>
+              {booking.tour?.title || t('booking.unknownTour')}
+            </Text>
+            <Text style={[styles.bookingMeta, { color: colors.textSecondary }]}>
+              {formatDate(booking.bookingDate)}
+            </Text>
+            <Text style={[styles.bookingMeta, { color: colors.textSecondary }]}>
+              {t('booking.guests', { count: booking.numberOfGuests })}
+            </Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: `${status.color}15` }]}>
+            <Text style={[styles.statusText, { color: status.color }]}>{t(status.labelKey)}</Text>
+          </View>
+        </View>
+
+        {booking.status === 'cancelled' && booking.cancellationReason && (
+          <Text style={[styles.noteText, { color: colors.textSecondary }]}>
+            {booking.cancellationReason}
+          </Text>
+        )}
+
+        {isActive && (
+          cancellable ? (
+            <TouchableOpacity
+              style={styles.cancelButton}
+              onPress={() => handleCancel(booking)}
+              disabled={isSubmitting}
+            >
+              <Text style={styles.cancelButtonText}>{t('booking.cancel.action')}</Text>
+            </TouchableOpacity>
+          ) : (
+            <Text style={[styles.noteText, { color: colors.textSecondary }]}>
+              {t('booking.cancel.windowClosed', { hours: BOOKING_CANCELLATION_HOURS })}
+            </Text>
+          )
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' }]}
+          onPress={() => router.back()}
+        >
+          <Text style={[styles.backButtonText, { color: colors.text }]}>‹</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          {t('booking.myBookings')}
+        </Text>
+        <View style={{ width: 44 }} />
+      </View>
+
+      {isLoading && bookings.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+          }
+        >
+          {bookings.length === 0 ? (
+            <View style={styles.emptyState}>
+              <View style={[styles.emptyIndicator, { backgroundColor: isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)' }]} />
+              <Text style={[styles.emptyTitle, { color: colors.text }]}>
+                {t('booking.empty.title')}
+              </Text>
+              <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+                {t('booking.empty.subtitle')}
+              </Text>
+            </View>
+          ) : (
+            <>
+              {upcoming.length > 0 && (
+                <>
+                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                    {t('booking.sections.upcoming')}
+                  </Text>
+                  {upcoming.map(renderBooking)}
+                </>
+              )}
+              {past.length > 0 && (
+                <>
+                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                    {t('booking.sections.past')}
+                  </Text>
+                  {past.map(renderBooking)}
+                </>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backButtonText: {
+    fontSize: 28,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+
+  // Empty State
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: 40,
+  },
+  emptyIndicator: {
+    width: 48,
+    height: 3,
+    borderRadius: 2,
+    marginBottom: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Display' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 8,
+    marginBottom: 10,
+  },
+
+  // Booking Card
+  bookingCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  bookingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tourImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 12,
+  },
+  bookingInfo: {
+    flex: 1,
+  },
+  tourTitle: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  bookingMeta: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    lineHeight: 18,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+    alignSelf: 'flex-start',
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  noteText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    marginTop: 10,
+  },
+  cancelButton: {
+    marginTop: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+    backgroundColor: 'rgba(239,68,68,0.1)',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+});
@@ -20,10 +20,11 @@ import { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
-import { useAuthStore, useThemeStore, useTwoFactorStore } from '@/stores';
+import { useAuthStore, useThemeStore, useTwoFactorStore, useMapPackStore } from '@/stores';
 import { useToast } from '@/components/ui';
 import { languages, changeLanguage, getCurrentLanguage, LanguageCode } from '@/lib/i18n';
-import { clearAllCache } from '@/lib/cacheService';
+import { clearAllCache, getCacheSize } from '@/lib/cacheService';
+import { formatPackSize, MapPack } from '@/lib/mapPackService';
 import { confirmSecureAction, executeSecureAction } from '@/lib/secureAction';
 
 interface SettingItemProps {
@@ -110,6 +111,7 @@ export default function SettingsScreen() {
   const isGuest = !user;
   const { 
     twoFactorEnabled, 
+    totpEnabled,
     isLoadingSettings: is2FALoading,
     loadTwoFactorStatus,
     enableTwoFactor,
@@ -123,6 +125,20 @@ export default function SettingsScreen() {
     }
   }, [user?.id]);
 
+  // Offline map packs and storage usage
+  const { packs: mapPacks, fetchPacks: fetchMapPacks, deletePack: deleteMapPack } = useMapPackStore();
+  const [cacheSizeMB, setCacheSizeMB] = useState<number | null>(null);
+
+  const refreshCacheSize = async () => {
+    const { sizeInMB } = await getCacheSize();
+    setCacheSizeMB(sizeInMB);
+  };
+
+  useEffect(() => {
+    fetchMapPacks();
+    refreshCacheSize();
+  }, [fetchMapPacks]);
+
   // Settings state
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [locationEnabled, setLocationEnabled] = useState(true);
@@ -191,6 +207,7 @@ export default function SettingsScreen() {
               const result = await clearAllCache();
               if (result.success) {
                 toast.success(t('settings.cacheCleared'));
+                refreshCacheSize();
               } else {
                 toast.error(result.error || t('common.error'));
               }
@@ -203,6 +220,29 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleDeleteMapPack = (pack: MapPack) => {
+    Alert.alert(
+      t('settings.deleteOfflineMap'),
+      t('settings.deleteOfflineMapConfirm', { title: pack.routeTitle }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await deleteMapPack(pack.routeId);
+            if (success) {
+              toast.success(t('settings.offlineMapDeleted'));
+              refreshCacheSize();
+            } else {
+              toast.error(error || t('common.error'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleDeleteAccount = () => {
     // First confirmation
     Alert.alert(
@@ -418,6 +458,13 @@ export default function SettingsScreen() {
                 hasArrow={false}
               />
             )}
+            {!isGuest && twoFactorEnabled && (
+              <SettingItem
+                label={t('settings.authenticatorApp')}
+                value={totpEnabled ? t('settings.authenticatorOn') : t('settings.authenticatorOff')}
+                onPress={() => router.push('/profile/authenticator' as any)}
+              />
+            )}
             {!isGuest && (
               <SettingItem
                 label={t('settings.changePassword')}
@@ -436,6 +483,45 @@ export default function SettingsScreen() {
           </BlurView>
         </View>
 
+        {/* Offline Maps Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+            {t('settings.offlineMaps')}
+          </Text>
+          <BlurView
+            intensity={isDark ? 40 : 80}
+            tint={isDark ? 'dark' : 'light'}
+            style={[
+              styles.sectionCard,
+              {
+                backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(255,255,255,0.7)',
+                borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(255,255,255,0.5)',
+              },
+            ]}
+          >
+            <SettingItem
+              label={t('settings.storageUsed')}
+              value={cacheSizeMB !== null ? `${cacheSizeMB} MB` : undefined}
+              hasArrow={false}
+              isLast={mapPacks.length === 0}
+            />
+            {mapPacks.map((pack, index) => (
+              <SettingItem
+                key={pack.routeId}
+                label={pack.routeTitle}
+                value={formatPackSize(pack.sizeBytes)}
+                onPress={() => handleDeleteMapPack(pack)}
+                isLast={index === mapPacks.length - 1}
+              />
+            ))}
+          </BlurView>
+          {mapPacks.length === 0 && (
+            <Text style={[styles.sectionFootnote, { color: colors.textSecondary }]}>
+              {t('settings.noOfflineMaps')}
+            </Text>
+          )}
+        </View>
+
         {/* Data Section - Hidden for guests */}
         {!isGuest && (
           <View style={styles.section}>
@@ -685,6 +771,12 @@ const styles = StyleSheet.create({
     marginBottom: 8,
     marginLeft: 18,
   },
+  sectionFootnote: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    marginTop: 8,
+    marginLeft: 18,
+  },
   sectionCard: {
     borderRadius: 20,
     borderWidth: 1,
@@ -5,7 +5,7 @@
 
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import {
   Platform,
   ScrollView,
@@ -21,8 +21,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
 
 import { Colors } from '@/constants/Colors';
-import { useThemeStore } from '@/stores';
+import { useThemeStore, useAuthStore, usePreferencesStore } from '@/stores';
 import { useTranslation } from 'react-i18next';
+import { BudgetPreference, GroupSizePreference } from '@/types';
 
 // Tour category preferences - minimalist
 const TOUR_CATEGORIES = [
@@ -56,17 +57,36 @@ export default function TourPreferencesScreen() {
   const insets = useSafeAreaInsets();
   const isDark = colorScheme === 'dark';
   const { t } = useTranslation();
+  const { user } = useAuthStore();
+  const { preferences, isSaving, fetchPreferences, savePreferences } = usePreferencesStore();
 
   // Preferences state
   const [selectedCategories, setSelectedCategories] = useState<string[]>(['history', 'nature']);
-  const [selectedGroupSize, setSelectedGroupSize] = useState<string>('couple');
-  const [selectedBudget, setSelectedBudget] = useState<string>('mid');
+  const [selectedGroupSize, setSelectedGroupSize] = useState<GroupSizePreference>('couple');
+  const [selectedBudget, setSelectedBudget] = useState<BudgetPreference>('mid');
   const [notifications, setNotifications] = useState({
     newTours: true,
     priceDrops: true,
     recommendations: true,
   });
-  const [isLoading, setIsLoading] = useState(false);
+
+  // Load saved preferences
+  useEffect(() => {
+    if (user?.id) {
+      fetchPreferences(user.id);
+    }
+  }, [user?.id, fetchPreferences]);
+
+  // Fill the form once saved preferences arrive
+  useEffect(() => {
+    if (!preferences) return;
+    if (preferences.categories.length > 0) {
+      setSelectedCategories(preferences.categories);
+    }
+    if (preferences.groupSize) setSelectedGroupSize(preferences.groupSize);
+    if (preferences.budget) setSelectedBudget(preferences.budget);
+    setNotifications(preferences.notifications);
+  }, [preferences]);
 
   const toggleCategory = (categoryId: string) => {
     setSelectedCategories(prev => 
@@ -76,21 +96,34 @@ export default function TourPreferencesScreen() {
     );
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (selectedCategories.length === 0) {
       Alert.alert(t('profileScreens.tourPreferences.selectWarningTitle'), t('profileScreens.tourPreferences.selectWarning'));
       return;
     }
 
-    setIsLoading(true);
-    setTimeout(() => {
-      setIsLoading(false);
-      Alert.alert(
-        t('profileScreens.tourPreferences.saveSuccessTitle'),
-        t('profileScreens.tourPreferences.saveSuccess'),
-        [{ text: t('common.done'), onPress: () => router.back() }]
-      );
-    }, 800);
+    if (!user?.id) {
+      Alert.alert(t('common.error'), t('profileScreens.tourPreferences.loginRequired'));
+      return;
+    }
+
+    const { success } = await savePreferences(user.id, {
+      categories: selectedCategories,
+      groupSize: selectedGroupSize,
+      budget: selectedBudget,
+      notifications,
+    });
+
+    if (!success) {
+      Alert.alert(t('common.error'), t('profileScreens.tourPreferences.saveError'));
+      return;
+    }
+
+    Alert.alert(
+      t('profileScreens.tourPreferences.saveSuccessTitle'),
+      t('profileScreens.tourPreferences.saveSuccess'),
+      [{ text: t('common.done'), onPress: () => router.back() }]
+    );
   };
 
   return (
@@ -295,9 +328,9 @@ export default function TourPreferencesScreen() {
           style={[styles.saveButton, { backgroundColor: colors.primary }]}
           activeOpacity={0.9}
           onPress={handleSave}
-          disabled={isLoading}
+          disabled={isSaving}
         >
-          {isLoading ? (
+          {isSaving ? (
             <ActivityIndicator size="small" color="#fff" />
           ) : (
             <Text style={styles.saveButtonText}>{t('profileScreens.tourPreferences.saveButton')}</Text>
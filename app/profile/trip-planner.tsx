@@ -0,0 +1,604 @@
+/**
+ * Trip Planner Screen ("My Trip Planner")
+ * Build a private multi-day plan from tours, favorites and scan results,
+ * then save, share by link or submit it as a candidate public route
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  Share,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { getStopTypeIcon } from '@/constants/ThematicRoutes';
+import { RouteDetailSheet } from '@/components/sheets';
+import { useToast } from '@/components/ui';
+import { useAuthStore, useFavoritesStore, useThemeStore, useTripPlannerStore } from '@/stores';
+import { ThematicRoute, UserRoute, UserRouteSubmissionStatus } from '@/types';
+import {
+  USER_ROUTE_MAX_DAYS,
+  createStopFromTour,
+  getUserRouteShareLink,
+  userRouteToThematicRoute,
+} from '@/lib/userRouteService';
+
+// Submission labels
+const SUBMISSION_CONFIG: Record<UserRouteSubmissionStatus, { labelKey: string; color: string }> = {
+  pending: { labelKey: 'tripPlanner.status.pending', color: '#F59E0B' },
+  approved: { labelKey: 'tripPlanner.status.approved', color: '#22C55E' },
+  rejected: { labelKey: 'tripPlanner.status.rejected', color: '#6B7280' },
+};
+
+export default function TripPlannerScreen() {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const insets = useSafeAreaInsets();
+  const isDark = colorScheme === 'dark';
+  const { t } = useTranslation();
+  const toast = useToast();
+
+  const { user } = useAuthStore();
+  const { favorites, fetchFavorites } = useFavoritesStore();
+  const {
+    routes,
+    draft,
+    isLoading,
+    isSaving,
+    fetchRoutes,
+    deleteRoute,
+    setShared,
+    submitRoute,
+    editRoute,
+    resetDraft,
+    updateDraft,
+    addStop,
+    removeStop,
+    moveStop,
+    addDay,
+    removeDay,
+    saveDraft,
+  } = useTripPlannerStore();
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [showFavorites, setShowFavorites] = useState(false);
+  const [previewRoute, setPreviewRoute] = useState<ThematicRoute | null>(null);
+
+  useEffect(() => {
+    if (user?.id) {
+      fetchRoutes(user.id);
+      fetchFavorites(user.id);
+    }
+  }, [user?.id, fetchRoutes, fetchFavorites]);
+
+  const onRefresh = useCallback(async () => {
+    if (!user?.id) return;
+    setRefreshing(true);
+    await fetchRoutes(user.id);
+    setRefreshing(false);
+  }, [user?.id, fetchRoutes]);
+
+  const activeDay = draft.itinerary.find(day => day.dayIndex === draft.activeDayIndex) || draft.itinerary[0];
+  const cardStyle = {
+    backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : '#fff',
+    borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+  };
+  const inputStyle = {
+    backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5',
+    color: colors.text,
+  };
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+    const { error } = await saveDraft(user.id);
+    if (error) {
+      Alert.alert(t('common.error'), error);
+      return;
+    }
+    toast.success(t('tripPlanner.saved'));
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(t('tripPlanner.discardTitle'), t('tripPlanner.discardMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('tripPlanner.discard'), style: 'destructive', onPress: resetDraft },
+    ]);
+  };
+
+  const handleShare = async (route: UserRoute) => {
+    if (!route.isShared) {
+      const { success, error } = await setShared(route.id, true);
+      if (!success) {
+        Alert.alert(t('common.error'), error || t('tripPlanner.errors.shareFailed'));
+        return;
+      }
+    }
+
+    await Share.share({
+      title: route.title,
+      message: t('tripPlanner.shareMessage', { title: route.title, link: getUserRouteShareLink(route.shareToken) }),
+    });
+  };
+
+  const handleStopSharing = async (route: UserRoute) => {
+    const { success, error } = await setShared(route.id, false);
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('tripPlanner.errors.shareFailed'));
+    }
+  };
+
+  const handleSubmit = (route: UserRoute) => {
+    Alert.alert(t('tripPlanner.submitTitle'), t('tripPlanner.submitMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('tripPlanner.submit'),
+        onPress: async () => {
+          const { success, error } = await submitRoute(route.id);
+          if (success) {
+            toast.success(t('tripPlanner.submitted'));
+          } else {
+            Alert.alert(t('common.error'), error || t('tripPlanner.errors.submitFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = (route: UserRoute) => {
+    Alert.alert(t('tripPlanner.deleteTitle'), t('tripPlanner.deleteMessage', { title: route.title }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          const { success, error } = await deleteRoute(route.id);
+          if (!success) {
+            Alert.alert(t('common.error'), error || t('tripPlanner.errors.deleteFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderDraft = () => (
+    <View style={[styles.card, cardStyle]}>
+      <Text style={[styles.cardTitle, { color: colors.text }]}>
+        {draft.routeId ? t('tripPlanner.editPlan') : t('tripPlanner.newPlan')}
+      </Text>
+
+      <TextInput
+        style={[styles.input, inputStyle]}
+        placeholder={t('tripPlanner.titlePlaceholder')}
+        placeholderTextColor={colors.textSecondary}
+        value={draft.title}
+        onChangeText={(title) => updateDraft({ title })}
+        maxLength={120}
+      />
+      <TextInput
+        style={[styles.input, styles.textArea, inputStyle]}
+        placeholder={t('tripPlanner.descriptionPlaceholder')}
+        placeholderTextColor={colors.textSecondary}
+        value={draft.description}
+        onChangeText={(description) => updateDraft({ description })}
+        multiline
+      />
+
+      {/* Days */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayTabs}>
+        {draft.itinerary.map(day => {
+          const isActive = day.dayIndex === activeDay.dayIndex;
+          return (
+            <TouchableOpacity
+              key={day.dayIndex}
+              style={[styles.dayTab, { backgroundColor: isActive ? colors.primary : inputStyle.backgroundColor }]}
+              onPress={() => updateDraft({ activeDayIndex: day.dayIndex })}
+              onLongPress={() => removeDay(day.dayIndex)}
+            >
+              <Text style={[styles.dayTabText, { color: isActive ? '#fff' : colors.text }]}>
+                {t('tripPlanner.day', { day: day.dayIndex })}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        {draft.itinerary.length < USER_ROUTE_MAX_DAYS && (
+          <TouchableOpacity style={[styles.dayTab, { backgroundColor: inputStyle.backgroundColor }]} onPress={addDay}>
+            <Ionicons name="add" size={16} color={colors.primary} />
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {/* Stops of the active day */}
+      {activeDay.stops.length === 0 ? (
+        <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t('tripPlanner.emptyDay')}</Text>
+      ) : (
+        activeDay.stops.map((stop, index) => (
+          <View key={stop.id} style={styles.stopRow}>
+            <View style={[styles.stopIcon, { backgroundColor: colors.primary }]}>
+              <Ionicons name={getStopTypeIcon(stop.type) as any} size={14} color="#fff" />
+            </View>
+            <Text style={[styles.stopName, { color: colors.text }]} numberOfLines={1}>
+              {stop.name}
+            </Text>
+            <TouchableOpacity
+              onPress={() => moveStop(activeDay.dayIndex, stop.id, -1)}
+              disabled={index === 0}
+              hitSlop={8}
+            >
+              <Ionicons name="chevron-up" size={18} color={index === 0 ? colors.border : colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => moveStop(activeDay.dayIndex, stop.id, 1)}
+              disabled={index === activeDay.stops.length - 1}
+              hitSlop={8}
+            >
+              <Ionicons
+                name="chevron-down"
+                size={18}
+                color={index === activeDay.stops.length - 1 ? colors.border : colors.textSecondary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => removeStop(activeDay.dayIndex, stop.id)} hitSlop={8}>
+              <Ionicons name="close-circle" size={18} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {/* Add from favorites */}
+      <TouchableOpacity style={styles.linkRow} onPress={() => setShowFavorites(!showFavorites)}>
+        <Ionicons name="heart-outline" size={16} color={colors.primary} />
+        <Text style={[styles.linkText, { color: colors.primary }]}>{t('tripPlanner.addFromFavorites')}</Text>
+      </TouchableOpacity>
+      {showFavorites && (
+        favorites.length === 0 ? (
+          <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t('tripPlanner.noFavorites')}</Text>
+        ) : (
+          favorites.map(tour => (
+            <TouchableOpacity
+              key={tour.id}
+              style={styles.favoriteRow}
+              onPress={() => {
+                if (!addStop(createStopFromTour(tour))) {
+                  toast.info(t('tripPlanner.alreadyAdded'));
+                }
+              }}
+            >
+              <Text style={[styles.stopName, { color: colors.text }]} numberOfLines={1}>{tour.title}</Text>
+              <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+          ))
+        )
+      )}
+      <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t('tripPlanner.addHint')}</Text>
+
+      <View style={styles.actionsRow}>
+        <TouchableOpacity style={[styles.secondaryButton, { borderColor: colors.border }]} onPress={handleDiscard}>
+          <Text style={[styles.secondaryButtonText, { color: colors.text }]}>{t('tripPlanner.discard')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.primary, opacity: isSaving ? 0.6 : 1 }]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#fff" />
+          ) : (
+            <Text style={styles.primaryButtonText}>{t('tripPlanner.save')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderRoute = (route: UserRoute) => {
+    const stopCount = route.itinerary.reduce((acc, day) => acc + day.stops.length, 0);
+    const status = route.submissionStatus ? SUBMISSION_CONFIG[route.submissionStatus] : null;
+    const canSubmit = route.submissionStatus === null || route.submissionStatus === 'rejected';
+
+    return (
+      <View key={route.id} style={[styles.card, cardStyle]}>
+        <TouchableOpacity onPress={() => setPreviewRoute(userRouteToThematicRoute(route))} activeOpacity={0.7}>
+          <View style={styles.routeHeader}>
+            <Text style={[styles.routeTitle, { color: colors.text }]} numberOfLines={1}>
+              {route.title}
+            </Text>
+            {status && (
+              <View style={[styles.statusBadge, { backgroundColor: `${status.color}15` }]}>
+                <Text style={[styles.statusText, { color: status.color }]}>{t(status.labelKey)}</Text>
+              </View>
+            )}
+          </View>
+          <Text style={[styles.routeMeta, { color: colors.textSecondary }]}>
+            {t('tripPlanner.summary', { days: route.itinerary.length, stops: stopCount })}
+            {route.isShared ? ` • ${t('tripPlanner.shared')}` : ''}
+          </Text>
+          {route.submissionStatus === 'rejected' && route.rejectionReason && (
+            <Text style={[styles.hintText, { color: colors.textSecondary }]}>{route.rejectionReason}</Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={styles.routeActions}>
+          <TouchableOpacity style={styles.iconButton} onPress={() => editRoute(route)}>
+            <Ionicons name="create-outline" size={20} color={colors.text} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => handleShare(route)}
+            onLongPress={() => route.isShared && handleStopSharing(route)}
+          >
+            <Ionicons name={route.isShared ? 'link' : 'share-outline'} size={20} color={colors.text} />
+          </TouchableOpacity>
+          {canSubmit && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => handleSubmit(route)}>
+              <Ionicons name="paper-plane-outline" size={20} color={colors.text} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(route)}>
+            <Ionicons name="trash-outline" size={20} color="#EF4444" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
+        <TouchableOpacity
+          style={[styles.backButton, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' }]}
+          onPress={() => router.back()}
+        >
+          <Text style={[styles.backButtonText, { color: colors.text }]}>‹</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>{t('tripPlanner.title')}</Text>
+        <View style={{ width: 44 }} />
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={colors.primary} />
+        }
+      >
+        {renderDraft()}
+
+        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{t('tripPlanner.myPlans')}</Text>
+        {isLoading && routes.length === 0 ? (
+          <ActivityIndicator color={colors.primary} style={styles.loader} />
+        ) : routes.length === 0 ? (
+          <Text style={[styles.hintText, { color: colors.textSecondary }]}>{t('tripPlanner.noPlans')}</Text>
+        ) : (
+          routes.map(renderRoute)
+        )}
+      </ScrollView>
+
+      <RouteDetailSheet
+        route={previewRoute}
+        visible={previewRoute !== null}
+        onClose={() => setPreviewRoute(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  backButtonText: {
+    fontSize: 28,
+    fontWeight: '300',
+  },
+  headerTitle: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+  },
+  loader: {
+    marginTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+
+  // Cards
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Display' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  input: {
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    marginBottom: 10,
+  },
+  textArea: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    lineHeight: 18,
+    marginTop: 8,
+  },
+
+  // Draft editor
+  dayTabs: {
+    gap: 8,
+    paddingVertical: 4,
+  },
+  dayTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    justifyContent: 'center',
+  },
+  dayTabText: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  stopIcon: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stopName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  linkText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  favoriteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    paddingLeft: 22,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+
+  // Saved plans
+  routeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  routeTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  routeMeta: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    marginTop: 4,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  routeActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 10,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -0,0 +1,308 @@
+/**
+ * Scan History Screen
+ * Saved scans synced across devices, opened from the scan tab
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { useAuthStore, useScanStore, useThemeStore } from '@/stores';
+import { ScanHistoryItem } from '@/lib/scanHistoryService';
+
+export default function ScanHistoryScreen() {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const { t, i18n } = useTranslation();
+
+  const { user } = useAuthStore();
+  const {
+    scanHistory,
+    isHistoryLoading,
+    fetchHistory,
+    removeScanFromHistory,
+    clearHistory,
+  } = useScanStore();
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchHistory(user.id);
+    }
+  }, [user?.id, fetchHistory]);
+
+  const handleRefresh = useCallback(async () => {
+    if (!user) return;
+    setIsRefreshing(true);
+    await fetchHistory(user.id);
+    setIsRefreshing(false);
+  }, [user, fetchHistory]);
+
+  const handleDelete = (item: ScanHistoryItem) => {
+    Alert.alert(
+      t('scan.history.deleteTitle'),
+      t('scan.history.deleteMessage', { name: item.placeName }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const { success } = await removeScanFromHistory(item.id);
+            if (!success) {
+              Alert.alert(t('common.error'), t('scan.history.deleteError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClearAll = () => {
+    Alert.alert(
+      t('scan.history.clearTitle'),
+      t('scan.history.clearMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('scan.history.clearAll'),
+          style: 'destructive',
+          onPress: async () => {
+            const { success } = await clearHistory();
+            if (!success) {
+              Alert.alert(t('common.error'), t('scan.history.deleteError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString(i18n.language, {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  const renderItem = ({ item }: { item: ScanHistoryItem }) => (
+    <TouchableOpacity
+      style={[styles.item, { backgroundColor: colors.card, borderColor: colors.border }]}
+      onPress={() => router.push({ pathname: '/scan-result', params: { historyId: item.id } } as any)}
+      activeOpacity={0.8}
+    >
+      {item.thumbnailUrl ? (
+        <Image source={{ uri: item.thumbnailUrl }} style={styles.thumbnail} />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { backgroundColor: colors.border }]}>
+          <Ionicons name="image-outline" size={22} color={colors.textSecondary} />
+        </View>
+      )}
+
+      <View style={styles.itemBody}>
+        <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+          {item.placeName}
+        </Text>
+        <Text style={[styles.itemMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+          {t(`scan.categories.${item.category}`)} · {Math.round(item.confidence * 100)}%
+        </Text>
+        <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+          {formatDate(item.createdAt)}
+        </Text>
+      </View>
+
+      <TouchableOpacity
+        style={styles.deleteButton}
+        onPress={() => handleDelete(item)}
+        hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+      >
+        <Ionicons name="trash-outline" size={20} color={colors.textSecondary} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <>
+      <Stack.Screen options={{ headerShown: false }} />
+
+      <View style={[styles.container, { backgroundColor: colors.background, paddingTop: insets.top }]}>
+        <StatusBar style={isDark ? 'light' : 'dark'} />
+
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={[
+              styles.backButton,
+              { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' },
+            ]}
+            onPress={() => router.back()}
+          >
+            <Ionicons name="chevron-back" size={18} color={colors.text} />
+            <Text style={[styles.backText, { color: colors.text }]}>{t('common.back')}</Text>
+          </TouchableOpacity>
+
+          {scanHistory.length > 0 && (
+            <TouchableOpacity onPress={handleClearAll}>
+              <Text style={[styles.clearText, { color: '#FF3B30' }]}>{t('scan.history.clearAll')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <Text style={[styles.title, { color: colors.text }]}>{t('scan.history.title')}</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{t('scan.history.subtitle')}</Text>
+
+        {isHistoryLoading && !isRefreshing && scanHistory.length === 0 ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={scanHistory}
+            keyExtractor={item => item.id}
+            renderItem={renderItem}
+            contentContainerStyle={[styles.content, { paddingBottom: insets.bottom + 40 }]}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+            refreshControl={
+              <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={colors.primary} />
+            }
+            ListEmptyComponent={
+              <View style={styles.empty}>
+                <Ionicons name="scan-outline" size={48} color={colors.textSecondary} />
+                <Text style={[styles.emptyTitle, { color: colors.text }]}>{t('scan.history.empty')}</Text>
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('scan.history.emptyHint')}</Text>
+              </View>
+            }
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+      </View>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    marginTop: 4,
+  },
+  backButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+  },
+  backText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    paddingHorizontal: 20,
+    marginTop: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  subtitle: {
+    fontSize: 14,
+    paddingHorizontal: 20,
+    marginTop: 4,
+    marginBottom: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  content: {
+    paddingHorizontal: 20,
+    flexGrow: 1,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    gap: 12,
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 12,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  itemBody: {
+    flex: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  itemMeta: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  deleteButton: {
+    padding: 4,
+  },
+  separator: {
+    height: 12,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingTop: 60,
+  },
+  emptyTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+});
@@ -1,13 +1,17 @@
 /**
  * Scan Result Screen - Premium, elegant, minimal design
  * Clean typography, subtle shadows, refined spacing
+ *
+ * Shows the latest scan, or a saved one when opened from scan history
+ * with a historyId param
  */
 
 import { Ionicons } from '@expo/vector-icons';
-import { router, Stack } from 'expo-router';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
+  Alert,
   Animated,
   Dimensions,
   Image,
@@ -23,8 +27,20 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
-import { useThemeStore } from '@/stores';
+import {
+  useAuthStore,
+  useFavoritesStore,
+  useRouteStore,
+  useThemeStore,
+  useTourStore,
+  useTripPlannerStore,
+} from '@/stores';
 import { useScanStore, selectAnalysisResult, selectImageUri } from '@/stores/scanStore';
+import { PaywallSheet, useToast } from '@/components/ui';
+import { RouteDetailSheet, TourDetailSheet } from '@/components/sheets';
+import { createStopFromScan } from '@/lib/userRouteService';
+import { matchScanToCatalog } from '@/lib/scanMatchService';
+import { ThematicRoute, Tour } from '@/types';
 
 const { width } = Dimensions.get('window');
 
@@ -35,8 +51,38 @@ export default function ScanResultScreen() {
   const isDark = colorScheme === 'dark';
   const { t } = useTranslation();
 
-  const analysisResult = useScanStore(selectAnalysisResult);
-  const imageUri = useScanStore(selectImageUri);
+  const { historyId } = useLocalSearchParams<{ historyId?: string }>();
+  const historyItem = useScanStore(state =>
+    historyId ? state.scanHistory.find(item => item.id === historyId) : undefined
+  );
+  const latestResult = useScanStore(selectAnalysisResult);
+  const latestImageUri = useScanStore(selectImageUri);
+  const analysisResult = historyId ? historyItem?.result ?? null : latestResult;
+  const imageUri = historyId ? historyItem?.thumbnailUrl : latestImageUri;
+  const addTripStop = useTripPlannerStore(state => state.addStop);
+  const tripDayIndex = useTripPlannerStore(state => state.draft.activeDayIndex);
+  const toast = useToast();
+
+  // Our own tours and routes that include the scanned place
+  const { user } = useAuthStore();
+  const { allTours, fetchAllTours } = useTourStore();
+  const { routes, fetchRoutesWithSWR } = useRouteStore();
+  const { isFavorited, toggleFavorite } = useFavoritesStore();
+  const [selectedTour, setSelectedTour] = useState<Tour | null>(null);
+  const [selectedRoute, setSelectedRoute] = useState<ThematicRoute | null>(null);
+  const [showPaywall, setShowPaywall] = useState(false);
+
+  useEffect(() => {
+    fetchAllTours();
+    fetchRoutesWithSWR();
+  }, [fetchAllTours, fetchRoutesWithSWR]);
+
+  const catalogMatches = useMemo(
+    () => (analysisResult?.success
+      ? matchScanToCatalog(analysisResult, allTours, routes)
+      : { tours: [], routes: [] }),
+    [analysisResult, allTours, routes]
+  );
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(20)).current;
@@ -62,7 +108,7 @@ export default function ScanResultScreen() {
     }
   }, [analysisResult]);
 
-  if (!analysisResult || !imageUri) {
+  if (!analysisResult || (!historyId && !imageUri)) {
     return null;
   }
 
@@ -77,6 +123,27 @@ export default function ScanResultScreen() {
     } catch {}
   };
 
+  const handleAddToTrip = () => {
+    addTripStop(createStopFromScan(analysisResult));
+    toast.success(t('tripPlanner.addedToDay', { day: tripDayIndex }));
+  };
+
+  const handleToggleFavorite = async (tour: Tour) => {
+    if (!user) {
+      router.push('/(auth)');
+      return;
+    }
+
+    const { isFavorited: nowFavorited, error, requiresUpgrade } = await toggleFavorite(user.id, tour);
+    if (requiresUpgrade) {
+      setShowPaywall(true);
+    } else if (error) {
+      Alert.alert(t('common.error'), error);
+    } else {
+      toast.success(t(nowFavorited ? 'scan.matches.favoriteAdded' : 'scan.matches.favoriteRemoved'));
+    }
+  };
+
   const bgColor = isDark ? '#0D0D0D' : '#FAFAFA';
   const cardBg = isDark ? '#1A1A1A' : '#FFFFFF';
   const textPrimary = isDark ? '#FFFFFF' : '#111111';
@@ -114,7 +181,13 @@ export default function ScanResultScreen() {
               { opacity: fadeAnim, transform: [{ translateY: slideAnim }] },
             ]}
           >
-            <Image source={{ uri: imageUri }} style={styles.heroImage} />
+            {imageUri ? (
+              <Image source={{ uri: imageUri }} style={styles.heroImage} />
+            ) : (
+              <View style={[styles.heroImage, styles.heroPlaceholder, { backgroundColor: cardBg }]}>
+                <Ionicons name="image-outline" size={40} color={textMuted} />
+              </View>
+            )}
             
             {/* Confidence badge - minimalist, top right */}
             <View style={[styles.confidenceBadge, { backgroundColor: colors.primary }]}>
@@ -149,6 +222,65 @@ export default function ScanResultScreen() {
             )}
           </Animated.View>
 
+          {/* Catalogue matches */}
+          {(catalogMatches.tours.length > 0 || catalogMatches.routes.length > 0) && (
+            <Animated.View
+              style={[
+                styles.section,
+                { opacity: fadeAnim, transform: [{ translateY: slideAnim }] },
+              ]}
+            >
+              <Text style={[styles.sectionLabel, { color: textMuted }]}>
+                {t('scan.matches.title')}
+              </Text>
+              {catalogMatches.tours.map(({ tour }) => (
+                <TouchableOpacity
+                  key={`tour-${tour.id}`}
+                  style={[styles.matchCard, { backgroundColor: cardBg, borderColor }]}
+                  onPress={() => setSelectedTour(tour)}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="compass-outline" size={22} color={colors.primary} />
+                  <View style={styles.matchBody}>
+                    <Text style={[styles.matchLabel, { color: textMuted }]}>{t('scan.matches.partOfTour')}</Text>
+                    <Text style={[styles.matchTitle, { color: textPrimary }]} numberOfLines={1}>{tour.title}</Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.matchAction}
+                    onPress={() => handleToggleFavorite(tour)}
+                    accessibilityLabel={t(isFavorited(tour.id) ? 'scan.matches.unfavorite' : 'scan.matches.favorite')}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Ionicons
+                      name={isFavorited(tour.id) ? 'heart' : 'heart-outline'}
+                      size={22}
+                      color={isFavorited(tour.id) ? '#FF3B30' : textSecondary}
+                    />
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              ))}
+              {catalogMatches.routes.map(({ route, dayIndex }) => (
+                <TouchableOpacity
+                  key={`route-${route.id}`}
+                  style={[styles.matchCard, { backgroundColor: cardBg, borderColor }]}
+                  onPress={() => setSelectedRoute(route)}
+                  activeOpacity={0.8}
+                >
+                  <Ionicons name="map-outline" size={22} color={colors.primary} />
+                  <View style={styles.matchBody}>
+                    <Text style={[styles.matchLabel, { color: textMuted }]}>
+                      {t('scan.matches.onRoute', { day: dayIndex })}
+                    </Text>
+                    <Text style={[styles.matchTitle, { color: textPrimary }]} numberOfLines={1}>{route.title}</Text>
+                  </View>
+                  <View style={styles.matchAction}>
+                    <Text style={[styles.matchActionText, { color: colors.primary }]}>{t('scan.matches.openRoute')}</Text>
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </Animated.View>
+          )}
+
           {/* Info Pills */}
           {(analysisResult.historicalPeriod || analysisResult.yearBuilt) && (
             <Animated.View
@@ -286,17 +418,46 @@ export default function ScanResultScreen() {
             },
           ]}
         >
+          {analysisResult.success && (
+            <TouchableOpacity
+              style={[styles.ctaButton, styles.secondaryCta, { borderColor }]}
+              onPress={handleAddToTrip}
+              activeOpacity={0.9}
+            >
+              <Text style={[styles.ctaText, { color: textPrimary }]}>{t('tripPlanner.addToTrip')}</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={[styles.ctaButton, { backgroundColor: colors.primary }]}
             onPress={() => {
-              useScanStore.getState().clearAnalysis();
+              if (!historyId) {
+                useScanStore.getState().clearAnalysis();
+              }
               router.back();
             }}
             activeOpacity={0.9}
           >
-            <Text style={styles.ctaText}>{t('scan.scanAgain')}</Text>
+            <Text style={styles.ctaText}>{t(historyId ? 'common.back' : 'scan.scanAgain')}</Text>
           </TouchableOpacity>
         </View>
+
+        <TourDetailSheet
+          tour={selectedTour}
+          visible={selectedTour !== null}
+          onClose={() => setSelectedTour(null)}
+        />
+
+        <RouteDetailSheet
+          route={selectedRoute}
+          visible={selectedRoute !== null}
+          onClose={() => setSelectedRoute(null)}
+        />
+
+        <PaywallSheet
+          visible={showPaywall}
+          onClose={() => setShowPaywall(false)}
+          trigger="favorites"
+        />
       </View>
     </>
   );
@@ -342,6 +503,10 @@ const styles = StyleSheet.create({
     aspectRatio: 4 / 3,
     borderRadius: 20,
   },
+  heroPlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   confidenceBadge: {
     position: 'absolute',
     top: 12,
@@ -451,6 +616,36 @@ const styles = StyleSheet.create({
     lineHeight: 24,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  matchCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  matchBody: {
+    flex: 1,
+  },
+  matchLabel: {
+    fontSize: 12,
+    marginBottom: 2,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  matchTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  matchAction: {
+    paddingLeft: 4,
+  },
+  matchActionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   tagsWrap: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -477,6 +672,10 @@ const styles = StyleSheet.create({
     borderRadius: 14,
     alignItems: 'center',
   },
+  secondaryCta: {
+    borderWidth: 1,
+    marginBottom: 10,
+  },
   ctaText: {
     color: '#FFF',
     fontSize: 16,
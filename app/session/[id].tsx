@@ -1,14 +1,16 @@
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
+  KeyboardAvoidingView,
   Platform,
   ScrollView,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
@@ -17,7 +19,13 @@ import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
 import { MeetingInviteSheet } from '@/components/sheets';
+import { MeetingLocationMap, MeetingMapMember } from '@/components/map';
+import { useLocation } from '@/hooks';
+import { formatDistance } from '@/lib/itineraryService';
+import { getRepeatOption, shareMeetingCalendar } from '@/lib/meetingCalendarService';
+import { getEtaToDestination, LOCATION_SHARE_DURATIONS } from '@/lib/meetingLocationService';
 import { useAuthStore, useMeetingStore, useThemeStore } from '@/stores';
+import { MeetingMessage, MeetingParticipant } from '@/types';
 
 export default function MeetingSessionScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -33,18 +41,46 @@ export default function MeetingSessionScreen() {
     currentSession,
     participants,
     inviteCode,
+    joinRequests,
+    messages,
+    onlineUserIds,
+    memberLocations,
+    locationSharingUntil,
+    wasRemoved,
     isLoading,
     isSubmitting,
     error,
     fetchSessionById,
     fetchParticipants,
     fetchInviteCode,
+    fetchJoinRequests,
+    respondToJoinRequest,
     startSession,
     endSession,
     leaveSession,
+    removeParticipant,
+    sendMessage,
+    deleteMessage,
+    subscribeToSession,
+    unsubscribeFromSession,
+    startLocationSharing,
+    publishLocation,
+    stopLocationSharing,
   } = useMeetingStore();
 
   const [isInviteVisible, setIsInviteVisible] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const chatScrollRef = useRef<ScrollView>(null);
+  const [pendingShareMinutes, setPendingShareMinutes] = useState<number | null>(null);
+
+  const isSharingLocation = !!locationSharingUntil;
+  const {
+    location,
+    requestLocation,
+    isPermissionGranted,
+    isPermissionDenied,
+  } = useLocation({ autoRequest: false, enableGeocoding: false, watchPosition: isSharingLocation });
 
   useEffect(() => {
     if (!sessionId) return;
@@ -52,17 +88,104 @@ export default function MeetingSessionScreen() {
     fetchParticipants(sessionId);
   }, [sessionId, fetchSessionById, fetchParticipants]);
 
+  useEffect(() => {
+    if (!sessionId || !user?.id) return;
+    subscribeToSession(sessionId, user.id);
+    return () => unsubscribeFromSession();
+  }, [sessionId, user?.id, subscribeToSession, unsubscribeFromSession]);
+
+  useEffect(() => {
+    if (!wasRemoved) return;
+    Alert.alert(t('meeting.removed.title'), t('meeting.removed.message'), [
+      { text: t('common.ok'), onPress: () => router.back() },
+    ]);
+  }, [wasRemoved, t]);
+
   const isHost = useMemo(() => currentSession?.hostId === user?.id, [currentSession, user?.id]);
+  const isChatOpen = currentSession?.status === 'draft' || currentSession?.status === 'active';
+
+  useEffect(() => {
+    if (!sessionId || !isHost) return;
+    fetchJoinRequests(sessionId);
+  }, [sessionId, isHost, fetchJoinRequests]);
+  const isSessionActive = currentSession?.status === 'active';
+
+  // Start sharing once the permission request resolves
+  useEffect(() => {
+    if (pendingShareMinutes === null) return;
+    if (isPermissionGranted) {
+      startLocationSharing(pendingShareMinutes).then(({ success, error }) => {
+        if (!success) {
+          Alert.alert(t('common.error'), error || t('meeting.location.activeOnly'));
+        }
+      });
+      setPendingShareMinutes(null);
+    } else if (isPermissionDenied) {
+      setPendingShareMinutes(null);
+    }
+  }, [pendingShareMinutes, isPermissionGranted, isPermissionDenied, startLocationSharing, t]);
+
+  useEffect(() => {
+    if (!isSharingLocation || !location) return;
+    publishLocation({
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      accuracy: location.coords.accuracy,
+      updatedAt: new Date(location.timestamp).toISOString(),
+    });
+  }, [isSharingLocation, location, publishLocation]);
+
+  // Time-boxed: stop when the chosen window runs out
+  useEffect(() => {
+    if (!locationSharingUntil) return;
+    const remaining = new Date(locationSharingUntil).getTime() - Date.now();
+    const timer = setTimeout(() => stopLocationSharing(), Math.max(0, remaining));
+    return () => clearTimeout(timer);
+  }, [locationSharingUntil, stopLocationSharing]);
+
+  const destination = useMemo(() => {
+    if (!currentSession?.destinationLat || !currentSession?.destinationLng) return null;
+    return {
+      latitude: currentSession.destinationLat,
+      longitude: currentSession.destinationLng,
+      label: currentSession.destinationText,
+    };
+  }, [currentSession]);
+
+  const mapMembers = useMemo<MeetingMapMember[]>(
+    () =>
+      participants
+        .filter(p => memberLocations[p.userId])
+        .map(p => ({
+          location: memberLocations[p.userId],
+          name: p.user?.fullName || t('meeting.participants.anonymous'),
+          isMe: p.userId === user?.id,
+        })),
+    [participants, memberLocations, user?.id, t]
+  );
+
+  const handleShareLocation = useCallback(
+    (minutes: number) => {
+      setPendingShareMinutes(minutes);
+      requestLocation(true);
+    },
+    [requestLocation]
+  );
 
+  // Hosts can issue a new code from the sheet even when none is usable
   const handleOpenInvite = useCallback(async () => {
     if (!sessionId) return;
-    const code = await fetchInviteCode(sessionId);
-    if (!code) {
-      Alert.alert(t('common.error'), t('meeting.invite.missing'));
-      return;
-    }
+    await fetchInviteCode(sessionId);
     setIsInviteVisible(true);
-  }, [fetchInviteCode, sessionId, t]);
+  }, [fetchInviteCode, sessionId]);
+
+  const handleAddToCalendar = useCallback(async () => {
+    if (!currentSession) return;
+    const { success } = await shareMeetingCalendar([currentSession], currentSession.title);
+    if (!success) {
+      Alert.alert(t('common.error'), t('meeting.schedule.exportFailed'));
+    }
+  }, [currentSession, t]);
 
   const handleStart = useCallback(async () => {
     if (!sessionId) return;
@@ -90,6 +213,96 @@ export default function MeetingSessionScreen() {
     router.back();
   }, [leaveSession, sessionId, user?.id, t]);
 
+  const handleRemoveParticipant = useCallback(
+    (participant: MeetingParticipant) => {
+      Alert.alert(
+        t('meeting.participants.removeTitle'),
+        t('meeting.participants.removeMessage', {
+          name: participant.user?.fullName || t('meeting.participants.anonymous'),
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('meeting.participants.remove'),
+            style: 'destructive',
+            onPress: async () => {
+              const { success, error } = await removeParticipant(sessionId, participant.userId);
+              if (!success) {
+                Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+              }
+            },
+          },
+        ]
+      );
+    },
+    [removeParticipant, sessionId, t]
+  );
+
+  const handleRespondToRequest = useCallback(
+    async (participant: MeetingParticipant, approve: boolean) => {
+      const { success, error } = await respondToJoinRequest(sessionId, participant.userId, approve);
+      if (!success) {
+        Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+      }
+    },
+    [respondToJoinRequest, sessionId, t]
+  );
+
+  const handleSendMessage = useCallback(async () => {
+    if (!sessionId || !user?.id || !draft.trim() || isSending) return;
+    setIsSending(true);
+    const { success } = await sendMessage(sessionId, user.id, draft);
+    setIsSending(false);
+    if (!success) {
+      Alert.alert(t('common.error'), t('meeting.chat.sendFailed'));
+      return;
+    }
+    setDraft('');
+  }, [draft, isSending, sendMessage, sessionId, user?.id, t]);
+
+  const handleDeleteMessage = useCallback(
+    (message: MeetingMessage) => {
+      if (!user?.id || (!isHost && message.userId !== user.id)) return;
+      Alert.alert(t('meeting.chat.deleteTitle'), t('meeting.chat.deleteMessage'), [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await deleteMessage(message.id, user.id);
+            if (!success) {
+              Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+            }
+          },
+        },
+      ]);
+    },
+    [deleteMessage, isHost, user?.id, t]
+  );
+
+  const formatEta = useCallback(
+    (member: MeetingMapMember) => {
+      if (!destination) return t('meeting.location.noDestination');
+      const eta = getEtaToDestination(member.location, destination);
+      return t(eta.mode === 'walk' ? 'meeting.location.etaWalk' : 'meeting.location.etaDrive', {
+        distance: formatDistance(eta.distanceKm),
+        minutes: eta.minutes,
+      });
+    },
+    [destination, t]
+  );
+
+  const formatTime = useCallback(
+    (value: string) => {
+      const isEnglish = (i18n.language || '').toLowerCase().startsWith('en');
+      return new Date(value).toLocaleTimeString(isEnglish ? 'en-US' : 'tr-TR', {
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    },
+    [i18n.language]
+  );
+
   const formatDate = useCallback(
     (value?: string) => {
       if (!value) return t('meeting.list.noDate');
@@ -127,123 +340,377 @@ export default function MeetingSessionScreen() {
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <StatusBar style={isDark ? 'light' : 'dark'} />
       <SafeAreaView style={{ flex: 1, paddingTop: insets.top }}>
-        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
-          <TouchableOpacity
-            style={[
-              styles.backButton,
-              { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' },
-            ]}
-            onPress={() => router.back()}
+        <KeyboardAvoidingView
+          style={{ flex: 1 }}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView
+            contentContainerStyle={styles.content}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
           >
-            <Ionicons name="chevron-back" size={18} color={colors.text} />
-            <Text style={[styles.backText, { color: colors.text }]}>{t('common.back')}</Text>
-          </TouchableOpacity>
-
-          <View style={styles.headerRow}>
-            <View style={[styles.statusBadge, { backgroundColor: colors.primary + '22' }]}>
-              <Text style={[styles.statusText, { color: colors.primary }]}>
-                {t(`meeting.status.${currentSession.status}`)}
+            <TouchableOpacity
+              style={[
+                styles.backButton,
+                { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' },
+              ]}
+              onPress={() => router.back()}
+            >
+              <Ionicons name="chevron-back" size={18} color={colors.text} />
+              <Text style={[styles.backText, { color: colors.text }]}>{t('common.back')}</Text>
+            </TouchableOpacity>
+
+            <View style={styles.headerRow}>
+              <View style={[styles.statusBadge, { backgroundColor: colors.primary + '22' }]}>
+                <Text style={[styles.statusText, { color: colors.primary }]}>
+                  {t(`meeting.status.${currentSession.status}`)}
+                </Text>
+              </View>
+              {isHost ? (
+                <TouchableOpacity style={styles.inviteButton} onPress={handleOpenInvite}>
+                  <Ionicons name="qr-code-outline" size={18} color={colors.text} />
+                  <Text style={[styles.inviteText, { color: colors.text }]}>{t('meeting.invite.title')}</Text>
+                </TouchableOpacity>
+              ) : null}
+            </View>
+
+            <Text style={[styles.title, { color: colors.text }]}>{currentSession.title}</Text>
+            <Text style={[styles.destination, { color: colors.textSecondary }]}>
+              {currentSession.destinationText}
+            </Text>
+
+            <View style={[styles.metaCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
+              <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
+              <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                {formatDate(currentSession.scheduledAt || currentSession.createdAt)}
+                {currentSession.recurrenceFrequency
+                  ? ` • ${t(`meeting.schedule.repeatOptions.${getRepeatOption(currentSession)}`)}`
+                  : ''}
               </Text>
+              {currentSession.scheduledAt ? (
+                <TouchableOpacity
+                  style={styles.calendarButton}
+                  onPress={handleAddToCalendar}
+                  accessibilityLabel={t('meeting.schedule.addToCalendar')}
+                >
+                  <Ionicons name="add-circle-outline" size={16} color={colors.primary} />
+                  <Text style={[styles.calendarText, { color: colors.primary }]}>
+                    {t('meeting.schedule.addToCalendar')}
+                  </Text>
+                </TouchableOpacity>
+              ) : null}
             </View>
-            {isHost ? (
-              <TouchableOpacity style={styles.inviteButton} onPress={handleOpenInvite}>
-                <Ionicons name="qr-code-outline" size={18} color={colors.text} />
-                <Text style={[styles.inviteText, { color: colors.text }]}>{t('meeting.invite.title')}</Text>
-              </TouchableOpacity>
+
+            {currentSession.description ? (
+              <Text style={[styles.description, { color: colors.text }]}>{currentSession.description}</Text>
             ) : null}
-          </View>
 
-          <Text style={[styles.title, { color: colors.text }]}>{currentSession.title}</Text>
-          <Text style={[styles.destination, { color: colors.textSecondary }]}>
-            {currentSession.destinationText}
-          </Text>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('meeting.participants.title')}</Text>
+              <Text style={[styles.sectionCount, { color: colors.textSecondary }]}>
+                {participants.length}/{currentSession.maxParticipants}
+              </Text>
+            </View>
 
-          <View style={[styles.metaCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
-            <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
-            <Text style={[styles.metaText, { color: colors.textSecondary }]}>
-              {formatDate(currentSession.scheduledAt || currentSession.createdAt)}
-            </Text>
-          </View>
+            <View style={styles.participantList}>
+              {participants.map((participant) => {
+                const isOwner = participant.role === 'host';
+                const isOnline = onlineUserIds.includes(participant.userId);
+                return (
+                  <View
+                    key={participant.id}
+                    style={[
+                      styles.participantCard,
+                      { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+                    ]}
+                  >
+                    <View>
+                      <Ionicons name="person-circle-outline" size={24} color={colors.textSecondary} />
+                      {isOnline ? <View style={[styles.onlineDot, { borderColor: colors.background }]} /> : null}
+                    </View>
+                    <View style={styles.participantInfo}>
+                      <Text style={[styles.participantName, { color: colors.text }]}>
+                        {participant.user?.fullName || t('meeting.participants.anonymous')}
+                      </Text>
+                      <Text style={[styles.participantRole, { color: colors.textSecondary }]}>
+                        {isOwner ? t('meeting.participants.host') : t('meeting.participants.member')}
+                        {isOnline ? ` · ${t('meeting.participants.online')}` : ''}
+                      </Text>
+                    </View>
+                    {isHost && !isOwner ? (
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => handleRemoveParticipant(participant)}
+                        disabled={isSubmitting}
+                      >
+                        <Ionicons name="person-remove-outline" size={18} color="#EF4444" />
+                      </TouchableOpacity>
+                    ) : null}
+                  </View>
+                );
+              })}
+            </View>
 
-          {currentSession.description ? (
-            <Text style={[styles.description, { color: colors.text }]}>{currentSession.description}</Text>
-          ) : null}
+            {isHost && joinRequests.length > 0 ? (
+              <>
+                <View style={styles.sectionHeader}>
+                  <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('meeting.requests.title')}</Text>
+                  <Text style={[styles.sectionCount, { color: colors.textSecondary }]}>{joinRequests.length}</Text>
+                </View>
 
-          <View style={styles.sectionHeader}>
-            <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('meeting.participants.title')}</Text>
-            <Text style={[styles.sectionCount, { color: colors.textSecondary }]}>
-              {participants.length}/{currentSession.maxParticipants}
-            </Text>
-          </View>
-
-          <View style={styles.participantList}>
-            {participants.map((participant) => {
-              const isOwner = participant.role === 'host';
-              return (
-                <View
-                  key={participant.id}
-                  style={[
-                    styles.participantCard,
-                    { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
-                  ]}
-                >
-                  <Ionicons name="person-circle-outline" size={24} color={colors.textSecondary} />
-                  <View style={styles.participantInfo}>
-                    <Text style={[styles.participantName, { color: colors.text }]}>
-                      {participant.user?.fullName || t('meeting.participants.anonymous')}
-                    </Text>
-                    <Text style={[styles.participantRole, { color: colors.textSecondary }]}>
-                      {isOwner ? t('meeting.participants.host') : t('meeting.participants.member')}
-                    </Text>
-                  </View>
+                <View style={styles.participantList}>
+                  {joinRequests.map((request) => (
+                    <View
+                      key={request.id}
+                      style={[
+                        styles.participantCard,
+                        { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+                      ]}
+                    >
+                      <Ionicons name="person-circle-outline" size={24} color={colors.textSecondary} />
+                      <View style={styles.participantInfo}>
+                        <Text style={[styles.participantName, { color: colors.text }]}>
+                          {request.user?.fullName || t('meeting.participants.anonymous')}
+                        </Text>
+                        <Text style={[styles.participantRole, { color: colors.textSecondary }]}>
+                          {t('meeting.requests.wantsToJoin')}
+                        </Text>
+                      </View>
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => handleRespondToRequest(request, false)}
+                        disabled={isSubmitting}
+                        accessibilityLabel={t('meeting.requests.decline')}
+                      >
+                        <Ionicons name="close-circle-outline" size={22} color="#EF4444" />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={styles.removeButton}
+                        onPress={() => handleRespondToRequest(request, true)}
+                        disabled={isSubmitting}
+                        accessibilityLabel={t('meeting.requests.approve')}
+                      >
+                        <Ionicons name="checkmark-circle" size={22} color={colors.primary} />
+                      </TouchableOpacity>
+                    </View>
+                  ))}
                 </View>
-              );
-            })}
-          </View>
+              </>
+            ) : null}
 
-          <View style={styles.actions}>
-            {isHost ? (
-              <>
-                {currentSession.status === 'draft' ? (
-                  <TouchableOpacity
-                    style={[styles.primaryButton, { backgroundColor: colors.primary }]}
-                    onPress={handleStart}
-                    disabled={isSubmitting}
-                  >
-                    <Text style={styles.primaryButtonText}>{t('meeting.actions.start')}</Text>
-                  </TouchableOpacity>
-                ) : null}
-                {currentSession.status !== 'ended' ? (
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('meeting.location.title')}</Text>
+            </View>
+
+            <View
+              style={[
+                styles.panelCard,
+                { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+              ]}
+            >
+              {isSessionActive ? (
+                <>
+                  {mapMembers.length > 0 || destination ? (
+                    <MeetingLocationMap
+                      destination={destination}
+                      members={mapMembers}
+                      colorScheme={colorScheme}
+                    />
+                  ) : null}
+
+                  {mapMembers.length === 0 ? (
+                    <Text style={[styles.chatEmpty, { color: colors.textSecondary }]}>
+                      {t('meeting.location.nobodySharing')}
+                    </Text>
+                  ) : (
+                    <View style={styles.etaList}>
+                      {mapMembers.map(member => (
+                        <View key={member.location.userId} style={styles.etaRow}>
+                          <Text style={[styles.participantName, { color: colors.text }]} numberOfLines={1}>
+                            {member.name}
+                          </Text>
+                          <Text style={[styles.participantRole, { color: colors.textSecondary }]}>
+                            {formatEta(member)}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
+
+                  {isSharingLocation ? (
+                    <View style={styles.shareRow}>
+                      <Ionicons name="navigate" size={16} color={colors.primary} />
+                      <Text style={[styles.shareStatus, { color: colors.text }]}>
+                        {t('meeting.location.sharingUntil', { time: formatTime(locationSharingUntil as string) })}
+                      </Text>
+                      <TouchableOpacity onPress={() => stopLocationSharing()}>
+                        <Text style={styles.stopShareText}>{t('meeting.location.stop')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  ) : (
+                    <>
+                      <Text style={[styles.shareHint, { color: colors.textSecondary }]}>
+                        {t('meeting.location.hint')}
+                      </Text>
+                      <View style={styles.shareRow}>
+                        <Text style={[styles.shareStatus, { color: colors.text }]}>
+                          {t('meeting.location.share')}
+                        </Text>
+                        {LOCATION_SHARE_DURATIONS.map(minutes => (
+                          <TouchableOpacity
+                            key={minutes}
+                            style={[styles.durationChip, { borderColor: colors.primary }]}
+                            onPress={() => handleShareLocation(minutes)}
+                            disabled={pendingShareMinutes !== null}
+                          >
+                            <Text style={[styles.durationText, { color: colors.primary }]}>
+                              {t('meeting.location.duration', { minutes })}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                </>
+              ) : (
+                <Text style={[styles.chatEmpty, { color: colors.textSecondary }]}>
+                  {t('meeting.location.activeOnly')}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('meeting.chat.title')}</Text>
+            </View>
+
+            <View
+              style={[
+                styles.panelCard,
+                { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+              ]}
+            >
+              <ScrollView
+                ref={chatScrollRef}
+                style={styles.chatList}
+                contentContainerStyle={styles.chatListContent}
+                nestedScrollEnabled
+                onContentSizeChange={() => chatScrollRef.current?.scrollToEnd({ animated: true })}
+              >
+                {messages.length === 0 ? (
+                  <Text style={[styles.chatEmpty, { color: colors.textSecondary }]}>
+                    {t('meeting.chat.empty')}
+                  </Text>
+                ) : (
+                  messages.map((message) => {
+                    const isMine = message.userId === user?.id;
+                    return (
+                      <TouchableOpacity
+                        key={message.id}
+                        activeOpacity={0.8}
+                        onLongPress={() => handleDeleteMessage(message)}
+                        style={[
+                          styles.messageBubble,
+                          isMine
+                            ? [styles.messageMine, { backgroundColor: colors.primary }]
+                            : { backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#FFF' },
+                        ]}
+                      >
+                        {!isMine ? (
+                          <Text style={[styles.messageAuthor, { color: colors.primary }]}>
+                            {message.user?.fullName || t('meeting.participants.anonymous')}
+                          </Text>
+                        ) : null}
+                        <Text style={[styles.messageBody, { color: isMine ? '#FFF' : colors.text }]}>
+                          {message.body}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.messageTime,
+                            { color: isMine ? 'rgba(255,255,255,0.75)' : colors.textSecondary },
+                          ]}
+                        >
+                          {formatTime(message.createdAt)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </ScrollView>
+
+              {isChatOpen ? (
+                <View style={[styles.composer, { borderColor: colors.border }]}>
+                  <TextInput
+                    style={[styles.composerInput, { color: colors.text }]}
+                    placeholder={t('meeting.chat.placeholder')}
+                    placeholderTextColor={colors.textSecondary}
+                    value={draft}
+                    onChangeText={setDraft}
+                    maxLength={1000}
+                    multiline
+                  />
                   <TouchableOpacity
-                    style={[styles.secondaryButton, { borderColor: colors.border }]}
-                    onPress={handleEnd}
-                    disabled={isSubmitting}
+                    style={[styles.sendButton, { backgroundColor: colors.primary, opacity: draft.trim() ? 1 : 0.5 }]}
+                    onPress={handleSendMessage}
+                    disabled={!draft.trim() || isSending}
                   >
-                    <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
-                      {t('meeting.actions.end')}
-                    </Text>
+                    {isSending ? (
+                      <ActivityIndicator size="small" color="#FFF" />
+                    ) : (
+                      <Ionicons name="send" size={16} color="#FFF" />
+                    )}
                   </TouchableOpacity>
-                ) : null}
-              </>
-            ) : (
-              <TouchableOpacity
-                style={[styles.secondaryButton, { borderColor: colors.border }]}
-                onPress={handleLeave}
-                disabled={isSubmitting}
-              >
-                <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
-                  {t('meeting.actions.leave')}
-                </Text>
-              </TouchableOpacity>
-            )}
-          </View>
-        </ScrollView>
+                </View>
+              ) : (
+                <Text style={[styles.chatEmpty, { color: colors.textSecondary }]}>{t('meeting.chat.closed')}</Text>
+              )}
+            </View>
+
+            <View style={styles.actions}>
+              {isHost ? (
+                <>
+                  {currentSession.status === 'draft' ? (
+                    <TouchableOpacity
+                      style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                      onPress={handleStart}
+                      disabled={isSubmitting}
+                    >
+                      <Text style={styles.primaryButtonText}>{t('meeting.actions.start')}</Text>
+                    </TouchableOpacity>
+                  ) : null}
+                  {currentSession.status !== 'ended' ? (
+                    <TouchableOpacity
+                      style={[styles.secondaryButton, { borderColor: colors.border }]}
+                      onPress={handleEnd}
+                      disabled={isSubmitting}
+                    >
+                      <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
+                        {t('meeting.actions.end')}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : null}
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.secondaryButton, { borderColor: colors.border }]}
+                  onPress={handleLeave}
+                  disabled={isSubmitting}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: colors.text }]}>
+                    {t('meeting.actions.leave')}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
       </SafeAreaView>
 
       <MeetingInviteSheet
         visible={isInviteVisible}
         inviteCode={inviteCode}
         sessionTitle={currentSession.title}
+        sessionId={currentSession.id}
+        canManage={isHost}
         onClose={() => setIsInviteVisible(false)}
       />
     </View>
@@ -319,9 +786,20 @@ const styles = StyleSheet.create({
     borderRadius: 12,
   },
   metaText: {
+    flex: 1,
     fontSize: 13,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  calendarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  calendarText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   description: {
     marginTop: 14,
     fontSize: 14,
@@ -367,6 +845,131 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  onlineDot: {
+    position: 'absolute',
+    right: -1,
+    bottom: -1,
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+    backgroundColor: '#22C55E',
+  },
+  removeButton: {
+    padding: 6,
+  },
+  etaList: {
+    marginTop: 10,
+    gap: 8,
+  },
+  etaRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 10,
+  },
+  shareHint: {
+    marginTop: 10,
+    fontSize: 12,
+    lineHeight: 17,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  shareRow: {
+    marginTop: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  shareStatus: {
+    flexGrow: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  stopShareText: {
+    color: '#EF4444',
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  durationChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  durationText: {
+    fontSize: 12,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  panelCard: {
+    marginTop: 12,
+    borderRadius: 12,
+    padding: 10,
+  },
+  chatList: {
+    maxHeight: 320,
+  },
+  chatListContent: {
+    gap: 8,
+  },
+  chatEmpty: {
+    textAlign: 'center',
+    paddingVertical: 16,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  messageBubble: {
+    alignSelf: 'flex-start',
+    maxWidth: '85%',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 14,
+  },
+  messageMine: {
+    alignSelf: 'flex-end',
+  },
+  messageAuthor: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  messageBody: {
+    fontSize: 14,
+    lineHeight: 19,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  messageTime: {
+    marginTop: 2,
+    fontSize: 10,
+    alignSelf: 'flex-end',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  composer: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+  },
+  composerInput: {
+    flex: 1,
+    maxHeight: 100,
+    fontSize: 14,
+    paddingVertical: 8,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   actions: {
     marginTop: 24,
     gap: 12,
@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { StatusBar } from 'expo-status-bar';
 import { router, useLocalSearchParams } from 'expo-router';
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   Alert,
   Platform,
@@ -28,6 +28,7 @@ export default function JoinMeetingScreen() {
   const { joinSessionByCode, isSubmitting } = useMeetingStore();
 
   const inviteCode = typeof code === 'string' ? code : '';
+  const [isPending, setIsPending] = useState(false);
 
   const handleJoin = useCallback(async () => {
     if (!inviteCode) {
@@ -35,7 +36,11 @@ export default function JoinMeetingScreen() {
       return;
     }
 
-    const { success, session, error } = await joinSessionByCode(inviteCode);
+    const { success, session, pending, error } = await joinSessionByCode(inviteCode);
+    if (success && pending) {
+      setIsPending(true);
+      return;
+    }
     if (!success || !session) {
       Alert.alert(t('common.error'), error || t('meeting.errors.joinFailed'));
       return;
@@ -69,6 +74,31 @@ export default function JoinMeetingScreen() {
     );
   }
 
+  if (isPending) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <StatusBar style={isDark ? 'light' : 'dark'} />
+        <SafeAreaView style={[styles.safeArea, { paddingTop: insets.top }]}>
+          <View style={styles.card}>
+            <Ionicons name="hourglass-outline" size={40} color={colors.primary} />
+            <Text style={[styles.title, { color: colors.text }]}>
+              {t('meeting.join.pendingTitle')}
+            </Text>
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              {t('meeting.join.pendingMessage')}
+            </Text>
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={() => router.replace('/(tabs)/community')}
+            >
+              <Text style={styles.buttonText}>{t('common.done')}</Text>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <StatusBar style={isDark ? 'light' : 'dark'} />
@@ -0,0 +1,171 @@
+/**
+ * Shared Trip Plan Screen
+ * Opened from a cyprigo://trip/<token> link
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets, SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { RouteDetailSheet } from '@/components/sheets';
+import { useAuthStore, useThemeStore, useTripPlannerStore } from '@/stores';
+import { UserRoute } from '@/types';
+import { getSharedUserRoute, userRouteToThematicRoute } from '@/lib/userRouteService';
+
+export default function SharedTripScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const { user } = useAuthStore();
+  const copyRoute = useTripPlannerStore(state => state.copyRoute);
+
+  const [route, setRoute] = useState<UserRoute | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
+
+  const shareToken = typeof token === 'string' ? token : '';
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const { data, error: loadError } = await getSharedUserRoute(shareToken);
+      setRoute(data);
+      setError(loadError);
+      setIsLoading(false);
+    };
+    load();
+  }, [shareToken]);
+
+  const handleCopy = () => {
+    if (!route) return;
+    if (!user) {
+      router.push('/(auth)');
+      return;
+    }
+    copyRoute(route);
+    router.replace('/profile/trip-planner' as any);
+  };
+
+  const stopCount = route?.itinerary.reduce((acc, day) => acc + day.stops.length, 0) ?? 0;
+  const isOwner = !!route && route.userId === user?.id;
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <SafeAreaView style={[styles.safeArea, { paddingTop: insets.top }]}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : !route ? (
+          <View style={styles.card}>
+            <Ionicons name="link-outline" size={40} color={colors.textSecondary} />
+            <Text style={[styles.title, { color: colors.text }]}>{t('tripPlanner.sharedNotFound')}</Text>
+            {error && (
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{error}</Text>
+            )}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={() => router.replace('/(tabs)')}
+            >
+              <Text style={styles.buttonText}>{t('common.close')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.card}>
+            <Ionicons name="map-outline" size={40} color={colors.primary} />
+            <Text style={[styles.title, { color: colors.text }]}>{route.title}</Text>
+            {route.description && (
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{route.description}</Text>
+            )}
+            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+              {t('tripPlanner.summary', { days: route.itinerary.length, stops: stopCount })}
+            </Text>
+
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.primary }]}
+              onPress={() => setIsPreviewVisible(true)}
+            >
+              <Text style={styles.buttonText}>{t('tripPlanner.viewPlan')}</Text>
+            </TouchableOpacity>
+            {!isOwner && (
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton, { borderColor: colors.border }]}
+                onPress={handleCopy}
+              >
+                <Text style={[styles.buttonText, { color: colors.text }]}>{t('tripPlanner.saveCopy')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+
+      <RouteDetailSheet
+        route={route ? userRouteToThematicRoute(route) : null}
+        visible={isPreviewVisible}
+        onClose={() => setIsPreviewVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  card: {
+    borderRadius: 20,
+    padding: 24,
+    gap: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  button: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 14,
+    alignItems: 'center',
+    width: '100%',
+  },
+  secondaryButton: {
+    marginTop: 0,
+    borderWidth: 1,
+  },
+  buttonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+});
@@ -0,0 +1,303 @@
+/**
+ * Public Profile Screen
+ * Opened from a post author in the community feed (cyprigo://user/<id>)
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { StatusBar } from 'expo-status-bar';
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets, SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { CommunityPostCard } from '@/components/cards';
+import { PostDetailSheet } from '@/components/sheets';
+import { useAuthStore, useBlockStore, useCommunityStore, useFollowStore, useThemeStore } from '@/stores';
+import { CommunityPost } from '@/types';
+import { getAvatarUrl } from '@/lib/avatarService';
+
+export default function PublicProfileScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+
+  const { user } = useAuthStore();
+  const { blockedUserIds } = useBlockStore();
+  const {
+    profiles,
+    followingUserIds,
+    fetchFollowing,
+    fetchPublicProfile,
+    toggleFollowUser,
+  } = useFollowStore();
+  const fetchProfilePosts = useCommunityStore(state => state.fetchProfilePosts);
+  const toggleLike = useCommunityStore(state => state.toggleLike);
+
+  const [posts, setPosts] = useState<CommunityPost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isTogglingFollow, setIsTogglingFollow] = useState(false);
+  const [selectedPost, setSelectedPost] = useState<CommunityPost | null>(null);
+
+  const profileId = typeof id === 'string' ? id : '';
+  const profile = profiles[profileId];
+  const isOwnProfile = user?.id === profileId;
+  const isBlocked = blockedUserIds.includes(profileId);
+  const isFollowing = followingUserIds.includes(profileId);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const [, profilePosts] = await Promise.all([
+        fetchPublicProfile(profileId),
+        fetchProfilePosts(profileId),
+        user ? fetchFollowing(user.id) : Promise.resolve(),
+      ]);
+      setPosts(profilePosts);
+      setIsLoading(false);
+    };
+    load();
+  }, [profileId, user?.id]);
+
+  const handleToggleFollow = async () => {
+    if (!user) {
+      router.push('/(auth)');
+      return;
+    }
+
+    setIsTogglingFollow(true);
+    const { success, error } = await toggleFollowUser(user.id, profileId);
+    setIsTogglingFollow(false);
+
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('common.error'));
+    }
+  };
+
+  const handleLikePress = useCallback(async (post: CommunityPost) => {
+    if (!user) return;
+    const { isLiked, error } = await toggleLike(user.id, post.id);
+    if (error) return;
+
+    setPosts(current => current.map(p =>
+      p.id === post.id
+        ? { ...p, isLiked, likesCount: Math.max(0, p.likesCount + (isLiked ? 1 : -1)) }
+        : p
+    ));
+  }, [user, toggleLike]);
+
+  const renderHeader = () => (
+    <View>
+      <TouchableOpacity
+        style={[
+          styles.backButton,
+          { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' },
+        ]}
+        onPress={() => router.back()}
+      >
+        <Ionicons name="chevron-back" size={18} color={colors.text} />
+        <Text style={[styles.backText, { color: colors.text }]}>{t('common.back')}</Text>
+      </TouchableOpacity>
+
+      <View style={styles.profileHeader}>
+        <Image
+          source={{ uri: getAvatarUrl(profile?.avatarUrl, profileId) }}
+          style={styles.avatar}
+        />
+        <Text style={[styles.name, { color: colors.text }]}>
+          {profile?.fullName || t('community.anonymous')}
+        </Text>
+
+        <View style={styles.statsRow}>
+          <View style={styles.stat}>
+            <Text style={[styles.statValue, { color: colors.text }]}>{posts.length}</Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('follow.posts')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={[styles.statValue, { color: colors.text }]}>{profile?.followersCount ?? 0}</Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('follow.followers')}</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={[styles.statValue, { color: colors.text }]}>{profile?.followingCount ?? 0}</Text>
+            <Text style={[styles.statLabel, { color: colors.textSecondary }]}>{t('follow.following')}</Text>
+          </View>
+        </View>
+
+        {isBlocked ? (
+          <Text style={[styles.blockedText, { color: colors.textSecondary }]}>{t('follow.blocked')}</Text>
+        ) : !isOwnProfile && (
+          <TouchableOpacity
+            style={[
+              styles.followButton,
+              isFollowing
+                ? [styles.followingButton, { borderColor: colors.border }]
+                : { backgroundColor: colors.primary },
+            ]}
+            onPress={handleToggleFollow}
+            disabled={isTogglingFollow}
+            activeOpacity={0.8}
+          >
+            <Text style={[styles.followButtonText, { color: isFollowing ? colors.text : '#FFF' }]}>
+              {t(isFollowing ? 'follow.unfollow' : 'follow.follow')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('follow.postsTitle')}</Text>
+    </View>
+  );
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+      <SafeAreaView style={{ flex: 1, paddingTop: insets.top }} edges={['left', 'right']}>
+        {isLoading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <FlatList
+            data={isBlocked ? [] : posts}
+            keyExtractor={item => item.id}
+            contentContainerStyle={styles.content}
+            ListHeaderComponent={renderHeader}
+            ItemSeparatorComponent={() => <View style={styles.separator} />}
+            ListEmptyComponent={
+              isBlocked ? null : (
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                  {t('follow.noPosts')}
+                </Text>
+              )
+            }
+            renderItem={({ item }) => (
+              <CommunityPostCard
+                post={item}
+                onPress={setSelectedPost}
+                onLikePress={handleLikePress}
+                isLiked={item.isLiked}
+              />
+            )}
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+      </SafeAreaView>
+
+      <PostDetailSheet
+        post={selectedPost}
+        visible={!!selectedPost}
+        onClose={() => setSelectedPost(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  backButton: {
+    alignSelf: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    marginTop: 4,
+  },
+  backText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  profileHeader: {
+    alignItems: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+    gap: 12,
+  },
+  avatar: {
+    width: 88,
+    height: 88,
+    borderRadius: 44,
+  },
+  name: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 32,
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  statLabel: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  followButton: {
+    minWidth: 160,
+    alignItems: 'center',
+    paddingHorizontal: 24,
+    paddingVertical: 10,
+    borderRadius: 999,
+  },
+  followingButton: {
+    borderWidth: 1,
+  },
+  followButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  blockedText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  sectionTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+    marginBottom: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  separator: {
+    height: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+});
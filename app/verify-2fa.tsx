@@ -21,6 +21,7 @@ import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
 import { useThemeStore, useTwoFactorStore, useUIStore, useAuthStore } from '@/stores';
+import type { TwoFactorMethod } from '@/lib/twoFactorService';
 
 const { width } = Dimensions.get('window');
 
@@ -42,10 +43,13 @@ export default function Verify2FAScreen() {
     resendCode,
     updateTimeRemaining,
     clearPending,
+    verificationMethod,
+    setVerificationMethod,
   } = useTwoFactorStore();
 
   // Local state
   const [code, setCode] = useState<string[]>(Array(6).fill(''));
+  const [recoveryCode, setRecoveryCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [resendCooldown, setResendCooldown] = useState(0);
@@ -116,11 +120,19 @@ export default function Verify2FAScreen() {
     }
   };
 
+  const handleMethodChange = (method: TwoFactorMethod) => {
+    setVerificationMethod(method);
+    setCode(Array(6).fill(''));
+    setRecoveryCode('');
+    setError(null);
+  };
+
   const handleVerify = async (codeString?: string) => {
-    const fullCode = codeString || code.join('');
+    const isRecovery = verificationMethod === 'recovery';
+    const fullCode = isRecovery ? recoveryCode.trim() : codeString || code.join('');
 
-    if (fullCode.length !== 6) {
-      setError(t('twoFactor.enterFullCode'));
+    if (isRecovery ? fullCode.replace(/[^0-9a-z]/gi, '').length !== 10 : fullCode.length !== 6) {
+      setError(t(isRecovery ? 'twoFactor.enterRecoveryCode' : 'twoFactor.enterFullCode'));
       return;
     }
 
@@ -136,12 +148,12 @@ export default function Verify2FAScreen() {
       router.replace('/(tabs)');
     } else {
       setCode(Array(6).fill(''));
-      inputRefs.current[0]?.focus();
+      if (!isRecovery) inputRefs.current[0]?.focus();
 
       if (result.error === 'code_expired') {
         setError(t('twoFactor.codeExpired'));
       } else if (result.error === 'max_attempts_exceeded') {
-        setError(t('twoFactor.maxAttemptsExceeded'));
+        setError(t(verificationMethod === 'email' ? 'twoFactor.maxAttemptsExceeded' : 'twoFactor.factorLocked'));
         // Sign out and go back to auth
         setTimeout(() => {
           useAuthStore.getState().signOut();
@@ -161,11 +173,17 @@ export default function Verify2FAScreen() {
     const success = await resendCode();
     setLoading(false);
 
+    const { retryAfter } = useTwoFactorStore.getState();
+
     if (success) {
       setResendCooldown(60);
       setCode(Array(6).fill(''));
       inputRefs.current[0]?.focus();
       useUIStore.getState().showToast(t('twoFactor.codeSent'), 'success');
+    } else if (retryAfter) {
+      // The last code still works; wait out the limit before another
+      setResendCooldown(retryAfter);
+      setError(t('twoFactor.rateLimited', { minutes: Math.ceil(retryAfter / 60) }));
     } else {
       setError(t('twoFactor.resendFailed'));
     }
@@ -181,6 +199,22 @@ export default function Verify2FAScreen() {
     ? pendingAuth.email.replace(/(.{2})(.*)(@.*)/, '$1***$3')
     : '';
 
+  const methodLabels: Record<TwoFactorMethod, string> = {
+    email: t('twoFactor.methods.email'),
+    totp: t('twoFactor.methods.totp'),
+    recovery: t('twoFactor.methods.recovery'),
+  };
+
+  const description = verificationMethod === 'totp'
+    ? t('twoFactor.totpDescription')
+    : verificationMethod === 'recovery'
+      ? t('twoFactor.recoveryDescription')
+      : t('twoFactor.verifyDescription', { email: maskedEmail });
+
+  const isCodeComplete = verificationMethod === 'recovery'
+    ? recoveryCode.replace(/[^0-9a-z]/gi, '').length === 10
+    : code.join('').length === 6;
+
   if (!pendingAuth) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -209,44 +243,103 @@ export default function Verify2FAScreen() {
 
           {/* Title */}
           <Text style={[styles.title, { color: colors.text }]}>
-            {t('twoFactor.verifyTitle')}
+            {verificationMethod === 'email' ? t('twoFactor.verifyTitle') : t('twoFactor.title')}
           </Text>
 
+          {/* Method choice */}
+          {pendingAuth.methods.length > 1 && (
+            <View
+              style={[
+                styles.methodSwitch,
+                { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)' },
+              ]}
+            >
+              {pendingAuth.methods.map(method => {
+                const selected = method === verificationMethod;
+                return (
+                  <TouchableOpacity
+                    key={method}
+                    style={[styles.methodOption, selected && { backgroundColor: colors.primary }]}
+                    onPress={() => handleMethodChange(method)}
+                    accessibilityRole="button"
+                    accessibilityState={{ selected }}
+                  >
+                    <Text style={[styles.methodText, { color: selected ? '#FFFFFF' : colors.text }]}>
+                      {methodLabels[method]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
           {/* Description */}
           <Text style={[styles.description, { color: colors.textSecondary }]}>
-            {t('twoFactor.verifyDescription', { email: maskedEmail })}
+            {description}
           </Text>
 
           {/* Code Input */}
-          <View style={styles.codeContainer}>
-            {Array(6).fill(0).map((_, index) => (
-              <View
-                key={index}
-                style={[
-                  styles.codeInputWrapper,
-                  {
-                    backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)',
-                    borderColor: code[index]
-                      ? colors.primary
-                      : error
-                        ? '#EF4444'
-                        : (isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)'),
-                  },
-                ]}
-              >
-                <TextInput
-                  ref={(ref) => { inputRefs.current[index] = ref; }}
-                  style={[styles.codeInput, { color: colors.text }]}
-                  value={code[index]}
-                  onChangeText={(value) => handleCodeChange(index, value)}
-                  onKeyPress={({ nativeEvent }) => handleKeyPress(index, nativeEvent.key)}
-                  keyboardType="number-pad"
-                  maxLength={1}
-                  selectTextOnFocus
-                />
-              </View>
-            ))}
-          </View>
+          {verificationMethod === 'recovery' ? (
+            <View
+              style={[
+                styles.recoveryInputWrapper,
+                {
+                  backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)',
+                  borderColor: recoveryCode
+                    ? colors.primary
+                    : error
+                      ? '#EF4444'
+                      : (isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)'),
+                },
+              ]}
+            >
+              <TextInput
+                style={[styles.recoveryInput, { color: colors.text }]}
+                value={recoveryCode}
+                onChangeText={(value) => {
+                  setRecoveryCode(value);
+                  setError(null);
+                }}
+                placeholder="xxxxx-xxxxx"
+                placeholderTextColor={colors.textSecondary}
+                autoCapitalize="none"
+                autoCorrect={false}
+                autoFocus
+                maxLength={11}
+                onSubmitEditing={() => handleVerify()}
+              />
+            </View>
+          ) : (
+            <View style={styles.codeContainer}>
+              {Array(6).fill(0).map((_, index) => (
+                <View
+                  key={index}
+                  style={[
+                    styles.codeInputWrapper,
+                    {
+                      backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.04)',
+                      borderColor: code[index]
+                        ? colors.primary
+                        : error
+                          ? '#EF4444'
+                          : (isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)'),
+                    },
+                  ]}
+                >
+                  <TextInput
+                    ref={(ref) => { inputRefs.current[index] = ref; }}
+                    style={[styles.codeInput, { color: colors.text }]}
+                    value={code[index]}
+                    onChangeText={(value) => handleCodeChange(index, value)}
+                    onKeyPress={({ nativeEvent }) => handleKeyPress(index, nativeEvent.key)}
+                    keyboardType="number-pad"
+                    maxLength={1}
+                    selectTextOnFocus
+                  />
+                </View>
+              ))}
+            </View>
+          )}
 
           {/* Timer */}
           {timeRemaining && (
@@ -274,7 +367,7 @@ export default function Verify2FAScreen() {
           <TouchableOpacity
             style={[styles.verifyButton, (loading || isVerifying) && { opacity: 0.6 }]}
             onPress={() => handleVerify()}
-            disabled={loading || isVerifying || code.join('').length !== 6}
+            disabled={loading || isVerifying || !isCodeComplete}
           >
             <LinearGradient
               colors={[colors.primary, '#E02D45']}
@@ -291,22 +384,24 @@ export default function Verify2FAScreen() {
           </TouchableOpacity>
 
           {/* Resend */}
-          <TouchableOpacity
-            style={styles.resendButton}
-            onPress={handleResend}
-            disabled={resendCooldown > 0 || loading}
-          >
-            <Text
-              style={[
-                styles.resendText,
-                { color: resendCooldown > 0 ? colors.textSecondary : colors.primary },
-              ]}
+          {verificationMethod === 'email' && (
+            <TouchableOpacity
+              style={styles.resendButton}
+              onPress={handleResend}
+              disabled={resendCooldown > 0 || loading}
             >
-              {resendCooldown > 0
-                ? t('twoFactor.resendIn', { seconds: resendCooldown })
-                : t('twoFactor.resendCode')}
-            </Text>
-          </TouchableOpacity>
+              <Text
+                style={[
+                  styles.resendText,
+                  { color: resendCooldown > 0 ? colors.textSecondary : colors.primary },
+                ]}
+              >
+                {resendCooldown > 0
+                  ? t('twoFactor.resendIn', { seconds: resendCooldown })
+                  : t('twoFactor.resendCode')}
+              </Text>
+            </TouchableOpacity>
+          )}
 
           {/* Cancel */}
           <TouchableOpacity style={styles.cancelButton} onPress={handleCancel}>
@@ -356,6 +451,24 @@ const styles = StyleSheet.create({
     marginBottom: 12,
     fontFamily: Platform.OS === 'ios' ? 'SF Pro Display' : 'sans-serif',
   },
+  methodSwitch: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+    alignSelf: 'stretch',
+  },
+  methodOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 9,
+    alignItems: 'center',
+  },
+  methodText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+  },
   description: {
     fontSize: 15,
     textAlign: 'center',
@@ -386,6 +499,22 @@ const styles = StyleSheet.create({
     height: '100%',
     fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
   },
+  recoveryInputWrapper: {
+    alignSelf: 'stretch',
+    height: 56,
+    borderRadius: 12,
+    borderWidth: 2,
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+    marginBottom: 20,
+  },
+  recoveryInput: {
+    fontSize: 22,
+    fontWeight: '600',
+    letterSpacing: 2,
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'SF Mono' : 'monospace',
+  },
   timer: {
     fontSize: 14,
     textAlign: 'center',
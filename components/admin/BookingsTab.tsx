@@ -0,0 +1,527 @@
+/**
+ * Bookings Tab Component
+ *
+ * Admin panel component for confirming and completing tour bookings
+ * Minimalist premium design without icons/emojis
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  Platform,
+  RefreshControl,
+} from 'react-native';
+import { EdgeInsets } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/Colors';
+import { getAvatarUrl } from '@/lib/avatarService';
+import { getBookingsForAdmin, updateBookingStatus, cancelBooking } from '@/lib/bookingService';
+import { Booking, BookingStatus } from '@/types';
+
+interface BookingsTabProps {
+  colors: typeof Colors.light;
+  isDark: boolean;
+  insets: EdgeInsets;
+}
+
+// Status labels and colors
+const statusConfig: Record<BookingStatus, { label: string; color: string }> = {
+  pending: { label: 'Bekliyor', color: '#F59E0B' },
+  confirmed: { label: 'Onaylandı', color: '#3B82F6' },
+  completed: { label: 'Tamamlandı', color: '#22C55E' },
+  cancelled: { label: 'İptal', color: '#6B7280' },
+};
+
+type FilterStatus = 'all' | BookingStatus;
+
+export default function BookingsTab({ colors, isDark, insets }: BookingsTabProps) {
+  // State
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<FilterStatus>('pending');
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  // Fetch bookings
+  const fetchBookings = useCallback(async () => {
+    const { data, error } = await getBookingsForAdmin('all');
+
+    if (error) {
+      console.error('Error fetching bookings:', error);
+      Alert.alert('Hata', 'Rezervasyonlar yüklenirken bir hata oluştu');
+    } else {
+      setBookings(data);
+    }
+
+    setIsLoading(false);
+    setRefreshing(false);
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  // Refresh handler
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchBookings();
+  }, [fetchBookings]);
+
+  // Confirm or complete a booking
+  const handleStatusChange = async (booking: Booking, status: 'confirmed' | 'completed') => {
+    setProcessingId(booking.id);
+    const { success, error } = await updateBookingStatus(booking.id, status);
+    setProcessingId(null);
+
+    if (!success) {
+      Alert.alert('Hata', error || 'İşlem başarısız oldu');
+      return;
+    }
+
+    setBookings(prev => prev.map(b => (b.id === booking.id ? { ...b, status } : b)));
+  };
+
+  // Cancel a booking on behalf of the user
+  const handleCancel = (booking: Booking) => {
+    Alert.alert(
+      'Rezervasyonu İptal Et',
+      'Bu rezervasyonu iptal etmek istediğinize emin misiniz?',
+      [
+        { text: 'Vazgeç', style: 'cancel' },
+        {
+          text: 'İptal Et',
+          style: 'destructive',
+          onPress: async () => {
+            setProcessingId(booking.id);
+            const { data, error } = await cancelBooking(booking.id, 'Yönetici tarafından iptal edildi');
+            setProcessingId(null);
+
+            if (error || !data) {
+              Alert.alert('Hata', error || 'Rezervasyon iptal edilemedi');
+              return;
+            }
+
+            setBookings(prev => prev.map(b => (b.id === booking.id ? { ...b, ...data, user: b.user } : b)));
+          },
+        },
+      ]
+    );
+  };
+
+  // Stats
+  const stats = {
+    total: bookings.length,
+    pending: bookings.filter(b => b.status === 'pending').length,
+    confirmed: bookings.filter(b => b.status === 'confirmed').length,
+  };
+
+  // Filter bookings
+  const filteredBookings = filterStatus === 'all'
+    ? bookings
+    : bookings.filter(b => b.status === filterStatus);
+
+  // Format date
+  const formatDate = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString('tr-TR', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+    });
+
+  // Render loading state
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+          Yükleniyor...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Stats Section */}
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)' }]}>
+          <Text style={[styles.statValue, { color: colors.text }]}>{stats.total}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Toplam</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(245,158,11,0.12)' : 'rgba(245,158,11,0.08)' }]}>
+          <Text style={[styles.statValue, { color: '#F59E0B' }]}>{stats.pending}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Bekleyen</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(59,130,246,0.12)' : 'rgba(59,130,246,0.08)' }]}>
+          <Text style={[styles.statValue, { color: '#3B82F6' }]}>{stats.confirmed}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Onaylı</Text>
+        </View>
+      </View>
+
+      {/* Filter Tabs */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterContainer}
+        contentContainerStyle={styles.filterContent}
+      >
+        {(['all', 'pending', 'confirmed', 'completed', 'cancelled'] as FilterStatus[]).map((status) => (
+          <TouchableOpacity
+            key={status}
+            style={[
+              styles.filterTab,
+              filterStatus === status && { backgroundColor: colors.primary },
+              filterStatus !== status && { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' },
+            ]}
+            onPress={() => setFilterStatus(status)}
+          >
+            <Text
+              style={[
+                styles.filterTabText,
+                { color: filterStatus === status ? '#fff' : colors.textSecondary },
+              ]}
+            >
+              {status === 'all' ? 'Tümü' : statusConfig[status].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {/* Bookings List */}
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        {filteredBookings.length === 0 ? (
+          <View style={styles.emptyState}>
+            <View style={[styles.emptyIndicator, { backgroundColor: isDark ? 'rgba(255,255,255,0.2)' : '#D1D5DB' }]} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {filterStatus === 'pending' ? 'Bekleyen rezervasyon yok' : 'Rezervasyon bulunamadı'}
+            </Text>
+            <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+              {filterStatus === 'pending'
+                ? 'Tüm rezervasyonlar işlendi'
+                : 'Bu filtreye uygun rezervasyon bulunmuyor'}
+            </Text>
+          </View>
+        ) : (
+          filteredBookings.map((booking) => {
+            const isProcessing = processingId === booking.id;
+
+            return (
+              <View
+                key={booking.id}
+                style={[
+                  styles.bookingCard,
+                  {
+                    backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : '#fff',
+                    borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+                  },
+                ]}
+              >
+                {/* Booking Header */}
+                <View style={styles.bookingHeader}>
+                  <View style={styles.userInfo}>
+                    <Image
+                      source={{ uri: getAvatarUrl(booking.user?.avatarUrl, booking.userId) }}
+                      style={styles.userAvatar}
+                    />
+                    <View style={styles.userText}>
+                      <Text style={[styles.userName, { color: colors.text }]} numberOfLines={1}>
+                        {booking.user?.fullName || 'Kullanıcı'}
+                      </Text>
+                      <Text style={[styles.tourTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {booking.tour?.title || 'Tur'}
+                      </Text>
+                    </View>
+                  </View>
+                  <View style={[
+                    styles.statusBadge,
+                    { backgroundColor: `${statusConfig[booking.status].color}15` }
+                  ]}>
+                    <Text style={[styles.statusText, { color: statusConfig[booking.status].color }]}>
+                      {statusConfig[booking.status].label}
+                    </Text>
+                  </View>
+                </View>
+
+                {/* Details */}
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Tarih:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {formatDate(booking.bookingDate)}
+                  </Text>
+                </View>
+                <View style={styles.detailRow}>
+                  <Text style={[styles.detailLabel, { color: colors.textSecondary }]}>Kişi:</Text>
+                  <Text style={[styles.detailValue, { color: colors.text }]}>
+                    {booking.numberOfGuests}
+                  </Text>
+                </View>
+
+                {booking.notes && (
+                  <Text style={[styles.notes, { color: colors.textSecondary }]} numberOfLines={3}>
+                    {booking.notes}
+                  </Text>
+                )}
+                {booking.status === 'cancelled' && booking.cancellationReason && (
+                  <Text style={[styles.notes, { color: colors.textSecondary }]} numberOfLines={2}>
+                    İptal sebebi: {booking.cancellationReason}
+                  </Text>
+                )}
+
+                {/* Actions */}
+                {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                  <View style={styles.actionsRow}>
+                    <TouchableOpacity
+                      style={[styles.actionButton, styles.cancelButton]}
+                      onPress={() => handleCancel(booking)}
+                      disabled={isProcessing}
+                    >
+                      <Text style={styles.cancelButtonText}>İptal Et</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[
+                        styles.actionButton,
+                        booking.status === 'pending' ? styles.confirmButton : styles.completeButton,
+                      ]}
+                      onPress={() =>
+                        handleStatusChange(booking, booking.status === 'pending' ? 'confirmed' : 'completed')
+                      }
+                      disabled={isProcessing}
+                    >
+                      {isProcessing ? (
+                        <ActivityIndicator size="small" color="#fff" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>
+                          {booking.status === 'pending' ? 'Onayla' : 'Tamamlandı'}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+            );
+          })
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+
+  // Stats
+  statsContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  statCard: {
+    flex: 1,
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 24,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+
+  // Filter
+  filterContainer: {
+    maxHeight: 44,
+    marginBottom: 16,
+  },
+  filterContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  filterTab: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  filterTabText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+
+  // Scroll
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+
+  // Empty State
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: 40,
+  },
+  emptyIndicator: {
+    width: 48,
+    height: 2,
+    backgroundColor: '#D1D5DB',
+    borderRadius: 1,
+    marginBottom: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+
+  // Booking Card
+  bookingCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  bookingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  userInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  userAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+  },
+  userText: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  tourTitle: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+    gap: 6,
+  },
+  detailLabel: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  detailValue: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  notes: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    lineHeight: 18,
+    marginTop: 4,
+  },
+
+  // Actions
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  actionButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(107,114,128,0.1)',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  confirmButton: {
+    backgroundColor: '#3B82F6',
+  },
+  completeButton: {
+    backgroundColor: '#22C55E',
+  },
+  primaryButtonText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
@@ -0,0 +1,764 @@
+/**
+ * Reviews Tab Component
+ *
+ * Admin panel component for moderating tour reviews
+ * Minimalist premium design without icons/emojis
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Image,
+  Alert,
+  ActivityIndicator,
+  Platform,
+  RefreshControl,
+  Modal,
+  TextInput,
+} from 'react-native';
+import { EdgeInsets } from 'react-native-safe-area-context';
+
+import { Colors } from '@/constants/Colors';
+import { getAvatarUrl } from '@/lib/avatarService';
+import { useAuthStore } from '@/stores';
+import { getReviewsForModeration, moderateReview, deleteReview } from '@/lib/reviewService';
+import { TourReview, ReviewStatus } from '@/types';
+
+interface ReviewsTabProps {
+  colors: typeof Colors.light;
+  isDark: boolean;
+  insets: EdgeInsets;
+}
+
+// Status labels and colors
+const statusConfig: Record<ReviewStatus, { label: string; color: string }> = {
+  pending: { label: 'Bekliyor', color: '#F59E0B' },
+  approved: { label: 'Onaylandı', color: '#22C55E' },
+  rejected: { label: 'Reddedildi', color: '#6B7280' },
+};
+
+type FilterStatus = 'all' | ReviewStatus;
+
+export default function ReviewsTab({ colors, isDark, insets }: ReviewsTabProps) {
+  const { user } = useAuthStore();
+
+  // State
+  const [reviews, setReviews] = useState<TourReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [filterStatus, setFilterStatus] = useState<FilterStatus>('pending');
+  const [selectedReview, setSelectedReview] = useState<TourReview | null>(null);
+  const [isDetailModalVisible, setIsDetailModalVisible] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  // Fetch reviews
+  const fetchReviews = useCallback(async () => {
+    const { data, error } = await getReviewsForModeration('all');
+
+    if (error) {
+      console.error('Error fetching reviews:', error);
+      Alert.alert('Hata', 'Değerlendirmeler yüklenirken bir hata oluştu');
+    } else {
+      setReviews(data);
+    }
+
+    setIsLoading(false);
+    setRefreshing(false);
+  }, []);
+
+  // Initial load
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  // Refresh handler
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const closeDetailModal = () => {
+    setIsDetailModalVisible(false);
+    setSelectedReview(null);
+    setRejectionReason('');
+  };
+
+  // Approve or reject a review
+  const handleModerate = async (review: TourReview, approve: boolean) => {
+    if (!user?.id) return;
+
+    const reason = rejectionReason.trim();
+    if (!approve && !reason) {
+      Alert.alert('Uyarı', 'Lütfen bir red sebebi girin');
+      return;
+    }
+
+    setProcessing(true);
+    const { success, error } = await moderateReview(review.id, user.id, approve, reason);
+    setProcessing(false);
+
+    if (!success) {
+      Alert.alert('Hata', error || 'İşlem başarısız oldu');
+      return;
+    }
+
+    // Update local state
+    setReviews(prev => prev.map(r =>
+      r.id === review.id
+        ? {
+            ...r,
+            status: approve ? 'approved' : 'rejected',
+            rejectionReason: approve ? undefined : reason,
+          }
+        : r
+    ));
+
+    closeDetailModal();
+  };
+
+  // Delete a review permanently
+  const handleDelete = (review: TourReview) => {
+    Alert.alert(
+      'Değerlendirmeyi Sil',
+      'Bu değerlendirmeyi silmek istediğinize emin misiniz? Bu işlem geri alınamaz.',
+      [
+        { text: 'İptal', style: 'cancel' },
+        {
+          text: 'Sil',
+          style: 'destructive',
+          onPress: async () => {
+            setProcessing(true);
+            const { success, error } = await deleteReview(review.id);
+            setProcessing(false);
+
+            if (!success) {
+              Alert.alert('Hata', error || 'Değerlendirme silinemedi');
+              return;
+            }
+
+            setReviews(prev => prev.filter(r => r.id !== review.id));
+            closeDetailModal();
+          },
+        },
+      ]
+    );
+  };
+
+  // Stats
+  const stats = {
+    total: reviews.length,
+    pending: reviews.filter(r => r.status === 'pending').length,
+    approved: reviews.filter(r => r.status === 'approved').length,
+  };
+
+  // Filter reviews
+  const filteredReviews = filterStatus === 'all'
+    ? reviews
+    : reviews.filter(r => r.status === filterStatus);
+
+  // Format date
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('tr-TR', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderStars = (rating: number) => '★'.repeat(rating) + '☆'.repeat(Math.max(0, 5 - rating));
+
+  // Render loading state
+  if (isLoading) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+          Yükleniyor...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Stats Section */}
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)' }]}>
+          <Text style={[styles.statValue, { color: colors.text }]}>{stats.total}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Toplam</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(245,158,11,0.12)' : 'rgba(245,158,11,0.08)' }]}>
+          <Text style={[styles.statValue, { color: '#F59E0B' }]}>{stats.pending}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Bekleyen</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: isDark ? 'rgba(34,197,94,0.12)' : 'rgba(34,197,94,0.08)' }]}>
+          <Text style={[styles.statValue, { color: '#22C55E' }]}>{stats.approved}</Text>
+          <Text style={[styles.statLabel, { color: colors.textSecondary }]}>Onaylanan</Text>
+        </View>
+      </View>
+
+      {/* Filter Tabs */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterContainer}
+        contentContainerStyle={styles.filterContent}
+      >
+        {(['all', 'pending', 'approved', 'rejected'] as FilterStatus[]).map((status) => (
+          <TouchableOpacity
+            key={status}
+            style={[
+              styles.filterTab,
+              filterStatus === status && { backgroundColor: colors.primary },
+              filterStatus !== status && { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' },
+            ]}
+            onPress={() => setFilterStatus(status)}
+          >
+            <Text
+              style={[
+                styles.filterTabText,
+                { color: filterStatus === status ? '#fff' : colors.textSecondary },
+              ]}
+            >
+              {status === 'all' ? 'Tümü' : statusConfig[status].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {/* Reviews List */}
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[styles.scrollContent, { paddingBottom: insets.bottom + 20 }]}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={colors.primary}
+          />
+        }
+      >
+        {filteredReviews.length === 0 ? (
+          <View style={styles.emptyState}>
+            <View style={[styles.emptyIndicator, { backgroundColor: isDark ? 'rgba(255,255,255,0.2)' : '#D1D5DB' }]} />
+            <Text style={[styles.emptyTitle, { color: colors.text }]}>
+              {filterStatus === 'pending' ? 'Bekleyen değerlendirme yok' : 'Değerlendirme bulunamadı'}
+            </Text>
+            <Text style={[styles.emptySubtitle, { color: colors.textSecondary }]}>
+              {filterStatus === 'pending'
+                ? 'Tüm değerlendirmeler incelendi'
+                : 'Bu filtreye uygun değerlendirme bulunmuyor'}
+            </Text>
+          </View>
+        ) : (
+          filteredReviews.map((review) => (
+            <TouchableOpacity
+              key={review.id}
+              style={[
+                styles.reviewCard,
+                {
+                  backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : '#fff',
+                  borderColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)',
+                },
+              ]}
+              onPress={() => {
+                setSelectedReview(review);
+                setRejectionReason(review.rejectionReason || '');
+                setIsDetailModalVisible(true);
+              }}
+              activeOpacity={0.7}
+            >
+              {/* Review Header */}
+              <View style={styles.reviewHeader}>
+                <View style={styles.authorInfo}>
+                  <Image
+                    source={{ uri: getAvatarUrl(review.user?.avatarUrl, review.userId) }}
+                    style={styles.authorAvatar}
+                  />
+                  <View style={styles.authorText}>
+                    <Text style={[styles.authorName, { color: colors.text }]} numberOfLines={1}>
+                      {review.user?.fullName || 'Anonim'}
+                    </Text>
+                    <Text style={[styles.reviewDate, { color: colors.textSecondary }]}>
+                      {formatDate(review.createdAt)}
+                    </Text>
+                  </View>
+                </View>
+                <View style={[
+                  styles.statusBadge,
+                  { backgroundColor: `${statusConfig[review.status].color}15` }
+                ]}>
+                  <Text style={[styles.statusText, { color: statusConfig[review.status].color }]}>
+                    {statusConfig[review.status].label}
+                  </Text>
+                </View>
+              </View>
+
+              {/* Tour & Rating */}
+              <View style={styles.tourRow}>
+                <Text style={[styles.tourTitle, { color: colors.text }]} numberOfLines={1}>
+                  {review.tour?.title || 'Tur'}
+                </Text>
+                <Text style={styles.stars}>{renderStars(review.rating)}</Text>
+              </View>
+
+              {/* Comment */}
+              {review.comment && (
+                <Text style={[styles.comment, { color: colors.textSecondary }]} numberOfLines={3}>
+                  {review.comment}
+                </Text>
+              )}
+            </TouchableOpacity>
+          ))
+        )}
+      </ScrollView>
+
+      {/* Detail Modal */}
+      <Modal
+        visible={isDetailModalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={closeDetailModal}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+          {/* Modal Header */}
+          <View style={[styles.modalHeader, { borderBottomColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' }]}>
+            <TouchableOpacity onPress={closeDetailModal}>
+              <Text style={[styles.modalCancel, { color: colors.primary }]}>Kapat</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>Değerlendirme Detayı</Text>
+            <View style={{ width: 50 }} />
+          </View>
+
+          {selectedReview && (
+            <ScrollView
+              style={styles.modalContent}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled"
+            >
+              {/* Author Section */}
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  Yazan
+                </Text>
+                <View style={[styles.sectionCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)' }]}>
+                  <Image
+                    source={{ uri: getAvatarUrl(selectedReview.user?.avatarUrl, selectedReview.userId) }}
+                    style={styles.sectionAvatar}
+                  />
+                  <View style={styles.sectionInfo}>
+                    <Text style={[styles.sectionName, { color: colors.text }]}>
+                      {selectedReview.user?.fullName || 'Anonim'}
+                    </Text>
+                    <Text style={[styles.sectionDate, { color: colors.textSecondary }]}>
+                      {formatDate(selectedReview.updatedAt || selectedReview.createdAt)}
+                    </Text>
+                  </View>
+                </View>
+              </View>
+
+              {/* Tour Section */}
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  Tur
+                </Text>
+                <View style={[styles.sectionCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)' }]}>
+                  {selectedReview.tour?.image && (
+                    <Image source={{ uri: selectedReview.tour.image }} style={styles.tourImage} />
+                  )}
+                  <View style={styles.sectionInfo}>
+                    <Text style={[styles.sectionName, { color: colors.text }]}>
+                      {selectedReview.tour?.title || 'Tur'}
+                    </Text>
+                    <Text style={styles.stars}>{renderStars(selectedReview.rating)}</Text>
+                  </View>
+                </View>
+              </View>
+
+              {/* Comment Section */}
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                  Yorum
+                </Text>
+                <View style={[styles.sectionCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)' }]}>
+                  <Text style={[styles.commentFull, { color: selectedReview.comment ? colors.text : colors.textSecondary }]}>
+                    {selectedReview.comment || 'Yorum yazılmamış, yalnızca puan verilmiş.'}
+                  </Text>
+                </View>
+              </View>
+
+              {/* Rejection Reason */}
+              {(selectedReview.status !== 'rejected' || !!selectedReview.rejectionReason) && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                    Red Sebebi
+                  </Text>
+                  <TextInput
+                    style={[
+                      styles.reasonInput,
+                      {
+                        color: colors.text,
+                        backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)',
+                      },
+                    ]}
+                    value={rejectionReason}
+                    onChangeText={setRejectionReason}
+                    placeholder="Kullanıcıya gösterilecek sebep"
+                    placeholderTextColor={colors.textSecondary}
+                    multiline
+                  />
+                </View>
+              )}
+
+              {/* Actions Section */}
+              <View style={styles.actionsSection}>
+                {selectedReview.status !== 'approved' && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.approveButton]}
+                    onPress={() => handleModerate(selectedReview, true)}
+                    disabled={processing}
+                  >
+                    {processing ? (
+                      <ActivityIndicator size="small" color="#fff" />
+                    ) : (
+                      <Text style={styles.approveButtonText}>Onayla</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+
+                {selectedReview.status !== 'rejected' && (
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.rejectButton]}
+                    onPress={() => handleModerate(selectedReview, false)}
+                    disabled={processing}
+                  >
+                    {processing ? (
+                      <ActivityIndicator size="small" color="#6B7280" />
+                    ) : (
+                      <Text style={styles.rejectButtonText}>
+                        {selectedReview.status === 'approved' ? 'Yayından Kaldır' : 'Reddet'}
+                      </Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.deleteButton]}
+                  onPress={() => handleDelete(selectedReview)}
+                  disabled={processing}
+                >
+                  {processing ? (
+                    <ActivityIndicator size="small" color="#fff" />
+                  ) : (
+                    <Text style={styles.deleteButtonText}>Değerlendirmeyi Sil</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+
+              <View style={{ height: insets.bottom + 40 }} />
+            </ScrollView>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+
+  // Stats
+  statsContainer: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+  },
+  statCard: {
+    flex: 1,
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 24,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  statLabel: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+
+  // Filter
+  filterContainer: {
+    maxHeight: 44,
+    marginBottom: 16,
+  },
+  filterContent: {
+    paddingHorizontal: 20,
+    gap: 8,
+  },
+  filterTab: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  filterTabText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+
+  // Scroll
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    gap: 12,
+  },
+
+  // Empty State
+  emptyState: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: 40,
+  },
+  emptyIndicator: {
+    width: 48,
+    height: 2,
+    backgroundColor: '#D1D5DB',
+    borderRadius: 1,
+    marginBottom: 24,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+
+  // Review Card
+  reviewCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  authorInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  authorAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    marginRight: 10,
+  },
+  authorText: {
+    flex: 1,
+  },
+  authorName: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  reviewDate: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  tourRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+    gap: 8,
+  },
+  tourTitle: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  stars: {
+    fontSize: 14,
+    color: '#FFB800',
+    letterSpacing: 1,
+  },
+  comment: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    lineHeight: 18,
+  },
+
+  // Modal
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  modalCancel: {
+    fontSize: 16,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+
+  // Sections
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+  },
+  sectionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 14,
+    padding: 14,
+  },
+  sectionAvatar: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    marginRight: 12,
+  },
+  tourImage: {
+    width: 56,
+    height: 56,
+    borderRadius: 10,
+    marginRight: 12,
+  },
+  sectionInfo: {
+    flex: 1,
+  },
+  sectionName: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  sectionDate: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  commentFull: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    lineHeight: 22,
+  },
+  reasonInput: {
+    minHeight: 80,
+    borderRadius: 14,
+    padding: 14,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    textAlignVertical: 'top',
+  },
+
+  // Actions
+  actionsSection: {
+    marginTop: 8,
+    gap: 12,
+  },
+  actionButton: {
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  approveButton: {
+    backgroundColor: '#22C55E',
+  },
+  approveButtonText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#fff',
+  },
+  rejectButton: {
+    backgroundColor: 'rgba(107,114,128,0.1)',
+  },
+  rejectButtonText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  deleteButton: {
+    backgroundColor: '#EF4444',
+  },
+  deleteButtonText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
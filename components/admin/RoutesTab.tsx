@@ -7,6 +7,7 @@
  * - Image upload with optimization
  * - Season picker
  * - Stop management per day
+ * - Review user-submitted plans and publish them as routes
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -31,7 +32,7 @@ import { EdgeInsets } from 'react-native-safe-area-context';
 import * as ImagePicker from 'expo-image-picker';
 
 import { Colors } from '@/constants/Colors';
-import { ThematicRoute, RouteTheme, RouteDay, RouteStop, RouteStopType, TimeOfDay } from '@/types';
+import { ThematicRoute, RouteTheme, RouteDay, RouteStop, RouteStopType, TimeOfDay, UserRoute } from '@/types';
 import {
   getThematicRoutes,
   createRoute,
@@ -43,8 +44,13 @@ import {
   uploadRouteStopImage,
   SEASON_OPTIONS,
   RouteInput,
+  optimizeStopOrder,
+  getLegEstimates,
+  getDayDistanceKm,
 } from '@/lib/routeService';
-import { useRouteStore } from '@/stores';
+import { formatDistance } from '@/lib/itineraryService';
+import { getUserRouteSubmissions, moderateUserRoute } from '@/lib/userRouteService';
+import { useAuthStore, useRouteStore } from '@/stores';
 
 interface RoutesTabProps {
   colors: typeof Colors.light;
@@ -153,14 +159,27 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
   const [itinerary, setItinerary] = useState<RouteDay[]>([createEmptyDay(1)]);
   const [activeDayIndex, setActiveDayIndex] = useState(0);
 
+  // User-submitted plans awaiting review
+  const [submissions, setSubmissions] = useState<UserRoute[]>([]);
+  const [reviewingSubmission, setReviewingSubmission] = useState<UserRoute | null>(null);
+  const [rejectingSubmission, setRejectingSubmission] = useState<UserRoute | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
   // Route store
   const refreshRoutes = useRouteStore((state) => state.refreshRoutes);
+  const { user } = useAuthStore();
 
   // Load routes
   const loadRoutes = useCallback(async () => {
-    const { data, error } = await getThematicRoutes();
-    if (!error) {
-      setRoutes(data);
+    const [routesResult, submissionsResult] = await Promise.all([
+      getThematicRoutes(),
+      getUserRouteSubmissions('pending'),
+    ]);
+    if (!routesResult.error) {
+      setRoutes(routesResult.data);
+    }
+    if (!submissionsResult.error) {
+      setSubmissions(submissionsResult.data);
     }
   }, []);
 
@@ -211,11 +230,45 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
 
   // Open add modal
   const openAddModal = () => {
+    setEditingRoute(null);
+    setReviewingSubmission(null);
+    resetForm();
+    setIsModalVisible(true);
+  };
+
+  // Open the editor prefilled from a user's plan; saving publishes it
+  const openSubmissionReview = (submission: UserRoute) => {
     setEditingRoute(null);
     resetForm();
+    setReviewingSubmission(submission);
+    setTitle(submission.title);
+    setSubtitle(submission.description || '');
+    setDurationDays(submission.itinerary.length);
+    setItinerary(submission.itinerary.length > 0 ? submission.itinerary : [createEmptyDay(1)]);
     setIsModalVisible(true);
   };
 
+  // Reject a submitted plan with a reason shown to its author
+  const handleRejectSubmission = async () => {
+    if (!rejectingSubmission || !user?.id) return;
+
+    const reason = rejectionReason.trim();
+    if (!reason) {
+      Alert.alert('Uyarı', 'Lütfen bir red sebebi girin');
+      return;
+    }
+
+    const { success, error } = await moderateUserRoute(rejectingSubmission.id, user.id, false, { reason });
+    if (!success) {
+      Alert.alert('Hata', error || 'İşlem başarısız oldu');
+      return;
+    }
+
+    setSubmissions(prev => prev.filter(s => s.id !== rejectingSubmission.id));
+    setRejectingSubmission(null);
+    setRejectionReason('');
+  };
+
   // Open edit modal
   const openEditModal = (route: ThematicRoute) => {
     // Check if this is a local fallback route
@@ -228,6 +281,7 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
       return;
     }
     setEditingRoute(route);
+    setReviewingSubmission(null);
     setTitle(route.title);
     setSubtitle(route.subtitle || '');
     setTheme(route.theme);
@@ -305,6 +359,54 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
     updateDay(dayIndex, { stops: newStops });
   };
 
+  // Parse "35.3417, 33.3209" into stop coordinates
+  const updateStopCoordinates = (dayIndex: number, stopIndex: number, text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      updateStop(dayIndex, stopIndex, { latitude: undefined, longitude: undefined });
+      return;
+    }
+
+    const [latitude, longitude] = trimmed.split(',').map(part => parseFloat(part.trim()));
+    if (
+      Number.isNaN(latitude) || Number.isNaN(longitude) ||
+      Math.abs(latitude) > 90 || Math.abs(longitude) > 180
+    ) {
+      Alert.alert('Uyarı', 'Koordinatlar "enlem, boylam" biçiminde olmalı');
+      return;
+    }
+    updateStop(dayIndex, stopIndex, { latitude, longitude });
+  };
+
+  // Suggest a shorter stop order for the day
+  const suggestStopOrder = (dayIndex: number) => {
+    const day = itinerary[dayIndex];
+    const located = day.stops.filter(stop => stop.latitude != null && stop.longitude != null);
+    if (located.length < 3) {
+      Alert.alert('Bilgi', 'Sıralama önerisi için en az 3 durağın koordinatı olmalı');
+      return;
+    }
+
+    const optimized = optimizeStopOrder(day.stops);
+    const currentKm = getDayDistanceKm(day);
+    const optimizedKm = getDayDistanceKm({ ...day, stops: optimized });
+
+    if (currentKm - optimizedKm < 0.1) {
+      Alert.alert('Bilgi', 'Mevcut sıralama zaten en kısa rotaya yakın');
+      return;
+    }
+
+    Alert.alert(
+      'Önerilen Sıralama',
+      `${optimized.map(stop => stop.name || 'İsimsiz durak').join(' → ')}\n\n` +
+        `${formatDistance(currentKm)} → ${formatDistance(optimizedKm)}`,
+      [
+        { text: 'Vazgeç', style: 'cancel' },
+        { text: 'Uygula', onPress: () => updateDay(dayIndex, { stops: optimized }) },
+      ]
+    );
+  };
+
   // Remove stop
   const removeStop = (dayIndex: number, stopIndex: number) => {
     const day = itinerary[dayIndex];
@@ -391,10 +493,19 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
           Alert.alert('Başarılı', 'Rota güncellendi');
         }
       } else {
-        const { error } = await createRoute(input);
+        const { data, error } = await createRoute(input);
         if (error) {
           Alert.alert('Hata', error);
         } else {
+          if (reviewingSubmission && data && user?.id) {
+            const { error: moderationError } = await moderateUserRoute(reviewingSubmission.id, user.id, true, {
+              publishedRouteId: data.id,
+            });
+            if (moderationError) {
+              Alert.alert('Uyarı', `Rota oluşturuldu ancak öneri güncellenemedi: ${moderationError}`);
+            }
+            setReviewingSubmission(null);
+          }
           await loadRoutes();
           await refreshRoutes();
           setIsModalVisible(false);
@@ -506,6 +617,40 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
           </View>
         </View>
 
+        {/* User submissions */}
+        {submissions.length > 0 && (
+          <View style={styles.submissionsSection}>
+            <Text style={[styles.submissionsTitle, { color: colors.text }]}>
+              Kullanıcı Önerileri ({submissions.length})
+            </Text>
+            {submissions.map((submission) => (
+              <View
+                key={submission.id}
+                style={[styles.submissionCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', borderColor: '#F59E0B' }]}
+              >
+                <Text style={[styles.routeTitle, { color: colors.text }]} numberOfLines={1}>{submission.title}</Text>
+                <Text style={[styles.routeDuration, { color: colors.textSecondary }]}>
+                  {submission.author?.fullName || 'Kullanıcı'} • {submission.itinerary.length} Gün • {submission.itinerary.reduce((acc, day) => acc + day.stops.length, 0)} Durak
+                </Text>
+                <View style={styles.submissionActions}>
+                  <TouchableOpacity
+                    style={[styles.submissionButton, { backgroundColor: 'rgba(239,68,68,0.1)' }]}
+                    onPress={() => setRejectingSubmission(submission)}
+                  >
+                    <Text style={[styles.submissionButtonText, { color: '#EF4444' }]}>Reddet</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.submissionButton, { backgroundColor: colors.primary }]}
+                    onPress={() => openSubmissionReview(submission)}
+                  >
+                    <Text style={[styles.submissionButtonText, { color: '#fff' }]}>İncele ve Yayınla</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Search */}
         <View style={[styles.searchContainer, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5' }]}>
           <Ionicons name="search" size={20} color={colors.textSecondary} />
@@ -632,7 +777,7 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
               <Text style={[styles.modalCancel, { color: colors.primary }]}>İptal</Text>
             </TouchableOpacity>
             <Text style={[styles.modalTitle, { color: colors.text }]}>
-              {editingRoute ? 'Rota Düzenle' : 'Yeni Rota'}
+              {editingRoute ? 'Rota Düzenle' : reviewingSubmission ? 'Öneriyi Yayınla' : 'Yeni Rota'}
             </Text>
             <TouchableOpacity onPress={handleSave} disabled={isSaving}>
               {isSaving ? (
@@ -872,80 +1017,120 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
                     {/* Stops */}
                     <View style={styles.stopsHeader}>
                       <Text style={[styles.formLabel, { color: colors.text, marginBottom: 0 }]}>Duraklar</Text>
-                      <TouchableOpacity
-                        style={[styles.addStopButton, { backgroundColor: colors.primary + '15' }]}
-                        onPress={() => addStopToDay(activeDayIndex)}
-                      >
-                        <Ionicons name="add" size={18} color={colors.primary} />
-                        <Text style={[styles.addStopText, { color: colors.primary }]}>Durak Ekle</Text>
-                      </TouchableOpacity>
+                      <View style={styles.stopsHeaderActions}>
+                        <TouchableOpacity
+                          style={[styles.addStopButton, { backgroundColor: colors.primary + '15' }]}
+                          onPress={() => suggestStopOrder(activeDayIndex)}
+                        >
+                          <Ionicons name="git-compare-outline" size={16} color={colors.primary} />
+                          <Text style={[styles.addStopText, { color: colors.primary }]}>Sırala</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                          style={[styles.addStopButton, { backgroundColor: colors.primary + '15' }]}
+                          onPress={() => addStopToDay(activeDayIndex)}
+                        >
+                          <Ionicons name="add" size={18} color={colors.primary} />
+                          <Text style={[styles.addStopText, { color: colors.primary }]}>Durak Ekle</Text>
+                        </TouchableOpacity>
+                      </View>
                     </View>
 
-                    {itinerary[activeDayIndex].stops.map((stop, stopIndex) => (
-                      <View key={stop.id} style={[styles.stopCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : '#F9F9F9', borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.08)' }]}>
-                        <View style={styles.stopHeader}>
-                          <View style={[styles.stopNumber, { backgroundColor: colors.primary }]}>
-                            <Text style={styles.stopNumberText}>{stopIndex + 1}</Text>
-                          </View>
-                          <TouchableOpacity onPress={() => removeStop(activeDayIndex, stopIndex)}>
-                            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
-                          </TouchableOpacity>
-                        </View>
-
-                        <TextInput
-                          style={[styles.stopInput, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
-                          placeholder="Durak adı"
-                          placeholderTextColor={colors.textSecondary}
-                          value={stop.name}
-                          onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { name: text })}
-                        />
-
-                        <View style={styles.stopTypeRow}>
-                          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                            {STOP_TYPE_OPTIONS.map((type) => (
-                              <TouchableOpacity
-                                key={type.value}
-                                style={[styles.stopTypeChip, { backgroundColor: stop.type === type.value ? colors.primary : isDark ? 'rgba(255,255,255,0.08)' : '#fff' }]}
-                                onPress={() => updateStop(activeDayIndex, stopIndex, { type: type.value })}
-                              >
-                                <Ionicons name={type.icon as any} size={14} color={stop.type === type.value ? '#fff' : colors.textSecondary} />
-                                <Text style={[styles.stopTypeText, { color: stop.type === type.value ? '#fff' : colors.text }]}>{type.label}</Text>
+                    {getDayDistanceKm(itinerary[activeDayIndex]) > 0 && (
+                      <Text style={[styles.dayDistanceText, { color: colors.textSecondary }]}>
+                        Toplam {formatDistance(getDayDistanceKm(itinerary[activeDayIndex]))} (kuş uçuşu)
+                      </Text>
+                    )}
+
+                    {itinerary[activeDayIndex].stops.map((stop, stopIndex) => {
+                      const leg = stopIndex > 0
+                        ? getLegEstimates([itinerary[activeDayIndex].stops[stopIndex - 1], stop])[0]
+                        : undefined;
+
+                      return (
+                        <React.Fragment key={stop.id}>
+                          {leg && (
+                            <View style={styles.legRow}>
+                              <Ionicons name={leg.mode === 'walk' ? 'walk-outline' : 'car-outline'} size={14} color={colors.textSecondary} />
+                              <Text style={[styles.legText, { color: colors.textSecondary }]}>
+                                {formatDistance(leg.distanceKm)} • ~{leg.minutes} dk {leg.mode === 'walk' ? 'yürüyüş' : 'araçla'}
+                              </Text>
+                            </View>
+                          )}
+                          <View style={[styles.stopCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.05)' : '#F9F9F9', borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.08)' }]}>
+                            <View style={styles.stopHeader}>
+                              <View style={[styles.stopNumber, { backgroundColor: colors.primary }]}>
+                                <Text style={styles.stopNumberText}>{stopIndex + 1}</Text>
+                              </View>
+                              <TouchableOpacity onPress={() => removeStop(activeDayIndex, stopIndex)}>
+                                <Ionicons name="trash-outline" size={20} color="#FF3B30" />
                               </TouchableOpacity>
-                            ))}
-                          </ScrollView>
-                        </View>
-
-                        <View style={styles.stopTimeRow}>
-                          {TIME_OPTIONS.map((time) => (
-                            <TouchableOpacity
-                              key={time.value}
-                              style={[styles.timeChip, { backgroundColor: stop.timeOfDay === time.value ? colors.primary + '20' : 'transparent' }]}
-                              onPress={() => updateStop(activeDayIndex, stopIndex, { timeOfDay: time.value })}
-                            >
-                              <Text style={[styles.timeChipText, { color: stop.timeOfDay === time.value ? colors.primary : colors.textSecondary }]}>{time.label}</Text>
-                            </TouchableOpacity>
-                          ))}
-                        </View>
-
-                        <TextInput
-                          style={[styles.stopInput, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
-                          placeholder="Süre (örn: 1-2 saat)"
-                          placeholderTextColor={colors.textSecondary}
-                          value={stop.duration || ''}
-                          onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { duration: text })}
-                        />
-
-                        <TextInput
-                          style={[styles.stopInput, styles.textArea, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
-                          placeholder="Açıklama"
-                          placeholderTextColor={colors.textSecondary}
-                          value={stop.description || ''}
-                          onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { description: text })}
-                          multiline
-                          numberOfLines={2}
-                        />
-                      </View>
-                    ))}
+                            </View>
+
+                            <TextInput
+                              style={[styles.stopInput, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
+                              placeholder="Durak adı"
+                              placeholderTextColor={colors.textSecondary}
+                              value={stop.name}
+                              onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { name: text })}
+                            />
+
+                            <View style={styles.stopTypeRow}>
+                              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                                {STOP_TYPE_OPTIONS.map((type) => (
+                                  <TouchableOpacity
+                                    key={type.value}
+                                    style={[styles.stopTypeChip, { backgroundColor: stop.type === type.value ? colors.primary : isDark ? 'rgba(255,255,255,0.08)' : '#fff' }]}
+                                    onPress={() => updateStop(activeDayIndex, stopIndex, { type: type.value })}
+                                  >
+                                    <Ionicons name={type.icon as any} size={14} color={stop.type === type.value ? '#fff' : colors.textSecondary} />
+                                    <Text style={[styles.stopTypeText, { color: stop.type === type.value ? '#fff' : colors.text }]}>{type.label}</Text>
+                                  </TouchableOpacity>
+                                ))}
+                              </ScrollView>
+                            </View>
+
+                            <View style={styles.stopTimeRow}>
+                              {TIME_OPTIONS.map((time) => (
+                                <TouchableOpacity
+                                  key={time.value}
+                                  style={[styles.timeChip, { backgroundColor: stop.timeOfDay === time.value ? colors.primary + '20' : 'transparent' }]}
+                                  onPress={() => updateStop(activeDayIndex, stopIndex, { timeOfDay: time.value })}
+                                >
+                                  <Text style={[styles.timeChipText, { color: stop.timeOfDay === time.value ? colors.primary : colors.textSecondary }]}>{time.label}</Text>
+                                </TouchableOpacity>
+                              ))}
+                            </View>
+
+                            <TextInput
+                              style={[styles.stopInput, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
+                              placeholder="Süre (örn: 1-2 saat)"
+                              placeholderTextColor={colors.textSecondary}
+                              value={stop.duration || ''}
+                              onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { duration: text })}
+                            />
+
+                            <TextInput
+                              style={[styles.stopInput, styles.textArea, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
+                              placeholder="Açıklama"
+                              placeholderTextColor={colors.textSecondary}
+                              value={stop.description || ''}
+                              onChangeText={(text) => updateStop(activeDayIndex, stopIndex, { description: text })}
+                              multiline
+                              numberOfLines={2}
+                            />
+
+                            <TextInput
+                              style={[styles.stopInput, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#fff', color: colors.text }]}
+                              placeholder="Koordinat (enlem, boylam)"
+                              placeholderTextColor={colors.textSecondary}
+                              defaultValue={stop.latitude != null && stop.longitude != null ? `${stop.latitude}, ${stop.longitude}` : ''}
+                              onEndEditing={(e) => updateStopCoordinates(activeDayIndex, stopIndex, e.nativeEvent.text)}
+                              keyboardType="numbers-and-punctuation"
+                            />
+                          </View>
+                        </React.Fragment>
+                      );
+                    })}
                   </View>
                 )}
               </View>
@@ -955,6 +1140,49 @@ export default function RoutesTab({ colors, isDark, insets }: RoutesTabProps) {
         </KeyboardAvoidingView>
       </Modal>
 
+      {/* Reject Submission Sheet */}
+      <Modal
+        visible={rejectingSubmission !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setRejectingSubmission(null)}
+      >
+        <View style={styles.sheetOverlay}>
+          <TouchableOpacity
+            style={styles.sheetBackdrop}
+            activeOpacity={1}
+            onPress={() => setRejectingSubmission(null)}
+          />
+          <View style={[styles.sheetContainer, { backgroundColor: isDark ? '#1C1C1E' : '#fff', paddingBottom: insets.bottom + 20 }]}>
+            <View style={styles.sheetHandleContainer}>
+              <View style={[styles.sheetHandle, { backgroundColor: isDark ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.15)' }]} />
+            </View>
+            <View style={styles.sheetHeader}>
+              <Text style={[styles.sheetTitle, { color: colors.text }]}>Öneriyi Reddet</Text>
+              <TouchableOpacity onPress={() => setRejectingSubmission(null)}>
+                <Ionicons name="close-circle" size={28} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.rejectContent}>
+              <TextInput
+                style={[styles.formInput, styles.textArea, { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5', color: colors.text }]}
+                placeholder="Red sebebi (kullanıcıya gösterilir)"
+                placeholderTextColor={colors.textSecondary}
+                value={rejectionReason}
+                onChangeText={setRejectionReason}
+                multiline
+              />
+              <TouchableOpacity
+                style={[styles.addButton, { backgroundColor: '#EF4444', marginTop: 16 }]}
+                onPress={handleRejectSubmission}
+              >
+                <Text style={styles.addButtonText}>Reddet</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
       {/* Season Picker Sheet */}
       <Modal
         visible={showSeasonPicker}
@@ -1051,6 +1279,13 @@ const styles = StyleSheet.create({
   addButtonText: { fontSize: 16, fontWeight: '600', color: '#fff' },
   emptyState: { alignItems: 'center', paddingTop: 60 },
   emptyTitle: { fontSize: 18, fontWeight: '600', marginTop: 16 },
+  submissionsSection: { marginBottom: 16 },
+  submissionsTitle: { fontSize: 16, fontWeight: '600', marginBottom: 10 },
+  submissionCard: { borderRadius: 16, borderWidth: 1, padding: 12, marginBottom: 10 },
+  submissionActions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 8, marginTop: 10 },
+  submissionButton: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 10 },
+  submissionButtonText: { fontSize: 13, fontWeight: '600' },
+  rejectContent: { paddingHorizontal: 20 },
   routeCard: { flexDirection: 'row', borderRadius: 16, borderWidth: 1, padding: 12, marginBottom: 12, gap: 12 },
   routeImage: { width: 80, height: 80, borderRadius: 12 },
   routeInfo: { flex: 1, justifyContent: 'center' },
@@ -1104,6 +1339,10 @@ const styles = StyleSheet.create({
   dayTabText: { fontSize: 14, fontWeight: '600' },
   dayEditor: { marginTop: 8 },
   stopsHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 20, marginBottom: 12 },
+  stopsHeaderActions: { flexDirection: 'row', gap: 8 },
+  dayDistanceText: { fontSize: 13, marginBottom: 12 },
+  legRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: -4, marginBottom: 8, paddingLeft: 12 },
+  legText: { fontSize: 12 },
   addStopButton: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8 },
   addStopText: { fontSize: 14, fontWeight: '500' },
   stopCard: { borderRadius: 12, borderWidth: 1, padding: 14, marginBottom: 12 },
@@ -0,0 +1,387 @@
+/**
+ * Segment Picker Component
+ *
+ * Audience selector for the admin notification form: all users or a
+ * segment built from rules (member class, language, last activity,
+ * favorited category, proximity, active meeting) with a live preview
+ * count and saved segments
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+
+import { Colors } from '@/constants/Colors';
+import { useDebounce } from '@/hooks';
+import {
+  countSegmentRules,
+  deleteNotificationSegment,
+  getNotificationSegments,
+  MemberClass,
+  NotificationSegment,
+  previewSegment,
+  saveNotificationSegment,
+  SegmentPreview,
+  SegmentRules,
+} from '@/lib/notificationService';
+
+export interface AudienceValue {
+  target: 'all' | 'segment';
+  segmentId?: string;
+  rules: SegmentRules;
+}
+
+interface SegmentPickerProps {
+  colors: typeof Colors.light;
+  isDark: boolean;
+  userId?: string;
+  categories: { id: string; name: string }[];
+  value: AudienceValue;
+  onChange: (value: AudienceValue) => void;
+}
+
+const MEMBER_CLASSES: MemberClass[] = ['Normal', 'Gold', 'Business'];
+
+const LANGUAGE_OPTIONS = [
+  { code: 'tr', label: 'Türkçe' },
+  { code: 'en', label: 'English' },
+  { code: 'el', label: 'Ελληνικά' },
+  { code: 'ru', label: 'Русский' },
+];
+
+const LAST_ACTIVE_OPTIONS = [
+  { days: 0, label: 'Farketmez' },
+  { days: 1, label: '24 saat' },
+  { days: 7, label: '7 gün' },
+  { days: 30, label: '30 gün' },
+  { days: 90, label: '90 gün' },
+];
+
+// Region centers for proximity targeting
+const REGION_PRESETS = [
+  { key: 'girne', label: 'Girne', latitude: 35.3387, longitude: 33.3183 },
+  { key: 'lefkosa', label: 'Lefkoşa', latitude: 35.1856, longitude: 33.3823 },
+  { key: 'magusa', label: 'Gazimağusa', latitude: 35.1256, longitude: 33.9417 },
+  { key: 'guzelyurt', label: 'Güzelyurt', latitude: 35.1989, longitude: 32.9922 },
+  { key: 'karpaz', label: 'Karpaz', latitude: 35.5889, longitude: 34.4333 },
+];
+
+const RADIUS_OPTIONS = [5, 10, 25, 50];
+
+const MEETING_OPTIONS: { value: boolean | undefined; label: string }[] = [
+  { value: undefined, label: 'Farketmez' },
+  { value: true, label: 'Aktif buluşması var' },
+  { value: false, label: 'Yok' },
+];
+
+const toggleItem = <T,>(list: T[] | undefined, item: T): T[] => {
+  const current = list || [];
+  return current.includes(item) ? current.filter(i => i !== item) : [...current, item];
+};
+
+export default function SegmentPicker({
+  colors,
+  isDark,
+  userId,
+  categories,
+  value,
+  onChange,
+}: SegmentPickerProps) {
+  const [segments, setSegments] = useState<NotificationSegment[]>([]);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [segmentName, setSegmentName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const debouncedRules = useDebounce(value.rules, 400);
+  const rules = value.rules;
+
+  const chipColor = isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5';
+
+  const loadSegments = useCallback(async () => {
+    const { data } = await getNotificationSegments();
+    setSegments(data);
+  }, []);
+
+  useEffect(() => {
+    loadSegments();
+  }, [loadSegments]);
+
+  // Live audience size
+  useEffect(() => {
+    if (value.target !== 'segment') return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setIsPreviewLoading(true);
+      const { data } = await previewSegment(debouncedRules);
+      if (cancelled) return;
+      setPreview(data);
+      setIsPreviewLoading(false);
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [value.target, debouncedRules]);
+
+  // Any manual rule change detaches the form from the saved segment
+  const updateRules = (changes: Partial<SegmentRules>) => {
+    onChange({ target: 'segment', segmentId: undefined, rules: { ...rules, ...changes } });
+  };
+
+  const applySegment = (segment: NotificationSegment) => {
+    onChange({ target: 'segment', segmentId: segment.id, rules: segment.rules });
+    setSegmentName(segment.name);
+  };
+
+  const handleDeleteSegment = (segment: NotificationSegment) => {
+    Alert.alert(
+      'Segmenti Sil',
+      `"${segment.name}" segmentini silmek istediğinize emin misiniz?`,
+      [
+        { text: 'İptal', style: 'cancel' },
+        {
+          text: 'Sil',
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await deleteNotificationSegment(segment.id);
+            if (success) {
+              setSegments(prev => prev.filter(s => s.id !== segment.id));
+              if (value.segmentId === segment.id) {
+                onChange({ ...value, segmentId: undefined });
+              }
+            } else {
+              Alert.alert('Hata', error || 'Segment silinemedi');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSaveSegment = async () => {
+    if (!segmentName.trim()) {
+      Alert.alert('Hata', 'Segment adı gerekli');
+      return;
+    }
+    if (!userId) {
+      Alert.alert('Hata', 'Kullanıcı bilgisi bulunamadı');
+      return;
+    }
+
+    setIsSaving(true);
+    const { data, error } = await saveNotificationSegment(
+      { name: segmentName, rules },
+      userId,
+      value.segmentId
+    );
+    setIsSaving(false);
+
+    if (error || !data) {
+      Alert.alert('Hata', error || 'Segment kaydedilemedi');
+      return;
+    }
+
+    setSegments(prev => [data, ...prev.filter(s => s.id !== data.id)]);
+    onChange({ target: 'segment', segmentId: data.id, rules: data.rules });
+  };
+
+  const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void, onLongPress?: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, { backgroundColor: isActive ? colors.primary : chipColor }]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <Text style={[styles.chipText, { color: isActive ? '#fff' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const selectedRegion = rules.near
+    ? REGION_PRESETS.find(r => r.latitude === rules.near?.latitude && r.longitude === rules.near?.longitude)
+    : undefined;
+
+  return (
+    <View>
+      <View style={styles.chipRow}>
+        {renderChip('all', 'Tüm Kullanıcılar', value.target === 'all', () =>
+          onChange({ ...value, target: 'all' })
+        )}
+        {renderChip('segment', 'Segment', value.target === 'segment', () =>
+          onChange({ ...value, target: 'segment' })
+        )}
+      </View>
+
+      {value.target === 'segment' && (
+        <>
+          {segments.length > 0 && (
+            <View style={styles.group}>
+              <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>
+                Kayıtlı Segmentler (silmek için basılı tutun)
+              </Text>
+              <View style={styles.chipRow}>
+                {segments.map(segment =>
+                  renderChip(
+                    segment.id,
+                    segment.name,
+                    value.segmentId === segment.id,
+                    () => applySegment(segment),
+                    () => handleDeleteSegment(segment)
+                  )
+                )}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.group}>
+            <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Üyelik</Text>
+            <View style={styles.chipRow}>
+              {MEMBER_CLASSES.map(memberClass =>
+                renderChip(memberClass, memberClass, !!rules.memberClasses?.includes(memberClass), () =>
+                  updateRules({ memberClasses: toggleItem(rules.memberClasses, memberClass) })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.group}>
+            <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Dil</Text>
+            <View style={styles.chipRow}>
+              {LANGUAGE_OPTIONS.map(lang =>
+                renderChip(lang.code, lang.label, !!rules.languages?.includes(lang.code), () =>
+                  updateRules({ languages: toggleItem(rules.languages, lang.code) })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.group}>
+            <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Son Aktiflik</Text>
+            <View style={styles.chipRow}>
+              {LAST_ACTIVE_OPTIONS.map(option =>
+                renderChip(`active-${option.days}`, option.label, (rules.lastActiveDays || 0) === option.days, () =>
+                  updateRules({ lastActiveDays: option.days || undefined })
+                )
+              )}
+            </View>
+          </View>
+
+          {categories.length > 0 && (
+            <View style={styles.group}>
+              <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Favori Kategori</Text>
+              <View style={styles.chipRow}>
+                {categories.map(category =>
+                  renderChip(category.id, category.name, !!rules.favoriteCategories?.includes(category.id), () =>
+                    updateRules({ favoriteCategories: toggleItem(rules.favoriteCategories, category.id) })
+                  )
+                )}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.group}>
+            <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Bölgeye Yakınlık</Text>
+            <View style={styles.chipRow}>
+              {renderChip('region-none', 'Farketmez', !rules.near, () => updateRules({ near: undefined }))}
+              {REGION_PRESETS.map(region =>
+                renderChip(region.key, region.label, selectedRegion?.key === region.key, () =>
+                  updateRules({
+                    near: {
+                      latitude: region.latitude,
+                      longitude: region.longitude,
+                      radiusKm: rules.near?.radiusKm || 10,
+                    },
+                  })
+                )
+              )}
+            </View>
+            {rules.near && (
+              <View style={[styles.chipRow, styles.subRow]}>
+                {RADIUS_OPTIONS.map(radius =>
+                  renderChip(`radius-${radius}`, `${radius} km`, rules.near?.radiusKm === radius, () =>
+                    updateRules({ near: rules.near ? { ...rules.near, radiusKm: radius } : undefined })
+                  )
+                )}
+              </View>
+            )}
+          </View>
+
+          <View style={styles.group}>
+            <Text style={[styles.groupLabel, { color: colors.textSecondary }]}>Buluşma</Text>
+            <View style={styles.chipRow}>
+              {MEETING_OPTIONS.map(option =>
+                renderChip(`meeting-${String(option.value)}`, option.label, rules.hasActiveMeeting === option.value, () =>
+                  updateRules({ hasActiveMeeting: option.value })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Preview */}
+          <View style={[styles.previewBox, { backgroundColor: colors.primary + '12' }]}>
+            {isPreviewLoading ? (
+              <ActivityIndicator size="small" color={colors.primary} />
+            ) : (
+              <Text style={[styles.previewText, { color: colors.primary }]}>
+                {preview
+                  ? `${preview.users} kullanıcı • ${preview.devices} cihaz`
+                  : 'Önizleme alınamadı'}
+              </Text>
+            )}
+            <Text style={[styles.previewHint, { color: colors.textSecondary }]}>
+              {countSegmentRules(rules) === 0 ? 'Filtre yok: tüm kullanıcılar' : `${countSegmentRules(rules)} filtre`}
+            </Text>
+          </View>
+
+          {/* Save */}
+          <View style={styles.saveRow}>
+            <TextInput
+              style={[styles.nameInput, { backgroundColor: chipColor, color: colors.text }]}
+              placeholder="Segment adı"
+              placeholderTextColor={colors.textSecondary}
+              value={segmentName}
+              onChangeText={setSegmentName}
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, { backgroundColor: colors.primary }]}
+              onPress={handleSaveSegment}
+              disabled={isSaving || countSegmentRules(rules) === 0}
+            >
+              {isSaving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.saveButtonText}>{value.segmentId ? 'Güncelle' : 'Kaydet'}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  group: { marginTop: 16 },
+  groupLabel: { fontSize: 13, fontWeight: '600', marginBottom: 8, fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif' },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', gap: 8 },
+  subRow: { marginTop: 8 },
+  chip: { paddingHorizontal: 14, paddingVertical: 8, borderRadius: 16 },
+  chipText: { fontSize: 13, fontWeight: '600', fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif' },
+  previewBox: { marginTop: 20, padding: 14, borderRadius: 12, alignItems: 'center', gap: 4 },
+  previewText: { fontSize: 16, fontWeight: '700', fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif' },
+  previewHint: { fontSize: 12, fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif' },
+  saveRow: { flexDirection: 'row', gap: 8, marginTop: 12, alignItems: 'center' },
+  nameInput: { flex: 1, borderRadius: 12, paddingHorizontal: 14, paddingVertical: 10, fontSize: 14 },
+  saveButton: { paddingHorizontal: 16, paddingVertical: 11, borderRadius: 12, minWidth: 90, alignItems: 'center' },
+  saveButtonText: { color: '#fff', fontSize: 14, fontWeight: '700', fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif' },
+});
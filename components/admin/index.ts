@@ -8,5 +8,9 @@ export { default as UsersTab } from './UsersTab';
 export { default as PostsTab } from './PostsTab';
 export { default as RoutesTab } from './RoutesTab';
 export { default as ReportsTab } from './ReportsTab';
+export { default as ReviewsTab } from './ReviewsTab';
+export { default as BookingsTab } from './BookingsTab';
 export { default as TicketsTab } from './TicketsTab';
 export { default as BlockReportsTab } from './BlockReportsTab';
+export { default as SegmentPicker } from './SegmentPicker';
+export type { AudienceValue } from './SegmentPicker';
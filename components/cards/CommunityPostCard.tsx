@@ -70,6 +70,7 @@ function OptimizedImage({ uri, style }: { uri: string; style: any }) {
 interface CommunityPostCardProps {
   post: CommunityPost;
   onPress: (post: CommunityPost) => void;
+  onUserPress?: (post: CommunityPost) => void;
   onLikePress: (post: CommunityPost) => void;
   onDeletePress?: (post: CommunityPost) => void;
   onReportPress?: (post: CommunityPost) => void;
@@ -85,6 +86,7 @@ interface CommunityPostCardProps {
 function CommunityPostCardComponent({
   post,
   onPress,
+  onUserPress,
   onLikePress,
   onDeletePress,
   onReportPress,
@@ -420,7 +422,12 @@ function CommunityPostCardComponent({
       >
         {/* Header: User info + Menu */}
         <View style={styles.header}>
-          <View style={styles.userInfo}>
+          <TouchableOpacity
+            style={styles.userInfo}
+            onPress={() => onUserPress?.(post)}
+            disabled={!onUserPress}
+            activeOpacity={0.7}
+          >
             <Image
               source={{ uri: getAvatarUrl(post.user?.avatarUrl, post.userId) }}
               style={styles.avatar}
@@ -435,7 +442,7 @@ function CommunityPostCardComponent({
                 </Text>
               </View>
             </View>
-          </View>
+          </TouchableOpacity>
           {isExpoUIAvailable ? (
             <View style={styles.expoUIMenuWrapper}>{renderPostContextMenuIOS()}</View>
           ) : (
@@ -0,0 +1,117 @@
+/**
+ * ReviewCard Component
+ * Compact review row for tour detail: author, stars, date and comment
+ */
+
+import React, { memo } from 'react';
+import { View, Text, Image, StyleSheet, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+import { Colors } from '@/constants/Colors';
+import { TourReview } from '@/types';
+import { useThemeStore } from '@/stores';
+import { getAvatarUrl } from '@/lib/avatarService';
+
+interface ReviewCardProps {
+  review: TourReview;
+}
+
+export const ReviewCard = memo(function ReviewCard({ review }: ReviewCardProps) {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const { t, i18n } = useTranslation();
+
+  const isEnglish = (i18n.resolvedLanguage || i18n.language || '')
+    .toLowerCase()
+    .startsWith('en');
+
+  const formattedDate = new Date(review.createdAt).toLocaleDateString(isEnglish ? 'en-US' : 'tr-TR', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { borderBottomColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)' },
+      ]}
+    >
+      <View style={styles.header}>
+        <Image
+          source={{ uri: getAvatarUrl(review.user?.avatarUrl, review.userId) }}
+          style={styles.avatar}
+        />
+        <View style={styles.headerText}>
+          <Text style={[styles.userName, { color: colors.text }]} numberOfLines={1}>
+            {review.user?.fullName || t('community.anonymous')}
+          </Text>
+          <View style={styles.metaRow}>
+            <View style={styles.stars}>
+              {[1, 2, 3, 4, 5].map((star) => (
+                <Ionicons
+                  key={star}
+                  name={star <= review.rating ? 'star' : 'star-outline'}
+                  size={12}
+                  color="#FFB800"
+                />
+              ))}
+            </View>
+            <Text style={[styles.date, { color: colors.textSecondary }]}>{formattedDate}</Text>
+          </View>
+        </View>
+      </View>
+      {!!review.comment && (
+        <Text style={[styles.comment, { color: colors.text }]}>{review.comment}</Text>
+      )}
+    </View>
+  );
+});
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 14,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+  },
+  headerText: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 2,
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  date: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  comment: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    lineHeight: 20,
+    marginTop: 8,
+  },
+});
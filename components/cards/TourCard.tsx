@@ -12,17 +12,19 @@ import { useTranslation } from 'react-i18next';
 import { Colors } from '@/constants/Colors';
 import { Tour } from '@/types';
 import CachedImage from '@/components/ui/CachedImage';
+import { formatDistance } from '@/lib/itineraryService';
 
 interface TourCardProps {
   tour: Tour;
   onPress: (tour: Tour) => void;
   getCategoryName?: (categoryId: string) => string;
+  distanceKm?: number | null;   // Shown as a badge in "near me" results
 }
 
 /**
  * Tour card component for home screen
  */
-export const TourCard = memo(function TourCard({ tour, onPress, getCategoryName }: TourCardProps) {
+export const TourCard = memo(function TourCard({ tour, onPress, getCategoryName, distanceKm }: TourCardProps) {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = Colors[colorScheme];
   const { t, i18n } = useTranslation();
@@ -138,6 +140,14 @@ export const TourCard = memo(function TourCard({ tour, onPress, getCategoryName
       {/* Bottom Content */}
       <View style={styles.content}>
         <View style={styles.leftContent}>
+          {typeof distanceKm === 'number' && (
+            <View style={styles.distanceBadge}>
+              <Ionicons name="navigate" size={12} color="#212529" />
+              <Text style={styles.distanceText}>
+                {t('nearby.distanceAway', { distance: formatDistance(distanceKm) })}
+              </Text>
+            </View>
+          )}
           <Text style={styles.title} numberOfLines={1}>
             {tour.title}
           </Text>
@@ -153,7 +163,7 @@ export const TourCard = memo(function TourCard({ tour, onPress, getCategoryName
 /**
  * Compact tour card for related tours section
  */
-export const CompactTourCard = memo(function CompactTourCard({ tour, onPress }: Omit<TourCardProps, 'getCategoryName'>) {
+export const CompactTourCard = memo(function CompactTourCard({ tour, onPress }: Omit<TourCardProps, 'getCategoryName' | 'distanceKm'>) {
   const { i18n } = useTranslation();
 
   const translateLocationLabel = (value: string): string => {
@@ -282,6 +292,23 @@ const styles = StyleSheet.create({
   leftContent: {
     flex: 1,
   },
+  distanceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  distanceText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#212529',
+  },
   title: {
     fontSize: 28,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
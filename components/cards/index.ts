@@ -7,3 +7,4 @@ export { FavoriteCard } from './FavoriteCard';
 export { RouteCard } from './RouteCard';
 export { CommunityPostCard } from './CommunityPostCard';
 export { default as TourReelCard } from './TourReelCard';
+export { ReviewCard } from './ReviewCard';
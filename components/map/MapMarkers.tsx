@@ -6,19 +6,26 @@
  * - tracksViewChanges=false for better performance
  * - Clean white aesthetic design
  * - Small footprint to avoid overlap
+ * - Grid clustering based on the visible region
  */
 
 import React, { memo, useMemo } from 'react';
-import { View, StyleSheet, Platform } from 'react-native';
+import { View, Text, StyleSheet, Platform } from 'react-native';
 import { Marker } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import { Tour } from '@/types';
+import { clusterTours, MapRegion, TourCluster } from '@/lib/mapClusterService';
+
+// Upper bound on rendered markers (tours + clusters) per frame
+const MAX_RENDERED_MARKERS = 150;
 
 interface MapMarkersProps {
   tours: Tour[];
+  region: MapRegion;
   categoryIconMap: Record<string, string>;
   primaryColor: string;
   onMarkerPress: (tour: Tour) => void;
+  onClusterPress: (cluster: TourCluster) => void;
 }
 
 /**
@@ -56,29 +63,83 @@ const TourMarkerItem = memo<{
 TourMarkerItem.displayName = 'TourMarkerItem';
 
 /**
- * Map markers container - renders all tour markers
- * Limited to first 30 markers for performance
+ * Cluster marker - count bubble, sized by number of tours
+ */
+const ClusterMarkerItem = memo<{
+  cluster: TourCluster;
+  primaryColor: string;
+  onPress: () => void;
+}>(({ cluster, primaryColor, onPress }) => {
+  const size = cluster.count >= 100 ? 48 : cluster.count >= 10 ? 40 : 32;
+
+  return (
+    <Marker
+      coordinate={{
+        latitude: cluster.latitude,
+        longitude: cluster.longitude,
+      }}
+      onPress={onPress}
+      tracksViewChanges={false}
+      anchor={{ x: 0.5, y: 0.5 }}
+    >
+      <View
+        style={[
+          styles.cluster,
+          { width: size, height: size, borderRadius: size / 2, backgroundColor: primaryColor },
+        ]}
+      >
+        <Text style={styles.clusterText}>
+          {cluster.count >= 1000 ? `${Math.floor(cluster.count / 1000)}k+` : cluster.count}
+        </Text>
+      </View>
+    </Marker>
+  );
+});
+
+ClusterMarkerItem.displayName = 'ClusterMarkerItem';
+
+/**
+ * Map markers container - clusters tours for the current region and
+ * renders cluster bubbles and single tour markers
  */
 export const MapMarkers = memo<MapMarkersProps>(({
   tours,
+  region,
   categoryIconMap,
   primaryColor,
   onMarkerPress,
+  onClusterPress,
 }) => {
-  // Limit markers for performance
-  const visibleTours = useMemo(() => tours.slice(0, 30), [tours]);
+  // Re-cluster only when the zoom level changes noticeably or tours change
+  const zoomBucket = Math.round(Math.log2(region.latitudeDelta) * 2);
+  const items = useMemo(
+    () => clusterTours(tours, region).slice(0, MAX_RENDERED_MARKERS),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [tours, zoomBucket]
+  );
 
   return (
     <>
-      {visibleTours.map((tour) => (
-        <TourMarkerItem
-          key={tour.id}
-          tour={tour}
-          icon={categoryIconMap[tour.category] || 'location'}
-          primaryColor={primaryColor}
-          onPress={() => onMarkerPress(tour)}
-        />
-      ))}
+      {items.map((item) =>
+        item.type === 'cluster' ? (
+          <ClusterMarkerItem
+            // The bubble is a snapshot (tracksViewChanges is off), so a
+            // new count needs a new marker
+            key={`${item.cluster.id}-${item.cluster.count}`}
+            cluster={item.cluster}
+            primaryColor={primaryColor}
+            onPress={() => onClusterPress(item.cluster)}
+          />
+        ) : (
+          <TourMarkerItem
+            key={item.tour.id}
+            tour={item.tour}
+            icon={categoryIconMap[item.tour.category] || 'location'}
+            primaryColor={primaryColor}
+            onPress={() => onMarkerPress(item.tour)}
+          />
+        )
+      )}
     </>
   );
 });
@@ -86,6 +147,23 @@ export const MapMarkers = memo<MapMarkersProps>(({
 MapMarkers.displayName = 'MapMarkers';
 
 const styles = StyleSheet.create({
+  cluster: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 3,
+    borderColor: '#FFFFFF',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  clusterText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   markerContainer: {
     alignItems: 'center',
     width: 24,
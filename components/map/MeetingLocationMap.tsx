@@ -0,0 +1,142 @@
+/**
+ * Meeting Location Map
+ *
+ * Shows the meet point and the live positions of members who are
+ * sharing their location in a meeting session.
+ */
+
+import React, { memo, useEffect, useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, Platform } from 'react-native';
+import MapView, { Marker, PROVIDER_DEFAULT } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { getMeetingRegion, MemberLocation } from '@/lib/meetingLocationService';
+import { GeoPoint } from '@/lib/routeService';
+
+export interface MeetingMapMember {
+  location: MemberLocation;
+  name: string;
+  isMe: boolean;
+}
+
+interface MeetingLocationMapProps {
+  destination: (GeoPoint & { label: string }) | null;
+  members: MeetingMapMember[];
+  colorScheme: 'light' | 'dark';
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0]?.toUpperCase())
+    .join('') || '?';
+
+export const MeetingLocationMap = memo<MeetingLocationMapProps>(({
+  destination,
+  members,
+  colorScheme,
+}) => {
+  const colors = Colors[colorScheme];
+  const mapRef = useRef<MapView>(null);
+
+  const points = useMemo(() => {
+    const all: GeoPoint[] = members.map(m => m.location);
+    if (destination) all.push(destination);
+    return all;
+  }, [members, destination]);
+
+  const region = useMemo(() => getMeetingRegion(points), [points]);
+
+  // Refit when someone starts or stops sharing, not on every position update
+  const memberKey = members.map(m => m.location.userId).sort().join(',');
+  useEffect(() => {
+    if (region) {
+      mapRef.current?.animateToRegion(region, 300);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [memberKey]);
+
+  if (!region) return null;
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={styles.map}
+        provider={PROVIDER_DEFAULT}
+        initialRegion={region}
+        showsCompass={false}
+        toolbarEnabled={false}
+      >
+        {destination ? (
+          <Marker
+            coordinate={{ latitude: destination.latitude, longitude: destination.longitude }}
+            title={destination.label}
+            tracksViewChanges={false}
+          >
+            <View style={[styles.destinationMarker, { backgroundColor: colors.primary }]}>
+              <Ionicons name="flag" size={16} color="#FFF" />
+            </View>
+          </Marker>
+        ) : null}
+
+        {members.map(member => (
+          <Marker
+            key={member.location.userId}
+            coordinate={{ latitude: member.location.latitude, longitude: member.location.longitude }}
+            title={member.name}
+            tracksViewChanges={false}
+          >
+            <View
+              style={[
+                styles.memberMarker,
+                { backgroundColor: member.isMe ? colors.primary : '#0EA5E9' },
+              ]}
+            >
+              <Text style={styles.memberInitials}>{getInitials(member.name)}</Text>
+            </View>
+          </Marker>
+        ))}
+      </MapView>
+    </View>
+  );
+});
+
+MeetingLocationMap.displayName = 'MeetingLocationMap';
+
+const styles = StyleSheet.create({
+  container: {
+    height: 220,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  destinationMarker: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#FFF',
+  },
+  memberMarker: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: '#FFF',
+  },
+  memberInitials: {
+    color: '#FFF',
+    fontSize: 11,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+});
@@ -4,3 +4,5 @@
 
 export { default as TourMarker } from './TourMarker';
 export { MapMarkers } from './MapMarkers';
+export { MeetingLocationMap } from './MeetingLocationMap';
+export type { MeetingMapMember } from './MeetingLocationMap';
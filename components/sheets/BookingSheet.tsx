@@ -0,0 +1,481 @@
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Animated,
+  Dimensions,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import * as Haptics from 'expo-haptics';
+
+import { Colors } from '@/constants/Colors';
+import { useToast } from '@/components/ui';
+import { Booking, Tour } from '@/types';
+import { useAuthStore, useBookingStore, useThemeStore } from '@/stores';
+import {
+  BOOKING_CANCELLATION_HOURS,
+  BOOKING_NOTES_MAX_LENGTH,
+  MAX_BOOKING_GUESTS,
+  getEarliestBookingDate,
+  toBookingDateString,
+} from '@/lib/bookingService';
+
+const { height } = Dimensions.get('window');
+const SHEET_HEIGHT = height * 0.8;
+
+interface BookingSheetProps {
+  tour: Tour | null;
+  visible: boolean;
+  onClose: () => void;
+  onBooked?: (booking: Booking) => void;
+}
+
+export default function BookingSheet({
+  tour,
+  visible,
+  onClose,
+  onBooked,
+}: BookingSheetProps) {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const { t, i18n } = useTranslation();
+  const toast = useToast();
+  const isEnglish = (i18n.language || '').toLowerCase().startsWith('en');
+
+  const { user } = useAuthStore();
+  const { createBooking, isSubmitting } = useBookingStore();
+
+  const [bookingDate, setBookingDate] = useState<Date | null>(null);
+  const [guests, setGuests] = useState(1);
+  const [notes, setNotes] = useState('');
+  const [showDatePicker, setShowDatePicker] = useState(false);
+
+  const slideAnim = useRef(new Animated.Value(height)).current;
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+
+  React.useEffect(() => {
+    if (visible) {
+      Animated.parallel([
+        Animated.spring(slideAnim, {
+          toValue: height - SHEET_HEIGHT,
+          useNativeDriver: true,
+          damping: 24,
+          stiffness: 260,
+        }),
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 180,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }
+  }, [visible, slideAnim, fadeAnim]);
+
+  const resetForm = () => {
+    setBookingDate(null);
+    setGuests(1);
+    setNotes('');
+    setShowDatePicker(false);
+  };
+
+  const handleClose = useCallback(() => {
+    Animated.parallel([
+      Animated.spring(slideAnim, {
+        toValue: height,
+        useNativeDriver: true,
+        damping: 24,
+        stiffness: 260,
+      }),
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: 150,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      resetForm();
+      onClose();
+    });
+  }, [slideAnim, fadeAnim, onClose]);
+
+  const formatBookingDate = useCallback(
+    (value: Date | null) => {
+      if (!value) return t('booking.form.datePlaceholder');
+      return value.toLocaleDateString(isEnglish ? 'en-US' : 'tr-TR', {
+        weekday: 'short',
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      });
+    },
+    [isEnglish, t]
+  );
+
+  const handleOpenPicker = useCallback(() => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(true);
+      return;
+    }
+    setShowDatePicker((prev) => !prev);
+  }, []);
+
+  const handleDateChange = useCallback((event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowDatePicker(false);
+      if (event.type === 'dismissed') return;
+    }
+    if (selectedDate) {
+      setBookingDate(selectedDate);
+    }
+  }, []);
+
+  const changeGuests = (delta: number) => {
+    setGuests((prev) => {
+      const next = Math.min(MAX_BOOKING_GUESTS, Math.max(1, prev + delta));
+      if (next !== prev) Haptics.selectionAsync();
+      return next;
+    });
+  };
+
+  const handleSubmit = useCallback(async () => {
+    if (!user || !tour) return;
+    if (!bookingDate) {
+      toast.error(t('booking.validation.dateRequired'));
+      return;
+    }
+
+    const { success, booking, error } = await createBooking(user.id, tour.id, {
+      bookingDate: toBookingDateString(bookingDate),
+      numberOfGuests: guests,
+      notes,
+    });
+
+    if (!success || !booking) {
+      toast.error(error || t('booking.errors.createFailed'));
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    toast.success(t('booking.create.success'));
+    onBooked?.(booking);
+    handleClose();
+  }, [user, tour, bookingDate, guests, notes, createBooking, toast, t, onBooked, handleClose]);
+
+  const minimumDate = getEarliestBookingDate();
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={handleClose}>
+      <TouchableWithoutFeedback onPress={handleClose}>
+        <Animated.View style={[styles.overlay, { opacity: fadeAnim }]}>
+          {Platform.OS === 'ios' ? (
+            <BlurView intensity={30} tint={isDark ? 'dark' : 'light'} style={StyleSheet.absoluteFill} />
+          ) : (
+            <View
+              style={[
+                StyleSheet.absoluteFill,
+                { backgroundColor: isDark ? 'rgba(0,0,0,0.6)' : 'rgba(0,0,0,0.4)' },
+              ]}
+            />
+          )}
+        </Animated.View>
+      </TouchableWithoutFeedback>
+
+      <Animated.View
+        style={[
+          styles.sheet,
+          {
+            transform: [{ translateY: slideAnim }],
+            backgroundColor: colors.card,
+            paddingBottom: insets.bottom + 24,
+          },
+        ]}
+      >
+        <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : undefined} style={styles.flex}>
+          <View style={styles.handle} />
+
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>{t('booking.create.title')}</Text>
+            {tour && (
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                {tour.title}
+              </Text>
+            )}
+          </View>
+
+          <ScrollView
+            style={styles.flex}
+            contentContainerStyle={styles.content}
+            showsVerticalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Text style={[styles.label, { color: colors.text }]}>{t('booking.form.dateLabel')}</Text>
+            <TouchableOpacity
+              style={[
+                styles.dateInput,
+                {
+                  borderColor: colors.border,
+                  backgroundColor: isDark ? 'rgba(255,255,255,0.02)' : 'rgba(0,0,0,0.02)',
+                },
+              ]}
+              onPress={handleOpenPicker}
+              activeOpacity={0.85}
+            >
+              <Ionicons name="calendar-outline" size={18} color={colors.textSecondary} />
+              <Text style={[styles.dateText, { color: bookingDate ? colors.text : colors.textSecondary }]}>
+                {formatBookingDate(bookingDate)}
+              </Text>
+              <Ionicons
+                name={showDatePicker && Platform.OS === 'ios' ? 'chevron-up' : 'chevron-down'}
+                size={16}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
+
+            {Platform.OS === 'ios' && showDatePicker ? (
+              <View
+                style={[
+                  styles.pickerCard,
+                  {
+                    borderColor: colors.border,
+                    backgroundColor: isDark ? 'rgba(255,255,255,0.03)' : 'rgba(0,0,0,0.03)',
+                  },
+                ]}
+              >
+                <DateTimePicker
+                  value={bookingDate ?? minimumDate}
+                  mode="date"
+                  display="inline"
+                  minimumDate={minimumDate}
+                  onChange={handleDateChange}
+                  locale={isEnglish ? 'en-US' : 'tr-TR'}
+                  themeVariant={isDark ? 'dark' : 'light'}
+                />
+              </View>
+            ) : null}
+
+            {Platform.OS === 'android' && showDatePicker ? (
+              <DateTimePicker
+                value={bookingDate ?? minimumDate}
+                mode="date"
+                display="default"
+                minimumDate={minimumDate}
+                onChange={handleDateChange}
+              />
+            ) : null}
+
+            <Text style={[styles.label, { color: colors.text }]}>{t('booking.form.guestsLabel')}</Text>
+            <View
+              style={[
+                styles.guestsRow,
+                { borderColor: colors.border, backgroundColor: isDark ? 'rgba(255,255,255,0.02)' : 'rgba(0,0,0,0.02)' },
+              ]}
+            >
+              <Ionicons name="people-outline" size={18} color={colors.textSecondary} />
+              <Text style={[styles.guestsText, { color: colors.text }]}>
+                {t('booking.guests', { count: guests })}
+              </Text>
+              <TouchableOpacity
+                style={[styles.stepperButton, { borderColor: colors.border }]}
+                onPress={() => changeGuests(-1)}
+                disabled={guests <= 1}
+              >
+                <Ionicons name="remove" size={18} color={guests <= 1 ? colors.textSecondary : colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.stepperButton, { borderColor: colors.border }]}
+                onPress={() => changeGuests(1)}
+                disabled={guests >= MAX_BOOKING_GUESTS}
+              >
+                <Ionicons
+                  name="add"
+                  size={18}
+                  color={guests >= MAX_BOOKING_GUESTS ? colors.textSecondary : colors.text}
+                />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={[styles.label, { color: colors.text }]}>{t('booking.form.notesLabel')}</Text>
+            <TextInput
+              style={[styles.textArea, { color: colors.text, borderColor: colors.border }]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder={t('booking.form.notesPlaceholder')}
+              placeholderTextColor={colors.textSecondary}
+              maxLength={BOOKING_NOTES_MAX_LENGTH}
+              multiline
+              textAlignVertical="top"
+            />
+
+            <View style={[styles.infoCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
+              <Ionicons name="information-circle-outline" size={18} color={colors.textSecondary} />
+              <Text style={[styles.infoText, { color: colors.textSecondary }]}>
+                {t('booking.form.policy', { hours: BOOKING_CANCELLATION_HOURS })}
+              </Text>
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.submitButton, { backgroundColor: colors.primary }]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+            activeOpacity={0.9}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#FFF" />
+            ) : (
+              <>
+                <Ionicons name="calendar-outline" size={18} color="#FFF" />
+                <Text style={styles.submitText}>{t('booking.create.submit')}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </KeyboardAvoidingView>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: SHEET_HEIGHT,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(120,120,120,0.3)',
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  header: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  subtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  content: {
+    paddingBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  dateInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dateText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  pickerCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+    marginBottom: 14,
+  },
+  guestsRow: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginBottom: 14,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  guestsText: {
+    flex: 1,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  stepperButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  textArea: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    height: 90,
+    marginBottom: 14,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  submitButton: {
+    marginTop: 16,
+    borderRadius: 16,
+    paddingVertical: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+    gap: 8,
+  },
+  submitText: {
+    color: '#FFF',
+    fontSize: 16,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+});
@@ -24,6 +24,12 @@ import * as Haptics from 'expo-haptics';
 
 import { Colors } from '@/constants/Colors';
 import { useToast } from '@/components/ui';
+import {
+  MEETING_DURATION_MINUTES,
+  MEETING_REMINDER_MINUTES,
+  MEETING_REPEAT_OPTIONS,
+  MeetingRepeatOption,
+} from '@/lib/meetingCalendarService';
 import { CreateMeetingInput, MeetingSession } from '@/types';
 import { useMeetingStore, useThemeStore } from '@/stores';
 
@@ -58,6 +64,9 @@ export default function CreateMeetingSheet({
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [showTimePicker, setShowTimePicker] = useState(false);
   const [pendingDate, setPendingDate] = useState<Date | null>(null);
+  const [repeat, setRepeat] = useState<MeetingRepeatOption>('none');
+  const [reminderMinutes, setReminderMinutes] = useState<number | null>(60);
+  const [durationMinutes, setDurationMinutes] = useState<number>(120);
 
   const slideAnim = useRef(new Animated.Value(height)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -88,6 +97,9 @@ export default function CreateMeetingSheet({
     setShowDatePicker(false);
     setShowTimePicker(false);
     setPendingDate(null);
+    setRepeat('none');
+    setReminderMinutes(60);
+    setDurationMinutes(120);
   };
 
   const handleClose = useCallback(() => {
@@ -174,12 +186,19 @@ export default function CreateMeetingSheet({
     }
 
     const scheduledValue = scheduledAt ? scheduledAt.toISOString() : undefined;
+    const repeatOption = MEETING_REPEAT_OPTIONS.find(option => option.id === repeat);
 
     const input: CreateMeetingInput = {
       title: title.trim(),
       description: description.trim() || undefined,
       destinationText: destinationText.trim(),
       scheduledAt: scheduledValue,
+      ...(scheduledValue && {
+        durationMinutes,
+        reminderMinutes: reminderMinutes ?? undefined,
+        recurrenceFrequency: repeatOption?.frequency,
+        recurrenceInterval: repeatOption?.interval,
+      }),
     };
 
     const { success, session, inviteCode, error } = await createSession(input);
@@ -197,6 +216,9 @@ export default function CreateMeetingSheet({
     description,
     destinationText,
     scheduledAt,
+    repeat,
+    reminderMinutes,
+    durationMinutes,
     createSession,
     t,
     toast,
@@ -204,6 +226,35 @@ export default function CreateMeetingSheet({
     handleClose,
   ]);
 
+  const renderOption = <T,>(
+    value: T,
+    selected: T,
+    label: string,
+    onSelect: (value: T) => void
+  ) => {
+    const isSelected = value === selected;
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[
+          styles.optionChip,
+          { borderColor: isSelected ? colors.primary : colors.border },
+          isSelected && { backgroundColor: colors.primary },
+        ]}
+        onPress={() => onSelect(value)}
+      >
+        <Text style={[styles.optionText, { color: isSelected ? '#FFF' : colors.text }]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const formatReminder = (minutes: number | null) => {
+    if (!minutes) return t('meeting.schedule.noReminder');
+    if (minutes % 1440 === 0) return t('meeting.schedule.daysBefore', { count: minutes / 1440 });
+    if (minutes % 60 === 0) return t('meeting.schedule.hoursBefore', { count: minutes / 60 });
+    return t('meeting.schedule.minutesBefore', { count: minutes });
+  };
+
   return (
     <Modal visible={visible} transparent animationType="none">
       <TouchableWithoutFeedback onPress={handleClose}>
@@ -339,6 +390,45 @@ export default function CreateMeetingSheet({
               />
             ) : null}
 
+            {scheduledAt ? (
+              <View style={styles.scheduleOptions}>
+                <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>
+                  {t('meeting.schedule.repeat')}
+                </Text>
+                <View style={styles.optionRow}>
+                  {MEETING_REPEAT_OPTIONS.map(option =>
+                    renderOption(option.id, repeat, t(`meeting.schedule.repeatOptions.${option.id}`), setRepeat)
+                  )}
+                </View>
+
+                <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>
+                  {t('meeting.schedule.duration')}
+                </Text>
+                <View style={styles.optionRow}>
+                  {MEETING_DURATION_MINUTES.map(minutes =>
+                    renderOption<number>(
+                      minutes,
+                      durationMinutes,
+                      t('meeting.schedule.durationHours', { count: minutes / 60 }),
+                      setDurationMinutes
+                    )
+                  )}
+                </View>
+
+                <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>
+                  {t('meeting.schedule.reminder')}
+                </Text>
+                <View style={styles.optionRow}>
+                  {MEETING_REMINDER_MINUTES.map(minutes =>
+                    renderOption<number | null>(minutes, reminderMinutes, formatReminder(minutes), setReminderMinutes)
+                  )}
+                </View>
+                <Text style={[styles.optionHint, { color: colors.textSecondary }]}>
+                  {t('meeting.schedule.reminderHint')}
+                </Text>
+              </View>
+            ) : null}
+
             <View style={[styles.capacityCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
               <Ionicons name="people-outline" size={18} color={colors.textSecondary} />
               <Text style={[styles.capacityLabel, { color: colors.textSecondary }]}>
@@ -455,6 +545,35 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  scheduleOptions: {
+    gap: 8,
+    marginBottom: 14,
+  },
+  optionLabel: {
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  optionHint: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   capacityCard: {
     flexDirection: 'row',
     alignItems: 'center',
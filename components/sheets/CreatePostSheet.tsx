@@ -279,12 +279,13 @@ export default function CreatePostSheet({
       location: sanitizedLocation || undefined,
     };
 
-    const { success, error } = await createPost(user.id, input);
+    const { success, status, error } = await createPost(user.id, input);
 
     if (success) {
+      const isPublished = status === 'approved';
       Alert.alert(
-        t('community.postCreated.title'),
-        t('community.postCreated.message'),
+        t(isPublished ? 'community.postPublished.title' : 'community.postCreated.title'),
+        t(isPublished ? 'community.postPublished.message' : 'community.postCreated.message'),
         [{ text: t('common.done'), onPress: handleClose }]
       );
       onSuccess?.();
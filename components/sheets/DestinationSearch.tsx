@@ -1,13 +1,15 @@
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { BlurView } from 'expo-blur';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Animated,
   Dimensions,
   Image,
   Keyboard,
+  LayoutChangeEvent,
   Modal,
+  PanResponder,
   Platform,
   ScrollView,
   StyleSheet,
@@ -22,9 +24,20 @@ import {
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { Colors } from '@/constants/Colors';
-import { Tour, tourDataToTour } from '@/types';
+import { CommunityPost, ThematicRoute, Tour, tourDataToTour } from '@/types';
 import { searchTours, TourData } from '@/lib/tourService';
-import { useDebounce } from '@/hooks';
+import {
+  DEFAULT_NEARBY_RADIUS_KM,
+  emptyNearbyResults,
+  filterToursNearby,
+  NEARBY_RADIUS_OPTIONS,
+  NearbyResults,
+  searchNearby,
+} from '@/lib/nearbyService';
+import { formatDistance } from '@/lib/itineraryService';
+import { TourCard } from '@/components/cards';
+import { useDebounce, useLocation } from '@/hooks';
+import { useBlockStore, useCommunityStore, useTourStore } from '@/stores';
 import { useTranslation } from 'react-i18next';
 import { sanitizeInput } from '@/lib/validation';
 
@@ -34,11 +47,85 @@ const MAX_RECENT_SEARCHES = 5;
 
 interface DestinationSearchProps {
   onSelectTour?: (tour: Tour) => void;
+  onSelectRoute?: (route: ThematicRoute) => void;
+  onSelectPost?: (post: CommunityPost) => void;
   onSelectDestination?: (destination: string) => void;
   onClose?: () => void;
   autoOpen?: boolean;
 }
 
+interface RadiusSliderProps {
+  value: number;
+  options: readonly number[];
+  color: string;
+  trackColor: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * Stepped slider for the "near me" radius; drag or tap to snap to a step
+ */
+function RadiusSlider({ value, options, color, trackColor, onChange }: RadiusSliderProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const startX = useRef(0);
+  const latest = useRef({ value, options, onChange, trackWidth });
+  latest.current = { value, options, onChange, trackWidth };
+
+  const selectAt = (x: number) => {
+    const { options: steps, value: current, onChange: change, trackWidth: w } = latest.current;
+    if (w <= 0) return;
+    const ratio = Math.min(Math.max(x / w, 0), 1);
+    const next = steps[Math.round(ratio * (steps.length - 1))];
+    if (next !== current) change(next);
+  };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: (event) => {
+          startX.current = event.nativeEvent.locationX;
+          selectAt(startX.current);
+        },
+        onPanResponderMove: (_, gesture) => selectAt(startX.current + gesture.dx),
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  const index = Math.max(options.indexOf(value), 0);
+  const position = options.length > 1 ? (index / (options.length - 1)) * trackWidth : 0;
+
+  return (
+    <View>
+      <View
+        style={styles.sliderTouchArea}
+        onLayout={(e: LayoutChangeEvent) => setTrackWidth(e.nativeEvent.layout.width)}
+        {...panResponder.panHandlers}
+      >
+        <View pointerEvents="none" style={[styles.sliderTrack, { backgroundColor: trackColor }]}>
+          <View style={[styles.sliderFill, { width: position, backgroundColor: color }]} />
+        </View>
+        <View
+          pointerEvents="none"
+          style={[styles.sliderThumb, { left: position - 12, borderColor: color }]}
+        />
+      </View>
+      <View style={styles.sliderLabels} pointerEvents="none">
+        {options.map(option => (
+          <Text
+            key={option}
+            style={[styles.sliderLabel, { color: option === value ? color : trackColor }]}
+          >
+            {option}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
 // Fuzzy search scoring function
 const calculateSearchScore = (query: string, tour: TourData): number => {
   const q = query.toLowerCase().trim();
@@ -82,6 +169,8 @@ const calculateSearchScore = (query: string, tour: TourData): number => {
 
 export default function DestinationSearch({
   onSelectTour,
+  onSelectRoute,
+  onSelectPost,
   onSelectDestination,
   onClose,
   autoOpen = false,
@@ -101,6 +190,25 @@ export default function DestinationSearch({
   
   // Debounce search query for server-side search
   const debouncedQuery = useDebounce(searchQuery, 300);
+
+  // "Near me" mode
+  const [isNearbyMode, setIsNearbyMode] = useState(false);
+  const [radiusKm, setRadiusKm] = useState<number>(DEFAULT_NEARBY_RADIUS_KM);
+  const [nearbyResults, setNearbyResults] = useState<NearbyResults>(emptyNearbyResults);
+  const [isNearbyLoading, setIsNearbyLoading] = useState(false);
+  const [nearbyError, setNearbyError] = useState<string | null>(null);
+  const debouncedRadius = useDebounce(radiusKm, 300);
+
+  const {
+    location,
+    requestLocation,
+    isPermissionDenied,
+  } = useLocation({ autoRequest: false, enableGeocoding: false });
+
+  const origin = useMemo(
+    () => (location ? { latitude: location.coords.latitude, longitude: location.coords.longitude } : null),
+    [location]
+  );
   
   const slideAnim = useRef(new Animated.Value(height)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -181,6 +289,38 @@ export default function DestinationSearch({
     performSearch();
   }, [debouncedQuery]);
 
+  // Nearby search whenever the location or committed radius changes
+  useEffect(() => {
+    if (!isNearbyMode || !origin) return;
+
+    let cancelled = false;
+    const performNearbySearch = async () => {
+      setIsNearbyLoading(true);
+      const { data, error } = await searchNearby(origin, debouncedRadius);
+      if (cancelled) return;
+      // Offline or server error: fall back to tours already in memory
+      setNearbyResults(
+        error
+          ? { ...emptyNearbyResults(), tours: filterToursNearby(useTourStore.getState().tours, origin, debouncedRadius) }
+          : data
+      );
+      setNearbyError(error);
+      setIsNearbyLoading(false);
+    };
+
+    performNearbySearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [isNearbyMode, origin, debouncedRadius]);
+
+  const toggleNearbyMode = () => {
+    if (!isNearbyMode && !origin) {
+      requestLocation(true);
+    }
+    setIsNearbyMode(prev => !prev);
+  };
+
   const openSearch = useCallback(() => {
     setIsOpen(true);
     setIsLoading(true);
@@ -245,6 +385,34 @@ export default function DestinationSearch({
     onSelectTour?.(tourForCallback);
   };
 
+  const handleSelectNearbyTour = (tour: Tour) => {
+    closeSearch();
+    onSelectTour?.(tour);
+  };
+
+  const handleSelectNearbyRoute = (route: ThematicRoute) => {
+    closeSearch();
+    onSelectRoute?.(route);
+  };
+
+  const handleSelectNearbyPost = (post: CommunityPost) => {
+    closeSearch();
+    onSelectPost?.(post);
+  };
+
+  // search_nearby already leaves these out; this also covers blocks and
+  // hides made after the search ran, like the community feed
+  const blockedUserIds = useBlockStore(state => state.blockedUserIds);
+  const hiddenPostIds = useCommunityStore(state => state.hiddenPostIds);
+  const visibleNearbyPosts = useMemo(
+    () => nearbyResults.posts.filter(
+      ({ item }) => !blockedUserIds.includes(item.userId) && !hiddenPostIds.includes(item.id)
+    ),
+    [nearbyResults.posts, blockedUserIds, hiddenPostIds]
+  );
+
+  const nearbyCount = nearbyResults.tours.length + nearbyResults.routes.length + visibleNearbyPosts.length;
+
   const handleRecentSearch = (query: string) => {
     setSearchQuery(query);
   };
@@ -386,8 +554,165 @@ export default function DestinationSearch({
           >
             {searchQuery.length === 0 ? (
               <>
+                {/* Near Me */}
+                <View style={styles.section}>
+                  <TouchableOpacity
+                    style={[
+                      styles.nearbyToggle,
+                      {
+                        backgroundColor: isNearbyMode
+                          ? colors.primary
+                          : isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)',
+                      },
+                    ]}
+                    onPress={toggleNearbyMode}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons
+                      name="navigate"
+                      size={16}
+                      color={isNearbyMode ? '#FFFFFF' : colors.primary}
+                    />
+                    <Text style={[styles.nearbyToggleText, { color: isNearbyMode ? '#FFFFFF' : colors.text }]}>
+                      {t('nearby.title')}
+                    </Text>
+                  </TouchableOpacity>
+
+                  {isNearbyMode && (
+                    <View style={styles.nearbyPanel}>
+                      <View style={styles.sectionHeader}>
+                        <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                          {t('nearby.radius')}
+                        </Text>
+                        <Text style={[styles.clearAllText, { color: colors.primary }]}>
+                          {t('nearby.radiusValue', { radius: radiusKm })}
+                        </Text>
+                      </View>
+                      <RadiusSlider
+                        value={radiusKm}
+                        options={NEARBY_RADIUS_OPTIONS}
+                        color={colors.primary}
+                        trackColor={isDark ? 'rgba(255,255,255,0.25)' : 'rgba(0,0,0,0.15)'}
+                        onChange={setRadiusKm}
+                      />
+                    </View>
+                  )}
+                </View>
+
+                {isNearbyMode && (
+                  !origin ? (
+                    <View style={styles.noResults}>
+                      <Ionicons name="location-outline" size={32} color={colors.textSecondary} />
+                      <Text style={[styles.noResultsHint, { color: colors.textSecondary }]}>
+                        {isPermissionDenied ? t('nearby.permissionDenied') : t('nearby.locating')}
+                      </Text>
+                    </View>
+                  ) : isNearbyLoading && nearbyCount === 0 ? (
+                    <View style={styles.searchingState}>
+                      <ActivityIndicator size="large" color={colors.primary} />
+                    </View>
+                  ) : nearbyCount === 0 ? (
+                    <View style={styles.noResults}>
+                      <Text style={[styles.noResultsText, { color: colors.text }]}>
+                        {t('nearby.empty', { radius: radiusKm })}
+                      </Text>
+                      {nearbyError && (
+                        <Text style={[styles.noResultsHint, { color: colors.textSecondary }]}>
+                          {nearbyError}
+                        </Text>
+                      )}
+                    </View>
+                  ) : (
+                    <>
+                      {nearbyResults.tours.length > 0 && (
+                        <View style={styles.section}>
+                          <Text style={[styles.resultCount, { color: colors.textSecondary }]}>
+                            {t('nearby.tours', { count: nearbyResults.tours.length })}
+                          </Text>
+                          {nearbyResults.tours.map(({ item, distanceKm }) => (
+                            <View key={item.id} style={styles.nearbyTourCard}>
+                              <TourCard
+                                tour={item}
+                                distanceKm={distanceKm}
+                                onPress={handleSelectNearbyTour}
+                              />
+                            </View>
+                          ))}
+                        </View>
+                      )}
+
+                      {nearbyResults.routes.length > 0 && (
+                        <View style={styles.section}>
+                          <Text style={[styles.resultCount, { color: colors.textSecondary }]}>
+                            {t('nearby.routes', { count: nearbyResults.routes.length })}
+                          </Text>
+                          {nearbyResults.routes.map(({ item, distanceKm }) => (
+                            <TouchableOpacity
+                              key={item.id}
+                              style={[styles.resultCard, { backgroundColor: isDark ? 'rgba(45,45,48,0.95)' : 'rgba(255,255,255,0.95)' }]}
+                              onPress={() => handleSelectNearbyRoute(item)}
+                              disabled={!onSelectRoute}
+                              activeOpacity={0.8}
+                            >
+                              <Image source={{ uri: item.coverImage }} style={styles.resultImage} />
+                              <View style={styles.resultContent}>
+                                <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+                                  {item.title}
+                                </Text>
+                                <View style={styles.resultMeta}>
+                                  <Ionicons name="navigate-outline" size={13} color={colors.textSecondary} />
+                                  <Text style={[styles.resultLocation, { color: colors.textSecondary }]}>
+                                    {t('nearby.distanceAway', { distance: formatDistance(distanceKm) })}
+                                  </Text>
+                                </View>
+                              </View>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+
+                      {visibleNearbyPosts.length > 0 && (
+                        <View style={styles.section}>
+                          <Text style={[styles.resultCount, { color: colors.textSecondary }]}>
+                            {t('nearby.posts', { count: visibleNearbyPosts.length })}
+                          </Text>
+                          {visibleNearbyPosts.map(({ item, distanceKm }) => (
+                            <TouchableOpacity
+                              key={item.id}
+                              style={[styles.resultCard, { backgroundColor: isDark ? 'rgba(45,45,48,0.95)' : 'rgba(255,255,255,0.95)' }]}
+                              onPress={() => handleSelectNearbyPost(item)}
+                              disabled={!onSelectPost}
+                              activeOpacity={0.8}
+                            >
+                              {item.images[0] ? (
+                                <Image source={{ uri: item.images[0] }} style={styles.resultImage} />
+                              ) : (
+                                <View style={[styles.resultImage, styles.resultImagePlaceholder]}>
+                                  <Ionicons name="chatbubble-ellipses-outline" size={24} color={colors.textSecondary} />
+                                </View>
+                              )}
+                              <View style={styles.resultContent}>
+                                <Text style={[styles.resultTitle, { color: colors.text }]} numberOfLines={1}>
+                                  {item.title || item.content || item.location}
+                                </Text>
+                                <View style={styles.resultMeta}>
+                                  <Ionicons name="navigate-outline" size={13} color={colors.textSecondary} />
+                                  <Text style={[styles.resultLocation, { color: colors.textSecondary }]} numberOfLines={1}>
+                                    {t('nearby.distanceAway', { distance: formatDistance(distanceKm) })}
+                                    {item.location ? ` • ${item.location}` : ''}
+                                  </Text>
+                                </View>
+                              </View>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                      )}
+                    </>
+                  )
+                )}
+
                 {/* Recent Searches */}
-                {recentSearches.length > 0 && (
+                {!isNearbyMode && recentSearches.length > 0 && (
                   <View style={styles.section}>
                     <View style={styles.sectionHeader}>
                       <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
@@ -443,7 +768,7 @@ export default function DestinationSearch({
                 )}
 
                 {/* Empty State */}
-                {recentSearches.length === 0 && (
+                {!isNearbyMode && recentSearches.length === 0 && (
                   <View style={styles.emptyState}>
                     <View style={[
                       styles.emptyIconContainer,
@@ -675,6 +1000,58 @@ const styles = StyleSheet.create({
     flexShrink: 1,
   },
 
+  // Near Me
+  nearbyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    gap: 8,
+  },
+  nearbyToggleText: {
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+  nearbyPanel: {
+    marginTop: 16,
+  },
+  nearbyTourCard: {
+    marginBottom: 12,
+  },
+  sliderTouchArea: {
+    height: 32,
+    justifyContent: 'center',
+  },
+  sliderTrack: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  sliderFill: {
+    height: 4,
+  },
+  sliderThumb: {
+    position: 'absolute',
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 3,
+    backgroundColor: '#FFFFFF',
+  },
+  sliderLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  sliderLabel: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'SF Pro Text' : 'sans-serif',
+    fontWeight: '600',
+  },
+
   // Empty State
   emptyState: {
     alignItems: 'center',
@@ -732,6 +1109,11 @@ const styles = StyleSheet.create({
     height: 72,
     borderRadius: 14,
   },
+  resultImagePlaceholder: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.05)',
+  },
   resultContent: {
     flex: 1,
     gap: 4,
@@ -0,0 +1,526 @@
+/**
+ * ItinerarySheet Component
+ * "Start day" mode for a thematic route day
+ *
+ * Features:
+ * - Live position tracking via useLocation
+ * - Next stop with distance and ETA
+ * - Automatic check-in inside the stop geofence
+ * - Progress persisted in itineraryStore so the day can be resumed
+ */
+
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  Animated,
+  Dimensions,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  View,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import * as Haptics from 'expo-haptics';
+
+import { Colors } from '@/constants/Colors';
+import { useToast } from '@/components/ui';
+import { useLocation } from '@/hooks';
+import { ThematicRoute } from '@/types';
+import { useItineraryStore, useThemeStore } from '@/stores';
+import { getStopTypeIcon, getTimeOfDayLabel } from '@/constants/ThematicRoutes';
+import {
+  GEOFENCE_RADIUS_METERS,
+  findStopInGeofence,
+  formatDistance,
+  getDayProgressCount,
+  getNextStopInfo,
+} from '@/lib/itineraryService';
+
+const { height } = Dimensions.get('window');
+const SHEET_HEIGHT = height * 0.85;
+
+interface ItinerarySheetProps {
+  route: ThematicRoute;
+  dayIndex: number;
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function ItinerarySheet({
+  route,
+  dayIndex,
+  visible,
+  onClose,
+}: ItinerarySheetProps) {
+  const { colorScheme } = useThemeStore();
+  const colors = Colors[colorScheme];
+  const isDark = colorScheme === 'dark';
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const toast = useToast();
+
+  const progress = useItineraryStore(state => state.progress[route.id]);
+  const { startDay, restartDay, checkIn, skipStop, completeDay, pauseDay } = useItineraryStore();
+
+  const { location, isPermissionDenied, refreshLocation } = useLocation({
+    watchPosition: visible,
+    enableGeocoding: false,
+  });
+
+  const day = route.itinerary.find(d => d.dayIndex === dayIndex);
+  const position = location
+    ? { latitude: location.coords.latitude, longitude: location.coords.longitude }
+    : null;
+
+  const nextStop = useMemo(
+    () => (day ? getNextStopInfo(day, progress, position) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [day, progress, position?.latitude, position?.longitude]
+  );
+  const visitedCount = day ? getDayProgressCount(day, progress) : 0;
+  const totalStops = day?.stops.length ?? 0;
+  const isDayDone = totalStops > 0 && visitedCount === totalStops;
+
+  const slideAnim = useRef(new Animated.Value(height)).current;
+  const fadeAnim = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (visible) {
+      const completed = useItineraryStore.getState().progress[route.id]?.completedDays.includes(dayIndex);
+      if (completed && day) {
+        restartDay(route.id, dayIndex, day.stops.map(stop => stop.id));
+      } else {
+        startDay(route.id, dayIndex);
+      }
+      Animated.parallel([
+        Animated.spring(slideAnim, {
+          toValue: height - SHEET_HEIGHT,
+          useNativeDriver: true,
+          damping: 24,
+          stiffness: 260,
+        }),
+        Animated.timing(fadeAnim, {
+          toValue: 1,
+          duration: 180,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, route.id, dayIndex, startDay, restartDay, slideAnim, fadeAnim]);
+
+  // Auto check-in when entering a stop's geofence
+  useEffect(() => {
+    if (!visible || !day || !position) return;
+
+    const arrived = findStopInGeofence(day, progress, position);
+    if (arrived) {
+      checkIn(route.id, arrived.id);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast.success(t('itinerary.checkedIn', { name: arrived.name }));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, position?.latitude, position?.longitude]);
+
+  const handleClose = useCallback(() => {
+    Animated.parallel([
+      Animated.spring(slideAnim, {
+        toValue: height,
+        useNativeDriver: true,
+        damping: 24,
+        stiffness: 260,
+      }),
+      Animated.timing(fadeAnim, {
+        toValue: 0,
+        duration: 150,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      onClose();
+    });
+  }, [slideAnim, fadeAnim, onClose]);
+
+  const handlePause = () => {
+    pauseDay(route.id);
+    handleClose();
+  };
+
+  const handleFinish = () => {
+    completeDay(route.id, dayIndex);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    toast.success(t('itinerary.dayFinished', { day: dayIndex }));
+    handleClose();
+  };
+
+  const handleManualCheckIn = () => {
+    if (!nextStop) return;
+    checkIn(route.id, nextStop.stop.id);
+    Haptics.selectionAsync();
+  };
+
+  const handleSkip = () => {
+    if (!nextStop) return;
+    skipStop(route.id, nextStop.stop.id);
+    Haptics.selectionAsync();
+  };
+
+  if (!day) return null;
+
+  const cardBackground = isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.03)';
+  const progressRatio = totalStops > 0 ? visitedCount / totalStops : 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="none" onRequestClose={handleClose}>
+      <TouchableWithoutFeedback onPress={handleClose}>
+        <Animated.View style={[styles.overlay, { opacity: fadeAnim }]}>
+          {Platform.OS === 'ios' ? (
+            <BlurView intensity={30} tint={isDark ? 'dark' : 'light'} style={StyleSheet.absoluteFill} />
+          ) : (
+            <View
+              style={[
+                StyleSheet.absoluteFill,
+                { backgroundColor: isDark ? 'rgba(0,0,0,0.6)' : 'rgba(0,0,0,0.4)' },
+              ]}
+            />
+          )}
+        </Animated.View>
+      </TouchableWithoutFeedback>
+
+      <Animated.View
+        style={[
+          styles.sheet,
+          {
+            transform: [{ translateY: slideAnim }],
+            backgroundColor: colors.card,
+            paddingBottom: insets.bottom + 16,
+          },
+        ]}
+      >
+        <View style={styles.handle} />
+
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: colors.text }]}>
+            {t('itinerary.title', { day: dayIndex })}
+          </Text>
+          <Text style={[styles.subtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+            {day.title}
+          </Text>
+        </View>
+
+        {/* Progress */}
+        <View style={styles.progressRow}>
+          <View style={[styles.progressTrack, { backgroundColor: cardBackground }]}>
+            <View style={[styles.progressFill, { width: `${progressRatio * 100}%`, backgroundColor: colors.primary }]} />
+          </View>
+          <Text style={[styles.progressText, { color: colors.textSecondary }]}>
+            {t('itinerary.progress', { done: visitedCount, total: totalStops })}
+          </Text>
+        </View>
+
+        <ScrollView style={styles.flex} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Next stop */}
+          {nextStop ? (
+            <View style={[styles.nextCard, { backgroundColor: cardBackground }]}>
+              <Text style={[styles.nextLabel, { color: colors.primary }]}>{t('itinerary.nextStop')}</Text>
+              <View style={styles.nextRow}>
+                <View style={[styles.stopIcon, { backgroundColor: colors.primary }]}>
+                  <Ionicons name={getStopTypeIcon(nextStop.stop.type) as any} size={16} color="#FFF" />
+                </View>
+                <View style={styles.flex}>
+                  <Text style={[styles.nextName, { color: colors.text }]}>{nextStop.stop.name}</Text>
+                  {(nextStop.stop.timeOfDay || nextStop.stop.duration) && (
+                    <Text style={[styles.nextMeta, { color: colors.textSecondary }]}>
+                      {[
+                        nextStop.stop.timeOfDay ? getTimeOfDayLabel(nextStop.stop.timeOfDay) : null,
+                        nextStop.stop.duration,
+                      ].filter(Boolean).join(' · ')}
+                    </Text>
+                  )}
+                </View>
+              </View>
+
+              {nextStop.distanceKm !== null && nextStop.etaMinutes !== null ? (
+                <View style={styles.distanceRow}>
+                  <Ionicons
+                    name={nextStop.mode === 'walk' ? 'walk-outline' : 'car-outline'}
+                    size={18}
+                    color={colors.text}
+                  />
+                  <Text style={[styles.distanceText, { color: colors.text }]}>
+                    {formatDistance(nextStop.distanceKm)}
+                  </Text>
+                  <Text style={[styles.etaText, { color: colors.textSecondary }]}>
+                    {t(nextStop.mode === 'walk' ? 'itinerary.etaWalk' : 'itinerary.etaDrive', {
+                      minutes: nextStop.etaMinutes,
+                    })}
+                  </Text>
+                </View>
+              ) : isPermissionDenied ? (
+                <TouchableOpacity onPress={refreshLocation}>
+                  <Text style={[styles.hintText, { color: colors.primary }]}>{t('itinerary.noLocation')}</Text>
+                </TouchableOpacity>
+              ) : (
+                <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+                  {t('itinerary.noDistance')}
+                </Text>
+              )}
+
+              <View style={styles.actionsRow}>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, { borderColor: colors.border }]}
+                  onPress={handleSkip}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: colors.text }]}>{t('itinerary.skip')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+                  onPress={handleManualCheckIn}
+                >
+                  <Text style={styles.primaryButtonText}>{t('itinerary.checkIn')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <View style={[styles.nextCard, styles.doneCard, { backgroundColor: cardBackground }]}>
+              <Ionicons name="checkmark-circle" size={36} color="#22C55E" />
+              <Text style={[styles.nextName, { color: colors.text }]}>{t('itinerary.allDone')}</Text>
+            </View>
+          )}
+
+          <Text style={[styles.hintText, { color: colors.textSecondary }]}>
+            {t('itinerary.autoCheckInHint', { radius: GEOFENCE_RADIUS_METERS })}
+          </Text>
+
+          {/* All stops */}
+          {[...day.stops].sort((a, b) => a.order - b.order).map(stop => {
+            const checkedIn = !!progress?.checkIns[stop.id];
+            const skipped = !checkedIn && !!progress?.skippedStopIds.includes(stop.id);
+            const isNext = nextStop?.stop.id === stop.id;
+
+            return (
+              <View key={stop.id} style={styles.stopRow}>
+                <Ionicons
+                  name={checkedIn ? 'checkmark-circle' : skipped ? 'remove-circle-outline' : 'ellipse-outline'}
+                  size={20}
+                  color={checkedIn ? '#22C55E' : isNext ? colors.primary : colors.textSecondary}
+                />
+                <Text
+                  style={[
+                    styles.stopName,
+                    { color: skipped ? colors.textSecondary : colors.text },
+                    isNext && styles.stopNameActive,
+                  ]}
+                  numberOfLines={1}
+                >
+                  {stop.name}
+                </Text>
+                {checkedIn && progress && (
+                  <Text style={[styles.stopTime, { color: colors.textSecondary }]}>
+                    {new Date(progress.checkIns[stop.id]).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: colors.border }]}
+            onPress={handlePause}
+          >
+            <Text style={[styles.secondaryButtonText, { color: colors.text }]}>{t('itinerary.pause')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: isDayDone ? '#22C55E' : colors.primary }]}
+            onPress={handleFinish}
+          >
+            <Text style={styles.primaryButtonText}>{t('itinerary.finishDay')}</Text>
+          </TouchableOpacity>
+        </View>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: SHEET_HEIGHT,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  handle: {
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(120,120,120,0.3)',
+    alignSelf: 'center',
+    marginBottom: 12,
+  },
+  header: {
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  subtitle: {
+    marginTop: 4,
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 16,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  progressText: {
+    fontSize: 12,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  content: {
+    paddingBottom: 16,
+  },
+  nextCard: {
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 10,
+  },
+  doneCard: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  nextLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 10,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  nextRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stopIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  nextName: {
+    fontSize: 17,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  nextMeta: {
+    fontSize: 13,
+    marginTop: 2,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  distanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 14,
+  },
+  distanceText: {
+    fontSize: 20,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  etaText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  hintText: {
+    fontSize: 13,
+    marginTop: 10,
+    marginBottom: 6,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  primaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  secondaryButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+  },
+  stopName: {
+    flex: 1,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  stopNameActive: {
+    fontWeight: '700',
+  },
+  stopTime: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingTop: 8,
+  },
+});
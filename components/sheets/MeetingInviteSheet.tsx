@@ -1,12 +1,13 @@
 import { Ionicons } from '@expo/vector-icons';
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import {
   Alert,
-  Image,
   Modal,
   Platform,
+  ScrollView,
   Share,
   StyleSheet,
+  Switch,
   Text,
   TouchableOpacity,
   View,
@@ -17,12 +18,22 @@ import * as Clipboard from 'expo-clipboard';
 import * as Haptics from 'expo-haptics';
 
 import { Colors } from '@/constants/Colors';
-import { useThemeStore } from '@/stores';
+import { useMeetingStore, useThemeStore } from '@/stores';
+import { QRCode } from '@/components/ui/QRCode';
+import {
+  buildInviteLink,
+  INVITE_EXPIRY_HOURS,
+  INVITE_MAX_USES,
+  isInviteUsable,
+} from '@/lib/meetingInviteLink';
 
 interface MeetingInviteSheetProps {
   visible: boolean;
   inviteCode: string | null;
   sessionTitle?: string;
+  /** Shows host controls for rotating and revoking the code */
+  sessionId?: string;
+  canManage?: boolean;
   onClose: () => void;
 }
 
@@ -30,25 +41,38 @@ export default function MeetingInviteSheet({
   visible,
   inviteCode,
   sessionTitle,
+  sessionId,
+  canManage = false,
   onClose,
 }: MeetingInviteSheetProps) {
   const { colorScheme } = useThemeStore();
   const colors = Colors[colorScheme];
   const isDark = colorScheme === 'dark';
   const insets = useSafeAreaInsets();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+
+  const invite = useMeetingStore(state => state.invite);
+  const isSubmitting = useMeetingStore(state => state.isSubmitting);
+  const rotateInvite = useMeetingStore(state => state.rotateInvite);
+  const revokeInvite = useMeetingStore(state => state.revokeInvite);
+  const setRequiresApproval = useMeetingStore(state => state.setRequiresApproval);
+  const session = useMeetingStore(state =>
+    state.currentSession?.id === sessionId
+      ? state.currentSession
+      : state.sessions.find(s => s.id === sessionId) || null
+  );
+
+  const [expiresInHours, setExpiresInHours] = useState<number | null>(null);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+
+  const isManaging = canManage && !!sessionId;
+  const currentInvite = invite && invite.sessionId === sessionId ? invite : null;
 
   const inviteLink = useMemo(() => {
     if (!inviteCode) return '';
-    return `cyprigo://session/invite/${inviteCode}`;
+    return buildInviteLink(inviteCode);
   }, [inviteCode]);
 
-  const qrUrl = useMemo(() => {
-    if (!inviteLink) return '';
-    // Prototype QR via remote image generator. Replace with local QR later.
-    return `https://api.qrserver.com/v1/create-qr-code/?size=240x240&data=${encodeURIComponent(inviteLink)}`;
-  }, [inviteLink]);
-
   const handleCopy = useCallback(async () => {
     if (!inviteLink) return;
     await Clipboard.setStringAsync(inviteLink);
@@ -64,63 +88,224 @@ export default function MeetingInviteSheet({
     });
   }, [inviteLink, sessionTitle, t]);
 
+  const handleRotate = useCallback(async () => {
+    if (!sessionId) return;
+    const { success, error } = await rotateInvite(sessionId, {
+      expiresInHours: expiresInHours || undefined,
+      maxUses: maxUses || undefined,
+    });
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+      return;
+    }
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  }, [sessionId, rotateInvite, expiresInHours, maxUses, t]);
+
+  const handleRevoke = useCallback(() => {
+    if (!sessionId) return;
+    Alert.alert(t('meeting.invite.revokeTitle'), t('meeting.invite.revokeMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('meeting.invite.revoke'),
+        style: 'destructive',
+        onPress: async () => {
+          const { success, error } = await revokeInvite(sessionId);
+          if (!success) {
+            Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+          }
+        },
+      },
+    ]);
+  }, [sessionId, revokeInvite, t]);
+
+  const handleToggleApproval = useCallback(async (value: boolean) => {
+    if (!sessionId) return;
+    const { success, error } = await setRequiresApproval(sessionId, value);
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('meeting.errors.updateFailed'));
+    }
+  }, [sessionId, setRequiresApproval, t]);
+
+  const inviteDetails = useMemo(() => {
+    if (!currentInvite) return null;
+    const locale = i18n.language === 'tr' ? 'tr-TR' : 'en-US';
+    const expiry = currentInvite.expiresAt
+      ? t('meeting.invite.expiresAt', {
+        time: new Date(currentInvite.expiresAt).toLocaleString(locale, {
+          day: 'numeric',
+          month: 'short',
+          hour: '2-digit',
+          minute: '2-digit',
+        }),
+      })
+      : t('meeting.invite.noExpiry');
+    const uses = currentInvite.maxUses
+      ? t('meeting.invite.usesOf', { count: currentInvite.useCount, max: currentInvite.maxUses })
+      : t('meeting.invite.uses', { count: currentInvite.useCount });
+    return `${expiry} • ${uses}`;
+  }, [currentInvite, i18n.language, t]);
+
+  const renderOption = (
+    value: number | null,
+    selected: number | null,
+    label: string,
+    onSelect: (value: number | null) => void
+  ) => {
+    const isSelected = value === selected;
+    return (
+      <TouchableOpacity
+        key={label}
+        style={[
+          styles.optionChip,
+          { borderColor: isSelected ? colors.primary : colors.border },
+          isSelected && { backgroundColor: colors.primary },
+        ]}
+        onPress={() => onSelect(value)}
+      >
+        <Text style={[styles.optionText, { color: isSelected ? '#FFF' : colors.text }]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderManage = () => (
+    <View style={[styles.manageSection, { borderTopColor: colors.border }]}>
+      <View style={styles.approvalRow}>
+        <View style={styles.approvalText}>
+          <Text style={[styles.manageTitle, { color: colors.text }]}>
+            {t('meeting.invite.requireApproval')}
+          </Text>
+          <Text style={[styles.manageHint, { color: colors.textSecondary }]}>
+            {t('meeting.invite.requireApprovalHint')}
+          </Text>
+        </View>
+        <Switch
+          value={!!session?.requiresApproval}
+          onValueChange={handleToggleApproval}
+          trackColor={{ false: isDark ? '#39393D' : '#E5E5EA', true: colors.primary }}
+          thumbColor="#FFFFFF"
+          ios_backgroundColor={isDark ? '#39393D' : '#E5E5EA'}
+        />
+      </View>
+
+      <Text style={[styles.manageTitle, { color: colors.text }]}>{t('meeting.invite.newCode')}</Text>
+      <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>{t('meeting.invite.expiry')}</Text>
+      <View style={styles.optionRow}>
+        {INVITE_EXPIRY_HOURS.map(hours =>
+          renderOption(
+            hours,
+            expiresInHours,
+            !hours
+              ? t('meeting.invite.noExpiry')
+              : hours % 24 === 0
+                ? t('meeting.invite.expiryDays', { count: hours / 24 })
+                : t('meeting.invite.expiryHours', { count: hours }),
+            setExpiresInHours
+          )
+        )}
+      </View>
+      <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>{t('meeting.invite.maxUses')}</Text>
+      <View style={styles.optionRow}>
+        {INVITE_MAX_USES.map(uses =>
+          renderOption(
+            uses,
+            maxUses,
+            uses ? String(uses) : t('meeting.invite.unlimited'),
+            setMaxUses
+          )
+        )}
+      </View>
+
+      <View style={styles.manageActions}>
+        <TouchableOpacity
+          style={[styles.manageButton, { borderColor: colors.primary }]}
+          onPress={handleRotate}
+          disabled={isSubmitting}
+        >
+          <Ionicons name="refresh" size={16} color={colors.primary} />
+          <Text style={[styles.manageButtonText, { color: colors.primary }]}>
+            {currentInvite ? t('meeting.invite.rotate') : t('meeting.invite.generate')}
+          </Text>
+        </TouchableOpacity>
+        {currentInvite && !currentInvite.revokedAt ? (
+          <TouchableOpacity
+            style={[styles.manageButton, { borderColor: '#EF4444' }]}
+            onPress={handleRevoke}
+            disabled={isSubmitting}
+          >
+            <Ionicons name="close-circle-outline" size={16} color="#EF4444" />
+            <Text style={[styles.manageButtonText, { color: '#EF4444' }]}>{t('meeting.invite.revoke')}</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </View>
+  );
+
   if (!visible) return null;
 
   return (
     <Modal visible={visible} transparent animationType="fade">
       <View style={[styles.overlay, { backgroundColor: isDark ? 'rgba(0,0,0,0.6)' : 'rgba(0,0,0,0.4)' }]}>
         <View style={[styles.card, { backgroundColor: colors.card, paddingBottom: insets.bottom + 20 }]}>
-          <View style={styles.header}>
-            <Text style={[styles.title, { color: colors.text }]}>{t('meeting.invite.title')}</Text>
-            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
-              <Ionicons name="close" size={20} color={colors.textSecondary} />
-            </TouchableOpacity>
-          </View>
-
-          {sessionTitle ? (
-            <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{sessionTitle}</Text>
-          ) : null}
-
-          {inviteCode ? (
-            <>
-              <View style={[styles.codeCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
-                <Text style={[styles.codeLabel, { color: colors.textSecondary }]}>
-                  {t('meeting.invite.codeLabel')}
-                </Text>
-                <Text style={[styles.codeValue, { color: colors.text }]}>{inviteCode}</Text>
-              </View>
+          <ScrollView bounces={false} showsVerticalScrollIndicator={false}>
+            <View style={styles.header}>
+              <Text style={[styles.title, { color: colors.text }]}>{t('meeting.invite.title')}</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                <Ionicons name="close" size={20} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {sessionTitle ? (
+              <Text style={[styles.subtitle, { color: colors.textSecondary }]}>{sessionTitle}</Text>
+            ) : null}
 
-              <View style={styles.linkRow}>
-                <Text style={[styles.linkText, { color: colors.text }]} numberOfLines={1}>
-                  {inviteLink}
+            {inviteCode ? (
+              <>
+                <View style={[styles.codeCard, { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' }]}>
+                  <Text style={[styles.codeLabel, { color: colors.textSecondary }]}>
+                    {t('meeting.invite.codeLabel')}
+                  </Text>
+                  <Text style={[styles.codeValue, { color: colors.text }]}>{inviteCode}</Text>
+                  {isManaging && inviteDetails ? (
+                    <Text style={[styles.codeDetails, { color: colors.textSecondary }]}>{inviteDetails}</Text>
+                  ) : null}
+                </View>
+
+                <View style={styles.linkRow}>
+                  <Text style={[styles.linkText, { color: colors.text }]} numberOfLines={1}>
+                    {inviteLink}
+                  </Text>
+                  <TouchableOpacity onPress={handleCopy} style={styles.iconButton}>
+                    <Ionicons name="copy-outline" size={18} color={colors.text} />
+                  </TouchableOpacity>
+                </View>
+
+                {inviteLink ? (
+                  <QRCode value={inviteLink} size={200} style={styles.qrCode} />
+                ) : null}
+
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: colors.primary }]}
+                    onPress={handleShare}
+                  >
+                    <Ionicons name="share-social-outline" size={18} color="#FFF" />
+                    <Text style={styles.actionText}>{t('meeting.invite.share')}</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            ) : (
+              <View style={styles.emptyState}>
+                <Ionicons name="alert-circle-outline" size={28} color={colors.textSecondary} />
+                <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+                  {isManaging && currentInvite && !isInviteUsable(currentInvite)
+                    ? t('meeting.invite.expired')
+                    : t('meeting.invite.missing')}
                 </Text>
-                <TouchableOpacity onPress={handleCopy} style={styles.iconButton}>
-                  <Ionicons name="copy-outline" size={18} color={colors.text} />
-                </TouchableOpacity>
               </View>
+            )}
 
-              {qrUrl ? (
-                <Image source={{ uri: qrUrl }} style={styles.qrImage} />
-              ) : null}
-
-              <View style={styles.actions}>
-                <TouchableOpacity
-                  style={[styles.actionButton, { backgroundColor: colors.primary }]}
-                  onPress={handleShare}
-                >
-                  <Ionicons name="share-social-outline" size={18} color="#FFF" />
-                  <Text style={styles.actionText}>{t('meeting.invite.share')}</Text>
-                </TouchableOpacity>
-              </View>
-            </>
-          ) : (
-            <View style={styles.emptyState}>
-              <Ionicons name="alert-circle-outline" size={28} color={colors.textSecondary} />
-              <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-                {t('meeting.invite.missing')}
-              </Text>
-            </View>
-          )}
+            {isManaging ? renderManage() : null}
+          </ScrollView>
         </View>
       </View>
     </Modal>
@@ -136,6 +321,7 @@ const styles = StyleSheet.create({
   },
   card: {
     width: '100%',
+    maxHeight: '90%',
     borderRadius: 20,
     padding: 20,
   },
@@ -179,6 +365,10 @@ const styles = StyleSheet.create({
     letterSpacing: 2,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  codeDetails: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   linkRow: {
     marginTop: 12,
     flexDirection: 'row',
@@ -196,7 +386,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
-  qrImage: {
+  qrCode: {
     width: 200,
     height: 200,
     alignSelf: 'center',
@@ -230,4 +420,70 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  manageSection: {
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  approvalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+  },
+  approvalText: {
+    flex: 1,
+    gap: 2,
+  },
+  manageTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  manageHint: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  optionLabel: {
+    fontSize: 12,
+    marginTop: 4,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  manageActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 8,
+  },
+  manageButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  manageButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
 });
@@ -19,6 +19,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
+import { getRepeatOption, getUpcomingSessions, shareMeetingCalendar } from '@/lib/meetingCalendarService';
 import { MeetingSession } from '@/types';
 import { useThemeStore } from '@/stores';
 
@@ -98,6 +99,15 @@ export default function MeetingListSheet({
     );
   }, [onStartNew, t]);
 
+  const upcomingSessions = useMemo(() => getUpcomingSessions(sessions), [sessions]);
+
+  const handleExportUpcoming = useCallback(async () => {
+    const { success } = await shareMeetingCalendar(upcomingSessions, t('meeting.schedule.calendarName'));
+    if (!success) {
+      Alert.alert(t('common.error'), t('meeting.schedule.exportFailed'));
+    }
+  }, [upcomingSessions, t]);
+
   const formatDate = useCallback(
     (value?: string) => {
       if (!value) return t('meeting.list.noDate');
@@ -162,6 +172,9 @@ export default function MeetingListSheet({
             </Text>
             <Text style={[styles.cardMeta, { color: colors.textSecondary }]}>
               {formatDate(item.scheduledAt || item.createdAt)}
+              {item.recurrenceFrequency
+                ? ` • ${t(`meeting.schedule.repeatOptions.${getRepeatOption(item)}`)}`
+                : ''}
             </Text>
 
             <View style={styles.cardActions}>
@@ -215,9 +228,20 @@ export default function MeetingListSheet({
         <View style={styles.handle} />
         <View style={styles.header}>
           <Text style={[styles.title, { color: colors.text }]}>{t('meeting.list.title')}</Text>
-          <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
-            <Ionicons name="close" size={20} color={colors.textSecondary} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            {upcomingSessions.length ? (
+              <TouchableOpacity
+                onPress={handleExportUpcoming}
+                style={styles.closeButton}
+                accessibilityLabel={t('meeting.schedule.exportUpcoming')}
+              >
+                <Ionicons name="calendar-outline" size={20} color={colors.primary} />
+              </TouchableOpacity>
+            ) : null}
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <Ionicons name="close" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {content}
@@ -268,6 +292,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   closeButton: {
     width: 32,
     height: 32,
@@ -27,9 +27,10 @@ import Constants from 'expo-constants';
 import { requireNativeViewManager } from 'expo-modules-core';
 
 import { Colors } from '@/constants/Colors';
-import { CommunityPost, CommunityComment } from '@/types';
+import { CommunityPost, CommunityComment, CommentMention } from '@/types';
 import { useCommunityStore, useAuthStore, useThemeStore, useBlockStore } from '@/stores';
 import { getAvatarUrl } from '@/lib/avatarService';
+import { getMentionQuery, insertMention, resolveMentions, splitMentions } from '@/lib/commentMentions';
 
 const { width, height } = Dimensions.get('window');
 const SHEET_HEIGHT = height * 0.95;
@@ -89,13 +90,22 @@ export default function PostDetailSheet({
   const { user, profile } = useAuthStore();
   const {
     comments,
+    commentReplies,
+    hasMoreComments,
     isLoadingComments,
+    isLoadingMoreComments,
     isSubmitting,
     fetchComments,
+    fetchReplies,
     addComment,
     deleteComment,
     toggleLike,
+    toggleCommentLike,
+    searchMentionProfiles,
   } = useCommunityStore();
+  const commentsCount = useCommunityStore(
+    state => state.posts.find(p => p.id === post?.id)?.commentsCount
+  ) ?? post?.commentsCount ?? 0;
   const { blockedUserIds, blockUser } = useBlockStore();
 
   const isExpoGo =
@@ -116,6 +126,11 @@ export default function PostDetailSheet({
 
   // Local state
   const [commentText, setCommentText] = useState('');
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  const [replyTo, setReplyTo] = useState<CommunityComment | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<string[]>([]);
+  const [pickedMentions, setPickedMentions] = useState<CommentMention[]>([]);
+  const [mentionSuggestions, setMentionSuggestions] = useState<CommentMention[]>([]);
   const [isLiked, setIsLiked] = useState(post?.isLiked || false);
   const [likesCount, setLikesCount] = useState(post?.likesCount || 0);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
@@ -131,9 +146,32 @@ export default function PostDetailSheet({
       fetchComments(post.id);
       setIsLiked(post.isLiked || false);
       setLikesCount(post.likesCount || 0);
+      setExpandedThreads([]);
     }
   }, [visible, post]);
 
+  // Suggest profiles while an @mention is being typed
+  const mentionQuery = getMentionQuery(commentText, selection.end);
+  useEffect(() => {
+    if (!mentionQuery || mentionQuery.length < 2) {
+      setMentionSuggestions([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      const results = await searchMentionProfiles(mentionQuery);
+      if (!isCancelled) {
+        setMentionSuggestions(results.filter(result => result.id !== user?.id));
+      }
+    }, 250);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery, searchMentionProfiles, user?.id]);
+
   // Show/hide animation
   useEffect(() => {
     if (visible && post) {
@@ -168,6 +206,8 @@ export default function PostDetailSheet({
       }),
     ]).start(() => {
       setCommentText('');
+      setReplyTo(null);
+      setPickedMentions([]);
       setCurrentImageIndex(0);
       onClose();
     });
@@ -234,14 +274,66 @@ export default function PostDetailSheet({
   const handleAddComment = async () => {
     if (!user || !post || !commentText.trim()) return;
 
-    const { success, error } = await addComment(user.id, post.id, commentText.trim());
+    const content = commentText.trim();
+    const parentId = replyTo ? replyTo.parentId || replyTo.id : undefined;
+    const { success, error } = await addComment(user.id, post.id, content, {
+      parentId,
+      mentions: resolveMentions(content, pickedMentions),
+    });
     if (success) {
       setCommentText('');
+      setReplyTo(null);
+      setPickedMentions([]);
+      if (parentId && !expandedThreads.includes(parentId)) {
+        setExpandedThreads(prev => [...prev, parentId]);
+      }
     } else {
       Alert.alert(t('common.error'), error || t('errors.generic'));
     }
   };
 
+  // Reply to a comment; replies to replies stay in the same thread
+  const handleReply = (comment: CommunityComment) => {
+    setReplyTo(comment);
+    if (comment.userId !== user?.id && comment.user?.fullName) {
+      const mention = { id: comment.userId, fullName: comment.user.fullName };
+      const text = `@${mention.fullName} `;
+      setCommentText(text);
+      setSelection({ start: text.length, end: text.length });
+      setPickedMentions([mention]);
+    }
+  };
+
+  const handleCancelReply = () => {
+    setReplyTo(null);
+    setCommentText('');
+    setPickedMentions([]);
+  };
+
+  const handlePickMention = (mention: CommentMention) => {
+    const next = insertMention(commentText, selection.end, mention.fullName);
+    setCommentText(next.text);
+    setSelection({ start: next.cursor, end: next.cursor });
+    setPickedMentions(prev => [...prev.filter(m => m.id !== mention.id), mention]);
+    setMentionSuggestions([]);
+  };
+
+  const handleToggleThread = (comment: CommunityComment) => {
+    if (expandedThreads.includes(comment.id)) {
+      setExpandedThreads(prev => prev.filter(id => id !== comment.id));
+      return;
+    }
+    setExpandedThreads(prev => [...prev, comment.id]);
+    if (!commentReplies[comment.id]) {
+      fetchReplies(comment.id);
+    }
+  };
+
+  const handleCommentLike = (comment: CommunityComment) => {
+    if (!user || comment.id.startsWith('offline-')) return;
+    toggleCommentLike(user.id, comment.id);
+  };
+
   // Check if user is admin
   const isAdmin = profile?.role === 'admin';
 
@@ -493,12 +585,15 @@ export default function PostDetailSheet({
     );
   };
 
+  const filterBlocked = (list: CommunityComment[]) =>
+    blockedUserIds.length === 0 ? list : list.filter(c => !blockedUserIds.includes(c.userId));
+
   // Render comment item
   const renderComment = ({ item }: { item: CommunityComment }) => (
     <View style={styles.commentItem}>
       <Image
         source={{ uri: getAvatarUrl(item.user?.avatarUrl, item.userId) }}
-        style={styles.commentAvatar}
+        style={item.parentId ? styles.replyAvatar : styles.commentAvatar}
       />
       <View style={styles.commentContent}>
         <View style={styles.commentHeader}>
@@ -528,8 +623,68 @@ export default function PostDetailSheet({
           </View>
         </View>
         <Text style={[styles.commentText, { color: colors.text }]}>
-          {item.content}
+          {splitMentions(item.content, item.mentions).map((segment, index) =>
+            segment.userId ? (
+              <Text key={index} style={[styles.mentionText, { color: colors.primary }]}>
+                {segment.text}
+              </Text>
+            ) : (
+              segment.text
+            )
+          )}
         </Text>
+        <View style={styles.commentActions}>
+          <TouchableOpacity
+            style={styles.commentAction}
+            onPress={() => handleCommentLike(item)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <Ionicons
+              name={item.isLiked ? 'heart' : 'heart-outline'}
+              size={14}
+              color={item.isLiked ? '#FF6B6B' : colors.textSecondary}
+            />
+            {item.likesCount > 0 && (
+              <Text style={[styles.commentActionText, { color: item.isLiked ? '#FF6B6B' : colors.textSecondary }]}>
+                {item.likesCount}
+              </Text>
+            )}
+          </TouchableOpacity>
+          {user && (
+            <TouchableOpacity
+              style={styles.commentAction}
+              onPress={() => handleReply(item)}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={[styles.commentActionText, { color: colors.textSecondary }]}>
+                {t('community.reply')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {!item.parentId && item.repliesCount > 0 && (
+          <TouchableOpacity style={styles.threadToggle} onPress={() => handleToggleThread(item)}>
+            <View style={[styles.threadLine, { backgroundColor: colors.textSecondary }]} />
+            <Text style={[styles.commentActionText, { color: colors.textSecondary }]}>
+              {expandedThreads.includes(item.id)
+                ? t('community.hideReplies')
+                : t('community.viewReplies', { count: item.repliesCount })}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {!item.parentId && expandedThreads.includes(item.id) && (
+          commentReplies[item.id] ? (
+            <View style={styles.repliesList}>
+              {filterBlocked(commentReplies[item.id]).map(reply => (
+                <View key={reply.id}>
+                  {renderComment({ item: reply })}
+                </View>
+              ))}
+            </View>
+          ) : (
+            <ActivityIndicator size="small" color={colors.primary} style={styles.repliesLoader} />
+          )
+        )}
       </View>
     </View>
   );
@@ -723,7 +878,7 @@ export default function PostDetailSheet({
               <View style={styles.actionButton}>
                 <Ionicons name="chatbubble-outline" size={22} color={colors.textSecondary} />
                 <Text style={[styles.actionText, { color: colors.textSecondary }]}>
-                  {comments.length} {t('community.comments')}
+                  {commentsCount} {t('community.comments')}
                 </Text>
               </View>
             </View>
@@ -747,6 +902,22 @@ export default function PostDetailSheet({
                   </View>
                 ))
               )}
+
+              {hasMoreComments && !isLoadingComments && (
+                <TouchableOpacity
+                  style={styles.loadMoreComments}
+                  onPress={() => fetchComments(post.id, true)}
+                  disabled={isLoadingMoreComments}
+                >
+                  {isLoadingMoreComments ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={[styles.loadMoreText, { color: colors.primary }]}>
+                      {t('community.loadMoreComments')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              )}
             </View>
           </ScrollView>
 
@@ -762,36 +933,68 @@ export default function PostDetailSheet({
                 },
               ]}
             >
-              <Image
-                source={{ uri: getAvatarUrl(profile?.avatar_url, user.id) }}
-                style={styles.inputAvatar}
-              />
-              <TextInput
-                style={[
-                  styles.commentInput,
-                  {
-                    backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#F5F5F5',
-                    color: colors.text,
-                  },
-                ]}
-                placeholder={t('community.addComment')}
-                placeholderTextColor={isDark ? 'rgba(255,255,255,0.5)' : 'rgba(0,0,0,0.4)'}
-                value={commentText}
-                onChangeText={setCommentText}
-                multiline
-                maxLength={500}
-              />
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  { backgroundColor: colors.primary },
-                  (!commentText.trim() || isSubmitting) && { opacity: 0.5 },
-                ]}
-                onPress={handleAddComment}
-                disabled={!commentText.trim() || isSubmitting}
-              >
-                <Ionicons name="send" size={18} color="#FFF" />
-              </TouchableOpacity>
+              {mentionSuggestions.length > 0 && (
+                <View style={styles.mentionSuggestions}>
+                  {mentionSuggestions.map(mention => (
+                    <TouchableOpacity
+                      key={mention.id}
+                      style={[
+                        styles.mentionSuggestion,
+                        { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : '#F5F5F5' },
+                      ]}
+                      onPress={() => handlePickMention(mention)}
+                    >
+                      <Ionicons name="at" size={14} color={colors.primary} />
+                      <Text style={[styles.mentionSuggestionText, { color: colors.text }]} numberOfLines={1}>
+                        {mention.fullName}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              {replyTo && (
+                <View style={styles.replyBanner}>
+                  <Text style={[styles.replyBannerText, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {t('community.replyingTo', { name: replyTo.user?.fullName || t('community.anonymous') })}
+                  </Text>
+                  <TouchableOpacity onPress={handleCancelReply} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                    <Ionicons name="close" size={16} color={colors.textSecondary} />
+                  </TouchableOpacity>
+                </View>
+              )}
+              <View style={styles.commentInputRow}>
+                <Image
+                  source={{ uri: getAvatarUrl(profile?.avatar_url, user.id) }}
+                  style={styles.inputAvatar}
+                />
+                <TextInput
+                  style={[
+                    styles.commentInput,
+                    {
+                      backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : '#F5F5F5',
+                      color: colors.text,
+                    },
+                  ]}
+                  placeholder={replyTo ? t('community.addReply') : t('community.addComment')}
+                  placeholderTextColor={isDark ? 'rgba(255,255,255,0.5)' : 'rgba(0,0,0,0.4)'}
+                  value={commentText}
+                  onChangeText={setCommentText}
+                  onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+                  multiline
+                  maxLength={500}
+                />
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    { backgroundColor: colors.primary },
+                    (!commentText.trim() || isSubmitting) && { opacity: 0.5 },
+                  ]}
+                  onPress={handleAddComment}
+                  disabled={!commentText.trim() || isSubmitting}
+                >
+                  <Ionicons name="send" size={18} color="#FFF" />
+                </TouchableOpacity>
+              </View>
             </View>
           )}
         </KeyboardAvoidingView>
@@ -1014,14 +1217,99 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     lineHeight: 21,
   },
-  commentInputContainer: {
+  mentionText: {
+    fontWeight: '600',
+  },
+  commentActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginTop: 6,
+  },
+  commentAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  commentActionText: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  threadToggle: {
     flexDirection: 'row',
     alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+  },
+  threadLine: {
+    width: 24,
+    height: 1,
+    opacity: 0.5,
+  },
+  repliesList: {
+    marginTop: 12,
+  },
+  repliesLoader: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+  },
+  replyAvatar: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    marginRight: 10,
+  },
+  loadMoreComments: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  commentInputContainer: {
     paddingHorizontal: 16,
     paddingTop: 12,
     borderTopWidth: 1,
+    gap: 8,
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 12,
   },
+  mentionSuggestions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  mentionSuggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    maxWidth: '100%',
+  },
+  mentionSuggestionText: {
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '500',
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  replyBannerText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
   inputAvatar: {
     width: 36,
     height: 36,
@@ -15,7 +15,6 @@ import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   Animated,
   Dimensions,
-  Image,
   Modal,
   Platform,
   ScrollView,
@@ -29,7 +28,12 @@ import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
 import { ThematicRoute, RouteDay, RouteStop } from '@/types';
-import { useThemeStore, useTourStore, useUIStore } from '@/stores';
+import { useThemeStore, useTourStore, useUIStore, useMapPackStore, useItineraryStore } from '@/stores';
+import { CachedImage, useToast } from '@/components/ui';
+import { estimateMapPackSize, formatPackSize } from '@/lib/mapPackService';
+import { getDayDistanceKm } from '@/lib/routeService';
+import { formatDistance } from '@/lib/itineraryService';
+import ItinerarySheet from './ItinerarySheet';
 import { 
   getThemeIcon, 
   getDifficultyInfo, 
@@ -60,6 +64,14 @@ export default function RouteDetailSheet({
   // Tour store for linking to tour details
   const { getTourById } = useTourStore();
   const { openTourDetail } = useUIStore();
+  const toast = useToast();
+
+  // Offline map packs
+  const { packs, downloadingRouteId, progress, fetchPacks, downloadPack } = useMapPackStore();
+
+  // "Start day" progress
+  const routeProgress = useItineraryStore(state => (route ? state.progress[route.id] : undefined));
+  const [itineraryDay, setItineraryDay] = useState<number | null>(null);
 
   const slideAnim = useRef(new Animated.Value(height)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -71,9 +83,16 @@ export default function RouteDetailSheet({
   useEffect(() => {
     if (route) {
       setExpandedDay(1);
+      setItineraryDay(null);
     }
   }, [route?.id]);
 
+  useEffect(() => {
+    if (visible) {
+      fetchPacks();
+    }
+  }, [visible, fetchPacks]);
+
   // Animation on open/close
   useEffect(() => {
     if (visible && route) {
@@ -124,6 +143,16 @@ export default function RouteDetailSheet({
     }
   };
 
+  const handleDownloadPack = async () => {
+    if (!route) return;
+    const { success, error } = await downloadPack(route);
+    if (success) {
+      toast.success(t('explore.offlinePack.downloaded'));
+    } else {
+      toast.error(error || t('common.error'));
+    }
+  };
+
   // Toggle day expansion
   const toggleDay = (dayIndex: number) => {
     setExpandedDay(expandedDay === dayIndex ? null : dayIndex);
@@ -194,6 +223,9 @@ export default function RouteDetailSheet({
   const difficultyInfo = getDifficultyInfo(route.difficulty);
   const themeLabel = t(`explore.themes.${route.theme}`) || route.theme;
   const totalStops = route.totalStops || route.itinerary.reduce((acc, day) => acc + day.stops.length, 0);
+  const offlinePack = packs.find(p => p.routeId === route.id);
+  const isDownloadingPack = downloadingRouteId === route.id;
+  const estimatedPackSize = estimateMapPackSize(route);
 
   // Parallax effect for header image
   const imageTranslateY = scrollY.interpolate({
@@ -256,8 +288,8 @@ export default function RouteDetailSheet({
               },
             ]}
           >
-            <Image
-              source={{ uri: route.coverImage }}
+            <CachedImage
+              uri={route.coverImage}
               style={styles.headerImage}
               resizeMode="cover"
             />
@@ -413,6 +445,32 @@ export default function RouteDetailSheet({
                 </View>
               )}
 
+              {/* Offline map pack */}
+              {(offlinePack || estimatedPackSize > 0) && (
+                <TouchableOpacity
+                  style={[
+                    styles.offlineButton,
+                    { backgroundColor: isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.05)' },
+                  ]}
+                  onPress={handleDownloadPack}
+                  disabled={!!offlinePack || !!downloadingRouteId}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons
+                    name={offlinePack ? 'checkmark-circle' : 'cloud-download-outline'}
+                    size={18}
+                    color={offlinePack ? '#22C55E' : colors.primary}
+                  />
+                  <Text style={[styles.offlineButtonText, { color: colors.text }]}>
+                    {offlinePack
+                      ? t('explore.offlinePack.available', { size: formatPackSize(offlinePack.sizeBytes) })
+                      : isDownloadingPack
+                        ? t('explore.offlinePack.downloading', { percent: Math.round(progress * 100) })
+                        : t('explore.offlinePack.download', { size: formatPackSize(estimatedPackSize) })}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Divider */}
               <View style={[styles.divider, { backgroundColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.08)' }]} />
 
@@ -422,6 +480,21 @@ export default function RouteDetailSheet({
                   {t('explore.dayProgram')}
                 </Text>
 
+                {/* Resume an unfinished day */}
+                {routeProgress?.activeDayIndex != null && (
+                  <TouchableOpacity
+                    style={[styles.resumeBanner, { backgroundColor: colors.primary }]}
+                    onPress={() => setItineraryDay(routeProgress.activeDayIndex)}
+                    activeOpacity={0.8}
+                  >
+                    <Ionicons name="navigate" size={18} color="#FFF" />
+                    <Text style={styles.resumeBannerText}>
+                      {t('itinerary.resumeDay', { day: routeProgress.activeDayIndex })}
+                    </Text>
+                    <Ionicons name="chevron-forward" size={18} color="#FFF" />
+                  </TouchableOpacity>
+                )}
+
                 {route.itinerary.map((day) => (
                   <DayCard
                     key={day.dayIndex}
@@ -429,6 +502,9 @@ export default function RouteDetailSheet({
                     isExpanded={expandedDay === day.dayIndex}
                     onToggle={() => toggleDay(day.dayIndex)}
                     onStopPress={handleStopPress}
+                    isCompleted={!!routeProgress?.completedDays.includes(day.dayIndex)}
+                    isActive={routeProgress?.activeDayIndex === day.dayIndex}
+                    onStartDay={() => setItineraryDay(day.dayIndex)}
                     colors={colors}
                     isDark={isDark}
                     t={t}
@@ -439,6 +515,16 @@ export default function RouteDetailSheet({
           </Animated.ScrollView>
         </Animated.View>
       </View>
+
+      {/* Mounted only while active so location tracking stops with it */}
+      {itineraryDay !== null && (
+        <ItinerarySheet
+          route={route}
+          dayIndex={itineraryDay}
+          visible
+          onClose={() => setItineraryDay(null)}
+        />
+      )}
     </Modal>
   );
 }
@@ -449,12 +535,28 @@ interface DayCardProps {
   isExpanded: boolean;
   onToggle: () => void;
   onStopPress: (stop: RouteStop) => void;
+  isCompleted: boolean;
+  isActive: boolean;
+  onStartDay: () => void;
   colors: typeof Colors.light;
   isDark: boolean;
   t: any;
 }
 
-function DayCard({ day, isExpanded, onToggle, onStopPress, colors, isDark, t }: DayCardProps) {
+function DayCard({
+  day,
+  isExpanded,
+  onToggle,
+  onStopPress,
+  isCompleted,
+  isActive,
+  onStartDay,
+  colors,
+  isDark,
+  t,
+}: DayCardProps) {
+  const distanceKm = getDayDistanceKm(day);
+
   return (
     <View style={styles.dayCard}>
       {/* Day Header */}
@@ -467,8 +569,12 @@ function DayCard({ day, isExpanded, onToggle, onStopPress, colors, isDark, t }:
         activeOpacity={0.7}
       >
         <View style={styles.dayHeaderLeft}>
-          <View style={[styles.dayBadge, { backgroundColor: colors.primary }]}>
-            <Text style={styles.dayBadgeText}>{day.dayIndex}</Text>
+          <View style={[styles.dayBadge, { backgroundColor: isCompleted ? '#22C55E' : colors.primary }]}>
+            {isCompleted ? (
+              <Ionicons name="checkmark" size={20} color="#FFF" />
+            ) : (
+              <Text style={styles.dayBadgeText}>{day.dayIndex}</Text>
+            )}
           </View>
           <View style={styles.dayHeaderText}>
             <Text style={[styles.dayTitle, { color: colors.text }]}>
@@ -477,6 +583,11 @@ function DayCard({ day, isExpanded, onToggle, onStopPress, colors, isDark, t }:
             <Text style={[styles.daySubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
               {day.title}
             </Text>
+            {distanceKm > 0 && (
+              <Text style={[styles.dayDistance, { color: colors.textSecondary }]}>
+                {t('explore.dayDistance', { distance: formatDistance(distanceKm) })}
+              </Text>
+            )}
           </View>
         </View>
         <Ionicons
@@ -506,6 +617,17 @@ function DayCard({ day, isExpanded, onToggle, onStopPress, colors, isDark, t }:
               t={t}
             />
           ))}
+
+          <TouchableOpacity
+            style={[styles.startDayButton, { backgroundColor: colors.primary }]}
+            onPress={onStartDay}
+            activeOpacity={0.8}
+          >
+            <Ionicons name={isActive ? 'play-forward' : 'navigate'} size={16} color="#FFF" />
+            <Text style={styles.startDayButtonText}>
+              {isActive ? t('itinerary.resume') : isCompleted ? t('itinerary.restartDay') : t('itinerary.startDay')}
+            </Text>
+          </TouchableOpacity>
         </View>
       )}
     </View>
@@ -556,7 +678,7 @@ function StopCard({ stop, isLast, onPress, colors, isDark, t }: StopCardProps) {
       >
         {/* Stop Image (if available) */}
         {stop.image && (
-          <Image source={{ uri: stop.image }} style={styles.stopImage} />
+          <CachedImage uri={stop.image} style={styles.stopImage} />
         )}
 
         <View style={styles.stopInfo}>
@@ -782,6 +904,21 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     fontWeight: '500',
   },
+  offlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderRadius: 14,
+    gap: 8,
+  },
+  offlineButtonText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
   divider: {
     height: 1,
     marginHorizontal: 20,
@@ -799,6 +936,38 @@ const styles = StyleSheet.create({
   dayCard: {
     marginBottom: 16,
   },
+  resumeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 16,
+    marginBottom: 16,
+    gap: 10,
+  },
+  resumeBannerText: {
+    flex: 1,
+    color: '#FFF',
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  startDayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 40,
+    marginTop: 4,
+    paddingVertical: 12,
+    borderRadius: 14,
+    gap: 8,
+  },
+  startDayButtonText: {
+    color: '#FFF',
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
   dayHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -849,6 +1018,11 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     lineHeight: 18,
   },
+  dayDistance: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    marginTop: 2,
+  },
   stopsContainer: {
     paddingTop: 12,
     paddingLeft: 8,
@@ -14,6 +14,8 @@ import {
   TouchableOpacity,
   View,
   Alert,
+  ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import * as Haptics from 'expo-haptics';
@@ -21,8 +23,13 @@ import { useTranslation } from 'react-i18next';
 
 import { Colors } from '@/constants/Colors';
 import { Tour } from '@/types';
-import { useFavoritesStore, useAuthStore, useTourStore, useThemeStore } from '@/stores';
+import { useFavoritesStore, useAuthStore, useTourStore, useThemeStore, useReviewStore, useTripPlannerStore, useFollowStore } from '@/stores';
+import { useToast } from '@/components/ui';
+import { createStopFromTour } from '@/lib/userRouteService';
 import { PaywallSheet } from '@/components/ui';
+import { ReviewCard } from '@/components/cards';
+import { REVIEW_MAX_LENGTH } from '@/lib/reviewService';
+import BookingSheet from './BookingSheet';
 import { prefetchImages } from '@/components/ui/CachedImage';
 
 const { width, height } = Dimensions.get('window');
@@ -51,6 +58,20 @@ export default function TourDetailSheet({
   const { user } = useAuthStore();
   const { isFavorited: checkIsFavorited, toggleFavorite } = useFavoritesStore();
   const { tours } = useTourStore();
+  const { followingTourIds, fetchFollowing, toggleFollowTour } = useFollowStore();
+  const {
+    reviews,
+    userReview,
+    totalCount: reviewTotalCount,
+    hasMore: hasMoreReviews,
+    isLoading: isLoadingReviews,
+    isLoadingMore: isLoadingMoreReviews,
+    isSubmitting: isSubmittingReview,
+    fetchReviews,
+    fetchMoreReviews,
+    submitReview,
+    deleteReview,
+  } = useReviewStore();
 
   const slideAnim = useRef(new Animated.Value(height)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -59,6 +80,13 @@ export default function TourDetailSheet({
   const [isTogglingFavorite, setIsTogglingFavorite] = useState(false);
   const [currentTour, setCurrentTour] = useState<Tour | null>(null);
   const [showPaywall, setShowPaywall] = useState(false);
+  const [showBookingSheet, setShowBookingSheet] = useState(false);
+  const addTripStop = useTripPlannerStore(state => state.addStop);
+  const tripDayIndex = useTripPlannerStore(state => state.draft.activeDayIndex);
+  const toast = useToast();
+  const [isReviewFormOpen, setIsReviewFormOpen] = useState(false);
+  const [reviewRating, setReviewRating] = useState(0);
+  const [reviewComment, setReviewComment] = useState('');
 
   // Update current tour when tour prop changes
   useEffect(() => {
@@ -133,6 +161,22 @@ export default function TourDetailSheet({
     setIsFavorited(favorited);
   };
 
+  // Load reviews whenever a different tour is shown
+  const currentTourId = currentTour?.id;
+  useEffect(() => {
+    if (visible && currentTourId) {
+      setIsReviewFormOpen(false);
+      fetchReviews(currentTourId, user?.id);
+    }
+  }, [visible, currentTourId, user?.id, fetchReviews]);
+
+  // Followed tours feed the community "Following" tab
+  useEffect(() => {
+    if (visible && user) {
+      fetchFollowing(user.id);
+    }
+  }, [visible, user?.id, fetchFollowing]);
+
   // Check if tour is favorited when modal opens
   useEffect(() => {
     if (visible && tour) {
@@ -181,6 +225,93 @@ export default function TourDetailSheet({
     }
   };
 
+  const isFollowingTour = !!currentTour && followingTourIds.includes(currentTour.id);
+
+  const handleToggleFollowTour = async () => {
+    if (!user) {
+      Alert.alert(t('auth.loginRequired'), t('auth.loginRequiredMessage'));
+      return;
+    }
+    if (!currentTour) return;
+
+    const { success, error } = await toggleFollowTour(user.id, currentTour.id);
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('common.error'));
+    }
+  };
+
+  // Open the review form, prefilled when editing
+  const handleOpenReviewForm = () => {
+    if (!user) {
+      Alert.alert(t('auth.loginRequired'), t('auth.loginRequiredMessage'));
+      return;
+    }
+    setReviewRating(userReview?.rating ?? 0);
+    setReviewComment(userReview?.comment ?? '');
+    setIsReviewFormOpen(true);
+  };
+
+  const handleSubmitReview = async () => {
+    if (!user || !currentTour) return;
+    if (reviewRating < 1) {
+      Alert.alert(t('common.error'), t('tour.reviews.ratingRequired'));
+      return;
+    }
+
+    const { success, error } = await submitReview(user.id, currentTour.id, {
+      rating: reviewRating,
+      comment: reviewComment,
+    });
+
+    if (!success) {
+      Alert.alert(t('common.error'), error || t('tour.reviews.submitError'));
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setIsReviewFormOpen(false);
+    Alert.alert(t('tour.reviews.submittedTitle'), t('tour.reviews.submittedMessage'));
+  };
+
+  const handleDeleteReview = () => {
+    if (!userReview) return;
+
+    Alert.alert(t('tour.reviews.deleteTitle'), t('tour.reviews.deleteMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('common.delete'),
+        style: 'destructive',
+        onPress: async () => {
+          const { success, error } = await deleteReview(userReview.id);
+          if (!success) {
+            Alert.alert(t('common.error'), error || t('tour.reviews.deleteError'));
+            return;
+          }
+          setIsReviewFormOpen(false);
+        },
+      },
+    ]);
+  };
+
+  // Open the booking sheet
+  const handleBook = () => {
+    if (!user) {
+      Alert.alert(t('auth.loginRequired'), t('auth.loginRequiredMessage'));
+      return;
+    }
+    setShowBookingSheet(true);
+  };
+
+  // Add the tour to the trip planner draft
+  const handleAddToTrip = () => {
+    if (!currentTour) return;
+    if (addTripStop(createStopFromTour(currentTour))) {
+      toast.success(t('tripPlanner.addedToDay', { day: tripDayIndex }));
+    } else {
+      toast.info(t('tripPlanner.alreadyAdded'));
+    }
+  };
+
   // Handle directions
   const handleGetDirections = () => {
     if (!currentTour) return;
@@ -363,22 +494,39 @@ export default function TourDetailSheet({
             >
               <Ionicons name="chevron-back" size={24} color={isDark ? '#FFF' : '#000'} />
             </TouchableOpacity>
-            <TouchableOpacity 
-              style={[
-                styles.topButton, 
-                { backgroundColor: isDark ? 'rgba(40,40,40,0.95)' : 'rgba(255, 255, 255, 0.95)' },
-                isFavorited && { backgroundColor: 'rgba(255, 107, 107, 0.2)' }
-              ]} 
-              activeOpacity={0.8}
-              onPress={handleToggleFavorite}
-              disabled={isTogglingFavorite}
-            >
-              <Ionicons 
-                name={isFavorited ? "heart" : "heart-outline"} 
-                size={24} 
-                color={isFavorited ? "#FF6B6B" : (isDark ? '#FFF' : '#000')} 
-              />
-            </TouchableOpacity>
+            <View style={styles.topButtonsRight}>
+              <TouchableOpacity
+                style={[
+                  styles.topButton,
+                  { backgroundColor: isDark ? 'rgba(40,40,40,0.95)' : 'rgba(255, 255, 255, 0.95)' },
+                ]}
+                activeOpacity={0.8}
+                onPress={handleToggleFollowTour}
+                accessibilityLabel={t(isFollowingTour ? 'follow.unfollowTour' : 'follow.followTour')}
+              >
+                <Ionicons
+                  name={isFollowingTour ? 'notifications' : 'notifications-outline'}
+                  size={22}
+                  color={isFollowingTour ? colors.primary : (isDark ? '#FFF' : '#000')}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[
+                  styles.topButton, 
+                  { backgroundColor: isDark ? 'rgba(40,40,40,0.95)' : 'rgba(255, 255, 255, 0.95)' },
+                  isFavorited && { backgroundColor: 'rgba(255, 107, 107, 0.2)' }
+                ]} 
+                activeOpacity={0.8}
+                onPress={handleToggleFavorite}
+                disabled={isTogglingFavorite}
+              >
+                <Ionicons 
+                  name={isFavorited ? "heart" : "heart-outline"} 
+                  size={24} 
+                  color={isFavorited ? "#FF6B6B" : (isDark ? '#FFF' : '#000')} 
+                />
+              </TouchableOpacity>
+            </View>
           </View>
         </View>
 
@@ -414,6 +562,19 @@ export default function TourDetailSheet({
                   {currentTour.location}
                 </Text>
               </View>
+              {currentTour.reviewCount > 0 && (
+                <View style={styles.ratingSection}>
+                  <View style={styles.ratingRow}>
+                    <Ionicons name="star" size={18} color="#FFB800" />
+                    <Text style={[styles.ratingScore, { color: colors.text }]}>
+                      {currentTour.rating.toFixed(1)}
+                    </Text>
+                  </View>
+                  <Text style={[styles.reviewCount, { color: colors.textSecondary }]}>
+                    {t('tour.reviews.count', { count: currentTour.reviewCount })}
+                  </Text>
+                </View>
+              )}
             </View>
 
             {/* Highlights - Inline chips */}
@@ -453,6 +614,150 @@ export default function TourDetailSheet({
               </TouchableOpacity>
             </View>
 
+            {/* Reviews */}
+            <View style={styles.reviewsSection}>
+              <View style={styles.reviewsHeader}>
+                <Text style={[styles.sectionTitle, styles.reviewsTitle, { color: colors.text }]}>
+                  {t('tour.reviews.title')}
+                  {reviewTotalCount > 0 ? ` (${reviewTotalCount})` : ''}
+                </Text>
+                {!isReviewFormOpen && (
+                  <TouchableOpacity onPress={handleOpenReviewForm} activeOpacity={0.7}>
+                    <Text style={[styles.reviewAction, { color: colors.primary }]}>
+                      {userReview ? t('tour.reviews.edit') : t('tour.reviews.write')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Own review status */}
+              {userReview && !isReviewFormOpen && userReview.status !== 'approved' && (
+                <View
+                  style={[
+                    styles.reviewStatusBox,
+                    { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+                  ]}
+                >
+                  <Ionicons
+                    name={userReview.status === 'rejected' ? 'close-circle-outline' : 'time-outline'}
+                    size={16}
+                    color={userReview.status === 'rejected' ? '#EF4444' : colors.textSecondary}
+                  />
+                  <Text style={[styles.reviewStatusText, { color: colors.textSecondary }]}>
+                    {userReview.status === 'rejected'
+                      ? t('tour.reviews.rejectedNote', { reason: userReview.rejectionReason || '-' })
+                      : t('tour.reviews.pendingNote')}
+                  </Text>
+                </View>
+              )}
+
+              {/* Write / edit form */}
+              {isReviewFormOpen && (
+                <View
+                  style={[
+                    styles.reviewForm,
+                    { backgroundColor: isDark ? 'rgba(255,255,255,0.06)' : 'rgba(0,0,0,0.04)' },
+                  ]}
+                >
+                  <View style={styles.starPicker}>
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <TouchableOpacity
+                        key={star}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setReviewRating(star);
+                        }}
+                        hitSlop={{ top: 6, bottom: 6, left: 4, right: 4 }}
+                      >
+                        <Ionicons
+                          name={star <= reviewRating ? 'star' : 'star-outline'}
+                          size={30}
+                          color="#FFB800"
+                        />
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput
+                    style={[
+                      styles.reviewInput,
+                      {
+                        color: colors.text,
+                        borderColor: isDark ? 'rgba(255,255,255,0.15)' : 'rgba(0,0,0,0.1)',
+                      },
+                    ]}
+                    value={reviewComment}
+                    onChangeText={setReviewComment}
+                    placeholder={t('tour.reviews.commentPlaceholder')}
+                    placeholderTextColor={colors.textSecondary}
+                    maxLength={REVIEW_MAX_LENGTH}
+                    multiline
+                  />
+                  <Text style={[styles.reviewHint, { color: colors.textSecondary }]}>
+                    {t('tour.reviews.moderationHint')}
+                  </Text>
+                  <View style={styles.reviewFormActions}>
+                    {userReview && (
+                      <TouchableOpacity onPress={handleDeleteReview} style={styles.reviewFormButton}>
+                        <Text style={[styles.reviewAction, { color: '#EF4444' }]}>
+                          {t('common.delete')}
+                        </Text>
+                      </TouchableOpacity>
+                    )}
+                    <View style={styles.reviewFormSpacer} />
+                    <TouchableOpacity
+                      onPress={() => setIsReviewFormOpen(false)}
+                      style={styles.reviewFormButton}
+                    >
+                      <Text style={[styles.reviewAction, { color: colors.textSecondary }]}>
+                        {t('common.cancel')}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      onPress={handleSubmitReview}
+                      disabled={isSubmittingReview}
+                      style={[styles.reviewSubmitButton, { backgroundColor: colors.primary }]}
+                    >
+                      {isSubmittingReview ? (
+                        <ActivityIndicator size="small" color="#FFF" />
+                      ) : (
+                        <Text style={styles.reviewSubmitText}>{t('tour.reviews.submit')}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              {/* Review list */}
+              {isLoadingReviews ? (
+                <ActivityIndicator style={styles.reviewsLoader} color={colors.textSecondary} />
+              ) : reviews.length === 0 ? (
+                <Text style={[styles.reviewsEmpty, { color: colors.textSecondary }]}>
+                  {t('tour.reviews.empty')}
+                </Text>
+              ) : (
+                <>
+                  {reviews.map((review) => (
+                    <ReviewCard key={review.id} review={review} />
+                  ))}
+                  {hasMoreReviews && (
+                    <TouchableOpacity
+                      style={styles.loadMoreReviews}
+                      onPress={fetchMoreReviews}
+                      disabled={isLoadingMoreReviews}
+                    >
+                      {isLoadingMoreReviews ? (
+                        <ActivityIndicator size="small" color={colors.textSecondary} />
+                      ) : (
+                        <Text style={[styles.reviewAction, { color: colors.primary }]}>
+                          {t('tour.reviews.loadMore')}
+                        </Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+            </View>
+
             {/* Upcoming Tours */}
             {relatedTours.length > 0 && (
               <View style={styles.upcomingSection}>
@@ -521,18 +826,47 @@ export default function TourDetailSheet({
               },
             ]}
           >
+            <TouchableOpacity
+              style={[
+                styles.directionsButton,
+                { borderColor: isDark ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.12)' },
+              ]}
+              activeOpacity={0.8}
+              onPress={handleGetDirections}
+              accessibilityLabel={t('tour.getDirections')}
+            >
+              <Ionicons name="navigate" size={20} color={colors.text} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.directionsButton,
+                { borderColor: isDark ? 'rgba(255,255,255,0.2)' : 'rgba(0,0,0,0.12)' },
+              ]}
+              activeOpacity={0.8}
+              onPress={handleAddToTrip}
+              accessibilityLabel={t('tripPlanner.addToTrip')}
+            >
+              <Ionicons name="add-circle-outline" size={22} color={colors.text} />
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.bookButton, { backgroundColor: colors.primary }]}
               activeOpacity={0.9}
-              onPress={handleGetDirections}
+              onPress={handleBook}
             >
-              <Ionicons name="navigate" size={18} color="#FFF" />
-              <Text style={styles.bookButtonText}>{t('tour.getDirections')}</Text>
+              <Ionicons name="calendar" size={18} color="#FFF" />
+              <Text style={styles.bookButtonText}>{t('booking.book')}</Text>
             </TouchableOpacity>
           </View>
         </View>
       </Animated.View>
 
+      {/* Booking Sheet */}
+      <BookingSheet
+        tour={currentTour}
+        visible={showBookingSheet}
+        onClose={() => setShowBookingSheet(false)}
+      />
+
       {/* Paywall Sheet */}
       <PaywallSheet
         visible={showPaywall}
@@ -575,6 +909,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     paddingHorizontal: 20,
   },
+  topButtonsRight: {
+    flexDirection: 'row',
+    gap: 10,
+  },
   topButton: {
     width: 44,
     height: 44,
@@ -630,6 +968,11 @@ const styles = StyleSheet.create({
   ratingSection: {
     alignItems: 'flex-end',
   },
+  ratingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   ratingScore: {
     fontSize: 24,
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
@@ -684,6 +1027,98 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     fontWeight: '500',
   },
+  reviewsSection: {
+    marginBottom: 24,
+  },
+  reviewsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  reviewsTitle: {
+    marginBottom: 0,
+  },
+  reviewAction: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+  },
+  reviewStatusBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+  reviewStatusText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+  },
+  reviewForm: {
+    padding: 16,
+    borderRadius: 16,
+    marginBottom: 8,
+  },
+  starPicker: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reviewInput: {
+    minHeight: 90,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    textAlignVertical: 'top',
+  },
+  reviewHint: {
+    fontSize: 12,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    marginTop: 8,
+  },
+  reviewFormActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  reviewFormSpacer: {
+    flex: 1,
+  },
+  reviewFormButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  reviewSubmitButton: {
+    minWidth: 88,
+    alignItems: 'center',
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+    borderRadius: 20,
+  },
+  reviewSubmitText: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  reviewsLoader: {
+    paddingVertical: 16,
+  },
+  reviewsEmpty: {
+    fontSize: 14,
+    fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
+    paddingVertical: 12,
+  },
+  loadMoreReviews: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
   upcomingSection: {
     marginBottom: 24,
   },
@@ -784,6 +1219,15 @@ const styles = StyleSheet.create({
     fontFamily: Platform.OS === 'ios' ? 'Helvetica Neue' : 'sans-serif',
     marginLeft: 4,
   },
+  directionsButton: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
   bookButton: {
     flex: 1,
     flexDirection: 'row',
@@ -14,3 +14,5 @@ export { default as TermsAcceptanceSheet } from './TermsAcceptanceSheet';
 export { default as CreateMeetingSheet } from './CreateMeetingSheet';
 export { default as MeetingListSheet } from './MeetingListSheet';
 export { default as MeetingInviteSheet } from './MeetingInviteSheet';
+export { default as BookingSheet } from './BookingSheet';
+export { default as ItinerarySheet } from './ItinerarySheet';
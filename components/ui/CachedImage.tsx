@@ -21,7 +21,8 @@ import {
   Animated,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import * as FileSystem from 'expo-file-system';
+import { cacheRemoteImage, isRemoteImageUrl } from '@/lib/imageOptimizer';
+import { getMapPackImageUri } from '@/lib/mapPackService';
 
 interface CachedImageProps extends Omit<ImageProps, 'source'> {
   uri: string;
@@ -52,40 +53,6 @@ const getCacheKey = (uri: string): string => {
   return uri;
 };
 
-const FS_CACHE_DIR: string = ((FileSystem as any).cacheDirectory ?? '') as string;
-const IMAGE_DISK_CACHE_DIR = `${FS_CACHE_DIR}cached-images/`;
-
-const stableHash = (input: string): string => {
-  let hash = 5381;
-  for (let i = 0; i < input.length; i++) {
-    hash = (hash * 33) ^ input.charCodeAt(i);
-  }
-  // convert to unsigned base36
-  return (hash >>> 0).toString(36);
-};
-
-const isRemoteHttpUrl = (value: string): boolean => {
-  const lower = (value || '').toLowerCase();
-  return lower.startsWith('http://') || lower.startsWith('https://');
-};
-
-const getDiskCachePathForUrl = (url: string): string => {
-  const key = stableHash(url);
-  return `${IMAGE_DISK_CACHE_DIR}${key}.img`;
-};
-
-const ensureDiskCacheDir = async (): Promise<void> => {
-  if (!FS_CACHE_DIR) return;
-  try {
-    const info = await FileSystem.getInfoAsync(IMAGE_DISK_CACHE_DIR);
-    if (!info.exists) {
-      await FileSystem.makeDirectoryAsync(IMAGE_DISK_CACHE_DIR, { intermediates: true });
-    }
-  } catch {
-    // ignore
-  }
-};
-
 /**
  * Optimized Image component with caching and loading states
  */
@@ -146,27 +113,14 @@ const CachedImage = memo<CachedImageProps>(({
     let cancelled = false;
 
     const resolve = async () => {
-      if (!uri || !isRemoteHttpUrl(uri) || !FS_CACHE_DIR) {
+      if (!uri || !isRemoteImageUrl(uri)) {
         return;
       }
 
-      await ensureDiskCacheDir();
-      const path = getDiskCachePathForUrl(uri);
-
-      try {
-        const info = await FileSystem.getInfoAsync(path);
-        if (cancelled) return;
-
-        if (info.exists) {
-          setResolvedUri(info.uri);
-          return;
-        }
-
-        const download = await FileSystem.downloadAsync(uri, path);
-        if (cancelled) return;
-        setResolvedUri(download.uri);
-      } catch {
-        // ignore and fall back to remote
+      // Images saved with an offline map pack come first
+      const cachedUri = (await getMapPackImageUri(uri)) ?? (await cacheRemoteImage(uri));
+      if (!cancelled && cachedUri) {
+        setResolvedUri(cachedUri);
       }
     };
 
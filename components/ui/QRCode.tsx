@@ -0,0 +1,94 @@
+/**
+ * QRCode Component
+ *
+ * Draws a QR code generated on device. Dark modules are merged into
+ * horizontal runs so each row needs only a handful of views.
+ */
+
+import React, { memo, useMemo } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { encodeQR, QRErrorCorrectionLevel } from '@/lib/qrCode';
+
+interface QRCodeProps {
+  value: string;
+  /** Outer width/height in points, including the quiet zone */
+  size?: number;
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+  /** Quiet zone in modules */
+  margin?: number;
+  color?: string;
+  backgroundColor?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+interface ModuleRun {
+  x: number;
+  y: number;
+  length: number;
+}
+
+export const QRCode = memo<QRCodeProps>(({
+  value,
+  size = 200,
+  errorCorrectionLevel = 'M',
+  margin = 2,
+  color = '#000000',
+  backgroundColor = '#FFFFFF',
+  style,
+}) => {
+  const qr = useMemo(
+    () => (value ? encodeQR(value, { errorCorrectionLevel }) : null),
+    [value, errorCorrectionLevel]
+  );
+
+  const runs = useMemo(() => {
+    if (!qr) return [];
+    const result: ModuleRun[] = [];
+    qr.modules.forEach((row, y) => {
+      let start = -1;
+      row.forEach((dark, x) => {
+        if (dark && start < 0) start = x;
+        if ((!dark || x === row.length - 1) && start >= 0) {
+          result.push({ x: start, y, length: (dark ? x + 1 : x) - start });
+          start = -1;
+        }
+      });
+    });
+    return result;
+  }, [qr]);
+
+  if (!qr) return null;
+
+  // Whole-point modules keep edges crisp; leftover space becomes padding
+  const moduleSize = Math.max(1, Math.floor(size / (qr.size + margin * 2)));
+  const offset = (size - moduleSize * qr.size) / 2;
+
+  return (
+    <View
+      style={[styles.container, { width: size, height: size, backgroundColor }, style]}
+      accessibilityRole="image"
+    >
+      {runs.map(run => (
+        <View
+          key={`${run.y}-${run.x}`}
+          style={{
+            position: 'absolute',
+            left: offset + run.x * moduleSize,
+            top: offset + run.y * moduleSize,
+            width: run.length * moduleSize,
+            height: moduleSize,
+            backgroundColor: color,
+          }}
+        />
+      ))}
+    </View>
+  );
+});
+
+QRCode.displayName = 'QRCode';
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+});
@@ -36,3 +36,5 @@ export { LocationPermissionModal } from './LocationPermissionModal';
 export { PaywallSheet } from './PaywallSheet';
 
 export { default as ReelsProgressBar } from './ReelsProgressBar';
+
+export { QRCode } from './QRCode';
@@ -6,6 +6,7 @@
  * - Current location tracking
  * - Address reverse geocoding
  * - Permission denied modal support
+ * - Optional continuous position watching
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
@@ -34,6 +35,10 @@ export interface UseLocationOptions {
   enableGeocoding?: boolean;
   /** Default address when location unavailable */
   defaultAddress?: string;
+  /** Keep receiving position updates after the first fix */
+  watchPosition?: boolean;
+  /** Minimum movement in meters between watch updates */
+  distanceInterval?: number;
   /** Translations for alerts */
   translations?: {
     permissionDeniedTitle?: string;
@@ -79,6 +84,8 @@ export function useLocation(options: UseLocationOptions = {}) {
     autoRequest = true,
     enableGeocoding = true,
     defaultAddress,
+    watchPosition = false,
+    distanceInterval = 10,
     translations: customTranslations,
   } = options;
 
@@ -331,6 +338,43 @@ export function useLocation(options: UseLocationOptions = {}) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty deps - only run once on mount
 
+  // Continuous tracking once permission is granted
+  useEffect(() => {
+    if (!watchPosition || state.permissionStatus !== 'granted') return;
+
+    let subscription: Location.LocationSubscription | null = null;
+    let cancelled = false;
+
+    Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        distanceInterval,
+        timeInterval: 5000,
+      },
+      (newLocation) => {
+        if (!isMounted.current) return;
+        setState(prev => ({ ...prev, location: newLocation, isLoading: false }));
+        if (globalLocationCache) {
+          globalLocationCache.location = newLocation;
+          globalLocationCache.timestamp = Date.now();
+        }
+      }
+    )
+      .then(sub => {
+        if (cancelled) {
+          sub.remove();
+        } else {
+          subscription = sub;
+        }
+      })
+      .catch(error => logger.warn('[Location] Watch failed:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.remove();
+    };
+  }, [watchPosition, distanceInterval, state.permissionStatus]);
+
   return {
     ...state,
     requestLocation,
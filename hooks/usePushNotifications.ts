@@ -1,11 +1,14 @@
 import { useEffect, useRef, useState } from 'react';
-import { Platform } from 'react-native';
+import { AppState, Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import * as Location from 'expo-location';
 import { router } from 'expo-router';
 
+import { getCurrentLanguage } from '@/lib/i18n';
 import {
   registerForPushNotifications,
   savePushToken,
+  updateDeviceActivity,
   addNotificationReceivedListener,
   addNotificationResponseListener,
   removeNotificationListener,
@@ -13,6 +16,27 @@ import {
 import { useAuthStore } from '@/stores';
 import { useUIStore } from '@/stores/uiStore';
 
+/**
+ * Report locale, activity and last known location (only if permission
+ * was already granted) for audience segments
+ */
+async function reportDeviceActivity(userId: string, token: string) {
+  let coords: { latitude?: number; longitude?: number } = {};
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status === 'granted') {
+      const position = await Location.getLastKnownPositionAsync();
+      if (position) {
+        coords = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+      }
+    }
+  } catch {
+    // Location is optional for targeting
+  }
+
+  await updateDeviceActivity(userId, token, { locale: getCurrentLanguage(), ...coords });
+}
+
 /**
  * Hook to manage push notification registration and handling
  */
@@ -44,6 +68,7 @@ export function usePushNotifications() {
         
         if (success) {
           console.log('Push notification registered successfully');
+          reportDeviceActivity(user.id, token);
         }
       }
     };
@@ -51,6 +76,19 @@ export function usePushNotifications() {
     register();
   }, [user?.id]);
 
+  // Refresh last activity whenever the app comes to the foreground
+  useEffect(() => {
+    if (!user?.id || !expoPushToken) return;
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        reportDeviceActivity(user.id, expoPushToken);
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user?.id, expoPushToken]);
+
   // Set up notification listeners
   useEffect(() => {
     try {
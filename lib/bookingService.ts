@@ -0,0 +1,262 @@
+/**
+ * Booking Service
+ * Handles tour reservations on the bookings table
+ *
+ * Status flow: pending -> confirmed -> completed, with cancellation allowed
+ * from pending or confirmed. The same rules are enforced server-side by the
+ * enforce_booking_rules trigger.
+ */
+
+import { supabase } from './supabase';
+import { stripHtml } from './validation';
+import { Booking, BookingData, BookingStatus, bookingDataToBooking } from '@/types';
+
+export const MAX_BOOKING_GUESTS = 20;
+export const BOOKING_CANCELLATION_HOURS = 24;
+export const BOOKING_NOTES_MAX_LENGTH = 500;
+
+export interface BookingInput {
+  bookingDate: string; // YYYY-MM-DD
+  numberOfGuests: number;
+  notes?: string;
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export const toBookingDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Earliest date a tour can be booked for (tomorrow)
+ */
+export const getEarliestBookingDate = (now: Date = new Date()): Date => {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  date.setDate(date.getDate() + 1);
+  return date;
+};
+
+/**
+ * Whether the user can still cancel a booking.
+ * Cancellation closes BOOKING_CANCELLATION_HOURS before the tour day starts (UTC,
+ * matching the server check).
+ */
+export const canCancelBooking = (
+  booking: Pick<Booking, 'status' | 'bookingDate'>,
+  now: Date = new Date()
+): boolean => {
+  if (booking.status !== 'pending' && booking.status !== 'confirmed') return false;
+
+  const tourDayStart = new Date(`${booking.bookingDate}T00:00:00Z`).getTime();
+  if (Number.isNaN(tourDayStart)) return false;
+
+  return now.getTime() <= tourDayStart - BOOKING_CANCELLATION_HOURS * 60 * 60 * 1000;
+};
+
+/**
+ * Map trigger/constraint errors to user-facing messages
+ */
+const mapBookingError = (error: { code?: string; message: string }): string => {
+  if (error.code === '23505') return 'Bu tur için bu tarihte zaten bir rezervasyonunuz var';
+  if (error.message.includes('24 hours')) {
+    return `Rezervasyonlar tur gününden en az ${BOOKING_CANCELLATION_HOURS} saat önce iptal edilebilir`;
+  }
+  if (error.message.includes('in the future')) return 'Rezervasyon tarihi ileri bir tarih olmalıdır';
+  if (error.message.includes('Invalid booking status')) return 'Bu rezervasyonun durumu değiştirilemez';
+  return error.message;
+};
+
+/**
+ * Enrich booking rows with tour summaries and (optionally) user profiles
+ */
+async function enrichBookings(rows: any[], includeUsers = false): Promise<BookingData[]> {
+  if (!rows || rows.length === 0) return [];
+
+  const tourIds = [...new Set(rows.map(r => r.tour_id))];
+  const toursMap: Record<string, any> = {};
+  const profilesMap: Record<string, any> = {};
+
+  const { data: toursData } = await supabase
+    .from('tours')
+    .select('id, title, image, location')
+    .in('id', tourIds);
+  toursData?.forEach(t => { toursMap[t.id] = t; });
+
+  if (includeUsers) {
+    const userIds = [...new Set(rows.map(r => r.user_id))];
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('id, full_name, avatar_url')
+      .in('id', userIds);
+    profilesData?.forEach(p => { profilesMap[p.id] = p; });
+  }
+
+  return rows.map(row => ({
+    ...row,
+    tours: toursMap[row.tour_id] || null,
+    profiles: includeUsers ? profilesMap[row.user_id] || null : null,
+  }));
+}
+
+/**
+ * Create a booking. New bookings start as pending until an admin confirms.
+ */
+export const createBooking = async (
+  userId: string,
+  tourId: string,
+  input: BookingInput
+): Promise<{ data: Booking | null; error: string | null }> => {
+  const guests = Math.round(input.numberOfGuests);
+  if (!Number.isFinite(guests) || guests < 1 || guests > MAX_BOOKING_GUESTS) {
+    return { data: null, error: `Kişi sayısı 1 ile ${MAX_BOOKING_GUESTS} arasında olmalıdır` };
+  }
+
+  if (input.bookingDate < toBookingDateString(getEarliestBookingDate())) {
+    return { data: null, error: 'Rezervasyon tarihi ileri bir tarih olmalıdır' };
+  }
+
+  const notes = stripHtml(input.notes || '').trim().slice(0, BOOKING_NOTES_MAX_LENGTH);
+
+  try {
+    const { data, error } = await supabase
+      .from('bookings')
+      .insert({
+        user_id: userId,
+        tour_id: tourId,
+        booking_date: input.bookingDate,
+        number_of_guests: guests,
+        total_price: 0,
+        status: 'pending',
+        notes: notes || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      return { data: null, error: mapBookingError(error) };
+    }
+
+    const [enriched] = await enrichBookings([data]);
+    return { data: bookingDataToBooking(enriched), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Get the user's bookings, upcoming first
+ */
+export const getUserBookings = async (
+  userId: string
+): Promise<{ data: Booking[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('bookings')
+      .select('*')
+      .eq('user_id', userId)
+      .order('booking_date', { ascending: false });
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    const enriched = await enrichBookings(data || []);
+    return { data: enriched.map(bookingDataToBooking), error: null };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Cancel a booking (own booking within the cancellation window, or any as admin)
+ */
+export const cancelBooking = async (
+  bookingId: string,
+  reason?: string
+): Promise<{ data: Booking | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('bookings')
+      .update({
+        status: 'cancelled',
+        cancellation_reason: stripHtml(reason || '').trim() || null,
+      })
+      .eq('id', bookingId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: mapBookingError(error) };
+    }
+
+    if (!data) {
+      return { data: null, error: 'Rezervasyon bulunamadı' };
+    }
+
+    const [enriched] = await enrichBookings([data]);
+    return { data: bookingDataToBooking(enriched), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+// =============================================
+// ADMIN
+// =============================================
+
+/**
+ * Get bookings for the admin panel
+ */
+export const getBookingsForAdmin = async (
+  status: BookingStatus | 'all' = 'all'
+): Promise<{ data: Booking[]; error: string | null }> => {
+  try {
+    let query = supabase
+      .from('bookings')
+      .select('*')
+      .order('booking_date', { ascending: true })
+      .limit(200);
+
+    if (status !== 'all') {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    const enriched = await enrichBookings(data || [], true);
+    return { data: enriched.map(bookingDataToBooking), error: null };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Move a booking to confirmed or completed (admin)
+ */
+export const updateBookingStatus = async (
+  bookingId: string,
+  status: Extract<BookingStatus, 'confirmed' | 'completed'>
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ status })
+      .eq('id', bookingId);
+
+    if (error) {
+      return { success: false, error: mapBookingError(error) };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
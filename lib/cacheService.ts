@@ -4,13 +4,19 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 // @ts-ignore - expo-file-system types may not be up to date
 import { cacheDirectory, documentDirectory, getInfoAsync, deleteAsync, makeDirectoryAsync, readDirectoryAsync } from 'expo-file-system';
+import { Directory, Paths } from 'expo-file-system/next';
 import { Image } from 'react-native';
+import { getMapPacksSize } from './mapPackService';
 
 // Keys that should NOT be cleared (user preferences, etc.)
 const PROTECTED_KEYS = [
   'theme-storage', // Theme preference
   'onboarding-storage', // Onboarding completion status
   'language', // Language preference
+  'offline-outbox', // Queued offline mutations not yet synced
+  'map-packs', // Downloaded offline map packs (files live outside the cache)
+  'itinerary-progress', // Resumable route day progress
+  'trip-planner-draft', // Unsaved trip plan
 ];
 
 /**
@@ -104,24 +110,26 @@ export async function clearTempFiles(): Promise<{ cleared: boolean; error?: stri
   }
 }
 
+const toMB = (bytes: number): number => Math.round((bytes / 1024 / 1024) * 10) / 10;
+
 /**
- * Get cache size estimate
+ * Get storage used by the app cache and downloaded offline map packs
  */
-export async function getCacheSize(): Promise<{ sizeInMB: number; error?: string }> {
+export async function getCacheSize(): Promise<{ sizeInMB: number; mapPacksInMB: number; error?: string }> {
   try {
-    const cacheDirPath = cacheDirectory;
-    if (!cacheDirPath) {
-      return { sizeInMB: 0 };
-    }
+    const cacheDir = new Directory(Paths.cache);
+    const cacheBytes = cacheDir.exists ? cacheDir.size ?? 0 : 0;
+    // Packs live outside the cache directory
+    const mapPacksBytes = await getMapPacksSize();
+    const totalBytes = cacheBytes + mapPacksBytes;
 
-    const cacheInfo = await getInfoAsync(cacheDirPath);
-    // Note: size property may not be available on all platforms
-    const sizeInMB = cacheInfo.exists ? 0 : 0; // Size estimation not reliable
-    
-    return { sizeInMB };
+    return {
+      sizeInMB: toMB(totalBytes),
+      mapPacksInMB: toMB(mapPacksBytes),
+    };
   } catch (error: any) {
     console.error('[CacheService] Get cache size error:', error);
-    return { sizeInMB: 0, error: error.message };
+    return { sizeInMB: 0, mapPacksInMB: 0, error: error.message };
   }
 }
 
@@ -0,0 +1,92 @@
+/**
+ * Comment Mentions
+ * Finds the `@name` being typed in a comment, inserts the picked
+ * profile and splits saved comments into plain and mention segments.
+ */
+
+import type { CommentMention } from '@/types';
+
+export const MAX_MENTIONS = 10;
+const MAX_QUERY_LENGTH = 30;
+
+export interface MentionSegment {
+  text: string;
+  userId?: string;
+}
+
+/**
+ * Text typed after an `@` right before the cursor, or null when the
+ * cursor is not inside a mention
+ */
+export const getMentionQuery = (text: string, cursor: number = text.length): string | null => {
+  const before = text.slice(0, cursor);
+  const at = before.lastIndexOf('@');
+  if (at < 0 || (at > 0 && !/\s/.test(before[at - 1]))) return null;
+
+  const query = before.slice(at + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query) || /\s{2}/.test(query)) return null;
+
+  return query;
+};
+
+/**
+ * Replaces the mention being typed with the picked name
+ */
+export const insertMention = (
+  text: string,
+  cursor: number,
+  fullName: string
+): { text: string; cursor: number } => {
+  const at = text.slice(0, cursor).lastIndexOf('@');
+  if (at < 0) return { text, cursor };
+
+  const mention = `@${fullName} `;
+  const after = text.slice(cursor).replace(/^\S*\s?/, '');
+  return { text: text.slice(0, at) + mention + after, cursor: at + mention.length };
+};
+
+/**
+ * Picked mentions that are still present in the final text
+ */
+export const resolveMentions = (text: string, mentions: CommentMention[]): CommentMention[] => {
+  const seen = new Set<string>();
+  return mentions
+    .filter(mention => {
+      if (seen.has(mention.id) || !text.includes(`@${mention.fullName}`)) return false;
+      seen.add(mention.id);
+      return true;
+    })
+    .slice(0, MAX_MENTIONS);
+};
+
+/**
+ * Splits a comment so mentioned names can be highlighted
+ */
+export const splitMentions = (content: string, mentions: CommentMention[]): MentionSegment[] => {
+  if (!mentions.length) return [{ text: content }];
+
+  // Longest names first so "@Ali Can" wins over "@Ali"
+  const sorted = [...mentions].sort((a, b) => b.fullName.length - a.fullName.length);
+  const segments: MentionSegment[] = [];
+  let rest = content;
+
+  while (rest) {
+    let best: { index: number; mention: CommentMention } | null = null;
+    for (const mention of sorted) {
+      const index = rest.indexOf(`@${mention.fullName}`);
+      if (index >= 0 && (!best || index < best.index)) best = { index, mention };
+    }
+
+    if (!best) {
+      segments.push({ text: rest });
+      break;
+    }
+
+    if (best.index > 0) segments.push({ text: rest.slice(0, best.index) });
+    const length = best.mention.fullName.length + 1;
+    segments.push({ text: rest.slice(best.index, best.index + length), userId: best.mention.id });
+    rest = rest.slice(best.index + length);
+  }
+
+  return segments;
+};
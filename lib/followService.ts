@@ -0,0 +1,110 @@
+/**
+ * Follow Service
+ * Handles following users and tours, and public profile details
+ *
+ * Follower counts on profiles are maintained server-side by the
+ * update_follow_counts trigger; blocking a user removes follows.
+ */
+
+import { supabase } from './supabase';
+import { PublicProfile, PublicProfileData, publicProfileDataToProfile } from '@/types';
+
+const PUBLIC_PROFILE_COLUMNS = 'id, full_name, avatar_url, member_class, followers_count, following_count, created_at';
+
+/**
+ * Get the user and tour ids a user follows
+ */
+export const getFollowing = async (
+  userId: string
+): Promise<{ userIds: string[]; tourIds: string[]; error: string | null }> => {
+  try {
+    const [users, tours] = await Promise.all([
+      supabase.from('user_follows').select('followee_id').eq('follower_id', userId),
+      supabase.from('tour_follows').select('tour_id').eq('user_id', userId),
+    ]);
+
+    if (users.error || tours.error) {
+      return { userIds: [], tourIds: [], error: (users.error || tours.error)!.message };
+    }
+
+    return {
+      userIds: (users.data || []).map(row => row.followee_id),
+      tourIds: (tours.data || []).map(row => row.tour_id),
+      error: null,
+    };
+  } catch (err: any) {
+    return { userIds: [], tourIds: [], error: err.message };
+  }
+};
+
+/**
+ * Follow or unfollow a user
+ */
+export const setUserFollow = async (
+  followerId: string,
+  followeeId: string,
+  follow: boolean
+): Promise<{ success: boolean; error: string | null }> => {
+  if (followerId === followeeId) {
+    return { success: false, error: 'Kendinizi takip edemezsiniz' };
+  }
+
+  try {
+    const { error } = follow
+      ? await supabase.from('user_follows').insert({ follower_id: followerId, followee_id: followeeId })
+      : await supabase.from('user_follows').delete().eq('follower_id', followerId).eq('followee_id', followeeId);
+
+    // Already following
+    if (error && error.code !== '23505') {
+      return { success: false, error: error.message };
+    }
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Follow or unfollow a tour
+ */
+export const setTourFollow = async (
+  userId: string,
+  tourId: string,
+  follow: boolean
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = follow
+      ? await supabase.from('tour_follows').insert({ user_id: userId, tour_id: tourId })
+      : await supabase.from('tour_follows').delete().eq('user_id', userId).eq('tour_id', tourId);
+
+    if (error && error.code !== '23505') {
+      return { success: false, error: error.message };
+    }
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Get the public profile of a user
+ */
+export const getPublicProfile = async (
+  userId: string
+): Promise<{ data: PublicProfile | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select(PUBLIC_PROFILE_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data: data ? publicProfileDataToProfile(data as PublicProfileData) : null, error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
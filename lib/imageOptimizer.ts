@@ -12,7 +12,7 @@
  */
 
 import * as ImageManipulator from 'expo-image-manipulator';
-import { File } from 'expo-file-system/next';
+import { Directory, File, Paths } from 'expo-file-system/next';
 
 // Optimization presets for different use cases
 export const ImagePresets = {
@@ -320,6 +320,13 @@ export const optimizeCommunityImage = async (uri: string): Promise<OptimizationR
   return optimizeImageAggressive(uri, 'community', 250); // Target 250KB for community
 };
 
+/**
+ * Quick optimization for scan history thumbnails
+ */
+export const optimizeScanThumbnail = async (uri: string): Promise<OptimizationResult | null> => {
+  return optimizeImageAggressive(uri, 'thumbnail', 40); // Target 40KB for scan thumbnails
+};
+
 /**
  * Quick optimization for tour images
  */
@@ -367,3 +374,78 @@ export const getImageInfo = async (uri: string): Promise<{
     return null;
   }
 };
+
+// ===== Remote image disk cache (shared with CachedImage) =====
+
+const IMAGE_CACHE_DIR_NAME = 'cached-images';
+
+const stableHash = (input: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash * 33) ^ input.charCodeAt(i);
+  }
+  // convert to unsigned base36
+  return (hash >>> 0).toString(36);
+};
+
+// File name for a remote image, shared by the cache and offline packs
+export const getImageFileName = (url: string): string => `${stableHash(url)}.img`;
+
+const getCachedImageFile = (url: string): File =>
+  new File(Paths.cache, IMAGE_CACHE_DIR_NAME, getImageFileName(url));
+
+export const isRemoteImageUrl = (value: string): boolean => {
+  const lower = (value || '').toLowerCase();
+  return lower.startsWith('http://') || lower.startsWith('https://');
+};
+
+/**
+ * Download a remote image into the disk cache and return its file:// URI.
+ * With `optimize`, large images are recompressed with the route stop preset.
+ * With `directory`, the image is stored there instead of the cache, for
+ * files that must survive the OS or the user clearing it.
+ */
+export const cacheRemoteImage = async (
+  url: string,
+  options: { optimize?: boolean; directory?: Directory } = {}
+): Promise<string | null> => {
+  if (!isRemoteImageUrl(url)) return null;
+
+  try {
+    const file = options.directory
+      ? new File(options.directory, getImageFileName(url))
+      : getCachedImageFile(url);
+    if (file.exists) return file.uri;
+
+    const dir = options.directory ?? new Directory(Paths.cache, IMAGE_CACHE_DIR_NAME);
+    if (!dir.exists) {
+      dir.create({ intermediates: true, idempotent: true });
+    }
+
+    await File.downloadFileAsync(url, file, { idempotent: true });
+
+    if (options.optimize && (await shouldOptimize(file.uri, 250))) {
+      const optimized = await optimizeRouteStopImage(file.uri);
+      if (optimized) {
+        file.delete();
+        new File(optimized.uri).move(file);
+      }
+    }
+
+    return file.uri;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Remove an image from the disk cache
+ */
+export const removeCachedImage = (url: string): void => {
+  try {
+    const file = getCachedImageFile(url);
+    if (file.exists) file.delete();
+  } catch {
+    // ignore
+  }
+};
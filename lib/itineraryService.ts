@@ -0,0 +1,100 @@
+/**
+ * Itinerary Service
+ * Helpers for following a route day stop by stop ("Start day" mode)
+ */
+
+import { RouteDay, RouteStop } from '@/types';
+import { GeoPoint, estimateTravelMinutes, getDistanceKm, hasCoordinates } from './routeService';
+
+// Auto check-in when the user is this close to a stop
+export const GEOFENCE_RADIUS_METERS = 100;
+
+export interface RouteProgress {
+  routeId: string;
+  activeDayIndex: number | null;
+  checkIns: Record<string, string>; // stopId -> ISO timestamp
+  skippedStopIds: string[];
+  completedDays: number[];
+  updatedAt: string;
+}
+
+export interface NextStopInfo {
+  stop: RouteStop;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  mode: 'walk' | 'drive' | null;
+}
+
+export const createRouteProgress = (routeId: string): RouteProgress => ({
+  routeId,
+  activeDayIndex: null,
+  checkIns: {},
+  skippedStopIds: [],
+  completedDays: [],
+  updatedAt: new Date().toISOString(),
+});
+
+const isVisited = (progress: RouteProgress | undefined, stopId: string): boolean =>
+  !!progress && (!!progress.checkIns[stopId] || progress.skippedStopIds.includes(stopId));
+
+const sortStops = (day: RouteDay): RouteStop[] => [...day.stops].sort((a, b) => a.order - b.order);
+
+/**
+ * First stop of the day (in order) not yet checked in or skipped
+ */
+export const getNextStop = (day: RouteDay, progress?: RouteProgress): RouteStop | null =>
+  sortStops(day).find(stop => !isVisited(progress, stop.id)) ?? null;
+
+/**
+ * Next stop with distance and ETA from the user's position
+ */
+export const getNextStopInfo = (
+  day: RouteDay,
+  progress: RouteProgress | undefined,
+  position: GeoPoint | null
+): NextStopInfo | null => {
+  const stop = getNextStop(day, progress);
+  if (!stop) return null;
+
+  if (!position || !hasCoordinates(stop)) {
+    return { stop, distanceKm: null, etaMinutes: null, mode: null };
+  }
+
+  const distanceKm = getDistanceKm(position, stop);
+  const { minutes, mode } = estimateTravelMinutes(distanceKm);
+  return { stop, distanceKm, etaMinutes: minutes, mode };
+};
+
+/**
+ * Closest unvisited stop inside the geofence radius, if any
+ */
+export const findStopInGeofence = (
+  day: RouteDay,
+  progress: RouteProgress | undefined,
+  position: GeoPoint,
+  radiusMeters: number = GEOFENCE_RADIUS_METERS
+): RouteStop | null => {
+  let closest: { stop: RouteStop; meters: number } | null = null;
+
+  for (const stop of day.stops) {
+    if (isVisited(progress, stop.id) || !hasCoordinates(stop)) continue;
+    const meters = getDistanceKm(position, stop) * 1000;
+    if (meters <= radiusMeters && (!closest || meters < closest.meters)) {
+      closest = { stop, meters };
+    }
+  }
+
+  return closest?.stop ?? null;
+};
+
+/**
+ * Number of stops checked in or skipped for a day
+ */
+export const getDayProgressCount = (day: RouteDay, progress?: RouteProgress): number =>
+  day.stops.filter(stop => isVisited(progress, stop.id)).length;
+
+/**
+ * "850 m" / "12.4 km"
+ */
+export const formatDistance = (distanceKm: number): string =>
+  distanceKm < 1 ? `${Math.round(distanceKm * 1000)} m` : `${distanceKm.toFixed(1)} km`;
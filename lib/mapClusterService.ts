@@ -0,0 +1,158 @@
+/**
+ * Map Cluster Service
+ * Viewport helpers and grid-based marker clustering for the Explore map
+ */
+
+import { Tour } from '@/types';
+import type { MapBounds } from './mapPackService';
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface TourCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  tours: Tour[];
+  bounds: MapBounds;
+}
+
+export type MapMarkerItem =
+  | { type: 'tour'; tour: Tour }
+  | { type: 'cluster'; cluster: TourCluster };
+
+// Grid cells per visible latitude span; higher = smaller clusters
+const CLUSTER_GRID_DIVISIONS = 8;
+
+// Below this latitudeDelta (~1.5 km) every tour gets its own marker
+export const CLUSTER_MIN_DELTA = 0.015;
+
+// Viewport is fetched with this much extra margin (fraction of the span)
+// so small pans stay inside the already loaded box
+const VIEWPORT_PADDING = 0.5;
+
+/**
+ * Bounding box of a map region, optionally grown by a fraction of its span
+ */
+export const regionToBounds = (region: MapRegion, padding: number = 0): MapBounds => {
+  const latHalf = (region.latitudeDelta / 2) * (1 + padding);
+  const lngHalf = (region.longitudeDelta / 2) * (1 + padding);
+
+  return {
+    minLat: Math.max(region.latitude - latHalf, -90),
+    maxLat: Math.min(region.latitude + latHalf, 90),
+    minLng: Math.max(region.longitude - lngHalf, -180),
+    maxLng: Math.min(region.longitude + lngHalf, 180),
+  };
+};
+
+/**
+ * Padded bounds to request from the server for a region
+ */
+export const getFetchBounds = (region: MapRegion): MapBounds =>
+  regionToBounds(region, VIEWPORT_PADDING);
+
+/**
+ * True when `inner` lies completely inside `outer`
+ */
+export const isBoundsInside = (inner: MapBounds, outer: MapBounds): boolean =>
+  inner.minLat >= outer.minLat &&
+  inner.maxLat <= outer.maxLat &&
+  inner.minLng >= outer.minLng &&
+  inner.maxLng <= outer.maxLng;
+
+const hasCoordinates = (tour: Tour): tour is Tour & { latitude: number; longitude: number } =>
+  typeof tour.latitude === 'number' && typeof tour.longitude === 'number';
+
+/**
+ * Tours whose coordinates fall inside the bounds
+ */
+export const filterToursInBounds = (tours: Tour[], bounds: MapBounds): Tour[] =>
+  tours.filter(
+    tour =>
+      hasCoordinates(tour) &&
+      tour.latitude >= bounds.minLat &&
+      tour.latitude <= bounds.maxLat &&
+      tour.longitude >= bounds.minLng &&
+      tour.longitude <= bounds.maxLng
+  );
+
+/**
+ * Group tours into grid cells sized relative to the visible region.
+ * Cells are anchored to absolute coordinates so clusters don't jump
+ * while panning. Single-tour cells and close zoom levels yield plain
+ * tour markers.
+ */
+export const clusterTours = (tours: Tour[], region: MapRegion): MapMarkerItem[] => {
+  const located = tours.filter(hasCoordinates);
+
+  if (region.latitudeDelta <= CLUSTER_MIN_DELTA) {
+    return located.map(tour => ({ type: 'tour', tour }));
+  }
+
+  const latSize = region.latitudeDelta / CLUSTER_GRID_DIVISIONS;
+  const lngSize = region.longitudeDelta / CLUSTER_GRID_DIVISIONS;
+  const cells = new Map<string, typeof located>();
+
+  for (const tour of located) {
+    const key = `${Math.floor(tour.latitude / latSize)}:${Math.floor(tour.longitude / lngSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(tour);
+    } else {
+      cells.set(key, [tour]);
+    }
+  }
+
+  const items: MapMarkerItem[] = [];
+
+  cells.forEach((cellTours, key) => {
+    if (cellTours.length === 1) {
+      items.push({ type: 'tour', tour: cellTours[0] });
+      return;
+    }
+
+    const bounds: MapBounds = {
+      minLat: Math.min(...cellTours.map(t => t.latitude)),
+      maxLat: Math.max(...cellTours.map(t => t.latitude)),
+      minLng: Math.min(...cellTours.map(t => t.longitude)),
+      maxLng: Math.max(...cellTours.map(t => t.longitude)),
+    };
+
+    items.push({
+      type: 'cluster',
+      cluster: {
+        id: `cluster-${key}`,
+        latitude: cellTours.reduce((sum, t) => sum + t.latitude, 0) / cellTours.length,
+        longitude: cellTours.reduce((sum, t) => sum + t.longitude, 0) / cellTours.length,
+        count: cellTours.length,
+        tours: cellTours,
+        bounds,
+      },
+    });
+  });
+
+  return items;
+};
+
+/**
+ * Region that zooms into a cluster: fits its tours, and always at least
+ * halves the current span so repeated taps keep splitting it
+ */
+export const getClusterRegion = (cluster: TourCluster, current: MapRegion): MapRegion => {
+  const latSpan = (cluster.bounds.maxLat - cluster.bounds.minLat) * 1.6;
+  const lngSpan = (cluster.bounds.maxLng - cluster.bounds.minLng) * 1.6;
+  const delta = Math.max(Math.min(Math.max(latSpan, lngSpan), current.latitudeDelta / 2), 0.005);
+
+  return {
+    latitude: (cluster.bounds.minLat + cluster.bounds.maxLat) / 2,
+    longitude: (cluster.bounds.minLng + cluster.bounds.maxLng) / 2,
+    latitudeDelta: delta,
+    longitudeDelta: delta,
+  };
+};
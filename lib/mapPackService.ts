@@ -0,0 +1,357 @@
+/**
+ * Map Pack Service
+ * Downloads map tiles and stop images for a thematic route so the
+ * itinerary stays usable without connectivity
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths } from 'expo-file-system/next';
+import { ThematicRoute } from '@/types';
+import { cacheRemoteImage, getImageFileName, isRemoteImageUrl } from './imageOptimizer';
+
+// AsyncStorage key for the downloaded pack index (kept when clearing cache)
+export const MAP_PACKS_STORAGE_KEY = 'map-packs';
+
+// Raster tile source for packs; {z}/{x}/{y} are replaced per tile. It must
+// be a provider whose terms allow bulk offline download (the public
+// tile.openstreetmap.org servers don't). Packs are disabled when unset.
+export const MAP_TILE_URL_TEMPLATE = process.env.EXPO_PUBLIC_OFFLINE_TILE_URL_TEMPLATE ?? '';
+
+export const MAP_PACK_MIN_ZOOM = 9;
+export const MAP_PACK_MAX_ZOOM = 15;
+
+// Upper bound on tiles per pack; max zoom is lowered until the pack fits
+export const MAP_PACK_MAX_TILES = 1500;
+
+// Padding around the outermost stops, in degrees (~2 km)
+const BOUNDS_PADDING = 0.02;
+
+// Average raster tile size, used for download size estimates
+const AVERAGE_TILE_BYTES = 15 * 1024;
+
+const MAP_PACKS_DIR_NAME = 'map-packs';
+const PACK_IMAGES_DIR_NAME = 'images';
+
+export interface MapBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface MapTile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface MapPack {
+  routeId: string;
+  routeTitle: string;
+  bounds: MapBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  imageUrls: string[];
+  sizeBytes: number;
+  downloadedAt: string;
+}
+
+export type MapPackProgress = (completed: number, total: number) => void;
+
+/**
+ * Bounding box around every stop with coordinates, or null if none have any
+ */
+export const getRouteBounds = (route: ThematicRoute): MapBounds | null => {
+  const points = route.itinerary
+    .flatMap(day => day.stops)
+    .filter(stop => typeof stop.latitude === 'number' && typeof stop.longitude === 'number');
+
+  if (points.length === 0) return null;
+
+  const lats = points.map(p => p.latitude as number);
+  const lngs = points.map(p => p.longitude as number);
+
+  return {
+    minLat: Math.max(Math.min(...lats) - BOUNDS_PADDING, -85),
+    maxLat: Math.min(Math.max(...lats) + BOUNDS_PADDING, 85),
+    minLng: Math.max(Math.min(...lngs) - BOUNDS_PADDING, -180),
+    maxLng: Math.min(Math.max(...lngs) + BOUNDS_PADDING, 180),
+  };
+};
+
+// Slippy map tile index for a coordinate
+export const lngToTileX = (lng: number, zoom: number): number =>
+  Math.min(Math.floor(((lng + 180) / 360) * 2 ** zoom), 2 ** zoom - 1);
+
+export const latToTileY = (lat: number, zoom: number): number => {
+  const rad = (lat * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom;
+  return Math.min(Math.max(Math.floor(y), 0), 2 ** zoom - 1);
+};
+
+// Tile index range covering the bounds at one zoom level
+const getTileRange = (bounds: MapBounds, z: number) => ({
+  minX: lngToTileX(bounds.minLng, z),
+  maxX: lngToTileX(bounds.maxLng, z),
+  // Tile Y grows southwards
+  minY: latToTileY(bounds.maxLat, z),
+  maxY: latToTileY(bounds.minLat, z),
+});
+
+/**
+ * Number of tiles covering the bounds, without building the tile list
+ */
+export const countTilesForBounds = (bounds: MapBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+/**
+ * All tiles covering the bounds for each zoom level in the range
+ */
+export const getTilesForBounds = (bounds: MapBounds, minZoom: number, maxZoom: number): MapTile[] => {
+  const tiles: MapTile[] = [];
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ z, x, y });
+      }
+    }
+  }
+
+  return tiles;
+};
+
+// The deepest zoom that stays within MAP_PACK_MAX_TILES, with its tile count
+const planMapPackZoom = (route: ThematicRoute): { bounds: MapBounds; maxZoom: number; tileCount: number } | null => {
+  const bounds = getRouteBounds(route);
+  if (!bounds) return null;
+
+  for (let maxZoom = MAP_PACK_MAX_ZOOM; maxZoom >= MAP_PACK_MIN_ZOOM; maxZoom--) {
+    const tileCount = countTilesForBounds(bounds, MAP_PACK_MIN_ZOOM, maxZoom);
+    if (tileCount <= MAP_PACK_MAX_TILES) {
+      return { bounds, maxZoom, tileCount };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Tile plan for a route: the deepest zoom that stays within MAP_PACK_MAX_TILES
+ */
+export const planMapPack = (route: ThematicRoute): { bounds: MapBounds; maxZoom: number; tiles: MapTile[] } | null => {
+  const plan = planMapPackZoom(route);
+  if (!plan) return null;
+
+  return {
+    bounds: plan.bounds,
+    maxZoom: plan.maxZoom,
+    tiles: getTilesForBounds(plan.bounds, MAP_PACK_MIN_ZOOM, plan.maxZoom),
+  };
+};
+
+/**
+ * Whether a tile source for offline download is configured
+ */
+export const isMapPackDownloadAvailable = (): boolean =>
+  ['{z}', '{x}', '{y}'].every(part => MAP_TILE_URL_TEMPLATE.includes(part));
+
+/**
+ * Rough download size in bytes, shown before the user starts a download.
+ * 0 when the route can't be downloaded. Counts tiles arithmetically, so
+ * it is cheap enough to call while rendering.
+ */
+export const estimateMapPackSize = (route: ThematicRoute): number => {
+  if (!isMapPackDownloadAvailable()) return 0;
+  const plan = planMapPackZoom(route);
+  return plan ? plan.tileCount * AVERAGE_TILE_BYTES : 0;
+};
+
+/**
+ * Human readable size, e.g. "850 KB" or "12.4 MB"
+ */
+export const formatPackSize = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / 1024 / 1024).toFixed(1)} MB`
+    : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const getRouteImageUrls = (route: ThematicRoute): string[] => {
+  const urls = [route.coverImage, ...route.itinerary.flatMap(day => day.stops.map(stop => stop.image))];
+  return [...new Set(urls.filter((url): url is string => !!url && isRemoteImageUrl(url)))];
+};
+
+const getPackDir = (routeId: string): Directory => new Directory(Paths.document, MAP_PACKS_DIR_NAME, routeId);
+
+// Remote image URL -> file:// URI for every downloaded pack, built from
+// the pack index once and dropped whenever the index changes
+let packImageUris: Promise<Map<string, string>> | null = null;
+
+const loadPackImageUris = async (): Promise<Map<string, string>> => {
+  const uris = new Map<string, string>();
+  const { data: packs } = await getMapPacks();
+
+  for (const pack of packs) {
+    const imagesDir = new Directory(getPackDir(pack.routeId), PACK_IMAGES_DIR_NAME);
+    for (const url of pack.imageUrls) {
+      if (!uris.has(url)) {
+        uris.set(url, new File(imagesDir, getImageFileName(url)).uri);
+      }
+    }
+  }
+
+  return uris;
+};
+
+/**
+ * file:// URI of an image saved with a downloaded pack, or null
+ */
+export const getMapPackImageUri = async (url: string): Promise<string | null> => {
+  try {
+    packImageUris ??= loadPackImageUris();
+    const uri = (await packImageUris).get(url);
+    if (uri && new File(uri).exists) return uri;
+  } catch {
+    packImageUris = null;
+  }
+  return null;
+};
+
+/**
+ * Path template for react-native-maps <LocalTile>
+ */
+export const getMapPackTilePathTemplate = (routeId: string): string =>
+  `${getPackDir(routeId).uri.replace('file://', '').replace(/\/?$/, '/')}{z}/{x}/{y}.png`;
+
+const savePackIndex = async (packs: MapPack[]): Promise<void> => {
+  await AsyncStorage.setItem(MAP_PACKS_STORAGE_KEY, JSON.stringify(packs));
+  packImageUris = null;
+};
+
+/**
+ * Get all downloaded map packs
+ */
+export const getMapPacks = async (): Promise<{ data: MapPack[]; error: string | null }> => {
+  try {
+    const raw = await AsyncStorage.getItem(MAP_PACKS_STORAGE_KEY);
+    return { data: raw ? (JSON.parse(raw) as MapPack[]) : [], error: null };
+  } catch (error: any) {
+    return { data: [], error: error.message };
+  }
+};
+
+/**
+ * Download tiles and images for a route and register the pack
+ */
+export const downloadMapPack = async (
+  route: ThematicRoute,
+  onProgress?: MapPackProgress
+): Promise<{ data: MapPack | null; error: string | null }> => {
+  try {
+    if (!isMapPackDownloadAvailable()) {
+      return { data: null, error: 'Çevrimdışı harita indirme şu anda kullanılamıyor' };
+    }
+
+    const plan = planMapPack(route);
+    if (!plan) {
+      return { data: null, error: 'Bu rotada konum bilgisi olan durak bulunmuyor' };
+    }
+
+    const imageUrls = getRouteImageUrls(route);
+    const total = plan.tiles.length + imageUrls.length;
+    const packDir = getPackDir(route.id);
+    let completed = 0;
+    let failedTiles = 0;
+
+    for (const tile of plan.tiles) {
+      try {
+        const tileFile = new File(packDir, String(tile.z), String(tile.x), `${tile.y}.png`);
+        if (!tileFile.exists) {
+          const tileDir = new Directory(packDir, String(tile.z), String(tile.x));
+          if (!tileDir.exists) {
+            tileDir.create({ intermediates: true, idempotent: true });
+          }
+          const url = MAP_TILE_URL_TEMPLATE
+            .replace('{z}', String(tile.z))
+            .replace('{x}', String(tile.x))
+            .replace('{y}', String(tile.y));
+          await File.downloadFileAsync(url, tileFile, {
+            headers: { 'User-Agent': 'Cyprigo/1.0 (com.cyprigo.app)' },
+            idempotent: true,
+          });
+        }
+      } catch {
+        failedTiles++;
+      }
+
+      onProgress?.(++completed, total);
+    }
+
+    // Most tiles missing means we lost connectivity; don't keep a broken pack
+    if (failedTiles > plan.tiles.length / 2) {
+      if (packDir.exists) packDir.delete();
+      return { data: null, error: 'Harita indirilemedi, bağlantınızı kontrol edin' };
+    }
+
+    // Stop images live in the pack directory, not the cache, so clearing
+    // the cache doesn't break an offline pack. CachedImage finds them
+    // through getMapPackImageUri.
+    const imagesDir = new Directory(packDir, PACK_IMAGES_DIR_NAME);
+    for (const url of imageUrls) {
+      await cacheRemoteImage(url, { optimize: true, directory: imagesDir });
+      onProgress?.(++completed, total);
+    }
+
+    const pack: MapPack = {
+      routeId: route.id,
+      routeTitle: route.title,
+      bounds: plan.bounds,
+      minZoom: MAP_PACK_MIN_ZOOM,
+      maxZoom: plan.maxZoom,
+      tileCount: plan.tiles.length - failedTiles,
+      imageUrls,
+      sizeBytes: packDir.size ?? 0,
+      downloadedAt: new Date().toISOString(),
+    };
+
+    const { data: packs } = await getMapPacks();
+    await savePackIndex([pack, ...packs.filter(p => p.routeId !== route.id)]);
+
+    return { data: pack, error: null };
+  } catch (error: any) {
+    return { data: null, error: error.message };
+  }
+};
+
+/**
+ * Delete a pack's tiles and images
+ */
+export const deleteMapPack = async (routeId: string): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { data: packs } = await getMapPacks();
+
+    const packDir = getPackDir(routeId);
+    if (packDir.exists) packDir.delete();
+
+    await savePackIndex(packs.filter(p => p.routeId !== routeId));
+    return { success: true, error: null };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
+
+/**
+ * Total bytes used by downloaded map packs (tiles and images)
+ */
+export const getMapPacksSize = async (): Promise<number> => {
+  const { data } = await getMapPacks();
+  return data.reduce((sum, pack) => sum + pack.sizeBytes, 0);
+};
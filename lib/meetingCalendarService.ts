@@ -0,0 +1,214 @@
+/**
+ * Meeting Calendar Service
+ * Schedule options for meeting sessions and iCalendar (.ics) export
+ * so sessions can be added to the device calendar.
+ */
+
+import { Platform, Share } from 'react-native';
+import { File, Paths } from 'expo-file-system/next';
+import type { MeetingRecurrenceFrequency, MeetingSession } from '@/types';
+
+export type MeetingRepeatOption = 'none' | 'weekly' | 'biweekly' | 'monthly';
+
+// Host choices in the create form; null means no reminder
+export const MEETING_REPEAT_OPTIONS: {
+  id: MeetingRepeatOption;
+  frequency?: MeetingRecurrenceFrequency;
+  interval: number;
+}[] = [
+  { id: 'none', interval: 1 },
+  { id: 'weekly', frequency: 'weekly', interval: 1 },
+  { id: 'biweekly', frequency: 'weekly', interval: 2 },
+  { id: 'monthly', frequency: 'monthly', interval: 1 },
+];
+export const MEETING_REMINDER_MINUTES = [null, 15, 60, 1440] as const;
+export const MEETING_DURATION_MINUTES = [60, 120, 180, 240] as const;
+
+const CALENDAR_DOMAIN = 'cyprigo.app';
+const CRLF = '\r\n';
+
+/**
+ * Repeat option matching a session, for labels
+ */
+export const getRepeatOption = (session: Pick<MeetingSession, 'recurrenceFrequency' | 'recurrenceInterval'>): MeetingRepeatOption => {
+  if (!session.recurrenceFrequency) return 'none';
+  if (session.recurrenceFrequency === 'weekly' && session.recurrenceInterval === 2) return 'biweekly';
+  return session.recurrenceFrequency;
+};
+
+/**
+ * Scheduled sessions that have not finished yet, soonest first
+ */
+export const getUpcomingSessions = (sessions: MeetingSession[], now: number = Date.now()): MeetingSession[] =>
+  sessions
+    .filter(session => {
+      if (!session.scheduledAt || session.status === 'ended' || session.status === 'cancelled') return false;
+      const end = new Date(session.scheduledAt).getTime() + session.durationMinutes * 60000;
+      return end > now || !!session.recurrenceFrequency;
+    })
+    .sort((a, b) => new Date(a.scheduledAt!).getTime() - new Date(b.scheduledAt!).getTime());
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Content lines are limited to 75 octets; continuations start with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let length = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    if (length + size > 75) {
+      parts.push(current);
+      current = ' ';
+      length = 1;
+    }
+    current += char;
+    length += size;
+  }
+  parts.push(current);
+
+  return parts.join(CRLF);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+/**
+ * Wall-clock time in the given zone, or null when the zone is unknown
+ */
+const formatLocal = (date: Date, timeZone: string): string | null => {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '00';
+    return `${get('year')}${get('month')}${get('day')}T${get('hour') === '24' ? '00' : get('hour')}${get('minute')}${get('second')}`;
+  } catch {
+    return null;
+  }
+};
+
+const buildDateLine = (name: string, date: Date, timeZone: string): string => {
+  const local = formatLocal(date, timeZone);
+  return local ? `${name};TZID=${timeZone}:${local}` : `${name}:${formatUtc(date)}`;
+};
+
+const buildEvent = (session: MeetingSession, stamp: string): string[] => {
+  const start = new Date(session.scheduledAt!);
+  const end = new Date(start.getTime() + session.durationMinutes * 60000);
+  const link = `cyprigo://session/${session.id}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@${CALENDAR_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    buildDateLine('DTSTART', start, session.timezone),
+    buildDateLine('DTEND', end, session.timezone),
+    `SUMMARY:${escapeText(session.title)}`,
+    `LOCATION:${escapeText(session.destinationText)}`,
+    `DESCRIPTION:${escapeText([session.description, link].filter(Boolean).join('\n'))}`,
+    `URL:${link}`,
+  ];
+
+  if (session.destinationLat !== undefined && session.destinationLng !== undefined) {
+    lines.push(`GEO:${session.destinationLat};${session.destinationLng}`);
+  }
+
+  if (session.recurrenceFrequency) {
+    const rule = [
+      `FREQ=${session.recurrenceFrequency.toUpperCase()}`,
+      `INTERVAL=${session.recurrenceInterval}`,
+    ];
+    if (session.recurrenceUntil) rule.push(`UNTIL=${formatUtc(new Date(session.recurrenceUntil))}`);
+    lines.push(`RRULE:${rule.join(';')}`);
+  }
+
+  if (session.reminderMinutes) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(session.title)}`,
+      `TRIGGER:-PT${session.reminderMinutes}M`,
+      'END:VALARM'
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * iCalendar document with one event per scheduled session.
+ * Unscheduled sessions are skipped.
+ */
+export const buildMeetingICS = (sessions: MeetingSession[], now: Date = new Date()): string => {
+  const stamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Cyprigo//Meetings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...sessions.filter(session => session.scheduledAt).flatMap(session => buildEvent(session, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+/**
+ * Writes the sessions to an .ics file and opens the share sheet.
+ * Android's share sheet only takes text, so the calendar data is shared inline there.
+ */
+export const shareMeetingCalendar = async (
+  sessions: MeetingSession[],
+  fileName: string
+): Promise<{ success: boolean; error?: string }> => {
+  const scheduled = sessions.filter(session => session.scheduledAt);
+  if (!scheduled.length) {
+    return { success: false, error: 'No scheduled sessions to export' };
+  }
+
+  try {
+    const ics = buildMeetingICS(scheduled);
+    const safeName = fileName.replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'cyprigo';
+
+    if (Platform.OS === 'ios') {
+      const file = new File(Paths.cache, `${safeName}.ics`);
+      if (file.exists) file.delete();
+      file.create();
+      file.write(ics);
+      await Share.share({ url: file.uri, title: fileName });
+    } else {
+      await Share.share({ message: ics, title: fileName });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to export calendar:', error);
+    return { success: false, error: 'Failed to export calendar' };
+  }
+};
@@ -0,0 +1,51 @@
+/**
+ * Meeting Invite Links
+ * Builds the deep link shared for a session invite, reads the invite
+ * code back out of scanned or pasted links and checks invite limits.
+ */
+
+import type { MeetingInvite } from '@/types';
+
+// Host choices when issuing a new code; null means no limit
+export const INVITE_EXPIRY_HOURS = [null, 1, 24, 168] as const;
+export const INVITE_MAX_USES = [null, 1, 5, 10] as const;
+
+const INVITE_PATH = /^\/*session\/invite\/([A-Za-z0-9]{4,32})\/?$/;
+
+/**
+ * Deep link that opens the join screen for an invite code
+ */
+export const buildInviteLink = (code: string): string => `cyprigo://session/invite/${code}`;
+
+/**
+ * Invite code from a `session/invite/[code]` link, or null for anything else.
+ * Accepts the app scheme, Expo dev links (`/--/`) and https links.
+ */
+export const parseInviteCode = (data: string | null | undefined): string | null => {
+  if (!data) return null;
+
+  const match = data.trim().match(/^([a-z][a-z0-9+.-]*):\/\/([^?#]*)/i);
+  if (!match) return null;
+
+  const scheme = match[1].toLowerCase();
+  let path = match[2];
+
+  if (scheme === 'http' || scheme === 'https' || scheme === 'exp') {
+    // Drop the host, then the Expo dev-client prefix if present
+    path = path.slice(path.indexOf('/') + 1 || path.length).replace(/^--\//, '');
+  } else if (scheme !== 'cyprigo') {
+    return null;
+  }
+
+  const code = path.match(INVITE_PATH)?.[1];
+  return code ? code.toUpperCase() : null;
+};
+
+/**
+ * Whether an invite can still admit someone
+ */
+export const isInviteUsable = (invite: MeetingInvite | null | undefined, now: number = Date.now()): boolean => {
+  if (!invite || invite.revokedAt) return false;
+  if (invite.expiresAt && new Date(invite.expiresAt).getTime() <= now) return false;
+  return invite.maxUses === undefined || invite.useCount < invite.maxUses;
+};
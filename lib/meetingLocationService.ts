@@ -0,0 +1,100 @@
+/**
+ * Meeting Location Service
+ * Opt-in live location for meeting sessions. Locations travel only
+ * through the session's realtime presence channel and are never stored.
+ */
+
+import { estimateTravelMinutes, getDistanceKm, GeoPoint } from './routeService';
+
+// How long a member can choose to share, in minutes
+export const LOCATION_SHARE_DURATIONS = [15, 30, 60] as const;
+export const DEFAULT_LOCATION_SHARE_MINUTES = 30;
+
+// Positions older than this are hidden from the map
+const STALE_LOCATION_MS = 5 * 60 * 1000;
+
+export interface SharedLocation extends GeoPoint {
+  accuracy?: number | null;
+  updatedAt: string;
+}
+
+/**
+ * Presence payload each member tracks on the session channel
+ */
+export interface MeetingPresence {
+  online_at: string;
+  location?: SharedLocation;
+  sharing_until?: string;
+}
+
+export interface MemberLocation extends SharedLocation {
+  userId: string;
+  sharingUntil: string;
+}
+
+export interface MeetingEta {
+  distanceKm: number;
+  minutes: number;
+  mode: 'walk' | 'drive';
+}
+
+/**
+ * Whether a sharing window has run out
+ */
+export const isSharingExpired = (sharingUntil: string | null | undefined, now: number = Date.now()): boolean =>
+  !sharingUntil || new Date(sharingUntil).getTime() <= now;
+
+/**
+ * Current, unexpired member locations from a presence state
+ */
+export const parseMemberLocations = (
+  presenceState: Record<string, MeetingPresence[]>,
+  now: number = Date.now()
+): Record<string, MemberLocation> => {
+  const locations: Record<string, MemberLocation> = {};
+
+  Object.entries(presenceState).forEach(([userId, presences]) => {
+    // A member can be present from several devices; keep the freshest fix
+    presences.forEach(presence => {
+      const { location, sharing_until } = presence;
+      if (!location || isSharingExpired(sharing_until, now)) return;
+      if (now - new Date(location.updatedAt).getTime() > STALE_LOCATION_MS) return;
+
+      const existing = locations[userId];
+      if (!existing || existing.updatedAt < location.updatedAt) {
+        locations[userId] = { ...location, userId, sharingUntil: sharing_until as string };
+      }
+    });
+  });
+
+  return locations;
+};
+
+/**
+ * Straight-line distance and rough travel time to the meet point
+ */
+export const getEtaToDestination = (from: GeoPoint, destination: GeoPoint): MeetingEta => {
+  const distanceKm = getDistanceKm(from, destination);
+  return { distanceKm, ...estimateTravelMinutes(distanceKm) };
+};
+
+/**
+ * Map region that fits every point with some padding
+ */
+export const getMeetingRegion = (points: GeoPoint[]) => {
+  if (points.length === 0) return null;
+
+  const latitudes = points.map(p => p.latitude);
+  const longitudes = points.map(p => p.longitude);
+  const minLat = Math.min(...latitudes);
+  const maxLat = Math.max(...latitudes);
+  const minLng = Math.min(...longitudes);
+  const maxLng = Math.max(...longitudes);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * 1.5, 0.01),
+    longitudeDelta: Math.max((maxLng - minLng) * 1.5, 0.01),
+  };
+};
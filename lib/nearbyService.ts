@@ -0,0 +1,119 @@
+/**
+ * Nearby Service
+ * "Near me" search: tours, thematic routes and community posts within a
+ * radius of the user's location, sorted by distance
+ */
+
+import { supabase } from './supabase';
+import { getDistanceKm, GeoPoint } from './routeService';
+import {
+  CommunityPost,
+  CommunityPostData,
+  postDataToPost,
+  routeDataToRoute,
+  ThematicRoute,
+  ThematicRouteData,
+  Tour,
+  TourData,
+  tourDataToTour,
+} from '@/types';
+
+// Radius steps offered by the search slider, in kilometers
+export const NEARBY_RADIUS_OPTIONS = [1, 2, 5, 10, 25, 50] as const;
+export const DEFAULT_NEARBY_RADIUS_KM = 10;
+
+// Max results per kind
+const NEARBY_LIMIT = 30;
+
+export interface NearbyItem<T> {
+  item: T;
+  distanceKm: number;
+}
+
+export interface NearbyResults {
+  tours: NearbyItem<Tour>[];
+  routes: NearbyItem<ThematicRoute>[];
+  posts: NearbyItem<CommunityPost>[];
+}
+
+interface NearbyRow {
+  kind: 'tour' | 'route' | 'post';
+  id: string;
+  distance_km: number;
+  payload: unknown;
+}
+
+export const emptyNearbyResults = (): NearbyResults => ({ tours: [], routes: [], posts: [] });
+
+const byDistance = <T>(a: NearbyItem<T>, b: NearbyItem<T>) => a.distanceKm - b.distanceKm;
+
+/**
+ * Distance from a point to a tour, or null when the tour has no coordinates
+ */
+export const getTourDistanceKm = (tour: Tour, origin: GeoPoint | null | undefined): number | null => {
+  if (!origin || typeof tour.latitude !== 'number' || typeof tour.longitude !== 'number') {
+    return null;
+  }
+  return getDistanceKm(origin, { latitude: tour.latitude, longitude: tour.longitude });
+};
+
+/**
+ * Local fallback: tours from memory within the radius, closest first
+ */
+export const filterToursNearby = (
+  tours: Tour[],
+  origin: GeoPoint,
+  radiusKm: number
+): NearbyItem<Tour>[] =>
+  tours
+    .map(tour => ({ item: tour, distanceKm: getTourDistanceKm(tour, origin) }))
+    .filter((entry): entry is NearbyItem<Tour> => entry.distanceKm !== null && entry.distanceKm <= radiusKm)
+    .sort(byDistance);
+
+/**
+ * Split search_nearby rows into typed, distance-sorted lists
+ */
+export const groupNearbyRows = (rows: NearbyRow[]): NearbyResults => {
+  const results = emptyNearbyResults();
+
+  rows.forEach(row => {
+    const distanceKm = Number(row.distance_km);
+    if (row.kind === 'tour') {
+      results.tours.push({ item: tourDataToTour(row.payload as TourData), distanceKm });
+    } else if (row.kind === 'route') {
+      results.routes.push({ item: routeDataToRoute(row.payload as ThematicRouteData), distanceKm });
+    } else if (row.kind === 'post') {
+      results.posts.push({ item: postDataToPost(row.payload as CommunityPostData), distanceKm });
+    }
+  });
+
+  results.tours.sort(byDistance);
+  results.routes.sort(byDistance);
+  results.posts.sort(byDistance);
+  return results;
+};
+
+/**
+ * Tours, routes and community posts within `radiusKm` of `origin`
+ */
+export const searchNearby = async (
+  origin: GeoPoint,
+  radiusKm: number = DEFAULT_NEARBY_RADIUS_KM
+): Promise<{ data: NearbyResults; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('search_nearby', {
+      p_lat: origin.latitude,
+      p_lng: origin.longitude,
+      p_radius_km: radiusKm,
+      p_limit: NEARBY_LIMIT,
+    });
+
+    if (error) {
+      return { data: emptyNearbyResults(), error: error.message };
+    }
+
+    return { data: groupNearbyRows((data as NearbyRow[]) || []), error: null };
+  } catch (err: any) {
+    return { data: emptyNearbyResults(), error: err.message };
+  }
+};
@@ -17,15 +17,20 @@ export interface NotificationData {
   icon: string;
   target: 'all' | 'user' | 'segment';
   target_user_id?: string;
+  segment_id?: string | null;
+  segment_rules?: SegmentRules | null;
   deep_link?: string;
   data?: Record<string, any>;
-  status: 'pending' | 'sent' | 'failed';
+  status: NotificationStatus;
+  scheduled_at?: string | null;
   sent_at?: string;
   created_by?: string;
   created_at: string;
   updated_at: string;
 }
 
+export type NotificationStatus = 'pending' | 'scheduled' | 'sending' | 'sent' | 'failed';
+
 export interface UserNotification {
   id: string;
   user_id: string;
@@ -43,6 +48,10 @@ export interface UserDevice {
   platform: 'ios' | 'android' | 'web';
   device_name?: string;
   is_active: boolean;
+  locale?: string | null;
+  last_active_at?: string | null;
+  last_latitude?: number | null;
+  last_longitude?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -54,8 +63,65 @@ export interface CreateNotificationInput {
   icon?: string;
   target?: 'all' | 'user' | 'segment';
   target_user_id?: string;
+  segment_id?: string;
+  segment_rules?: SegmentRules;
   deep_link?: string;
   data?: Record<string, any>;
+  scheduled_at?: string | null;
+}
+
+/**
+ * Per-notification push counts from the Expo tickets and receipts
+ * recorded by the send-notification Edge Function
+ */
+export interface NotificationDeliveryStats {
+  notification_id: string;
+  total: number;
+  accepted: number;
+  delivered: number;
+  failed: number;
+  pending: number;
+}
+
+export interface SendNotificationResult {
+  success: boolean;
+  scheduled?: boolean;
+  stats?: { total: number; accepted: number; failed: number };
+  error?: string;
+}
+
+export type MemberClass = 'Normal' | 'Gold' | 'Business';
+
+/**
+ * Audience rules, combined with AND. Resolved server-side by
+ * resolve_segment_users; an empty rule set matches every user.
+ */
+export interface SegmentRules {
+  memberClasses?: MemberClass[];
+  languages?: string[];
+  lastActiveDays?: number;
+  favoriteCategories?: string[];
+  near?: {
+    latitude: number;
+    longitude: number;
+    radiusKm: number;
+  };
+  hasActiveMeeting?: boolean;
+}
+
+export interface NotificationSegment {
+  id: string;
+  name: string;
+  description?: string | null;
+  rules: SegmentRules;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SegmentPreview {
+  users: number;
+  devices: number;
 }
 
 // =============================================
@@ -344,6 +410,44 @@ export async function savePushToken(userId: string, token: string): Promise<{ su
   }
 }
 
+/**
+ * Update targeting attributes of a registered device: locale, last
+ * activity and (when permitted) a coarse last location
+ */
+export async function updateDeviceActivity(
+  userId: string,
+  token: string,
+  activity: { locale?: string; latitude?: number; longitude?: number }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const update: Partial<UserDevice> = {
+      last_active_at: new Date().toISOString(),
+    };
+    if (activity.locale) {
+      update.locale = activity.locale;
+    }
+    if (typeof activity.latitude === 'number' && typeof activity.longitude === 'number') {
+      // ~1 km precision is enough for proximity segments
+      update.last_latitude = Math.round(activity.latitude * 100) / 100;
+      update.last_longitude = Math.round(activity.longitude * 100) / 100;
+    }
+
+    const { error } = await supabase
+      .from('user_devices')
+      .update(update)
+      .eq('user_id', userId)
+      .eq('expo_push_token', token);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: 'Failed to update device activity' };
+  }
+}
+
 /**
  * Remove push token from database (on logout)
  */
@@ -394,11 +498,12 @@ export async function getAllNotifications(): Promise<{ data: NotificationData[];
  */
 export async function getUserNotifications(userId: string): Promise<{ data: NotificationData[]; error?: string }> {
   try {
-    // Get notifications targeted to all users or this specific user
+    // Get notifications targeted to all users or this specific user;
+    // RLS limits segment notifications to their recorded recipients
     const { data: notifications, error: notifError } = await supabase
       .from('notifications')
       .select('*')
-      .or(`target.eq.all,and(target.eq.user,target_user_id.eq.${userId})`)
+      .or(`target.eq.all,target.eq.segment,and(target.eq.user,target_user_id.eq.${userId})`)
       .eq('status', 'sent')
       .order('created_at', { ascending: false });
 
@@ -453,8 +558,11 @@ export async function createNotification(
         icon: input.icon || 'notifications-outline',
         target: input.target || 'all',
         target_user_id: input.target_user_id,
+        segment_id: input.target === 'segment' ? input.segment_id : null,
+        segment_rules: input.target === 'segment' ? cleanSegmentRules(input.segment_rules || {}) : null,
         deep_link: input.deep_link,
         data: input.data,
+        scheduled_at: input.scheduled_at || null,
         status: 'pending',
         created_by: createdBy,
       })
@@ -473,92 +581,57 @@ export async function createNotification(
 
 /**
  * Send notification (trigger push to devices)
+ * Delivery runs in the send-notification Edge Function; notifications
+ * with a future scheduled_at are queued and sent by its scheduled run
  */
-export async function sendNotification(notificationId: string): Promise<{ success: boolean; error?: string }> {
+export async function sendNotification(notificationId: string): Promise<SendNotificationResult> {
   try {
-    // Get the notification
-    const { data: notification, error: fetchError } = await supabase
-      .from('notifications')
-      .select('*')
-      .eq('id', notificationId)
-      .single();
+    const { data, error } = await supabase.functions.invoke('send-notification', {
+      body: { notificationId },
+    });
 
-    if (fetchError || !notification) {
-      return { success: false, error: 'Notification not found' };
+    if (error) {
+      return { success: false, error: error.message || 'Failed to send notification' };
     }
 
-    // Get target devices
-    let deviceQuery = supabase
-      .from('user_devices')
-      .select('expo_push_token')
-      .eq('is_active', true);
-
-    if (notification.target === 'user' && notification.target_user_id) {
-      deviceQuery = deviceQuery.eq('user_id', notification.target_user_id);
+    if (!data?.success) {
+      return { success: false, error: data?.error || 'Failed to send notification' };
     }
 
-    const { data: devices, error: devicesError } = await deviceQuery;
-
-    if (devicesError) {
-      return { success: false, error: 'Failed to fetch devices' };
-    }
+    return { success: true, scheduled: !!data.scheduled, stats: data.stats };
+  } catch (error) {
+    console.error('Error sending notification:', error);
+    return { success: false, error: 'Failed to send notification' };
+  }
+}
 
-    if (!devices || devices.length === 0) {
-      // No devices to send to, mark as sent anyway
-      await supabase
-        .from('notifications')
-        .update({ status: 'sent', sent_at: new Date().toISOString() })
-        .eq('id', notificationId);
-      
-      return { success: true };
-    }
+/**
+ * Delivery counts for the given notifications (admin only)
+ */
+export async function getNotificationDeliveryStats(
+  notificationIds: string[]
+): Promise<{ data: Record<string, NotificationDeliveryStats>; error?: string }> {
+  if (notificationIds.length === 0) {
+    return { data: {} };
+  }
 
-    // Prepare push messages
-    const messages = devices
-      .filter(d => d.expo_push_token)
-      .map(device => ({
-        to: device.expo_push_token,
-        sound: 'default' as const,
-        title: notification.title,
-        body: notification.message,
-        data: {
-          notificationId: notification.id,
-          type: notification.type,
-          deepLink: notification.deep_link,
-          ...notification.data,
-        },
-      }));
-
-    // Send via Expo Push API
-    const response = await fetch('https://exp.host/--/api/v2/push/send', {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Accept-Encoding': 'gzip, deflate',
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(messages),
+  try {
+    const { data, error } = await supabase.rpc('get_notification_delivery_stats', {
+      p_notification_ids: notificationIds,
     });
 
-    if (!response.ok) {
-      await supabase
-        .from('notifications')
-        .update({ status: 'failed' })
-        .eq('id', notificationId);
-      
-      return { success: false, error: 'Failed to send push notifications' };
+    if (error) {
+      return { data: {}, error: error.message };
     }
 
-    // Update notification status
-    await supabase
-      .from('notifications')
-      .update({ status: 'sent', sent_at: new Date().toISOString() })
-      .eq('id', notificationId);
+    const stats: Record<string, NotificationDeliveryStats> = {};
+    ((data as NotificationDeliveryStats[]) || []).forEach(row => {
+      stats[row.notification_id] = row;
+    });
 
-    return { success: true };
+    return { data: stats };
   } catch (error) {
-    console.error('Error sending notification:', error);
-    return { success: false, error: 'Failed to send notification' };
+    return { data: {}, error: 'Failed to fetch delivery stats' };
   }
 }
 
@@ -582,6 +655,121 @@ export async function deleteNotification(notificationId: string): Promise<{ succ
   }
 }
 
+// =============================================
+// AUDIENCE SEGMENTS (admin only)
+// =============================================
+
+/**
+ * Drop empty rules so the stored snapshot only contains active filters
+ */
+export function cleanSegmentRules(rules: SegmentRules): SegmentRules {
+  const cleaned: SegmentRules = {};
+  if (rules.memberClasses?.length) cleaned.memberClasses = rules.memberClasses;
+  if (rules.languages?.length) cleaned.languages = rules.languages.map(l => l.toLowerCase());
+  if (rules.lastActiveDays && rules.lastActiveDays > 0) cleaned.lastActiveDays = Math.round(rules.lastActiveDays);
+  if (rules.favoriteCategories?.length) cleaned.favoriteCategories = rules.favoriteCategories;
+  if (rules.near && rules.near.radiusKm > 0) cleaned.near = rules.near;
+  if (typeof rules.hasActiveMeeting === 'boolean') cleaned.hasActiveMeeting = rules.hasActiveMeeting;
+  return cleaned;
+}
+
+/**
+ * Number of active filters in a rule set
+ */
+export function countSegmentRules(rules: SegmentRules): number {
+  return Object.keys(cleanSegmentRules(rules)).length;
+}
+
+/**
+ * Get saved segments
+ */
+export async function getNotificationSegments(): Promise<{ data: NotificationSegment[]; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from('notification_segments')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    return { data: data || [] };
+  } catch (error) {
+    return { data: [], error: 'Failed to fetch segments' };
+  }
+}
+
+/**
+ * Create or update a saved segment
+ */
+export async function saveNotificationSegment(
+  input: { name: string; description?: string; rules: SegmentRules },
+  createdBy: string,
+  id?: string
+): Promise<{ data: NotificationSegment | null; error?: string }> {
+  try {
+    const row = {
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      rules: cleanSegmentRules(input.rules),
+    };
+
+    const query = id
+      ? supabase.from('notification_segments').update(row).eq('id', id)
+      : supabase.from('notification_segments').insert({ ...row, created_by: createdBy });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data };
+  } catch (error) {
+    return { data: null, error: 'Failed to save segment' };
+  }
+}
+
+/**
+ * Delete a saved segment (sent notifications keep their rule snapshot)
+ */
+export async function deleteNotificationSegment(id: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('notification_segments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: 'Failed to delete segment' };
+  }
+}
+
+/**
+ * Count users and devices a rule set currently matches
+ */
+export async function previewSegment(rules: SegmentRules): Promise<{ data: SegmentPreview | null; error?: string }> {
+  try {
+    const { data, error } = await supabase.rpc('preview_notification_segment', {
+      p_rules: cleanSegmentRules(rules),
+    });
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data: data as SegmentPreview };
+  } catch (error) {
+    return { data: null, error: 'Failed to preview segment' };
+  }
+}
+
 // =============================================
 // USER NOTIFICATION STATUS
 // =============================================
@@ -805,7 +993,8 @@ export function subscribeToNotifications(
         // Note: We check newData.status === 'sent' without relying on oldData
         // because REPLICA IDENTITY might not be set
         if (newData && newData.status === 'sent' && !processedIds.has(newData.id)) {
-          if (newData.target === 'all' || newData.target_user_id === userId) {
+          // Segment updates only reach recipients (RLS on user_notifications)
+          if (newData.target === 'all' || newData.target === 'segment' || newData.target_user_id === userId) {
             console.log('[Notifications] Notification status changed to sent:', newData);
             processedIds.add(newData.id);
             onNewNotification(newData as NotificationData);
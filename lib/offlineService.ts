@@ -0,0 +1,185 @@
+/**
+ * Offline Service
+ * Persisted data snapshots and the mutation outbox that is replayed
+ * once the device is back online
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import { supabase } from './supabase';
+import { addToFavorites, removeFromFavorites } from './tourService';
+
+// AsyncStorage key prefix for offline snapshots
+export const OFFLINE_SNAPSHOT_PREFIX = 'offline-snapshot:';
+
+// AsyncStorage key for the persisted outbox (kept when clearing cache)
+export const OFFLINE_OUTBOX_KEY = 'offline-outbox';
+
+// Give up on a queued mutation after this many failed replays
+export const OUTBOX_MAX_ATTEMPTS = 5;
+
+export type SnapshotKey = 'tours' | 'categories' | 'routes' | `favorites:${string}`;
+
+export interface OfflineSnapshot<T> {
+  data: T;
+  savedAt: number;
+}
+
+export type OutboxMutation =
+  | { type: 'favorite'; userId: string; tourId: string; favorited: boolean }
+  | { type: 'like'; userId: string; postId: string; liked: boolean }
+  | {
+      type: 'comment';
+      // Row id chosen on the device, also used for the optimistic comment
+      commentId: string;
+      userId: string;
+      postId: string;
+      content: string;
+      parentId?: string;
+      mentionedUserIds?: string[];
+    };
+
+export type OutboxEntry = OutboxMutation & {
+  id: string;
+  createdAt: number;
+  attempts: number;
+};
+
+/**
+ * Random RFC 4122 version 4 UUID for rows created while offline
+ */
+export const createClientId = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+/**
+ * Check connectivity. Unknown reachability counts as online so that a
+ * missing native module never blocks requests.
+ */
+export const checkIsOnline = async (): Promise<boolean> => {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return isReachable(state);
+  } catch {
+    return true;
+  }
+};
+
+export const isReachable = (state: { isConnected?: boolean; isInternetReachable?: boolean }): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+/**
+ * Save a snapshot of fetched data for offline use
+ */
+export const saveSnapshot = async <T>(key: SnapshotKey, data: T): Promise<void> => {
+  try {
+    const snapshot: OfflineSnapshot<T> = { data, savedAt: Date.now() };
+    await AsyncStorage.setItem(`${OFFLINE_SNAPSHOT_PREFIX}${key}`, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('[OfflineService] Save snapshot error:', error);
+  }
+};
+
+/**
+ * Load a previously saved snapshot, or null if none exists
+ */
+export const loadSnapshot = async <T>(key: SnapshotKey): Promise<OfflineSnapshot<T> | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(`${OFFLINE_SNAPSHOT_PREFIX}${key}`);
+    return raw ? (JSON.parse(raw) as OfflineSnapshot<T>) : null;
+  } catch (error) {
+    console.error('[OfflineService] Load snapshot error:', error);
+    return null;
+  }
+};
+
+/**
+ * Add a mutation to the outbox.
+ * Favorite and like toggles for the same target collapse into the latest
+ * desired state; comments are always appended.
+ */
+export const enqueueMutation = (
+  outbox: OutboxEntry[],
+  mutation: OutboxMutation,
+  now: number = Date.now()
+): OutboxEntry[] => {
+  const entry: OutboxEntry = {
+    ...mutation,
+    id: `${now}-${Math.random().toString(36).slice(2, 10)}`,
+    createdAt: now,
+    attempts: 0,
+  };
+
+  const isSameTarget = (queued: OutboxEntry): boolean => {
+    if (mutation.type === 'favorite' && queued.type === 'favorite') {
+      return queued.userId === mutation.userId && queued.tourId === mutation.tourId;
+    }
+    if (mutation.type === 'like' && queued.type === 'like') {
+      return queued.userId === mutation.userId && queued.postId === mutation.postId;
+    }
+    return false;
+  };
+
+  return [...outbox.filter(queued => !isSameTarget(queued)), entry];
+};
+
+/**
+ * Send a single queued mutation to the server.
+ * Every mutation is idempotent so a replay after a partial failure is safe;
+ * comments carry their client-generated id so a retry after a lost
+ * response doesn't insert them twice.
+ */
+export const replayMutation = async (entry: OutboxEntry): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    switch (entry.type) {
+      case 'favorite':
+        return entry.favorited
+          ? await addToFavorites(entry.userId, entry.tourId)
+          : await removeFromFavorites(entry.userId, entry.tourId);
+
+      case 'like': {
+        if (entry.liked) {
+          const { error } = await supabase
+            .from('community_likes')
+            .insert({ user_id: entry.userId, post_id: entry.postId });
+          // Already liked
+          if (error && error.code !== '23505') throw error;
+        } else {
+          const { error } = await supabase
+            .from('community_likes')
+            .delete()
+            .eq('user_id', entry.userId)
+            .eq('post_id', entry.postId);
+          if (error) throw error;
+        }
+        return { success: true, error: null };
+      }
+
+      case 'comment': {
+        const { error } = await supabase
+          .from('community_comments')
+          .upsert(
+            {
+              id: entry.commentId,
+              user_id: entry.userId,
+              post_id: entry.postId,
+              parent_id: entry.parentId || null,
+              content: entry.content,
+              mentioned_user_ids: entry.mentionedUserIds || [],
+            },
+            // Already saved by an earlier attempt
+            { onConflict: 'id', ignoreDuplicates: true }
+          );
+        if (error) throw error;
+        return { success: true, error: null };
+      }
+
+      default:
+        return { success: false, error: 'Bilinmeyen işlem' };
+    }
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+};
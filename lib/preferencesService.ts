@@ -0,0 +1,95 @@
+/**
+ * Preferences Service
+ * Reads and writes per-user tour preferences and ranks tours by them
+ */
+
+import { supabase } from './supabase';
+import {
+  Tour,
+  UserPreferences,
+  UserPreferencesData,
+  preferencesDataToPreferences,
+} from '@/types';
+
+export type PreferencesInput = Omit<UserPreferences, 'userId' | 'updatedAt'>;
+
+/**
+ * Get preferences for a user
+ * Returns null data (without error) when the user has not saved any yet
+ */
+export const getUserPreferences = async (userId: string): Promise<{
+  data: UserPreferences | null;
+  error: string | null;
+}> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.log('Preferences fetch error:', error.message);
+      return { data: null, error: error.message };
+    }
+
+    if (!data) {
+      return { data: null, error: null };
+    }
+
+    return { data: preferencesDataToPreferences(data as UserPreferencesData), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Create or update preferences for a user
+ */
+export const saveUserPreferences = async (
+  userId: string,
+  input: PreferencesInput
+): Promise<{ data: UserPreferences | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          categories: input.categories,
+          group_size: input.groupSize ?? null,
+          budget: input.budget ?? null,
+          notify_new_tours: input.notifications.newTours,
+          notify_price_drops: input.notifications.priceDrops,
+          notify_recommendations: input.notifications.recommendations,
+        },
+        { onConflict: 'user_id' }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data: preferencesDataToPreferences(data as UserPreferencesData), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Rank tours so that those in preferred categories come first.
+ * Earlier categories in the list weigh more; the original order is kept
+ * within the same rank so server-side sorting still applies.
+ */
+export const rankToursByPreferences = (tours: Tour[], categories: string[]): Tour[] => {
+  if (categories.length === 0 || tours.length === 0) return tours;
+
+  const weights = new Map(categories.map((category, index) => [category, categories.length - index]));
+
+  return tours
+    .map((tour, index) => ({ tour, index, weight: weights.get(tour.category) ?? 0 }))
+    .sort((a, b) => b.weight - a.weight || a.index - b.index)
+    .map(({ tour }) => tour);
+};
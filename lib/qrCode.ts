@@ -0,0 +1,491 @@
+/**
+ * QR Code Encoder
+ * On-device QR generation (ISO/IEC 18004, byte mode) so invite links and
+ * member codes never leave the device. Produces a module matrix that can
+ * be drawn with views, or an SVG string.
+ */
+
+export type QRErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRMatrix {
+  version: number;
+  size: number;
+  errorCorrectionLevel: QRErrorCorrectionLevel;
+  mask: number;
+  /** modules[y][x], true = dark */
+  modules: boolean[][];
+}
+
+export interface QREncodeOptions {
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+  minVersion?: number;
+  /** Force a mask pattern (0-7); chosen by penalty score when omitted */
+  mask?: number;
+}
+
+export interface QRSvgOptions {
+  /** Quiet zone in modules (the spec asks for 4) */
+  margin?: number;
+  color?: string;
+  backgroundColor?: string;
+  /** Rendered width/height; the viewBox is always in modules */
+  size?: number;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Format bits per level (spec table 12)
+const FORMAT_BITS: Record<QRErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by version; index 0 unused
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const NUM_ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Mask penalty weights (spec section 7.8.3)
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+/**
+ * UTF-8 bytes of a string
+ */
+export const toUtf8Bytes = (text: string): number[] => {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) as number;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+};
+
+// ============================================
+// Capacity
+// ============================================
+
+// Modules available for data and ECC after function patterns
+const getNumRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number, ecl: QRErrorCorrectionLevel): number =>
+  Math.floor(getNumRawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ecl][version] * NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+
+// Byte mode: 4-bit mode indicator + character count + 8 bits per byte
+const getByteModeBits = (byteCount: number, version: number): number | null => {
+  const countBits = version <= 9 ? 8 : 16;
+  if (byteCount >= 1 << countBits) return null;
+  return 4 + countBits + byteCount * 8;
+};
+
+// ============================================
+// Reed-Solomon
+// ============================================
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result: number[] = new Array(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result: number[] = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+};
+
+// Split into blocks, append ECC to each and interleave
+const addEccAndInterleave = (data: number[], version: number, ecl: QRErrorCorrectionLevel): number[] => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[ecl][version];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+
+  const divisor = reedSolomonDivisor(blockEccLen);
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = reedSolomonRemainder(dat, divisor);
+    // Placeholder keeps short and long blocks aligned while interleaving
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+// ============================================
+// Matrix
+// ============================================
+
+class QRBuilder {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(readonly version: number, readonly ecl: QRErrorCorrectionLevel) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+
+  private getAlignmentPositions(): number[] {
+    if (this.version === 1) return [];
+    const numAlign = Math.floor(this.version / 7) + 2;
+    const step = Math.floor((this.version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+    const result = [6];
+    for (let pos = this.size - 7; result.length < numAlign; pos -= step) {
+      result.splice(1, 0, pos);
+    }
+    return result;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    const finders: [number, number][] = [[3, 3], [this.size - 4, 3], [3, this.size - 4]];
+    finders.forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const dist = Math.max(Math.abs(dx), Math.abs(dy));
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < this.size && y >= 0 && y < this.size) {
+            this.setFunction(x, y, dist !== 2 && dist !== 4);
+          }
+        }
+      }
+    });
+
+    const positions = this.getAlignmentPositions();
+    const last = positions.length - 1;
+    positions.forEach((cy, i) => {
+      positions.forEach((cx, j) => {
+        // Skip the three corners occupied by finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve format areas; real bits are drawn once the mask is known
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.ecl] << 3) | mask;
+    let rem = data;
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+    const bits = ((data << 10) | rem) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    // Always-dark module
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+    let rem = this.version;
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | rem;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  // Zigzag placement from the bottom-right corner
+  drawCodewords(data: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vert : vert;
+          if (!this.isFunction[y][x] && i < data.length * 8) {
+            this.modules[y][x] = getBit(data[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  // XOR is its own inverse, so applying a mask twice removes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (!this.isFunction[y][x] && invert) {
+          this.modules[y][x] = !this.modules[y][x];
+        }
+      }
+    }
+  }
+
+  private finderPenaltyAddHistory(runLength: number, history: number[]) {
+    // Treat the area outside the symbol as a light border
+    if (history[0] === 0) runLength += this.size;
+    history.pop();
+    history.unshift(runLength);
+  }
+
+  private finderPenaltyCountPatterns(history: number[]): number {
+    const n = history[1];
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) +
+      (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+  }
+
+  private finderPenaltyTerminateAndCount(runColor: boolean, runLength: number, history: number[]): number {
+    if (runColor) {
+      this.finderPenaltyAddHistory(runLength, history);
+      runLength = 0;
+    }
+    runLength += this.size;
+    this.finderPenaltyAddHistory(runLength, history);
+    return this.finderPenaltyCountPatterns(history);
+  }
+
+  private linePenalty(get: (i: number) => boolean): number {
+    let result = 0;
+    let runColor = false;
+    let runLength = 0;
+    const history = [0, 0, 0, 0, 0, 0, 0];
+
+    for (let i = 0; i < this.size; i++) {
+      if (get(i) === runColor) {
+        runLength++;
+        if (runLength === 5) result += PENALTY_N1;
+        else if (runLength > 5) result++;
+      } else {
+        this.finderPenaltyAddHistory(runLength, history);
+        if (!runColor) result += this.finderPenaltyCountPatterns(history) * PENALTY_N3;
+        runColor = get(i);
+        runLength = 1;
+      }
+    }
+    return result + this.finderPenaltyTerminateAndCount(runColor, runLength, history) * PENALTY_N3;
+  }
+
+  getPenaltyScore(): number {
+    const { modules, size } = this;
+    let result = 0;
+
+    for (let y = 0; y < size; y++) result += this.linePenalty(x => modules[y][x]);
+    for (let x = 0; x < size; x++) result += this.linePenalty(y => modules[y][x]);
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    let dark = 0;
+    modules.forEach(row => row.forEach(module => { if (module) dark++; }));
+    const total = size * size;
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+    return result + k * PENALTY_N4;
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Encode text as a QR code in byte mode (UTF-8).
+ * Returns null when the data does not fit in version 40 at this level.
+ */
+export const encodeQR = (text: string, options: QREncodeOptions = {}): QRMatrix | null => {
+  const ecl = options.errorCorrectionLevel || 'M';
+  const bytes = toUtf8Bytes(text);
+
+  // Smallest version that fits
+  let version = Math.max(MIN_VERSION, Math.min(options.minVersion || MIN_VERSION, MAX_VERSION));
+  let usedBits: number | null = null;
+  for (; version <= MAX_VERSION; version++) {
+    usedBits = getByteModeBits(bytes.length, version);
+    if (usedBits !== null && usedBits <= getNumDataCodewords(version, ecl) * 8) break;
+  }
+  if (version > MAX_VERSION || usedBits === null) return null;
+
+  // Mode, count, data, terminator, byte padding, pad codewords
+  const bits: number[] = [];
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  appendBits(0b0100, 4);
+  appendBits(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => appendBits(byte, 8));
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8;
+  appendBits(0, Math.min(4, capacityBits - bits.length));
+  appendBits(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8);
+  }
+
+  const dataCodewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dataCodewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+
+  const builder = new QRBuilder(version, ecl);
+  builder.drawFunctionPatterns();
+  builder.drawCodewords(addEccAndInterleave(dataCodewords, version, ecl));
+
+  let mask = options.mask;
+  if (mask === undefined || mask < 0 || mask > 7) {
+    let minPenalty = Infinity;
+    for (let candidate = 0; candidate < 8; candidate++) {
+      builder.applyMask(candidate);
+      builder.drawFormatBits(candidate);
+      const penalty = builder.getPenaltyScore();
+      if (penalty < minPenalty) {
+        mask = candidate;
+        minPenalty = penalty;
+      }
+      builder.applyMask(candidate);
+    }
+  }
+
+  builder.applyMask(mask as number);
+  builder.drawFormatBits(mask as number);
+
+  return {
+    version,
+    size: builder.size,
+    errorCorrectionLevel: ecl,
+    mask: mask as number,
+    modules: builder.modules,
+  };
+};
+
+/**
+ * SVG markup for a QR matrix; one path for all dark modules
+ */
+export const qrToSvg = (qr: QRMatrix, options: QRSvgOptions = {}): string => {
+  const { margin = 4, color = '#000000', backgroundColor = '#FFFFFF', size } = options;
+  const dimension = qr.size + margin * 2;
+
+  const path: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) path.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+
+  const sizeAttrs = size ? ` width="${size}" height="${size}"` : '';
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}"${sizeAttrs} shape-rendering="crispEdges">` +
+    `<rect width="${dimension}" height="${dimension}" fill="${backgroundColor}"/>` +
+    `<path d="${path.join('')}" fill="${color}"/>` +
+    '</svg>'
+  );
+};
@@ -0,0 +1,327 @@
+/**
+ * Review Service
+ * Handles tour reviews and ratings
+ *
+ * Only approved reviews are public. Tour rating and review_count are
+ * recomputed server-side by the update_tour_rating trigger.
+ */
+
+import { supabase } from './supabase';
+import { stripHtml } from './validation';
+import { TourReview, TourReviewData, reviewDataToReview } from '@/types';
+
+// Pagination config
+export const REVIEWS_PAGE_SIZE = 10;
+export const REVIEW_MAX_LENGTH = 1000;
+
+export interface ReviewInput {
+  rating: number;
+  comment?: string;
+}
+
+export interface PaginatedReviews {
+  data: TourReview[];
+  error: string | null;
+  hasMore: boolean;
+  totalCount: number;
+}
+
+/**
+ * Enrich review rows with author profiles and tour summaries
+ */
+async function enrichReviews(rows: any[], includeTours = false): Promise<TourReviewData[]> {
+  if (!rows || rows.length === 0) return [];
+
+  const userIds = [...new Set(rows.map(r => r.user_id))];
+  const profilesMap: Record<string, any> = {};
+  const toursMap: Record<string, any> = {};
+
+  const { data: profilesData } = await supabase
+    .from('profiles')
+    .select('id, full_name, avatar_url')
+    .in('id', userIds);
+  profilesData?.forEach(p => { profilesMap[p.id] = p; });
+
+  if (includeTours) {
+    const tourIds = [...new Set(rows.map(r => r.tour_id))];
+    const { data: toursData } = await supabase
+      .from('tours')
+      .select('id, title, image')
+      .in('id', tourIds);
+    toursData?.forEach(t => { toursMap[t.id] = t; });
+  }
+
+  return rows.map(row => ({
+    ...row,
+    profiles: profilesMap[row.user_id] || null,
+    tours: includeTours ? toursMap[row.tour_id] || null : null,
+  }));
+}
+
+/**
+ * Validate and normalize review input
+ */
+const normalizeReviewInput = (input: ReviewInput): { rating: number; comment: string | null } | string => {
+  const rating = Math.round(input.rating);
+  if (!Number.isFinite(rating) || rating < 1 || rating > 5) {
+    return 'Puan 1 ile 5 arasında olmalıdır';
+  }
+
+  const comment = stripHtml(input.comment || '').trim().slice(0, REVIEW_MAX_LENGTH);
+  return { rating, comment: comment || null };
+};
+
+/**
+ * Get approved reviews for a tour, newest first
+ */
+export const getTourReviews = async (
+  tourId: string,
+  page: number = 0,
+  pageSize: number = REVIEWS_PAGE_SIZE
+): Promise<PaginatedReviews> => {
+  try {
+    const from = page * pageSize;
+    const to = from + pageSize - 1;
+
+    const { data, error, count } = await supabase
+      .from('reviews')
+      .select('*', { count: 'exact' })
+      .eq('tour_id', tourId)
+      .eq('is_approved', true)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    if (error) {
+      return { data: [], error: error.message, hasMore: false, totalCount: 0 };
+    }
+
+    const enriched = await enrichReviews(data || []);
+    const totalCount = count || 0;
+
+    return {
+      data: enriched.map(reviewDataToReview),
+      error: null,
+      hasMore: from + (data?.length || 0) < totalCount,
+      totalCount,
+    };
+  } catch (err: any) {
+    return { data: [], error: err.message, hasMore: false, totalCount: 0 };
+  }
+};
+
+/**
+ * Get the current user's review for a tour (any status)
+ */
+export const getUserReview = async (
+  userId: string,
+  tourId: string
+): Promise<{ data: TourReview | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('tour_id', tourId)
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    if (!data) {
+      return { data: null, error: null };
+    }
+
+    const [enriched] = await enrichReviews([data]);
+    return { data: reviewDataToReview(enriched), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Create a review. New reviews wait for admin approval.
+ */
+export const createReview = async (
+  userId: string,
+  tourId: string,
+  input: ReviewInput
+): Promise<{ data: TourReview | null; error: string | null }> => {
+  const normalized = normalizeReviewInput(input);
+  if (typeof normalized === 'string') {
+    return { data: null, error: normalized };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('reviews')
+      .insert({
+        user_id: userId,
+        tour_id: tourId,
+        rating: normalized.rating,
+        comment: normalized.comment,
+        is_approved: false,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return { data: null, error: 'Bu tur için zaten bir değerlendirmeniz var' };
+      }
+      return { data: null, error: error.message };
+    }
+
+    const [enriched] = await enrichReviews([data]);
+    return { data: reviewDataToReview(enriched), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Update own review. Edits go back to moderation (enforced by trigger).
+ */
+export const updateReview = async (
+  reviewId: string,
+  input: ReviewInput
+): Promise<{ data: TourReview | null; error: string | null }> => {
+  const normalized = normalizeReviewInput(input);
+  if (typeof normalized === 'string') {
+    return { data: null, error: normalized };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('reviews')
+      .update({
+        rating: normalized.rating,
+        comment: normalized.comment,
+      })
+      .eq('id', reviewId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    if (!data) {
+      return { data: null, error: 'Değerlendirme bulunamadı' };
+    }
+
+    const [enriched] = await enrichReviews([data]);
+    return { data: reviewDataToReview(enriched), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Delete a review (own review, or any review for admins)
+ */
+export const deleteReview = async (
+  reviewId: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('reviews')
+      .delete()
+      .eq('id', reviewId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+// =============================================
+// MODERATION (Admin)
+// =============================================
+
+/**
+ * Get reviews for the admin moderation queue
+ */
+export const getReviewsForModeration = async (
+  status: 'pending' | 'approved' | 'rejected' | 'all' = 'pending'
+): Promise<{ data: TourReview[]; error: string | null }> => {
+  try {
+    let query = supabase
+      .from('reviews')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (status === 'approved') {
+      query = query.eq('is_approved', true);
+    } else if (status === 'pending') {
+      query = query.eq('is_approved', false).is('moderated_at', null);
+    } else if (status === 'rejected') {
+      query = query.eq('is_approved', false).not('moderated_at', 'is', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    const enriched = await enrichReviews(data || [], true);
+    return { data: enriched.map(reviewDataToReview), error: null };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Approve or reject a review
+ */
+export const moderateReview = async (
+  reviewId: string,
+  adminId: string,
+  approve: boolean,
+  reason?: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('reviews')
+      .update({
+        is_approved: approve,
+        rejection_reason: approve ? null : reason || null,
+        moderated_by: adminId,
+        moderated_at: new Date().toISOString(),
+      })
+      .eq('id', reviewId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Recompute a tour's rating and review count from approved reviews
+ */
+export const recalculateTourRating = async (
+  tourId: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('recalculate_tour_rating', { p_tour_id: tourId });
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
@@ -638,3 +638,167 @@ export const SEASON_OPTIONS = [
 ] as const;
 
 export type SeasonOption = typeof SEASON_OPTIONS[number]['value'];
+
+// ============================================
+// Distance & Travel Estimates
+// ============================================
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Below this distance a leg is assumed to be walked
+export const WALKING_THRESHOLD_KM = 1.5;
+const WALKING_SPEED_KMH = 4.5;
+// Average driving speed on Cyprus roads, including villages and mountain passes
+const DRIVING_SPEED_KMH = 45;
+
+/**
+ * Great-circle distance between two points (haversine), in kilometers
+ */
+export const getDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.latitude - from.latitude);
+  const dLng = toRad(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(from.latitude)) * Math.cos(toRad(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * Rough travel time for a leg: walking for short hops, driving otherwise
+ */
+export const estimateTravelMinutes = (distanceKm: number): { minutes: number; mode: 'walk' | 'drive' } => {
+  const mode = distanceKm < WALKING_THRESHOLD_KM ? 'walk' : 'drive';
+  const speed = mode === 'walk' ? WALKING_SPEED_KMH : DRIVING_SPEED_KMH;
+  return { minutes: Math.max(1, Math.round((distanceKm / speed) * 60)), mode };
+};
+
+/**
+ * Whether a stop has usable coordinates
+ */
+export const hasCoordinates = (stop: RouteStop): stop is RouteStop & GeoPoint =>
+  typeof stop.latitude === 'number' && typeof stop.longitude === 'number';
+
+// ============================================
+// Route Optimizer
+// ============================================
+
+export interface RouteLeg {
+  from: RouteStop;
+  to: RouteStop;
+  distanceKm: number;
+  minutes: number;
+  mode: 'walk' | 'drive';
+}
+
+// Improvements smaller than this are treated as noise to keep 2-opt from looping
+const TWO_OPT_EPSILON_KM = 1e-6;
+
+const getPathLengthKm = (points: GeoPoint[]): number => {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += getDistanceKm(points[i - 1], points[i]);
+  }
+  return total;
+};
+
+/**
+ * Greedy tour: always walk to the closest unvisited point. The first point stays the start.
+ */
+const nearestNeighbourPath = <T extends GeoPoint>(points: T[]): T[] => {
+  if (points.length <= 2) return [...points];
+
+  const path = [points[0]];
+  const remaining = points.slice(1);
+
+  while (remaining.length > 0) {
+    const last = path[path.length - 1];
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    remaining.forEach((point, index) => {
+      const distance = getDistanceKm(last, point);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+    path.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return path;
+};
+
+/**
+ * 2-opt on an open path: reverse segments while that shortens the route.
+ * The start point is kept fixed, the end is free.
+ */
+const twoOpt = <T extends GeoPoint>(points: T[]): T[] => {
+  const path = [...points];
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const before = getDistanceKm(path[i - 1], path[i])
+          + (k + 1 < path.length ? getDistanceKm(path[k], path[k + 1]) : 0);
+        const after = getDistanceKm(path[i - 1], path[k])
+          + (k + 1 < path.length ? getDistanceKm(path[i], path[k + 1]) : 0);
+
+        if (after + TWO_OPT_EPSILON_KM < before) {
+          const reversed = path.slice(i, k + 1).reverse();
+          path.splice(i, reversed.length, ...reversed);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return path;
+};
+
+/**
+ * Suggest a shorter visiting order for a day's stops (nearest-neighbour + 2-opt).
+ * The current first stop stays first; stops without coordinates keep their
+ * relative order at the end. `order` is renumbered from 1.
+ */
+export const optimizeStopOrder = (stops: RouteStop[]): RouteStop[] => {
+  const sorted = [...stops].sort((a, b) => a.order - b.order);
+  const located = sorted.filter(hasCoordinates);
+  const unlocated = sorted.filter(stop => !hasCoordinates(stop));
+
+  const optimized = twoOpt(nearestNeighbourPath(located));
+
+  return [...optimized, ...unlocated].map((stop, index) => ({ ...stop, order: index + 1 }));
+};
+
+/**
+ * Distance and travel estimate between consecutive stops (in order).
+ * Legs touching a stop without coordinates are left out.
+ */
+export const getLegEstimates = (stops: RouteStop[]): RouteLeg[] => {
+  const sorted = [...stops].sort((a, b) => a.order - b.order);
+  const legs: RouteLeg[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const from = sorted[i - 1];
+    const to = sorted[i];
+    if (!hasCoordinates(from) || !hasCoordinates(to)) continue;
+
+    const distanceKm = getDistanceKm(from, to);
+    legs.push({ from, to, distanceKm, ...estimateTravelMinutes(distanceKm) });
+  }
+
+  return legs;
+};
+
+/**
+ * Total straight-line kilometers for a day in its current order
+ */
+export const getDayDistanceKm = (day: RouteDay): number =>
+  getPathLengthKm([...day.stops].sort((a, b) => a.order - b.order).filter(hasCoordinates));
@@ -0,0 +1,171 @@
+/**
+ * Scan History Service
+ * Reads the scan quota and the scan history synced across devices
+ *
+ * Both are written by the analyze-image Edge Function: it counts each
+ * landmark scan against the user's plan and stores successful results
+ * with a thumbnail in the private scan-thumbnails bucket.
+ */
+
+import { supabase } from './supabase';
+import type { VisionAnalysisResult } from './visionService';
+
+const THUMBNAIL_BUCKET = 'scan-thumbnails';
+const THUMBNAIL_URL_TTL_SECONDS = 60 * 60;
+const HISTORY_LIMIT = 50;
+
+export interface ScanQuota {
+  used: number;
+  limit: number;
+  remaining: number;
+  resetsAt?: string;
+}
+
+export interface ScanHistoryItem {
+  id: string;
+  placeName: string;
+  placeNameLocal?: string;
+  category: VisionAnalysisResult['category'];
+  confidence: number;
+  result: VisionAnalysisResult;
+  thumbnailPath?: string;
+  thumbnailUrl?: string;
+  createdAt: string;
+}
+
+interface ScanHistoryData {
+  id: string;
+  place_name: string;
+  place_name_local: string | null;
+  category: string;
+  confidence: number | string;
+  result: Omit<VisionAnalysisResult, 'success'>;
+  thumbnail_path: string | null;
+  created_at: string;
+}
+
+export const toScanQuota = (row: {
+  used: number;
+  scan_limit?: number;
+  limit?: number;
+  resets_at?: string | null;
+  resetsAt?: string | null;
+}): ScanQuota => {
+  const limit = row.scan_limit ?? row.limit ?? 0;
+  return {
+    used: row.used,
+    limit,
+    remaining: Math.max(0, limit - row.used),
+    resetsAt: (row.resets_at ?? row.resetsAt) || undefined,
+  };
+};
+
+const toHistoryItem = (row: ScanHistoryData, thumbnailUrl?: string): ScanHistoryItem => ({
+  id: row.id,
+  placeName: row.place_name,
+  placeNameLocal: row.place_name_local || undefined,
+  category: row.category as ScanHistoryItem['category'],
+  confidence: Number(row.confidence),
+  result: {
+    ...row.result,
+    success: true,
+    funFacts: row.result.funFacts || [],
+    visitTips: row.result.visitTips || [],
+  },
+  thumbnailPath: row.thumbnail_path || undefined,
+  thumbnailUrl,
+  createdAt: row.created_at,
+});
+
+/**
+ * Get the current user's scan quota without using a scan
+ */
+export const getScanQuota = async (): Promise<{ data: ScanQuota | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_scan_quota');
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return { data: row ? toScanQuota(row) : null, error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Get the current user's scan history, newest first
+ */
+export const getScanHistory = async (
+  userId: string
+): Promise<{ data: ScanHistoryItem[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('scan_history')
+      .select('id, place_name, place_name_local, category, confidence, result, thumbnail_path, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    const rows = (data || []) as ScanHistoryData[];
+    const paths = rows.map(row => row.thumbnail_path).filter((path): path is string => !!path);
+
+    // Thumbnails are private; a missing signed URL just shows a placeholder
+    const signedUrls: Record<string, string> = {};
+    if (paths.length > 0) {
+      const { data: signed } = await supabase.storage
+        .from(THUMBNAIL_BUCKET)
+        .createSignedUrls(paths, THUMBNAIL_URL_TTL_SECONDS);
+
+      (signed || []).forEach(entry => {
+        if (entry.path && entry.signedUrl) {
+          signedUrls[entry.path] = entry.signedUrl;
+        }
+      });
+    }
+
+    return {
+      data: rows.map(row => toHistoryItem(row, row.thumbnail_path ? signedUrls[row.thumbnail_path] : undefined)),
+      error: null,
+    };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Delete scan history entries and their thumbnails
+ */
+export const deleteScanHistory = async (
+  items: Pick<ScanHistoryItem, 'id' | 'thumbnailPath'>[]
+): Promise<{ success: boolean; error: string | null }> => {
+  if (items.length === 0) {
+    return { success: true, error: null };
+  }
+
+  try {
+    const { error } = await supabase
+      .from('scan_history')
+      .delete()
+      .in('id', items.map(item => item.id));
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    const paths = items.map(item => item.thumbnailPath).filter((path): path is string => !!path);
+    if (paths.length > 0) {
+      await supabase.storage.from(THUMBNAIL_BUCKET).remove(paths);
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
@@ -0,0 +1,250 @@
+/**
+ * Scan Match Service
+ * Links a scanned place to our own tours and thematic route stops
+ *
+ * The vision model answers in free text ("Kyrenia Castle", "Girne Kalesi",
+ * "Κάστρο της Κερύνειας"), so names are normalized before comparing:
+ * diacritics and Greek letters are folded to ASCII, known Turkish, Greek
+ * and English variants of places and place types map to one token, and
+ * remaining tokens are compared with typo tolerance.
+ */
+
+import type { VisionAnalysisResult } from './visionService';
+import { RouteStop, ThematicRoute, Tour } from '@/types';
+
+// Minimum score (0-1) for a tour or stop to count as the scanned place
+export const MATCH_THRESHOLD = 0.6;
+
+// Max matches returned per kind
+const MAX_MATCHES = 3;
+
+// Token similarity accepted as a typo of the same word
+const FUZZY_TOKEN_SIMILARITY = 0.8;
+
+// Place types weigh less than names: "castle" alone says little
+const GENERIC_TOKEN_WEIGHT = 0.5;
+
+const GREEK_TO_LATIN: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th',
+  ι: 'i', κ: 'k', λ: 'l', μ: 'm', ν: 'n', ξ: 'x', ο: 'o', π: 'p',
+  ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o',
+};
+
+// Canonical token -> variants (already folded to ASCII)
+const PLACE_ALIASES: Record<string, string[]> = {
+  kyrenia: ['girne', 'keryneia', 'kerynia', 'keryneias'],
+  famagusta: ['gazimagusa', 'magusa', 'ammochostos', 'ammochostou'],
+  nicosia: ['lefkosa', 'lefkosia', 'lefkosias'],
+  morphou: ['guzelyurt', 'morfou'],
+  bellapais: ['beylerbeyi', 'bellapaix', 'mpellapais'],
+  hilarion: ['ilarion', 'ilarionos'],
+  salamis: ['salamina', 'salaminas'],
+  karpaz: ['karpas', 'karpasia', 'karpasias'],
+  iskele: ['trikomo', 'trikomon'],
+  lapta: ['lapithos'],
+  soli: ['soloi'],
+  vouni: ['vuni'],
+  othello: ['otello'],
+};
+
+const GENERIC_ALIASES: Record<string, string[]> = {
+  castle: ['kale', 'kalesi', 'kastro', 'kastron', 'fortress', 'fort'],
+  abbey: ['manastir', 'manastiri', 'monastery', 'moni'],
+  mosque: ['cami', 'camii', 'tzami'],
+  church: ['kilise', 'kilisesi', 'ekklisia'],
+  cathedral: ['katedral', 'katedrali'],
+  museum: ['muze', 'muzesi', 'mouseio'],
+  harbour: ['harbor', 'liman', 'limani', 'port'],
+  ruins: ['harabe', 'harabeleri', 'antik', 'ancient', 'archaeological', 'oren', 'oreni'],
+  tower: ['kule', 'kulesi', 'pyrgos'],
+  walls: ['sur', 'surlari', 'teichi'],
+  gate: ['kapi', 'kapisi', 'pyli'],
+  beach: ['plaj', 'plaji', 'paralia'],
+};
+
+const STOP_WORDS = new Set([
+  'the', 'of', 'and', 'ile', 've', 'tis', 'tou', 'ton', 'st', 'saint', 'aziz', 'agios', 'ayios', 'agia', 'ayia', 'hagia',
+  'city', 'kent', 'kenti', 'sehir', 'old', 'eski', 'north', 'kuzey', 'cyprus', 'kibris', 'kktc', 'trnc',
+]);
+
+const buildAliasMap = (aliases: Record<string, string[]>): Map<string, string> => {
+  const map = new Map<string, string>();
+  Object.entries(aliases).forEach(([canonical, variants]) => {
+    map.set(canonical, canonical);
+    variants.forEach(variant => map.set(variant, canonical));
+  });
+  return map;
+};
+
+const PLACE_TOKENS = buildAliasMap(PLACE_ALIASES);
+const GENERIC_TOKENS = buildAliasMap(GENERIC_ALIASES);
+const GENERIC_CANONICAL = new Set(Object.keys(GENERIC_ALIASES));
+
+/**
+ * Fold a name to lowercase ASCII: Turkish dotless i, diacritics and
+ * Greek letters included
+ */
+export const foldPlaceName = (name: string): string =>
+  name
+    .replace(/İ/g, 'i')
+    .toLowerCase()
+    .replace(/ı/g, 'i')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // remove diacritics
+    .replace(/[α-ω]/g, char => GREEK_TO_LATIN[char] ?? char)
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Split a name into canonical tokens
+ */
+export const tokenizePlaceName = (name: string): string[] => {
+  const tokens = foldPlaceName(name)
+    .split(' ')
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+    .map(token => PLACE_TOKENS.get(token) ?? GENERIC_TOKENS.get(token) ?? token);
+
+  return Array.from(new Set(tokens));
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  // Short tokens and place types must match exactly
+  if (a.length < 4 || b.length < 4 || GENERIC_CANONICAL.has(a) || GENERIC_CANONICAL.has(b)) return 0;
+
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= FUZZY_TOKEN_SIMILARITY ? similarity : 0;
+};
+
+const tokenWeight = (token: string): number => (GENERIC_CANONICAL.has(token) ? GENERIC_TOKEN_WEIGHT : 1);
+
+// Weighted share of `tokens` found in `others`
+const coverage = (tokens: string[], others: string[]): { score: number; distinctive: boolean } => {
+  let total = 0;
+  let matched = 0;
+  let distinctive = false;
+
+  tokens.forEach(token => {
+    const weight = tokenWeight(token);
+    const best = Math.max(0, ...others.map(other => tokenSimilarity(token, other)));
+    total += weight;
+    matched += weight * best;
+    if (best > 0 && !GENERIC_CANONICAL.has(token)) distinctive = true;
+  });
+
+  return { score: total > 0 ? matched / total : 0, distinctive };
+};
+
+/**
+ * Similarity of two place names, 0-1
+ *
+ * Needs at least one shared name token, and a shared place type when
+ * both names have one ("Kyrenia Castle" is not "Kyrenia Harbour").
+ */
+export const scorePlaceName = (query: string, candidate: string): number => {
+  const queryTokens = tokenizePlaceName(query);
+  const candidateTokens = tokenizePlaceName(candidate);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) return 0;
+
+  const forward = coverage(queryTokens, candidateTokens);
+  if (!forward.distinctive) return 0;
+
+  const queryTypes = queryTokens.filter(token => GENERIC_CANONICAL.has(token));
+  const candidateTypes = candidateTokens.filter(token => GENERIC_CANONICAL.has(token));
+  if (queryTypes.length > 0 && candidateTypes.length > 0 && !queryTypes.some(type => candidateTypes.includes(type))) {
+    return 0;
+  }
+
+  // The scanned name matters more than extra words in a tour title
+  return 0.6 * forward.score + 0.4 * coverage(candidateTokens, queryTokens).score;
+};
+
+export interface TourMatch {
+  tour: Tour;
+  score: number;
+}
+
+export interface RouteMatch {
+  route: ThematicRoute;
+  stop: RouteStop;
+  dayIndex: number;
+  score: number;
+}
+
+export interface ScanCatalogMatches {
+  tours: TourMatch[];
+  routes: RouteMatch[];
+}
+
+type ScanPlace = Pick<VisionAnalysisResult, 'placeName' | 'placeNameLocal' | 'location'>;
+
+const bestNameScore = (names: string[], candidate: string): number =>
+  Math.max(0, ...names.map(name => scorePlaceName(name, candidate)));
+
+/**
+ * Find the tours and route stops that are the scanned place
+ */
+export const matchScanToCatalog = (
+  place: ScanPlace,
+  tours: Tour[],
+  routes: ThematicRoute[]
+): ScanCatalogMatches => {
+  const names = [place.placeName, place.placeNameLocal].filter((name): name is string => !!name);
+  if (names.length === 0) return { tours: [], routes: [] };
+
+  const cityTokens = place.location?.city ? tokenizePlaceName(place.location.city) : [];
+
+  const tourMatches: TourMatch[] = tours
+    .map(tour => {
+      let score = bestNameScore(names, tour.title);
+      // Small boost when the tour is in the same town
+      if (score > 0 && cityTokens.some(token => tokenizePlaceName(tour.location).includes(token))) {
+        score = Math.min(1, score + 0.05);
+      }
+      return { tour, score };
+    })
+    .filter(match => match.score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const tourScores = new Map(tourMatches.map(match => [match.tour.id, match.score]));
+
+  const routeMatches: RouteMatch[] = [];
+  for (const route of routes) {
+    let best: RouteMatch | null = null;
+    for (const day of route.itinerary) {
+      for (const stop of day.stops) {
+        // A stop linked to a matching tour is the same place
+        const score = Math.max(
+          stop.tourId ? tourScores.get(stop.tourId) ?? 0 : 0,
+          bestNameScore(names, stop.name)
+        );
+        if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+          best = { route, stop, dayIndex: day.dayIndex, score };
+        }
+      }
+    }
+    if (best) routeMatches.push(best);
+  }
+  routeMatches.sort((a, b) => b.score - a.score);
+
+  return {
+    tours: tourMatches.slice(0, MAX_MATCHES),
+    routes: routeMatches.slice(0, MAX_MATCHES),
+  };
+};
@@ -580,6 +580,35 @@ export const searchTours = async (
   }
 };
 
+// Max tours fetched for a single map viewport
+export const MAP_VIEWPORT_TOUR_LIMIT = 500;
+
+// Get tours inside a map bounding box (Explore map viewport)
+export const getToursInBounds = async (
+  bounds: { minLat: number; minLng: number; maxLat: number; maxLng: number },
+  categoryId?: string,
+  limit: number = MAP_VIEWPORT_TOUR_LIMIT
+): Promise<{ data: TourData[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase.rpc('get_tours_in_bounds', {
+      p_min_lat: bounds.minLat,
+      p_min_lng: bounds.minLng,
+      p_max_lat: bounds.maxLat,
+      p_max_lng: bounds.maxLng,
+      p_category: categoryId && categoryId !== 'all' ? categoryId : null,
+      p_limit: limit,
+    });
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    return { data: (data as TourData[]) || [], error: null };
+  } catch (error: any) {
+    return { data: [], error: error.message };
+  }
+};
+
 // Get single tour
 export const getTourById = async (id: string): Promise<{ data: TourData | null; error: string | null }> => {
   try {
@@ -1,6 +1,11 @@
 /**
  * Two-Factor Authentication Service
- * Handles email-based 2FA verification codes
+ * Handles email verification codes, authenticator apps (TOTP) and
+ * recovery codes
+ *
+ * Authenticator secrets are created and checked by the database
+ * (migration 043); the app only turns the secret into an otpauth://
+ * URI for the QR code during enrollment.
  */
 
 import { supabase } from './supabase';
@@ -9,18 +14,31 @@ import { getCurrentLanguage } from './i18n';
 
 export type VerificationPurpose = 'two_factor' | 'email_change' | 'password_reset';
 
+// How a sign-in is confirmed. Users with an authenticator app use it or
+// a recovery code; everyone else gets an emailed code.
+export type TwoFactorMethod = 'email' | 'totp' | 'recovery';
+
+// Shown as the account label in authenticator apps
+const TOTP_ISSUER = 'Cyprigo';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
 export interface GenerateCodeResult {
   success: boolean;
-  code?: string;
   expiresAt?: Date;
   error?: string;
+  // Seconds until another code can be requested when error is 'rate_limited'
+  retryAfter?: number;
 }
 
 export interface VerifyCodeResult {
   success: boolean;
-  error?: 'no_code_found' | 'code_expired' | 'max_attempts_exceeded' | 'invalid_code' | 'unknown';
+  error?: 'no_code_found' | 'code_expired' | 'max_attempts_exceeded' | 'invalid_code' | 'not_enrolled' | 'totp_required' | 'unknown';
   message?: string;
   attemptsRemaining?: number;
+  // Set after a recovery code was used
+  recoveryCodesRemaining?: number;
+  // One-time token for update-password after a password_reset code
+  resetToken?: string;
 }
 
 export interface TwoFactorStatus {
@@ -28,41 +46,67 @@ export interface TwoFactorStatus {
   error?: string;
 }
 
+export interface TwoFactorFactors {
+  enabled: boolean;
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TotpEnrollment {
+  // Base32, for typing into the app by hand
+  secret: string;
+  // otpauth:// provisioning URI, encoded in the QR code
+  uri: string;
+}
+
+export interface RecoveryCodesResult {
+  success: boolean;
+  recoveryCodes?: string[];
+  error?: VerifyCodeResult['error'] | 'already_enabled' | 'no_enrollment';
+  attemptsRemaining?: number;
+}
+
 /**
- * Generate a 6-digit verification code and store it in the database
- * The code will be sent via email using Supabase Edge Function or external service
+ * Ask the server to issue a verification code and email it
+ * The code is generated, hashed and sent by the send-verification-email
+ * Edge Function; only its expiry time comes back. two_factor and
+ * email_change need a session, password_reset takes the account email.
  */
-export async function generateVerificationCode(
-  userId: string,
-  email: string,
-  purpose: VerificationPurpose = 'two_factor',
-  expiresMinutes: number = 10
+export async function requestVerificationCode(
+  purpose: VerificationPurpose,
+  options: { email?: string; userName?: string } = {}
 ): Promise<GenerateCodeResult> {
   try {
-    const { data, error } = await supabase.rpc('generate_verification_code', {
-      p_user_id: userId,
-      p_email: email,
-      p_purpose: purpose,
-      p_expires_minutes: expiresMinutes,
+    // Get current app language for localized email
+    const language = getCurrentLanguage();
+
+    const { data, error } = await supabase.functions.invoke('send-verification-email', {
+      body: {
+        purpose,
+        email: options.email,
+        userName: options.userName,
+        language: language === 'en' ? 'en' : 'tr', // Support tr/en for now
+      },
     });
 
     if (error) {
-      logger.error('[TwoFactorService] Generate code error:', error);
+      logger.error('[TwoFactorService] Edge function error:', error);
       return { success: false, error: error.message };
     }
 
-    if (data && data.length > 0) {
-      const result = data[0];
-      return {
-        success: true,
-        code: result.code,
-        expiresAt: new Date(result.expires_at),
-      };
+    if (data?.error === 'rate_limited') {
+      logger.warn(`[TwoFactorService] Code request throttled, retry in ${data.retryAfter}s`);
+      return { success: false, error: 'rate_limited', retryAfter: data.retryAfter };
     }
 
-    return { success: false, error: 'Failed to generate code' };
+    if (data?.success && data.expiresAt) {
+      return { success: true, expiresAt: new Date(data.expiresAt) };
+    }
+
+    logger.error('[TwoFactorService] Edge function returned error:', data?.error);
+    return { success: false, error: data?.error || 'Failed to send code' };
   } catch (error: any) {
-    logger.error('[TwoFactorService] Generate code exception:', error);
+    logger.error('[TwoFactorService] Request code exception:', error);
     return { success: false, error: error.message };
   }
 }
@@ -93,6 +137,7 @@ export async function verifyCode(
         error: data.error,
         message: data.message,
         attemptsRemaining: data.attempts_remaining,
+        resetToken: data.reset_token ?? undefined,
       };
     }
 
@@ -154,82 +199,204 @@ export async function toggleTwoFactor(
 }
 
 /**
- * Send verification code via email
- * Uses Supabase Edge Function to send emails via Resend API
+ * Start login 2FA: email a code to the signed-in user's address
  */
-export async function sendVerificationEmail(
-  email: string,
-  code: string,
-  userName?: string
-): Promise<{ success: boolean; error?: string }> {
+export async function initiateTwoFactorVerification(userName?: string): Promise<GenerateCodeResult> {
+  return requestVerificationCode('two_factor', { userName });
+}
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  bytes.forEach(byte => {
+    // Only the unread bits matter; masking keeps the number small
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  });
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) || []).map(pair => parseInt(pair, 16)));
+
+/**
+ * Build the otpauth:// provisioning URI authenticator apps scan
+ */
+export function buildTotpUri(secret: string, accountName: string, issuer: string = TOTP_ISSUER): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    'digits=6',
+    'period=30',
+  ];
+  return `otpauth://totp/${label}?${params.join('&')}`;
+}
+
+/**
+ * Group a base32 secret in fours for reading
+ */
+export function formatTotpSecret(secret: string): string {
+  return (secret.match(/.{1,4}/g) || []).join(' ');
+}
+
+const toVerifyCodeResult = (data: any): VerifyCodeResult => ({
+  success: data.success,
+  error: data.error,
+  message: data.message,
+  attemptsRemaining: data.attempts_remaining,
+  recoveryCodesRemaining: data.recovery_codes_remaining,
+});
+
+/**
+ * Get the signed-in user's 2FA setting and second factors
+ */
+export async function getTwoFactorFactors(): Promise<{ data: TwoFactorFactors | null; error: string | null }> {
   try {
-    // Get current app language for localized email
-    const language = getCurrentLanguage();
-    
-    logger.info(`[TwoFactorService] Sending verification email to ${email}`);
+    const { data, error } = await supabase.rpc('get_two_factor_factors');
 
-    // Use Supabase Edge Function to send email
-    const { data, error } = await supabase.functions.invoke('send-verification-email', {
-      body: { 
-        email, 
-        code, 
-        userName,
-        language: language === 'en' ? 'en' : 'tr', // Support tr/en for now
+    if (error) {
+      logger.error('[TwoFactorService] Get factors error:', error);
+      return { data: null, error: error.message };
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      data: {
+        enabled: row?.two_factor_enabled === true,
+        totpEnabled: row?.totp_enabled === true,
+        recoveryCodesRemaining: row?.recovery_codes_remaining ?? 0,
       },
-    });
+      error: null,
+    };
+  } catch (error: any) {
+    logger.error('[TwoFactorService] Get factors exception:', error);
+    return { data: null, error: error.message };
+  }
+}
+
+/**
+ * Start authenticator app enrollment
+ * Replaces any unfinished enrollment with a new secret.
+ */
+export async function beginTotpEnrollment(
+  accountName: string
+): Promise<{ data: TotpEnrollment | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('begin_totp_enrollment');
 
     if (error) {
-      logger.error('[TwoFactorService] Edge function error:', error);
-      return { success: false, error: error.message };
+      logger.error('[TwoFactorService] Begin TOTP enrollment error:', error);
+      return { data: null, error: error.message };
     }
 
-    // Check if the response indicates success
-    if (data && data.success) {
-      logger.info(`[TwoFactorService] Verification email sent successfully to ${email}`);
-      return { success: true };
+    if (!data?.success || !data.secret) {
+      return { data: null, error: data?.error || 'unknown' };
     }
 
-    // Handle error response from Edge Function
-    if (data && data.error) {
-      logger.error('[TwoFactorService] Edge function returned error:', data.error);
-      return { success: false, error: data.error };
+    const secret = encodeBase32(hexToBytes(data.secret));
+    return { data: { secret, uri: buildTotpUri(secret, accountName) }, error: null };
+  } catch (error: any) {
+    logger.error('[TwoFactorService] Begin TOTP enrollment exception:', error);
+    return { data: null, error: error.message };
+  }
+}
+
+const callRecoveryCodesRpc = async (
+  fn: 'confirm_totp_enrollment' | 'regenerate_recovery_codes',
+  code: string
+): Promise<RecoveryCodesResult> => {
+  try {
+    const { data, error } = await supabase.rpc(fn, { p_code: code });
+
+    if (error) {
+      logger.error(`[TwoFactorService] ${fn} error:`, error);
+      return { success: false, error: 'unknown' };
+    }
+
+    if (data?.success) {
+      return { success: true, recoveryCodes: data.recovery_codes || [] };
     }
 
-    return { success: true };
+    return { success: false, error: data?.error || 'unknown', attemptsRemaining: data?.attempts_remaining };
   } catch (error: any) {
-    logger.error('[TwoFactorService] Send email error:', error);
-    return { success: false, error: error.message };
+    logger.error(`[TwoFactorService] ${fn} exception:`, error);
+    return { success: false, error: 'unknown' };
   }
+};
+
+/**
+ * Finish enrollment with a code from the app
+ * Returns the first recovery codes; they can't be shown again.
+ */
+export async function confirmTotpEnrollment(code: string): Promise<RecoveryCodesResult> {
+  return callRecoveryCodesRpc('confirm_totp_enrollment', code);
 }
 
 /**
- * Complete 2FA flow: generate code and send email
+ * Replace all recovery codes, confirmed with a code from the app
  */
-export async function initiateTwoFactorVerification(
-  userId: string,
-  email: string,
-  userName?: string
-): Promise<GenerateCodeResult> {
-  // Generate the code
-  const result = await generateVerificationCode(userId, email, 'two_factor');
+export async function regenerateRecoveryCodes(code: string): Promise<RecoveryCodesResult> {
+  return callRecoveryCodesRpc('regenerate_recovery_codes', code);
+}
 
-  if (!result.success || !result.code) {
-    return result;
-  }
+const callVerifyRpc = async (
+  fn: 'verify_totp_code' | 'verify_recovery_code' | 'disable_totp',
+  code: string
+): Promise<VerifyCodeResult> => {
+  try {
+    const { data, error } = await supabase.rpc(fn, { p_code: code });
 
-  // Send the email via Edge Function
-  const emailResult = await sendVerificationEmail(email, result.code, userName);
+    if (error) {
+      logger.error(`[TwoFactorService] ${fn} error:`, error);
+      return { success: false, error: 'unknown', message: error.message };
+    }
+
+    if (data) {
+      return toVerifyCodeResult(data);
+    }
 
-  if (!emailResult.success) {
-    logger.error('[TwoFactorService] Failed to send verification email:', emailResult.error);
-    return { success: false, error: emailResult.error };
+    return { success: false, error: 'unknown', message: 'Unknown error' };
+  } catch (error: any) {
+    logger.error(`[TwoFactorService] ${fn} exception:`, error);
+    return { success: false, error: 'unknown', message: error.message };
   }
+};
+
+/**
+ * Verify a code from the authenticator app at sign-in
+ */
+export async function verifyTotpCode(code: string): Promise<VerifyCodeResult> {
+  return callVerifyRpc('verify_totp_code', code);
+}
 
-  // Never return the code to client for security
-  return {
-    success: true,
-    expiresAt: result.expiresAt,
-  };
+/**
+ * Verify a recovery code at sign-in; each code works once
+ */
+export async function verifyRecoveryCode(code: string): Promise<VerifyCodeResult> {
+  return callVerifyRpc('verify_recovery_code', code);
+}
+
+/**
+ * Remove the authenticator app, confirmed with an app or recovery code
+ */
+export async function disableTotp(code: string): Promise<VerifyCodeResult> {
+  return callVerifyRpc('disable_totp', code);
 }
 
 /**
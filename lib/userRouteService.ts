@@ -0,0 +1,420 @@
+/**
+ * User Route Service
+ * "My Trip Planner": private multi-day plans built from tours, favorites
+ * and scan results. Plans can be shared by link and submitted to admins
+ * as a candidate thematic route.
+ */
+
+import { supabase } from './supabase';
+import {
+  RouteDay,
+  RouteStop,
+  RouteStopType,
+  ThematicRoute,
+  Tour,
+  UserRoute,
+  UserRouteData,
+  userRouteDataToRoute,
+} from '@/types';
+import type { VisionAnalysisResult } from './visionService';
+
+export const USER_ROUTE_MAX_DAYS = 14;
+export const USER_ROUTE_MAX_STOPS_PER_DAY = 12;
+export const USER_ROUTE_TITLE_MAX_LENGTH = 120;
+
+export interface UserRouteInput {
+  title: string;
+  description?: string;
+  itinerary: RouteDay[];
+}
+
+// ============================================
+// Plan Editing (pure helpers)
+// ============================================
+
+const createStopId = (prefix: string) =>
+  `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Empty day for a plan
+ */
+export const createPlanDay = (dayIndex: number): RouteDay => ({
+  dayIndex,
+  title: '',
+  stops: [],
+});
+
+/**
+ * Stop that links back to an existing tour
+ */
+export const createStopFromTour = (tour: Tour): RouteStop => ({
+  id: createStopId('tour'),
+  order: 1,
+  type: 'tour',
+  name: tour.title,
+  description: tour.location,
+  duration: tour.duration || undefined,
+  tourId: tour.id,
+  latitude: tour.latitude,
+  longitude: tour.longitude,
+  image: tour.imageThumb || tour.image || undefined,
+});
+
+const SCAN_CATEGORY_STOP_TYPES: Partial<Record<VisionAnalysisResult['category'], RouteStopType>> = {
+  beach: 'beach',
+  natural: 'viewpoint',
+};
+
+/**
+ * Stop from a recognised place on the scan screen
+ */
+export const createStopFromScan = (result: VisionAnalysisResult): RouteStop => ({
+  id: createStopId('scan'),
+  order: 1,
+  type: SCAN_CATEGORY_STOP_TYPES[result.category] || 'poi',
+  name: result.placeNameLocal || result.placeName,
+  description: [result.location?.city, result.location?.region].filter(Boolean).join(', ') || undefined,
+  duration: result.estimatedDuration,
+  tips: result.visitTips?.[0],
+});
+
+const renumber = (stops: RouteStop[]): RouteStop[] =>
+  stops.map((stop, index) => ({ ...stop, order: index + 1 }));
+
+const updatePlanDay = (
+  itinerary: RouteDay[],
+  dayIndex: number,
+  change: (day: RouteDay) => RouteDay
+): RouteDay[] => itinerary.map(day => (day.dayIndex === dayIndex ? change(day) : day));
+
+/**
+ * Append a stop to a day. A tour already on that day is not added twice.
+ */
+export const addStopToPlan = (itinerary: RouteDay[], dayIndex: number, stop: RouteStop): RouteDay[] => {
+  const days = itinerary.some(day => day.dayIndex === dayIndex)
+    ? itinerary
+    : [...itinerary, createPlanDay(dayIndex)].sort((a, b) => a.dayIndex - b.dayIndex);
+
+  return updatePlanDay(days, dayIndex, day => {
+    if (stop.tourId && day.stops.some(s => s.tourId === stop.tourId)) return day;
+    return { ...day, stops: renumber([...day.stops, stop]) };
+  });
+};
+
+/**
+ * Remove a stop from a day
+ */
+export const removeStopFromPlan = (itinerary: RouteDay[], dayIndex: number, stopId: string): RouteDay[] =>
+  updatePlanDay(itinerary, dayIndex, day => ({
+    ...day,
+    stops: renumber(day.stops.filter(stop => stop.id !== stopId)),
+  }));
+
+/**
+ * Move a stop one position up (-1) or down (+1) within its day
+ */
+export const moveStopInPlan = (
+  itinerary: RouteDay[],
+  dayIndex: number,
+  stopId: string,
+  direction: -1 | 1
+): RouteDay[] =>
+  updatePlanDay(itinerary, dayIndex, day => {
+    const from = day.stops.findIndex(stop => stop.id === stopId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= day.stops.length) return day;
+
+    const stops = [...day.stops];
+    [stops[from], stops[to]] = [stops[to], stops[from]];
+    return { ...day, stops: renumber(stops) };
+  });
+
+/**
+ * Add an empty day at the end of the plan
+ */
+export const addDayToPlan = (itinerary: RouteDay[]): RouteDay[] =>
+  itinerary.length >= USER_ROUTE_MAX_DAYS
+    ? itinerary
+    : [...itinerary, createPlanDay(itinerary.length + 1)];
+
+/**
+ * Remove a day and renumber the ones after it
+ */
+export const removeDayFromPlan = (itinerary: RouteDay[], dayIndex: number): RouteDay[] =>
+  itinerary
+    .filter(day => day.dayIndex !== dayIndex)
+    .map((day, index) => ({ ...day, dayIndex: index + 1 }));
+
+/**
+ * Validate a plan before saving. Returns an error message or null.
+ */
+export const validateUserRoute = (input: UserRouteInput): string | null => {
+  const title = input.title.trim();
+  if (!title) return 'Plan adı gerekli';
+  if (title.length > USER_ROUTE_TITLE_MAX_LENGTH) return 'Plan adı çok uzun';
+  if (input.itinerary.length === 0 || input.itinerary.length > USER_ROUTE_MAX_DAYS) {
+    return `Plan 1-${USER_ROUTE_MAX_DAYS} gün arasında olmalı`;
+  }
+  if (input.itinerary.every(day => day.stops.length === 0)) return 'Plana en az bir durak ekleyin';
+  if (input.itinerary.some(day => day.stops.length > USER_ROUTE_MAX_STOPS_PER_DAY)) {
+    return `Bir günde en fazla ${USER_ROUTE_MAX_STOPS_PER_DAY} durak olabilir`;
+  }
+  return null;
+};
+
+/**
+ * Deep link that opens a shared plan in the app
+ */
+export const getUserRouteShareLink = (shareToken: string): string => `cyprigo://trip/${shareToken}`;
+
+/**
+ * Present a plan as a ThematicRoute so RouteDetailSheet and "Start day" mode can show it
+ */
+export const userRouteToThematicRoute = (route: UserRoute): ThematicRoute => {
+  const stops = route.itinerary.flatMap(day => day.stops);
+
+  return {
+    id: `user-route-${route.id}`,
+    slug: `user-route-${route.id}`,
+    title: route.title,
+    subtitle: route.description,
+    theme: 'culture',
+    baseLocation: stops[0]?.description || '',
+    durationDays: route.itinerary.length,
+    coverImage: stops.find(stop => stop.image)?.image || '',
+    tags: [],
+    itinerary: route.itinerary,
+    totalStops: stops.length,
+    createdAt: route.createdAt,
+    updatedAt: route.updatedAt,
+  };
+};
+
+// ============================================
+// Persistence
+// ============================================
+
+/**
+ * Get the current user's plans, most recently edited first
+ */
+export const getMyUserRoutes = async (
+  userId: string
+): Promise<{ data: UserRoute[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_routes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    return { data: (data as UserRouteData[]).map(userRouteDataToRoute), error: null };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Create a plan, or update it when an id is given
+ */
+export const saveUserRoute = async (
+  userId: string,
+  input: UserRouteInput,
+  id?: string
+): Promise<{ data: UserRoute | null; error: string | null }> => {
+  const validationError = validateUserRoute(input);
+  if (validationError) {
+    return { data: null, error: validationError };
+  }
+
+  try {
+    const row = {
+      title: input.title.trim(),
+      description: input.description?.trim() || null,
+      duration_days: input.itinerary.length,
+      itinerary: input.itinerary,
+      updated_at: new Date().toISOString(),
+    };
+
+    const query = id
+      ? supabase.from('user_routes').update(row).eq('id', id)
+      : supabase.from('user_routes').insert({ ...row, user_id: userId });
+
+    const { data, error } = await query.select().single();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    return { data: userRouteDataToRoute(data as UserRouteData), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+/**
+ * Delete a plan
+ */
+export const deleteUserRoute = async (
+  id: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase.from('user_routes').delete().eq('id', id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Turn link sharing on or off
+ */
+export const setUserRouteShared = async (
+  id: string,
+  isShared: boolean
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('user_routes')
+      .update({ is_shared: isShared })
+      .eq('id', id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Submit a plan to admins as a candidate public route
+ */
+export const submitUserRoute = async (
+  id: string
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('user_routes')
+      .update({ submission_status: 'pending' })
+      .eq('id', id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
+
+/**
+ * Load a shared plan by its link token
+ */
+export const getSharedUserRoute = async (
+  shareToken: string
+): Promise<{ data: UserRoute | null; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .rpc('get_shared_user_route', { p_token: shareToken })
+      .maybeSingle();
+
+    if (error) {
+      return { data: null, error: error.message };
+    }
+
+    if (!data) {
+      return { data: null, error: 'Plan bulunamadı veya paylaşım kapatıldı' };
+    }
+
+    return { data: userRouteDataToRoute(data as UserRouteData), error: null };
+  } catch (err: any) {
+    return { data: null, error: err.message };
+  }
+};
+
+// =============================================
+// MODERATION (Admin)
+// =============================================
+
+/**
+ * Get submitted plans for the admin queue, with author profiles
+ */
+export const getUserRouteSubmissions = async (
+  status: 'pending' | 'approved' | 'rejected' = 'pending'
+): Promise<{ data: UserRoute[]; error: string | null }> => {
+  try {
+    const { data, error } = await supabase
+      .from('user_routes')
+      .select('*')
+      .eq('submission_status', status)
+      .order('submitted_at', { ascending: true })
+      .limit(100);
+
+    if (error) {
+      return { data: [], error: error.message };
+    }
+
+    const rows = (data || []) as UserRouteData[];
+    const userIds = [...new Set(rows.map(row => row.user_id))];
+    const profilesMap: Record<string, any> = {};
+
+    if (userIds.length > 0) {
+      const { data: profilesData } = await supabase
+        .from('profiles')
+        .select('id, full_name, avatar_url')
+        .in('id', userIds);
+      profilesData?.forEach(p => { profilesMap[p.id] = p; });
+    }
+
+    return {
+      data: rows.map(row => userRouteDataToRoute({ ...row, profiles: profilesMap[row.user_id] || null })),
+      error: null,
+    };
+  } catch (err: any) {
+    return { data: [], error: err.message };
+  }
+};
+
+/**
+ * Approve or reject a submitted plan. On approval, pass the id of the
+ * thematic route that was published from it.
+ */
+export const moderateUserRoute = async (
+  id: string,
+  adminId: string,
+  approve: boolean,
+  options: { reason?: string; publishedRouteId?: string } = {}
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase
+      .from('user_routes')
+      .update({
+        submission_status: approve ? 'approved' : 'rejected',
+        rejection_reason: approve ? null : options.reason || null,
+        published_route_id: approve ? options.publishedRouteId || null : null,
+        moderated_by: adminId,
+        moderated_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, error: null };
+  } catch (err: any) {
+    return { success: false, error: err.message };
+  }
+};
@@ -9,6 +9,8 @@
 
 import { logger } from './logger';
 import { supabase } from './supabase';
+import { optimizeScanThumbnail } from './imageOptimizer';
+import { toScanQuota, type ScanQuota } from './scanHistoryService';
 import i18n from 'i18next';
 
 /**
@@ -68,6 +70,10 @@ export interface VisionAnalysisResult {
     address?: string;
   };
   error?: string;
+  // Set by the Edge Function for landmark scans
+  quota?: ScanQuota;
+  quotaExceeded?: boolean;
+  historyId?: string;
 }
 
 interface VisionAPIResponse {
@@ -146,18 +152,15 @@ async function imageToBase64(imageUri: string): Promise<string> {
 // This keeps API keys server-side and prevents exposure in client code
 
 /**
- * Parses the LLM response into a structured result
+ * Maps the model output into a structured result
+ * The Edge Function has already validated it against its landmark schema.
  */
-function parseVisionResponse(content: string): VisionAnalysisResult {
+function toVisionAnalysisResult(parsed: any): VisionAnalysisResult {
   try {
-    // Extract JSON from response (might be wrapped in markdown code blocks)
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in response');
+    if (!parsed || typeof parsed !== 'object') {
+      throw new Error('No result in response');
     }
 
-    const parsed = JSON.parse(jsonMatch[0]);
-
     return {
       success: true,
       placeName: parsed.placeName || i18n.t('scan.fallback.unknownPlace'),
@@ -174,7 +177,7 @@ function parseVisionResponse(content: string): VisionAnalysisResult {
       bestTimeToVisit: parsed.bestTimeToVisit,
       estimatedDuration: parsed.estimatedDuration,
       nearbyAttractions: Array.isArray(parsed.nearbyAttractions) ? parsed.nearbyAttractions : [],
-      location: parsed.location,
+      location: parsed.location ?? undefined,
     };
   } catch (error) {
     logger.error('Failed to parse vision response', error);
@@ -183,7 +186,7 @@ function parseVisionResponse(content: string): VisionAnalysisResult {
       placeName: i18n.t('scan.fallback.unknownPlace'),
       category: 'unknown',
       confidence: 0,
-      description: content,
+      description: '',
       significance: '',
       funFacts: [],
       visitTips: [],
@@ -196,7 +199,8 @@ function parseVisionResponse(content: string): VisionAnalysisResult {
  * Main function to analyze an image
  * SECURITY: Now uses Supabase Edge Function to keep API keys server-side
  * @param imageUri - URI of the image to analyze
- * @param provider - LLM provider to use ('gemini', 'openai', or 'anthropic')
+ * @param provider - Preferred LLM provider ('gemini', 'openai', or 'anthropic');
+ *   the Edge Function falls back to the next provider in its chain when it fails
  * 
  * Provider comparison (cost per 1M tokens):
  * - Gemini 2.0 Flash: FREE (experimental) / $0.075 input, $0.30 output (stable)
@@ -210,12 +214,15 @@ export async function analyzeImage(
   try {
     logger.info('Starting image analysis via Edge Function', { provider });
 
-    // Convert image to base64
-    const imageBase64 = await imageToBase64(imageUri);
+    // Convert image to base64; the small thumbnail is kept in scan history
+    const [imageBase64, thumbnail] = await Promise.all([
+      imageToBase64(imageUri),
+      optimizeScanThumbnail(imageUri),
+    ]);
 
     // Call Edge Function instead of direct API (SECURITY: API keys stay server-side)
     const { data, error } = await supabase.functions.invoke('analyze-image', {
-      body: { imageBase64, provider },
+      body: { imageBase64, provider, thumbnailBase64: thumbnail?.base64 || undefined },
     });
 
     if (error) {
@@ -231,6 +238,26 @@ export async function analyzeImage(
     // Debug: Log raw response to understand structure
     logger.info('Raw API response:', JSON.stringify(data, null, 2));
 
+    const quota = data?.quota ? toScanQuota(data.quota) : undefined;
+
+    // Scan limit is enforced server-side
+    if (data?.error?.code === 'quota_exceeded') {
+      const message = i18n.t('scan.errors.quotaExceeded');
+      return {
+        success: false,
+        placeName: i18n.t('scan.errors.analysisFailed'),
+        category: 'unknown',
+        confidence: 0,
+        description: message,
+        significance: '',
+        funFacts: [],
+        visitTips: [],
+        error: message,
+        quota,
+        quotaExceeded: true,
+      };
+    }
+
     // Check for API error in response
     if (data?.error) {
       logger.error('API error:', data.error);
@@ -238,31 +265,22 @@ export async function analyzeImage(
       throw new Error(friendlyError);
     }
 
-    // Parse response based on provider
-    let content: string;
-    switch (provider) {
-      case 'gemini':
-        // Gemini returns candidates[0].content.parts[0].text
-        // Also check for direct text response when responseMimeType is set
-        content = data?.candidates?.[0]?.content?.parts?.[0]?.text || data?.text;
-        break;
-      case 'openai':
-        content = data?.choices?.[0]?.message?.content;
-        break;
-      case 'anthropic':
-        content = data?.content?.[0]?.text;
-        break;
-      default:
-        content = data?.candidates?.[0]?.content?.parts?.[0]?.text;
-    }
-
-    if (!content) {
-      logger.error('No content found in response. Data structure:', Object.keys(data || {}));
+    if (!data?.result) {
+      logger.error('No result found in response. Data structure:', Object.keys(data || {}));
       throw new Error('No response from AI provider');
     }
 
-    const result = parseVisionResponse(content);
-    logger.info('Image analysis completed', { placeName: result.placeName, confidence: result.confidence });
+    const result: VisionAnalysisResult = {
+      ...toVisionAnalysisResult(data.result),
+      quota,
+      historyId: data?.scanHistoryId || undefined,
+    };
+    logger.info('Image analysis completed', {
+      placeName: result.placeName,
+      confidence: result.confidence,
+      provider: data.provider,
+      cached: data.cached,
+    });
     return result;
   } catch (error) {
     logger.error('Image analysis failed', error);
@@ -0,0 +1,103 @@
+/**
+ * Booking Store - Zustand store for the user's tour bookings
+ */
+import { create } from 'zustand';
+import { Booking } from '@/types';
+import {
+  createBooking as createBookingService,
+  getUserBookings,
+  cancelBooking as cancelBookingService,
+  BookingInput,
+} from '@/lib/bookingService';
+
+interface BookingState {
+  // State
+  bookings: Booking[];
+  isLoading: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  fetchBookings: (userId: string) => Promise<void>;
+  createBooking: (userId: string, tourId: string, input: BookingInput) => Promise<{ success: boolean; booking?: Booking; error?: string }>;
+  cancelBooking: (bookingId: string, reason?: string) => Promise<{ success: boolean; error?: string }>;
+  reset: () => void;
+}
+
+export const useBookingStore = create<BookingState>((set) => ({
+  // Initial state
+  bookings: [],
+  isLoading: false,
+  isSubmitting: false,
+  error: null,
+
+  // Fetch user's bookings
+  fetchBookings: async (userId: string) => {
+    if (!userId) return;
+
+    set({ isLoading: true, error: null });
+
+    const { data, error } = await getUserBookings(userId);
+
+    if (error) {
+      set({ error, isLoading: false });
+      return;
+    }
+
+    set({ bookings: data, isLoading: false });
+  },
+
+  // Create a booking request
+  createBooking: async (userId: string, tourId: string, input: BookingInput) => {
+    if (!userId) {
+      return { success: false, error: 'Giriş yapmalısınız' };
+    }
+
+    set({ isSubmitting: true });
+
+    const { data, error } = await createBookingService(userId, tourId, input);
+
+    if (error || !data) {
+      set({ isSubmitting: false });
+      return { success: false, error: error || undefined };
+    }
+
+    set(state => ({
+      bookings: [data, ...state.bookings],
+      isSubmitting: false,
+    }));
+
+    return { success: true, booking: data };
+  },
+
+  // Cancel a booking
+  cancelBooking: async (bookingId: string, reason?: string) => {
+    set({ isSubmitting: true });
+
+    const { data, error } = await cancelBookingService(bookingId, reason);
+
+    if (error || !data) {
+      set({ isSubmitting: false });
+      return { success: false, error: error || undefined };
+    }
+
+    set(state => ({
+      bookings: state.bookings.map(b => (b.id === bookingId ? data : b)),
+      isSubmitting: false,
+    }));
+
+    return { success: true };
+  },
+
+  reset: () => set({
+    bookings: [],
+    isLoading: false,
+    isSubmitting: false,
+    error: null,
+  }),
+}));
+
+// Selectors
+export const selectBookings = (state: BookingState) => state.bookings;
+export const selectIsLoadingBookings = (state: BookingState) => state.isLoading;
+export const selectIsSubmittingBooking = (state: BookingState) => state.isSubmitting;
@@ -8,13 +8,18 @@ import {
   CommunityPostData,
   CommunityComment,
   CommunityCommentData,
+  CommentMention,
   CreatePostInput,
+  CommunityFeed,
   ModerationStatus,
   postDataToPost,
   commentDataToComment,
 } from '@/types';
 import { createNotification, sendNotification } from '@/lib/notificationService';
+import { createClientId } from '@/lib/offlineService';
 import { useAuthStore } from './authStore';
+import { useBlockStore } from './blockStore';
+import { useOfflineStore } from './offlineStore';
 
 /**
  * Helper function to enrich posts with user profiles and tour data
@@ -57,6 +62,54 @@ async function enrichPostsWithRelations(posts: any[]): Promise<CommunityPostData
   }));
 }
 
+/**
+ * Helper function to enrich comments with author and mentioned profiles,
+ * plus whether the current user liked them
+ */
+async function enrichCommentsWithRelations(comments: any[]): Promise<CommunityComment[]> {
+  if (!comments || comments.length === 0) return [];
+
+  const userId = useAuthStore.getState().user?.id;
+  const profileIds = [...new Set(comments.flatMap(c => [c.user_id, ...(c.mentioned_user_ids || [])]))];
+  const profilesMap: Record<string, any> = {};
+  const likedIds = new Set<string>();
+
+  if (profileIds.length > 0) {
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('id, full_name, avatar_url')
+      .in('id', profileIds);
+
+    profilesData?.forEach(p => { profilesMap[p.id] = p; });
+  }
+
+  if (userId) {
+    const { data: likesData } = await supabase
+      .from('community_comment_likes')
+      .select('comment_id')
+      .eq('user_id', userId)
+      .in('comment_id', comments.map(c => c.id));
+
+    likesData?.forEach(l => likedIds.add(l.comment_id));
+  }
+
+  return comments.map(comment => ({
+    ...commentDataToComment({
+      ...comment,
+      profiles: profilesMap[comment.user_id] || null,
+      mentioned_profiles: (comment.mentioned_user_ids || [])
+        .map((id: string) => profilesMap[id])
+        .filter(Boolean),
+    } as CommunityCommentData),
+    isLiked: likedIds.has(comment.id),
+  }));
+}
+
+const mergeComments = (existing: CommunityComment[], incoming: CommunityComment[]): CommunityComment[] => {
+  const existingIds = new Set(existing.map(c => c.id));
+  return [...existing, ...incoming.filter(c => !existingIds.has(c.id))];
+};
+
 // Report reason types
 export type ReportReason = 'spam' | 'inappropriate' | 'harassment' | 'misinformation' | 'other';
 
@@ -68,14 +121,21 @@ interface CommunityState {
   selectedPost: CommunityPost | null;
   hiddenPostIds: string[]; // Posts hidden by user
   
-  // Comments
+  // Feed ("following" or ranked "discover") and the location used to rank it
+  feed: CommunityFeed;
+  feedOrigin: { latitude: number; longitude: number } | null;
+  
+  // Comments (top level; replies are loaded per thread)
   comments: CommunityComment[];
+  commentReplies: Record<string, CommunityComment[]>;
+  hasMoreComments: boolean;
   
   // Loading states
   isLoading: boolean;
   isLoadingMore: boolean;
   isRefreshing: boolean;
   isLoadingComments: boolean;
+  isLoadingMoreComments: boolean;
   isSubmitting: boolean;
   
   // Pagination
@@ -88,10 +148,13 @@ interface CommunityState {
   // Actions
   fetchPosts: (refresh?: boolean) => Promise<void>;
   fetchMorePosts: () => Promise<void>;
+  setFeed: (feed: CommunityFeed) => void;
+  setFeedOrigin: (origin: { latitude: number; longitude: number } | null) => void;
   fetchUserPosts: (userId: string) => Promise<void>;
+  fetchProfilePosts: (userId: string) => Promise<CommunityPost[]>;
   fetchPendingPosts: () => Promise<void>;
   fetchPostById: (postId: string) => Promise<CommunityPost | null>;
-  createPost: (userId: string, input: CreatePostInput) => Promise<{ success: boolean; error?: string }>;
+  createPost: (userId: string, input: CreatePostInput) => Promise<{ success: boolean; status?: ModerationStatus; error?: string }>;
   deletePost: (postId: string) => Promise<{ success: boolean; error?: string }>;
   
   // Likes
@@ -99,9 +162,17 @@ interface CommunityState {
   checkIsLiked: (userId: string, postId: string) => Promise<boolean>;
   
   // Comments
-  fetchComments: (postId: string) => Promise<void>;
-  addComment: (userId: string, postId: string, content: string) => Promise<{ success: boolean; error?: string }>;
+  fetchComments: (postId: string, loadMore?: boolean) => Promise<void>;
+  fetchReplies: (commentId: string) => Promise<void>;
+  addComment: (
+    userId: string,
+    postId: string,
+    content: string,
+    options?: { parentId?: string; mentions?: CommentMention[] }
+  ) => Promise<{ success: boolean; error?: string }>;
   deleteComment: (commentId: string) => Promise<{ success: boolean; error?: string }>;
+  toggleCommentLike: (userId: string, commentId: string) => Promise<{ isLiked: boolean; error?: string }>;
+  searchMentionProfiles: (query: string) => Promise<CommentMention[]>;
   
   // Moderation (Admin)
   approvePost: (postId: string, adminId: string) => Promise<{ success: boolean; error?: string }>;
@@ -118,6 +189,19 @@ interface CommunityState {
 }
 
 const PAGE_SIZE = 10;
+const COMMENTS_PAGE_SIZE = 20;
+
+// Track the latest feed request to ignore stale pages when switching feeds
+let latestFeedFetchId = 0;
+
+const fetchFeedPage = (feed: CommunityFeed, offset: number, origin: CommunityState['feedOrigin']) =>
+  supabase.rpc('get_community_feed', {
+    p_feed: feed,
+    p_offset: offset,
+    p_limit: PAGE_SIZE,
+    p_lat: origin?.latitude ?? null,
+    p_lng: origin?.longitude ?? null,
+  });
 
 export const useCommunityStore = create<CommunityState>((set, get) => ({
   // Initial state
@@ -126,20 +210,27 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
   pendingPosts: [],
   selectedPost: null,
   hiddenPostIds: [],
+  feed: 'discover',
+  feedOrigin: null,
   comments: [],
+  commentReplies: {},
+  hasMoreComments: false,
   isLoading: false,
   isLoadingMore: false,
   isRefreshing: false,
   isLoadingComments: false,
+  isLoadingMoreComments: false,
   isSubmitting: false,
   hasMore: true,
   page: 0,
   error: null,
 
-  // Fetch posts (public feed - Gold/Business see all, others see only approved)
+  // Fetch the first page of the current feed (approved posts only; hidden
+  // posts and blocked users are filtered server-side as well)
   fetchPosts: async (refresh = false) => {
     const { isLoading, isRefreshing } = get();
     if (isLoading || isRefreshing) return;
+    const requestId = ++latestFeedFetchId;
 
     set({ 
       isLoading: !refresh, 
@@ -157,17 +248,11 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
         await get().fetchHiddenPosts();
       }
 
-      // All users see approved posts only
-      const query = supabase
-        .from('community_posts')
-        .select('*')
-        .eq('status', 'approved')
-        .order('created_at', { ascending: false })
-        .range(0, PAGE_SIZE - 1);
-
-      const { data, error } = await query;
+      const { feed, feedOrigin } = get();
+      const { data, error } = await fetchFeedPage(feed, 0, feedOrigin);
 
       if (error) throw error;
+      if (requestId !== latestFeedFetchId) return;
 
       // Filter out posts hidden by the current user (Not interested)
       const { hiddenPostIds } = get();
@@ -177,6 +262,7 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
 
       const enrichedData = await enrichPostsWithRelations(visibleData);
       const posts = enrichedData.map(post => postDataToPost(post));
+      if (requestId !== latestFeedFetchId) return;
       
       set({ 
         posts, 
@@ -186,6 +272,7 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
         page: 1,
       });
     } catch (error: any) {
+      if (requestId !== latestFeedFetchId) return;
       set({ 
         error: error.message, 
         isLoading: false, 
@@ -198,24 +285,16 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
   fetchMorePosts: async () => {
     const { isLoadingMore, hasMore, page, posts } = get();
     if (isLoadingMore || !hasMore) return;
+    const requestId = latestFeedFetchId;
 
     set({ isLoadingMore: true });
 
     try {
-      const from = page * PAGE_SIZE;
-      const to = from + PAGE_SIZE - 1;
-
-      // All users see approved posts only
-      const query = supabase
-        .from('community_posts')
-        .select('*')
-        .eq('status', 'approved')
-        .order('created_at', { ascending: false })
-        .range(from, to);
-
-      const { data, error } = await query;
+      const { feed, feedOrigin } = get();
+      const { data, error } = await fetchFeedPage(feed, page * PAGE_SIZE, feedOrigin);
 
       if (error) throw error;
+      if (requestId !== latestFeedFetchId) return;
 
       // Filter out hidden posts
       const { hiddenPostIds } = get();
@@ -225,8 +304,9 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
 
       const enrichedData = await enrichPostsWithRelations(visibleData);
       const newPosts = enrichedData.map(post => postDataToPost(post));
+      if (requestId !== latestFeedFetchId) return;
       
-      // Filter out duplicates
+      // Filter out duplicates (ranked pages can shift while scrolling)
       const existingIds = new Set(posts.map(p => p.id));
       const uniqueNewPosts = newPosts.filter(p => !existingIds.has(p.id));
       
@@ -237,10 +317,27 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
         page: page + 1,
       });
     } catch (error: any) {
+      if (requestId !== latestFeedFetchId) return;
       set({ error: error.message, isLoadingMore: false });
     }
   },
 
+  // Switch feeds; in-flight pages of the previous feed are discarded
+  setFeed: (feed) => {
+    if (get().feed === feed) return;
+    latestFeedFetchId++;
+    set({
+      feed,
+      posts: [],
+      isLoading: false,
+      isLoadingMore: false,
+      isRefreshing: false,
+    });
+    get().fetchPosts();
+  },
+
+  setFeedOrigin: (origin) => set({ feedOrigin: origin }),
+
   // Fetch user's own posts (all statuses)
   fetchUserPosts: async (userId: string) => {
     set({ isLoading: true, error: null });
@@ -262,7 +359,31 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
     }
   },
 
-  // Fetch pending posts (admin only)
+  // Fetch another user's approved posts for their public profile
+  fetchProfilePosts: async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('community_posts')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('status', 'approved')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      const { hiddenPostIds } = get();
+      const visibleData = (data || []).filter((post: any) => !hiddenPostIds.includes(post.id));
+      const enrichedData = await enrichPostsWithRelations(visibleData);
+      return enrichedData.map(post => postDataToPost(post));
+    } catch (error) {
+      console.error('[CommunityStore] Fetch profile posts error:', error);
+      return [];
+    }
+  },
+
+  // Fetch pending posts (admin only); posts flagged by automated
+  // pre-moderation carry their reasons in moderationFlags
   fetchPendingPosts: async () => {
     set({ isLoading: true, error: null });
 
@@ -341,14 +462,36 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
 
       console.log('[CommunityStore] Post created successfully:', data?.id);
 
-      // Add to user posts
-      const newPost = postDataToPost(data as CommunityPostData);
+      // Automated first pass; low-risk posts are published right away,
+      // anything else (or a failed check) waits for an admin
+      let newPost = postDataToPost(data as CommunityPostData);
+      const { data: moderation, error: moderationError } = await supabase.functions.invoke('moderate-post', {
+        body: { postId: newPost.id },
+      });
+
+      if (moderationError || !moderation?.success) {
+        console.error('[CommunityStore] Auto moderation failed:', moderationError || moderation?.error);
+      } else {
+        newPost = {
+          ...newPost,
+          status: moderation.status as ModerationStatus,
+          moderationFlags: moderation.flags || [],
+        };
+      }
+
+      const enrichedPost = newPost.status === 'approved'
+        ? (await get().fetchPostById(newPost.id)) || newPost
+        : newPost;
+
       set(state => ({
-        userPosts: [newPost, ...state.userPosts],
+        userPosts: [enrichedPost, ...state.userPosts],
+        posts: enrichedPost.status === 'approved' && state.feed === 'discover'
+          ? [enrichedPost, ...state.posts.filter(p => p.id !== enrichedPost.id)]
+          : state.posts,
         isSubmitting: false,
       }));
 
-      return { success: true };
+      return { success: true, status: enrichedPost.status };
     } catch (error: any) {
       console.error('[CommunityStore] createPost error:', error);
       set({ error: error.message, isSubmitting: false });
@@ -381,6 +524,23 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
 
   // Toggle like
   toggleLike: async (userId: string, postId: string) => {
+    // Offline: flip local state and queue the desired like state
+    if (!useOfflineStore.getState().isOnline) {
+      const post = get().posts.find(p => p.id === postId);
+      const isLiked = !post?.isLiked;
+
+      set(state => ({
+        posts: state.posts.map(p =>
+          p.id === postId
+            ? { ...p, likesCount: p.likesCount + (isLiked ? 1 : -1), isLiked }
+            : p
+        ),
+      }));
+      useOfflineStore.getState().enqueue({ type: 'like', userId, postId, liked: isLiked });
+
+      return { isLiked };
+    }
+
     try {
       // Check if already liked
       const { data: existingLike } = await supabase
@@ -445,46 +605,117 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
     }
   },
 
-  // Fetch comments for a post
-  fetchComments: async (postId: string) => {
-    set({ isLoadingComments: true });
+  // Fetch top-level comments for a post, a page at a time
+  fetchComments: async (postId: string, loadMore = false) => {
+    const { comments, isLoadingMoreComments, hasMoreComments } = get();
+    if (loadMore && (isLoadingMoreComments || !hasMoreComments)) return;
+
+    set(loadMore
+      ? { isLoadingMoreComments: true }
+      : { isLoadingComments: true, comments: [], commentReplies: {}, hasMoreComments: false });
 
     try {
+      const from = loadMore ? comments.length : 0;
+
       const { data, error } = await supabase
         .from('community_comments')
         .select('*')
         .eq('post_id', postId)
-        .order('created_at', { ascending: true });
+        .is('parent_id', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + COMMENTS_PAGE_SIZE - 1);
 
       if (error) throw error;
 
-      // Fetch user profiles separately
-      const userIds = [...new Set(data?.map(c => c.user_id) || [])];
-      const profilesMap: Record<string, any> = {};
-
-      if (userIds.length > 0) {
-        const { data: profilesData } = await supabase
-          .from('profiles')
-          .select('id, full_name, avatar_url')
-          .in('id', userIds);
-        
-        profilesData?.forEach(p => { profilesMap[p.id] = p; });
-      }
+      const page = await enrichCommentsWithRelations(data || []);
 
-      const enrichedData = data?.map(comment => ({
-        ...comment,
-        profiles: profilesMap[comment.user_id] || null,
-      })) || [];
+      set(state => ({
+        comments: loadMore ? mergeComments(state.comments, page) : page,
+        hasMoreComments: (data || []).length === COMMENTS_PAGE_SIZE,
+        isLoadingComments: false,
+        isLoadingMoreComments: false,
+      }));
+    } catch (error: any) {
+      set({ error: error.message, isLoadingComments: false, isLoadingMoreComments: false });
+    }
+  },
+
+  // Fetch the replies of a comment thread
+  fetchReplies: async (commentId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('community_comments')
+        .select('*')
+        .eq('parent_id', commentId)
+        .order('created_at', { ascending: true });
 
-      const comments = (enrichedData as CommunityCommentData[]).map(commentDataToComment);
-      set({ comments, isLoadingComments: false });
+      if (error) throw error;
+
+      const replies = await enrichCommentsWithRelations(data || []);
+      set(state => ({
+        commentReplies: { ...state.commentReplies, [commentId]: replies },
+      }));
     } catch (error: any) {
-      set({ error: error.message, isLoadingComments: false });
+      set({ error: error.message });
     }
   },
 
-  // Add comment
-  addComment: async (userId: string, postId: string, content: string) => {
+  // Add comment or reply
+  addComment: async (userId, postId, content, options = {}) => {
+    const { parentId, mentions = [] } = options;
+
+    const appendComment = (comment: CommunityComment) => set(state => ({
+      comments: parentId
+        ? state.comments.map(c => c.id === parentId ? { ...c, repliesCount: c.repliesCount + 1 } : c)
+        : [...state.comments, comment],
+      commentReplies: parentId
+        ? { ...state.commentReplies, [parentId]: [...(state.commentReplies[parentId] || []), comment] }
+        : state.commentReplies,
+      posts: state.posts.map(p =>
+        p.id === postId
+          ? { ...p, commentsCount: p.commentsCount + 1 }
+          : p
+      ),
+    }));
+
+    // Offline: show the comment immediately and queue it for replay. The
+    // queued insert reuses this id, so the local entry already matches the
+    // server row once it syncs.
+    if (!useOfflineStore.getState().isOnline) {
+      const profile = useAuthStore.getState().profile;
+      const now = new Date().toISOString();
+      const commentId = createClientId();
+
+      appendComment({
+        id: commentId,
+        postId,
+        userId,
+        parentId,
+        content,
+        likesCount: 0,
+        repliesCount: 0,
+        mentions,
+        createdAt: now,
+        updatedAt: now,
+        user: {
+          id: userId,
+          fullName: profile?.full_name || '',
+          avatarUrl: profile?.avatar_url || undefined,
+        },
+      });
+      useOfflineStore.getState().enqueue({
+        type: 'comment',
+        commentId,
+        userId,
+        postId,
+        content,
+        parentId,
+        mentionedUserIds: mentions.map(m => m.id),
+      });
+
+      return { success: true };
+    }
+
     set({ isSubmitting: true });
 
     try {
@@ -493,36 +724,18 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
         .insert({
           user_id: userId,
           post_id: postId,
+          parent_id: parentId || null,
           content,
+          mentioned_user_ids: mentions.map(m => m.id),
         })
         .select('*')
         .single();
 
       if (error) throw error;
 
-      // Fetch user profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('id, full_name, avatar_url')
-        .eq('id', userId)
-        .single();
-
-      const enrichedData = {
-        ...data,
-        profiles: profileData || null,
-      };
-
-      const newComment = commentDataToComment(enrichedData as CommunityCommentData);
-      
-      set(state => ({
-        comments: [...state.comments, newComment],
-        posts: state.posts.map(p => 
-          p.id === postId 
-            ? { ...p, commentsCount: p.commentsCount + 1 }
-            : p
-        ),
-        isSubmitting: false,
-      }));
+      const [newComment] = await enrichCommentsWithRelations([data]);
+      appendComment(newComment);
+      set({ isSubmitting: false });
 
       return { success: true };
     } catch (error: any) {
@@ -531,11 +744,13 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
     }
   },
 
-  // Delete comment
+  // Delete comment; deleting a thread also removes its replies
   deleteComment: async (commentId: string) => {
     try {
-      const comment = get().comments.find(c => c.id === commentId);
-      
+      const { comments, commentReplies } = get();
+      const comment = comments.find(c => c.id === commentId)
+        || Object.values(commentReplies).flat().find(c => c.id === commentId);
+
       const { error } = await supabase
         .from('community_comments')
         .delete()
@@ -543,14 +758,26 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
 
       if (error) throw error;
 
-      set(state => ({
-        comments: state.comments.filter(c => c.id !== commentId),
-        posts: comment ? state.posts.map(p => 
-          p.id === comment.postId 
-            ? { ...p, commentsCount: Math.max(0, p.commentsCount - 1) }
-            : p
-        ) : state.posts,
-      }));
+      const removedCount = comment && !comment.parentId ? 1 + comment.repliesCount : 1;
+
+      set(state => {
+        const { [commentId]: _removedThread, ...remainingReplies } = state.commentReplies;
+        const parentId = comment?.parentId;
+
+        return {
+          comments: state.comments
+            .filter(c => c.id !== commentId)
+            .map(c => c.id === parentId ? { ...c, repliesCount: Math.max(0, c.repliesCount - 1) } : c),
+          commentReplies: parentId && remainingReplies[parentId]
+            ? { ...remainingReplies, [parentId]: remainingReplies[parentId].filter(c => c.id !== commentId) }
+            : remainingReplies,
+          posts: comment ? state.posts.map(p =>
+            p.id === comment.postId
+              ? { ...p, commentsCount: Math.max(0, p.commentsCount - removedCount) }
+              : p
+          ) : state.posts,
+        };
+      });
 
       return { success: true };
     } catch (error: any) {
@@ -558,6 +785,71 @@ export const useCommunityStore = create<CommunityState>((set, get) => ({
     }
   },
 
+  // Like or unlike a comment
+  toggleCommentLike: async (userId: string, commentId: string) => {
+    const { comments, commentReplies } = get();
+    const comment = comments.find(c => c.id === commentId)
+      || Object.values(commentReplies).flat().find(c => c.id === commentId);
+    const isLiked = !comment?.isLiked;
+
+    const applyLike = (liked: boolean) => {
+      const update = (c: CommunityComment) =>
+        c.id === commentId && !!c.isLiked !== liked
+          ? { ...c, isLiked: liked, likesCount: Math.max(0, c.likesCount + (liked ? 1 : -1)) }
+          : c;
+
+      set(state => ({
+        comments: state.comments.map(update),
+        commentReplies: Object.fromEntries(
+          Object.entries(state.commentReplies).map(([id, replies]) => [id, replies.map(update)])
+        ),
+      }));
+    };
+
+    applyLike(isLiked);
+
+    try {
+      if (isLiked) {
+        const { error } = await supabase
+          .from('community_comment_likes')
+          .insert({ user_id: userId, comment_id: commentId });
+        // Already liked
+        if (error && error.code !== '23505') throw error;
+      } else {
+        const { error } = await supabase
+          .from('community_comment_likes')
+          .delete()
+          .eq('user_id', userId)
+          .eq('comment_id', commentId);
+        if (error) throw error;
+      }
+
+      return { isLiked };
+    } catch (error: any) {
+      applyLike(!isLiked);
+      return { isLiked: !isLiked, error: error.message };
+    }
+  },
+
+  // Profiles matching a partially typed @mention
+  searchMentionProfiles: async (query: string) => {
+    const term = query.trim().replace(/[%_,()]/g, '');
+    if (!term) return [];
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .ilike('full_name', `%${term}%`)
+      .limit(6);
+
+    if (error || !data) return [];
+
+    const blockedUserIds = useBlockStore.getState().blockedUserIds;
+    return data
+      .filter(p => p.full_name && !blockedUserIds.includes(p.id))
+      .map(p => ({ id: p.id, fullName: p.full_name as string }));
+  },
+
   // Approve post (admin)
   approvePost: async (postId: string, adminId: string) => {
     try {
@@ -7,7 +7,9 @@ import {
   isTourFavorited,
   toggleFavorite as toggleFavoriteService,
 } from '@/lib/tourService';
+import { loadSnapshot, saveSnapshot } from '@/lib/offlineService';
 import { useSubscriptionStore } from './subscriptionStore';
+import { useOfflineStore } from './offlineStore';
 
 /**
  * Result type for favorite operations with paywall info
@@ -77,6 +79,16 @@ export const useFavoritesStore = create<FavoritesState>((set, get) => ({
 
     set({ isLoading: true, error: null });
 
+    // Offline: restore the last snapshot (includes queued toggles)
+    if (!useOfflineStore.getState().isOnline) {
+      const snapshot = await loadSnapshot<Tour[]>(`favorites:${userId}`);
+      if (snapshot) {
+        get().setFavorites(snapshot.data);
+      }
+      set({ isLoading: false });
+      return;
+    }
+
     try {
       const { data, error } = await getUserFavorites(userId);
 
@@ -87,6 +99,7 @@ export const useFavoritesStore = create<FavoritesState>((set, get) => ({
 
       const favorites = data.map(tourDataToTour);
       const favoriteIds = new Set(favorites.map(f => f.id));
+      saveSnapshot(`favorites:${userId}`, favorites);
       
       set({ 
         favorites,
@@ -167,6 +180,27 @@ export const useFavoritesStore = create<FavoritesState>((set, get) => ({
 
     const currentlyFavorited = get().isFavorited(tour.id);
 
+    // Offline: apply locally and queue for replay
+    if (!useOfflineStore.getState().isOnline) {
+      if (!currentlyFavorited && !get().canAddMoreFavorites()) {
+        return { isFavorited: false, error: null, requiresUpgrade: true };
+      }
+
+      get().setFavorites(
+        currentlyFavorited
+          ? get().favorites.filter(f => f.id !== tour.id)
+          : [tour, ...get().favorites]
+      );
+      useOfflineStore.getState().enqueue({
+        type: 'favorite',
+        userId,
+        tourId: tour.id,
+        favorited: !currentlyFavorited,
+      });
+      saveSnapshot(`favorites:${userId}`, get().favorites);
+      return { isFavorited: !currentlyFavorited, error: null, requiresUpgrade: false };
+    }
+
     if (currentlyFavorited) {
       const { success, error, requiresUpgrade } = await get().removeFavorite(userId, tour.id);
       return { isFavorited: !success, error, requiresUpgrade };
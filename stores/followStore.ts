@@ -0,0 +1,143 @@
+/**
+ * Follow Store - Zustand store for followed users and tours
+ */
+import { create } from 'zustand';
+import { PublicProfile } from '@/types';
+import {
+  getFollowing,
+  setUserFollow,
+  setTourFollow,
+  getPublicProfile,
+} from '@/lib/followService';
+
+interface FollowState {
+  followingUserIds: string[];
+  followingTourIds: string[];
+
+  // Public profiles opened in this session, by user id
+  profiles: Record<string, PublicProfile>;
+
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchFollowing: (userId: string) => Promise<void>;
+  toggleFollowUser: (userId: string, targetUserId: string) => Promise<{ success: boolean; error?: string }>;
+  toggleFollowTour: (userId: string, tourId: string) => Promise<{ success: boolean; error?: string }>;
+  isFollowingUser: (targetUserId: string) => boolean;
+  isFollowingTour: (tourId: string) => boolean;
+  fetchPublicProfile: (userId: string) => Promise<PublicProfile | null>;
+  reset: () => void;
+}
+
+const adjustCount = (profile: PublicProfile | undefined, key: 'followersCount' | 'followingCount', delta: number) =>
+  profile ? { ...profile, [key]: Math.max(0, profile[key] + delta) } : profile;
+
+export const useFollowStore = create<FollowState>((set, get) => ({
+  // Initial state
+  followingUserIds: [],
+  followingTourIds: [],
+  profiles: {},
+  isLoading: false,
+  error: null,
+
+  fetchFollowing: async (userId: string) => {
+    set({ isLoading: true, error: null });
+
+    const { userIds, tourIds, error } = await getFollowing(userId);
+
+    if (error) {
+      console.error('[followStore] Error fetching follows:', error);
+      set({ isLoading: false, error });
+      return;
+    }
+
+    set({ followingUserIds: userIds, followingTourIds: tourIds, isLoading: false });
+  },
+
+  // Optimistic follow/unfollow, rolled back on failure
+  toggleFollowUser: async (userId: string, targetUserId: string) => {
+    const wasFollowing = get().followingUserIds.includes(targetUserId);
+    const delta = wasFollowing ? -1 : 1;
+
+    const apply = (direction: number) =>
+      set(state => {
+        const profiles = { ...state.profiles };
+        const target = adjustCount(profiles[targetUserId], 'followersCount', direction);
+        const self = adjustCount(profiles[userId], 'followingCount', direction);
+        if (target) profiles[targetUserId] = target;
+        if (self) profiles[userId] = self;
+
+        return {
+          followingUserIds: direction > 0
+            ? [...state.followingUserIds.filter(id => id !== targetUserId), targetUserId]
+            : state.followingUserIds.filter(id => id !== targetUserId),
+          profiles,
+        };
+      });
+
+    apply(delta);
+
+    const { success, error } = await setUserFollow(userId, targetUserId, !wasFollowing);
+
+    if (!success) {
+      console.error('[followStore] Error toggling user follow:', error);
+      apply(-delta);
+      return { success: false, error: error || undefined };
+    }
+
+    return { success: true };
+  },
+
+  toggleFollowTour: async (userId: string, tourId: string) => {
+    const wasFollowing = get().followingTourIds.includes(tourId);
+
+    set(state => ({
+      followingTourIds: wasFollowing
+        ? state.followingTourIds.filter(id => id !== tourId)
+        : [...state.followingTourIds, tourId],
+    }));
+
+    const { success, error } = await setTourFollow(userId, tourId, !wasFollowing);
+
+    if (!success) {
+      console.error('[followStore] Error toggling tour follow:', error);
+      set(state => ({
+        followingTourIds: wasFollowing
+          ? [...state.followingTourIds, tourId]
+          : state.followingTourIds.filter(id => id !== tourId),
+      }));
+      return { success: false, error: error || undefined };
+    }
+
+    return { success: true };
+  },
+
+  isFollowingUser: (targetUserId: string) => get().followingUserIds.includes(targetUserId),
+
+  isFollowingTour: (tourId: string) => get().followingTourIds.includes(tourId),
+
+  fetchPublicProfile: async (userId: string) => {
+    const { data, error } = await getPublicProfile(userId);
+
+    if (error) {
+      console.error('[followStore] Error fetching profile:', error);
+      return get().profiles[userId] || null;
+    }
+
+    if (data) {
+      set(state => ({ profiles: { ...state.profiles, [userId]: data } }));
+    }
+    return data;
+  },
+
+  reset: () => {
+    set({
+      followingUserIds: [],
+      followingTourIds: [],
+      profiles: {},
+      isLoading: false,
+      error: null,
+    });
+  },
+}));
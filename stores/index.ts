@@ -95,6 +95,7 @@ export {
   selectIsAnalyzing,
   selectAnalysisResult,
   selectScanHistory,
+  selectScanQuota,
   selectImageUri,
 } from './scanStore';
 
@@ -115,6 +116,7 @@ export {
   selectIsPending,
   selectPendingAuth,
   selectTwoFactorEnabled,
+  selectTotpEnabled,
   selectIsLoadingSettings,
   selectIsCheckingRequired,
 } from './twoFactorStore';
@@ -132,3 +134,58 @@ export { useTermsStore } from './termsStore';
 
 // Block Users store (UGC Compliance)
 export { useBlockStore } from './blockStore';
+
+// Follows store (users and tours)
+export { useFollowStore } from './followStore';
+
+// Tour Preferences store
+export {
+  usePreferencesStore,
+  selectPreferences,
+  selectPreferredCategories,
+  selectIsSavingPreferences,
+} from './preferencesStore';
+
+// Tour Reviews store
+export {
+  useReviewStore,
+  selectReviews,
+  selectUserReview,
+  selectIsLoadingReviews,
+} from './reviewStore';
+
+// Tour Bookings store
+export {
+  useBookingStore,
+  selectBookings,
+  selectIsLoadingBookings,
+  selectIsSubmittingBooking,
+} from './bookingStore';
+
+// Offline store (connectivity + mutation outbox)
+export {
+  useOfflineStore,
+  selectIsOnline,
+  selectOutboxCount,
+} from './offlineStore';
+
+// Offline map packs store
+export {
+  useMapPackStore,
+  selectMapPacks,
+  selectDownloadingRouteId,
+  selectMapPackProgress,
+} from './mapPackStore';
+
+// Route itinerary ("Start day") progress store
+export {
+  useItineraryStore,
+  selectItineraryProgress,
+} from './itineraryStore';
+
+// Trip planner store (user-built routes)
+export {
+  useTripPlannerStore,
+  selectTripPlanDraft,
+  selectUserRoutes,
+} from './tripPlannerStore';
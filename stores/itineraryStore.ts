@@ -0,0 +1,111 @@
+/**
+ * Itinerary Store
+ * Persisted "Start day" progress per thematic route so a multi-day
+ * route can be resumed later
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RouteProgress, createRouteProgress } from '@/lib/itineraryService';
+
+interface ItineraryState {
+  // State
+  progress: Record<string, RouteProgress>;
+
+  // Actions
+  startDay: (routeId: string, dayIndex: number) => void;
+  restartDay: (routeId: string, dayIndex: number, stopIds: string[]) => void;
+  checkIn: (routeId: string, stopId: string) => void;
+  skipStop: (routeId: string, stopId: string) => void;
+  completeDay: (routeId: string, dayIndex: number) => void;
+  pauseDay: (routeId: string) => void;
+  resetRoute: (routeId: string) => void;
+
+  // Computed
+  getProgress: (routeId: string) => RouteProgress | undefined;
+}
+
+export const useItineraryStore = create<ItineraryState>()(
+  persist(
+    (set, get) => {
+      // Apply a change to one route's progress, creating it on first use
+      const update = (routeId: string, change: (current: RouteProgress) => Partial<RouteProgress>) => {
+        set(state => {
+          const current = state.progress[routeId] ?? createRouteProgress(routeId);
+          return {
+            progress: {
+              ...state.progress,
+              [routeId]: { ...current, ...change(current), updatedAt: new Date().toISOString() },
+            },
+          };
+        });
+      };
+
+      return {
+        progress: {},
+
+        startDay: (routeId, dayIndex) => {
+          update(routeId, () => ({ activeDayIndex: dayIndex }));
+        },
+
+        // Start a completed day over, forgetting its check-ins and skips
+        restartDay: (routeId, dayIndex, stopIds) => {
+          update(routeId, current => ({
+            activeDayIndex: dayIndex,
+            completedDays: current.completedDays.filter(index => index !== dayIndex),
+            checkIns: Object.fromEntries(
+              Object.entries(current.checkIns).filter(([stopId]) => !stopIds.includes(stopId))
+            ),
+            skippedStopIds: current.skippedStopIds.filter(id => !stopIds.includes(id)),
+          }));
+        },
+
+        checkIn: (routeId, stopId) => {
+          update(routeId, current => ({
+            checkIns: { ...current.checkIns, [stopId]: new Date().toISOString() },
+            skippedStopIds: current.skippedStopIds.filter(id => id !== stopId),
+          }));
+        },
+
+        skipStop: (routeId, stopId) => {
+          update(routeId, current => ({
+            skippedStopIds: current.skippedStopIds.includes(stopId)
+              ? current.skippedStopIds
+              : [...current.skippedStopIds, stopId],
+          }));
+        },
+
+        completeDay: (routeId, dayIndex) => {
+          update(routeId, current => ({
+            activeDayIndex: null,
+            completedDays: current.completedDays.includes(dayIndex)
+              ? current.completedDays
+              : [...current.completedDays, dayIndex].sort((a, b) => a - b),
+          }));
+        },
+
+        pauseDay: (routeId) => {
+          update(routeId, () => ({ activeDayIndex: null }));
+        },
+
+        resetRoute: (routeId) => {
+          set(state => {
+            const { [routeId]: _removed, ...rest } = state.progress;
+            return { progress: rest };
+          });
+        },
+
+        getProgress: (routeId) => get().progress[routeId],
+      };
+    },
+    {
+      name: 'itinerary-progress',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ progress: state.progress }),
+    }
+  )
+);
+
+// Selectors
+export const selectItineraryProgress = (state: ItineraryState) => state.progress;
@@ -0,0 +1,85 @@
+/**
+ * Map Pack Store
+ * Downloaded offline map packs for thematic routes
+ */
+
+import { create } from 'zustand';
+import { ThematicRoute } from '@/types';
+import {
+  MapPack,
+  deleteMapPack as deleteMapPackService,
+  downloadMapPack as downloadMapPackService,
+  getMapPacks,
+} from '@/lib/mapPackService';
+
+interface MapPackState {
+  // State
+  packs: MapPack[];
+  downloadingRouteId: string | null;
+  progress: number; // 0..1 for the active download
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchPacks: () => Promise<void>;
+  downloadPack: (route: ThematicRoute) => Promise<{ success: boolean; error: string | null }>;
+  deletePack: (routeId: string) => Promise<{ success: boolean; error: string | null }>;
+
+  // Computed
+  getPack: (routeId: string) => MapPack | undefined;
+}
+
+export const useMapPackStore = create<MapPackState>((set, get) => ({
+  packs: [],
+  downloadingRouteId: null,
+  progress: 0,
+  isLoading: false,
+  error: null,
+
+  fetchPacks: async () => {
+    set({ isLoading: true, error: null });
+    const { data, error } = await getMapPacks();
+    set({ packs: data, isLoading: false, error });
+  },
+
+  downloadPack: async (route) => {
+    // One download at a time
+    if (get().downloadingRouteId) {
+      return { success: false, error: 'Başka bir harita indiriliyor' };
+    }
+
+    set({ downloadingRouteId: route.id, progress: 0, error: null });
+
+    const { data, error } = await downloadMapPackService(route, (completed, total) => {
+      set({ progress: total > 0 ? completed / total : 0 });
+    });
+
+    if (error || !data) {
+      set({ downloadingRouteId: null, progress: 0, error });
+      return { success: false, error };
+    }
+
+    set(state => ({
+      packs: [data, ...state.packs.filter(p => p.routeId !== route.id)],
+      downloadingRouteId: null,
+      progress: 0,
+    }));
+    return { success: true, error: null };
+  },
+
+  deletePack: async (routeId) => {
+    const { success, error } = await deleteMapPackService(routeId);
+
+    if (success) {
+      set(state => ({ packs: state.packs.filter(p => p.routeId !== routeId) }));
+    }
+    return { success, error };
+  },
+
+  getPack: (routeId) => get().packs.find(p => p.routeId === routeId),
+}));
+
+// Selectors
+export const selectMapPacks = (state: MapPackState) => state.packs;
+export const selectDownloadingRouteId = (state: MapPackState) => state.downloadingRouteId;
+export const selectMapPackProgress = (state: MapPackState) => state.progress;
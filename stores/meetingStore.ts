@@ -2,22 +2,52 @@
  * Meeting Store - Zustand store for meeting sessions
  */
 import { create } from 'zustand';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { logger } from '@/lib/logger';
+import {
+  isSharingExpired,
+  MeetingPresence,
+  MemberLocation,
+  parseMemberLocations,
+  SharedLocation,
+} from '@/lib/meetingLocationService';
+import { isInviteUsable } from '@/lib/meetingInviteLink';
 import {
   CreateMeetingInput,
+  MeetingMessage,
+  MeetingMessageData,
   MeetingSession,
   MeetingSessionData,
   MeetingParticipant,
   MeetingParticipantData,
+  MeetingInvite,
   MeetingInviteData,
+  RotateInviteInput,
   meetingSessionDataToSession,
   meetingParticipantDataToParticipant,
   meetingInviteDataToInvite,
+  meetingMessageDataToMessage,
 } from '@/types';
 
 const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 const INVITE_CODE_LENGTH = 8;
 
+// Chat history loaded when a session is opened
+const MESSAGE_HISTORY_LIMIT = 100;
+
+// One realtime channel for the open session screen
+let sessionChannel: RealtimeChannel | null = null;
+// What this device currently tracks on the channel's presence
+let presencePayload: MeetingPresence | null = null;
+
+const trackPresence = async (payload: MeetingPresence) => {
+  presencePayload = payload;
+  if (sessionChannel) {
+    await sessionChannel.track(payload);
+  }
+};
+
 const generateInviteCode = (): string => {
   let code = '';
   for (let i = 0; i < INVITE_CODE_LENGTH; i += 1) {
@@ -27,12 +57,12 @@ const generateInviteCode = (): string => {
   return code;
 };
 
-async function enrichParticipantsWithProfiles(
-  participants: MeetingParticipantData[]
-): Promise<MeetingParticipantData[]> {
-  if (!participants.length) return participants;
+async function enrichWithProfiles<T extends { user_id: string }>(
+  rows: T[]
+): Promise<T[]> {
+  if (!rows.length) return rows;
 
-  const userIds = [...new Set(participants.map(p => p.user_id))];
+  const userIds = [...new Set(rows.map(row => row.user_id))];
   const { data: profilesData } = await supabase
     .from('profiles')
     .select('id, full_name, avatar_url')
@@ -43,9 +73,9 @@ async function enrichParticipantsWithProfiles(
     profilesMap[profile.id] = profile;
   });
 
-  return participants.map(participant => ({
-    ...participant,
-    profiles: profilesMap[participant.user_id] || null,
+  return rows.map(row => ({
+    ...row,
+    profiles: profilesMap[row.user_id] || null,
   }));
 }
 
@@ -54,6 +84,13 @@ interface MeetingState {
   currentSession: MeetingSession | null;
   participants: MeetingParticipant[];
   inviteCode: string | null;
+  invite: MeetingInvite | null;
+  joinRequests: MeetingParticipant[];
+  messages: MeetingMessage[];
+  onlineUserIds: string[];
+  memberLocations: Record<string, MemberLocation>;
+  locationSharingUntil: string | null;
+  wasRemoved: boolean;
   isLoading: boolean;
   isSubmitting: boolean;
   error: string | null;
@@ -62,6 +99,15 @@ interface MeetingState {
   fetchSessionById: (sessionId: string) => Promise<MeetingSession | null>;
   fetchParticipants: (sessionId: string) => Promise<MeetingParticipant[]>;
   fetchInviteCode: (sessionId: string) => Promise<string | null>;
+  rotateInvite: (sessionId: string, input?: RotateInviteInput) => Promise<{ success: boolean; error?: string }>;
+  revokeInvite: (sessionId: string) => Promise<{ success: boolean; error?: string }>;
+  setRequiresApproval: (sessionId: string, requiresApproval: boolean) => Promise<{ success: boolean; error?: string }>;
+  fetchJoinRequests: (sessionId: string) => Promise<MeetingParticipant[]>;
+  respondToJoinRequest: (
+    sessionId: string,
+    userId: string,
+    approve: boolean
+  ) => Promise<{ success: boolean; error?: string }>;
 
   createSession: (input: CreateMeetingInput) => Promise<{
     success: boolean;
@@ -72,11 +118,26 @@ interface MeetingState {
   joinSessionByCode: (code: string) => Promise<{
     success: boolean;
     session?: MeetingSession;
+    /** The host has to approve the request first */
+    pending?: boolean;
     error?: string;
   }>;
   leaveSession: (sessionId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
   startSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>;
   endSession: (sessionId: string) => Promise<{ success: boolean; error?: string }>;
+  removeParticipant: (sessionId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+
+  fetchMessages: (sessionId: string) => Promise<MeetingMessage[]>;
+  sendMessage: (sessionId: string, userId: string, body: string) => Promise<{ success: boolean; error?: string }>;
+  deleteMessage: (messageId: string, userId: string) => Promise<{ success: boolean; error?: string }>;
+
+  subscribeToSession: (sessionId: string, userId: string) => void;
+  unsubscribeFromSession: () => void;
+
+  startLocationSharing: (minutes: number) => Promise<{ success: boolean; error?: string }>;
+  publishLocation: (location: SharedLocation) => Promise<void>;
+  stopLocationSharing: () => Promise<void>;
+
   setCurrentSession: (session: MeetingSession | null) => void;
   clearError: () => void;
 }
@@ -86,6 +147,13 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
   currentSession: null,
   participants: [],
   inviteCode: null,
+  invite: null,
+  joinRequests: [],
+  messages: [],
+  onlineUserIds: [],
+  memberLocations: {},
+  locationSharingUntil: null,
+  wasRemoved: false,
   isLoading: false,
   isSubmitting: false,
   error: null,
@@ -147,7 +215,7 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
       return [];
     }
 
-    const enriched = await enrichParticipantsWithProfiles(data as MeetingParticipantData[]);
+    const enriched = await enrichWithProfiles(data as MeetingParticipantData[]);
     const participants = enriched.map(meetingParticipantDataToParticipant);
     set({ participants, isLoading: false });
     return participants;
@@ -165,13 +233,127 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
       .maybeSingle();
 
     if (error || !data) {
-      set({ inviteCode: null });
+      set({ inviteCode: null, invite: null });
       return null;
     }
 
+    // Expired or used-up codes stay visible to the host but cannot be shared
     const invite = meetingInviteDataToInvite(data as MeetingInviteData);
-    set({ inviteCode: invite.code });
-    return invite.code;
+    const inviteCode = isInviteUsable(invite) ? invite.code : null;
+    set({ inviteCode, invite });
+    return inviteCode;
+  },
+
+  rotateInvite: async (sessionId: string, input: RotateInviteInput = {}) => {
+    if (!sessionId) return { success: false, error: 'Missing session' };
+    set({ isSubmitting: true, error: null });
+
+    const expiresAt = input.expiresInHours
+      ? new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000).toISOString()
+      : null;
+
+    const { data, error } = await supabase.rpc('rotate_meeting_invite', {
+      p_session_id: sessionId,
+      p_code: generateInviteCode(),
+      p_expires_at: expiresAt,
+      p_max_uses: input.maxUses || null,
+    });
+
+    if (error || !data?.[0]) {
+      set({ isSubmitting: false, error: error?.message || 'Failed to create invite' });
+      return { success: false, error: error?.message || 'Failed to create invite' };
+    }
+
+    const invite = meetingInviteDataToInvite(data[0] as MeetingInviteData);
+    set({ invite, inviteCode: invite.code, isSubmitting: false });
+    return { success: true };
+  },
+
+  revokeInvite: async (sessionId: string) => {
+    if (!sessionId) return { success: false, error: 'Missing session' };
+    set({ isSubmitting: true, error: null });
+
+    const { error } = await supabase
+      .from('meeting_invites')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('session_id', sessionId)
+      .is('revoked_at', null);
+
+    if (error) {
+      set({ isSubmitting: false, error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    set({ invite: null, inviteCode: null, isSubmitting: false });
+    return { success: true };
+  },
+
+  setRequiresApproval: async (sessionId: string, requiresApproval: boolean) => {
+    if (!sessionId) return { success: false, error: 'Missing session' };
+
+    const { data, error } = await supabase
+      .from('meeting_sessions')
+      .update({ requires_approval: requiresApproval })
+      .eq('id', sessionId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to update session' };
+    }
+
+    const session = meetingSessionDataToSession(data as MeetingSessionData);
+    set(state => ({
+      currentSession: state.currentSession?.id === session.id ? session : state.currentSession,
+      sessions: state.sessions.map(s => (s.id === session.id ? session : s)),
+    }));
+    return { success: true };
+  },
+
+  fetchJoinRequests: async (sessionId: string) => {
+    if (!sessionId) return [];
+
+    const { data, error } = await supabase
+      .from('meeting_participants')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('status', 'pending')
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      set({ error: error.message });
+      return [];
+    }
+
+    const enriched = await enrichWithProfiles(data as MeetingParticipantData[]);
+    const joinRequests = enriched.map(meetingParticipantDataToParticipant);
+    set({ joinRequests });
+    return joinRequests;
+  },
+
+  respondToJoinRequest: async (sessionId: string, userId: string, approve: boolean) => {
+    if (!sessionId || !userId) return { success: false, error: 'Missing data' };
+    set({ isSubmitting: true, error: null });
+
+    const { error } = await supabase.rpc('respond_to_join_request', {
+      p_session_id: sessionId,
+      p_user_id: userId,
+      p_approve: approve,
+    });
+
+    if (error) {
+      set({ isSubmitting: false, error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    set(state => ({
+      joinRequests: state.joinRequests.filter(r => r.userId !== userId),
+      isSubmitting: false,
+    }));
+    if (approve) {
+      await get().fetchParticipants(sessionId);
+    }
+    return { success: true };
   },
 
   createSession: async (input: CreateMeetingInput) => {
@@ -194,6 +376,26 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
     }
 
     const sessionId = data[0].session_id as string;
+
+    // Schedule options are not part of the create RPC; the host can set them directly
+    if (input.scheduledAt && (input.recurrenceFrequency || input.reminderMinutes || input.durationMinutes)) {
+      const { error: scheduleError } = await supabase
+        .from('meeting_sessions')
+        .update({
+          duration_minutes: input.durationMinutes ?? 120,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Europe/Nicosia',
+          recurrence_frequency: input.recurrenceFrequency ?? null,
+          recurrence_interval: input.recurrenceInterval ?? 1,
+          recurrence_until: input.recurrenceUntil ?? null,
+          reminder_minutes: input.reminderMinutes ?? null,
+        })
+        .eq('id', sessionId);
+
+      if (scheduleError) {
+        console.error('[meetingStore] Failed to save schedule:', scheduleError);
+      }
+    }
+
     const session = await get().fetchSessionById(sessionId);
     await get().fetchParticipants(sessionId);
 
@@ -222,6 +424,12 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
       return { success: false, error: error?.message || 'Failed to join session' };
     }
 
+    // Members of approval-only sessions cannot read it until approved
+    if (data[0].participant_status === 'pending') {
+      set({ isSubmitting: false });
+      return { success: true, pending: true };
+    }
+
     const sessionId = data[0].session_id as string;
     const session = await get().fetchSessionById(sessionId);
     await get().fetchParticipants(sessionId);
@@ -234,6 +442,8 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
     if (!sessionId || !userId) return { success: false, error: 'Missing data' };
     set({ isSubmitting: true, error: null });
 
+    await get().stopLocationSharing();
+
     const { error } = await supabase
       .from('meeting_participants')
       .update({ status: 'left' })
@@ -287,11 +497,278 @@ export const useMeetingStore = create<MeetingState>((set, get) => ({
       return { success: false, error: error?.message || 'Failed to end session' };
     }
 
+    await get().stopLocationSharing();
+
     const session = meetingSessionDataToSession(data as MeetingSessionData);
     set({ currentSession: session, isSubmitting: false });
     return { success: true };
   },
 
+  removeParticipant: async (sessionId: string, userId: string) => {
+    if (!sessionId || !userId) return { success: false, error: 'Missing data' };
+    set({ isSubmitting: true, error: null });
+
+    const { error } = await supabase
+      .from('meeting_participants')
+      .update({ status: 'removed' })
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .eq('role', 'member');
+
+    if (error) {
+      set({ isSubmitting: false, error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    set(state => ({
+      participants: state.participants.filter(p => p.userId !== userId),
+      isSubmitting: false,
+    }));
+    return { success: true };
+  },
+
+  fetchMessages: async (sessionId: string) => {
+    if (!sessionId) return [];
+
+    const { data, error } = await supabase
+      .from('meeting_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGE_HISTORY_LIMIT);
+
+    if (error) {
+      set({ error: error.message });
+      return [];
+    }
+
+    const enriched = await enrichWithProfiles(data as MeetingMessageData[]);
+    const messages = enriched.map(meetingMessageDataToMessage).reverse();
+    set({ messages });
+    return messages;
+  },
+
+  sendMessage: async (sessionId: string, userId: string, body: string) => {
+    const trimmed = body.trim();
+    if (!sessionId || !userId || !trimmed) return { success: false, error: 'Missing data' };
+
+    const { data, error } = await supabase
+      .from('meeting_messages')
+      .insert({ session_id: sessionId, user_id: userId, body: trimmed })
+      .select()
+      .single();
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Failed to send message' };
+    }
+
+    // The realtime insert may arrive first; only add it once
+    const [enriched] = await enrichWithProfiles([data as MeetingMessageData]);
+    const message = meetingMessageDataToMessage(enriched);
+    set(state => ({
+      messages: state.messages.some(m => m.id === message.id)
+        ? state.messages
+        : [...state.messages, message],
+    }));
+    return { success: true };
+  },
+
+  deleteMessage: async (messageId: string, userId: string) => {
+    if (!messageId || !userId) return { success: false, error: 'Missing data' };
+
+    const { error } = await supabase
+      .from('meeting_messages')
+      .update({ deleted_at: new Date().toISOString(), deleted_by: userId })
+      .eq('id', messageId);
+
+    if (error) {
+      return { success: false, error: error.message };
+    }
+
+    set(state => ({ messages: state.messages.filter(m => m.id !== messageId) }));
+    return { success: true };
+  },
+
+  /**
+   * Realtime for the open session: messages, participant changes,
+   * session status and presence of members currently on the screen
+   */
+  subscribeToSession: (sessionId: string, userId: string) => {
+    if (!sessionId || !userId) return;
+
+    if (sessionChannel) {
+      supabase.removeChannel(sessionChannel);
+    }
+
+    presencePayload = null;
+    set({
+      messages: [],
+      joinRequests: [],
+      onlineUserIds: [],
+      memberLocations: {},
+      locationSharingUntil: null,
+      wasRemoved: false,
+    });
+
+    // Private so realtime authorization only lets members join and
+    // see presence (live locations), see 044_meeting_realtime_authorization
+    const channel = supabase.channel(`meeting:${sessionId}`, {
+      config: { private: true, presence: { key: userId } },
+    });
+
+    channel
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'meeting_messages',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        async (payload) => {
+          const row = payload.new as MeetingMessageData;
+          if (get().messages.some(m => m.id === row.id)) return;
+
+          // Reuse the participant profile when we have it
+          const participant = get().participants.find(p => p.userId === row.user_id);
+          const message = participant?.user
+            ? { ...meetingMessageDataToMessage(row), user: participant.user }
+            : meetingMessageDataToMessage((await enrichWithProfiles([row]))[0]);
+
+          set(state => ({
+            messages: state.messages.some(m => m.id === message.id)
+              ? state.messages
+              : [...state.messages, message],
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'meeting_messages',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const row = payload.new as MeetingMessageData;
+          if (row.deleted_at) {
+            set(state => ({ messages: state.messages.filter(m => m.id !== row.id) }));
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'meeting_participants',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const row = payload.new as Partial<MeetingParticipantData>;
+          if (row?.user_id === userId && row.status === 'removed') {
+            set({ wasRemoved: true });
+            // Removed members must not keep broadcasting their position
+            get().stopLocationSharing();
+            return;
+          }
+          get().fetchParticipants(sessionId);
+          if (get().currentSession?.hostId === userId) {
+            get().fetchJoinRequests(sessionId);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'meeting_sessions',
+          filter: `id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const session = meetingSessionDataToSession(payload.new as MeetingSessionData);
+          set({ currentSession: session });
+          // Sharing only runs while the session is active
+          if (session.status !== 'active' && get().locationSharingUntil) {
+            get().stopLocationSharing();
+          }
+        }
+      )
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<MeetingPresence>();
+        set({
+          onlineUserIds: Object.keys(state),
+          memberLocations: parseMemberLocations(state),
+        });
+      })
+      .subscribe(async (status) => {
+        logger.info('[Realtime] Meeting session subscription status:', status);
+        if (status === 'SUBSCRIBED') {
+          // Re-track after reconnects, keeping any active share
+          await channel.track(presencePayload || { online_at: new Date().toISOString() });
+        }
+      });
+
+    sessionChannel = channel;
+    get().fetchMessages(sessionId);
+  },
+
+  unsubscribeFromSession: () => {
+    if (sessionChannel) {
+      supabase.removeChannel(sessionChannel);
+      sessionChannel = null;
+      logger.info('[Realtime] Unsubscribed from meeting session');
+    }
+    presencePayload = null;
+    set({
+      messages: [],
+      joinRequests: [],
+      onlineUserIds: [],
+      memberLocations: {},
+      locationSharingUntil: null,
+      wasRemoved: false,
+    });
+  },
+
+  startLocationSharing: async (minutes: number) => {
+    if (!sessionChannel || get().currentSession?.status !== 'active') {
+      return { success: false, error: 'Session is not active' };
+    }
+
+    const sharingUntil = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    set({ locationSharingUntil: sharingUntil });
+    await trackPresence({
+      online_at: presencePayload?.online_at || new Date().toISOString(),
+      sharing_until: sharingUntil,
+    });
+    return { success: true };
+  },
+
+  publishLocation: async (location: SharedLocation) => {
+    const { locationSharingUntil } = get();
+    if (!locationSharingUntil) return;
+
+    if (isSharingExpired(locationSharingUntil)) {
+      await get().stopLocationSharing();
+      return;
+    }
+
+    await trackPresence({
+      online_at: presencePayload?.online_at || new Date().toISOString(),
+      sharing_until: locationSharingUntil,
+      location,
+    });
+  },
+
+  stopLocationSharing: async () => {
+    if (!get().locationSharingUntil) return;
+    set({ locationSharingUntil: null });
+    await trackPresence({ online_at: presencePayload?.online_at || new Date().toISOString() });
+  },
+
   setCurrentSession: (session) => set({ currentSession: session }),
   clearError: () => set({ error: null }),
 }));
@@ -0,0 +1,133 @@
+/**
+ * Offline Store
+ * Tracks connectivity and holds the persisted mutation outbox
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import {
+  OFFLINE_OUTBOX_KEY,
+  OUTBOX_MAX_ATTEMPTS,
+  OutboxEntry,
+  OutboxMutation,
+  checkIsOnline,
+  enqueueMutation,
+  isReachable,
+  replayMutation,
+} from '@/lib/offlineService';
+import { logger } from '@/lib/logger';
+
+interface OfflineState {
+  // State
+  isOnline: boolean;
+  outbox: OutboxEntry[];
+  isReplaying: boolean;
+  lastSyncedAt: number | null;
+
+  // Actions
+  initialize: () => () => void;
+  setOnline: (isOnline: boolean) => void;
+  enqueue: (mutation: OutboxMutation) => void;
+  replayOutbox: () => Promise<void>;
+  clearOutbox: () => void;
+}
+
+export const useOfflineStore = create<OfflineState>()(
+  persist(
+    (set, get) => ({
+      isOnline: true,
+      outbox: [],
+      isReplaying: false,
+      lastSyncedAt: null,
+
+      /**
+       * Start listening for connectivity changes.
+       * Returns an unsubscribe function for the caller's effect cleanup.
+       */
+      initialize: () => {
+        checkIsOnline().then(online => get().setOnline(online));
+
+        try {
+          const subscription = Network.addNetworkStateListener(state => {
+            get().setOnline(isReachable(state));
+          });
+          return () => subscription.remove();
+        } catch (err) {
+          logger.warn('[Offline] Network listener unavailable:', err);
+          return () => {};
+        }
+      },
+
+      setOnline: (isOnline) => {
+        const wasOnline = get().isOnline;
+        set({ isOnline });
+
+        // Flush queued mutations as soon as we come back online
+        if (isOnline && (!wasOnline || get().outbox.length > 0)) {
+          get().replayOutbox();
+        }
+      },
+
+      enqueue: (mutation) => {
+        set(state => ({ outbox: enqueueMutation(state.outbox, mutation) }));
+      },
+
+      replayOutbox: async () => {
+        const { isReplaying, outbox } = get();
+        if (isReplaying || outbox.length === 0) return;
+
+        set({ isReplaying: true });
+
+        // Confirm connectivity first so failed requests don't burn attempts
+        if (!(await checkIsOnline())) {
+          set({ isReplaying: false, isOnline: false });
+          return;
+        }
+
+        // Replay in order; stop at the first connectivity loss
+        for (const entry of outbox) {
+          if (!get().isOnline) break;
+
+          const { success, error } = await replayMutation(entry);
+
+          if (success) {
+            set(state => ({ outbox: state.outbox.filter(e => e.id !== entry.id) }));
+            continue;
+          }
+
+          const attempts = entry.attempts + 1;
+          if (attempts >= OUTBOX_MAX_ATTEMPTS) {
+            logger.warn('[Offline] Dropping mutation after repeated failures:', { type: entry.type, error });
+            set(state => ({ outbox: state.outbox.filter(e => e.id !== entry.id) }));
+          } else {
+            set(state => ({
+              outbox: state.outbox.map(e => (e.id === entry.id ? { ...e, attempts } : e)),
+            }));
+          }
+        }
+
+        set({ isReplaying: false, lastSyncedAt: Date.now() });
+        logger.info('[Offline] Outbox replayed, remaining:', get().outbox.length);
+      },
+
+      clearOutbox: () => set({ outbox: [] }),
+    }),
+    {
+      name: OFFLINE_OUTBOX_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ outbox: state.outbox }),
+      // Replay anything left over from a previous session
+      onRehydrateStorage: () => (state) => {
+        if (state?.isOnline && state.outbox.length > 0) {
+          state.replayOutbox();
+        }
+      },
+    }
+  )
+);
+
+// Selectors
+export const selectIsOnline = (state: OfflineState) => state.isOnline;
+export const selectOutboxCount = (state: OfflineState) => state.outbox.length;
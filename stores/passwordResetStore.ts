@@ -6,18 +6,18 @@
 import { create } from 'zustand';
 import { supabase } from '@/lib/supabase';
 import { 
-  generateVerificationCode, 
+  requestVerificationCode, 
   verifyCode, 
   formatTimeRemaining, 
   isCodeExpired 
 } from '@/lib/twoFactorService';
 import { logger } from '@/lib/logger';
-import { getCurrentLanguage } from '@/lib/i18n';
 
 interface PasswordResetState {
   // State
   email: string;
   userId: string | null;
+  resetToken: string | null;
   isPending: boolean;
   isVerified: boolean;
   isLoading: boolean;
@@ -27,7 +27,7 @@ interface PasswordResetState {
   attemptsRemaining: number | null;
 
   // Actions
-  initiateReset: (email: string) => Promise<{ success: boolean; error?: string }>;
+  initiateReset: (email: string) => Promise<{ success: boolean; error?: string; retryAfter?: number }>;
   verifyCode: (code: string) => Promise<{ success: boolean; error?: string }>;
   updatePassword: (newPassword: string) => Promise<{ success: boolean; error?: string }>;
   updateTimeRemaining: () => void;
@@ -37,6 +37,7 @@ interface PasswordResetState {
 const initialState = {
   email: '',
   userId: null,
+  resetToken: null,
   isPending: false,
   isVerified: false,
   isLoading: false,
@@ -51,63 +52,41 @@ export const usePasswordResetStore = create<PasswordResetState>((set, get) => ({
 
   /**
    * Step 1: Initiate password reset
-   * - Look up user by email
-   * - Generate 6-digit code
-   * - Send email via Edge Function
+   * - Ask the server to email a code to the address
+   * - Look up the user by email for the verify step
    */
   initiateReset: async (email: string) => {
     set({ isLoading: true, error: null });
 
+    const normalizedEmail = email.toLowerCase().trim();
+
     try {
+      // The server answers the same for unknown addresses, so this
+      // doesn't reveal whether an account exists
+      const result = await requestVerificationCode('password_reset', { email: normalizedEmail });
+
+      if (!result.success) {
+        set({ isLoading: false, error: result.error });
+        return { success: false, error: result.error, retryAfter: result.retryAfter };
+      }
+
       // Look up user by email from profiles table
       const { data: profile, error: profileError } = await supabase
         .from('profiles')
-        .select('id, full_name')
-        .eq('email', email.toLowerCase().trim())
+        .select('id')
+        .eq('email', normalizedEmail)
         .single();
 
       if (profileError || !profile) {
         logger.warn('[PasswordReset] User not found for email:', email);
-        // Don't reveal if email exists - show generic message
         set({ isLoading: false });
         return { 
           success: true, // Return success anyway to prevent email enumeration
         };
       }
 
-      // Generate verification code with password_reset purpose
-      const result = await generateVerificationCode(
-        profile.id,
-        email.toLowerCase().trim(),
-        'password_reset',
-        10 // 10 minutes expiry
-      );
-
-      if (!result.success || !result.code) {
-        set({ isLoading: false, error: result.error });
-        return { success: false, error: result.error };
-      }
-
-      // Send email via Edge Function with password_reset purpose
-      const language = getCurrentLanguage();
-      const { data, error: emailError } = await supabase.functions.invoke('send-verification-email', {
-        body: {
-          email: email.toLowerCase().trim(),
-          code: result.code,
-          userName: profile.full_name,
-          language: language === 'en' ? 'en' : 'tr',
-          purpose: 'password_reset',
-        },
-      });
-
-      if (emailError || (data && !data.success)) {
-        logger.error('[PasswordReset] Failed to send email:', emailError || data?.error);
-        set({ isLoading: false, error: 'Failed to send email' });
-        return { success: false, error: 'Failed to send email' };
-      }
-
       set({
-        email: email.toLowerCase().trim(),
+        email: normalizedEmail,
         userId: profile.id,
         isPending: true,
         isLoading: false,
@@ -145,8 +124,9 @@ export const usePasswordResetStore = create<PasswordResetState>((set, get) => ({
     try {
       const result = await verifyCode(userId, code, 'password_reset');
 
-      if (result.success) {
+      if (result.success && result.resetToken) {
         set({
+          resetToken: result.resetToken,
           isVerified: true,
           isLoading: false,
           error: null,
@@ -155,13 +135,15 @@ export const usePasswordResetStore = create<PasswordResetState>((set, get) => ({
         return { success: true };
       }
 
+      // A verified code without a reset token can't be used to continue
+      const error = result.error || 'unknown';
       set({
         isLoading: false,
-        error: result.error || null,
+        error,
         attemptsRemaining: result.attemptsRemaining ?? null,
       });
 
-      return { success: false, error: result.error };
+      return { success: false, error };
     } catch (error: any) {
       logger.error('[PasswordReset] Verify error:', error);
       set({ isLoading: false, error: error.message });
@@ -173,9 +155,9 @@ export const usePasswordResetStore = create<PasswordResetState>((set, get) => ({
    * Step 3: Update password via Edge Function
    */
   updatePassword: async (newPassword: string) => {
-    const { userId, isVerified } = get();
+    const { userId, resetToken, isVerified } = get();
 
-    if (!userId || !isVerified) {
+    if (!userId || !resetToken || !isVerified) {
       return { success: false, error: 'not_verified' };
     }
 
@@ -185,6 +167,7 @@ export const usePasswordResetStore = create<PasswordResetState>((set, get) => ({
       const { data, error } = await supabase.functions.invoke('update-password', {
         body: {
           userId,
+          resetToken,
           newPassword,
         },
       });
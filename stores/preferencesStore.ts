@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { UserPreferences } from '@/types';
+import {
+  getUserPreferences,
+  saveUserPreferences,
+  PreferencesInput,
+} from '@/lib/preferencesService';
+
+interface PreferencesState {
+  // State
+  preferences: UserPreferences | null;
+  loadedUserId: string | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Async actions
+  fetchPreferences: (userId: string) => Promise<void>;
+  savePreferences: (userId: string, input: PreferencesInput) => Promise<{ success: boolean; error: string | null }>;
+
+  // Computed
+  getPreferredCategories: () => string[];
+
+  reset: () => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>((set, get) => ({
+  // Initial state
+  preferences: null,
+  loadedUserId: null,
+  isLoading: false,
+  isSaving: false,
+  error: null,
+
+  // Fetch saved preferences for the user
+  fetchPreferences: async (userId: string) => {
+    if (!userId) {
+      set({ preferences: null, loadedUserId: null });
+      return;
+    }
+
+    set({ isLoading: true, error: null });
+
+    const { data, error } = await getUserPreferences(userId);
+
+    if (error) {
+      set({ error, isLoading: false });
+      return;
+    }
+
+    set({ preferences: data, loadedUserId: userId, isLoading: false });
+  },
+
+  // Save preferences and keep the local copy in sync
+  savePreferences: async (userId: string, input: PreferencesInput) => {
+    if (!userId) {
+      return { success: false, error: 'Giriş yapmalısınız' };
+    }
+
+    set({ isSaving: true, error: null });
+
+    const { data, error } = await saveUserPreferences(userId, input);
+
+    if (error || !data) {
+      set({ isSaving: false, error });
+      return { success: false, error };
+    }
+
+    set({ preferences: data, loadedUserId: userId, isSaving: false });
+    return { success: true, error: null };
+  },
+
+  getPreferredCategories: () => {
+    return get().preferences?.categories ?? [];
+  },
+
+  reset: () => set({
+    preferences: null,
+    loadedUserId: null,
+    isLoading: false,
+    isSaving: false,
+    error: null,
+  }),
+}));
+
+// Selectors
+export const selectPreferences = (state: PreferencesState) => state.preferences;
+export const selectPreferredCategories = (state: PreferencesState) => state.preferences?.categories;
+export const selectIsSavingPreferences = (state: PreferencesState) => state.isSaving;
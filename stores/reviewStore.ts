@@ -0,0 +1,184 @@
+/**
+ * Review Store - Zustand store for tour reviews
+ */
+import { create } from 'zustand';
+import { TourReview } from '@/types';
+import {
+  getTourReviews,
+  getUserReview,
+  createReview,
+  updateReview,
+  deleteReview as deleteReviewService,
+  ReviewInput,
+  REVIEWS_PAGE_SIZE,
+} from '@/lib/reviewService';
+
+// Track the latest list request to ignore stale responses when switching tours
+let latestReviewsFetchId = 0;
+
+interface ReviewState {
+  // Reviews for the currently open tour
+  tourId: string | null;
+  reviews: TourReview[];
+  userReview: TourReview | null;
+  totalCount: number;
+
+  // Pagination
+  page: number;
+  hasMore: boolean;
+
+  // Loading states
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+
+  // Actions
+  fetchReviews: (tourId: string, userId?: string) => Promise<void>;
+  fetchMoreReviews: () => Promise<void>;
+  submitReview: (userId: string, tourId: string, input: ReviewInput) => Promise<{ success: boolean; error?: string }>;
+  deleteReview: (reviewId: string) => Promise<{ success: boolean; error?: string }>;
+  reset: () => void;
+}
+
+export const useReviewStore = create<ReviewState>((set, get) => ({
+  // Initial state
+  tourId: null,
+  reviews: [],
+  userReview: null,
+  totalCount: 0,
+  page: 0,
+  hasMore: false,
+  isLoading: false,
+  isLoadingMore: false,
+  isSubmitting: false,
+  error: null,
+
+  // Load the first page of reviews (and the user's own review) for a tour
+  fetchReviews: async (tourId: string, userId?: string) => {
+    const requestId = ++latestReviewsFetchId;
+
+    set({
+      tourId,
+      reviews: [],
+      userReview: null,
+      page: 0,
+      hasMore: false,
+      totalCount: 0,
+      isLoading: true,
+      error: null,
+    });
+
+    const [listResult, userResult] = await Promise.all([
+      getTourReviews(tourId, 0, REVIEWS_PAGE_SIZE),
+      userId ? getUserReview(userId, tourId) : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (requestId !== latestReviewsFetchId) return;
+
+    set({
+      reviews: listResult.data,
+      hasMore: listResult.hasMore,
+      totalCount: listResult.totalCount,
+      userReview: userResult.data,
+      isLoading: false,
+      error: listResult.error,
+    });
+  },
+
+  // Load the next page
+  fetchMoreReviews: async () => {
+    const { tourId, page, hasMore, isLoading, isLoadingMore } = get();
+    if (!tourId || !hasMore || isLoading || isLoadingMore) return;
+
+    const requestId = latestReviewsFetchId;
+    set({ isLoadingMore: true });
+
+    const nextPage = page + 1;
+    const result = await getTourReviews(tourId, nextPage, REVIEWS_PAGE_SIZE);
+
+    if (requestId !== latestReviewsFetchId) {
+      set({ isLoadingMore: false });
+      return;
+    }
+
+    if (result.error) {
+      set({ error: result.error, isLoadingMore: false });
+      return;
+    }
+
+    set(state => ({
+      reviews: [
+        ...state.reviews,
+        ...result.data.filter(r => !state.reviews.some(existing => existing.id === r.id)),
+      ],
+      page: nextPage,
+      hasMore: result.hasMore,
+      totalCount: result.totalCount,
+      isLoadingMore: false,
+    }));
+  },
+
+  // Create or update the user's review; either way it returns to moderation
+  submitReview: async (userId: string, tourId: string, input: ReviewInput) => {
+    const existing = get().userReview;
+    set({ isSubmitting: true });
+
+    const { data, error } = existing
+      ? await updateReview(existing.id, input)
+      : await createReview(userId, tourId, input);
+
+    if (error || !data) {
+      set({ isSubmitting: false });
+      return { success: false, error: error || undefined };
+    }
+
+    set(state => ({
+      userReview: data,
+      // An edited review is no longer approved, so drop it from the public list
+      reviews: state.reviews.filter(r => r.id !== data.id),
+      totalCount: existing?.status === 'approved' ? Math.max(0, state.totalCount - 1) : state.totalCount,
+      isSubmitting: false,
+    }));
+
+    return { success: true };
+  },
+
+  // Delete own review
+  deleteReview: async (reviewId: string) => {
+    const { success, error } = await deleteReviewService(reviewId);
+
+    if (!success) {
+      return { success: false, error: error || undefined };
+    }
+
+    set(state => {
+      const wasListed = state.reviews.some(r => r.id === reviewId);
+      return {
+        reviews: state.reviews.filter(r => r.id !== reviewId),
+        userReview: state.userReview?.id === reviewId ? null : state.userReview,
+        totalCount: wasListed ? Math.max(0, state.totalCount - 1) : state.totalCount,
+      };
+    });
+
+    return { success: true };
+  },
+
+  reset: () => set({
+    tourId: null,
+    reviews: [],
+    userReview: null,
+    totalCount: 0,
+    page: 0,
+    hasMore: false,
+    isLoading: false,
+    isLoadingMore: false,
+    isSubmitting: false,
+    error: null,
+  }),
+}));
+
+// Selectors
+export const selectReviews = (state: ReviewState) => state.reviews;
+export const selectUserReview = (state: ReviewState) => state.userReview;
+export const selectIsLoadingReviews = (state: ReviewState) => state.isLoading;
@@ -14,7 +14,9 @@ import {
 } from '@/lib/routeService';
 import { supabase } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { loadSnapshot, saveSnapshot } from '@/lib/offlineService';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { useOfflineStore } from './offlineStore';
 
 // Cache duration: 10 minutes (routes don't change often)
 const CACHE_DURATION = 10 * 60 * 1000;
@@ -115,14 +117,28 @@ export const useRouteStore = create<RouteState>((set, get) => ({
 
     set({ isLoading: true, error: null });
 
+    // Offline: serve the last snapshot without hitting the network
+    if (!useOfflineStore.getState().isOnline) {
+      const snapshot = await loadSnapshot<ThematicRoute[]>('routes');
+      set({ routes: snapshot?.data ?? get().routes, isLoading: false });
+      return;
+    }
+
     try {
       const { data, error } = await getThematicRoutes();
 
       if (error) {
+        const snapshot = await loadSnapshot<ThematicRoute[]>('routes');
+        if (snapshot?.data.length) {
+          logger.warn('Routes fetch error, using offline snapshot:', error);
+          set({ routes: snapshot.data, isLoading: false });
+          return;
+        }
         set({ error, isLoading: false });
         return;
       }
 
+      saveSnapshot('routes', data);
       set({
         routes: data,
         isLoading: false,
@@ -1,13 +1,24 @@
 /**
  * Scan Store - Zustand store for image scanning and analysis
+ *
+ * The scan quota is enforced by the analyze-image Edge Function; the
+ * local counters below are only used until the server quota is loaded
+ * (or for guests, who cannot scan anyway).
  */
 
 import { create } from 'zustand';
 import i18n from 'i18next';
 import { analyzeImage, VisionAnalysisResult } from '@/lib/visionService';
+import {
+  deleteScanHistory,
+  getScanHistory,
+  getScanQuota,
+  ScanHistoryItem,
+  ScanQuota,
+} from '@/lib/scanHistoryService';
 import { logger } from '@/lib/logger';
 
-// Scan limits
+// Scan limits (fallback, mirrors scan_limit_for in the database)
 const FREE_SCAN_LIMIT = 3;
 const PREMIUM_SCAN_LIMIT = 10;
 const COOLDOWN_HOURS = 24;
@@ -23,26 +34,35 @@ interface ScanState {
   scanCount: number;
   lastScanTimestamp: number | null; // Unix timestamp of first scan in current period
   
-  // Scan history
-  scanHistory: Array<{
-    id: string;
-    imageUri: string;
-    result: VisionAnalysisResult;
-    timestamp: Date;
-  }>;
+  // Server-side quota, null until loaded
+  quota: ScanQuota | null;
+
+  // Scan history (synced across devices)
+  scanHistory: ScanHistoryItem[];
+  isHistoryLoading: boolean;
   
   // Actions
   setImageUri: (uri: string | null) => void;
   analyzeCurrentImage: (provider?: 'gemini' | 'openai' | 'anthropic') => Promise<void>;
   clearAnalysis: () => void;
-  clearHistory: () => void;
-  removeScanFromHistory: (id: string) => void;
+  fetchQuota: () => Promise<void>;
+  fetchHistory: (userId: string) => Promise<void>;
+  clearHistory: () => Promise<{ success: boolean; error: string | null }>;
+  removeScanFromHistory: (id: string) => Promise<{ success: boolean; error: string | null }>;
   canScan: (isPremium: boolean) => boolean;
   getRemainingScans: (isPremium: boolean) => number;
   getCooldownRemaining: () => number; // Returns remaining cooldown in milliseconds
   resetIfCooldownExpired: () => void;
 }
 
+// Remaining scans of the server quota, treating an expired window as reset
+const quotaRemaining = (quota: ScanQuota): number => {
+  if (quota.resetsAt && new Date(quota.resetsAt).getTime() <= Date.now()) {
+    return quota.limit;
+  }
+  return quota.remaining;
+};
+
 export const useScanStore = create<ScanState>((set, get) => ({
   // Initial state
   imageUri: null,
@@ -51,7 +71,9 @@ export const useScanStore = create<ScanState>((set, get) => ({
   error: null,
   scanCount: 0,
   lastScanTimestamp: null,
+  quota: null,
   scanHistory: [],
+  isHistoryLoading: false,
 
   // Set current image URI
   setImageUri: (uri) => {
@@ -86,14 +108,26 @@ export const useScanStore = create<ScanState>((set, get) => ({
       // Wait for minimum animation duration
       await new Promise(resolve => setTimeout(resolve, remainingTime));
       
+      if (result.quota) {
+        set({ quota: result.quota });
+      }
+
       // Add to history if successful
       if (result.success) {
-        const historyItem = {
-          id: Date.now().toString(),
-          imageUri,
-          result,
-          timestamp: new Date(),
-        };
+        const { historyId } = result;
+        const historyItem: ScanHistoryItem | null = historyId
+          ? {
+              id: historyId,
+              placeName: result.placeName,
+              placeNameLocal: result.placeNameLocal,
+              category: result.category,
+              confidence: result.confidence,
+              result,
+              // Local photo until the next fetch signs the stored thumbnail
+              thumbnailUrl: imageUri,
+              createdAt: new Date().toISOString(),
+            }
+          : null;
         
         const now = Date.now();
         set((state) => {
@@ -104,7 +138,7 @@ export const useScanStore = create<ScanState>((set, get) => ({
             isAnalyzing: false,
             scanCount: state.scanCount + 1,
             lastScanTimestamp: newTimestamp,
-            scanHistory: [historyItem, ...state.scanHistory].slice(0, 20), // Keep last 20
+            scanHistory: historyItem ? [historyItem, ...state.scanHistory] : state.scanHistory,
           };
         });
       } else {
@@ -134,16 +168,50 @@ export const useScanStore = create<ScanState>((set, get) => ({
     });
   },
 
+  // Load the server-side quota
+  fetchQuota: async () => {
+    const { data, error } = await getScanQuota();
+    if (error) {
+      logger.error('Failed to fetch scan quota', error);
+      return;
+    }
+    set({ quota: data });
+  },
+
+  // Load scan history from the server
+  fetchHistory: async (userId) => {
+    set({ isHistoryLoading: true });
+    const { data, error } = await getScanHistory(userId);
+    if (error) {
+      logger.error('Failed to fetch scan history', error);
+      set({ isHistoryLoading: false });
+      return;
+    }
+    set({ scanHistory: data, isHistoryLoading: false });
+  },
+
   // Clear all history
-  clearHistory: () => {
-    set({ scanHistory: [] });
+  clearHistory: async () => {
+    const { scanHistory } = get();
+    const result = await deleteScanHistory(scanHistory);
+    if (result.success) {
+      set({ scanHistory: [] });
+    }
+    return result;
   },
 
   // Remove single item from history
-  removeScanFromHistory: (id) => {
-    set((state) => ({
-      scanHistory: state.scanHistory.filter((item) => item.id !== id),
-    }));
+  removeScanFromHistory: async (id) => {
+    const item = get().scanHistory.find((entry) => entry.id === id);
+    if (!item) return { success: true, error: null };
+
+    const result = await deleteScanHistory([item]);
+    if (result.success) {
+      set((state) => ({
+        scanHistory: state.scanHistory.filter((entry) => entry.id !== id),
+      }));
+    }
+    return result;
   },
 
   // Check if cooldown has expired and reset if needed
@@ -161,7 +229,12 @@ export const useScanStore = create<ScanState>((set, get) => ({
 
   // Get remaining cooldown time in milliseconds
   getCooldownRemaining: () => {
-    const { lastScanTimestamp, scanCount } = get();
+    const { quota, lastScanTimestamp, scanCount } = get();
+
+    if (quota) {
+      if (quotaRemaining(quota) > 0 || !quota.resetsAt) return 0;
+      return Math.max(0, new Date(quota.resetsAt).getTime() - Date.now());
+    }
     
     // No cooldown if haven't used all scans
     if (scanCount < FREE_SCAN_LIMIT || lastScanTimestamp === null) return 0;
@@ -175,6 +248,9 @@ export const useScanStore = create<ScanState>((set, get) => ({
 
   // Check if user can scan
   canScan: (isPremium: boolean) => {
+    const { quota } = get();
+    if (quota) return quotaRemaining(quota) > 0;
+
     const limit = isPremium ? PREMIUM_SCAN_LIMIT : FREE_SCAN_LIMIT;
     
     // Reset if cooldown expired
@@ -186,6 +262,9 @@ export const useScanStore = create<ScanState>((set, get) => ({
 
   // Get remaining scans for free users
   getRemainingScans: (isPremium: boolean) => {
+    const { quota } = get();
+    if (quota) return quotaRemaining(quota);
+
     const limit = isPremium ? PREMIUM_SCAN_LIMIT : FREE_SCAN_LIMIT;
     
     // Reset if cooldown expired
@@ -200,4 +279,5 @@ export const useScanStore = create<ScanState>((set, get) => ({
 export const selectIsAnalyzing = (state: ScanState) => state.isAnalyzing;
 export const selectAnalysisResult = (state: ScanState) => state.analysisResult;
 export const selectScanHistory = (state: ScanState) => state.scanHistory;
+export const selectScanQuota = (state: ScanState) => state.quota;
 export const selectImageUri = (state: ScanState) => state.imageUri;
@@ -15,7 +15,9 @@ import {
 import { featuredTours } from '@/constants/Tours';
 import { supabase } from '@/lib/supabase';
 import { logger } from '@/lib/logger';
+import { loadSnapshot, saveSnapshot } from '@/lib/offlineService';
 import { RealtimeChannel } from '@supabase/supabase-js';
+import { useOfflineStore } from './offlineStore';
 
 // Track the latest category fetch request to prevent race conditions
 let latestCategoryFetchId = 0;
@@ -36,6 +38,12 @@ const SWR_CONFIG = {
   revalidateOnFocus: true,
 };
 
+// Last saved tours snapshot, falling back to the bundled featured tours
+const loadOfflineTours = async (): Promise<Tour[]> => {
+  const snapshot = await loadSnapshot<Tour[]>('tours');
+  return snapshot?.data.length ? snapshot.data : featuredTours;
+};
+
 interface TourState {
   // State
   tours: Tour[];
@@ -153,13 +161,21 @@ export const useTourStore = create<TourState>((set, get) => ({
 
     set({ isLoading: true, error: null });
 
+    // Offline: serve the last snapshot without hitting the network
+    if (!useOfflineStore.getState().isOnline) {
+      const tours = await loadOfflineTours();
+      set({ tours, isLoading: false, error: null });
+      return;
+    }
+
     try {
       const { data, error } = await getTours();
 
       if (error) {
-        logger.warn('Tour fetch error, using fallback:', error);
+        logger.warn('Tour fetch error, using offline snapshot:', error);
+        const tours = await loadOfflineTours();
         set({ 
-          tours: featuredTours, 
+          tours, 
           error: null, // Don't show error if we have fallback
           isLoading: false,
           lastFetched: Date.now(),
@@ -169,6 +185,9 @@ export const useTourStore = create<TourState>((set, get) => ({
       }
 
       const tours = data.map(tourDataToTour);
+      if (tours.length > 0) {
+        saveSnapshot('tours', tours);
+      }
       set({ 
         tours: tours.length > 0 ? tours : featuredTours,
         isLoading: false,
@@ -178,8 +197,9 @@ export const useTourStore = create<TourState>((set, get) => ({
       });
     } catch (err: any) {
       logger.error('Tour fetch exception:', err);
+      const tours = await loadOfflineTours();
       set({ 
-        tours: featuredTours,
+        tours,
         isLoading: false,
         error: null,
       });
@@ -200,13 +220,18 @@ export const useTourStore = create<TourState>((set, get) => ({
 
     set({ isLoadingAllTours: true, error: null });
 
+    if (!useOfflineStore.getState().isOnline) {
+      set({ allTours: await loadOfflineTours(), isLoadingAllTours: false, error: null });
+      return;
+    }
+
     try {
       const { data, error } = await getTours();
 
       if (error) {
-        logger.warn('All tours fetch error, using fallback:', error);
+        logger.warn('All tours fetch error, using offline snapshot:', error);
         set({ 
-          allTours: featuredTours, 
+          allTours: await loadOfflineTours(), 
           error: null,
           isLoadingAllTours: false,
         });
@@ -214,6 +239,9 @@ export const useTourStore = create<TourState>((set, get) => ({
       }
 
       const tours = data.map(tourDataToTour);
+      if (tours.length > 0) {
+        saveSnapshot('tours', tours);
+      }
       set({ 
         allTours: tours.length > 0 ? tours : featuredTours,
         isLoadingAllTours: false,
@@ -222,7 +250,7 @@ export const useTourStore = create<TourState>((set, get) => ({
     } catch (err: any) {
       logger.error('All tours fetch exception:', err);
       set({ 
-        allTours: featuredTours,
+        allTours: await loadOfflineTours(),
         isLoadingAllTours: false,
         error: null,
       });
@@ -353,6 +381,25 @@ export const useTourStore = create<TourState>((set, get) => ({
     
     set({ isLoading: true, error: null });
 
+    // Offline: filter the last snapshot locally, no pagination
+    if (!useOfflineStore.getState().isOnline) {
+      const snapshotTours = await loadOfflineTours();
+      if (requestId !== latestCategoryFetchId) return;
+
+      const tours = categoryId && categoryId !== 'all'
+        ? snapshotTours.filter(t => t.category === categoryId)
+        : snapshotTours;
+      set({
+        tours,
+        isLoading: false,
+        currentPage: 0,
+        hasMore: false,
+        totalCount: tours.length,
+        isLoadingMore: false,
+      });
+      return;
+    }
+
     try {
       const result = await getToursPaginated(0, TOURS_PAGE_SIZE, categoryId);
 
@@ -390,6 +437,15 @@ export const useTourStore = create<TourState>((set, get) => ({
 
   // Fetch categories
   fetchCategories: async () => {
+    // Offline: restore categories from the last snapshot
+    if (!useOfflineStore.getState().isOnline) {
+      const snapshot = await loadSnapshot<Category[]>('categories');
+      if (snapshot?.data.length) {
+        set({ categories: snapshot.data });
+      }
+      return;
+    }
+
     try {
       const { data } = await getCategories();
       
@@ -401,6 +457,7 @@ export const useTourStore = create<TourState>((set, get) => ({
       ];
       
       set({ categories });
+      saveSnapshot('categories', categories);
     } catch (err) {
       console.log('Categories fetch error:', err);
     }
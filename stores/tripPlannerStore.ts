@@ -0,0 +1,225 @@
+/**
+ * Trip Planner Store
+ * The user's saved plans ("My Trip Planner") and the draft being edited.
+ * The draft is persisted so stops collected from tours, favorites and
+ * scans survive app restarts.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RouteDay, RouteStop, UserRoute } from '@/types';
+import {
+  addDayToPlan,
+  addStopToPlan,
+  createPlanDay,
+  deleteUserRoute,
+  getMyUserRoutes,
+  moveStopInPlan,
+  removeDayFromPlan,
+  removeStopFromPlan,
+  saveUserRoute,
+  setUserRouteShared,
+  submitUserRoute,
+} from '@/lib/userRouteService';
+
+export interface TripPlanDraft {
+  routeId?: string;            // Set when editing a saved plan
+  title: string;
+  description: string;
+  itinerary: RouteDay[];
+  activeDayIndex: number;      // Day new stops are added to
+}
+
+const createDraft = (): TripPlanDraft => ({
+  title: '',
+  description: '',
+  itinerary: [createPlanDay(1)],
+  activeDayIndex: 1,
+});
+
+interface TripPlannerState {
+  // State
+  routes: UserRoute[];
+  draft: TripPlanDraft;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+
+  // Plans
+  fetchRoutes: (userId: string) => Promise<void>;
+  deleteRoute: (id: string) => Promise<{ success: boolean; error: string | null }>;
+  setShared: (id: string, isShared: boolean) => Promise<{ success: boolean; error: string | null }>;
+  submitRoute: (id: string) => Promise<{ success: boolean; error: string | null }>;
+
+  // Draft
+  editRoute: (route: UserRoute) => void;
+  copyRoute: (route: UserRoute) => void;
+  resetDraft: () => void;
+  updateDraft: (changes: Partial<Pick<TripPlanDraft, 'title' | 'description' | 'activeDayIndex'>>) => void;
+  addStop: (stop: RouteStop) => boolean;
+  removeStop: (dayIndex: number, stopId: string) => void;
+  moveStop: (dayIndex: number, stopId: string, direction: -1 | 1) => void;
+  addDay: () => void;
+  removeDay: (dayIndex: number) => void;
+  saveDraft: (userId: string) => Promise<{ data: UserRoute | null; error: string | null }>;
+
+  // Computed
+  getDraftStopCount: () => number;
+}
+
+export const useTripPlannerStore = create<TripPlannerState>()(
+  persist(
+    (set, get) => ({
+      routes: [],
+      draft: createDraft(),
+      isLoading: false,
+      isSaving: false,
+      error: null,
+
+      fetchRoutes: async (userId) => {
+        set({ isLoading: true, error: null });
+        const { data, error } = await getMyUserRoutes(userId);
+        set({ routes: error ? get().routes : data, isLoading: false, error });
+      },
+
+      deleteRoute: async (id) => {
+        const { success, error } = await deleteUserRoute(id);
+        if (success) {
+          set(state => ({
+            routes: state.routes.filter(r => r.id !== id),
+            draft: state.draft.routeId === id ? createDraft() : state.draft,
+          }));
+        }
+        return { success, error };
+      },
+
+      setShared: async (id, isShared) => {
+        const { success, error } = await setUserRouteShared(id, isShared);
+        if (success) {
+          set(state => ({
+            routes: state.routes.map(r => (r.id === id ? { ...r, isShared } : r)),
+          }));
+        }
+        return { success, error };
+      },
+
+      submitRoute: async (id) => {
+        const { success, error } = await submitUserRoute(id);
+        if (success) {
+          set(state => ({
+            routes: state.routes.map(r =>
+              r.id === id
+                ? { ...r, submissionStatus: 'pending', submittedAt: new Date().toISOString(), rejectionReason: undefined }
+                : r
+            ),
+          }));
+        }
+        return { success, error };
+      },
+
+      editRoute: (route) => {
+        set({
+          draft: {
+            routeId: route.id,
+            title: route.title,
+            description: route.description || '',
+            itinerary: route.itinerary.length > 0 ? route.itinerary : [createPlanDay(1)],
+            activeDayIndex: 1,
+          },
+        });
+      },
+
+      // Start a new draft from someone else's shared plan
+      copyRoute: (route) => {
+        get().editRoute(route);
+        set(state => ({ draft: { ...state.draft, routeId: undefined } }));
+      },
+
+      resetDraft: () => set({ draft: createDraft() }),
+
+      updateDraft: (changes) => {
+        set(state => ({ draft: { ...state.draft, ...changes } }));
+      },
+
+      // Returns false when the stop was already on the active day
+      addStop: (stop) => {
+        const { draft } = get();
+        const itinerary = addStopToPlan(draft.itinerary, draft.activeDayIndex, stop);
+        if (itinerary.every((day, i) => day === draft.itinerary[i])) {
+          return false;
+        }
+        set({ draft: { ...draft, itinerary } });
+        return true;
+      },
+
+      removeStop: (dayIndex, stopId) => {
+        set(state => ({
+          draft: { ...state.draft, itinerary: removeStopFromPlan(state.draft.itinerary, dayIndex, stopId) },
+        }));
+      },
+
+      moveStop: (dayIndex, stopId, direction) => {
+        set(state => ({
+          draft: { ...state.draft, itinerary: moveStopInPlan(state.draft.itinerary, dayIndex, stopId, direction) },
+        }));
+      },
+
+      addDay: () => {
+        set(state => {
+          const itinerary = addDayToPlan(state.draft.itinerary);
+          return { draft: { ...state.draft, itinerary, activeDayIndex: itinerary.length } };
+        });
+      },
+
+      removeDay: (dayIndex) => {
+        set(state => {
+          if (state.draft.itinerary.length <= 1) return state;
+          const itinerary = removeDayFromPlan(state.draft.itinerary, dayIndex);
+          return {
+            draft: {
+              ...state.draft,
+              itinerary,
+              activeDayIndex: Math.min(state.draft.activeDayIndex, itinerary.length),
+            },
+          };
+        });
+      },
+
+      saveDraft: async (userId) => {
+        const { draft } = get();
+        set({ isSaving: true, error: null });
+
+        const { data, error } = await saveUserRoute(
+          userId,
+          { title: draft.title, description: draft.description, itinerary: draft.itinerary },
+          draft.routeId
+        );
+
+        if (error || !data) {
+          set({ isSaving: false, error });
+          return { data: null, error };
+        }
+
+        set(state => ({
+          routes: [data, ...state.routes.filter(r => r.id !== data.id)],
+          draft: createDraft(),
+          isSaving: false,
+        }));
+        return { data, error: null };
+      },
+
+      getDraftStopCount: () =>
+        get().draft.itinerary.reduce((acc, day) => acc + day.stops.length, 0),
+    }),
+    {
+      name: 'trip-planner-draft',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ draft: state.draft }),
+    }
+  )
+);
+
+// Selectors
+export const selectTripPlanDraft = (state: TripPlannerState) => state.draft;
+export const selectUserRoutes = (state: TripPlannerState) => state.routes;
@@ -1,16 +1,27 @@
 /**
  * Two-Factor Authentication Store
- * Manages 2FA state during login flow
+ * Manages 2FA state during login flow and the authenticator app and
+ * recovery code settings
  */
 
 import { create } from 'zustand';
 import {
   initiateTwoFactorVerification,
   verifyCode,
+  verifyTotpCode,
+  verifyRecoveryCode,
   checkTwoFactorEnabled,
+  getTwoFactorFactors,
   toggleTwoFactor,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  regenerateRecoveryCodes,
+  disableTotp,
   formatTimeRemaining,
   isCodeExpired,
+  type RecoveryCodesResult,
+  type TotpEnrollment,
+  type TwoFactorMethod,
   type VerifyCodeResult,
 } from '@/lib/twoFactorService';
 import { logger } from '@/lib/logger';
@@ -19,7 +30,10 @@ interface PendingAuth {
   userId: string;
   email: string;
   userName?: string;
-  expiresAt: Date;
+  // Methods offered on the verify screen
+  methods: TwoFactorMethod[];
+  // Emailed code expiry; not set for authenticator sign-ins
+  expiresAt?: Date;
 }
 
 interface TwoFactorState {
@@ -31,15 +45,20 @@ interface TwoFactorState {
   error: string | null;
   attemptsRemaining: number | null;
   timeRemaining: string;
+  retryAfter: number | null; // Seconds until a new code can be requested when rate limited
+  verificationMethod: TwoFactorMethod;
   
   // 2FA Settings
   twoFactorEnabled: boolean;
+  totpEnabled: boolean;
+  recoveryCodesRemaining: number;
   isLoadingSettings: boolean;
   
   // Actions
   setPending: (auth: PendingAuth | null) => void;
   setError: (error: string | null) => void;
   setCheckingRequired: (checking: boolean) => void;
+  setVerificationMethod: (method: TwoFactorMethod) => void;
   clearPending: () => void;
   
   // Async Actions
@@ -51,6 +70,10 @@ interface TwoFactorState {
   loadTwoFactorStatus: (userId: string) => Promise<void>;
   enableTwoFactor: (userId: string) => Promise<{ success: boolean; error?: string }>;
   disableTwoFactor: (userId: string) => Promise<{ success: boolean; error?: string }>;
+  startTotpEnrollment: (accountName: string) => Promise<{ data: TotpEnrollment | null; error: string | null }>;
+  confirmTotpEnrollment: (code: string) => Promise<RecoveryCodesResult>;
+  regenerateRecoveryCodes: (code: string) => Promise<RecoveryCodesResult>;
+  removeTotp: (code: string) => Promise<VerifyCodeResult>;
   
   // Timer
   updateTimeRemaining: () => void;
@@ -65,7 +88,11 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
   error: null,
   attemptsRemaining: null,
   timeRemaining: '',
+  retryAfter: null,
+  verificationMethod: 'email',
   twoFactorEnabled: false,
+  totpEnabled: false,
+  recoveryCodesRemaining: 0,
   isLoadingSettings: false,
 
   // Setters
@@ -79,6 +106,8 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
   setError: (error) => set({ error }),
   
   setCheckingRequired: (checking) => set({ isCheckingRequired: checking }),
+
+  setVerificationMethod: (method) => set({ verificationMethod: method, error: null, attemptsRemaining: null }),
   
   clearPending: () => set({ 
     pendingAuth: null, 
@@ -87,14 +116,46 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
     error: null,
     attemptsRemaining: null,
     timeRemaining: '',
+    retryAfter: null,
+    verificationMethod: 'email',
   }),
 
   // Initiate 2FA verification
   initiateVerification: async (userId, email, userName) => {
-    set({ isVerifying: true, error: null });
+    set({ isVerifying: true, error: null, retryAfter: null });
     
     try {
-      const result = await initiateTwoFactorVerification(userId, email, userName);
+      // With an authenticator app set up, no email is sent: the app or a
+      // recovery code is needed. If the lookup fails we can't tell whether
+      // email is allowed, so fail closed instead of sending a code.
+      const { data: factors } = await getTwoFactorFactors();
+      if (!factors) {
+        set({
+          error: 'factors_unavailable',
+          isVerifying: false,
+          isCheckingRequired: false,
+        });
+        return false;
+      }
+
+      if (factors.totpEnabled) {
+        set({
+          pendingAuth: {
+            userId,
+            email,
+            userName,
+            methods: ['totp', 'recovery'],
+          },
+          verificationMethod: 'totp',
+          isPending: true,
+          isCheckingRequired: false,
+          isVerifying: false,
+          timeRemaining: '',
+        });
+        return true;
+      }
+
+      const result = await initiateTwoFactorVerification(userName);
       
       if (result.success && result.expiresAt) {
         set({
@@ -102,8 +163,10 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
             userId,
             email,
             userName,
+            methods: ['email'],
             expiresAt: result.expiresAt,
           },
+          verificationMethod: 'email',
           isPending: true,
           isCheckingRequired: false, // Clear checking flag, isPending is now true
           isVerifying: false,
@@ -113,6 +176,7 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
       } else {
         set({ 
           error: result.error || 'Failed to send verification code',
+          retryAfter: result.retryAfter ?? null,
           isVerifying: false,
           isCheckingRequired: false, // Clear on failure too
         });
@@ -131,7 +195,7 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
 
   // Verify submitted code
   verifyCode: async (code) => {
-    const { pendingAuth } = get();
+    const { pendingAuth, verificationMethod } = get();
     
     if (!pendingAuth) {
       return { 
@@ -144,13 +208,20 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
     set({ isVerifying: true, error: null });
     
     try {
-      const result = await verifyCode(pendingAuth.userId, code, 'two_factor');
+      const result = verificationMethod === 'totp'
+        ? await verifyTotpCode(code)
+        : verificationMethod === 'recovery'
+          ? await verifyRecoveryCode(code)
+          : await verifyCode(pendingAuth.userId, code, 'two_factor');
       
       if (result.success) {
         set({ 
           isVerifying: false,
           isPending: false,
           pendingAuth: null,
+          ...(result.recoveryCodesRemaining !== undefined && {
+            recoveryCodesRemaining: result.recoveryCodesRemaining,
+          }),
         });
       } else {
         set({ 
@@ -197,9 +268,14 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
     set({ isLoadingSettings: true });
     
     try {
-      const status = await checkTwoFactorEnabled(userId);
+      const [status, { data: factors }] = await Promise.all([
+        checkTwoFactorEnabled(userId),
+        getTwoFactorFactors(),
+      ]);
       set({ 
         twoFactorEnabled: status.enabled,
+        totpEnabled: factors?.totpEnabled ?? false,
+        recoveryCodesRemaining: factors?.recoveryCodesRemaining ?? 0,
         isLoadingSettings: false,
       });
     } catch (error: any) {
@@ -256,6 +332,67 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
     }
   },
 
+  // Start authenticator app enrollment
+  startTotpEnrollment: async (accountName) => {
+    set({ isLoadingSettings: true });
+    const result = await beginTotpEnrollment(accountName);
+    set({ isLoadingSettings: false });
+    return result;
+  },
+
+  // Finish enrollment; returns the first recovery codes
+  confirmTotpEnrollment: async (code) => {
+    set({ isLoadingSettings: true });
+    const result = await confirmTotpEnrollment(code);
+
+    if (result.success) {
+      set({
+        totpEnabled: true,
+        recoveryCodesRemaining: result.recoveryCodes?.length ?? 0,
+        isLoadingSettings: false,
+      });
+    } else {
+      set({ isLoadingSettings: false });
+    }
+
+    return result;
+  },
+
+  // Replace recovery codes
+  regenerateRecoveryCodes: async (code) => {
+    set({ isLoadingSettings: true });
+    const result = await regenerateRecoveryCodes(code);
+
+    if (result.success) {
+      set({
+        recoveryCodesRemaining: result.recoveryCodes?.length ?? 0,
+        isLoadingSettings: false,
+      });
+    } else {
+      set({ isLoadingSettings: false });
+    }
+
+    return result;
+  },
+
+  // Remove the authenticator app; sign-in goes back to emailed codes
+  removeTotp: async (code) => {
+    set({ isLoadingSettings: true });
+    const result = await disableTotp(code);
+
+    if (result.success) {
+      set({
+        totpEnabled: false,
+        recoveryCodesRemaining: 0,
+        isLoadingSettings: false,
+      });
+    } else {
+      set({ isLoadingSettings: false });
+    }
+
+    return result;
+  },
+
   // Update time remaining display
   updateTimeRemaining: () => {
     const { pendingAuth } = get();
@@ -279,5 +416,6 @@ export const useTwoFactorStore = create<TwoFactorState>((set, get) => ({
 export const selectIsPending = (state: TwoFactorState) => state.isPending;
 export const selectPendingAuth = (state: TwoFactorState) => state.pendingAuth;
 export const selectTwoFactorEnabled = (state: TwoFactorState) => state.twoFactorEnabled;
+export const selectTotpEnabled = (state: TwoFactorState) => state.totpEnabled;
 export const selectIsLoadingSettings = (state: TwoFactorState) => state.isLoadingSettings;
 export const selectIsCheckingRequired = (state: TwoFactorState) => state.isCheckingRequired;
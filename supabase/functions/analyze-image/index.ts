@@ -2,17 +2,46 @@
 // API key'leri güvenli bir şekilde server-side'da tutar
 // Deploy: supabase functions deploy analyze-image
 // Secrets: supabase secrets set GEMINI_API_KEY=your-key
+// Optional: supabase secrets set VISION_PROVIDER_CHAIN=gemini,openai,anthropic
+//
+// The provider is chosen here: the chain is tried in order, skipping
+// providers without a key or with repeated recent failures
+// (vision_provider_health). Model output is validated against a schema
+// before it is returned, and landmark results are cached by a
+// perceptual hash of the image (vision_result_cache).
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { decode as decodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts';
 
 const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
 const ANTHROPIC_API_KEY = Deno.env.get('ANTHROPIC_API_KEY');
 const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
 
+type Provider = 'openai' | 'anthropic' | 'gemini';
+
 interface RequestBody {
   imageBase64: string;
-  provider: 'openai' | 'anthropic' | 'gemini';
+  // Preferred provider, tried first when healthy
+  provider?: Provider;
+  // 'landmark' (default) identifies the place, 'moderation' checks a
+  // community post image for unsafe content (service role only, used
+  // by moderate-post)
+  mode?: 'landmark' | 'moderation';
+  // Small JPEG stored with the scan history entry (landmark mode only)
+  thumbnailBase64?: string;
+}
+
+interface ScanQuota {
+  used: number;
+  limit: number;
+  resetsAt: string | null;
+}
+
+interface Prompts {
+  system: string;
+  user: string;
 }
 
 const corsHeaders = {
@@ -20,8 +49,9 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Retry configuration for overloaded API
-const MAX_RETRIES = 3;
+// Retry configuration for overloaded API (kept short, the fallback
+// chain covers longer outages)
+const MAX_RETRIES = 2;
 const RETRY_DELAY_MS = 2000; // 2 seconds between retries
 
 // Network timeout configuration
@@ -119,8 +149,23 @@ Tanımsız veya KKTC değilse confidence=0 ver. Odak: Girne, Gazimağusa, Lefko
 // Kullanıcı istemi (Türkçe, token dostu)
 const USER_PROMPT = 'Bu görseldeki KKTC noktasını belirle ve bilgileri Türkçe yaz.';
 
-async function analyzeWithOpenAI(imageBase64: string): Promise<Response> {
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+// Topluluk paylaşımları için içerik denetimi (moderate-post kullanır)
+const MODERATION_SYSTEM_PROMPT = `You review photos posted to a travel community app.
+
+Return ONLY valid JSON:
+{"safe":true|false,"categories":["nudity"|"violence"|"gore"|"hate"|"drugs"|"weapons"|"spam"|"personal_data"],"confidence":0.0-1.0}
+
+"spam" covers ads, promo flyers and screenshots of contact details. Travel, food, nature and people in ordinary settings are safe.`;
+
+const MODERATION_USER_PROMPT = 'Is this image safe to publish?';
+
+const PROMPTS: Record<NonNullable<RequestBody['mode']>, Prompts> = {
+  landmark: { system: SYSTEM_PROMPT, user: USER_PROMPT },
+  moderation: { system: MODERATION_SYSTEM_PROMPT, user: MODERATION_USER_PROMPT },
+};
+
+async function analyzeWithOpenAI(imageBase64: string, prompts: Prompts): Promise<Response> {
+  const response = await fetchWithTimeout('https://api.openai.com/v1/chat/completions', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -129,11 +174,11 @@ async function analyzeWithOpenAI(imageBase64: string): Promise<Response> {
     body: JSON.stringify({
       model: 'gpt-4o-mini', // Cost-optimized model
       messages: [
-        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'system', content: prompts.system },
         {
           role: 'user',
           content: [
-            { type: 'text', text: USER_PROMPT },
+            { type: 'text', text: prompts.user },
             {
               type: 'image_url',
               image_url: {
@@ -147,13 +192,13 @@ async function analyzeWithOpenAI(imageBase64: string): Promise<Response> {
       max_tokens: 800, // Reduced from 2000 - JSON response is compact
       temperature: 0.2, // Lower for more consistent output
     }),
-  });
+  }, REQUEST_TIMEOUT_MS);
 
   return response;
 }
 
-async function analyzeWithClaude(imageBase64: string): Promise<Response> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
+async function analyzeWithClaude(imageBase64: string, prompts: Prompts): Promise<Response> {
+  const response = await fetchWithTimeout('https://api.anthropic.com/v1/messages', {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -163,7 +208,7 @@ async function analyzeWithClaude(imageBase64: string): Promise<Response> {
     body: JSON.stringify({
       model: 'claude-3-haiku-20240307', // Cost-optimized model
       max_tokens: 800, // Reduced for compact JSON
-      system: SYSTEM_PROMPT,
+      system: prompts.system,
       messages: [
         {
           role: 'user',
@@ -176,19 +221,19 @@ async function analyzeWithClaude(imageBase64: string): Promise<Response> {
                 data: imageBase64,
               },
             },
-            { type: 'text', text: USER_PROMPT },
+            { type: 'text', text: prompts.user },
           ],
         },
       ],
     }),
-  });
+  }, REQUEST_TIMEOUT_MS);
 
   return response;
 }
 
 // Google Gemini 2.5 Flash - Most cost-effective option for vision tasks
 // With retry mechanism for overloaded API
-async function analyzeWithGemini(imageBase64: string): Promise<Response> {
+async function analyzeWithGemini(imageBase64: string, prompts: Prompts): Promise<Response> {
   return fetchWithRetry(() =>
     fetchWithTimeout(
       'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent',
@@ -208,7 +253,7 @@ async function analyzeWithGemini(imageBase64: string): Promise<Response> {
                     data: imageBase64,
                   },
                 },
-                { text: `${SYSTEM_PROMPT}\n\n${USER_PROMPT}` },
+                { text: `${prompts.system}\n\n${prompts.user}` },
               ],
             },
           ],
@@ -224,12 +269,419 @@ async function analyzeWithGemini(imageBase64: string): Promise<Response> {
   );
 }
 
+// =============================================
+// Provider selection
+// =============================================
+
+const PROVIDER_KEYS: Record<Provider, string | undefined> = {
+  gemini: GEMINI_API_KEY,
+  openai: OPENAI_API_KEY,
+  anthropic: ANTHROPIC_API_KEY,
+};
+
+const PROVIDER_CALLS: Record<Provider, (imageBase64: string, prompts: Prompts) => Promise<Response>> = {
+  gemini: analyzeWithGemini,
+  openai: analyzeWithOpenAI,
+  anthropic: analyzeWithClaude,
+};
+
+// Cheapest first
+const DEFAULT_PROVIDER_CHAIN: Provider[] = ['gemini', 'openai', 'anthropic'];
+
+function isProvider(value: string): value is Provider {
+  return value in PROVIDER_CALLS;
+}
+
+// Configured chain with the preferred provider first, limited to
+// providers that have an API key
+function getProviderChain(preferred?: Provider): Provider[] {
+  const configured = (Deno.env.get('VISION_PROVIDER_CHAIN') ?? '')
+    .split(',')
+    .map(value => value.trim())
+    .filter(isProvider);
+  const chain = configured.length > 0 ? configured : DEFAULT_PROVIDER_CHAIN;
+  const ordered = preferred && chain.includes(preferred)
+    ? [preferred, ...chain.filter(provider => provider !== preferred)]
+    : chain;
+
+  return ordered.filter(provider => !!PROVIDER_KEYS[provider]);
+}
+
+// Providers cooling down after repeated failures go last, so they are
+// only tried when everything else failed too
+async function orderByHealth(supabaseAdmin: any, chain: Provider[]): Promise<Provider[]> {
+  const { data, error } = await supabaseAdmin
+    .from('vision_provider_health')
+    .select('provider, disabled_until')
+    .in('provider', chain);
+
+  if (error) {
+    console.error('[SCAN] provider health lookup failed:', error.message);
+    return chain;
+  }
+
+  const now = Date.now();
+  const coolingDown = new Set(
+    (data ?? [])
+      .filter((row: any) => row.disabled_until && new Date(row.disabled_until).getTime() > now)
+      .map((row: any) => row.provider)
+  );
+
+  return [
+    ...chain.filter(provider => !coolingDown.has(provider)),
+    ...chain.filter(provider => coolingDown.has(provider)),
+  ];
+}
+
+async function recordProviderResult(
+  supabaseAdmin: any,
+  provider: Provider,
+  success: boolean,
+  errorMessage?: string
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc('record_vision_provider_result', {
+    p_provider: provider,
+    p_success: success,
+    p_error: errorMessage ?? null,
+  });
+  if (error) {
+    console.error('[SCAN] provider health update failed:', error.message);
+  }
+}
+
+// =============================================
+// Output validation
+// =============================================
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'boolean';
+
+interface JsonSchema {
+  type: JsonType | JsonType[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+// Years and durations sometimes come back as numbers
+const TEXT: JsonSchema = { type: ['string', 'number'] };
+
+const LANDMARK_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['placeName', 'category', 'confidence', 'description'],
+  properties: {
+    placeName: { type: 'string', minLength: 1 },
+    placeNameLocal: { type: 'string' },
+    category: {
+      type: 'string',
+      enum: ['historical', 'natural', 'religious', 'architectural', 'beach', 'monument', 'museum', 'unknown'],
+    },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    description: { type: 'string' },
+    historicalPeriod: TEXT,
+    yearBuilt: TEXT,
+    architect: TEXT,
+    significance: { type: 'string' },
+    funFacts: STRING_LIST,
+    visitTips: STRING_LIST,
+    bestTimeToVisit: TEXT,
+    estimatedDuration: TEXT,
+    nearbyAttractions: STRING_LIST,
+    location: {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        region: { type: 'string' },
+        address: { type: 'string' },
+      },
+    },
+  },
+};
+
+const MODERATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['safe'],
+  properties: {
+    safe: { type: 'boolean' },
+    categories: STRING_LIST,
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+  },
+};
+
+const SCHEMAS: Record<NonNullable<RequestBody['mode']>, JsonSchema> = {
+  landmark: LANDMARK_SCHEMA,
+  moderation: MODERATION_SCHEMA,
+};
+
+function jsonTypeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  return typeof value;
+}
+
+// First problem found in value, or null when it matches the schema.
+// Optional properties may be null.
+function validateSchema(value: unknown, schema: JsonSchema, path = '$'): string | null {
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actual = jsonTypeOf(value);
+  if (!types.includes(actual as JsonType) || (actual === 'number' && !Number.isFinite(value))) {
+    return `${path} should be ${types.join(' or ')}, got ${actual}`;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${path} is not one of ${schema.enum.join(', ')}`;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return `${path} is below ${schema.minimum}`;
+    if (schema.maximum !== undefined && value > schema.maximum) return `${path} is above ${schema.maximum}`;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    return `${path} is too short`;
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    for (let i = 0; i < value.length; i++) {
+      const problem = validateSchema(value[i], schema.items, `${path}[${i}]`);
+      if (problem) return problem;
+    }
+  }
+
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined || record[key] === null) return `${path}.${key} is required`;
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] === undefined || record[key] === null) continue;
+      const problem = validateSchema(record[key], propertySchema, `${path}.${key}`);
+      if (problem) return problem;
+    }
+  }
+
+  return null;
+}
+
+// Text answer of each provider's response body
+function extractProviderText(provider: Provider, data: any): string | null {
+  switch (provider) {
+    case 'openai':
+      return data?.choices?.[0]?.message?.content ?? null;
+    case 'anthropic':
+      return data?.content?.[0]?.text ?? null;
+    case 'gemini':
+    default:
+      return data?.candidates?.[0]?.content?.parts?.[0]?.text ?? null;
+  }
+}
+
+// Models may wrap the JSON in markdown code blocks
+function parseModelJson(text: string | null): unknown {
+  const jsonMatch = text?.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+}
+
+type AnalysisOutcome =
+  | { ok: true; result: any; provider: Provider }
+  | { ok: false; message: string; status: number; provider?: Provider };
+
+// Tries each provider in turn until one returns valid output
+async function analyzeWithFallback(
+  supabaseAdmin: any,
+  chain: Provider[],
+  imageBase64: string,
+  mode: NonNullable<RequestBody['mode']>
+): Promise<AnalysisOutcome> {
+  let lastFailure: AnalysisOutcome = { ok: false, message: 'No vision provider available', status: 503 };
+
+  for (const provider of chain) {
+    try {
+      const apiResponse = await PROVIDER_CALLS[provider](imageBase64, PROMPTS[mode]);
+      const rawText = await apiResponse.text();
+      let body: any = null;
+      try {
+        body = rawText ? JSON.parse(rawText) : null;
+      } catch {
+        body = null;
+      }
+
+      if (!apiResponse.ok) {
+        const message = body?.error?.message || body?.message || rawText || 'Upstream provider error';
+        console.log(`[SCAN] provider=${provider} failed status=${apiResponse.status}`);
+        await recordProviderResult(supabaseAdmin, provider, false, message);
+        lastFailure = { ok: false, message, status: apiResponse.status, provider };
+        continue;
+      }
+
+      const parsed = parseModelJson(extractProviderText(provider, body));
+      const problem = parsed ? validateSchema(parsed, SCHEMAS[mode]) : 'no JSON in response';
+      if (problem) {
+        console.log(`[SCAN] provider=${provider} invalid output: ${problem}`);
+        await recordProviderResult(supabaseAdmin, provider, false, `Invalid output: ${problem}`);
+        lastFailure = { ok: false, message: 'Invalid response from provider', status: 502, provider };
+        continue;
+      }
+
+      await recordProviderResult(supabaseAdmin, provider, true);
+      return { ok: true, result: parsed, provider };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.log(`[SCAN] provider=${provider} error: ${message}`);
+      await recordProviderResult(supabaseAdmin, provider, false, message);
+      lastFailure = { ok: false, message: message || 'Network timeout', status: 504, provider };
+    }
+  }
+
+  return lastFailure;
+}
+
+// =============================================
+// Result cache
+// =============================================
+
+// Hashes at most this many bits apart are treated as the same photo
+const CACHE_MAX_DISTANCE = 6;
+
+// Unsure answers are not worth repeating
+const CACHE_MIN_CONFIDENCE = 0.5;
+
+// 64-bit difference hash: the image shrunk to 9x8 grayscale, one bit per
+// pair of horizontal neighbours. Always computed from the image sent to
+// the provider, never from the client's thumbnail, so a cached result
+// belongs to the photo it describes.
+async function computeImageHash(base64: string): Promise<string | null> {
+  try {
+    const image = (await Image.decode(decodeBase64(base64))) as Image;
+    image.resize(9, 8);
+
+    const luminance = (x: number, y: number) => {
+      const [r, g, b] = Image.colorToRGBA(image.getPixelAt(x, y));
+      return 0.299 * r + 0.587 * g + 0.114 * b;
+    };
+
+    let hex = '';
+    let nibble = 0;
+    let bits = 0;
+    for (let y = 1; y <= 8; y++) {
+      for (let x = 1; x <= 8; x++) {
+        nibble = (nibble << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+        bits++;
+        if (bits === 4) {
+          hex += nibble.toString(16);
+          nibble = 0;
+          bits = 0;
+        }
+      }
+    }
+    return hex;
+  } catch (err) {
+    console.error('[SCAN] image hash failed:', err instanceof Error ? err.message : String(err));
+    return null;
+  }
+}
+
+async function findCachedResult(
+  supabaseAdmin: any,
+  imageHash: string
+): Promise<{ result: any; provider: Provider } | null> {
+  const { data, error } = await supabaseAdmin.rpc('find_cached_vision_result', {
+    p_hash: imageHash,
+    p_max_distance: CACHE_MAX_DISTANCE,
+  });
+  if (error) {
+    console.error('[SCAN] cache lookup failed:', error.message);
+    return null;
+  }
+
+  const row = data?.[0];
+  // Entries from before a schema change are not trusted
+  if (!row || validateSchema(row.result, LANDMARK_SCHEMA)) return null;
+
+  await supabaseAdmin.rpc('record_vision_cache_hit', { p_id: row.id });
+  return { result: row.result, provider: row.provider };
+}
+
+async function cacheResult(supabaseAdmin: any, imageHash: string, result: any, provider: Provider) {
+  if (result.confidence < CACHE_MIN_CONFIDENCE) return;
+
+  const { error } = await supabaseAdmin.from('vision_result_cache').insert({
+    image_hash: imageHash,
+    result,
+    provider,
+  });
+  if (error) {
+    console.error('[SCAN] cache insert failed:', error.message);
+  }
+}
+
+// =============================================
+// Scan history
+// =============================================
+
+// Stores a successful landmark scan; failures only cost the history entry
+async function saveScanHistory(
+  supabaseAdmin: any,
+  userId: string,
+  provider: string,
+  landmark: any,
+  thumbnailBase64?: string
+): Promise<string | null> {
+  const historyId = crypto.randomUUID();
+  let thumbnailPath: string | null = null;
+
+  if (thumbnailBase64) {
+    const path = `${userId}/${historyId}.jpg`;
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from('scan-thumbnails')
+      .upload(path, decodeBase64(thumbnailBase64), { contentType: 'image/jpeg' });
+
+    if (uploadError) {
+      console.error('[SCAN] thumbnail upload failed:', uploadError.message);
+    } else {
+      thumbnailPath = path;
+    }
+  }
+
+  const confidence = Math.min(Math.max(Number(landmark.confidence) || 0, 0), 1);
+  const { error } = await supabaseAdmin.from('scan_history').insert({
+    id: historyId,
+    user_id: userId,
+    place_name: String(landmark.placeName),
+    place_name_local: landmark.placeNameLocal ?? null,
+    category: landmark.category ?? 'unknown',
+    confidence,
+    result: landmark,
+    thumbnail_path: thumbnailPath,
+    provider,
+  });
+
+  if (error) {
+    console.error('[SCAN] history insert failed:', error.message);
+    return null;
+  }
+  return historyId;
+}
+
 serve(async (req) => {
   // CORS preflight
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  // Set once a scan has been counted, so failures can give it back
+  let refundScan: (() => Promise<void>) | null = null;
+
   try {
     // Verify authentication
     const authHeader = req.headers.get('Authorization');
@@ -240,23 +692,41 @@ serve(async (req) => {
       );
     }
 
-    // Initialize Supabase client to verify user
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
-      { global: { headers: { Authorization: authHeader } } }
-    );
+    // moderate-post calls with the service role key; everyone else is a
+    // signed-in user
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const isServiceCall = serviceRoleKey !== '' && authHeader === `Bearer ${serviceRoleKey}`;
+
+    let userId: string | null = null;
+    if (!isServiceCall) {
+      // Initialize Supabase client to verify user
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
 
-    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
-    if (authError || !user) {
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      userId = user.id;
+    }
+
+    const { imageBase64, provider: preferredProvider, mode = 'landmark', thumbnailBase64 }: RequestBody = await req.json();
+
+    // Users only get quota-counted landmark scans, so moderation checks
+    // can't be used for free provider calls
+    if (mode !== (isServiceCall ? 'moderation' : 'landmark')) {
       return new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        JSON.stringify({ error: 'Mode not allowed' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const { imageBase64, provider }: RequestBody = await req.json();
-
     if (!imageBase64) {
       return new Response(
         JSON.stringify({ error: 'Image is required' }),
@@ -264,77 +734,88 @@ serve(async (req) => {
       );
     }
 
-    // Check API key availability based on provider
-    let apiKey: string | undefined;
-    switch (provider) {
-      case 'gemini':
-        apiKey = GEMINI_API_KEY;
-        break;
-      case 'openai':
-        apiKey = OPENAI_API_KEY;
-        break;
-      case 'anthropic':
-        apiKey = ANTHROPIC_API_KEY;
-        break;
-    }
-    
-    if (!apiKey) {
+    const chain = getProviderChain(preferredProvider);
+    if (chain.length === 0) {
       return new Response(
-        JSON.stringify({ error: `${provider} API key not configured` }),
+        JSON.stringify({ error: 'No vision provider API key configured' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Analyze image based on provider
-    let apiResponse: Response;
-    switch (provider) {
-      case 'gemini':
-        apiResponse = await analyzeWithGemini(imageBase64);
-        break;
-      case 'openai':
-        apiResponse = await analyzeWithOpenAI(imageBase64);
-        break;
-      case 'anthropic':
-        apiResponse = await analyzeWithClaude(imageBase64);
-        break;
-      default:
-        // Default to Gemini (most cost-effective)
-        apiResponse = await analyzeWithGemini(imageBase64);
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey,
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    // Landmark scans count against the user's plan limit. Moderation
+    // checks are internal and free.
+    let quota: ScanQuota | null = null;
+    if (mode === 'landmark' && userId) {
+      const scanUserId = userId;
+      const { data: quotaRows, error: quotaError } = await supabaseAdmin.rpc('consume_scan_quota', {
+        p_user_id: scanUserId,
+      });
+      if (quotaError) throw quotaError;
+
+      const row = quotaRows?.[0];
+      quota = { used: row.used, limit: row.scan_limit, resetsAt: row.resets_at };
+
+      if (!row.allowed) {
+        return new Response(
+          JSON.stringify({ error: { code: 'quota_exceeded', message: 'Scan limit reached', status: 429 }, quota }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      refundScan = async () => {
+        await supabaseAdmin.rpc('refund_scan_quota', { p_user_id: scanUserId });
+      };
     }
 
-    const rawText = await apiResponse.text();
-    let parsedResult: any = null;
-    try {
-      parsedResult = rawText ? JSON.parse(rawText) : null;
-    } catch {
-      parsedResult = null;
+    // Re-scans of a known landmark skip the provider
+    let imageHash: string | null = null;
+    let cached: { result: any; provider: Provider } | null = null;
+    if (mode === 'landmark') {
+      imageHash = await computeImageHash(imageBase64);
+      cached = imageHash ? await findCachedResult(supabaseAdmin, imageHash) : null;
     }
 
-    if (!apiResponse.ok) {
-      const message =
-        parsedResult?.error?.message ||
-        parsedResult?.message ||
-        rawText ||
-        'Upstream provider error';
+    let result: any;
+    let provider: Provider;
+    if (cached) {
+      ({ result, provider } = cached);
+    } else {
+      const outcome = await analyzeWithFallback(supabaseAdmin, await orderByHealth(supabaseAdmin, chain), imageBase64, mode);
+      if (!outcome.ok) {
+        await refundScan?.();
+        return new Response(
+          JSON.stringify({ error: { message: outcome.message, status: outcome.status, provider: outcome.provider } }),
+          { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-      return new Response(
-        JSON.stringify({ error: { message, status: apiResponse.status, provider } }),
-        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      ({ result, provider } = outcome);
+      if (imageHash) {
+        await cacheResult(supabaseAdmin, imageHash, result, provider);
+      }
     }
 
-    const result = parsedResult ?? { error: { message: 'Empty response from provider' } };
+    const scanHistoryId = mode === 'landmark' && userId
+      ? await saveScanHistory(supabaseAdmin, userId, provider, result, thumbnailBase64)
+      : null;
 
     // Log usage for monitoring (token-efficient logging)
-    console.log(`[SCAN] user=${user.id} provider=${provider}`);
+    console.log(`[SCAN] user=${userId ?? 'service'} provider=${provider} mode=${mode} cached=${!!cached}`);
 
     return new Response(
-      JSON.stringify(result),
+      JSON.stringify({ result, provider, cached: !!cached, quota, scanHistoryId }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error analyzing image:', error);
+    await refundScan?.().catch(() => {});
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
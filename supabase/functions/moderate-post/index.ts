@@ -0,0 +1,456 @@
+// Supabase Edge Function: moderate-post
+// Automated first pass over a new community post
+//
+//   { "postId": "..." }  Called by the post owner right after creating it
+//
+// Checks, in order:
+//   1. Text heuristics (Turkish and English profanity, spam phrases,
+//      links, contact details, shouting, repeated characters)
+//   2. SHA-256 of every image, compared with earlier posts to catch
+//      re-posted images
+//   3. A vision check through analyze-image (mode: 'moderation'),
+//      called with the service role key
+//
+// Posts under the risk threshold are approved; everything else stays
+// pending for admins with the reasons in moderation_flags. Each decision
+// is written to moderation_logs with source 'auto'. Posts that were
+// already processed are returned as they are.
+//
+// Deploy with:
+//   supabase functions deploy moderate-post
+//
+// Required secrets (already set for other functions):
+//   SUPABASE_URL
+//   SUPABASE_ANON_KEY
+//   SUPABASE_SERVICE_ROLE_KEY
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { encodeBase64 } from "jsr:@std/encoding/base64";
+
+// Posts with more images than this stay pending for an admin
+const MAX_IMAGES = 4;
+// Only images uploaded to this project's community bucket are fetched
+const COMMUNITY_BUCKET = 'community';
+const MAX_VISION_BYTES = 4 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 15000;
+const VISION_TIMEOUT_MS = 30000;
+
+// Posts scoring below this are approved automatically
+const APPROVE_THRESHOLD = 0.3;
+const UNSAFE_CONFIDENCE = 0.5;
+
+type ModerationFlag =
+  | 'profanity'
+  | 'spam'
+  | 'links'
+  | 'contact_info'
+  | 'shouting'
+  | 'repeated_chars'
+  | 'duplicate_image'
+  | 'image_unreachable'
+  | 'too_many_images'
+  | 'unsafe_image'
+  | 'vision_unavailable';
+
+const FLAG_WEIGHTS: Record<ModerationFlag, number> = {
+  profanity: 1,
+  spam: 0.5,
+  links: 0.4,
+  contact_info: 0.4,
+  shouting: 0.2,
+  repeated_chars: 0.2,
+  duplicate_image: 0.6,
+  image_unreachable: 0.5,
+  too_many_images: 1,
+  unsafe_image: 1,
+  vision_unavailable: 0.5,
+};
+
+// Whole words only: short stems collide with ordinary words
+// ("göt" / "götürmek", "sik" / "sikke")
+const PROFANITY_WORDS = [
+  'amk', 'aq', 'oç', 'piç', 'sik', 'göt', 'ibne', 'gavat',
+  'shit', 'cunt', 'dick', 'whore', 'slut', 'bastard', 'fag',
+];
+
+// Any word starting with these
+const PROFANITY_STEMS = [
+  'orospu', 'siktir', 'sikerim', 'sikeyim', 'yarrak', 'amcık', 'pezevenk',
+  'yavşak', 'şerefsiz', 'kahpe', 'gerizekal',
+  'fuck', 'motherfuck', 'bitch', 'asshole', 'nigger', 'faggot',
+];
+
+const SPAM_PHRASES = [
+  'whatsapp', 'telegram', 'dm me', 'link in bio', 'click here', 'free followers',
+  'promo code', 'earn money', 'casino', 'betting', 'crypto',
+  'buraya tıkla', 'linke tıkla', 'indirim kodu', 'para kazan', 'takipçi satın',
+  'bahis', 'kripto', 'bedava takipçi',
+];
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|io|co|me|ly|tr|xyz|info|biz|link)\b/i;
+const EMAIL_PATTERN = /[^\s@]+@[^\s@]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{8,}\d/;
+const REPEATED_CHARS_PATTERN = /(.)\1{5,}/u;
+
+// Undo common letter swaps ("f*ck", "5iktir", "@mk")
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '*': 'u',
+};
+
+interface PostRow {
+  id: string;
+  user_id: string;
+  title: string | null;
+  content: string | null;
+  images: string[] | null;
+  status: string;
+  moderation_flags: string[];
+  moderation_score: number | null;
+  auto_moderated_at: string | null;
+  updated_at: string;
+}
+
+interface ImageCheck {
+  url: string;
+  hash?: string;
+  bytes?: Uint8Array;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// =============================================
+// Text
+// =============================================
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLocaleLowerCase('tr')
+    .replace(/[0-9@$*]/g, ch => LEET_MAP[ch] ?? ch)
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+
+function checkText(text: string): { flags: ModerationFlag[]; matches: string[] } {
+  const flags = new Set<ModerationFlag>();
+  const matches: string[] = [];
+  if (!text.trim()) return { flags: [], matches };
+
+  for (const token of tokenize(text)) {
+    if (PROFANITY_WORDS.includes(token) || PROFANITY_STEMS.some(stem => token.startsWith(stem))) {
+      flags.add('profanity');
+      matches.push(token);
+    }
+  }
+
+  const lower = text.toLocaleLowerCase('tr');
+  for (const phrase of SPAM_PHRASES) {
+    if (new RegExp(`(^|[^\\p{L}])${phrase}($|[^\\p{L}])`, 'u').test(lower)) {
+      flags.add('spam');
+      matches.push(phrase);
+    }
+  }
+
+  if (LINK_PATTERN.test(text)) flags.add('links');
+  if (EMAIL_PATTERN.test(text) || PHONE_PATTERN.test(text)) flags.add('contact_info');
+  if (REPEATED_CHARS_PATTERN.test(text)) flags.add('repeated_chars');
+
+  const letters = text.match(/\p{L}/gu) ?? [];
+  const upper = text.match(/\p{Lu}/gu) ?? [];
+  if (letters.length >= 20 && upper.length / letters.length > 0.7) flags.add('shouting');
+
+  return { flags: [...flags], matches };
+}
+
+// =============================================
+// Images
+// =============================================
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Post images are written by users, so anything outside the community
+// bucket is never fetched (it could point at internal services)
+function isCommunityImageUrl(supabaseUrl: string, url: string): boolean {
+  try {
+    const prefix = new URL(`${supabaseUrl.replace(/\/+$/, '')}/storage/v1/object/public/${COMMUNITY_BUCKET}/`);
+    const target = new URL(url);
+    return (
+      target.origin === prefix.origin &&
+      !target.username &&
+      !target.password &&
+      target.pathname.startsWith(prefix.pathname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+async function loadImages(supabaseUrl: string, urls: string[]): Promise<ImageCheck[]> {
+  return Promise.all(
+    urls.map(async (url): Promise<ImageCheck> => {
+      if (!isCommunityImageUrl(supabaseUrl, url)) {
+        console.log('[MODERATE] skipped image outside the community bucket');
+        return { url };
+      }
+
+      try {
+        const response = await fetchWithTimeout(url, {}, IMAGE_TIMEOUT_MS);
+        if (!response.ok) return { url };
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        return { url, bytes, hash: await sha256Hex(bytes) };
+      } catch (err) {
+        console.log(`[MODERATE] image fetch failed: ${err instanceof Error ? err.message : String(err)}`);
+        return { url };
+      }
+    })
+  );
+}
+
+async function findDuplicateImages(
+  supabaseAdmin: SupabaseClient,
+  post: PostRow,
+  images: ImageCheck[]
+): Promise<string[]> {
+  const hashes = images.map(image => image.hash).filter((hash): hash is string => !!hash);
+  if (hashes.length === 0) return [];
+
+  const { data: existing } = await supabaseAdmin
+    .from('community_image_hashes')
+    .select('post_id, hash')
+    .in('hash', hashes)
+    .neq('post_id', post.id);
+
+  await supabaseAdmin
+    .from('community_image_hashes')
+    .upsert(
+      images
+        .filter(image => image.hash)
+        .map(image => ({ post_id: post.id, user_id: post.user_id, image_url: image.url, hash: image.hash })),
+      { onConflict: 'post_id,hash', ignoreDuplicates: true }
+    );
+
+  return [...new Set((existing ?? []).map(row => row.post_id as string))];
+}
+
+async function checkImageSafety(
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  image: ImageCheck
+): Promise<{ safe: boolean; categories: string[]; confidence: number } | null> {
+  if (!image.bytes || image.bytes.length > MAX_VISION_BYTES) return null;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${supabaseUrl}/functions/v1/analyze-image`,
+      {
+        method: 'POST',
+        headers: {
+          // analyze-image only runs moderation checks for the service role
+          Authorization: `Bearer ${serviceRoleKey}`,
+          apikey: serviceRoleKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ imageBase64: encodeBase64(image.bytes), mode: 'moderation' }),
+      },
+      VISION_TIMEOUT_MS
+    );
+    if (!response.ok) return null;
+
+    // analyze-image validates the reply against its moderation schema
+    const data = await response.json();
+    const parsed = data?.result;
+    if (typeof parsed?.safe !== 'boolean') return null;
+
+    return {
+      safe: parsed.safe,
+      categories: Array.isArray(parsed.categories) ? parsed.categories.map(String) : [],
+      confidence: Math.min(1, Math.max(0, Number(parsed.confidence) || 0)),
+    };
+  } catch (err) {
+    console.log(`[MODERATE] vision check failed: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+// =============================================
+// Decision
+// =============================================
+
+async function moderatePost(
+  supabaseAdmin: SupabaseClient,
+  supabaseUrl: string,
+  serviceRoleKey: string,
+  post: PostRow
+) {
+  const flags = new Set<ModerationFlag>();
+  const details: Record<string, unknown> = {};
+
+  const text = checkText([post.title, post.content].filter(Boolean).join('\n'));
+  text.flags.forEach(flag => flags.add(flag));
+  if (text.matches.length > 0) details.textMatches = text.matches;
+
+  const imageUrls = post.images ?? [];
+  if (imageUrls.length > MAX_IMAGES) flags.add('too_many_images');
+
+  const images = await loadImages(supabaseUrl, imageUrls.slice(0, MAX_IMAGES));
+  if (images.some(image => !image.bytes)) flags.add('image_unreachable');
+
+  const duplicateOf = await findDuplicateImages(supabaseAdmin, post, images);
+  if (duplicateOf.length > 0) {
+    flags.add('duplicate_image');
+    details.duplicateOf = duplicateOf;
+  }
+
+  const vision = await Promise.all(
+    images.filter(image => image.bytes).map(image => checkImageSafety(supabaseUrl, serviceRoleKey, image))
+  );
+  if (vision.some(result => result === null)) flags.add('vision_unavailable');
+
+  const unsafe = vision.filter(
+    result => result && !result.safe && result.confidence >= UNSAFE_CONFIDENCE
+  );
+  if (unsafe.length > 0) {
+    flags.add('unsafe_image');
+    details.imageCategories = [...new Set(unsafe.flatMap(result => result!.categories))];
+  }
+
+  const flagList = [...flags];
+  const score = Math.min(
+    9.99,
+    flagList.reduce((total, flag) => total + FLAG_WEIGHTS[flag], 0)
+  );
+  const approved = score < APPROVE_THRESHOLD;
+  const now = new Date().toISOString();
+
+  // Only if the owner hasn't edited the post since it was read, so an
+  // edit can't slip through on this check
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('community_posts')
+    .update({
+      moderation_flags: flagList,
+      moderation_score: score,
+      auto_moderated_at: now,
+      ...(approved ? { status: 'approved', reviewed_at: now } : {}),
+    })
+    .eq('id', post.id)
+    .eq('status', 'pending')
+    .eq('updated_at', post.updated_at)
+    .select('id');
+
+  if (updateError) throw updateError;
+
+  if (!updated || updated.length === 0) {
+    console.log(`[MODERATE] post=${post.id} changed during moderation, left pending`);
+    return { status: 'pending', flags: flagList, score };
+  }
+
+  await supabaseAdmin.from('moderation_logs').insert({
+    post_id: post.id,
+    admin_id: null,
+    action: approved ? 'auto_approved' : 'flagged',
+    reason: flagList.length > 0 ? flagList.join(', ') : null,
+    source: 'auto',
+    flags: flagList,
+    risk_score: score,
+    details,
+  });
+
+  console.log(`[MODERATE] post=${post.id} action=${approved ? 'auto_approved' : 'flagged'} score=${score}`);
+
+  return { status: approved ? 'approved' : 'pending', flags: flagList, score };
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    const { postId } = await req.json();
+    if (!postId) {
+      return jsonResponse({ success: false, error: 'postId is required' }, 400);
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const { data: post } = await supabaseAdmin
+      .from('community_posts')
+      .select('id, user_id, title, content, images, status, moderation_flags, moderation_score, auto_moderated_at, updated_at')
+      .eq('id', postId)
+      .maybeSingle();
+
+    if (!post || post.user_id !== user.id) {
+      return jsonResponse({ success: false, error: 'Post not found' }, 404);
+    }
+
+    // Already reviewed by an admin or by an earlier call
+    if (post.status !== 'pending' || post.auto_moderated_at) {
+      return jsonResponse({
+        success: true,
+        status: post.status,
+        flags: post.moderation_flags ?? [],
+        score: post.moderation_score,
+      });
+    }
+
+    const result = await moderatePost(supabaseAdmin, supabaseUrl, supabaseServiceRoleKey, post as PostRow);
+    return jsonResponse({ success: true, ...result });
+  } catch (error) {
+    console.error('moderate-post error:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,516 @@
+// Supabase Edge Function: send-notification
+// Delivers admin push notifications through the Expo Push API
+//
+//   { "notificationId": "..." }  Send now, or mark as scheduled when
+//                                scheduled_at is in the future
+//   { "action": "process" }      Send due scheduled notifications, release
+//                                stale claims and poll pending receipts
+//                                (run every minute by cron)
+//
+// Messages are sent in chunks of 100 (Expo's per-request limit) with
+// retries on rate limits and server errors. Every device gets a row in
+// push_tickets; receipts are polled later and devices reported as
+// DeviceNotRegistered are deactivated.
+//
+// Deploy with:
+//   supabase functions deploy send-notification --no-verify-jwt
+//
+// Required secrets (already set for other functions):
+//   SUPABASE_URL
+//   SUPABASE_ANON_KEY
+//   SUPABASE_SERVICE_ROLE_KEY
+//
+// Optional secrets:
+//   supabase secrets set EXPO_ACCESS_TOKEN=xxxxx   (when push security is enabled)
+
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient, SupabaseClient } from "jsr:@supabase/supabase-js@2";
+
+const EXPO_SEND_URL = 'https://exp.host/--/api/v2/push/send';
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts';
+const EXPO_ACCESS_TOKEN = Deno.env.get('EXPO_ACCESS_TOKEN');
+
+// Expo limits
+const SEND_CHUNK_SIZE = 100;
+const RECEIPT_CHUNK_SIZE = 1000;
+
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Expo recommends waiting before receipts are fetched
+const RECEIPT_DELAY_MINUTES = 15;
+const RECEIPT_BATCH_LIMIT = 3000;
+const SCHEDULED_BATCH_LIMIT = 20;
+
+// A 'sending' claim older than this belongs to a run that died
+const SENDING_TIMEOUT_MINUTES = 10;
+
+// Statuses a send request may claim
+const CLAIMABLE_STATUSES = ['pending', 'scheduled', 'failed'];
+
+interface RequestBody {
+  notificationId?: string;
+  action?: 'send' | 'process';
+}
+
+interface Notification {
+  id: string;
+  title: string;
+  message: string;
+  type: string;
+  target: 'all' | 'user' | 'segment';
+  target_user_id: string | null;
+  deep_link: string | null;
+  data: Record<string, unknown> | null;
+  status: string;
+  scheduled_at: string | null;
+}
+
+interface Device {
+  id: string | null;
+  expo_push_token: string;
+}
+
+interface ExpoTicket {
+  status: 'ok' | 'error';
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+interface ExpoReceipt {
+  status: 'ok' | 'error';
+  message?: string;
+  details?: { error?: string };
+}
+
+interface DeliveryStats {
+  total: number;
+  accepted: number;
+  failed: number;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * POST to Expo, retrying 429 and 5xx responses with exponential backoff
+ */
+async function postToExpo<T>(url: string, body: unknown): Promise<T> {
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    'Accept-Encoding': 'gzip, deflate',
+    'Content-Type': 'application/json',
+  };
+  if (EXPO_ACCESS_TOKEN) {
+    headers['Authorization'] = `Bearer ${EXPO_ACCESS_TOKEN}`;
+  }
+
+  let lastError = 'Unknown error';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify(body) });
+
+      if (response.ok) {
+        return await response.json() as T;
+      }
+
+      lastError = `Expo responded with ${response.status}`;
+      if (response.status !== 429 && response.status < 500) {
+        break;
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (attempt < MAX_ATTEMPTS) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+
+  throw new Error(lastError);
+}
+
+async function deactivateTokens(admin: SupabaseClient, tokens: string[]) {
+  if (tokens.length === 0) return;
+
+  const { error } = await admin
+    .from('user_devices')
+    .update({ is_active: false })
+    .in('expo_push_token', tokens);
+
+  if (error) {
+    console.error('Failed to deactivate devices:', error);
+  }
+}
+
+async function getDevices(admin: SupabaseClient, notification: Notification): Promise<Device[]> {
+  if (notification.target === 'segment') {
+    // Records recipients in user_notifications and returns their devices
+    const { data, error } = await admin.rpc('deliver_segment_notification', {
+      p_notification_id: notification.id,
+    });
+    if (error) throw error;
+    return data || [];
+  }
+
+  let query = admin
+    .from('user_devices')
+    .select('id, expo_push_token')
+    .eq('is_active', true);
+
+  if (notification.target === 'user') {
+    if (!notification.target_user_id) return [];
+    query = query.eq('user_id', notification.target_user_id);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Send one notification to all of its devices and record the tickets
+ */
+async function deliverNotification(admin: SupabaseClient, notification: Notification): Promise<DeliveryStats> {
+  const stats: DeliveryStats = { total: 0, accepted: 0, failed: 0 };
+
+  const devices = (await getDevices(admin, notification)).filter(d => d.expo_push_token);
+  stats.total = devices.length;
+
+  for (const batch of chunk(devices, SEND_CHUNK_SIZE)) {
+    const messages = batch.map(device => ({
+      to: device.expo_push_token,
+      sound: 'default',
+      title: notification.title,
+      body: notification.message,
+      data: {
+        ...notification.data,
+        notificationId: notification.id,
+        type: notification.type,
+        deepLink: notification.deep_link,
+      },
+    }));
+
+    let tickets: ExpoTicket[];
+    try {
+      const response = await postToExpo<{ data: ExpoTicket[] }>(EXPO_SEND_URL, messages);
+      tickets = response.data || [];
+    } catch (error) {
+      // The whole chunk failed after retries
+      const message = error instanceof Error ? error.message : String(error);
+      tickets = batch.map(() => ({ status: 'error', message, details: { error: 'RequestFailed' } }));
+    }
+
+    const rows = batch.map((device, index) => {
+      const ticket = tickets[index] || { status: 'error', message: 'Missing ticket' };
+      return {
+        notification_id: notification.id,
+        device_id: device.id,
+        expo_push_token: device.expo_push_token,
+        ticket_id: ticket.id ?? null,
+        status: ticket.status,
+        error: ticket.status === 'error' ? ticket.details?.error ?? 'Unknown' : null,
+        error_message: ticket.message ?? null,
+        attempts: ticket.details?.error === 'RequestFailed' ? MAX_ATTEMPTS : 1,
+      };
+    });
+
+    const { error: insertError } = await admin.from('push_tickets').insert(rows);
+    if (insertError) {
+      console.error('Failed to store push tickets:', insertError);
+    }
+
+    stats.accepted += rows.filter(r => r.status === 'ok').length;
+    stats.failed += rows.filter(r => r.status === 'error').length;
+
+    await deactivateTokens(
+      admin,
+      rows.filter(r => r.error === 'DeviceNotRegistered').map(r => r.expo_push_token)
+    );
+  }
+
+  const failed = stats.total > 0 && stats.accepted === 0;
+  await admin
+    .from('notifications')
+    .update(failed
+      ? { status: 'failed' }
+      : { status: 'sent', sent_at: new Date().toISOString() })
+    .eq('id', notification.id);
+
+  return stats;
+}
+
+/**
+ * Send now, or park until scheduled_at
+ */
+async function sendNotification(admin: SupabaseClient, notificationId: string) {
+  const { data: notification, error } = await admin
+    .from('notifications')
+    .select('*')
+    .eq('id', notificationId)
+    .single();
+
+  if (error || !notification) {
+    return jsonResponse({ success: false, error: 'Notification not found' }, 404);
+  }
+
+  if (notification.status === 'sent' || notification.status === 'sending') {
+    return jsonResponse({ success: false, error: 'Notification already sent' }, 409);
+  }
+
+  if (notification.scheduled_at && new Date(notification.scheduled_at).getTime() > Date.now()) {
+    await admin
+      .from('notifications')
+      .update({ status: 'scheduled' })
+      .eq('id', notificationId)
+      .in('status', CLAIMABLE_STATUSES);
+    return jsonResponse({ success: true, scheduled: true });
+  }
+
+  // Conditional update so concurrent requests never send twice
+  const { data: claimed, error: claimError } = await admin
+    .from('notifications')
+    .update({ status: 'sending', sending_started_at: new Date().toISOString() })
+    .eq('id', notificationId)
+    .in('status', CLAIMABLE_STATUSES)
+    .select('*')
+    .maybeSingle();
+
+  if (claimError) {
+    console.error('Failed to claim notification:', claimError);
+    return jsonResponse({ success: false, error: 'Failed to send notification' }, 500);
+  }
+
+  if (!claimed) {
+    return jsonResponse({ success: false, error: 'Notification already sent' }, 409);
+  }
+
+  try {
+    const stats = await deliverNotification(admin, claimed as Notification);
+    return jsonResponse({ success: true, stats });
+  } catch (err) {
+    console.error('Failed to deliver notification:', err);
+    await admin.from('notifications').update({ status: 'failed' }).eq('id', notificationId);
+    return jsonResponse({ success: false, error: 'Failed to send notification' }, 500);
+  }
+}
+
+/**
+ * Claim and send scheduled notifications that are due
+ */
+async function processScheduled(admin: SupabaseClient): Promise<number> {
+  const { data: due, error } = await admin
+    .from('notifications')
+    .select('*')
+    .eq('status', 'scheduled')
+    .lte('scheduled_at', new Date().toISOString())
+    .order('scheduled_at', { ascending: true })
+    .limit(SCHEDULED_BATCH_LIMIT);
+
+  if (error) {
+    console.error('Failed to fetch scheduled notifications:', error);
+    return 0;
+  }
+
+  let sent = 0;
+  for (const notification of (due || []) as Notification[]) {
+    // Conditional update so overlapping runs never send twice
+    const { data: claimed } = await admin
+      .from('notifications')
+      .update({ status: 'sending', sending_started_at: new Date().toISOString() })
+      .eq('id', notification.id)
+      .eq('status', 'scheduled')
+      .select('id');
+
+    if (!claimed || claimed.length === 0) continue;
+
+    try {
+      await deliverNotification(admin, notification);
+      sent++;
+    } catch (err) {
+      console.error(`Failed to deliver scheduled notification ${notification.id}:`, err);
+      await admin.from('notifications').update({ status: 'failed' }).eq('id', notification.id);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Fail notifications whose sender died mid-delivery, so they can be resent
+ */
+async function releaseStaleClaims(admin: SupabaseClient): Promise<number> {
+  const cutoff = new Date(Date.now() - SENDING_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+
+  const { data: released, error } = await admin
+    .from('notifications')
+    .update({ status: 'failed' })
+    .eq('status', 'sending')
+    .or(`sending_started_at.is.null,sending_started_at.lt.${cutoff}`)
+    .select('id');
+
+  if (error) {
+    console.error('Failed to release stale notification claims:', error);
+    return 0;
+  }
+
+  return released?.length ?? 0;
+}
+
+/**
+ * Fetch receipts for accepted tickets old enough to have one
+ */
+async function pollReceipts(admin: SupabaseClient): Promise<number> {
+  const cutoff = new Date(Date.now() - RECEIPT_DELAY_MINUTES * 60 * 1000).toISOString();
+
+  const { data: tickets, error } = await admin
+    .from('push_tickets')
+    .select('id, ticket_id, expo_push_token')
+    .eq('status', 'ok')
+    .eq('receipt_status', 'pending')
+    .not('ticket_id', 'is', null)
+    .lte('created_at', cutoff)
+    .limit(RECEIPT_BATCH_LIMIT);
+
+  if (error) {
+    console.error('Failed to fetch pending tickets:', error);
+    return 0;
+  }
+
+  let checked = 0;
+  for (const batch of chunk(tickets || [], RECEIPT_CHUNK_SIZE)) {
+    let receipts: Record<string, ExpoReceipt>;
+    try {
+      const response = await postToExpo<{ data: Record<string, ExpoReceipt> }>(
+        EXPO_RECEIPTS_URL,
+        { ids: batch.map(t => t.ticket_id) }
+      );
+      receipts = response.data || {};
+    } catch (err) {
+      console.error('Failed to fetch receipts:', err);
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    const unregistered: string[] = [];
+
+    for (const ticket of batch) {
+      const receipt = receipts[ticket.ticket_id];
+      // Receipts not yet available are retried on the next run
+      if (!receipt) continue;
+
+      const receiptError = receipt.status === 'error' ? receipt.details?.error ?? 'Unknown' : null;
+      if (receiptError === 'DeviceNotRegistered') {
+        unregistered.push(ticket.expo_push_token);
+      }
+
+      await admin
+        .from('push_tickets')
+        .update({
+          receipt_status: receipt.status,
+          error: receiptError,
+          error_message: receipt.message ?? null,
+          receipt_checked_at: now,
+        })
+        .eq('id', ticket.id);
+      checked++;
+    }
+
+    await deactivateTokens(admin, unregistered);
+  }
+
+  return checked;
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+    if (!supabaseUrl || !supabaseServiceRoleKey) {
+      console.error('Missing Supabase environment variables');
+      return jsonResponse({ success: false, error: 'Server configuration error' }, 500);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+    }
+
+    // Cron calls with the service role key; everyone else must be an admin
+    const isServiceRole = authHeader === `Bearer ${supabaseServiceRoleKey}`;
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    if (!isServiceRole) {
+      const supabaseClient = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return jsonResponse({ success: false, error: 'Unauthorized' }, 401);
+      }
+
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single();
+
+      if (profile?.role !== 'admin') {
+        return jsonResponse({ success: false, error: 'Forbidden' }, 403);
+      }
+    }
+
+    const { notificationId, action = 'send' }: RequestBody = await req.json();
+
+    if (action === 'process') {
+      const released = await releaseStaleClaims(supabaseAdmin);
+      const sent = await processScheduled(supabaseAdmin);
+      const receipts = await pollReceipts(supabaseAdmin);
+      return jsonResponse({ success: true, sent, released, receipts });
+    }
+
+    if (!notificationId) {
+      return jsonResponse({ success: false, error: 'notificationId is required' }, 400);
+    }
+
+    return await sendNotification(supabaseAdmin, notificationId);
+  } catch (error) {
+    console.error('send-notification error:', error);
+    return jsonResponse({ success: false, error: 'Internal server error' }, 500);
+  }
+});
@@ -1,6 +1,13 @@
 // Supabase Edge Function: send-verification-email
-// This function sends 2FA verification codes via email using Resend API
-// 
+// Generates a verification code, stores its hash and emails it via the
+// Resend API. The code never leaves the server; the app only receives
+// the expiry time.
+//
+// two_factor and email_change need a signed-in user. password_reset is
+// called signed out with the account email and answers the same way
+// whether or not an account exists. Requests are throttled per user and
+// per IP and audited in verification_code_requests (migration 042).
+//
 // Deploy with:
 //   supabase functions deploy send-verification-email --no-verify-jwt
 //
@@ -9,16 +16,21 @@
 //   supabase secrets set FROM_EMAIL=noreply@yourdomain.com
 
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
 
 const RESEND_API_KEY = Deno.env.get('RESEND_API_KEY');
 const FROM_EMAIL = Deno.env.get('FROM_EMAIL') || 'noreply@tourapp.com';
 
+const CODE_EXPIRES_MINUTES = 10;
+
+type Purpose = 'two_factor' | 'email_change' | 'password_reset';
+
 interface RequestBody {
-  email: string;
-  code: string;
+  purpose?: Purpose;
+  // Account email for password_reset, new address for email_change
+  email?: string;
   userName?: string;
   language?: 'tr' | 'en';
-  purpose?: 'two_factor' | 'password_reset';
 }
 
 const corsHeaders = {
@@ -31,7 +43,7 @@ const getEmailContent = (
   code: string, 
   userName: string | undefined, 
   language: 'tr' | 'en' = 'tr',
-  purpose: 'two_factor' | 'password_reset' = 'two_factor'
+  purpose: Purpose = 'two_factor'
 ) => {
   const translations = {
     tr: {
@@ -46,6 +58,17 @@ const getEmailContent = (
         subject: `${code} - Tour App Doğrulama Kodu`,
         icon: '🔐',
       },
+      email_change: {
+        title: 'E-posta Doğrulama',
+        greeting: userName ? `Merhaba ${userName},` : 'Merhaba,',
+        message: 'Yeni e-posta adresinizi onaylamak için aşağıdaki doğrulama kodunu kullanın:',
+        expiry: 'Bu kod <strong>10 dakika</strong> içinde geçerliliğini yitirecektir.',
+        warning: 'Bu kodu kimseyle paylaşmayın.',
+        footer: 'Bu e-postayı siz talep etmediyseniz, lütfen dikkate almayın.',
+        copyright: 'Tüm hakları saklıdır.',
+        subject: `${code} - Tour App E-posta Doğrulama Kodu`,
+        icon: '✉️',
+      },
       password_reset: {
         title: 'Şifre Sıfırlama',
         greeting: userName ? `Merhaba ${userName},` : 'Merhaba,',
@@ -70,6 +93,17 @@ const getEmailContent = (
         subject: `${code} - Tour App Verification Code`,
         icon: '🔐',
       },
+      email_change: {
+        title: 'Email Verification',
+        greeting: userName ? `Hello ${userName},` : 'Hello,',
+        message: 'Use the following verification code to confirm your new email address:',
+        expiry: 'This code will expire in <strong>10 minutes</strong>.',
+        warning: 'Do not share this code with anyone.',
+        footer: 'If you did not request this email, please ignore it.',
+        copyright: 'All rights reserved.',
+        subject: `${code} - Tour App Email Verification Code`,
+        icon: '✉️',
+      },
       password_reset: {
         title: 'Password Reset',
         greeting: userName ? `Hello ${userName},` : 'Hello,',
@@ -179,6 +213,31 @@ ${t.footer}
   return { html, text, subject: t.subject };
 };
 
+const PURPOSES: Purpose[] = ['two_factor', 'email_change', 'password_reset'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// 6 digits from the platform CSPRNG
+const generateCode = (): string => {
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  return (values[0] % 1000000).toString().padStart(6, '0');
+};
+
+// The client can send its own x-forwarded-for, so only trust the header
+// set by the platform's edge or the hop appended by the last proxy
+const getClientIp = (req: Request): string | null => {
+  const platformIp = req.headers.get('cf-connecting-ip');
+  if (platformIp) return platformIp.trim();
+
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean);
+    if (hops.length > 0) return hops[hops.length - 1];
+  }
+  return req.headers.get('x-real-ip');
+};
+
 Deno.serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -186,23 +245,20 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { email, code, userName, language = 'tr', purpose = 'two_factor' }: RequestBody = await req.json();
+    const { purpose = 'two_factor', email: requestedEmail, userName, language = 'tr' }: RequestBody = await req.json();
 
-    if (!email || !code) {
+    if (!PURPOSES.includes(purpose)) {
       return new Response(
-        JSON.stringify({ error: 'Email and code are required' }),
+        JSON.stringify({ error: 'Invalid purpose' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // Get localized email content
-    const { html, text, subject } = getEmailContent(code, userName, language, purpose);
-
-    // Check if RESEND_API_KEY is configured
+    // Check before issuing a code nobody would receive
     if (!RESEND_API_KEY) {
       console.error('RESEND_API_KEY is not configured');
       return new Response(
-        JSON.stringify({ 
+        JSON.stringify({
           error: 'Email service not configured',
           message: 'Please set RESEND_API_KEY in Supabase Edge Function secrets'
         }),
@@ -210,6 +266,126 @@ Deno.serve(async (req) => {
       );
     }
 
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { autoRefreshToken: false, persistSession: false } }
+    );
+
+    let userId: string | null = null;
+    let email: string | undefined;
+    let recipientName = userName;
+
+    if (purpose === 'password_reset') {
+      email = requestedEmail?.trim().toLowerCase();
+      if (!email || !EMAIL_PATTERN.test(email)) {
+        return new Response(
+          JSON.stringify({ error: 'A valid email is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: profile, error: profileError } = await supabaseAdmin
+        .from('profiles')
+        .select('id, full_name')
+        .eq('email', email)
+        .maybeSingle();
+      if (profileError) throw profileError;
+
+      userId = profile?.id ?? null;
+      recipientName = profile?.full_name ?? undefined;
+    } else {
+      const authHeader = req.headers.get('Authorization');
+      if (!authHeader) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const supabaseClient = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } }
+      );
+
+      const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      userId = user.id;
+
+      // Accounts with an authenticator app sign in with it or a recovery
+      // code; an emailed code would let a compromised mailbox through
+      if (purpose === 'two_factor') {
+        const { data: totpFactor, error: factorError } = await supabaseAdmin
+          .from('user_totp_factors')
+          .select('user_id')
+          .eq('user_id', user.id)
+          .not('confirmed_at', 'is', null)
+          .maybeSingle();
+        if (factorError) throw factorError;
+
+        if (totpFactor) {
+          return new Response(
+            JSON.stringify({ success: false, error: 'totp_required' }),
+            { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+      }
+
+      // 2FA codes always go to the account address, email change codes
+      // to the address being confirmed
+      email = purpose === 'email_change' ? requestedEmail?.trim().toLowerCase() : user.email;
+      if (!email || !EMAIL_PATTERN.test(email)) {
+        return new Response(
+          JSON.stringify({ error: 'A valid email is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const code = userId ? generateCode() : null;
+
+    const { data: rows, error: issueError } = await supabaseAdmin.rpc('issue_verification_code', {
+      p_user_id: userId,
+      p_email: email,
+      p_purpose: purpose,
+      p_code: code,
+      p_ip: getClientIp(req),
+      p_expires_minutes: CODE_EXPIRES_MINUTES,
+    });
+    if (issueError) throw issueError;
+
+    const issued = rows?.[0];
+
+    if (issued?.status === 'throttled') {
+      return new Response(
+        JSON.stringify({ success: false, error: 'rate_limited', retryAfter: issued.retry_after_seconds }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Unknown password reset address: same answer as a real one so
+    // accounts can't be discovered
+    if (issued?.status === 'unknown_email') {
+      return new Response(
+        JSON.stringify({ success: true, expiresAt: issued.expires_at }),
+        { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (issued?.status !== 'issued' || !code) {
+      throw new Error('Verification code was not issued');
+    }
+
+    // Get localized email content
+    const { html, text, subject } = getEmailContent(code, recipientName, language, purpose);
+
     // Send email using Resend API
     const response = await fetch('https://api.resend.com/emails', {
       method: 'POST',
@@ -229,17 +405,30 @@ Deno.serve(async (req) => {
     if (!response.ok) {
       const errorData = await response.json();
       console.error('Resend API error:', errorData);
+
+      // The user never got this code, so it must not stay valid
+      await supabaseAdmin
+        .from('email_verification_codes')
+        .update({ verified_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .eq('purpose', purpose)
+        .is('verified_at', null);
+      await supabaseAdmin
+        .from('verification_code_requests')
+        .update({ outcome: 'email_failed' })
+        .eq('id', issued.request_id);
+
       return new Response(
-        JSON.stringify({ error: 'Failed to send email', details: errorData }),
+        JSON.stringify({ error: 'Failed to send email' }),
         { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     const data = await response.json();
-    console.log(`Verification email sent to ${email}, messageId: ${data.id}`);
-    
+    console.log(`Verification email (${purpose}) sent for user ${userId}, messageId: ${data.id}`);
+
     return new Response(
-      JSON.stringify({ success: true, messageId: data.id }),
+      JSON.stringify({ success: true, expiresAt: issued.expires_at }),
       { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -1,6 +1,7 @@
 // Supabase Edge Function: update-password
 // This function updates a user's password using the admin API
-// Only called after successful verification code validation
+// Requires the one-time reset token that verify_email_code returns for
+// a verified password_reset code
 //
 // Deploy with:
 //   supabase functions deploy update-password --no-verify-jwt
@@ -14,6 +15,7 @@ import { createClient } from "jsr:@supabase/supabase-js@2";
 
 interface RequestBody {
   userId: string;
+  resetToken: string;
   newPassword: string;
 }
 
@@ -29,12 +31,12 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { userId, newPassword }: RequestBody = await req.json();
+    const { userId, resetToken, newPassword }: RequestBody = await req.json();
 
     // Validate input
-    if (!userId || !newPassword) {
+    if (!userId || !resetToken || !newPassword) {
       return new Response(
-        JSON.stringify({ success: false, error: 'userId and newPassword are required' }),
+        JSON.stringify({ success: false, error: 'userId, resetToken and newPassword are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -87,6 +89,28 @@ Deno.serve(async (req) => {
       },
     });
 
+    // The token proves this user verified a reset code; it is used up
+    // here so it can't be replayed
+    const { data: tokenValid, error: tokenError } = await supabaseAdmin.rpc('consume_password_reset_token', {
+      p_user_id: userId,
+      p_token: resetToken,
+    });
+
+    if (tokenError) {
+      console.error('Failed to check reset token:', tokenError);
+      return new Response(
+        JSON.stringify({ success: false, error: 'Internal server error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!tokenValid) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'invalid_reset_token' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Verify the user exists
     const { data: userData, error: userError } = await supabaseAdmin.auth.admin.getUserById(userId);
     
@@ -0,0 +1,57 @@
+-- =============================================
+-- User Preferences (Tour personalization)
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  group_size TEXT CHECK (group_size IN ('solo', 'couple', 'family', 'group')),
+  budget TEXT CHECK (budget IN ('budget', 'mid', 'premium', 'luxury')),
+  notify_new_tours BOOLEAN NOT NULL DEFAULT true,
+  notify_price_drops BOOLEAN NOT NULL DEFAULT true,
+  notify_recommendations BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for segment lookups by category
+CREATE INDEX IF NOT EXISTS idx_user_preferences_categories ON user_preferences USING GIN (categories);
+
+-- Updated at trigger
+DROP TRIGGER IF EXISTS trigger_user_preferences_updated_at ON user_preferences;
+CREATE TRIGGER trigger_user_preferences_updated_at
+  BEFORE UPDATE ON user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own preferences"
+  ON user_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own preferences"
+  ON user_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own preferences"
+  ON user_preferences FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all preferences"
+  ON user_preferences FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Grants
+GRANT SELECT, INSERT, UPDATE ON user_preferences TO authenticated;
+
+COMMENT ON TABLE user_preferences IS 'Per-user tour preferences used to personalize the home feed';
+COMMENT ON COLUMN user_preferences.categories IS 'Preferred tour category ids, in the order the user selected them';
@@ -0,0 +1,160 @@
+-- =============================================
+-- Tour Reviews & Ratings
+-- Extends the reviews table from 001_initial_schema.sql with
+-- moderation fields, delete/admin policies and a rating recompute
+-- that also runs on delete.
+-- =============================================
+
+-- Moderation fields
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_reviews_tour_approved_created
+  ON reviews(tour_id, is_approved, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reviews_pending
+  ON reviews(created_at DESC) WHERE is_approved = false;
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+CREATE POLICY "Users can delete their own reviews" ON reviews
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all reviews" ON reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update all reviews" ON reviews
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can delete all reviews" ON reviews
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- =============================================
+-- MODERATION FIELDS ARE ADMIN-ONLY
+-- =============================================
+
+-- Non-admins can't approve their own reviews: new reviews always start
+-- pending, and on update the moderation fields keep their old values.
+-- Editing rating, comment or the reviewed tour sends the review back to
+-- the queue so an approved review cannot be swapped out after moderation.
+CREATE OR REPLACE FUNCTION public.protect_review_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_approved := false;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSIF NEW.rating IS DISTINCT FROM OLD.rating
+     OR NEW.comment IS DISTINCT FROM OLD.comment
+     OR NEW.tour_id IS DISTINCT FROM OLD.tour_id THEN
+    NEW.is_approved := false;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+    NEW.rejection_reason := NULL;
+  ELSE
+    NEW.is_approved := OLD.is_approved;
+    NEW.moderated_by := OLD.moderated_by;
+    NEW.moderated_at := OLD.moderated_at;
+    NEW.rejection_reason := OLD.rejection_reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_review_moderation ON reviews;
+CREATE TRIGGER trigger_protect_review_moderation
+  BEFORE INSERT OR UPDATE ON reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_moderation();
+
+-- =============================================
+-- RATING RECOMPUTE
+-- =============================================
+
+-- RPC: recompute rating and review_count for a tour from approved reviews
+CREATE OR REPLACE FUNCTION public.recalculate_tour_rating(p_tour_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE tours
+  SET
+    rating = COALESCE((
+      SELECT ROUND(AVG(rating)::numeric, 1)
+      FROM reviews
+      WHERE tour_id = p_tour_id AND is_approved = true
+    ), 0),
+    review_count = (
+      SELECT COUNT(*)
+      FROM reviews
+      WHERE tour_id = p_tour_id AND is_approved = true
+    )
+  WHERE id = p_tour_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the insert/update-only trigger from 001 with one that also
+-- handles deletes and tour changes
+CREATE OR REPLACE FUNCTION public.update_tour_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recalculate_tour_rating(OLD.tour_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.tour_id IS DISTINCT FROM OLD.tour_id) THEN
+    PERFORM recalculate_tour_rating(NEW.tour_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS update_tour_rating_on_review ON reviews;
+CREATE TRIGGER update_tour_rating_on_review
+  AFTER INSERT OR UPDATE OR DELETE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION update_tour_rating();
+
+-- Grants
+GRANT SELECT, INSERT, UPDATE, DELETE ON reviews TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_tour_rating(UUID) TO authenticated;
+
+COMMENT ON COLUMN reviews.rejection_reason IS 'Reason given by an admin when a review is rejected';
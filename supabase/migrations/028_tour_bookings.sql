@@ -0,0 +1,142 @@
+-- =============================================
+-- Tour Bookings
+-- Extends the bookings table from 001_initial_schema.sql with
+-- lifecycle timestamps, cancellation rules and admin policies.
+-- Tours no longer carry a price (023), so total_price defaults to 0.
+-- =============================================
+
+ALTER TABLE bookings
+  ALTER COLUMN total_price SET DEFAULT 0,
+  ALTER COLUMN number_of_guests SET NOT NULL,
+  ALTER COLUMN status SET NOT NULL,
+  ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+  ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS handled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_number_of_guests_check;
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_number_of_guests_check CHECK (number_of_guests BETWEEN 1 AND 20);
+
+-- One active booking per user, tour and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bookings_unique_active
+  ON bookings(user_id, tour_id, booking_date)
+  WHERE status IN ('pending', 'confirmed');
+
+CREATE INDEX IF NOT EXISTS idx_bookings_booking_date ON bookings(booking_date);
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+CREATE POLICY "Admins can view all bookings" ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can update all bookings" ON bookings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- =============================================
+-- BOOKING RULES
+-- =============================================
+
+-- Enforces the booking lifecycle:
+--   pending   -> confirmed | cancelled
+--   confirmed -> completed | cancelled
+--   cancelled / completed are final
+-- Users may only create pending bookings for a future date and may only
+-- cancel their own booking up to 24 hours before the tour day.
+CREATE OR REPLACE FUNCTION public.enforce_booking_rules()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_admin BOOLEAN;
+BEGIN
+  v_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.booking_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Booking date must be in the future';
+    END IF;
+    IF NOT v_is_admin THEN
+      NEW.status := 'pending';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled'))
+      OR (OLD.status = 'confirmed' AND NEW.status IN ('completed', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Invalid booking status change from % to %', OLD.status, NEW.status;
+    END IF;
+  END IF;
+
+  IF NOT v_is_admin THEN
+    -- Users can only cancel; everything else stays as booked
+    IF NEW.status <> 'cancelled'
+       OR NEW.booking_date IS DISTINCT FROM OLD.booking_date
+       OR NEW.number_of_guests IS DISTINCT FROM OLD.number_of_guests
+       OR NEW.total_price IS DISTINCT FROM OLD.total_price
+       OR NEW.tour_id IS DISTINCT FROM OLD.tour_id THEN
+      RAISE EXCEPTION 'Bookings can only be cancelled';
+    END IF;
+    IF NOW() > OLD.booking_date::timestamptz - INTERVAL '24 hours' THEN
+      RAISE EXCEPTION 'Bookings can only be cancelled up to 24 hours before the tour';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.handled_by := auth.uid();
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'confirmed' THEN
+      NEW.confirmed_at := NOW();
+    ELSIF NEW.status = 'completed' THEN
+      NEW.completed_at := NOW();
+    ELSIF NEW.status = 'cancelled' THEN
+      NEW.cancelled_at := NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bookings_enforce_rules ON bookings;
+CREATE TRIGGER trigger_bookings_enforce_rules
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_rules();
+
+-- Grants
+GRANT SELECT, INSERT, UPDATE ON bookings TO authenticated;
+
+COMMENT ON COLUMN bookings.cancellation_reason IS 'Optional reason given by the user or an admin when cancelling';
+COMMENT ON COLUMN bookings.handled_by IS 'Admin who last changed the booking status';
@@ -0,0 +1,138 @@
+-- =============================================
+-- User Routes ("My Trip Planner")
+-- Private multi-day plans built by users from tours, favorites and
+-- scan results. Reuses the RouteDay/RouteStop JSON shape of
+-- thematic_routes.itinerary. Plans can be shared by link and submitted
+-- to admins as a candidate public route (moderation_status from 010).
+-- =============================================
+
+CREATE TABLE IF NOT EXISTS user_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title VARCHAR(120) NOT NULL,
+  description TEXT,
+  duration_days INTEGER NOT NULL DEFAULT 1 CHECK (duration_days BETWEEN 1 AND 14),
+  itinerary JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Sharing: anyone with the token can read the plan while is_shared is on
+  share_token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  -- Submission as a candidate public route (NULL = never submitted)
+  submission_status moderation_status,
+  submitted_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  moderated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  moderated_at TIMESTAMPTZ,
+  published_route_id UUID REFERENCES thematic_routes(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_routes_user_id ON user_routes(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_routes_pending
+  ON user_routes(submitted_at) WHERE submission_status = 'pending';
+
+ALTER TABLE user_routes ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- POLICIES
+-- =============================================
+
+CREATE POLICY "Users can view their own routes" ON user_routes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own routes" ON user_routes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own routes" ON user_routes
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own routes" ON user_routes
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view submitted routes" ON user_routes
+  FOR SELECT
+  TO authenticated
+  USING (submission_status IS NOT NULL AND public.is_admin());
+
+CREATE POLICY "Admins can moderate submitted routes" ON user_routes
+  FOR UPDATE
+  TO authenticated
+  USING (submission_status IS NOT NULL AND public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- =============================================
+-- OWNERS CANNOT SELF-APPROVE
+-- =============================================
+
+-- New plans from non-admins always start as drafts (NULL status, no
+-- review). After that they may only move a plan into 'pending' (or
+-- withdraw it to NULL). Resubmitting clears the previous review.
+CREATE OR REPLACE FUNCTION public.guard_user_route_submission()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.submission_status := NULL;
+    NEW.submitted_at := NULL;
+    NEW.rejection_reason := NULL;
+    NEW.moderated_by := NULL;
+    NEW.moderated_at := NULL;
+    NEW.published_route_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.submission_status IS DISTINCT FROM OLD.submission_status
+     AND NEW.submission_status IS NOT NULL
+     AND NEW.submission_status <> 'pending' THEN
+    RAISE EXCEPTION 'Only admins can approve or reject routes';
+  END IF;
+
+  -- Resubmitting clears the review itself below
+  IF NEW.moderated_by IS DISTINCT FROM OLD.moderated_by
+     OR NEW.published_route_id IS DISTINCT FROM OLD.published_route_id
+     OR (
+       NOT (NEW.submission_status = 'pending' AND OLD.submission_status IS DISTINCT FROM 'pending')
+       AND (
+         NEW.rejection_reason IS DISTINCT FROM OLD.rejection_reason
+         OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at
+       )
+     ) THEN
+    RAISE EXCEPTION 'Only admins can change moderation fields';
+  END IF;
+
+  IF NEW.submission_status = 'pending' AND OLD.submission_status IS DISTINCT FROM 'pending' THEN
+    NEW.submitted_at = NOW();
+    NEW.rejection_reason = NULL;
+    NEW.moderated_at = NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_user_routes_guard_submission ON user_routes;
+CREATE TRIGGER trigger_user_routes_guard_submission
+  BEFORE INSERT OR UPDATE ON user_routes
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_user_route_submission();
+
+-- =============================================
+-- SHARED LINKS
+-- =============================================
+
+-- RPC: read a shared plan by token without exposing the table to listing
+CREATE OR REPLACE FUNCTION public.get_shared_user_route(p_token TEXT)
+RETURNS SETOF user_routes AS $$
+  SELECT *
+  FROM user_routes
+  WHERE share_token = p_token
+    AND is_shared = true
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_shared_user_route(TEXT) TO anon, authenticated;
+
+COMMENT ON TABLE user_routes IS 'User-built trip plans; can be shared by link or submitted as a candidate thematic route';
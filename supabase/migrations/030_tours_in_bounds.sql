@@ -0,0 +1,43 @@
+-- =============================================
+-- Migration: Tours In Bounds
+-- Description: Bounding-box query for the Explore map so only tours
+--              inside the visible region are loaded
+-- =============================================
+
+-- Latitude range scan with longitude filtered from the same index
+-- entries. The unfiltered map uses idx_tours_coordinates (latitude,
+-- longitude) from 016; this one serves a selected category.
+CREATE INDEX IF NOT EXISTS idx_tours_category_coordinates ON tours(category, latitude, longitude)
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- =============================================
+-- RPC: get_tours_in_bounds
+-- Returns tours whose coordinates fall inside the given box, best rated
+-- first. p_category = NULL or 'all' returns every category.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_tours_in_bounds(
+  p_min_lat DOUBLE PRECISION,
+  p_min_lng DOUBLE PRECISION,
+  p_max_lat DOUBLE PRECISION,
+  p_max_lng DOUBLE PRECISION,
+  p_category TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF tours AS $$
+  SELECT *
+  FROM tours
+  WHERE latitude IS NOT NULL
+    AND longitude IS NOT NULL
+    -- Compare as NUMERIC like the columns, so the indexes apply
+    AND latitude BETWEEN p_min_lat::NUMERIC AND p_max_lat::NUMERIC
+    AND longitude BETWEEN p_min_lng::NUMERIC AND p_max_lng::NUMERIC
+    AND (p_category IS NULL OR p_category = 'all' OR category = p_category)
+  ORDER BY rating DESC NULLS LAST, created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 2000);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_tours_in_bounds(
+  DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER
+) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.get_tours_in_bounds IS 'Viewport query for the Explore map; tours inside a lat/lng bounding box';
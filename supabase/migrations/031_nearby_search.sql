@@ -0,0 +1,103 @@
+-- =============================================
+-- Migration: Nearby Search
+-- Description: "Near me" search returning tours, thematic routes and
+--              community posts within a radius, sorted by distance
+-- =============================================
+
+-- Great-circle distance in kilometers (haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  lat1 DOUBLE PRECISION,
+  lng1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+  SELECT 2 * 6371 * asin(least(1, sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2 +
+    cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+  )));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Community posts are filtered by coordinates as well
+CREATE INDEX IF NOT EXISTS idx_community_posts_coordinates ON community_posts(latitude, longitude)
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL AND status = 'approved';
+
+-- =============================================
+-- RPC: search_nearby
+-- One row per result; `payload` holds the full table row so the client
+-- can reuse its existing converters. A lat/lng box prefilter keeps the
+-- tour and post scans on their coordinate indexes. Routes match on
+-- their closest stop.
+-- =============================================
+CREATE OR REPLACE FUNCTION public.search_nearby(
+  p_lat DOUBLE PRECISION,
+  p_lng DOUBLE PRECISION,
+  p_radius_km DOUBLE PRECISION DEFAULT 10,
+  p_limit INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  kind TEXT,
+  id TEXT,
+  distance_km DOUBLE PRECISION,
+  payload JSONB
+) AS $$
+DECLARE
+  v_radius DOUBLE PRECISION := LEAST(GREATEST(p_radius_km, 0.1), 200);
+  v_limit INTEGER := LEAST(GREATEST(p_limit, 1), 100);
+  v_lat_span DOUBLE PRECISION := v_radius / 111.0;
+  v_lng_span DOUBLE PRECISION := v_radius / (111.0 * GREATEST(cos(radians(p_lat)), 0.01));
+BEGIN
+  RETURN QUERY
+  SELECT 'tour'::TEXT, t.id::TEXT, d.km, to_jsonb(t)
+  FROM tours t
+  CROSS JOIN LATERAL (
+    SELECT public.distance_km(p_lat, p_lng, t.latitude::DOUBLE PRECISION, t.longitude::DOUBLE PRECISION) AS km
+  ) d
+  WHERE t.latitude BETWEEN p_lat - v_lat_span AND p_lat + v_lat_span
+    AND t.longitude BETWEEN p_lng - v_lng_span AND p_lng + v_lng_span
+    AND d.km <= v_radius
+  ORDER BY d.km
+  LIMIT v_limit;
+
+  RETURN QUERY
+  SELECT 'route'::TEXT, r.id::TEXT, s.km, to_jsonb(r)
+  FROM thematic_routes r
+  CROSS JOIN LATERAL (
+    SELECT MIN(public.distance_km(
+      p_lat, p_lng,
+      (stop->>'latitude')::DOUBLE PRECISION,
+      (stop->>'longitude')::DOUBLE PRECISION
+    )) AS km
+    FROM jsonb_array_elements(COALESCE(r.itinerary, '[]'::jsonb)) AS day,
+         jsonb_array_elements(COALESCE(day->'stops', '[]'::jsonb)) AS stop
+    WHERE jsonb_typeof(stop->'latitude') = 'number'
+      AND jsonb_typeof(stop->'longitude') = 'number'
+  ) s
+  WHERE r.is_active = true
+    AND s.km <= v_radius
+  ORDER BY s.km
+  LIMIT v_limit;
+
+  RETURN QUERY
+  SELECT 'post'::TEXT, p.id::TEXT, d.km, to_jsonb(p)
+  FROM community_posts p
+  CROSS JOIN LATERAL (
+    SELECT public.distance_km(p_lat, p_lng, p.latitude::DOUBLE PRECISION, p.longitude::DOUBLE PRECISION) AS km
+  ) d
+  WHERE p.status = 'approved'
+    -- Same exclusions as get_community_feed (038)
+    AND NOT EXISTS (SELECT 1 FROM hidden_posts hp WHERE hp.user_id = auth.uid() AND hp.post_id = p.id)
+    AND NOT public.is_user_blocked(auth.uid(), p.user_id)
+    AND NOT public.is_user_blocked(p.user_id, auth.uid())
+    AND p.latitude BETWEEN p_lat - v_lat_span AND p_lat + v_lat_span
+    AND p.longitude BETWEEN p_lng - v_lng_span AND p_lng + v_lng_span
+    AND d.km <= v_radius
+  ORDER BY d.km
+  LIMIT v_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.distance_km(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_nearby(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER) TO anon, authenticated;
+
+COMMENT ON FUNCTION public.search_nearby IS 'Near me search: tours, active thematic routes and approved community posts (minus hidden and blocked) within a radius';
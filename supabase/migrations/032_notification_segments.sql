@@ -0,0 +1,198 @@
+-- =============================================
+-- Migration: Notification Segments
+-- Description: Audience segments for admin push notifications.
+--              Segments are rule sets resolved to recipients on the
+--              server; devices report locale, last activity and a
+--              coarse last location for targeting.
+-- =============================================
+
+-- =============================================
+-- 1. Device targeting attributes
+-- =============================================
+ALTER TABLE user_devices ADD COLUMN IF NOT EXISTS locale TEXT;
+ALTER TABLE user_devices ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMPTZ DEFAULT NOW();
+-- Rounded on the client to ~1 km; only set when location permission is granted
+ALTER TABLE user_devices ADD COLUMN IF NOT EXISTS last_latitude DECIMAL(8, 5);
+ALTER TABLE user_devices ADD COLUMN IF NOT EXISTS last_longitude DECIMAL(8, 5);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_last_active ON user_devices(last_active_at DESC) WHERE is_active = true;
+
+-- =============================================
+-- 2. Saved segments
+-- =============================================
+-- rules shape (all keys optional, combined with AND):
+--   memberClasses:      ['Normal' | 'Gold' | 'Business']
+--   languages:          ['tr' | 'en' ...]
+--   lastActiveDays:     number
+--   favoriteCategories: [category id]
+--   near:               { latitude, longitude, radiusKm }
+--   hasActiveMeeting:   boolean
+CREATE TABLE IF NOT EXISTS notification_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_notification_segments_updated_at ON notification_segments;
+CREATE TRIGGER trigger_notification_segments_updated_at
+  BEFORE UPDATE ON notification_segments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage notification segments" ON notification_segments
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- =============================================
+-- 3. Segment on notifications
+-- =============================================
+-- segment_rules is a snapshot taken when the notification is created, so
+-- editing or deleting a saved segment never changes who a sent
+-- notification went to
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS segment_id UUID REFERENCES notification_segments(id) ON DELETE SET NULL;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS segment_rules JSONB;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_segment_rules_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_segment_rules_check
+  CHECK (target <> 'segment' OR segment_rules IS NOT NULL);
+
+-- Segment recipients get a user_notifications row when the notification
+-- is delivered; that row is what lets them read it
+DROP POLICY IF EXISTS "Users can view their notifications" ON notifications;
+CREATE POLICY "Users can view their notifications" ON notifications
+  FOR SELECT USING (
+    target = 'all'
+    OR (target = 'user' AND target_user_id = auth.uid())
+    OR (
+      target = 'segment'
+      AND EXISTS (
+        SELECT 1 FROM user_notifications un
+        WHERE un.notification_id = notifications.id
+          AND un.user_id = auth.uid()
+      )
+    )
+  );
+
+-- =============================================
+-- 4. Resolution
+-- =============================================
+
+-- User ids matching a rule set
+CREATE OR REPLACE FUNCTION public.resolve_segment_users(p_rules JSONB)
+RETURNS TABLE (user_id UUID) AS $$
+DECLARE
+  v_member_classes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'memberClasses', '[]'::jsonb)));
+  v_languages TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'languages', '[]'::jsonb)));
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'favoriteCategories', '[]'::jsonb)));
+  v_last_active_days INTEGER := NULLIF(p_rules->>'lastActiveDays', '')::INTEGER;
+  v_near JSONB := p_rules->'near';
+  v_has_meeting BOOLEAN := NULLIF(p_rules->>'hasActiveMeeting', '')::BOOLEAN;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can resolve notification segments';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id
+  FROM profiles p
+  WHERE (cardinality(v_member_classes) = 0 OR p.member_class::TEXT = ANY(v_member_classes))
+    AND (cardinality(v_languages) = 0 OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id AND d.is_active
+        AND split_part(lower(d.locale), '-', 1) = ANY(v_languages)
+    ))
+    AND (v_last_active_days IS NULL OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id
+        AND d.last_active_at >= NOW() - make_interval(days => v_last_active_days)
+    ))
+    AND (cardinality(v_categories) = 0 OR EXISTS (
+      SELECT 1 FROM favorites f
+      JOIN tours t ON t.id = f.tour_id
+      WHERE f.user_id = p.id AND t.category = ANY(v_categories)
+    ))
+    AND (v_near IS NULL OR jsonb_typeof(v_near) <> 'object' OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id AND d.is_active
+        AND d.last_latitude IS NOT NULL AND d.last_longitude IS NOT NULL
+        AND public.distance_km(
+          (v_near->>'latitude')::DOUBLE PRECISION,
+          (v_near->>'longitude')::DOUBLE PRECISION,
+          d.last_latitude::DOUBLE PRECISION,
+          d.last_longitude::DOUBLE PRECISION
+        ) <= COALESCE((v_near->>'radiusKm')::DOUBLE PRECISION, 10)
+    ))
+    AND (v_has_meeting IS NULL OR v_has_meeting = EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.status = 'active'
+        AND (
+          ms.host_id = p.id
+          OR EXISTS (
+            SELECT 1 FROM meeting_participants mp
+            WHERE mp.session_id = ms.id AND mp.user_id = p.id AND mp.status = 'joined'
+          )
+        )
+    ));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Audience size for the admin form
+CREATE OR REPLACE FUNCTION public.preview_notification_segment(p_rules JSONB)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'users', (SELECT COUNT(*) FROM public.resolve_segment_users(p_rules)),
+    'devices', (
+      SELECT COUNT(*) FROM user_devices d
+      WHERE d.is_active
+        AND d.user_id IN (SELECT r.user_id FROM public.resolve_segment_users(p_rules) r)
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Delivers a segment notification: records recipients in
+-- user_notifications and returns their active push tokens
+CREATE OR REPLACE FUNCTION public.deliver_segment_notification(p_notification_id UUID)
+RETURNS TABLE (expo_push_token TEXT) AS $$
+DECLARE
+  v_rules JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can deliver notifications';
+  END IF;
+
+  SELECT n.segment_rules INTO v_rules
+  FROM notifications n
+  WHERE n.id = p_notification_id AND n.target = 'segment';
+
+  IF v_rules IS NULL THEN
+    RAISE EXCEPTION 'Segment notification not found';
+  END IF;
+
+  INSERT INTO user_notifications (user_id, notification_id)
+  SELECT r.user_id, p_notification_id
+  FROM public.resolve_segment_users(v_rules) r
+  ON CONFLICT (user_id, notification_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT d.expo_push_token
+  FROM user_devices d
+  JOIN user_notifications un
+    ON un.user_id = d.user_id AND un.notification_id = p_notification_id
+  WHERE d.is_active;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.resolve_segment_users(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.preview_notification_segment(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.deliver_segment_notification(UUID) TO authenticated;
+
+COMMENT ON TABLE notification_segments IS 'Saved audience rule sets for admin push notifications';
+COMMENT ON COLUMN notifications.segment_rules IS 'Rule snapshot used to resolve recipients when target = segment';
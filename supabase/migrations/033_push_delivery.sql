@@ -0,0 +1,215 @@
+-- =============================================
+-- Migration: Push Delivery
+-- Description: Server-side push delivery through the send-notification
+--              Edge Function. Per-device Expo tickets and receipts are
+--              stored so delivery can be retried, reported and cleaned
+--              up; notifications can be scheduled for later.
+-- =============================================
+
+-- =============================================
+-- 1. Scheduling on notifications
+-- =============================================
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ;
+-- When the function claimed the row; stale claims are released by the
+-- process action
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS sending_started_at TIMESTAMPTZ;
+
+-- scheduled: waiting for scheduled_at; sending: picked up by the function
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_status_check;
+ALTER TABLE notifications ADD CONSTRAINT notifications_status_check
+  CHECK (status IN ('pending', 'scheduled', 'sending', 'sent', 'failed'));
+
+CREATE INDEX IF NOT EXISTS idx_notifications_scheduled ON notifications(scheduled_at)
+WHERE status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_sending ON notifications(sending_started_at)
+WHERE status = 'sending';
+
+-- =============================================
+-- 2. Push tickets
+-- =============================================
+-- One row per device per notification. `status` is the Expo ticket
+-- result; `receipt_status` is filled in when the receipt is polled.
+CREATE TABLE IF NOT EXISTS push_tickets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  device_id UUID REFERENCES user_devices(id) ON DELETE SET NULL,
+  expo_push_token TEXT NOT NULL,
+  ticket_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'error')),
+  receipt_status TEXT NOT NULL DEFAULT 'pending' CHECK (receipt_status IN ('pending', 'ok', 'error')),
+  error TEXT,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  receipt_checked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tickets_notification ON push_tickets(notification_id);
+CREATE INDEX IF NOT EXISTS idx_push_tickets_pending_receipts ON push_tickets(created_at)
+WHERE status = 'ok' AND receipt_status = 'pending';
+
+ALTER TABLE push_tickets ENABLE ROW LEVEL SECURITY;
+
+-- Written by the Edge Function with the service role; admins only read
+CREATE POLICY "Admins can view push tickets" ON push_tickets
+  FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- =============================================
+-- 3. Delivery stats
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_notification_delivery_stats(p_notification_ids UUID[])
+RETURNS TABLE (
+  notification_id UUID,
+  total INTEGER,
+  accepted INTEGER,
+  delivered INTEGER,
+  failed INTEGER,
+  pending INTEGER
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view delivery stats';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.notification_id,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE t.status = 'ok')::INTEGER,
+    COUNT(*) FILTER (WHERE t.status = 'ok' AND t.receipt_status = 'ok')::INTEGER,
+    COUNT(*) FILTER (WHERE t.status = 'error' OR t.receipt_status = 'error')::INTEGER,
+    COUNT(*) FILTER (WHERE t.status = 'ok' AND t.receipt_status = 'pending')::INTEGER
+  FROM push_tickets t
+  WHERE t.notification_id = ANY(p_notification_ids)
+  GROUP BY t.notification_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_notification_delivery_stats(UUID[]) TO authenticated;
+
+-- =============================================
+-- 4. Segment delivery from the Edge Function
+-- =============================================
+-- The function resolves segments with the service role, which has no
+-- admin profile; allow it alongside admins
+CREATE OR REPLACE FUNCTION public.resolve_segment_users(p_rules JSONB)
+RETURNS TABLE (user_id UUID) AS $$
+DECLARE
+  v_member_classes TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'memberClasses', '[]'::jsonb)));
+  v_languages TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'languages', '[]'::jsonb)));
+  v_categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_rules->'favoriteCategories', '[]'::jsonb)));
+  v_last_active_days INTEGER := NULLIF(p_rules->>'lastActiveDays', '')::INTEGER;
+  v_near JSONB := p_rules->'near';
+  v_has_meeting BOOLEAN := NULLIF(p_rules->>'hasActiveMeeting', '')::BOOLEAN;
+BEGIN
+  IF NOT (public.is_admin() OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Only admins can resolve notification segments';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id
+  FROM profiles p
+  WHERE (cardinality(v_member_classes) = 0 OR p.member_class::TEXT = ANY(v_member_classes))
+    AND (cardinality(v_languages) = 0 OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id AND d.is_active
+        AND split_part(lower(d.locale), '-', 1) = ANY(v_languages)
+    ))
+    AND (v_last_active_days IS NULL OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id
+        AND d.last_active_at >= NOW() - make_interval(days => v_last_active_days)
+    ))
+    AND (cardinality(v_categories) = 0 OR EXISTS (
+      SELECT 1 FROM favorites f
+      JOIN tours t ON t.id = f.tour_id
+      WHERE f.user_id = p.id AND t.category = ANY(v_categories)
+    ))
+    AND (v_near IS NULL OR jsonb_typeof(v_near) <> 'object' OR EXISTS (
+      SELECT 1 FROM user_devices d
+      WHERE d.user_id = p.id AND d.is_active
+        AND d.last_latitude IS NOT NULL AND d.last_longitude IS NOT NULL
+        AND public.distance_km(
+          (v_near->>'latitude')::DOUBLE PRECISION,
+          (v_near->>'longitude')::DOUBLE PRECISION,
+          d.last_latitude::DOUBLE PRECISION,
+          d.last_longitude::DOUBLE PRECISION
+        ) <= COALESCE((v_near->>'radiusKm')::DOUBLE PRECISION, 10)
+    ))
+    AND (v_has_meeting IS NULL OR v_has_meeting = EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.status = 'active'
+        AND (
+          ms.host_id = p.id
+          OR EXISTS (
+            SELECT 1 FROM meeting_participants mp
+            WHERE mp.session_id = ms.id AND mp.user_id = p.id AND mp.status = 'joined'
+          )
+        )
+    ));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Now also returns the device id so tickets can point at their device
+DROP FUNCTION IF EXISTS public.deliver_segment_notification(UUID);
+CREATE OR REPLACE FUNCTION public.deliver_segment_notification(p_notification_id UUID)
+RETURNS TABLE (id UUID, expo_push_token TEXT) AS $$
+DECLARE
+  v_rules JSONB;
+BEGIN
+  IF NOT (public.is_admin() OR auth.role() = 'service_role') THEN
+    RAISE EXCEPTION 'Only admins can deliver notifications';
+  END IF;
+
+  SELECT n.segment_rules INTO v_rules
+  FROM notifications n
+  WHERE n.id = p_notification_id AND n.target = 'segment';
+
+  IF v_rules IS NULL THEN
+    RAISE EXCEPTION 'Segment notification not found';
+  END IF;
+
+  INSERT INTO user_notifications (user_id, notification_id)
+  SELECT r.user_id, p_notification_id
+  FROM public.resolve_segment_users(v_rules) r
+  ON CONFLICT (user_id, notification_id) DO NOTHING;
+
+  RETURN QUERY
+  SELECT d.id, d.expo_push_token
+  FROM user_devices d
+  JOIN user_notifications un
+    ON un.user_id = d.user_id AND un.notification_id = p_notification_id
+  WHERE d.is_active;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.deliver_segment_notification(UUID) TO authenticated, service_role;
+
+-- =============================================
+-- 5. Scheduled sends and receipt polling
+-- =============================================
+-- The send-notification function processes due scheduled notifications
+-- and polls pending receipts when called with { "action": "process" }.
+-- Schedule it every minute with pg_cron + pg_net (requires both extensions
+-- and the function URL / service role key stored in Vault):
+--
+--   SELECT cron.schedule(
+--     'process-push-notifications',
+--     '* * * * *',
+--     $cron$
+--     SELECT net.http_post(
+--       url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'send_notification_url'),
+--       headers := jsonb_build_object(
+--         'Content-Type', 'application/json',
+--         'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+--       ),
+--       body := '{"action":"process"}'::jsonb
+--     );
+--     $cron$
+--   );
+
+COMMENT ON TABLE push_tickets IS 'Expo push tickets and receipts, one row per device per notification';
+COMMENT ON COLUMN notifications.scheduled_at IS 'When set in the future, the notification is sent by the scheduled processor';
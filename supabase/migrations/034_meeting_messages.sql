@@ -0,0 +1,147 @@
+-- =============================================
+-- Migration: Meeting Messages
+-- Description: Chat inside meeting sessions plus realtime for session,
+--              participant and message changes. Hosts moderate by
+--              hiding messages and removing members.
+-- =============================================
+
+-- =============================================
+-- 1. Messages
+-- =============================================
+CREATE TABLE IF NOT EXISTS meeting_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES meeting_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 1000),
+  -- Soft delete so realtime clients can drop the message in place
+  deleted_at TIMESTAMPTZ,
+  deleted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_messages_session_created ON meeting_messages(session_id, created_at DESC);
+
+ALTER TABLE meeting_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view messages"
+  ON meeting_messages FOR SELECT
+  USING (is_meeting_member(session_id, auth.uid()));
+
+-- Only current members of an open session can post
+CREATE POLICY "Members can send messages"
+  ON meeting_messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND deleted_at IS NULL
+    AND is_meeting_member(session_id, auth.uid())
+    AND EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.id = session_id AND ms.status IN ('draft', 'active')
+    )
+  );
+
+-- Authors can delete their own messages, hosts can delete any
+CREATE POLICY "Authors and hosts can delete messages"
+  ON meeting_messages FOR UPDATE
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.id = session_id AND ms.host_id = auth.uid()
+    )
+  )
+  WITH CHECK (deleted_at IS NOT NULL AND deleted_by = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE ON meeting_messages TO authenticated;
+
+-- =============================================
+-- 2. Participants can see their own row
+-- =============================================
+-- Lets a removed member receive the realtime update for their removal
+CREATE POLICY "Users can view own participation"
+  ON meeting_participants FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- =============================================
+-- 3. Removed members cannot rejoin with the invite
+-- =============================================
+CREATE OR REPLACE FUNCTION public.join_meeting_session(p_invite_code TEXT)
+RETURNS TABLE (session_id UUID) AS $$
+DECLARE
+  v_session_id UUID;
+  v_status meeting_status;
+  v_max_participants INTEGER;
+  v_joined_count INTEGER;
+  v_participant_status meeting_participant_status;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT mi.session_id
+  INTO v_session_id
+  FROM meeting_invites mi
+  WHERE mi.code = p_invite_code
+    AND mi.revoked_at IS NULL
+    AND (mi.expires_at IS NULL OR mi.expires_at > NOW())
+  LIMIT 1;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite';
+  END IF;
+
+  SELECT status, max_participants
+  INTO v_status, v_max_participants
+  FROM meeting_sessions
+  WHERE id = v_session_id;
+
+  IF v_status IN ('ended', 'cancelled') THEN
+    RAISE EXCEPTION 'Session is not available';
+  END IF;
+
+  SELECT status
+  INTO v_participant_status
+  FROM meeting_participants
+  WHERE session_id = v_session_id AND user_id = auth.uid()
+  LIMIT 1;
+
+  IF v_participant_status = 'removed' THEN
+    RAISE EXCEPTION 'Removed from session';
+  END IF;
+
+  IF v_participant_status IS NOT NULL THEN
+    IF v_participant_status != 'joined' THEN
+      UPDATE meeting_participants
+      SET status = 'joined', joined_at = NOW()
+      WHERE session_id = v_session_id AND user_id = auth.uid();
+    END IF;
+    RETURN QUERY SELECT v_session_id;
+  END IF;
+
+  SELECT COUNT(*) INTO v_joined_count
+  FROM meeting_participants
+  WHERE session_id = v_session_id AND status = 'joined';
+
+  IF v_joined_count >= v_max_participants THEN
+    RAISE EXCEPTION 'Session is full';
+  END IF;
+
+  INSERT INTO meeting_participants (session_id, user_id, role, status)
+  VALUES (v_session_id, auth.uid(), 'member', 'joined');
+
+  RETURN QUERY SELECT v_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 4. Realtime
+-- =============================================
+ALTER TABLE meeting_sessions REPLICA IDENTITY FULL;
+ALTER TABLE meeting_participants REPLICA IDENTITY FULL;
+ALTER TABLE meeting_messages REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE meeting_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE meeting_participants;
+ALTER PUBLICATION supabase_realtime ADD TABLE meeting_messages;
+
+COMMENT ON TABLE meeting_messages IS 'Chat messages inside meeting sessions; deleted_at hides a message for everyone';
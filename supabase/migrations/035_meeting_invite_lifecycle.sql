@@ -0,0 +1,305 @@
+-- =============================================
+-- Migration: Meeting Invite Lifecycle
+-- Description: Hosts can rotate or revoke invite codes, cap how many
+--              people a code admits and when it expires, and require
+--              approval before new members join. Requesters and hosts
+--              are notified through the push pipeline.
+-- =============================================
+
+-- =============================================
+-- 1. Schema
+-- =============================================
+ALTER TYPE meeting_participant_status ADD VALUE IF NOT EXISTS 'pending';
+ALTER TYPE meeting_participant_status ADD VALUE IF NOT EXISTS 'declined';
+
+ALTER TABLE meeting_invites
+  ADD COLUMN IF NOT EXISTS max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  ADD COLUMN IF NOT EXISTS use_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE meeting_sessions
+  ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN meeting_invites.max_uses IS 'How many joins or join requests the code admits; NULL means unlimited';
+COMMENT ON COLUMN meeting_sessions.requires_approval IS 'New members wait as pending until the host approves them';
+
+-- =============================================
+-- 2. Participant policies
+-- =============================================
+-- Joining only goes through join_meeting_session so invite limits and
+-- approval cannot be bypassed with a direct insert
+DROP POLICY IF EXISTS "Users can join sessions" ON meeting_participants;
+
+-- Members can only leave on their own; hosts manage everyone else.
+-- Removed members cannot flip themselves back to a rejoinable state.
+DROP POLICY IF EXISTS "Users can update participant status" ON meeting_participants;
+CREATE POLICY "Users can update participant status"
+  ON meeting_participants FOR UPDATE
+  USING (
+    (auth.uid() = user_id AND status = 'joined')
+    OR EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.id = session_id AND ms.host_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    (auth.uid() = user_id AND status = 'left')
+    OR EXISTS (
+      SELECT 1 FROM meeting_sessions ms
+      WHERE ms.id = session_id AND ms.host_id = auth.uid()
+    )
+  );
+
+-- =============================================
+-- 3. Notifications
+-- =============================================
+-- Queued as due scheduled notifications; the send-notification
+-- process job picks them up on its next run
+CREATE OR REPLACE FUNCTION public.queue_meeting_notification(
+  p_user_id UUID,
+  p_title TEXT,
+  p_message TEXT,
+  p_deep_link TEXT,
+  p_data JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO notifications (
+    title, message, type, icon, target, target_user_id,
+    deep_link, data, status, scheduled_at
+  ) VALUES (
+    p_title, p_message, 'system', 'people-outline', 'user', p_user_id,
+    p_deep_link, p_data, 'scheduled', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.queue_meeting_notification(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 4. RPC: rotate invite
+-- =============================================
+-- Revokes the current code and issues a new one in one step
+CREATE OR REPLACE FUNCTION public.rotate_meeting_invite(
+  p_session_id UUID,
+  p_code TEXT,
+  p_expires_at TIMESTAMPTZ DEFAULT NULL,
+  p_max_uses INTEGER DEFAULT NULL
+)
+RETURNS SETOF meeting_invites AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM meeting_sessions
+    WHERE id = p_session_id
+      AND host_id = auth.uid()
+      AND status IN ('draft', 'active')
+  ) THEN
+    RAISE EXCEPTION 'Session is not available';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Expiry must be in the future';
+  END IF;
+
+  UPDATE meeting_invites
+  SET revoked_at = NOW()
+  WHERE session_id = p_session_id AND revoked_at IS NULL;
+
+  RETURN QUERY
+  INSERT INTO meeting_invites (session_id, code, expires_at, max_uses, created_by)
+  VALUES (p_session_id, p_code, p_expires_at, p_max_uses, auth.uid())
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 5. RPC: join by invite code
+-- =============================================
+-- Now reports whether the caller joined or is waiting for approval
+DROP FUNCTION IF EXISTS public.join_meeting_session(TEXT);
+
+CREATE OR REPLACE FUNCTION public.join_meeting_session(p_invite_code TEXT)
+RETURNS TABLE (session_id UUID, participant_status meeting_participant_status) AS $$
+DECLARE
+  v_invite meeting_invites%ROWTYPE;
+  v_session meeting_sessions%ROWTYPE;
+  v_joined_count INTEGER;
+  v_current_status meeting_participant_status;
+  v_new_status meeting_participant_status;
+  v_requester_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the invite so concurrent joins cannot exceed max_uses
+  SELECT mi.*
+  INTO v_invite
+  FROM meeting_invites mi
+  WHERE mi.code = p_invite_code
+    AND mi.revoked_at IS NULL
+    AND (mi.expires_at IS NULL OR mi.expires_at > NOW())
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_invite.id IS NULL THEN
+    RAISE EXCEPTION 'Invalid invite';
+  END IF;
+
+  SELECT ms.*
+  INTO v_session
+  FROM meeting_sessions ms
+  WHERE ms.id = v_invite.session_id;
+
+  IF v_session.status IN ('ended', 'cancelled') THEN
+    RAISE EXCEPTION 'Session is not available';
+  END IF;
+
+  SELECT mp.status
+  INTO v_current_status
+  FROM meeting_participants mp
+  WHERE mp.session_id = v_session.id AND mp.user_id = auth.uid()
+  LIMIT 1;
+
+  IF v_current_status = 'removed' THEN
+    RAISE EXCEPTION 'Removed from session';
+  END IF;
+
+  -- Opening the link again does not use up the invite
+  IF v_current_status IN ('joined', 'pending') THEN
+    RETURN QUERY SELECT v_session.id, v_current_status;
+    RETURN;
+  END IF;
+
+  IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'Invite limit reached';
+  END IF;
+
+  IF v_session.requires_approval AND v_session.host_id != auth.uid() THEN
+    v_new_status := 'pending';
+  ELSE
+    v_new_status := 'joined';
+
+    SELECT COUNT(*) INTO v_joined_count
+    FROM meeting_participants mp
+    WHERE mp.session_id = v_session.id AND mp.status = 'joined';
+
+    IF v_joined_count >= v_session.max_participants THEN
+      RAISE EXCEPTION 'Session is full';
+    END IF;
+  END IF;
+
+  INSERT INTO meeting_participants (session_id, user_id, role, status)
+  VALUES (v_session.id, auth.uid(), 'member', v_new_status)
+  ON CONFLICT ON CONSTRAINT meeting_participants_session_id_user_id_key
+  DO UPDATE SET status = EXCLUDED.status, joined_at = NOW();
+
+  UPDATE meeting_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  IF v_new_status = 'pending' THEN
+    SELECT COALESCE(p.full_name, 'Bir kullanıcı')
+    INTO v_requester_name
+    FROM profiles p
+    WHERE p.id = auth.uid();
+
+    PERFORM public.queue_meeting_notification(
+      v_session.host_id,
+      'Yeni katılım isteği',
+      COALESCE(v_requester_name, 'Bir kullanıcı') || ', "' || v_session.title || '" buluşmasına katılmak istiyor.',
+      'cyprigo://session/' || v_session.id,
+      jsonb_build_object('type', 'meeting_join_request', 'session_id', v_session.id, 'user_id', auth.uid())
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_session.id, v_new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 6. RPC: approve or decline a join request
+-- =============================================
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(
+  p_session_id UUID,
+  p_user_id UUID,
+  p_approve BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+  v_session meeting_sessions%ROWTYPE;
+  v_current_status meeting_participant_status;
+  v_joined_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT ms.*
+  INTO v_session
+  FROM meeting_sessions ms
+  WHERE ms.id = p_session_id AND ms.host_id = auth.uid();
+
+  IF v_session.id IS NULL THEN
+    RAISE EXCEPTION 'Not allowed';
+  END IF;
+
+  SELECT mp.status
+  INTO v_current_status
+  FROM meeting_participants mp
+  WHERE mp.session_id = p_session_id AND mp.user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_current_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'No pending request';
+  END IF;
+
+  IF p_approve THEN
+    IF v_session.status IN ('ended', 'cancelled') THEN
+      RAISE EXCEPTION 'Session is not available';
+    END IF;
+
+    SELECT COUNT(*) INTO v_joined_count
+    FROM meeting_participants mp
+    WHERE mp.session_id = p_session_id AND mp.status = 'joined';
+
+    IF v_joined_count >= v_session.max_participants THEN
+      RAISE EXCEPTION 'Session is full';
+    END IF;
+
+    UPDATE meeting_participants
+    SET status = 'joined', joined_at = NOW()
+    WHERE session_id = p_session_id AND user_id = p_user_id;
+
+    PERFORM public.queue_meeting_notification(
+      p_user_id,
+      'Katılım isteğiniz onaylandı',
+      '"' || v_session.title || '" buluşmasına katıldınız.',
+      'cyprigo://session/' || p_session_id,
+      jsonb_build_object('type', 'meeting_join_approved', 'session_id', p_session_id)
+    );
+  ELSE
+    UPDATE meeting_participants
+    SET status = 'declined'
+    WHERE session_id = p_session_id AND user_id = p_user_id;
+
+    PERFORM public.queue_meeting_notification(
+      p_user_id,
+      'Katılım isteğiniz reddedildi',
+      '"' || v_session.title || '" buluşmasının sahibi isteğinizi onaylamadı.',
+      NULL,
+      jsonb_build_object('type', 'meeting_join_declined', 'session_id', p_session_id)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =============================================
+-- 7. Grants
+-- =============================================
+GRANT EXECUTE ON FUNCTION public.rotate_meeting_invite(UUID, TEXT, TIMESTAMPTZ, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.join_meeting_session(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_join_request(UUID, UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,248 @@
+-- =============================================
+-- Migration: Meeting Schedules
+-- Description: Recurring sessions (weekly / monthly), reminder
+--              notifications before start and automatic
+--              draft -> active -> ended transitions on schedule.
+--              A recurring session rolls over to its next occurrence
+--              instead of ending, keeping members and chat.
+-- =============================================
+
+-- =============================================
+-- 1. Schedule columns
+-- =============================================
+ALTER TABLE meeting_sessions
+  ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 120
+    CHECK (duration_minutes BETWEEN 15 AND 1440),
+  ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'Europe/Nicosia',
+  ADD COLUMN IF NOT EXISTS recurrence_frequency TEXT
+    CHECK (recurrence_frequency IN ('weekly', 'monthly')),
+  ADD COLUMN IF NOT EXISTS recurrence_interval INTEGER NOT NULL DEFAULT 1
+    CHECK (recurrence_interval BETWEEN 1 AND 12),
+  ADD COLUMN IF NOT EXISTS recurrence_until TIMESTAMPTZ,
+  -- First occurrence; later ones are computed from it so monthly
+  -- sessions on the 31st do not drift after a short month
+  ADD COLUMN IF NOT EXISTS recurrence_anchor TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS occurrence_index INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reminder_minutes INTEGER
+    CHECK (reminder_minutes IS NULL OR reminder_minutes BETWEEN 5 AND 10080),
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_meeting_sessions_schedule
+  ON meeting_sessions(status, scheduled_at)
+  WHERE scheduled_at IS NOT NULL;
+
+COMMENT ON COLUMN meeting_sessions.timezone IS 'IANA zone the host scheduled in; recurrence keeps the local start time across DST';
+COMMENT ON COLUMN meeting_sessions.occurrence_index IS 'Which occurrence of the series scheduled_at currently points to';
+
+-- An unknown zone would make every AT TIME ZONE on the row fail
+CREATE OR REPLACE FUNCTION public.validate_meeting_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone: %', NEW.timezone
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_meeting_sessions_timezone ON meeting_sessions;
+CREATE TRIGGER trigger_meeting_sessions_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON meeting_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_meeting_timezone();
+
+-- =============================================
+-- 2. Occurrence helper
+-- =============================================
+-- The n-th occurrence, calculated in the session's local time
+CREATE OR REPLACE FUNCTION public.meeting_occurrence_at(
+  p_anchor TIMESTAMPTZ,
+  p_frequency TEXT,
+  p_interval INTEGER,
+  p_index INTEGER,
+  p_timezone TEXT
+)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT (
+    (p_anchor AT TIME ZONE p_timezone)
+    + CASE p_frequency
+        WHEN 'weekly' THEN make_interval(weeks => p_interval * p_index)
+        ELSE make_interval(months => p_interval * p_index)
+      END
+  ) AT TIME ZONE p_timezone;
+$$ LANGUAGE sql STABLE;
+
+-- Host edits to the schedule restart the series from the new start
+CREATE OR REPLACE FUNCTION public.reset_meeting_recurrence()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.recurrence_anchor := NEW.scheduled_at;
+    NEW.occurrence_index := 0;
+    RETURN NEW;
+  END IF;
+
+  -- Roll-overs from advance_meeting_schedules move occurrence_index
+  IF NEW.occurrence_index = OLD.occurrence_index AND (
+    NEW.scheduled_at IS DISTINCT FROM OLD.scheduled_at
+    OR NEW.recurrence_frequency IS DISTINCT FROM OLD.recurrence_frequency
+    OR NEW.recurrence_interval IS DISTINCT FROM OLD.recurrence_interval
+    OR NEW.timezone IS DISTINCT FROM OLD.timezone
+  ) THEN
+    NEW.recurrence_anchor := NEW.scheduled_at;
+    NEW.occurrence_index := 0;
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_meeting_sessions_recurrence ON meeting_sessions;
+CREATE TRIGGER trigger_meeting_sessions_recurrence
+  BEFORE INSERT OR UPDATE ON meeting_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_meeting_recurrence();
+
+UPDATE meeting_sessions
+SET recurrence_anchor = scheduled_at
+WHERE recurrence_anchor IS NULL AND scheduled_at IS NOT NULL;
+
+-- =============================================
+-- 3. Notification type
+-- =============================================
+-- Reminders use the 'reminder' notification type
+DROP FUNCTION IF EXISTS public.queue_meeting_notification(UUID, TEXT, TEXT, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.queue_meeting_notification(
+  p_user_id UUID,
+  p_title TEXT,
+  p_message TEXT,
+  p_deep_link TEXT,
+  p_data JSONB,
+  p_type TEXT DEFAULT 'system'
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO notifications (
+    title, message, type, icon, target, target_user_id,
+    deep_link, data, status, scheduled_at
+  ) VALUES (
+    p_title, p_message, p_type,
+    CASE WHEN p_type = 'reminder' THEN 'alarm-outline' ELSE 'people-outline' END,
+    'user', p_user_id, p_deep_link, p_data, 'scheduled', NOW()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.queue_meeting_notification(UUID, TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 4. Scheduler
+-- =============================================
+CREATE OR REPLACE FUNCTION public.advance_meeting_schedules()
+RETURNS VOID AS $$
+DECLARE
+  v_session meeting_sessions%ROWTYPE;
+  v_participant RECORD;
+  v_index INTEGER;
+  v_next TIMESTAMPTZ;
+BEGIN
+  -- Reminders for upcoming occurrences
+  FOR v_session IN
+    SELECT * FROM meeting_sessions
+    WHERE status = 'draft'
+      AND scheduled_at > NOW()
+      AND reminder_minutes IS NOT NULL
+      AND reminder_sent_at IS NULL
+      AND scheduled_at - make_interval(mins => reminder_minutes) <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- One broken session must not stop the rest of the run
+    BEGIN
+      FOR v_participant IN
+        SELECT user_id FROM meeting_participants
+        WHERE session_id = v_session.id AND status = 'joined'
+      LOOP
+        PERFORM public.queue_meeting_notification(
+          v_participant.user_id,
+          'Buluşma yaklaşıyor',
+          '"' || v_session.title || '" ' ||
+            to_char(v_session.scheduled_at AT TIME ZONE v_session.timezone, 'DD.MM HH24:MI') ||
+            ' saatinde ' || v_session.destination_text || ' konumunda başlıyor.',
+          'cyprigo://session/' || v_session.id,
+          jsonb_build_object('type', 'meeting_reminder', 'session_id', v_session.id),
+          'reminder'
+        );
+      END LOOP;
+
+      UPDATE meeting_sessions SET reminder_sent_at = NOW() WHERE id = v_session.id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Meeting % reminder failed: %', v_session.id, SQLERRM;
+    END;
+  END LOOP;
+
+  -- Start sessions whose time has come
+  UPDATE meeting_sessions
+  SET status = 'active'
+  WHERE status = 'draft'
+    AND scheduled_at IS NOT NULL
+    AND scheduled_at <= NOW();
+
+  -- End finished sessions, or roll recurring ones to the next occurrence
+  FOR v_session IN
+    SELECT * FROM meeting_sessions
+    WHERE status = 'active'
+      AND scheduled_at IS NOT NULL
+      AND scheduled_at + make_interval(mins => duration_minutes) <= NOW()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      IF v_session.recurrence_frequency IS NOT NULL THEN
+        -- Skip occurrences missed while the scheduler was not running
+        v_index := v_session.occurrence_index;
+        LOOP
+          v_index := v_index + 1;
+          v_next := public.meeting_occurrence_at(
+            COALESCE(v_session.recurrence_anchor, v_session.scheduled_at),
+            v_session.recurrence_frequency,
+            v_session.recurrence_interval,
+            v_index,
+            v_session.timezone
+          );
+          EXIT WHEN v_next > NOW();
+        END LOOP;
+
+        IF v_session.recurrence_until IS NULL OR v_next <= v_session.recurrence_until THEN
+          UPDATE meeting_sessions
+          SET status = 'draft',
+              scheduled_at = v_next,
+              occurrence_index = v_index,
+              reminder_sent_at = NULL
+          WHERE id = v_session.id;
+          CONTINUE;
+        END IF;
+      END IF;
+
+      UPDATE meeting_sessions SET status = 'ended' WHERE id = v_session.id;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Meeting % schedule advance failed: %', v_session.id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION public.advance_meeting_schedules() FROM PUBLIC, anon, authenticated;
+
+-- Run every minute with pg_cron:
+--
+--   SELECT cron.schedule(
+--     'advance-meeting-schedules',
+--     '* * * * *',
+--     $cron$ SELECT public.advance_meeting_schedules(); $cron$
+--   );
+--
+-- Reminders are queued as due notifications, so the
+-- process-push-notifications job (033) delivers them on its next run.
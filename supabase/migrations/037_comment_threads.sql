@@ -0,0 +1,202 @@
+-- =============================================
+-- Migration: Comment Threads
+-- Description: Replies to community comments (one level deep),
+--              per-comment likes and @mentions that notify the
+--              mentioned users through the push pipeline.
+-- =============================================
+
+-- =============================================
+-- 1. Schema
+-- =============================================
+ALTER TABLE community_comments
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES community_comments(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS likes_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS replies_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS mentioned_user_ids UUID[] NOT NULL DEFAULT '{}'
+    CHECK (cardinality(mentioned_user_ids) <= 10);
+
+CREATE INDEX IF NOT EXISTS idx_community_comments_thread
+  ON community_comments(post_id, created_at)
+  WHERE parent_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_community_comments_parent_id
+  ON community_comments(parent_id, created_at)
+  WHERE parent_id IS NOT NULL;
+
+COMMENT ON COLUMN community_comments.parent_id IS 'Top-level comment this reply belongs to; replies to replies join the same thread';
+
+CREATE TABLE IF NOT EXISTS community_comment_likes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id UUID NOT NULL REFERENCES community_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(comment_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_comment_likes_user_id ON community_comment_likes(user_id);
+
+-- =============================================
+-- 2. Thread integrity
+-- =============================================
+-- Keeps threads one level deep and inside the same post
+CREATE OR REPLACE FUNCTION public.prepare_community_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent community_comments%ROWTYPE;
+BEGIN
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT * INTO v_parent FROM community_comments WHERE id = NEW.parent_id;
+
+    IF v_parent.id IS NULL OR v_parent.post_id != NEW.post_id THEN
+      RAISE EXCEPTION 'Invalid parent comment';
+    END IF;
+
+    NEW.parent_id := COALESCE(v_parent.parent_id, v_parent.id);
+  END IF;
+
+  -- Counters are maintained by triggers only
+  NEW.likes_count := 0;
+  NEW.replies_count := 0;
+  NEW.mentioned_user_ids := ARRAY(
+    SELECT unnest(NEW.mentioned_user_ids)
+    EXCEPT SELECT NEW.user_id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prepare_community_comment ON community_comments;
+CREATE TRIGGER trigger_prepare_community_comment
+  BEFORE INSERT ON community_comments
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_community_comment();
+
+-- =============================================
+-- 3. Counters
+-- =============================================
+CREATE OR REPLACE FUNCTION public.update_comment_replies_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.parent_id IS NOT NULL THEN
+    UPDATE community_comments SET replies_count = replies_count + 1 WHERE id = NEW.parent_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.parent_id IS NOT NULL THEN
+    UPDATE community_comments SET replies_count = GREATEST(replies_count - 1, 0) WHERE id = OLD.parent_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_comment_replies_count ON community_comments;
+CREATE TRIGGER trigger_update_comment_replies_count
+  AFTER INSERT OR DELETE ON community_comments
+  FOR EACH ROW EXECUTE FUNCTION public.update_comment_replies_count();
+
+CREATE OR REPLACE FUNCTION public.update_comment_likes_count()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE community_comments SET likes_count = likes_count + 1 WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE community_comments SET likes_count = GREATEST(likes_count - 1, 0) WHERE id = OLD.comment_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_comment_likes_count ON community_comment_likes;
+CREATE TRIGGER trigger_update_comment_likes_count
+  AFTER INSERT OR DELETE ON community_comment_likes
+  FOR EACH ROW EXECUTE FUNCTION public.update_comment_likes_count();
+
+-- =============================================
+-- 4. Mention notifications
+-- =============================================
+-- Queued as due scheduled notifications; the send-notification
+-- process job picks them up on its next run. Users who blocked the
+-- author are skipped, and so are ids whose @name is not in the comment
+-- text. An author can trigger at most 30 mention notifications an hour.
+CREATE INDEX IF NOT EXISTS idx_notifications_mention_author
+  ON notifications ((data->>'authorId'), created_at DESC)
+  WHERE data->>'type' = 'comment_mention';
+
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_author_name TEXT;
+  v_remaining INTEGER;
+BEGIN
+  IF cardinality(NEW.mentioned_user_ids) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT 30 - COUNT(*)
+  INTO v_remaining
+  FROM notifications n
+  WHERE n.data->>'type' = 'comment_mention'
+    AND n.data->>'authorId' = NEW.user_id::TEXT
+    AND n.created_at > NOW() - INTERVAL '1 hour';
+
+  IF v_remaining <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(p.full_name, 'Bir kullanıcı')
+  INTO v_author_name
+  FROM profiles p
+  WHERE p.id = NEW.user_id;
+
+  INSERT INTO notifications (
+    title, message, type, icon, target, target_user_id,
+    deep_link, data, status, scheduled_at
+  )
+  SELECT
+    'Bir yorumda sizden bahsedildi',
+    COALESCE(v_author_name, 'Bir kullanıcı') || ': ' || left(NEW.content, 120),
+    'system',
+    'at-outline',
+    'user',
+    p.id,
+    '/community/' || NEW.post_id,
+    jsonb_build_object(
+      'type', 'comment_mention',
+      'postId', NEW.post_id,
+      'commentId', NEW.id,
+      'authorId', NEW.user_id
+    ),
+    'scheduled',
+    NOW()
+  FROM profiles p
+  WHERE p.id = ANY(NEW.mentioned_user_ids)
+    AND COALESCE(p.full_name, '') <> ''
+    AND strpos(NEW.content, '@' || p.full_name) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM blocked_users bu
+      WHERE bu.blocker_id = p.id AND bu.blocked_id = NEW.user_id
+    )
+  LIMIT v_remaining;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_notify_comment_mentions ON community_comments;
+CREATE TRIGGER trigger_notify_comment_mentions
+  AFTER INSERT ON community_comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- =============================================
+-- 5. Row level security
+-- =============================================
+ALTER TABLE community_comment_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view comment likes"
+  ON community_comment_likes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can like comments"
+  ON community_comment_likes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own comment likes"
+  ON community_comment_likes FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,171 @@
+-- =============================================
+-- Migration: Follows
+-- Description: Users can follow other users and tours. The community
+--              feed gets a "Following" view of followed authors and
+--              tours, and a "Discover" view ranked by recency,
+--              engagement and distance. Both skip hidden posts and
+--              blocked users.
+-- =============================================
+
+-- =============================================
+-- 1. Tables
+-- =============================================
+CREATE TABLE IF NOT EXISTS user_follows (
+  follower_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  followee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (follower_id, followee_id),
+  CHECK (follower_id != followee_id)
+);
+
+CREATE TABLE IF NOT EXISTS tour_follows (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  tour_id UUID NOT NULL REFERENCES tours(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (user_id, tour_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_followee_id ON user_follows(followee_id);
+CREATE INDEX IF NOT EXISTS idx_tour_follows_tour_id ON tour_follows(tour_id);
+CREATE INDEX IF NOT EXISTS idx_community_posts_user_created
+  ON community_posts(user_id, created_at DESC)
+  WHERE status = 'approved';
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS followers_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS following_count INTEGER NOT NULL DEFAULT 0;
+
+-- =============================================
+-- 2. Counters
+-- =============================================
+CREATE OR REPLACE FUNCTION public.update_follow_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE profiles SET followers_count = followers_count + 1 WHERE id = NEW.followee_id;
+    UPDATE profiles SET following_count = following_count + 1 WHERE id = NEW.follower_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE profiles SET followers_count = GREATEST(followers_count - 1, 0) WHERE id = OLD.followee_id;
+    UPDATE profiles SET following_count = GREATEST(following_count - 1, 0) WHERE id = OLD.follower_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_update_follow_counts ON user_follows;
+CREATE TRIGGER trigger_update_follow_counts
+  AFTER INSERT OR DELETE ON user_follows
+  FOR EACH ROW EXECUTE FUNCTION public.update_follow_counts();
+
+-- Blocking someone ends the follow in both directions
+CREATE OR REPLACE FUNCTION public.remove_follows_on_block()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM user_follows
+  WHERE (follower_id = NEW.blocker_id AND followee_id = NEW.blocked_id)
+     OR (follower_id = NEW.blocked_id AND followee_id = NEW.blocker_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_remove_follows_on_block ON blocked_users;
+CREATE TRIGGER trigger_remove_follows_on_block
+  AFTER INSERT ON blocked_users
+  FOR EACH ROW EXECUTE FUNCTION public.remove_follows_on_block();
+
+-- =============================================
+-- 3. Row level security
+-- =============================================
+ALTER TABLE user_follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tour_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view follows"
+  ON user_follows FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can follow others"
+  ON user_follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT public.is_user_blocked(follower_id, followee_id)
+    AND NOT public.is_user_blocked(followee_id, follower_id)
+  );
+
+CREATE POLICY "Users can unfollow"
+  ON user_follows FOR DELETE
+  USING (auth.uid() = follower_id);
+
+CREATE POLICY "Users can view own tour follows"
+  ON tour_follows FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow tours"
+  ON tour_follows FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unfollow tours"
+  ON tour_follows FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================
+-- 4. RPC: community feed
+-- =============================================
+-- 'following': posts by followed users or about followed tours, newest first.
+-- 'discover': engagement decayed by age, boosted for posts near the caller.
+-- Blocks are checked in both directions through is_user_blocked (019),
+-- which can see rows the caller's RLS hides.
+CREATE OR REPLACE FUNCTION public.get_community_feed(
+  p_feed TEXT DEFAULT 'discover',
+  p_offset INTEGER DEFAULT 0,
+  p_limit INTEGER DEFAULT 10,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lng DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF community_posts AS $$
+BEGIN
+  IF p_feed = 'following' THEN
+    RETURN QUERY
+    SELECT p.*
+    FROM community_posts p
+    WHERE p.status = 'approved'
+      AND (
+        p.user_id IN (SELECT uf.followee_id FROM user_follows uf WHERE uf.follower_id = auth.uid())
+        OR p.tour_id IN (SELECT tf.tour_id FROM tour_follows tf WHERE tf.user_id = auth.uid())
+      )
+      AND NOT EXISTS (SELECT 1 FROM hidden_posts hp WHERE hp.user_id = auth.uid() AND hp.post_id = p.id)
+      AND NOT public.is_user_blocked(auth.uid(), p.user_id)
+      AND NOT public.is_user_blocked(p.user_id, auth.uid())
+    ORDER BY p.created_at DESC
+    OFFSET GREATEST(p_offset, 0)
+    LIMIT LEAST(GREATEST(p_limit, 1), 50);
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.*
+  FROM community_posts p
+  CROSS JOIN LATERAL (
+    SELECT
+      ln(2 + COALESCE(p.likes_count, 0) + 2 * COALESCE(p.comments_count, 0))
+        / power(EXTRACT(EPOCH FROM (NOW() - p.created_at)) / 3600 + 2, 1.2)
+        * CASE
+            WHEN p_lat IS NULL OR p_lng IS NULL OR p.latitude IS NULL OR p.longitude IS NULL THEN 1
+            -- Up to twice the weight next door, fading out over ~100 km
+            ELSE 1 + 1 / (1 + public.distance_km(p_lat, p_lng, p.latitude::DOUBLE PRECISION, p.longitude::DOUBLE PRECISION) / 10)
+          END AS score
+  ) s
+  WHERE p.status = 'approved'
+    AND NOT EXISTS (SELECT 1 FROM hidden_posts hp WHERE hp.user_id = auth.uid() AND hp.post_id = p.id)
+    AND NOT public.is_user_blocked(auth.uid(), p.user_id)
+    AND NOT public.is_user_blocked(p.user_id, auth.uid())
+  ORDER BY s.score DESC, p.created_at DESC
+  OFFSET GREATEST(p_offset, 0)
+  LIMIT LEAST(GREATEST(p_limit, 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_community_feed(TEXT, INTEGER, INTEGER, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+COMMENT ON FUNCTION public.get_community_feed IS 'Community feed: following (followed users and tours) or discover (ranked by recency, engagement and distance)';
@@ -0,0 +1,97 @@
+-- =============================================
+-- Migration: Automated Pre-Moderation
+-- Description: New community posts get an automated first pass from
+--              the moderate-post Edge Function (text heuristics,
+--              duplicate image hashes, vision check). Low-risk posts
+--              are approved automatically; risky ones stay pending for
+--              admins with the reasons attached. Every decision is
+--              recorded in moderation_logs.
+-- =============================================
+
+-- =============================================
+-- 1. Posts
+-- =============================================
+ALTER TABLE community_posts
+  ADD COLUMN IF NOT EXISTS moderation_flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS moderation_score NUMERIC(4, 2),
+  ADD COLUMN IF NOT EXISTS auto_moderated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN community_posts.moderation_flags IS 'Reasons found by automated pre-moderation, e.g. profanity, links, duplicate_image';
+COMMENT ON COLUMN community_posts.moderation_score IS 'Risk score from automated pre-moderation (0 = clean)';
+
+-- Users create pending posts only and cannot touch moderation fields.
+-- The moderate-post function (service role, no auth.uid()) and admins can.
+CREATE OR REPLACE FUNCTION public.protect_community_post_moderation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.rejection_reason := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.reviewed_by := NULL;
+    NEW.moderation_flags := '{}';
+    NEW.moderation_score := NULL;
+    NEW.auto_moderated_at := NULL;
+  ELSE
+    NEW.status := OLD.status;
+    NEW.rejection_reason := OLD.rejection_reason;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.moderation_flags := OLD.moderation_flags;
+    NEW.moderation_score := OLD.moderation_score;
+    NEW.auto_moderated_at := OLD.auto_moderated_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_community_post_moderation ON community_posts;
+CREATE TRIGGER trigger_protect_community_post_moderation
+  BEFORE INSERT OR UPDATE ON community_posts
+  FOR EACH ROW EXECUTE FUNCTION public.protect_community_post_moderation();
+
+-- =============================================
+-- 2. Moderation logs
+-- =============================================
+-- Automated entries have no admin
+ALTER TABLE moderation_logs
+  ALTER COLUMN admin_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'admin'
+    CHECK (source IN ('admin', 'auto')),
+  ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS risk_score NUMERIC(4, 2),
+  ADD COLUMN IF NOT EXISTS details JSONB;
+
+COMMENT ON COLUMN moderation_logs.action IS 'approved, rejected, deleted, auto_approved or flagged';
+
+CREATE INDEX IF NOT EXISTS idx_moderation_logs_source ON moderation_logs(source, created_at DESC);
+
+-- =============================================
+-- 3. Image hashes
+-- =============================================
+-- SHA-256 of each uploaded image, used to spot re-posted images
+CREATE TABLE IF NOT EXISTS community_image_hashes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES community_posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  image_url TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(post_id, hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_community_image_hashes_hash ON community_image_hashes(hash);
+
+-- Written by the moderate-post function only
+ALTER TABLE community_image_hashes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view image hashes"
+  ON community_image_hashes FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
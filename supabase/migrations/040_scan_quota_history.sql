@@ -0,0 +1,168 @@
+-- =============================================
+-- Migration: Scan Quota & History
+-- Description: Scan limits are counted by the analyze-image Edge
+--              Function instead of the app, so reinstalling or
+--              restarting no longer resets them. Successful scans are
+--              stored in scan_history (with a small thumbnail) and
+--              synced to every device of the user.
+-- =============================================
+
+-- =============================================
+-- 1. Usage
+-- =============================================
+-- One row per user. The window opens with the first scan and lasts
+-- 24 hours; the count resets once it has passed.
+CREATE TABLE IF NOT EXISTS scan_usage (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  scan_count INTEGER NOT NULL DEFAULT 0,
+  period_started_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE scan_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scan usage"
+  ON scan_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Gold and Business members get the premium limit while their
+-- membership is valid
+CREATE OR REPLACE FUNCTION public.scan_limit_for(p_user_id UUID)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN p.member_class IN ('Gold', 'Business')
+      AND (p.membership_expires_at IS NULL OR p.membership_expires_at > NOW())
+    THEN 10
+    ELSE 3
+  END
+  FROM profiles p
+  WHERE p.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Internal helper: callers could otherwise probe anyone's membership
+REVOKE EXECUTE ON FUNCTION public.scan_limit_for(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Current quota without using a scan
+CREATE OR REPLACE FUNCTION public.get_scan_quota()
+RETURNS TABLE (used INTEGER, scan_limit INTEGER, resets_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_window INTERVAL := INTERVAL '24 hours';
+BEGIN
+  RETURN QUERY
+  SELECT
+    CASE WHEN u.period_started_at IS NULL OR u.period_started_at + v_window <= NOW() THEN 0 ELSE u.scan_count END,
+    COALESCE(public.scan_limit_for(auth.uid()), 3),
+    CASE WHEN u.period_started_at IS NULL OR u.period_started_at + v_window <= NOW() THEN NULL ELSE u.period_started_at + v_window END
+  FROM (SELECT auth.uid() AS id) me
+  LEFT JOIN scan_usage u ON u.user_id = me.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_scan_quota() TO authenticated;
+
+-- Uses one scan if the limit allows it. Called by analyze-image with
+-- the service role before the provider request.
+CREATE OR REPLACE FUNCTION public.consume_scan_quota(p_user_id UUID)
+RETURNS TABLE (allowed BOOLEAN, used INTEGER, scan_limit INTEGER, resets_at TIMESTAMPTZ) AS $$
+DECLARE
+  v_window INTERVAL := INTERVAL '24 hours';
+  v_limit INTEGER := COALESCE(public.scan_limit_for(p_user_id), 3);
+  v_usage scan_usage%ROWTYPE;
+BEGIN
+  INSERT INTO scan_usage (user_id) VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_usage FROM scan_usage WHERE user_id = p_user_id FOR UPDATE;
+
+  IF v_usage.period_started_at IS NULL OR v_usage.period_started_at + v_window <= NOW() THEN
+    v_usage.scan_count := 0;
+    v_usage.period_started_at := NOW();
+  END IF;
+
+  IF v_usage.scan_count >= v_limit THEN
+    RETURN QUERY SELECT FALSE, v_usage.scan_count, v_limit, v_usage.period_started_at + v_window;
+    RETURN;
+  END IF;
+
+  UPDATE scan_usage
+  SET scan_count = v_usage.scan_count + 1,
+      period_started_at = v_usage.period_started_at,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  RETURN QUERY SELECT TRUE, v_usage.scan_count + 1, v_limit, v_usage.period_started_at + v_window;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Gives the scan back when the provider failed
+CREATE OR REPLACE FUNCTION public.refund_scan_quota(p_user_id UUID)
+RETURNS VOID AS $$
+  UPDATE scan_usage
+  SET scan_count = GREATEST(scan_count - 1, 0),
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_scan_quota(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_scan_quota(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_scan_quota(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.refund_scan_quota(UUID) TO service_role;
+
+-- =============================================
+-- 2. History
+-- =============================================
+CREATE TABLE IF NOT EXISTS scan_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  place_name TEXT NOT NULL,
+  place_name_local TEXT,
+  category TEXT NOT NULL DEFAULT 'unknown',
+  confidence NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  result JSONB NOT NULL,
+  thumbnail_path TEXT,
+  provider TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_history_user_created ON scan_history(user_id, created_at DESC);
+
+-- Rows are written by analyze-image
+ALTER TABLE scan_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scan history"
+  ON scan_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own scan history"
+  ON scan_history FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- =============================================
+-- 3. Thumbnails
+-- =============================================
+-- Private bucket, one folder per user: <user_id>/<history_id>.jpg
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'scan-thumbnails',
+  'scan-thumbnails',
+  false,
+  262144, -- 256KB
+  ARRAY['image/jpeg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view own scan thumbnails"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'scan-thumbnails'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete own scan thumbnails"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'scan-thumbnails'
+  AND auth.role() = 'authenticated'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,165 @@
+-- =============================================
+-- Migration: Vision Provider Health & Result Cache
+-- Description: analyze-image picks the provider itself and falls back
+--              along a chain when one fails. Failures are tracked per
+--              provider so a struggling one is skipped for a while.
+--              Landmark results are cached by a perceptual hash of the
+--              image, so re-scans of the same place skip the provider.
+-- =============================================
+
+-- =============================================
+-- 1. Provider health
+-- =============================================
+CREATE TABLE IF NOT EXISTS vision_provider_health (
+  provider TEXT PRIMARY KEY CHECK (provider IN ('gemini', 'openai', 'anthropic')),
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  total_requests INTEGER NOT NULL DEFAULT 0,
+  total_failures INTEGER NOT NULL DEFAULT 0,
+  last_success_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  last_error TEXT,
+  -- Skipped by the fallback chain until this time
+  disabled_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Written by analyze-image only
+ALTER TABLE vision_provider_health ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view vision provider health"
+  ON vision_provider_health FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- After 3 failures in a row a provider is skipped for 1 minute, doubling
+-- with each further failure up to 30 minutes. One success resets it.
+CREATE OR REPLACE FUNCTION public.record_vision_provider_result(
+  p_provider TEXT,
+  p_success BOOLEAN,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO vision_provider_health (provider) VALUES (p_provider)
+  ON CONFLICT (provider) DO NOTHING;
+
+  IF p_success THEN
+    UPDATE vision_provider_health
+    SET consecutive_failures = 0,
+        total_requests = total_requests + 1,
+        last_success_at = NOW(),
+        disabled_until = NULL,
+        updated_at = NOW()
+    WHERE provider = p_provider;
+  ELSE
+    UPDATE vision_provider_health
+    SET consecutive_failures = consecutive_failures + 1,
+        total_requests = total_requests + 1,
+        total_failures = total_failures + 1,
+        last_failure_at = NOW(),
+        last_error = LEFT(p_error, 500),
+        disabled_until = CASE
+          WHEN consecutive_failures + 1 >= 3
+          THEN NOW() + INTERVAL '1 minute' * LEAST(POWER(2, consecutive_failures + 1 - 3), 30)
+          ELSE disabled_until
+        END,
+        updated_at = NOW()
+    WHERE provider = p_provider;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 2. Result cache
+-- =============================================
+-- image_hash is a 64-bit difference hash as 16 hex characters. Lookups
+-- only compare hashes sharing the first 16 bits (hash_bucket), so the
+-- distance is never computed over the whole table.
+CREATE TABLE IF NOT EXISTS vision_result_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  image_hash TEXT NOT NULL CHECK (image_hash ~ '^[0-9a-f]{16}$'),
+  hash_bucket TEXT GENERATED ALWAYS AS (LEFT(image_hash, 4)) STORED,
+  result JSONB NOT NULL,
+  provider TEXT NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_hit_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_vision_result_cache_bucket ON vision_result_cache(hash_bucket, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vision_result_cache_created ON vision_result_cache(created_at);
+
+ALTER TABLE vision_result_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view vision result cache"
+  ON vision_result_cache FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- Closest cached result within p_max_distance differing bits, among
+-- entries in the same bucket. Entries older than 30 days are ignored so
+-- improved prompts take effect.
+CREATE OR REPLACE FUNCTION public.find_cached_vision_result(
+  p_hash TEXT,
+  p_max_distance INTEGER DEFAULT 6
+)
+RETURNS TABLE (id UUID, result JSONB, provider TEXT, distance INTEGER) AS $$
+  SELECT c.id, c.result, c.provider, d.distance
+  FROM vision_result_cache c
+  CROSS JOIN LATERAL (
+    SELECT bit_count(('x' || c.image_hash)::bit(64) # ('x' || p_hash)::bit(64))::INTEGER AS distance
+  ) d
+  WHERE c.hash_bucket = LEFT(p_hash, 4)
+    AND c.created_at > NOW() - INTERVAL '30 days'
+    AND d.distance <= p_max_distance
+  ORDER BY d.distance, c.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.record_vision_cache_hit(p_id UUID)
+RETURNS VOID AS $$
+  UPDATE vision_result_cache
+  SET hit_count = hit_count + 1,
+      last_hit_at = NOW()
+  WHERE id = p_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Expired entries are never read again
+CREATE OR REPLACE FUNCTION public.prune_vision_result_cache()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM vision_result_cache
+  WHERE created_at < NOW() - INTERVAL '30 days';
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_vision_provider_result(TEXT, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_cached_vision_result(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_vision_cache_hit(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_vision_result_cache() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_vision_provider_result(TEXT, BOOLEAN, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.find_cached_vision_result(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_vision_cache_hit(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_vision_result_cache() TO service_role;
+
+-- Prune daily when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'prune-vision-result-cache',
+      '30 3 * * *',
+      'SELECT public.prune_vision_result_cache()'
+    );
+  ELSE
+    RAISE NOTICE 'pg_cron extension not available. Run: SELECT cron.schedule(''prune-vision-result-cache'', ''30 3 * * *'', ''SELECT public.prune_vision_result_cache()'');';
+  END IF;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE NOTICE 'Could not schedule cron job: %', SQLERRM;
+END $$;
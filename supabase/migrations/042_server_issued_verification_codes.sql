@@ -0,0 +1,327 @@
+-- =============================================
+-- Migration: Server-Issued Verification Codes
+-- Description: Email verification codes (2FA, email change, password
+--              reset) are now generated, hashed and emailed by the
+--              send-verification-email Edge Function. The app only
+--              learns when a code expires. Only a bcrypt hash of the
+--              code is stored, requests are throttled per user and per
+--              IP, and every request is written to an audit table. A
+--              verified password reset code is exchanged for a one-time
+--              token that update-password requires.
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- =============================================
+-- 1. Hashed codes
+-- =============================================
+ALTER TABLE public.email_verification_codes
+ADD COLUMN IF NOT EXISTS code_hash TEXT;
+
+ALTER TABLE public.email_verification_codes
+ALTER COLUMN code DROP NOT NULL;
+
+-- Outstanding plaintext codes can no longer be verified
+UPDATE public.email_verification_codes
+SET verified_at = NOW()
+WHERE verified_at IS NULL;
+
+UPDATE public.email_verification_codes
+SET code = NULL;
+
+DROP INDEX IF EXISTS idx_verification_codes_lookup;
+CREATE INDEX IF NOT EXISTS idx_verification_codes_active
+  ON public.email_verification_codes(user_id, purpose, created_at DESC)
+  WHERE verified_at IS NULL;
+
+-- A 6-digit code is easy to brute force from its hash, so users can
+-- no longer read their rows
+DROP POLICY IF EXISTS "Users can view own verification codes" ON public.email_verification_codes;
+
+-- The client must not be able to create codes it knows
+DROP FUNCTION IF EXISTS public.generate_verification_code(UUID, VARCHAR, VARCHAR, INTEGER);
+
+-- =============================================
+-- 2. Request audit log
+-- =============================================
+-- One row per code request, also used for throttling. user_id is NULL
+-- for password resets of unknown addresses.
+CREATE TABLE IF NOT EXISTS public.verification_code_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email VARCHAR(255),
+  ip_address TEXT,
+  purpose VARCHAR(50) NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('issued', 'throttled', 'unknown_email', 'email_failed')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_code_requests_user
+  ON public.verification_code_requests(user_id, purpose, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_verification_code_requests_email
+  ON public.verification_code_requests(email, purpose, created_at DESC)
+  WHERE user_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_verification_code_requests_ip
+  ON public.verification_code_requests(ip_address, created_at DESC);
+
+-- Written by send-verification-email only
+ALTER TABLE public.verification_code_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view verification code requests"
+  ON public.verification_code_requests FOR SELECT
+  TO authenticated
+  USING (public.is_admin());
+
+-- =============================================
+-- 3. Issue a code
+-- =============================================
+-- Called by send-verification-email with the service role after it has
+-- generated p_code. Limits: one code per user and purpose per minute,
+-- 5 per hour, and 20 requests per IP per hour. Throttled requests don't
+-- count towards the limits. Pass p_user_id NULL to only record (and
+-- throttle) a password reset for an unknown address; those are limited
+-- by the normalized address with the same per-minute and per-hour
+-- limits, so throttling doesn't reveal whether an account exists.
+CREATE OR REPLACE FUNCTION public.issue_verification_code(
+  p_user_id UUID,
+  p_email VARCHAR,
+  p_purpose VARCHAR,
+  p_code TEXT,
+  p_ip TEXT DEFAULT NULL,
+  p_expires_minutes INTEGER DEFAULT 10
+)
+RETURNS TABLE (status TEXT, expires_at TIMESTAMPTZ, retry_after_seconds INTEGER, request_id UUID) AS $$
+DECLARE
+  v_email VARCHAR := lower(trim(p_email));
+  v_expires_at TIMESTAMPTZ := NOW() + (p_expires_minutes || ' minutes')::INTERVAL;
+  v_last_at TIMESTAMPTZ;
+  v_oldest_at TIMESTAMPTZ;
+  v_count INTEGER;
+  v_retry_after INTEGER := 0;
+  v_request_id UUID;
+BEGIN
+  IF p_purpose NOT IN ('two_factor', 'email_change', 'password_reset') THEN
+    RAISE EXCEPTION 'Invalid verification purpose: %', p_purpose;
+  END IF;
+
+  -- Serialize concurrent requests for the same user (or address) and purpose
+  PERFORM pg_advisory_xact_lock(hashtext(COALESCE(p_user_id::TEXT, v_email, p_ip, '') || ':' || p_purpose));
+
+  IF p_ip IS NOT NULL THEN
+    SELECT COUNT(*), MIN(r.created_at) INTO v_count, v_oldest_at
+    FROM verification_code_requests r
+    WHERE r.ip_address = p_ip
+      AND r.outcome <> 'throttled'
+      AND r.created_at > NOW() - INTERVAL '1 hour';
+
+    IF v_count >= 20 THEN
+      v_retry_after := CEIL(EXTRACT(EPOCH FROM v_oldest_at + INTERVAL '1 hour' - NOW()))::INTEGER;
+    END IF;
+  END IF;
+
+  IF v_retry_after = 0 AND (p_user_id IS NOT NULL OR v_email IS NOT NULL) THEN
+    SELECT COUNT(*), MIN(r.created_at), MAX(r.created_at) INTO v_count, v_oldest_at, v_last_at
+    FROM verification_code_requests r
+    WHERE (
+        (p_user_id IS NOT NULL AND r.user_id = p_user_id)
+        OR (p_user_id IS NULL AND r.user_id IS NULL AND r.email = v_email)
+      )
+      AND r.purpose = p_purpose
+      AND r.outcome <> 'throttled'
+      AND r.created_at > NOW() - INTERVAL '1 hour';
+
+    IF v_count >= 5 THEN
+      v_retry_after := CEIL(EXTRACT(EPOCH FROM v_oldest_at + INTERVAL '1 hour' - NOW()))::INTEGER;
+    ELSIF v_last_at > NOW() - INTERVAL '1 minute' THEN
+      v_retry_after := CEIL(EXTRACT(EPOCH FROM v_last_at + INTERVAL '1 minute' - NOW()))::INTEGER;
+    END IF;
+  END IF;
+
+  IF v_retry_after > 0 THEN
+    INSERT INTO verification_code_requests (user_id, email, ip_address, purpose, outcome)
+    VALUES (p_user_id, v_email, p_ip, p_purpose, 'throttled')
+    RETURNING id INTO v_request_id;
+
+    RETURN QUERY SELECT 'throttled'::TEXT, NULL::TIMESTAMPTZ, GREATEST(v_retry_after, 1), v_request_id;
+    RETURN;
+  END IF;
+
+  IF p_user_id IS NULL THEN
+    INSERT INTO verification_code_requests (user_id, email, ip_address, purpose, outcome)
+    VALUES (NULL, v_email, p_ip, p_purpose, 'unknown_email')
+    RETURNING id INTO v_request_id;
+
+    RETURN QUERY SELECT 'unknown_email'::TEXT, v_expires_at, 0, v_request_id;
+    RETURN;
+  END IF;
+
+  IF p_code IS NULL OR p_code !~ '^[0-9]{6}$' THEN
+    RAISE EXCEPTION 'Verification code must be 6 digits';
+  END IF;
+
+  -- Invalidate any existing unverified codes for this user and purpose
+  UPDATE email_verification_codes
+  SET verified_at = NOW()
+  WHERE user_id = p_user_id
+    AND purpose = p_purpose
+    AND verified_at IS NULL;
+
+  INSERT INTO email_verification_codes (user_id, code_hash, email, purpose, expires_at)
+  VALUES (p_user_id, extensions.crypt(p_code, extensions.gen_salt('bf')), p_email, p_purpose, v_expires_at);
+
+  INSERT INTO verification_code_requests (user_id, email, ip_address, purpose, outcome)
+  VALUES (p_user_id, p_email, p_ip, p_purpose, 'issued')
+  RETURNING id INTO v_request_id;
+
+  RETURN QUERY SELECT 'issued'::TEXT, v_expires_at, 0, v_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.issue_verification_code(UUID, VARCHAR, VARCHAR, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_verification_code(UUID, VARCHAR, VARCHAR, TEXT, TEXT, INTEGER) TO service_role;
+
+-- =============================================
+-- 4. Password reset tokens
+-- =============================================
+-- Issued by verify_email_code for a verified password_reset code and
+-- consumed by update-password. Only a SHA-256 hash is stored.
+CREATE TABLE IF NOT EXISTS public.password_reset_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user
+  ON public.password_reset_tokens(user_id, created_at DESC)
+  WHERE used_at IS NULL;
+
+-- Service role only
+ALTER TABLE public.password_reset_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Marks the token used and returns true if it was valid for the user
+CREATE OR REPLACE FUNCTION public.consume_password_reset_token(p_user_id UUID, p_token TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_token_id UUID;
+BEGIN
+  IF p_user_id IS NULL OR p_token IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE password_reset_tokens
+  SET used_at = NOW()
+  WHERE user_id = p_user_id
+    AND token_hash = encode(extensions.digest(p_token, 'sha256'), 'hex')
+    AND used_at IS NULL
+    AND expires_at > NOW()
+  RETURNING id INTO v_token_id;
+
+  RETURN v_token_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.consume_password_reset_token(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_password_reset_token(UUID, TEXT) TO service_role;
+
+-- =============================================
+-- 5. Verify against the hash
+-- =============================================
+CREATE OR REPLACE FUNCTION public.verify_email_code(
+    p_user_id UUID,
+    p_code VARCHAR,
+    p_purpose VARCHAR DEFAULT 'two_factor'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_record RECORD;
+    v_reset_token TEXT;
+BEGIN
+    -- Find the most recent unverified code for this user and purpose
+    SELECT * INTO v_record
+    FROM public.email_verification_codes
+    WHERE user_id = p_user_id
+      AND purpose = p_purpose
+      AND verified_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- No code found
+    IF v_record IS NULL OR v_record.code_hash IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'no_code_found',
+            'message', 'No verification code found'
+        );
+    END IF;
+
+    -- Check if expired
+    IF v_record.expires_at < NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'code_expired',
+            'message', 'Verification code has expired'
+        );
+    END IF;
+
+    -- Check max attempts
+    IF v_record.attempts >= v_record.max_attempts THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'max_attempts_exceeded',
+            'message', 'Maximum verification attempts exceeded'
+        );
+    END IF;
+
+    -- Increment attempts
+    UPDATE public.email_verification_codes
+    SET attempts = attempts + 1
+    WHERE id = v_record.id;
+
+    -- Check if code matches
+    IF extensions.crypt(p_code, v_record.code_hash) <> v_record.code_hash THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_code',
+            'message', 'Invalid verification code',
+            'attempts_remaining', v_record.max_attempts - v_record.attempts - 1
+        );
+    END IF;
+
+    -- Code is valid - mark as verified
+    UPDATE public.email_verification_codes
+    SET verified_at = NOW()
+    WHERE id = v_record.id;
+
+    -- A password reset continues with a one-time token instead of the
+    -- user id alone
+    IF p_purpose = 'password_reset' THEN
+        UPDATE public.password_reset_tokens
+        SET used_at = NOW()
+        WHERE user_id = p_user_id
+          AND used_at IS NULL;
+
+        v_reset_token := encode(extensions.gen_random_bytes(32), 'hex');
+
+        INSERT INTO public.password_reset_tokens (user_id, token_hash, expires_at)
+        VALUES (p_user_id, encode(extensions.digest(v_reset_token, 'sha256'), 'hex'), NOW() + INTERVAL '15 minutes');
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Code verified successfully',
+        'reset_token', v_reset_token
+    );
+END;
+$$;
+
+COMMENT ON COLUMN public.email_verification_codes.code_hash IS 'bcrypt hash of the code; the plaintext code is only ever emailed';
+COMMENT ON TABLE public.password_reset_tokens IS 'One-time tokens from a verified password reset code; SHA-256 hashed';
+COMMENT ON FUNCTION public.consume_password_reset_token IS 'Marks a password reset token used if it is valid; service role only';
+COMMENT ON FUNCTION public.issue_verification_code IS 'Stores a hashed verification code after per-user and per-IP throttling; service role only';
@@ -0,0 +1,480 @@
+-- =============================================
+-- Migration: Authenticator App (TOTP) & Recovery Codes
+-- Description: Users with 2FA on can add an authenticator app
+--              (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps). Once
+--              it is confirmed, sign-in asks for an app code or a
+--              one-time recovery code instead of an emailed code, so a
+--              compromised mailbox is no longer enough.
+--              The secret is created here and returned once during
+--              enrollment; the app builds the QR code from it. Codes
+--              are checked here, never on the device.
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- =============================================
+-- 1. Tables
+-- =============================================
+-- One factor per user. Unconfirmed rows are pending enrollments.
+CREATE TABLE IF NOT EXISTS public.user_totp_factors (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  confirmed_at TIMESTAMPTZ,
+  -- Last accepted time step, so a code can't be used twice
+  last_used_step BIGINT,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Only bcrypt hashes are stored; the codes are shown once
+CREATE TABLE IF NOT EXISTS public.two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recovery_codes_user_unused
+  ON public.two_factor_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+-- No policies: both tables are only read by the functions below (and
+-- by send-verification-email with the service role)
+ALTER TABLE public.user_totp_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.two_factor_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- =============================================
+-- 2. Internal helpers
+-- =============================================
+-- RFC 4226 HOTP value for one time step
+CREATE OR REPLACE FUNCTION public.totp_code_at(p_secret BYTEA, p_step BIGINT)
+RETURNS TEXT AS $$
+DECLARE
+  v_hash BYTEA := extensions.hmac(int8send(p_step), p_secret, 'sha1');
+  v_offset INTEGER := get_byte(v_hash, 19) & 15;
+  v_binary BIGINT;
+BEGIN
+  v_binary := ((get_byte(v_hash, v_offset) & 127)::BIGINT << 24)
+    | (get_byte(v_hash, v_offset + 1)::BIGINT << 16)
+    | (get_byte(v_hash, v_offset + 2)::BIGINT << 8)
+    | get_byte(v_hash, v_offset + 3)::BIGINT;
+  RETURN LPAD((v_binary % 1000000)::TEXT, 6, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Step matching p_code, allowing one step of clock drift either way.
+-- Steps up to p_after_step are already used.
+CREATE OR REPLACE FUNCTION public.match_totp_step(p_secret BYTEA, p_code TEXT, p_after_step BIGINT)
+RETURNS BIGINT AS $$
+DECLARE
+  v_now BIGINT := FLOOR(EXTRACT(EPOCH FROM NOW()) / 30)::BIGINT;
+  v_step BIGINT;
+BEGIN
+  FOR v_offset IN -1..1 LOOP
+    v_step := v_now + v_offset;
+    IF (p_after_step IS NULL OR v_step > p_after_step)
+      AND public.totp_code_at(p_secret, v_step) = p_code THEN
+      RETURN v_step;
+    END IF;
+  END LOOP;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Replaces a user's recovery codes with 10 new ones and returns them,
+-- formatted xxxxx-xxxxx from the Crockford base32 alphabet
+CREATE OR REPLACE FUNCTION public.generate_recovery_codes(p_user_id UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_alphabet TEXT := '0123456789abcdefghjkmnpqrstvwxyz';
+  v_bytes BYTEA;
+  v_code TEXT;
+  v_codes TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  DELETE FROM two_factor_recovery_codes WHERE user_id = p_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_bytes := extensions.gen_random_bytes(10);
+    v_code := '';
+    FOR j IN 0..9 LOOP
+      v_code := v_code || substr(v_alphabet, (get_byte(v_bytes, j) % 32) + 1, 1);
+    END LOOP;
+
+    INSERT INTO two_factor_recovery_codes (user_id, code_hash)
+    VALUES (p_user_id, extensions.crypt(v_code, extensions.gen_salt('bf')));
+
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Checks an app code ('totp'), a recovery code ('recovery') or either
+-- ('any') against a confirmed factor. 5 failures in a row lock the
+-- factor for 5 minutes. Recovery codes are used up on success.
+CREATE OR REPLACE FUNCTION public.verify_second_factor(p_user_id UUID, p_code TEXT, p_method TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_factor user_totp_factors%ROWTYPE;
+  v_code TEXT := lower(regexp_replace(COALESCE(p_code, ''), '[^0-9A-Za-z]', '', 'g'));
+  v_step BIGINT;
+  v_recovery_id UUID;
+  v_failures INTEGER;
+BEGIN
+  SELECT * INTO v_factor
+  FROM user_totp_factors
+  WHERE user_id = p_user_id
+    AND confirmed_at IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'not_enrolled', 'message', 'No authenticator app set up');
+  END IF;
+
+  IF v_factor.locked_until > NOW() THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'max_attempts_exceeded',
+      'message', 'Too many attempts',
+      'retry_after_seconds', CEIL(EXTRACT(EPOCH FROM v_factor.locked_until - NOW()))::INTEGER
+    );
+  END IF;
+
+  IF p_method IN ('totp', 'any') AND v_code ~ '^[0-9]{6}$' THEN
+    v_step := public.match_totp_step(v_factor.secret, v_code, v_factor.last_used_step);
+    IF v_step IS NOT NULL THEN
+      UPDATE user_totp_factors
+      SET last_used_step = v_step,
+          failed_attempts = 0,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE user_id = p_user_id;
+
+      RETURN jsonb_build_object('success', true, 'method', 'totp', 'message', 'Code verified successfully');
+    END IF;
+  END IF;
+
+  IF p_method IN ('recovery', 'any') AND length(v_code) = 10 THEN
+    SELECT id INTO v_recovery_id
+    FROM two_factor_recovery_codes
+    WHERE user_id = p_user_id
+      AND used_at IS NULL
+      AND code_hash = extensions.crypt(v_code, code_hash)
+    LIMIT 1;
+
+    IF v_recovery_id IS NOT NULL THEN
+      UPDATE two_factor_recovery_codes SET used_at = NOW() WHERE id = v_recovery_id;
+      UPDATE user_totp_factors
+      SET failed_attempts = 0,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE user_id = p_user_id;
+
+      RETURN jsonb_build_object(
+        'success', true,
+        'method', 'recovery',
+        'message', 'Recovery code accepted',
+        'recovery_codes_remaining', (
+          SELECT COUNT(*) FROM two_factor_recovery_codes WHERE user_id = p_user_id AND used_at IS NULL
+        )
+      );
+    END IF;
+  END IF;
+
+  v_failures := v_factor.failed_attempts + 1;
+
+  UPDATE user_totp_factors
+  SET failed_attempts = CASE WHEN v_failures >= 5 THEN 0 ELSE v_failures END,
+      locked_until = CASE WHEN v_failures >= 5 THEN NOW() + INTERVAL '5 minutes' ELSE locked_until END,
+      updated_at = NOW()
+  WHERE user_id = p_user_id;
+
+  IF v_failures >= 5 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'max_attempts_exceeded',
+      'message', 'Too many attempts',
+      'retry_after_seconds', 300
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', 'invalid_code',
+    'message', 'Invalid code',
+    'attempts_remaining', 5 - v_failures
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.totp_code_at(BYTEA, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.match_totp_step(BYTEA, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.generate_recovery_codes(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.verify_second_factor(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- 3. Status
+-- =============================================
+CREATE OR REPLACE FUNCTION public.get_two_factor_factors()
+RETURNS TABLE (two_factor_enabled BOOLEAN, totp_enabled BOOLEAN, recovery_codes_remaining INTEGER) AS $$
+  SELECT
+    COALESCE(p.two_factor_enabled, false),
+    EXISTS (SELECT 1 FROM user_totp_factors f WHERE f.user_id = auth.uid() AND f.confirmed_at IS NOT NULL),
+    (SELECT COUNT(*)::INTEGER FROM two_factor_recovery_codes r WHERE r.user_id = auth.uid() AND r.used_at IS NULL)
+  FROM (SELECT auth.uid() AS id) me
+  LEFT JOIN profiles p ON p.id = me.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 4. Enrollment
+-- =============================================
+-- Starts (or restarts) enrollment and returns the new secret as hex
+CREATE OR REPLACE FUNCTION public.begin_totp_enrollment()
+RETURNS JSONB AS $$
+DECLARE
+  v_secret BYTEA := extensions.gen_random_bytes(20);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'unauthorized');
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM user_totp_factors WHERE user_id = auth.uid() AND confirmed_at IS NOT NULL) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'already_enabled');
+  END IF;
+
+  INSERT INTO user_totp_factors (user_id, secret)
+  VALUES (auth.uid(), v_secret)
+  ON CONFLICT (user_id) DO UPDATE
+  SET secret = EXCLUDED.secret,
+      last_used_step = NULL,
+      failed_attempts = 0,
+      locked_until = NULL,
+      created_at = NOW(),
+      updated_at = NOW();
+
+  RETURN jsonb_build_object('success', true, 'secret', encode(v_secret, 'hex'));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Activates the pending factor once the app shows a matching code and
+-- returns the first set of recovery codes
+CREATE OR REPLACE FUNCTION public.confirm_totp_enrollment(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_factor user_totp_factors%ROWTYPE;
+  v_step BIGINT;
+BEGIN
+  SELECT * INTO v_factor
+  FROM user_totp_factors
+  WHERE user_id = auth.uid()
+    AND confirmed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'no_enrollment');
+  END IF;
+
+  IF v_factor.failed_attempts >= 5 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'max_attempts_exceeded');
+  END IF;
+
+  v_step := public.match_totp_step(v_factor.secret, regexp_replace(COALESCE(p_code, ''), '\s', '', 'g'), NULL);
+
+  IF v_step IS NULL THEN
+    UPDATE user_totp_factors
+    SET failed_attempts = failed_attempts + 1,
+        updated_at = NOW()
+    WHERE user_id = auth.uid();
+
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'invalid_code',
+      'attempts_remaining', 5 - v_factor.failed_attempts - 1
+    );
+  END IF;
+
+  UPDATE user_totp_factors
+  SET confirmed_at = NOW(),
+      last_used_step = v_step,
+      failed_attempts = 0,
+      updated_at = NOW()
+  WHERE user_id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'recovery_codes', to_jsonb(public.generate_recovery_codes(auth.uid())));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================
+-- 5. Sign-in and management
+-- =============================================
+CREATE OR REPLACE FUNCTION public.verify_totp_code(p_code TEXT)
+RETURNS JSONB AS $$
+  SELECT public.verify_second_factor(auth.uid(), p_code, 'totp');
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.verify_recovery_code(p_code TEXT)
+RETURNS JSONB AS $$
+  SELECT public.verify_second_factor(auth.uid(), p_code, 'recovery');
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- New recovery codes need a current app code
+CREATE OR REPLACE FUNCTION public.regenerate_recovery_codes(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB := public.verify_second_factor(auth.uid(), p_code, 'totp');
+BEGIN
+  IF NOT (v_result->>'success')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'recovery_codes', to_jsonb(public.generate_recovery_codes(auth.uid())));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removing the app needs an app code or a recovery code. Sign-in falls
+-- back to emailed codes afterwards.
+CREATE OR REPLACE FUNCTION public.disable_totp(p_code TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB := public.verify_second_factor(auth.uid(), p_code, 'any');
+BEGIN
+  IF NOT (v_result->>'success')::BOOLEAN THEN
+    RETURN v_result;
+  END IF;
+
+  DELETE FROM user_totp_factors WHERE user_id = auth.uid();
+  DELETE FROM two_factor_recovery_codes WHERE user_id = auth.uid();
+
+  RETURN jsonb_build_object('success', true, 'message', 'Authenticator app removed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_two_factor_factors() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.begin_totp_enrollment() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.confirm_totp_enrollment(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_totp_code(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.verify_recovery_code(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.regenerate_recovery_codes(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.disable_totp(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_two_factor_factors() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_totp_enrollment() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.confirm_totp_enrollment(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_totp_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_recovery_code(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.regenerate_recovery_codes(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.disable_totp(TEXT) TO authenticated;
+
+-- =============================================
+-- 6. Emailed codes
+-- =============================================
+-- Same as in 042, but emailed 2FA codes are refused once an
+-- authenticator app is confirmed. send-verification-email doesn't issue
+-- them either.
+CREATE OR REPLACE FUNCTION public.verify_email_code(
+    p_user_id UUID,
+    p_code VARCHAR,
+    p_purpose VARCHAR DEFAULT 'two_factor'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_record RECORD;
+    v_reset_token TEXT;
+BEGIN
+    -- Accounts with an authenticator app don't sign in with emailed codes
+    IF p_purpose = 'two_factor' AND EXISTS (
+        SELECT 1 FROM public.user_totp_factors
+        WHERE user_id = p_user_id
+          AND confirmed_at IS NOT NULL
+    ) THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'totp_required',
+            'message', 'Use the authenticator app or a recovery code'
+        );
+    END IF;
+
+    -- Find the most recent unverified code for this user and purpose
+    SELECT * INTO v_record
+    FROM public.email_verification_codes
+    WHERE user_id = p_user_id
+      AND purpose = p_purpose
+      AND verified_at IS NULL
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    -- No code found
+    IF v_record IS NULL OR v_record.code_hash IS NULL THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'no_code_found',
+            'message', 'No verification code found'
+        );
+    END IF;
+
+    -- Check if expired
+    IF v_record.expires_at < NOW() THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'code_expired',
+            'message', 'Verification code has expired'
+        );
+    END IF;
+
+    -- Check max attempts
+    IF v_record.attempts >= v_record.max_attempts THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'max_attempts_exceeded',
+            'message', 'Maximum verification attempts exceeded'
+        );
+    END IF;
+
+    -- Increment attempts
+    UPDATE public.email_verification_codes
+    SET attempts = attempts + 1
+    WHERE id = v_record.id;
+
+    -- Check if code matches
+    IF extensions.crypt(p_code, v_record.code_hash) <> v_record.code_hash THEN
+        RETURN jsonb_build_object(
+            'success', false,
+            'error', 'invalid_code',
+            'message', 'Invalid verification code',
+            'attempts_remaining', v_record.max_attempts - v_record.attempts - 1
+        );
+    END IF;
+
+    -- Code is valid - mark as verified
+    UPDATE public.email_verification_codes
+    SET verified_at = NOW()
+    WHERE id = v_record.id;
+
+    -- A password reset continues with a one-time token instead of the
+    -- user id alone
+    IF p_purpose = 'password_reset' THEN
+        UPDATE public.password_reset_tokens
+        SET used_at = NOW()
+        WHERE user_id = p_user_id
+          AND used_at IS NULL;
+
+        v_reset_token := encode(extensions.gen_random_bytes(32), 'hex');
+
+        INSERT INTO public.password_reset_tokens (user_id, token_hash, expires_at)
+        VALUES (p_user_id, encode(extensions.digest(v_reset_token, 'sha256'), 'hex'), NOW() + INTERVAL '15 minutes');
+    END IF;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'message', 'Code verified successfully',
+        'reset_token', v_reset_token
+    );
+END;
+$$;
@@ -0,0 +1,38 @@
+-- =============================================
+-- Migration: Meeting Realtime Authorization
+-- Description: Session screens use the private realtime channel
+--              meeting:<session id>. Presence on it carries members'
+--              live locations, so only current members (host or
+--              joined participants) may join, read or track presence.
+-- =============================================
+
+-- Session id from a meeting:<uuid> topic, NULL for any other topic
+CREATE OR REPLACE FUNCTION public.meeting_session_from_topic(p_topic TEXT)
+RETURNS UUID AS $$
+BEGIN
+  IF p_topic ~ '^meeting:[0-9a-fA-F-]{36}$' THEN
+    RETURN substring(p_topic FROM 9)::UUID;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+DROP POLICY IF EXISTS "Meeting members can receive session presence" ON realtime.messages;
+CREATE POLICY "Meeting members can receive session presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('presence', 'broadcast')
+    AND public.meeting_session_from_topic(realtime.topic()) IS NOT NULL
+    AND public.is_meeting_member(public.meeting_session_from_topic(realtime.topic()), auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Meeting members can track session presence" ON realtime.messages;
+CREATE POLICY "Meeting members can track session presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('presence', 'broadcast')
+    AND public.meeting_session_from_topic(realtime.topic()) IS NOT NULL
+    AND public.is_meeting_member(public.meeting_session_from_topic(realtime.topic()), auth.uid())
+  );
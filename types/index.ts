@@ -84,6 +84,183 @@ export interface Favorite {
   created_at: string;
 }
 
+// =============================================
+// REVIEW TYPES
+// =============================================
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Tour review written by a user
+ */
+export interface TourReview {
+  id: string;
+  tourId: string;
+  userId: string;
+  rating: number;
+  comment?: string;
+  status: ReviewStatus;
+  rejectionReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  user?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  };
+  tour?: {
+    id: string;
+    title: string;
+    image: string;
+  };
+}
+
+/**
+ * Supabase row type for reviews table
+ */
+export interface TourReviewData {
+  id: string;
+  tour_id: string;
+  user_id: string;
+  rating: number;
+  comment: string | null;
+  is_approved: boolean;
+  rejection_reason: string | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  } | null;
+  tours?: {
+    id: string;
+    title: string;
+    image: string | null;
+  } | null;
+}
+
+/**
+ * Helper to convert TourReviewData to TourReview
+ * A review is rejected when it was moderated without being approved
+ */
+export const reviewDataToReview = (data: TourReviewData): TourReview => ({
+  id: data.id,
+  tourId: data.tour_id,
+  userId: data.user_id,
+  rating: data.rating,
+  comment: data.comment || undefined,
+  status: data.is_approved ? 'approved' : data.moderated_at ? 'rejected' : 'pending',
+  rejectionReason: data.rejection_reason || undefined,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+  user: data.profiles ? {
+    id: data.profiles.id,
+    fullName: data.profiles.full_name || 'Kullanıcı',
+    avatarUrl: data.profiles.avatar_url || undefined,
+  } : undefined,
+  tour: data.tours ? {
+    id: data.tours.id,
+    title: data.tours.title,
+    image: data.tours.image || '',
+  } : undefined,
+});
+
+// =============================================
+// BOOKING TYPES
+// =============================================
+
+export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed';
+
+export interface Booking {
+  id: string;
+  tourId: string;
+  userId: string;
+  bookingDate: string; // YYYY-MM-DD
+  numberOfGuests: number;
+  totalPrice: number;
+  status: BookingStatus;
+  notes?: string;
+  cancellationReason?: string;
+  cancelledAt?: string;
+  confirmedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  tour?: {
+    id: string;
+    title: string;
+    image: string;
+    location: string;
+  };
+  user?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface BookingData {
+  id: string;
+  tour_id: string;
+  user_id: string;
+  booking_date: string;
+  number_of_guests: number;
+  total_price: number | string;
+  status: BookingStatus;
+  notes: string | null;
+  cancellation_reason: string | null;
+  cancelled_at: string | null;
+  confirmed_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  tours?: {
+    id: string;
+    title: string;
+    image: string | null;
+    location: string | null;
+  } | null;
+  profiles?: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+/**
+ * Helper to convert BookingData to Booking
+ */
+export const bookingDataToBooking = (data: BookingData): Booking => ({
+  id: data.id,
+  tourId: data.tour_id,
+  userId: data.user_id,
+  bookingDate: data.booking_date,
+  numberOfGuests: data.number_of_guests,
+  totalPrice: Number(data.total_price) || 0,
+  status: data.status,
+  notes: data.notes || undefined,
+  cancellationReason: data.cancellation_reason || undefined,
+  cancelledAt: data.cancelled_at || undefined,
+  confirmedAt: data.confirmed_at || undefined,
+  completedAt: data.completed_at || undefined,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+  tour: data.tours ? {
+    id: data.tours.id,
+    title: data.tours.title,
+    image: data.tours.image || '',
+    location: data.tours.location || '',
+  } : undefined,
+  user: data.profiles ? {
+    id: data.profiles.id,
+    fullName: data.profiles.full_name || 'Kullanıcı',
+    avatarUrl: data.profiles.avatar_url || undefined,
+  } : undefined,
+});
+
 // =============================================
 // USER / PROFILE TYPES
 // =============================================
@@ -105,6 +282,93 @@ export interface UserProfile {
   two_factor_enabled?: boolean;
 }
 
+/**
+ * Profile details other users can see
+ */
+export interface PublicProfile {
+  id: string;
+  fullName: string;
+  avatarUrl?: string;
+  memberClass: 'Normal' | 'Gold' | 'Business';
+  followersCount: number;
+  followingCount: number;
+  createdAt: string;
+}
+
+/**
+ * Supabase row type for the public columns of profiles
+ */
+export interface PublicProfileData {
+  id: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  member_class: 'Normal' | 'Gold' | 'Business' | null;
+  followers_count?: number;
+  following_count?: number;
+  created_at: string;
+}
+
+/**
+ * Helper to convert PublicProfileData to PublicProfile
+ */
+export const publicProfileDataToProfile = (data: PublicProfileData): PublicProfile => ({
+  id: data.id,
+  fullName: data.full_name || 'Kullanıcı',
+  avatarUrl: data.avatar_url || undefined,
+  memberClass: data.member_class || 'Normal',
+  followersCount: data.followers_count || 0,
+  followingCount: data.following_count || 0,
+  createdAt: data.created_at,
+});
+
+// =============================================
+// USER PREFERENCE TYPES
+// =============================================
+
+export type GroupSizePreference = 'solo' | 'couple' | 'family' | 'group';
+export type BudgetPreference = 'budget' | 'mid' | 'premium' | 'luxury';
+
+export interface UserPreferences {
+  userId: string;
+  categories: string[];
+  groupSize?: GroupSizePreference;
+  budget?: BudgetPreference;
+  notifications: {
+    newTours: boolean;
+    priceDrops: boolean;
+    recommendations: boolean;
+  };
+  updatedAt?: string;
+}
+
+/**
+ * Supabase row type for user_preferences table
+ */
+export interface UserPreferencesData {
+  user_id: string;
+  categories: string[];
+  group_size: GroupSizePreference | null;
+  budget: BudgetPreference | null;
+  notify_new_tours: boolean;
+  notify_price_drops: boolean;
+  notify_recommendations: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export const preferencesDataToPreferences = (data: UserPreferencesData): UserPreferences => ({
+  userId: data.user_id,
+  categories: data.categories || [],
+  groupSize: data.group_size || undefined,
+  budget: data.budget || undefined,
+  notifications: {
+    newTours: data.notify_new_tours,
+    priceDrops: data.notify_price_drops,
+    recommendations: data.notify_recommendations,
+  },
+  updatedAt: data.updated_at,
+});
+
 // =============================================
 // PROMOTION TYPES
 // =============================================
@@ -249,6 +513,92 @@ export const routeDataToRoute = (data: ThematicRouteData): ThematicRoute => ({
   updatedAt: data.updated_at,
 });
 
+// =============================================
+// USER ROUTE TYPES ("My Trip Planner")
+// =============================================
+
+/**
+ * Submission state of a user route; null when it was never submitted
+ */
+export type UserRouteSubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * A private multi-day plan built by a user
+ */
+export interface UserRoute {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  durationDays: number;
+  itinerary: RouteDay[];
+  shareToken: string;
+  isShared: boolean;
+  submissionStatus: UserRouteSubmissionStatus | null;
+  submittedAt?: string;
+  rejectionReason?: string;
+  publishedRouteId?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Joined for admin moderation
+  author?: {
+    fullName?: string;
+    avatarUrl?: string;
+  };
+}
+
+/**
+ * Supabase row type for user_routes table
+ */
+export interface UserRouteData {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  duration_days: number;
+  itinerary: RouteDay[];       // JSONB column
+  share_token: string;
+  is_shared: boolean;
+  submission_status: UserRouteSubmissionStatus | null;
+  submitted_at: string | null;
+  rejection_reason: string | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  published_route_id: string | null;
+  created_at: string;
+  updated_at: string;
+  profiles?: {
+    full_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+/**
+ * Helper to convert UserRouteData (from Supabase) to UserRoute (for UI)
+ */
+export const userRouteDataToRoute = (data: UserRouteData): UserRoute => ({
+  id: data.id,
+  userId: data.user_id,
+  title: data.title,
+  description: data.description || undefined,
+  durationDays: data.duration_days,
+  itinerary: data.itinerary || [],
+  shareToken: data.share_token,
+  isShared: data.is_shared,
+  submissionStatus: data.submission_status,
+  submittedAt: data.submitted_at || undefined,
+  rejectionReason: data.rejection_reason || undefined,
+  publishedRouteId: data.published_route_id || undefined,
+  createdAt: data.created_at,
+  updatedAt: data.updated_at,
+  author: data.profiles
+    ? {
+        fullName: data.profiles.full_name || undefined,
+        avatarUrl: data.profiles.avatar_url || undefined,
+      }
+    : undefined,
+});
+
 // =============================================
 // COMMUNITY TYPES
 // =============================================
@@ -263,6 +613,11 @@ export type CommunityPostType = 'photo' | 'review' | 'suggestion';
  */
 export type ModerationStatus = 'pending' | 'approved' | 'rejected';
 
+/**
+ * Community feed views: followed users and tours, or ranked discovery
+ */
+export type CommunityFeed = 'following' | 'discover';
+
 /**
  * Community post - user generated content
  */
@@ -281,6 +636,9 @@ export interface CommunityPost {
   rejectionReason?: string;
   reviewedAt?: string;
   reviewedBy?: string;
+  moderationFlags: string[]; // Reasons from automated pre-moderation
+  moderationScore?: number;
+  autoModeratedAt?: string;
   likesCount: number;
   commentsCount: number;
   createdAt: string;
@@ -317,6 +675,9 @@ export interface CommunityPostData {
   rejection_reason: string | null;
   reviewed_at: string | null;
   reviewed_by: string | null;
+  moderation_flags?: string[] | null;
+  moderation_score?: number | null;
+  auto_moderated_at?: string | null;
   likes_count: number;
   comments_count: number;
   created_at: string;
@@ -352,6 +713,9 @@ export const postDataToPost = (data: CommunityPostData, isLiked?: boolean): Comm
   rejectionReason: data.rejection_reason || undefined,
   reviewedAt: data.reviewed_at || undefined,
   reviewedBy: data.reviewed_by || undefined,
+  moderationFlags: data.moderation_flags || [],
+  moderationScore: data.moderation_score ?? undefined,
+  autoModeratedAt: data.auto_moderated_at || undefined,
   likesCount: data.likes_count || 0,
   commentsCount: data.comments_count || 0,
   createdAt: data.created_at,
@@ -376,7 +740,13 @@ export interface CommunityComment {
   id: string;
   postId: string;
   userId: string;
+  /** Top-level comment this reply belongs to */
+  parentId?: string;
   content: string;
+  likesCount: number;
+  repliesCount: number;
+  isLiked?: boolean;
+  mentions: CommentMention[];
   createdAt: string;
   updatedAt: string;
   user?: {
@@ -386,6 +756,11 @@ export interface CommunityComment {
   };
 }
 
+export interface CommentMention {
+  id: string;
+  fullName: string;
+}
+
 /**
  * Supabase row type for community_comments table
  */
@@ -393,7 +768,11 @@ export interface CommunityCommentData {
   id: string;
   post_id: string;
   user_id: string;
+  parent_id?: string | null;
   content: string;
+  likes_count?: number;
+  replies_count?: number;
+  mentioned_user_ids?: string[];
   created_at: string;
   updated_at: string;
   profiles?: {
@@ -401,6 +780,10 @@ export interface CommunityCommentData {
     full_name: string | null;
     avatar_url: string | null;
   };
+  mentioned_profiles?: {
+    id: string;
+    full_name: string | null;
+  }[];
 }
 
 /**
@@ -410,7 +793,13 @@ export const commentDataToComment = (data: CommunityCommentData): CommunityComme
   id: data.id,
   postId: data.post_id,
   userId: data.user_id,
+  parentId: data.parent_id || undefined,
   content: data.content,
+  likesCount: data.likes_count || 0,
+  repliesCount: data.replies_count || 0,
+  mentions: (data.mentioned_profiles || [])
+    .filter(profile => profile.full_name)
+    .map(profile => ({ id: profile.id, fullName: profile.full_name! })),
   createdAt: data.created_at,
   updatedAt: data.updated_at,
   user: data.profiles ? {
@@ -452,7 +841,8 @@ export interface ModerationLog {
 
 export type MeetingStatus = 'draft' | 'active' | 'ended' | 'cancelled';
 export type MeetingRole = 'host' | 'member';
-export type MeetingParticipantStatus = 'joined' | 'left' | 'removed';
+export type MeetingParticipantStatus = 'joined' | 'left' | 'removed' | 'pending' | 'declined';
+export type MeetingRecurrenceFrequency = 'weekly' | 'monthly';
 
 export interface MeetingSession {
   id: string;
@@ -465,6 +855,13 @@ export interface MeetingSession {
   scheduledAt?: string;
   status: MeetingStatus;
   maxParticipants: number;
+  requiresApproval: boolean;
+  durationMinutes: number;
+  timezone: string;
+  recurrenceFrequency?: MeetingRecurrenceFrequency;
+  recurrenceInterval: number;
+  recurrenceUntil?: string;
+  reminderMinutes?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -480,6 +877,13 @@ export interface MeetingSessionData {
   scheduled_at: string | null;
   status: MeetingStatus;
   max_participants: number;
+  requires_approval?: boolean;
+  duration_minutes?: number;
+  timezone?: string;
+  recurrence_frequency?: MeetingRecurrenceFrequency | null;
+  recurrence_interval?: number;
+  recurrence_until?: string | null;
+  reminder_minutes?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -495,6 +899,13 @@ export const meetingSessionDataToSession = (data: MeetingSessionData): MeetingSe
   scheduledAt: data.scheduled_at || undefined,
   status: data.status,
   maxParticipants: data.max_participants,
+  requiresApproval: !!data.requires_approval,
+  durationMinutes: data.duration_minutes || 120,
+  timezone: data.timezone || 'Europe/Nicosia',
+  recurrenceFrequency: data.recurrence_frequency || undefined,
+  recurrenceInterval: data.recurrence_interval || 1,
+  recurrenceUntil: data.recurrence_until || undefined,
+  reminderMinutes: data.reminder_minutes || undefined,
   createdAt: data.created_at,
   updatedAt: data.updated_at,
 });
@@ -552,6 +963,8 @@ export interface MeetingInvite {
   code: string;
   expiresAt?: string;
   revokedAt?: string;
+  maxUses?: number;
+  useCount: number;
   createdBy?: string;
   createdAt: string;
 }
@@ -562,6 +975,8 @@ export interface MeetingInviteData {
   code: string;
   expires_at: string | null;
   revoked_at: string | null;
+  max_uses?: number | null;
+  use_count?: number;
   created_by: string | null;
   created_at: string;
 }
@@ -572,10 +987,62 @@ export const meetingInviteDataToInvite = (data: MeetingInviteData): MeetingInvit
   code: data.code,
   expiresAt: data.expires_at || undefined,
   revokedAt: data.revoked_at || undefined,
+  maxUses: data.max_uses || undefined,
+  useCount: data.use_count || 0,
   createdBy: data.created_by || undefined,
   createdAt: data.created_at,
 });
 
+export interface MeetingMessage {
+  id: string;
+  sessionId: string;
+  userId: string;
+  body: string;
+  deletedAt?: string;
+  createdAt: string;
+  user?: {
+    id: string;
+    fullName: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface MeetingMessageData {
+  id: string;
+  session_id: string;
+  user_id: string;
+  body: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  created_at: string;
+  profiles?: {
+    id: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  };
+}
+
+export const meetingMessageDataToMessage = (data: MeetingMessageData): MeetingMessage => ({
+  id: data.id,
+  sessionId: data.session_id,
+  userId: data.user_id,
+  body: data.body,
+  deletedAt: data.deleted_at || undefined,
+  createdAt: data.created_at,
+  user: data.profiles ? {
+    id: data.profiles.id,
+    fullName: data.profiles.full_name || 'User',
+    avatarUrl: data.profiles.avatar_url || undefined,
+  } : undefined,
+});
+
+export interface RotateInviteInput {
+  /** Hours until the new code expires; omitted means no expiry */
+  expiresInHours?: number;
+  /** Joins the new code admits; omitted means unlimited */
+  maxUses?: number;
+}
+
 export interface CreateMeetingInput {
   title: string;
   description?: string;
@@ -583,4 +1050,9 @@ export interface CreateMeetingInput {
   destinationLat?: number;
   destinationLng?: number;
   scheduledAt?: string;
+  durationMinutes?: number;
+  recurrenceFrequency?: MeetingRecurrenceFrequency;
+  recurrenceInterval?: number;
+  recurrenceUntil?: string;
+  reminderMinutes?: number;
 }